@@ -0,0 +1,276 @@
+/**
+ * Tests for computing the dashboard organisms' data from repository history
+ */
+
+import { ExecutiveImpactSummarySchema } from '../../components/organisms/ExecutiveImpactSummary/types';
+import { RiskAndQualityMetricsSchema } from '../../components/organisms/RiskAndQualityMetrics/types';
+import { ROIVisualizationSchema } from '../../components/organisms/ROIVisualization/types';
+import { StrategicMilestonesSchema } from '../../components/organisms/StrategicMilestones/types';
+import { TeamVelocityDashboardSchema } from '../../components/organisms/TeamVelocityDashboard/types';
+import { GitHubUser, HistoryCommit, HistoryPullRequest, RepositoryHistory } from '../../github/types';
+import {
+  DASHBOARDS,
+  toExecutiveImpactData,
+  toRiskAndQualityData,
+  toROIVisualizationData,
+  toStrategicMilestonesData,
+  toTeamVelocityData,
+} from '..';
+
+const user = (login: string, type: GitHubUser['type'] = 'User'): GitHubUser => ({ id: login.length, login, avatar_url: '', html_url: '', type });
+
+const alice = user('alice');
+const bob = user('bob');
+const carol = user('carol');
+const dependabot = user('dependabot[bot]', 'Bot');
+
+const commit = (sha: string, author: GitHubUser, authoredAt: string, message: string, merge = false): HistoryCommit => ({
+  sha,
+  author,
+  authoredAt,
+  message,
+  merge,
+});
+
+const pullRequest = (number: number, overrides: Partial<HistoryPullRequest>): HistoryPullRequest => ({
+  number,
+  title: `Change ${number}`,
+  author: alice,
+  labels: [],
+  state: 'open',
+  createdAt: '2024-03-01T00:00:00Z',
+  additions: 10,
+  deletions: 0,
+  changedFiles: 1,
+  reviews: [],
+  ...overrides,
+});
+
+const sampleHistory = (): RepositoryHistory => ({
+  repository: { fullName: 'acme/widgets', description: 'Widgets for everyone', stars: 120, forks: 8, watchers: 6 },
+  window: { since: '2024-03-01T00:00:00Z', until: '2024-03-28T23:59:59Z' },
+  commits: [
+    commit('c1', alice, '2024-03-04T10:15:00Z', 'Add login form validation'),
+    commit('c2', alice, '2024-03-04T10:45:00Z', 'wip'),
+    commit('c3', bob, '2024-03-12T15:00:00Z', 'Fix crash when the session expires'),
+    commit('c4', dependabot, '2024-03-20T09:00:00Z', 'Bump lodash from 4.17.20 to 4.17.21'),
+    commit('c5', alice, '2024-03-25T10:00:00Z', 'Add export to CSV\n\nCo-authored-by: Bob <bob@example.com>'),
+    commit('c6', alice, '2024-03-25T11:00:00Z', 'Merge pull request #3 from acme/csv', true),
+  ],
+  pullRequests: [
+    pullRequest(1, {
+      title: 'feat: login validation',
+      labels: ['enhancement'],
+      state: 'merged',
+      createdAt: '2024-03-04T11:00:00Z',
+      closedAt: '2024-03-05T11:00:00Z',
+      mergedAt: '2024-03-05T11:00:00Z',
+      additions: 120,
+      deletions: 20,
+      changedFiles: 4,
+      reviews: [{ reviewer: bob, state: 'APPROVED', submittedAt: '2024-03-04T13:00:00Z', comments: 3 }],
+    }),
+    pullRequest(2, {
+      title: 'Fix session crash',
+      author: bob,
+      labels: ['bug'],
+      state: 'merged',
+      createdAt: '2024-03-12T16:00:00Z',
+      closedAt: '2024-03-13T16:00:00Z',
+      mergedAt: '2024-03-13T16:00:00Z',
+      additions: 30,
+      deletions: 10,
+      changedFiles: 2,
+      reviews: [
+        { reviewer: alice, state: 'CHANGES_REQUESTED', submittedAt: '2024-03-13T02:00:00Z', comments: 1 },
+        { reviewer: alice, state: 'APPROVED', submittedAt: '2024-03-13T12:00:00Z', comments: 0 },
+      ],
+    }),
+    pullRequest(3, { title: 'Add CSV export', createdAt: '2024-03-25T12:00:00Z', additions: 400, deletions: 50, changedFiles: 8 }),
+    pullRequest(4, {
+      title: 'Bump lodash',
+      author: dependabot,
+      state: 'closed',
+      createdAt: '2024-03-20T09:30:00Z',
+      closedAt: '2024-03-21T09:30:00Z',
+      additions: 1,
+      deletions: 1,
+    }),
+  ],
+  issues: [
+    {
+      number: 10,
+      title: 'Crash on logout',
+      author: carol,
+      labels: ['bug', 'priority: critical'],
+      createdAt: '2024-03-02T00:00:00Z',
+      closedAt: '2024-03-06T00:00:00Z',
+      firstResponseAt: '2024-03-02T02:00:00Z',
+    },
+    { number: 11, title: 'Add dark mode', author: carol, labels: ['enhancement'], createdAt: '2024-03-10T00:00:00Z' },
+    {
+      number: 12,
+      title: 'Refactor auth module',
+      author: bob,
+      labels: ['tech-debt'],
+      createdAt: '2024-03-15T00:00:00Z',
+      closedAt: '2024-03-20T00:00:00Z',
+    },
+  ],
+  milestones: [
+    {
+      id: '1',
+      title: 'v1.0',
+      description: 'First stable release',
+      state: 'closed',
+      createdAt: '2024-02-01T00:00:00Z',
+      dueOn: '2024-03-10T00:00:00Z',
+      closedAt: '2024-03-09T00:00:00Z',
+      openIssues: 0,
+      closedIssues: 5,
+    },
+    { id: '2', title: 'v1.1', description: '', state: 'open', createdAt: '2024-03-01T00:00:00Z', dueOn: '2024-03-20T00:00:00Z', openIssues: 3, closedIssues: 2 },
+    { id: '3', title: 'v1.2', description: '', state: 'open', createdAt: '2024-03-15T00:00:00Z', dueOn: '2024-04-01T00:00:00Z', openIssues: 4, closedIssues: 0 },
+  ],
+  releases: [{ tag: 'v1.0.0', name: 'v1.0.0', publishedAt: '2024-03-09T12:00:00Z' }],
+});
+
+const emptyHistory = (): RepositoryHistory => ({
+  ...sampleHistory(),
+  commits: [],
+  pullRequests: [],
+  issues: [],
+  milestones: [],
+  releases: [],
+});
+
+describe('toTeamVelocityData', () => {
+  it('computes commit, pull request and issue metrics over the window', () => {
+    const data = toTeamVelocityData(sampleHistory(), { sprintDays: 14 });
+
+    expect(data.teamName).toBe('acme/widgets');
+    expect(data.commitMetrics.dailyCommits).toHaveLength(28);
+    expect(data.commitMetrics.dailyCommits[3]).toEqual({ date: '2024-03-04', count: 2, weekday: 'Monday' });
+    expect(data.commitMetrics.peakCommitHour).toBe(10);
+    // "wip" is the only badly formed subject; the merge commit is not counted
+    expect(data.commitMetrics.commitQualityScore).toBe(80);
+
+    expect(data.pullRequestMetrics).toMatchObject({
+      averageReviewTime: 6,
+      averageMergeTime: 24,
+      mergeRate: 67,
+      totalPRsThisWeek: 1,
+      totalPRsMerged: 2,
+      totalPRsRejected: 1,
+      reviewEfficiency: 100,
+    });
+    expect(data.issueResolutionMetrics).toMatchObject({
+      averageResolutionTime: 108,
+      resolutionRate: 67,
+      totalIssuesOpened: 3,
+      totalIssuesClosed: 2,
+      issueBacklog: 1,
+      issuesByPriority: { critical: 1, high: 0, medium: 2, low: 0 },
+      firstResponseTime: 2,
+    });
+  });
+
+  it('leaves bots out of collaboration and counts merged pull requests per sprint', () => {
+    const data = toTeamVelocityData(sampleHistory(), { sprintDays: 14 });
+
+    expect(data.collaborationMetrics).toMatchObject({
+      activeDevelopers: 2,
+      codeReviewParticipation: 100,
+      mentorshipActivities: 1,
+      pairProgrammingSessions: 1,
+    });
+    expect(data.velocityTrends.sprintVelocity.map(sprint => sprint.storyPointsCompleted)).toEqual([2, 0]);
+    expect(data.velocityTrends.burndownTrend).toBe('declining');
+  });
+});
+
+describe('toExecutiveImpactData', () => {
+  it('reports repository health and the busiest contributors', () => {
+    const data = toExecutiveImpactData(sampleHistory());
+
+    expect(data.healthMetrics).toMatchObject({
+      stars: 120,
+      forks: 8,
+      watchers: 6,
+      contributors: 2,
+      totalCommits: 5,
+      totalPullRequests: 4,
+      openIssues: 1,
+      closedIssues: 2,
+    });
+    expect(data.teamMetrics.topContributors.map(contributor => contributor.name)).toEqual(['alice', 'bob']);
+    expect(data.activityTrends.prTrend).toMatchObject({ thisWeek: 1, lastWeek: 1, trend: 'stable' });
+  });
+});
+
+describe('toRiskAndQualityData', () => {
+  it('summarises reviews and sorts issues into categories by label', () => {
+    const data = toRiskAndQualityData(sampleHistory());
+
+    expect(data.codeReviewMetrics).toMatchObject({ totalReviews: 3, approvalRate: 67, reviewCoverageRate: 100 });
+    expect(data.codeReviewMetrics.reviewerWorkload[0]).toMatchObject({ reviewerName: 'alice', reviewCount: 2, approvalRate: 50 });
+    expect(data.issueCategorizationMetrics.categories.bugs).toMatchObject({
+      count: 1,
+      severity: { critical: 1, high: 0, medium: 0, low: 0 },
+      averageResolutionTime: 96,
+    });
+    expect(data.issueCategorizationMetrics.categories.technicalDebt.count).toBe(1);
+    expect(data.recommendations.map(recommendation => recommendation.title)).toContain('Fix critical bugs');
+  });
+});
+
+describe('toStrategicMilestonesData', () => {
+  it('maps milestones to completed, delayed and planned against the end of the window', () => {
+    const data = toStrategicMilestonesData(sampleHistory());
+
+    expect(data.milestones.map(milestone => milestone.status)).toEqual(['completed', 'delayed', 'planned']);
+    expect(data.milestones[1].progress).toBe(40);
+    expect(data.upcomingDeadlines).toEqual([{ milestoneId: '3', daysUntilDue: 4, riskLevel: 'high' }]);
+    expect(data.events.map(event => event.type)).toEqual(['achievement', 'release', 'blocker']);
+    expect(data.phases.map(phase => phase.status)).toEqual(['completed', 'active']);
+  });
+
+  it('uses releases as milestones when the repository has none', () => {
+    const data = toStrategicMilestonesData({ ...sampleHistory(), milestones: [] });
+
+    expect(data.milestones).toEqual([
+      expect.objectContaining({ id: 'release-v1.0.0', status: 'completed', description: '1 pull request merged' }),
+    ]);
+  });
+});
+
+describe('toROIVisualizationData', () => {
+  it('costs developer-days with commits at the hourly rate', () => {
+    const data = toROIVisualizationData(sampleHistory(), { hourlyRate: 100 });
+
+    expect(data.resourceAllocation).toMatchObject({ totalDevelopers: 2, totalHoursAllocated: 24, totalProjectCost: 2400 });
+    expect(data.featureDeliveryImpact).toMatchObject({ featuresDelivered: 1, featuresPlanned: 1, deliveryRate: 100 });
+    expect(data.costBenefitAnalysis.development.costPerFeature).toBe(2400);
+    expect(toROIVisualizationData(sampleHistory()).resourceAllocation.totalProjectCost).toBe(0);
+  });
+});
+
+describe('DASHBOARDS', () => {
+  const schemas = {
+    'team-velocity': TeamVelocityDashboardSchema,
+    'executive-impact': ExecutiveImpactSummarySchema,
+    'risk-quality': RiskAndQualityMetricsSchema,
+    milestones: StrategicMilestonesSchema,
+    roi: ROIVisualizationSchema,
+  };
+
+  it.each(Object.entries(DASHBOARDS))('%s builds props its composition accepts', (kind, dashboard) => {
+    for (const history of [sampleHistory(), emptyHistory()]) {
+      const data = dashboard.build(history, { sprintDays: 7, hourlyRate: 80 });
+
+      expect(() => schemas[kind as keyof typeof schemas].parse({ data })).not.toThrow();
+      // NaN and Infinity serialise as null
+      expect(JSON.stringify(data)).not.toContain('null');
+    }
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * `data` props for the dashboard compositions, computed from repository history, and the registry that maps
+ * each dashboard to its composition
+ */
+
+import { ExecutiveImpactSummaryData } from '../components/organisms/ExecutiveImpactSummary/types';
+import { RiskAndQualityData } from '../components/organisms/RiskAndQualityMetrics/types';
+import { TeamVelocityData } from '../components/organisms/TeamVelocityDashboard/types';
+import { RepositoryHistory } from '../github/types';
+import {
+  activityTrends,
+  average,
+  clampScore,
+  codeReviewMetrics,
+  collaborationMetrics,
+  commitMetrics,
+  healthScore,
+  issueCategorizationMetrics,
+  issueResolutionMetrics,
+  mergedIn,
+  periodLabel,
+  priorityOf,
+  pullRequestMetrics,
+  referenceTime,
+  repositoryHealthMetrics,
+  reviewCoverage,
+  sprintPeriods,
+  teamMetrics,
+  velocityTrends,
+} from './metrics';
+import { toStrategicMilestonesData } from './milestones';
+import { isoDay, toPeriod, within } from './periods';
+import { toROIVisualizationData } from './roi';
+import { DashboardDefinition, DashboardKind, DashboardOptions } from './types';
+
+const LARGE_PULL_REQUEST_LINES = 400;
+
+export function toTeamVelocityData(history: RepositoryHistory, options: DashboardOptions = {}): TeamVelocityData {
+  const period = toPeriod(history.window);
+  const commits = commitMetrics(history, options);
+  const pullRequests = pullRequestMetrics(history, options);
+  const issues = issueResolutionMetrics(history);
+  const collaboration = collaborationMetrics(history);
+
+  const recommendedActions: TeamVelocityData['recommendedActions'] = [];
+  if (pullRequests.averageReviewTime > 24) {
+    recommendedActions.push({
+      category: 'efficiency',
+      priority: 'high',
+      action: 'Shorten the wait for a first review',
+      expectedImpact: `First reviews take ${Math.round(pullRequests.averageReviewTime)}h on average`,
+    });
+  }
+  if (pullRequests.averagePRSize.linesAdded + pullRequests.averagePRSize.linesDeleted > LARGE_PULL_REQUEST_LINES) {
+    recommendedActions.push({
+      category: 'process',
+      priority: 'medium',
+      action: 'Split large pull requests',
+      expectedImpact: 'Faster, more thorough reviews',
+    });
+  }
+  if (collaboration.activeDevelopers > 1 && collaboration.codeReviewParticipation < 50) {
+    recommendedActions.push({
+      category: 'collaboration',
+      priority: 'medium',
+      action: 'Spread reviews across the team',
+      expectedImpact: `${collaboration.codeReviewParticipation}% of contributors review today`,
+    });
+  }
+  if (commits.dailyCommits.some(day => day.count > 0) && commits.commitQualityScore < 70) {
+    recommendedActions.push({
+      category: 'quality',
+      priority: 'low',
+      action: 'Write descriptive commit subjects',
+      expectedImpact: 'Easier history to search and bisect',
+    });
+  }
+  if (issues.issueBacklog > issues.totalIssuesClosed) {
+    recommendedActions.push({
+      category: 'process',
+      priority: 'medium',
+      action: 'Triage the issue backlog',
+      expectedImpact: `${issues.issueBacklog} issues still open`,
+    });
+  }
+
+  return {
+    teamName: options.teamName || history.repository.fullName,
+    reportingPeriod: { startDate: history.window.since, endDate: history.window.until, periodLabel: periodLabel(period) },
+    commitMetrics: commits,
+    pullRequestMetrics: pullRequests,
+    issueResolutionMetrics: issues,
+    collaborationMetrics: collaboration,
+    velocityTrends: velocityTrends(history, options),
+    overallVelocityScore: clampScore(
+      average([pullRequests.reviewEfficiency, pullRequests.mergeRate, commits.commitQualityScore, collaboration.collaborationScore])
+    ),
+    recommendedActions,
+  };
+}
+
+/**
+ * Uptime, security and satisfaction have no source in repository history and stay zero
+ */
+export function toExecutiveImpactData(history: RepositoryHistory, options: DashboardOptions = {}): ExecutiveImpactSummaryData {
+  const period = toPeriod(history.window);
+  const sprints = sprintPeriods(history, options);
+
+  return {
+    repositoryName: options.teamName || history.repository.fullName,
+    repositoryDescription: history.repository.description,
+    healthMetrics: repositoryHealthMetrics(history),
+    activityTrends: activityTrends(history, options),
+    teamMetrics: teamMetrics(history, options),
+    kpis: {
+      codeQualityScore: healthScore(history),
+      // Merged pull requests per sprint
+      deliveryVelocity: Math.round(average(sprints.map(sprint => mergedIn(history, sprint).length))),
+      customerSatisfaction: 0,
+      technicalDebtRatio: issueCategorizationMetrics(history).categories.technicalDebt.percentage,
+      uptime: 0,
+      securityScore: 0,
+    },
+    timeframe: { startDate: history.window.since, endDate: history.window.until, period: periodLabel(period) },
+  };
+}
+
+/**
+ * Code review, issue categories and quality trends come from history; security scans, complexity and coverage
+ * need tools outside git and stay zero
+ */
+export function toRiskAndQualityData(history: RepositoryHistory, options: DashboardOptions = {}): RiskAndQualityData {
+  const period = toPeriod(history.window);
+  const reviews = codeReviewMetrics(history);
+  const issues = issueCategorizationMetrics(history);
+  const merged = mergedIn(history, period);
+  const isBug = (labels: string[]) => labels.some(label => /\b(bug|defect|regression|crash)\b/i.test(label));
+  const sprints = sprintPeriods(history, options).map(sprint => {
+    const bugs = history.issues.filter(issue => within(issue.createdAt, sprint) && isBug(issue.labels)).length;
+    const linesChanged = mergedIn(history, sprint).reduce((sum, pullRequest) => sum + pullRequest.additions + pullRequest.deletions, 0);
+    const changesRequested = history.pullRequests
+      .flatMap(pullRequest => pullRequest.reviews)
+      .filter(review => review.state === 'CHANGES_REQUESTED' && within(review.submittedAt, sprint)).length;
+    return { date: isoDay(sprint.start), bugs, linesChanged, changesRequested };
+  });
+
+  // Unreviewed merges, the share of bug reports and issues left unresolved, for whichever the window has
+  const risks = [
+    ...(merged.length > 0 ? [100 - reviewCoverage(merged)] : []),
+    ...(issues.totalIssues > 0 ? [issues.categories.bugs.percentage, 100 - issueResolutionMetrics(history).resolutionRate] : []),
+  ];
+  const criticalBugs = history.issues.filter(
+    issue => within(issue.createdAt, period) && isBug(issue.labels) && priorityOf(issue.labels) === 'critical'
+  ).length;
+
+  const recommendations: RiskAndQualityData['recommendations'] = [];
+  if (merged.length > 0 && reviews.reviewCoverageRate < 80) {
+    recommendations.push({
+      category: 'process',
+      priority: 'high',
+      title: 'Review every change before merging',
+      description: `${100 - reviews.reviewCoverageRate}% of merged pull requests had no review`,
+      expectedImpact: 'Fewer defects reaching the main branch',
+      estimatedEffort: 'Days',
+    });
+  }
+  if (criticalBugs > 0) {
+    recommendations.push({
+      category: 'process',
+      priority: 'immediate',
+      title: 'Fix critical bugs',
+      description: `${criticalBugs} critical bug${criticalBugs === 1 ? ' was' : 's were'} reported in the window`,
+      expectedImpact: 'Lower production risk',
+      estimatedEffort: 'Days',
+    });
+  }
+  if (reviews.reviewerWorkload.length > 1 && reviews.reviewerWorkload[0].reviewCount > reviews.totalReviews / 2) {
+    recommendations.push({
+      category: 'training',
+      priority: 'medium',
+      title: 'Share the review load',
+      description: `${reviews.reviewerWorkload[0].reviewerName} did ${reviews.reviewerWorkload[0].reviewCount} of ${reviews.totalReviews} reviews`,
+      expectedImpact: 'Shorter review queues and shared knowledge',
+      estimatedEffort: 'Weeks',
+    });
+  }
+
+  return {
+    projectName: options.teamName || history.repository.fullName,
+    evaluationDate: new Date(referenceTime(history, options)).toISOString(),
+    overallRiskScore: clampScore(average(risks)),
+    overallQualityScore: healthScore(history),
+    codeReviewMetrics: reviews,
+    issueCategorizationMetrics: issues,
+    securityMetrics: {
+      vulnerabilities: { total: 0, critical: 0, high: 0, medium: 0, low: 0 },
+      securityScans: { frequency: 'unknown', lastScanDate: '', passRate: 0, averageFixTime: 0 },
+      dependencyHealth: { totalDependencies: 0, outdatedDependencies: 0, vulnerableDependencies: 0, licenseIssues: 0 },
+      complianceScore: 0,
+      securityPractices: {
+        twoFactorAuthEnabled: false,
+        codeSigningEnabled: false,
+        secretsManagementEnabled: false,
+        automaticSecurityUpdates: false,
+      },
+    },
+    technicalDebtIndicators: {
+      overallDebtScore: issues.categories.technicalDebt.percentage,
+      codeComplexity: { averageCyclomaticComplexity: 0, highComplexityFiles: 0, maintainabilityIndex: 0 },
+      codeSmells: { duplicatedCode: 0, longMethods: 0, largeClasses: 0, deadCode: 0 },
+      testCoverage: { overallCoverage: 0, unitTestCoverage: 0, integrationTestCoverage: 0, missingTestFiles: 0 },
+      documentation: { codeDocumentationCoverage: 0, outdatedDocumentation: 0, missingReadmes: 0 },
+      refactoringNeeds: [],
+    },
+    qualityTrends: {
+      timeframe: periodLabel(period),
+      codeQualityTrend: velocityTrends(history, options).qualityTrend,
+      bugIntroductionRate: sprints.map(sprint => ({ date: sprint.date, bugsIntroduced: sprint.bugs, linesOfCodeChanged: sprint.linesChanged })),
+      defectDensity: sprints.map(sprint => ({
+        date: sprint.date,
+        defectsPerKLOC: sprint.linesChanged > 0 ? Math.round((sprint.bugs / (sprint.linesChanged / 1000)) * 10) / 10 : 0,
+      })),
+      // Requested changes stand in for problems caught in review; bug reports for those that got through
+      reviewEffectiveness: sprints.map(sprint => ({ date: sprint.date, bugsFoundInReview: sprint.changesRequested, bugsFoundInProduction: sprint.bugs })),
+    },
+    recommendations,
+  };
+}
+
+export const DASHBOARDS: Record<DashboardKind, DashboardDefinition> = {
+  'team-velocity': { compositionId: 'TeamVelocityDashboard', title: 'Team Velocity', build: toTeamVelocityData },
+  'executive-impact': { compositionId: 'ExecutiveImpactSummary', title: 'Executive Impact Summary', build: toExecutiveImpactData },
+  'risk-quality': { compositionId: 'RiskAndQualityMetrics', title: 'Risk and Quality', build: toRiskAndQualityData },
+  milestones: { compositionId: 'StrategicMilestones', title: 'Strategic Milestones', build: toStrategicMilestonesData },
+  roi: { compositionId: 'ROIVisualization', title: 'Return on Investment', build: toROIVisualizationData },
+};
@@ -0,0 +1,11 @@
+/**
+ * Team dashboards from repository history
+ * Aggregate commits, pull requests, issues, milestones and releases over a window into the dashboard organisms' data
+ */
+
+export * from './types';
+export * from './periods';
+export * from './metrics';
+export * from './milestones';
+export * from './roi';
+export * from './dashboards';
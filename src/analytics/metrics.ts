@@ -0,0 +1,491 @@
+/**
+ * Aggregators that compute the dashboard organisms' metric blocks (commits, pull requests, issues, reviews,
+ * collaboration, repository health) from repository history
+ */
+
+import { ActivityTrends, RepositoryHealthMetrics, TeamMetrics } from '../components/organisms/ExecutiveImpactSummary/types';
+import { CodeReviewMetrics, IssueCategorizationMetrics } from '../components/organisms/RiskAndQualityMetrics/types';
+import {
+  CollaborationMetrics,
+  CommitMetrics,
+  IssueResolutionMetrics,
+  PullRequestMetrics,
+  VelocityTrends,
+} from '../components/organisms/TeamVelocityDashboard/types';
+import { ReleaseCategory, ReleaseTransformer } from '../github/releaseTransformer';
+import { GitHubUser, HistoryIssue, HistoryPullRequest, HistoryReview, RepositoryHistory } from '../github/types';
+import { days, halves, hoursBetween, isoDay, Period, periodDays, sprints, toPeriod, weekday, weeks, within } from './periods';
+import { DashboardOptions } from './types';
+
+/**
+ * What one person did in the window
+ */
+export interface ContributorActivity {
+  user: GitHubUser;
+  commits: number;
+  pullRequests: number;
+  reviews: number;
+}
+
+export type Priority = 'critical' | 'high' | 'medium' | 'low';
+
+type Direction = 'up' | 'stable' | 'down';
+
+const DEFAULT_SPRINT_DAYS = 14;
+
+const PRIORITY_LABELS: Array<[Priority, RegExp]> = [
+  ['critical', /\b(critical|p0|urgent|blocker|sev[- ]?[01])\b/i],
+  ['high', /\b(high|p1|sev[- ]?2)\b/i],
+  ['low', /\b(low|p3|p4|minor|sev[- ]?[34])\b/i],
+];
+
+const ISSUE_CATEGORIES: Array<[keyof IssueCategorizationMetrics['categories'], RegExp]> = [
+  ['bugs', /\b(bug|defect|regression|crash)\b/i],
+  ['features', /\b(feature|enhancement|feat)\b/i],
+  ['technicalDebt', /\b(tech(nical)?[- ]?debt|refactor(ing)?|cleanup)\b/i],
+  ['documentation', /\b(docs?|documentation)\b/i],
+  ['maintenance', /\b(chore|maintenance|dependencies|deps|ci|infra(structure)?)\b/i],
+];
+
+const COMPLEX_LABEL = /\b(size[:/ ]?(l|xl)|large|complex|epic)\b/i;
+const SIMPLE_LABEL = /\b(size[:/ ]?(xs|s)|small|trivial|good first issue)\b/i;
+
+// Commits that repair earlier work; their share says whether quality is slipping
+const FIX_COMMIT = /^(fix|hotfix|revert)\b|^Revert "/i;
+const CO_AUTHOR_TRAILER = /^co-authored-by:/im;
+
+const categorizer = new ReleaseTransformer();
+
+export const round = (value: number, digits = 1): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export const percentage = (part: number, whole: number): number => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+export const clampScore = (score: number): number => Math.min(100, Math.max(0, Math.round(score)));
+
+export const isBot = (user: GitHubUser): boolean => user.type === 'Bot' || /\[bot\]$/.test(user.login);
+
+/**
+ * `now` from the options, else the end of the window
+ */
+export const referenceTime = (history: RepositoryHistory, options: DashboardOptions = {}): number =>
+  Date.parse(options.now || history.window.until);
+
+export const sprintPeriods = (history: RepositoryHistory, options: DashboardOptions = {}): Period[] =>
+  sprints(toPeriod(history.window), options.sprintDays || DEFAULT_SPRINT_DAYS);
+
+/**
+ * Change between two counts, ignoring moves of less than a tenth
+ */
+export function direction(current: number, previous: number): Direction {
+  if (previous === 0) {
+    return current > 0 ? 'up' : 'stable';
+  }
+  const change = (current - previous) / previous;
+  return change > 0.1 ? 'up' : change < -0.1 ? 'down' : 'stable';
+}
+
+export function priorityOf(labels: string[]): Priority {
+  return PRIORITY_LABELS.find(([, pattern]) => labels.some(label => pattern.test(label)))?.[0] || 'medium';
+}
+
+/**
+ * Reviews by anyone but the author, in the order they were submitted
+ */
+export function reviewsByOthers(pullRequest: HistoryPullRequest): HistoryReview[] {
+  return pullRequest.reviews
+    .filter(review => review.reviewer.login !== pullRequest.author.login && review.state !== 'PENDING')
+    .sort((a, b) => Date.parse(a.submittedAt) - Date.parse(b.submittedAt));
+}
+
+/**
+ * Hours from opening to the first review by someone else; null when nobody reviewed
+ */
+export function hoursToFirstReview(pullRequest: HistoryPullRequest): number | null {
+  const [first] = reviewsByOthers(pullRequest);
+  return first ? hoursBetween(pullRequest.createdAt, first.submittedAt) : null;
+}
+
+/**
+ * Feature, fix or chore, by the same labels and conventional-commit prefixes as the release notes
+ */
+export const changeCategory = (pullRequest: HistoryPullRequest): ReleaseCategory =>
+  categorizer.categorizeChange(pullRequest.title, pullRequest.labels);
+
+export const mergedIn = (history: RepositoryHistory, period: Period): HistoryPullRequest[] =>
+  history.pullRequests.filter(pullRequest => pullRequest.state === 'merged' && within(pullRequest.mergedAt, period));
+
+export const stillOpen = (issue: HistoryIssue, period: Period): boolean =>
+  !issue.closedAt || Date.parse(issue.closedAt) > period.end;
+
+/**
+ * Everyone who committed, opened a pull request or reviewed one in the period, busiest first; bots are left out
+ */
+export function contributors(history: RepositoryHistory, period: Period = toPeriod(history.window)): ContributorActivity[] {
+  const byLogin = new Map<string, ContributorActivity>();
+  const credit = (user: GitHubUser, field: 'commits' | 'pullRequests' | 'reviews') => {
+    if (isBot(user)) {
+      return;
+    }
+    const key = user.login.toLowerCase();
+    const activity = byLogin.get(key) || { user, commits: 0, pullRequests: 0, reviews: 0 };
+    activity[field]++;
+    byLogin.set(key, activity);
+  };
+
+  history.commits.filter(commit => !commit.merge && within(commit.authoredAt, period)).forEach(commit => credit(commit.author, 'commits'));
+  history.pullRequests.forEach(pullRequest => {
+    if (within(pullRequest.createdAt, period)) {
+      credit(pullRequest.author, 'pullRequests');
+    }
+    reviewsByOthers(pullRequest)
+      .filter(review => within(review.submittedAt, period))
+      .forEach(review => credit(review.reviewer, 'reviews'));
+  });
+
+  const total = (activity: ContributorActivity) => activity.commits + activity.pullRequests + activity.reviews;
+  return Array.from(byLogin.values()).sort((a, b) => total(b) - total(a) || a.user.login.localeCompare(b.user.login));
+}
+
+/**
+ * Distinct person-days with at least one commit, the basis of the effort and cost estimates
+ */
+export function developerDays(history: RepositoryHistory, period: Period = toPeriod(history.window)): number {
+  const worked = new Set(
+    history.commits
+      .filter(commit => !commit.merge && !isBot(commit.author) && within(commit.authoredAt, period))
+      .map(commit => `${commit.author.login.toLowerCase()} ${isoDay(Date.parse(commit.authoredAt))}`)
+  );
+  return worked.size;
+}
+
+/**
+ * `2024-01-01 – 2024-01-31`
+ */
+export const periodLabel = (period: Period): string => `${isoDay(period.start)} – ${isoDay(period.end)}`;
+
+/**
+ * Subject between 10 and 72 characters that isn't a work-in-progress or fixup marker
+ */
+export function isWellFormedCommit(message: string): boolean {
+  const subject = message.split('\n')[0].trim();
+  return subject.length >= 10 && subject.length <= 72 && !/^(wip\b|fixup!|squash!)/i.test(subject);
+}
+
+/**
+ * Hour of day a commit was authored, in the author's own timezone when the timestamp carries one
+ */
+function commitHour(date: string): number {
+  const hour = /T(\d{2}):/.exec(date);
+  return hour ? Number(hour[1]) : new Date(date).getUTCHours();
+}
+
+export function commitMetrics(history: RepositoryHistory, options: DashboardOptions = {}): CommitMetrics {
+  const period = toPeriod(history.window);
+  const { thisWeek } = weeks(referenceTime(history, options));
+  const commits = history.commits.filter(commit => !commit.merge);
+  const averageCommitsPerDay = round(commits.length / periodDays(period));
+
+  const perHour = new Array<number>(24).fill(0);
+  commits.forEach(commit => perHour[commitHour(commit.authoredAt)]++);
+
+  return {
+    dailyCommits: days(period).map(day => ({
+      date: isoDay(day.start),
+      count: commits.filter(commit => within(commit.authoredAt, day)).length,
+      weekday: weekday(day.start),
+    })),
+    averageCommitsPerDay,
+    totalCommitsThisWeek: commits.filter(commit => within(commit.authoredAt, thisWeek)).length,
+    peakCommitHour: commits.length > 0 ? perHour.indexOf(Math.max(...perHour)) : 0,
+    commitFrequency: averageCommitsPerDay >= 5 ? 'high' : averageCommitsPerDay >= 1 ? 'medium' : 'low',
+    commitQualityScore: percentage(commits.filter(commit => isWellFormedCommit(commit.message)).length, commits.length),
+  };
+}
+
+export function pullRequestMetrics(history: RepositoryHistory, options: DashboardOptions = {}): PullRequestMetrics {
+  const period = toPeriod(history.window);
+  const { thisWeek } = weeks(referenceTime(history, options));
+  const pullRequests = history.pullRequests;
+  const merged = mergedIn(history, period);
+  const rejected = pullRequests.filter(pullRequest => pullRequest.state === 'closed' && within(pullRequest.closedAt, period));
+  const reviewWaits = pullRequests.map(hoursToFirstReview).filter((hours): hours is number => hours !== null);
+
+  return {
+    averageReviewTime: round(average(reviewWaits)),
+    averageMergeTime: round(average(merged.map(pullRequest => hoursBetween(pullRequest.createdAt, pullRequest.mergedAt!)))),
+    mergeRate: percentage(merged.length, merged.length + rejected.length),
+    totalPRsThisWeek: pullRequests.filter(pullRequest => within(pullRequest.createdAt, thisWeek)).length,
+    totalPRsMerged: merged.length,
+    totalPRsRejected: rejected.length,
+    averagePRSize: {
+      linesAdded: Math.round(average(pullRequests.map(pullRequest => pullRequest.additions))),
+      linesDeleted: Math.round(average(pullRequests.map(pullRequest => pullRequest.deletions))),
+      filesChanged: Math.round(average(pullRequests.map(pullRequest => pullRequest.changedFiles))),
+    },
+    // Share of reviewed pull requests that got their first review within a day
+    reviewEfficiency: percentage(reviewWaits.filter(hours => hours <= 24).length, reviewWaits.length),
+  };
+}
+
+export function issueResolutionMetrics(history: RepositoryHistory): IssueResolutionMetrics {
+  const period = toPeriod(history.window);
+  const opened = history.issues.filter(issue => within(issue.createdAt, period));
+  const closed = history.issues.filter(issue => within(issue.closedAt, period));
+  const responses = history.issues.filter(issue => issue.firstResponseAt);
+
+  const issuesByPriority = { critical: 0, high: 0, medium: 0, low: 0 };
+  opened.forEach(issue => issuesByPriority[priorityOf(issue.labels)]++);
+
+  return {
+    averageResolutionTime: round(average(closed.map(issue => hoursBetween(issue.createdAt, issue.closedAt!)))),
+    resolutionRate: percentage(opened.filter(issue => !stillOpen(issue, period)).length, opened.length),
+    totalIssuesOpened: opened.length,
+    totalIssuesClosed: closed.length,
+    // Issues opened or closed in the window that were still open at its end
+    issueBacklog: history.issues.filter(issue => stillOpen(issue, period)).length,
+    issuesByPriority,
+    firstResponseTime: round(average(responses.map(issue => hoursBetween(issue.createdAt, issue.firstResponseAt!)))),
+  };
+}
+
+/**
+ * Review participation and coverage; git and GitHub record nothing about teams, mentoring or knowledge-sharing
+ * sessions, so those stay zero apart from thorough reviews (mentoring) and co-authored commits (pairing)
+ */
+export function collaborationMetrics(history: RepositoryHistory): CollaborationMetrics {
+  const people = contributors(history);
+  const codeReviewParticipation = percentage(people.filter(person => person.reviews > 0).length, people.length);
+  const coverage = reviewCoverage(history.pullRequests);
+
+  return {
+    activeDevelopers: people.length,
+    codeReviewParticipation,
+    crossTeamContributions: 0,
+    mentorshipActivities: history.pullRequests.flatMap(reviewsByOthers).filter(review => review.comments >= 3).length,
+    knowledgeSharingEvents: 0,
+    pairProgrammingSessions: history.commits.filter(commit => CO_AUTHOR_TRAILER.test(commit.message)).length,
+    collaborationScore: Math.round((codeReviewParticipation + coverage) / 2),
+  };
+}
+
+/**
+ * Merged pull requests per sprint (standing in for story points), and whether commits, delivery and fix
+ * commits rose or fell between the two halves of the window
+ */
+export function velocityTrends(history: RepositoryHistory, options: DashboardOptions = {}): VelocityTrends {
+  const periods = sprintPeriods(history, options);
+  const points = periods.map(sprint => mergedIn(history, sprint).length);
+  const [first, second] = halves(toPeriod(history.window));
+  const commitsIn = (half: Period) => history.commits.filter(commit => !commit.merge && within(commit.authoredAt, half));
+  const fixShare = (half: Period) => {
+    const commits = commitsIn(half);
+    return commits.length > 0 ? commits.filter(commit => FIX_COMMIT.test(commit.message)).length / commits.length : 0;
+  };
+
+  const burndown = periods.length > 1 ? direction(points[points.length - 1], average(points.slice(0, -1))) : 'stable';
+  // A falling share of fix commits means fewer regressions to repair
+  const quality = direction(fixShare(second) * 100, fixShare(first) * 100);
+
+  return {
+    sprintVelocity: periods.map((sprint, index) => ({
+      sprintNumber: index + 1,
+      storyPointsCompleted: points[index],
+      sprintGoalAchieved: points[index] > 0 && points[index] >= average(points.slice(0, index)),
+      sprintDate: isoDay(sprint.start),
+    })),
+    burndownTrend: burndown === 'up' ? 'improving' : burndown === 'down' ? 'declining' : 'stable',
+    productivityTrend: direction(commitsIn(second).length, commitsIn(first).length),
+    qualityTrend: quality === 'down' ? 'improving' : quality === 'up' ? 'declining' : 'stable',
+  };
+}
+
+/**
+ * Percentage of pull requests reviewed by someone other than their author
+ */
+export function reviewCoverage(pullRequests: HistoryPullRequest[]): number {
+  return percentage(pullRequests.filter(pullRequest => reviewsByOthers(pullRequest).length > 0).length, pullRequests.length);
+}
+
+/**
+ * 0-100: the mean of the merge rate, review coverage, issue resolution rate and commit quality, leaving out
+ * whichever the history has nothing to measure
+ */
+export function healthScore(history: RepositoryHistory): number {
+  const period = toPeriod(history.window);
+  const merged = mergedIn(history, period).length;
+  const rejected = history.pullRequests.filter(pullRequest => pullRequest.state === 'closed' && within(pullRequest.closedAt, period)).length;
+  const commits = history.commits.filter(commit => !commit.merge);
+  const opened = history.issues.filter(issue => within(issue.createdAt, period));
+
+  const scores = [
+    ...(merged + rejected > 0 ? [percentage(merged, merged + rejected)] : []),
+    ...(history.pullRequests.length > 0 ? [reviewCoverage(history.pullRequests)] : []),
+    ...(opened.length > 0 ? [issueResolutionMetrics(history).resolutionRate] : []),
+    ...(commits.length > 0 ? [percentage(commits.filter(commit => isWellFormedCommit(commit.message)).length, commits.length)] : []),
+  ];
+  return clampScore(average(scores));
+}
+
+export function repositoryHealthMetrics(history: RepositoryHistory): RepositoryHealthMetrics {
+  const period = toPeriod(history.window);
+  const { stars, forks, watchers } = history.repository;
+
+  return {
+    stars,
+    forks,
+    watchers,
+    contributors: contributors(history).length,
+    totalCommits: history.commits.filter(commit => !commit.merge).length,
+    totalPullRequests: history.pullRequests.length,
+    totalIssues: history.issues.length,
+    openIssues: history.issues.filter(issue => stillOpen(issue, period)).length,
+    closedIssues: history.issues.filter(issue => within(issue.closedAt, period)).length,
+    healthScore: healthScore(history),
+  };
+}
+
+/**
+ * Commits, opened pull requests and opened issues in the seven days up to `now` against the seven before
+ */
+export function activityTrends(history: RepositoryHistory, options: DashboardOptions = {}): ActivityTrends {
+  const { thisWeek, lastWeek } = weeks(referenceTime(history, options));
+  const trend = (dates: string[]) => {
+    const current = dates.filter(date => within(date, thisWeek)).length;
+    const previous = dates.filter(date => within(date, lastWeek)).length;
+    return {
+      thisWeek: current,
+      lastWeek: previous,
+      trend: current > previous ? 'up' as const : current < previous ? 'down' as const : 'stable' as const,
+      percentChange: previous > 0 ? round(((current - previous) / previous) * 100) : current > 0 ? 100 : 0,
+    };
+  };
+
+  return {
+    commitTrend: trend(history.commits.filter(commit => !commit.merge).map(commit => commit.authoredAt)),
+    prTrend: trend(history.pullRequests.map(pullRequest => pullRequest.createdAt)),
+    issueTrend: trend(history.issues.map(issue => issue.createdAt)),
+  };
+}
+
+/**
+ * Contributors in the window and this week, and the five busiest; history alone can't tell who joined the
+ * team, so growth stays zero
+ */
+export function teamMetrics(history: RepositoryHistory, options: DashboardOptions = {}): TeamMetrics {
+  const people = contributors(history);
+  const { thisWeek } = weeks(referenceTime(history, options));
+
+  return {
+    totalMembers: people.length,
+    activeMembers: contributors(history, thisWeek).length,
+    newMembersThisMonth: 0,
+    topContributors: people.slice(0, 5).map(person => ({
+      name: person.user.name || person.user.login,
+      avatar: person.user.avatar_url,
+      contributions: person.commits + person.pullRequests + person.reviews,
+      role: person.reviews > person.commits + person.pullRequests ? 'Reviewer' : 'Developer',
+    })),
+    teamGrowthRate: 0,
+  };
+}
+
+export function codeReviewMetrics(history: RepositoryHistory): CodeReviewMetrics {
+  const period = toPeriod(history.window);
+  const reviews = history.pullRequests.flatMap(pullRequest =>
+    reviewsByOthers(pullRequest).map(review => ({ review, hours: hoursBetween(pullRequest.createdAt, review.submittedAt) }))
+  );
+  const approvals = reviews.filter(({ review }) => review.state === 'APPROVED').length;
+  const changesRequested = reviews.filter(({ review }) => review.state === 'CHANGES_REQUESTED').length;
+  const people = contributors(history);
+
+  const byReviewer = new Map<string, typeof reviews>();
+  reviews.forEach(entry => byReviewer.set(entry.review.reviewer.login, [...(byReviewer.get(entry.review.reviewer.login) || []), entry]));
+
+  return {
+    totalReviews: reviews.length,
+    approvalRate: percentage(approvals, approvals + changesRequested),
+    averageReviewTime: round(average(history.pullRequests.map(hoursToFirstReview).filter((hours): hours is number => hours !== null))),
+    reviewCoverageRate: reviewCoverage(mergedIn(history, period)),
+    reviewParticipation: percentage(people.filter(person => person.reviews > 0).length, people.length),
+    reviewDepth: {
+      thoroughReviews: reviews.filter(({ review }) => review.comments >= 3).length,
+      quickApprovals: reviews.filter(({ review }) => review.state === 'APPROVED' && review.comments === 0).length,
+      averageCommentsPerReview: round(average(reviews.map(({ review }) => review.comments))),
+    },
+    reviewerWorkload: Array.from(byReviewer.entries())
+      .map(([reviewerName, entries]) => ({
+        reviewerName,
+        reviewCount: entries.length,
+        // Hours from the pull request opening to this reviewer's review
+        averageTimePerReview: round(average(entries.map(entry => entry.hours))),
+        approvalRate: percentage(entries.filter(({ review }) => review.state === 'APPROVED').length, entries.length),
+      }))
+      .sort((a, b) => b.reviewCount - a.reviewCount || a.reviewerName.localeCompare(b.reviewerName)),
+  };
+}
+
+/**
+ * Issues opened in the window sorted into categories by label; each issue counts towards its first match
+ */
+export function issueCategorizationMetrics(history: RepositoryHistory): IssueCategorizationMetrics {
+  const period = toPeriod(history.window);
+  const opened = history.issues.filter(issue => within(issue.createdAt, period));
+  const inCategory = (name: keyof IssueCategorizationMetrics['categories'], issues: HistoryIssue[] = opened) =>
+    issues.filter(issue => ISSUE_CATEGORIES.find(([, pattern]) => issue.labels.some(label => pattern.test(label)))?.[0] === name);
+  const resolutionHours = (issues: HistoryIssue[]) =>
+    round(average(issues.filter(issue => !stillOpen(issue, period)).map(issue => hoursBetween(issue.createdAt, issue.closedAt!))));
+  const bucket = (issues: HistoryIssue[]) => ({ count: issues.length, percentage: percentage(issues.length, opened.length) });
+  const countBy = <K extends string>(issues: HistoryIssue[], keys: K[], key: (issue: HistoryIssue) => K) =>
+    keys.reduce((counts, name) => ({ ...counts, [name]: issues.filter(issue => key(issue) === name).length }), {} as Record<K, number>);
+
+  const bugs = inCategory('bugs');
+  const features = inCategory('features');
+  const technicalDebt = inCategory('technicalDebt');
+  const documentation = inCategory('documentation');
+  const maintenance = inCategory('maintenance');
+
+  const [first, second] = halves(period);
+  const openedIn = (half: Period) => history.issues.filter(issue => within(issue.createdAt, half));
+  const trend = (current: number, previous: number) => {
+    const change = direction(current, previous);
+    return change === 'up' ? 'increasing' as const : change === 'down' ? 'decreasing' as const : 'stable' as const;
+  };
+  const featuresMerged = (half: Period) =>
+    mergedIn(history, half).filter(pullRequest => changeCategory(pullRequest) === 'features').length;
+
+  return {
+    totalIssues: opened.length,
+    categories: {
+      bugs: {
+        ...bucket(bugs),
+        severity: countBy(bugs, ['critical', 'high', 'medium', 'low'], issue => priorityOf(issue.labels)),
+        averageResolutionTime: resolutionHours(bugs),
+      },
+      features: {
+        ...bucket(features),
+        complexity: countBy(features, ['complex', 'medium', 'simple'], issue =>
+          issue.labels.some(label => COMPLEX_LABEL.test(label)) ? 'complex' : issue.labels.some(label => SIMPLE_LABEL.test(label)) ? 'simple' : 'medium'
+        ),
+        averageImplementationTime: resolutionHours(features),
+      },
+      technicalDebt: {
+        ...bucket(technicalDebt),
+        impact: countBy(technicalDebt, ['high', 'medium', 'low'], issue => {
+          const priority = priorityOf(issue.labels);
+          return priority === 'critical' ? 'high' : priority;
+        }),
+        estimatedEffortHours: 0,
+      },
+      documentation: { ...bucket(documentation), averageCompletionTime: resolutionHours(documentation) },
+      maintenance: { ...bucket(maintenance), averageCompletionTime: resolutionHours(maintenance) },
+    },
+    trendAnalysis: {
+      bugTrend: trend(inCategory('bugs', openedIn(second)).length, inCategory('bugs', openedIn(first)).length),
+      technicalDebtTrend: trend(inCategory('technicalDebt', openedIn(second)).length, inCategory('technicalDebt', openedIn(first)).length),
+      featureVelocityTrend: trend(featuresMerged(second), featuresMerged(first)),
+    },
+  };
+}
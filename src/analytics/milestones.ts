@@ -0,0 +1,221 @@
+/**
+ * StrategicMilestones data from repository history: GitHub milestones (or releases, when the repository has
+ * none) on a timeline split into sprint-long phases
+ */
+
+import { Milestone, ProjectPhase, StrategicMilestonesData, TimelineEvent } from '../components/organisms/StrategicMilestones/types';
+import { HistoryMilestone, HistoryRelease, RepositoryHistory } from '../github/types';
+import {
+  average,
+  contributors,
+  developerDays,
+  healthScore,
+  mergedIn,
+  percentage,
+  periodLabel,
+  referenceTime,
+  round,
+  sprintPeriods,
+} from './metrics';
+import { DAY, Period, periodDays, toPeriod, within } from './periods';
+import { DashboardOptions } from './types';
+
+const HOURS_PER_DAY = 8;
+
+const VERSION_TITLE = /\bv?\d+\.\d+/;
+
+const daysBetween = (from: string | number, to: string | number): number =>
+  Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY));
+
+/**
+ * Closed milestones are completed, open ones past their due date delayed
+ */
+function fromMilestone(milestone: HistoryMilestone, now: number): Milestone {
+  const total = milestone.openIssues + milestone.closedIssues;
+  const completed = milestone.state === 'closed';
+  const delayed = !completed && milestone.dueOn !== undefined && Date.parse(milestone.dueOn) < now;
+  const status = completed ? 'completed' : delayed ? 'delayed' : milestone.closedIssues > 0 ? 'in_progress' : 'planned';
+  const dueDate = milestone.dueOn || milestone.closedAt || new Date(now).toISOString();
+
+  return {
+    id: milestone.id,
+    title: milestone.title,
+    description: milestone.description,
+    dueDate,
+    ...(milestone.closedAt ? { completedDate: milestone.closedAt } : {}),
+    status,
+    type: VERSION_TITLE.test(milestone.title) ? 'major_release' : 'feature_launch',
+    priority: delayed ? 'high' : 'medium',
+    progress: completed ? 100 : percentage(milestone.closedIssues, total),
+    deliverables: [],
+    dependencies: [],
+    businessImpact: { revenue: 0, userCount: 0, efficiency: 0, riskMitigation: 0 },
+    metrics: {
+      plannedEffort: total,
+      actualEffort: milestone.closedIssues,
+      plannedDuration: daysBetween(milestone.createdAt, dueDate),
+      actualDuration: daysBetween(milestone.createdAt, milestone.closedAt || now),
+      qualityScore: 0,
+    },
+  };
+}
+
+/**
+ * A published release as a completed milestone; its effort is the pull requests merged since the previous one
+ */
+function fromRelease(history: RepositoryHistory, release: HistoryRelease, previous: string): Milestone {
+  const merged = mergedIn(history, { start: Date.parse(previous), end: Date.parse(release.publishedAt) }).length;
+
+  return {
+    id: `release-${release.tag}`,
+    title: release.name,
+    description: `${merged} pull request${merged === 1 ? '' : 's'} merged`,
+    dueDate: release.publishedAt,
+    completedDate: release.publishedAt,
+    status: 'completed',
+    type: 'major_release',
+    priority: 'medium',
+    progress: 100,
+    deliverables: [],
+    dependencies: [],
+    businessImpact: { revenue: 0, userCount: 0, efficiency: 0, riskMitigation: 0 },
+    metrics: {
+      plannedEffort: merged,
+      actualEffort: merged,
+      plannedDuration: daysBetween(previous, release.publishedAt),
+      actualDuration: daysBetween(previous, release.publishedAt),
+      qualityScore: 0,
+    },
+  };
+}
+
+/**
+ * One phase per sprint, staffed by whoever was active in it; costs need an hourly rate and there is no budget
+ * to allocate from, so `allocated` stays zero
+ */
+function phase(history: RepositoryHistory, sprint: Period, index: number, milestones: Milestone[], now: number, options: DashboardOptions): ProjectPhase {
+  const people = contributors(history, sprint);
+  const reviewers = people.filter(person => person.commits + person.pullRequests === 0).length;
+
+  return {
+    id: `sprint-${index + 1}`,
+    name: `Sprint ${index + 1}`,
+    startDate: new Date(sprint.start).toISOString(),
+    endDate: new Date(sprint.end).toISOString(),
+    status: sprint.end < now ? 'completed' : sprint.start <= now ? 'active' : 'upcoming',
+    milestones: milestones.filter(milestone => within(milestone.dueDate, sprint)).map(milestone => milestone.id),
+    budget: {
+      allocated: 0,
+      spent: developerDays(history, sprint) * HOURS_PER_DAY * (options.hourlyRate || 0),
+      currency: 'USD',
+    },
+    team: {
+      size: people.length,
+      roles: [
+        { role: 'Developer', count: people.length - reviewers },
+        { role: 'Reviewer', count: reviewers },
+      ].filter(role => role.count > 0),
+    },
+  };
+}
+
+function events(history: RepositoryHistory, milestones: Milestone[], now: number): TimelineEvent[] {
+  const period = toPeriod(history.window);
+  const released: TimelineEvent[] = history.releases.map(release => ({
+    id: `release-${release.tag}`,
+    date: release.publishedAt,
+    type: 'release',
+    title: release.name,
+    description: `Released ${release.tag}`,
+    impact: 'positive',
+    stakeholders: [],
+    relatedMilestones: milestones.filter(milestone => milestone.id === `release-${release.tag}` || milestone.title === release.tag).map(milestone => milestone.id),
+  }));
+  const completed: TimelineEvent[] = milestones
+    .filter(milestone => milestone.status === 'completed' && !milestone.id.startsWith('release-') && within(milestone.completedDate, period))
+    .map(milestone => ({
+      id: `milestone-${milestone.id}-completed`,
+      date: milestone.completedDate!,
+      type: 'achievement',
+      title: `${milestone.title} completed`,
+      description: milestone.description,
+      impact: 'positive',
+      stakeholders: [],
+      relatedMilestones: [milestone.id],
+    }));
+  const overdue: TimelineEvent[] = milestones
+    .filter(milestone => milestone.status === 'delayed' && Date.parse(milestone.dueDate) <= now)
+    .map(milestone => ({
+      id: `milestone-${milestone.id}-overdue`,
+      date: milestone.dueDate,
+      type: 'blocker',
+      title: `${milestone.title} overdue`,
+      description: `${milestone.progress}% done at its due date`,
+      impact: 'negative',
+      stakeholders: [],
+      relatedMilestones: [milestone.id],
+    }));
+
+  return [...released, ...completed, ...overdue].sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+}
+
+/**
+ * Open milestones due after `now`; the closer the deadline and the less done, the riskier
+ */
+function upcomingDeadlines(milestones: Milestone[], now: number): StrategicMilestonesData['upcomingDeadlines'] {
+  return milestones
+    .filter(milestone => milestone.status !== 'completed' && Date.parse(milestone.dueDate) > now)
+    .map(milestone => {
+      const daysUntilDue = Math.ceil((Date.parse(milestone.dueDate) - now) / DAY);
+      const riskLevel: 'low' | 'medium' | 'high' =
+        daysUntilDue <= 7 && milestone.progress < 80 ? 'high' : daysUntilDue <= 30 && milestone.progress < 50 ? 'medium' : 'low';
+      return { milestoneId: milestone.id, daysUntilDue, riskLevel };
+    })
+    .sort((a, b) => a.daysUntilDue - b.daysUntilDue);
+}
+
+export function toStrategicMilestonesData(history: RepositoryHistory, options: DashboardOptions = {}): StrategicMilestonesData {
+  const period = toPeriod(history.window);
+  const now = referenceTime(history, options);
+  const milestones =
+    history.milestones.length > 0
+      ? history.milestones.map(milestone => fromMilestone(milestone, now))
+      : history.releases.map((release, index) =>
+          fromRelease(history, release, index > 0 ? history.releases[index - 1].publishedAt : history.window.since)
+        );
+
+  const completed = milestones.filter(milestone => milestone.status === 'completed').length;
+  const delayedPercentage = percentage(milestones.filter(milestone => milestone.status === 'delayed').length, milestones.length);
+  const open = milestones.filter(milestone => milestone.status !== 'completed');
+  const lastDue = open.map(milestone => Date.parse(milestone.dueDate)).sort((a, b) => b - a)[0];
+
+  return {
+    projectName: options.teamName || history.repository.fullName,
+    projectDescription: history.repository.description || periodLabel(period),
+    timeline: {
+      startDate: history.window.since,
+      endDate: history.window.until,
+      currentDate: new Date(now).toISOString(),
+    },
+    milestones,
+    phases: sprintPeriods(history, options).map((sprint, index) => phase(history, sprint, index, milestones, now, options)),
+    events: events(history, milestones, now),
+    overallProgress: {
+      percentage: Math.round(average(milestones.map(milestone => milestone.progress))),
+      milestonesCompleted: completed,
+      totalMilestones: milestones.length,
+      onTrackPercentage: milestones.length > 0 ? 100 - delayedPercentage : 0,
+      delayedPercentage,
+    },
+    keyMetrics: {
+      // Milestones completed per quarter at the window's pace
+      averageVelocity: round(completed / (periodDays(period) / 91)),
+      budgetUtilization: 0,
+      qualityScore: healthScore(history),
+      riskLevel: delayedPercentage > 50 ? 'critical' : delayedPercentage > 25 ? 'high' : delayedPercentage > 0 ? 'medium' : 'low',
+      predictedCompletion: lastDue !== undefined ? new Date(lastDue).toISOString() : history.window.until,
+      confidenceLevel: 100 - delayedPercentage,
+    },
+    upcomingDeadlines: upcomingDeadlines(milestones, now),
+  };
+}
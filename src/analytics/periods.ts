@@ -0,0 +1,84 @@
+/**
+ * Date arithmetic shared by the aggregators: windows, days, sprints and half-periods
+ */
+
+import { HistoryWindow } from '../github/types';
+
+export const HOUR = 60 * 60 * 1000;
+export const DAY = 24 * HOUR;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * A span of time with millisecond bounds; `end` is inclusive
+ */
+export interface Period {
+  start: number;
+  end: number;
+}
+
+export const toPeriod = (window: HistoryWindow): Period => ({ start: Date.parse(window.since), end: Date.parse(window.until) });
+
+export const within = (date: string | undefined, period: Period): boolean => {
+  if (!date) {
+    return false;
+  }
+  const time = Date.parse(date);
+  return time >= period.start && time <= period.end;
+};
+
+export const hoursBetween = (from: string, to: string): number => Math.max(0, (Date.parse(to) - Date.parse(from)) / HOUR);
+
+/** `2024-01-14` */
+export const isoDay = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+export const weekday = (time: number): string => WEEKDAYS[new Date(time).getUTCDay()];
+
+/**
+ * Length of the window in days, at least one
+ */
+export function periodDays(period: Period): number {
+  return Math.max(1, Math.ceil((period.end - period.start) / DAY));
+}
+
+/**
+ * Consecutive UTC days from the start of the window to its end
+ */
+export function days(period: Period): Period[] {
+  const from = new Date(period.start);
+  const first = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+  const result: Period[] = [];
+  for (let start = first; start <= period.end; start += DAY) {
+    result.push({ start, end: start + DAY - 1 });
+  }
+  return result;
+}
+
+/**
+ * Sprints of `length` days from the start of the window; the last one ends with the window and may be shorter
+ */
+export function sprints(period: Period, length: number): Period[] {
+  const result: Period[] = [];
+  for (let start = period.start; start <= period.end; start += length * DAY) {
+    result.push({ start, end: Math.min(start + length * DAY - 1, period.end) });
+  }
+  return result;
+}
+
+/**
+ * The seven days up to `now` and the seven before them
+ */
+export function weeks(now: number): { thisWeek: Period; lastWeek: Period } {
+  return {
+    thisWeek: { start: now - 7 * DAY + 1, end: now },
+    lastWeek: { start: now - 14 * DAY + 1, end: now - 7 * DAY },
+  };
+}
+
+/**
+ * First and second half of the window, for trends inside it
+ */
+export function halves(period: Period): [Period, Period] {
+  const middle = period.start + Math.floor((period.end - period.start) / 2);
+  return [{ start: period.start, end: middle }, { start: middle + 1, end: period.end }];
+}
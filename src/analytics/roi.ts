@@ -0,0 +1,265 @@
+/**
+ * ROIVisualization data from repository history. Effort is estimated from developer-days with commits and costed
+ * with the hourly rate; revenue, adoption and satisfaction have no source in git or GitHub and stay zero
+ */
+
+import { ROIVisualizationData } from '../components/organisms/ROIVisualization/types';
+import { HistoryPullRequest, RepositoryHistory } from '../github/types';
+import {
+  average,
+  changeCategory,
+  clampScore,
+  contributors,
+  developerDays,
+  healthScore,
+  issueCategorizationMetrics,
+  issueResolutionMetrics,
+  mergedIn,
+  percentage,
+  periodLabel,
+  pullRequestMetrics,
+  reviewCoverage,
+  round,
+  sprintPeriods,
+  velocityTrends,
+} from './metrics';
+import { DAY, days, halves, hoursBetween, periodDays, toPeriod, within } from './periods';
+import { DashboardOptions } from './types';
+
+const HOURS_PER_DAY = 8;
+
+const BUSINESS_VALUE_FEATURES = 8;
+
+const lines = (pullRequest: HistoryPullRequest): number => pullRequest.additions + pullRequest.deletions;
+
+function developmentVelocity(history: RepositoryHistory, options: DashboardOptions): ROIVisualizationData['developmentVelocity'] {
+  const sprints = sprintPeriods(history, options).map((sprint, index) => {
+    const completed = mergedIn(history, sprint).length;
+    const teamSize = contributors(history, sprint).length;
+    return {
+      sprintNumber: index + 1,
+      sprintDate: new Date(sprint.start).toISOString().slice(0, 10),
+      storyPointsCompleted: completed,
+      // Work started in the sprint
+      storyPointsPlanned: history.pullRequests.filter(pullRequest => within(pullRequest.createdAt, sprint)).length,
+      teamSize,
+      velocityPerDeveloper: teamSize > 0 ? round(completed / teamSize) : 0,
+    };
+  });
+  const completed = sprints.map(sprint => sprint.storyPointsCompleted);
+  const mean = average(completed);
+  const deviation = Math.sqrt(average(completed.map(points => (points - mean) ** 2)));
+
+  const [first, second] = halves(toPeriod(history.window));
+  const mergeDays = (half: typeof first) =>
+    average(mergedIn(history, half).map(pullRequest => hoursBetween(pullRequest.createdAt, pullRequest.mergedAt!) / 24));
+  const before = mergeDays(first);
+  const trend = velocityTrends(history, options).burndownTrend;
+
+  return {
+    sprintVelocity: sprints,
+    burndownEfficiency: Math.min(100, percentage(completed.reduce((sum, points) => sum + points, 0), sprints.reduce((sum, sprint) => sum + sprint.storyPointsPlanned, 0))),
+    // One minus the coefficient of variation: steady sprints score high
+    predictabilityScore: mean > 0 ? clampScore(100 - (deviation / mean) * 100) : 0,
+    averageVelocity: round(mean),
+    velocityTrend: trend === 'improving' ? 'increasing' : trend === 'declining' ? 'decreasing' : 'stable',
+    cycleTime: {
+      averageDays: round(pullRequestMetrics(history, options).averageMergeTime / 24),
+      improvementRate: before > 0 ? round(((before - mergeDays(second)) / before) * 100) : 0,
+    },
+  };
+}
+
+/**
+ * Hours split by what the merged pull requests were: features count as development, fixes as bug fixes and
+ * chores as maintenance
+ */
+function resourceAllocation(history: RepositoryHistory, options: DashboardOptions): ROIVisualizationData['resourceAllocation'] {
+  const period = toPeriod(history.window);
+  const merged = mergedIn(history, period);
+  const totalDevelopers = contributors(history).length;
+  const hours = developerDays(history) * HOURS_PER_DAY;
+  const share = (category: 'features' | 'fixes' | 'chores') =>
+    merged.length > 0 ? merged.filter(pullRequest => changeCategory(pullRequest) === category).length / merged.length : 0;
+  const workdays = days(period).filter(day => ![0, 6].includes(new Date(day.start).getUTCDay())).length;
+  const costPerHour = options.hourlyRate || 0;
+
+  return {
+    totalDevelopers,
+    totalHoursAllocated: hours,
+    hoursSpentDevelopment: Math.round(hours * (merged.length > 0 ? share('features') : 1)),
+    hoursSpentMaintenance: Math.round(hours * share('chores')),
+    hoursSpentMeetings: 0,
+    hoursSpentBugFixes: Math.round(hours * share('fixes')),
+    utilizationRate: Math.min(100, percentage(hours / HOURS_PER_DAY, totalDevelopers * workdays)),
+    costPerHour,
+    totalProjectCost: Math.round(hours * costPerHour),
+    budgetUtilization: 0,
+    roleDistribution: [],
+  };
+}
+
+function featureDeliveryImpact(history: RepositoryHistory): ROIVisualizationData['featureDeliveryImpact'] {
+  const period = toPeriod(history.window);
+  const features = history.pullRequests.filter(pullRequest => changeCategory(pullRequest) === 'features');
+  const delivered = features.filter(pullRequest => pullRequest.state === 'merged' && within(pullRequest.mergedAt, period));
+
+  return {
+    featuresDelivered: delivered.length,
+    featuresPlanned: features.length,
+    deliveryRate: percentage(delivered.length, features.length),
+    businessValue: delivered
+      .slice()
+      .sort((a, b) => lines(b) - lines(a))
+      .slice(0, BUSINESS_VALUE_FEATURES)
+      .map(pullRequest => ({
+        featureName: pullRequest.title,
+        deliveryDate: pullRequest.mergedAt!,
+        businessImpact: lines(pullRequest) > 500 ? 'high' as const : lines(pullRequest) > 100 ? 'medium' as const : 'low' as const,
+        userAdoption: 0,
+        revenueImpact: 0,
+        costToDeliver: 0,
+        roi: 0,
+        timeToValue: 0,
+      })),
+    averageTimeToMarket: round(average(delivered.map(pullRequest => hoursBetween(pullRequest.createdAt, pullRequest.mergedAt!) / 24))),
+    qualityMetrics: {
+      bugReports: issueCategorizationMetrics(history).categories.bugs.count,
+      customerSatisfaction: 0,
+      performanceImpact: 0,
+    },
+  };
+}
+
+/**
+ * Retention compares the two halves of the window: contributors from the first who were active again in the second
+ */
+function communityEngagement(history: RepositoryHistory, options: DashboardOptions): ROIVisualizationData['communityEngagement'] {
+  const period = toPeriod(history.window);
+  const [first, second] = halves(period);
+  const logins = (part: typeof period) => new Set(contributors(history, part).map(person => person.user.login.toLowerCase()));
+  const earlier = logins(first);
+  const later = logins(second);
+  const lastQuarter = { start: Math.max(period.start, period.end - 90 * DAY), end: period.end };
+  const { stars, forks, watchers } = history.repository;
+
+  return {
+    repositoryMetrics: { stars, starGrowthRate: 0, forks, forkGrowthRate: 0, watchers, watcherGrowthRate: 0, downloads: 0, downloadGrowthRate: 0 },
+    contributorMetrics: {
+      totalContributors: contributors(history).length,
+      activeContributors: contributors(history, lastQuarter).length,
+      newContributors: Array.from(later).filter(login => !earlier.has(login)).length,
+      retentionRate: percentage(Array.from(earlier).filter(login => later.has(login)).length, earlier.size),
+      diversityIndex: 0,
+    },
+    communityHealth: {
+      issueResponseTime: issueResolutionMetrics(history).firstResponseTime,
+      prReviewTime: pullRequestMetrics(history, options).averageReviewTime,
+      communityScore: healthScore(history),
+      documentationQuality: 0,
+      onboardingEffectiveness: 0,
+    },
+    adoption: { enterpriseAdoption: 0, individualAdoption: 0, geographicalSpread: [] },
+  };
+}
+
+/**
+ * Release cadence, lead time, bug turnaround and the share of merged changes that were fixes, in the spirit of
+ * the DORA metrics
+ */
+function productivityMetrics(history: RepositoryHistory, options: DashboardOptions): ROIVisualizationData['productivityMetrics'] {
+  const period = toPeriod(history.window);
+  const merged = mergedIn(history, period);
+  const changed = merged.reduce((sum, pullRequest) => sum + lines(pullRequest), 0);
+  const issues = issueCategorizationMetrics(history);
+
+  return {
+    codeMetrics: {
+      linesOfCodePerDeveloper: Math.round(merged.reduce((sum, pullRequest) => sum + pullRequest.additions, 0) / Math.max(1, contributors(history).length)),
+      functionalityPerLOC: 0,
+      codeReuseRate: 0,
+      technicalDebtRatio: issues.categories.technicalDebt.percentage,
+    },
+    processMetrics: {
+      deploymentFrequency: round((history.releases.length / periodDays(period)) * 30),
+      leadTimeForChanges: pullRequestMetrics(history, options).averageMergeTime,
+      meanTimeToRecovery: issues.categories.bugs.averageResolutionTime,
+      changeFailureRate: percentage(merged.filter(pullRequest => changeCategory(pullRequest) === 'fixes').length, merged.length),
+    },
+    qualityMetrics: {
+      defectRate: changed > 0 ? round(issues.categories.bugs.count / (changed / 1000)) : 0,
+      testCoverage: 0,
+      automationRate: 0,
+      customerSatisfactionScore: 0,
+    },
+  };
+}
+
+export function toROIVisualizationData(history: RepositoryHistory, options: DashboardOptions = {}): ROIVisualizationData {
+  const period = toPeriod(history.window);
+  const developmentVelocityData = developmentVelocity(history, options);
+  const resources = resourceAllocation(history, options);
+  const delivery = featureDeliveryImpact(history);
+  const merged = mergedIn(history, period);
+  const people = contributors(history);
+  const commits = people.reduce((sum, person) => sum + person.commits, 0);
+  const maintenanceHours = resources.hoursSpentMaintenance + resources.hoursSpentBugFixes;
+
+  const riskFactors: ROIVisualizationData['riskFactors'] = [];
+  if (people.length > 1 && people[0].commits > commits / 2) {
+    riskFactors.push({
+      category: 'resource',
+      risk: `${people[0].user.name || people[0].user.login} wrote ${percentage(people[0].commits, commits)}% of the commits`,
+      probability: percentage(people[0].commits, commits),
+      impact: 'high',
+      mitigation: 'Pair on and review the areas only one person knows',
+    });
+  }
+  const coverage = reviewCoverage(merged);
+  if (merged.length > 0 && coverage < 80) {
+    riskFactors.push({
+      category: 'technical',
+      risk: `${100 - coverage}% of merged pull requests had no review`,
+      probability: 100 - coverage,
+      impact: 'medium',
+      mitigation: 'Require an approving review before merging',
+    });
+  }
+
+  const recommendations: ROIVisualizationData['recommendations'] = [];
+  if (developmentVelocityData.sprintVelocity.length > 1 && developmentVelocityData.predictabilityScore < 50) {
+    recommendations.push({
+      category: 'optimization',
+      priority: 'medium',
+      title: 'Even out sprint throughput',
+      description: `Merged pull requests per sprint vary widely around ${developmentVelocityData.averageVelocity}`,
+      expectedROIImprovement: 0,
+      implementationCost: 0,
+      timeframe: 'Next sprint',
+    });
+  }
+
+  return {
+    projectName: options.teamName || history.repository.fullName,
+    evaluationPeriod: { startDate: history.window.since, endDate: history.window.until, periodLabel: periodLabel(period) },
+    developmentVelocity: developmentVelocityData,
+    resourceAllocation: resources,
+    featureDeliveryImpact: delivery,
+    communityEngagement: communityEngagement(history, options),
+    costBenefitAnalysis: {
+      development: {
+        totalCost: resources.totalProjectCost,
+        costPerFeature: delivery.featuresDelivered > 0 ? Math.round(resources.totalProjectCost / delivery.featuresDelivered) : 0,
+        costPerStoryPoint: merged.length > 0 ? Math.round(resources.totalProjectCost / merged.length) : 0,
+        maintenanceCostRatio: percentage(maintenanceHours, resources.hoursSpentDevelopment),
+      },
+      revenue: { directRevenue: 0, costSavings: 0, efficiencyGains: 0, riskMitigation: 0 },
+      roi: { overallROI: 0, paybackPeriod: 0, netPresentValue: 0, internalRateOfReturn: 0 },
+      projections: [],
+    },
+    productivityMetrics: productivityMetrics(history, options),
+    overallROI: 0,
+    riskFactors,
+    recommendations,
+  };
+}
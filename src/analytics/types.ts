@@ -0,0 +1,30 @@
+/**
+ * Options and registry types for the team dashboards built from repository history
+ */
+
+import { RepositoryHistory } from '../github/types';
+
+/**
+ * Settings the dashboards take beyond the history itself
+ */
+export interface DashboardOptions {
+  /** Team or project name shown in the header (default: the repository's full name) */
+  teamName?: string;
+  /** Days per sprint in the velocity charts and phases (default 14) */
+  sprintDays?: number;
+  /** Cost of one engineering hour; costs in the ROI dashboard are zero without it */
+  hourlyRate?: number;
+  /** Reference time for "this week" and upcoming deadlines, as an ISO timestamp (default: the end of the window) */
+  now?: string;
+}
+
+export type DashboardKind = 'team-velocity' | 'executive-impact' | 'risk-quality' | 'milestones' | 'roi';
+
+/**
+ * A dashboard composition and the builder that computes its `data` prop
+ */
+export interface DashboardDefinition {
+  compositionId: string;
+  title: string;
+  build(history: RepositoryHistory, options?: DashboardOptions): unknown;
+}
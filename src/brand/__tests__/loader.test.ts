@@ -0,0 +1,130 @@
+/**
+ * Tests for loading brand kit files and staging their assets into the public directory
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BrandKitDefinitionError, loadBrandKit, parseBrandKit, stageBrandKit } from '..';
+
+const parseError = (source: string, origin = 'brand.yaml'): BrandKitDefinitionError => {
+  try {
+    parseBrandKit(source, origin);
+  } catch (error) {
+    return error as BrandKitDefinitionError;
+  }
+  throw new Error('expected the brand kit to be rejected');
+};
+
+describe('parseBrandKit', () => {
+  it('should read a YAML kit and fill in defaults', () => {
+    const kit = parseBrandKit(
+      [
+        'name: Acme',
+        'logo:',
+        '  src: assets/logo.svg',
+        'fonts:',
+        '  - family: Acme Sans',
+        '    src: fonts/AcmeSans.woff2',
+        '    weight: 400',
+        'typography:',
+        '  body: Acme Sans',
+        'palette:',
+        '  primary: "#FF5500"',
+        'intro:',
+        '  tagline: Shipping every day',
+        'watermark:',
+        '  position: top-left',
+      ].join('\n'),
+      'brand.yaml'
+    );
+
+    expect(kit).toEqual({
+      name: 'Acme',
+      logo: { src: 'assets/logo.svg' },
+      fonts: [{ family: 'Acme Sans', src: 'fonts/AcmeSans.woff2', weight: '400' }],
+      typography: { body: 'Acme Sans' },
+      palette: { primary: '#FF5500' },
+      intro: { duration: 3, tagline: 'Shipping every day' },
+      watermark: { position: 'top-left', opacity: 0.6, size: 48 },
+    });
+  });
+
+  it('should read JSON kits by extension', () => {
+    expect(parseBrandKit('{"name": "Acme"}', 'brand.json')).toEqual({ name: 'Acme', fonts: [], typography: {}, palette: {} });
+  });
+
+  it('should list every problem with the file', () => {
+    const error = parseError('name: Acme\nlogo: { src: logo.svg }\npalette:\n  accent: "#000"\nwatermark:\n  opacity: 2\n');
+
+    expect(error).toBeInstanceOf(BrandKitDefinitionError);
+    expect(error.file).toBe('brand.yaml');
+    expect(error.issues).toEqual([
+      "palette: Unrecognized key(s) in object: 'accent'",
+      'watermark.opacity: Number must be less than or equal to 1',
+    ]);
+  });
+
+  it('should require a logo for the watermark', () => {
+    expect(parseError('name: Acme\nwatermark: {}\n').issues).toEqual(['watermark: A watermark needs a logo']);
+  });
+
+  it('should report files that are not YAML', () => {
+    expect(parseError('name: [Acme', 'brand.yml').message).toMatch(/^brand\.yml could not be parsed:/);
+  });
+});
+
+describe('loadBrandKit and stageBrandKit', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'brand-kit-'));
+    fs.mkdirSync(path.join(directory, 'kit', 'fonts'), { recursive: true });
+    fs.mkdirSync(path.join(directory, 'public', 'logos'), { recursive: true });
+    fs.writeFileSync(path.join(directory, 'kit', 'fonts', 'AcmeSans.woff2'), 'font');
+    fs.writeFileSync(path.join(directory, 'public', 'logos', 'acme.svg'), '<svg/>');
+  });
+
+  afterEach(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  const writeKit = (kit: object) => {
+    const file = path.join(directory, 'kit', 'brand.json');
+    fs.writeFileSync(file, JSON.stringify(kit));
+    return file;
+  };
+
+  it('should resolve assets against the kit file and leave URLs alone', () => {
+    const kit = loadBrandKit(writeKit({
+      name: 'Acme Corp',
+      logo: { src: '../public/logos/acme.svg' },
+      fonts: [{ family: 'Acme Sans', src: 'fonts/AcmeSans.woff2' }],
+      outro: { video: 'https://cdn.example.com/outro.mp4' },
+    }));
+
+    expect(kit.logo?.src).toBe(path.join(directory, 'public', 'logos', 'acme.svg'));
+    expect(kit.fonts[0].src).toBe(path.join(directory, 'kit', 'fonts', 'AcmeSans.woff2'));
+    expect(kit.outro?.video).toBe('https://cdn.example.com/outro.mp4');
+  });
+
+  it('should reject kits that refer to missing files', () => {
+    const file = writeKit({ name: 'Acme', logo: { src: 'logo.png' } });
+
+    expect(() => loadBrandKit(file)).toThrow(new BrandKitDefinitionError(`${file} refers to logo.png, which doesn't exist`, file));
+  });
+
+  it('should copy assets outside the public directory and keep the rest in place', () => {
+    const publicDir = path.join(directory, 'public');
+    const kit = stageBrandKit(
+      loadBrandKit(writeKit({
+        name: 'Acme Corp',
+        logo: { src: '../public/logos/acme.svg' },
+        fonts: [{ family: 'Acme Sans', src: 'fonts/AcmeSans.woff2' }],
+      })),
+      publicDir
+    );
+
+    expect(kit.logo?.src).toBe('logos/acme.svg');
+    expect(kit.fonts[0].src).toBe('brand/acme-corp/AcmeSans.woff2');
+    expect(fs.readFileSync(path.join(publicDir, 'brand', 'acme-corp', 'AcmeSans.woff2'), 'utf8')).toBe('font');
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for the theme, CSS variables and durations a brand kit contributes to a video
+ */
+
+import { brandTheme, brandVariables, bumperSeconds, BrandKit } from '..';
+import { darkTheme, lightTheme } from '../../theme';
+
+const kit: BrandKit = {
+  name: 'Acme Corp',
+  fonts: [],
+  typography: { heading: 'Acme Display', body: 'Acme Sans' },
+  palette: { primary: '#FF5500', background: '#101010' },
+  intro: { duration: 3 },
+};
+
+describe('brandTheme', () => {
+  it('should lay the kit palette over the light theme by default', () => {
+    const theme = brandTheme(kit);
+
+    expect(theme).toMatchObject({ id: 'light-acme-corp', name: 'Acme Corp (Light)', appearance: 'light' });
+    expect(theme.palette).toEqual({ ...lightTheme.palette, primary: '#FF5500', background: '#101010' });
+    expect(theme.syntax).toBe(lightTheme.syntax);
+  });
+
+  it('should start from the theme the kit names, or the one passed in', () => {
+    expect(brandTheme({ ...kit, theme: 'dark' }).palette.text).toBe(darkTheme.palette.text);
+    expect(brandTheme({ ...kit, theme: 'dark' }, lightTheme).id).toBe('light-acme-corp');
+  });
+});
+
+describe('brandVariables', () => {
+  it('should set the fonts and accent colors the kit declares', () => {
+    expect(brandVariables(kit)).toEqual({
+      '--git2video-font-heading': '"Acme Display", sans-serif',
+      '--git2video-font-body': '"Acme Sans", sans-serif',
+      '--git2video-color-primary': '#FF5500',
+    });
+    expect(brandVariables({ ...kit, typography: {}, palette: {} })).toEqual({});
+  });
+});
+
+describe('bumperSeconds', () => {
+  it('should count only the bumpers the kit has', () => {
+    expect(bumperSeconds(kit)).toEqual({ intro: 3, outro: 0 });
+    expect(bumperSeconds(undefined)).toEqual({ intro: 0, outro: 0 });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Load brand kit fonts before frames are rendered
+ * Each font file is registered with the document once through the FontFace API, and rendering is held with
+ * `delayRender` until the fonts a component needs have loaded
+ */
+
+import { useEffect, useState } from 'react';
+import { cancelRender, continueRender, delayRender } from 'remotion';
+import { brandAssetSource } from './style';
+import { BrandFont } from './types';
+
+const FONT_FORMATS: Record<string, string> = {
+  woff2: 'woff2',
+  woff: 'woff',
+  ttf: 'truetype',
+  otf: 'opentype',
+};
+
+const loading = new Map<string, Promise<void>>();
+
+/**
+ * Register a font with the document; loading the same file again reuses the first load
+ */
+export function loadBrandFont(font: BrandFont): Promise<void> {
+  const source = brandAssetSource(font.src);
+  const key = [font.family, source, font.weight, font.style].join('|');
+  let loaded = loading.get(key);
+  if (!loaded) {
+    const extension = font.src.toLowerCase().match(/\.([a-z0-9]+)(?:[?#].*)?$/)?.[1];
+    const format = extension && FONT_FORMATS[extension] ? ` format('${FONT_FORMATS[extension]}')` : '';
+    const face = new FontFace(font.family, `url('${source}')${format}`, {
+      ...(font.weight ? { weight: font.weight } : {}),
+      ...(font.style ? { style: font.style } : {}),
+    });
+    loaded = face.load().then(ready => {
+      document.fonts.add(ready);
+    });
+    loading.set(key, loaded);
+  }
+  return loaded;
+}
+
+/**
+ * Hold rendering until the fonts have loaded; a font that fails to load fails the render
+ */
+export function useBrandFonts(fonts: BrandFont[] = []): void {
+  const [handle] = useState(() =>
+    fonts.length > 0 && typeof FontFace !== 'undefined'
+      ? delayRender(`Loading brand fonts ${fonts.map(font => font.family).join(', ')}`)
+      : null
+  );
+
+  useEffect(() => {
+    if (handle === null) {
+      return;
+    }
+    Promise.all(fonts.map(loadBrandFont)).then(() => continueRender(handle), error => cancelRender(error));
+  }, [handle]);
+}
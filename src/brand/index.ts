@@ -0,0 +1,10 @@
+/**
+ * Brand kits: logo, fonts, palette, intro/outro bumpers and a watermark applied to every video
+ */
+
+export * from './types';
+export { brandKitSchema } from './schema';
+export type { BrandKitFile } from './schema';
+export { BRAND_KIT_FILE_EXTENSIONS, loadBrandKit, parseBrandKit, stageBrandKit } from './loader';
+export { brandAssetSource, brandTheme, brandVariables, bumperSeconds, isRemoteAsset } from './style';
+export { loadBrandFont, useBrandFonts } from './fonts';
@@ -0,0 +1,96 @@
+/**
+ * Load brand kits declared as YAML or JSON files
+ * Asset paths in a file are relative to it; before rendering, `stageBrandKit` makes them paths under the Remotion
+ * public directory, copying any asset that lives elsewhere
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { formatZodIssue } from '../definitions';
+import { brandKitSchema } from './schema';
+import { brandSlug, isRemoteAsset } from './style';
+import { BrandKit, BrandKitDefinitionError } from './types';
+
+export const BRAND_KIT_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+/**
+ * Parse and validate brand kit source; `origin` names the file in error messages and picks the format by extension
+ */
+export function parseBrandKit(source: string, origin: string): BrandKit {
+  let raw: unknown;
+  try {
+    raw = path.extname(origin).toLowerCase() === '.json'
+      ? JSON.parse(source)
+      : yaml.load(source, { filename: origin, schema: yaml.JSON_SCHEMA });
+  } catch (error) {
+    throw new BrandKitDefinitionError(`${origin} could not be parsed: ${(error as Error).message}`, origin, [], error);
+  }
+
+  const result = brandKitSchema.safeParse(raw);
+  if (!result.success) {
+    throw new BrandKitDefinitionError(`${origin} is not a valid brand kit:`, origin, result.error.issues.map(formatZodIssue));
+  }
+  return result.data;
+}
+
+/**
+ * Read a brand kit file, resolving its asset paths against the file's directory
+ */
+export function loadBrandKit(file: string): BrandKit {
+  let source: string;
+  try {
+    source = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new BrandKitDefinitionError(`Cannot read brand kit ${file}: ${(error as Error).message}`, file, [], error);
+  }
+
+  const directory = path.dirname(path.resolve(file));
+  return mapAssets(parseBrandKit(source, file), src => {
+    if (isRemoteAsset(src)) {
+      return src;
+    }
+    const resolved = path.resolve(directory, src);
+    if (!fs.existsSync(resolved)) {
+      throw new BrandKitDefinitionError(`${file} refers to ${src}, which doesn't exist`, file);
+    }
+    return resolved;
+  });
+}
+
+/**
+ * Make the kit's local assets servable by the renderer: files already under `publicDir` are referenced in place,
+ * others are copied to `<publicDir>/brand/<kit name>/`. Asset paths in the result are relative to `publicDir`
+ */
+export function stageBrandKit(kit: BrandKit, publicDir: string): BrandKit {
+  const stagingDir = path.join(publicDir, 'brand', brandSlug(kit.name));
+
+  return mapAssets(kit, src => {
+    if (isRemoteAsset(src)) {
+      return src;
+    }
+    let relative = path.relative(publicDir, src);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      const staged = path.join(stagingDir, path.basename(src));
+      fs.mkdirSync(stagingDir, { recursive: true });
+      fs.copyFileSync(src, staged);
+      relative = path.relative(publicDir, staged);
+    }
+    return relative.split(path.sep).join('/');
+  });
+}
+
+/**
+ * The kit with every asset path replaced
+ */
+function mapAssets(kit: BrandKit, map: (src: string) => string): BrandKit {
+  const bumper = (value: BrandKit['intro']) => (value?.video ? { ...value, video: map(value.video) } : value);
+
+  return {
+    ...kit,
+    ...(kit.logo ? { logo: { ...kit.logo, src: map(kit.logo.src) } } : {}),
+    fonts: kit.fonts.map(font => ({ ...font, src: map(font.src) })),
+    ...(kit.intro ? { intro: bumper(kit.intro) } : {}),
+    ...(kit.outro ? { outro: bumper(kit.outro) } : {}),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Schema for brand kit files
+ * The same schema validates the kit passed to compositions as an input prop
+ */
+
+import { z } from 'zod';
+
+const color = z.string().min(1, 'Expected a CSS color');
+
+const bumperSchema = z.object({
+  duration: z.number().positive().max(30).default(3),
+  tagline: z.string().optional(),
+  video: z.string().min(1).optional(),
+});
+
+export const brandKitSchema = z.object({
+  name: z.string().min(1),
+  logo: z.object({
+    src: z.string().min(1),
+    alt: z.string().optional(),
+  }).optional(),
+  fonts: z.array(z.object({
+    family: z.string().min(1),
+    src: z.string().min(1),
+    weight: z.union([z.string(), z.number()]).transform(String).optional(),
+    style: z.enum(['normal', 'italic']).optional(),
+  })).default([]),
+  typography: z.object({
+    heading: z.string().min(1).optional(),
+    body: z.string().min(1).optional(),
+  }).default({}),
+  theme: z.string().min(1).optional(),
+  palette: z.object({
+    primary: color.optional(),
+    secondary: color.optional(),
+    background: color.optional(),
+    surface: color.optional(),
+    border: color.optional(),
+    text: color.optional(),
+    textMuted: color.optional(),
+    highlight: color.optional(),
+  }).strict().default({}),
+  intro: bumperSchema.optional(),
+  outro: bumperSchema.optional(),
+  watermark: z.object({
+    position: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']).default('bottom-right'),
+    opacity: z.number().min(0).max(1).default(0.6),
+    size: z.number().positive().default(48),
+  }).optional(),
+}).superRefine((kit, context) => {
+  if (kit.watermark && !kit.logo) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ['watermark'], message: 'A watermark needs a logo' });
+  }
+});
+
+export type BrandKitFile = z.input<typeof brandKitSchema>;
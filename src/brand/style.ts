@@ -0,0 +1,68 @@
+/**
+ * What a brand kit changes in a video: its theme, the CSS variables components read fonts and accents from, and
+ * the frames its bumpers add
+ */
+
+import React from 'react';
+import { staticFile } from 'remotion';
+import { CSS_VARIABLES } from '../theme/cssVariables';
+import { defaultThemeRegistry } from '../theme/registry';
+import { Theme } from '../theme/types';
+import { BrandKit } from './types';
+
+/**
+ * Whether an asset is fetched from a URL rather than served from the public directory
+ */
+export function isRemoteAsset(src: string): boolean {
+  return /^(https?:|data:|blob:)/.test(src);
+}
+
+/**
+ * URL the renderer loads an asset from
+ */
+export function brandAssetSource(src: string): string {
+  return isRemoteAsset(src) ? src : staticFile(src);
+}
+
+/**
+ * The kit's palette laid over `base`, else over the theme the kit names, else over the light theme
+ */
+export function brandTheme(kit: BrandKit, base?: Theme): Theme {
+  const theme = base ?? defaultThemeRegistry.resolve(kit.theme ?? 'light');
+  return { ...theme, id: `${theme.id}-${brandSlug(kit.name)}`, name: `${kit.name} (${theme.name})`, palette: { ...theme.palette, ...kit.palette } };
+}
+
+/**
+ * CSS variables for the kit's fonts and accent colors, set on the element the branded video is drawn in
+ */
+export function brandVariables(kit: BrandKit): React.CSSProperties {
+  const { heading, body } = kit.typography;
+  const variables: Record<string, string> = {};
+  if (body) {
+    variables[CSS_VARIABLES.bodyFont] = `"${body}", sans-serif`;
+  }
+  if (heading) {
+    variables[CSS_VARIABLES.headingFont] = `"${heading}", sans-serif`;
+  }
+  if (kit.palette.primary) {
+    variables[CSS_VARIABLES.primary] = kit.palette.primary;
+  }
+  if (kit.palette.secondary) {
+    variables[CSS_VARIABLES.secondary] = kit.palette.secondary;
+  }
+  return variables as React.CSSProperties;
+}
+
+/**
+ * Seconds the kit's intro and outro bumpers add to a video
+ */
+export function bumperSeconds(kit?: BrandKit): { intro: number; outro: number } {
+  return { intro: kit?.intro?.duration ?? 0, outro: kit?.outro?.duration ?? 0 };
+}
+
+/**
+ * File-name-safe form of a kit's name
+ */
+export function brandSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'brand';
+}
@@ -0,0 +1,73 @@
+/**
+ * Type definitions for brand kits
+ * A brand kit puts an organization's logo, fonts and colors on every video, with optional intro and outro bumpers
+ */
+
+import { DefinitionError } from '../definitions/types';
+import { ThemePalette } from '../theme/types';
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface BrandLogo {
+  /** Image under the Remotion public directory, or a URL */
+  src: string;
+  /** Alternative text; defaults to the brand name */
+  alt?: string;
+}
+
+export interface BrandFont {
+  /** Family name the font is registered under */
+  family: string;
+  /** Font file (woff2, woff, ttf or otf) under the Remotion public directory, or a URL */
+  src: string;
+  weight?: string;
+  style?: 'normal' | 'italic';
+}
+
+export interface BrandTypography {
+  /** Family for titles; defaults to `body` */
+  heading?: string;
+  /** Family for all other text */
+  body?: string;
+}
+
+export interface BrandBumper {
+  /** Seconds the bumper runs */
+  duration: number;
+  /** Line shown under the logo */
+  tagline?: string;
+  /** Clip played instead of the generated logo card, under the Remotion public directory or a URL */
+  video?: string;
+}
+
+export interface BrandWatermark {
+  position: WatermarkPosition;
+  /** 0-1 */
+  opacity: number;
+  /** Logo height in pixels */
+  size: number;
+}
+
+export interface BrandKit {
+  name: string;
+  logo?: BrandLogo;
+  fonts: BrandFont[];
+  typography: BrandTypography;
+  /** Registered theme the palette is laid over (defaults to `light`) */
+  theme?: string;
+  palette: Partial<ThemePalette>;
+  intro?: BrandBumper;
+  outro?: BrandBumper;
+  /** Logo drawn in a corner over the whole video; needs `logo` */
+  watermark?: BrandWatermark;
+}
+
+/**
+ * A brand kit file that can't be read, parsed or validated, or whose assets are missing
+ */
+export class BrandKitDefinitionError extends DefinitionError {
+  constructor(message: string, public file: string, issues: string[] = [], cause?: unknown) {
+    super(message, issues, cause);
+    this.name = 'BrandKitDefinitionError';
+  }
+}
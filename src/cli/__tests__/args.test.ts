@@ -0,0 +1,85 @@
+/**
+ * Tests for CLI flag parsing
+ */
+
+import { defineCommand, formatCommandHelp, parseFlags } from '../args';
+import { CliConfigError } from '../types';
+
+describe('parseFlags', () => {
+  const spec = {
+    repo: { type: 'string', description: 'Repository', env: ['GITHUB_REPOSITORY'] },
+    pr: { type: 'number', description: 'PR number' },
+    type: { type: 'string', description: 'Video type', choices: ['summary', 'detailed'], default: 'summary' },
+    output: { type: 'string', alias: 'o', description: 'Output file' },
+    cache: { type: 'boolean', description: 'Use cache', default: true },
+    repoPath: { type: 'string', description: 'Path', default: '.' },
+  } as const;
+
+  it('should parse kebab-case flags into camelCase keys with typed values', () => {
+    const { flags, args } = parseFlags(
+      ['--repo', 'acme/widgets', '--pr=42', '-o', 'out.json', '--repo-path', '/tmp/repo', 'extra'],
+      spec
+    );
+
+    expect(flags).toEqual({
+      repo: 'acme/widgets',
+      pr: 42,
+      type: 'summary',
+      output: 'out.json',
+      cache: true,
+      repoPath: '/tmp/repo',
+    });
+    expect(args).toEqual(['extra']);
+  });
+
+  it('should support negated booleans and explicit boolean values', () => {
+    expect(parseFlags(['--no-cache'], spec).flags.cache).toBe(false);
+    expect(parseFlags(['--cache=false'], spec).flags.cache).toBe(false);
+  });
+
+  it('should fall back to environment variables before defaults', () => {
+    const { flags } = parseFlags([], spec, { GITHUB_REPOSITORY: 'acme/env' });
+    expect(flags.repo).toBe('acme/env');
+    expect(parseFlags(['--repo', 'acme/flag'], spec, { GITHUB_REPOSITORY: 'acme/env' }).flags.repo).toBe('acme/flag');
+  });
+
+  it('should reject unknown flags, bad numbers and invalid choices', () => {
+    expect(() => parseFlags(['--colour'], spec)).toThrow(CliConfigError);
+    expect(() => parseFlags(['--pr', 'abc'], spec)).toThrow('expects a number');
+    expect(() => parseFlags(['--type', 'epic'], spec)).toThrow('must be one of summary, detailed');
+    expect(() => parseFlags(['--repo'], spec)).toThrow('requires a value');
+  });
+
+  it('should enforce required flags', () => {
+    const required = { pr: { type: 'number', description: 'PR', required: true, env: ['PR_NUMBER'] } } as const;
+    expect(() => parseFlags([], required)).toThrow('Missing required flag --pr (or set PR_NUMBER)');
+    expect(parseFlags([], required, { PR_NUMBER: '7' }).flags.pr).toBe(7);
+  });
+
+  it('should keep arguments after -- as positionals', () => {
+    expect(parseFlags(['--', '--repo', 'x'], spec).args).toEqual(['--repo', 'x']);
+  });
+});
+
+describe('formatCommandHelp', () => {
+  it('should list flags with aliases, defaults and env fallbacks', () => {
+    const command = defineCommand({
+      name: 'demo',
+      summary: 'Demo command',
+      flags: {
+        repoPath: { type: 'string', description: 'Path', default: '.' },
+        output: { type: 'string', alias: 'o', description: 'Output', env: ['OUT'] },
+      },
+      examples: ['demo -o file'],
+      run: async () => ({ data: null }),
+    });
+
+    const help = formatCommandHelp('git2video', command);
+    expect(help).toContain('Usage: git2video demo [flags]');
+    expect(help).toContain('--repo-path <string>');
+    expect(help).toContain('-o, --output <string>');
+    expect(help).toContain('(default: .)');
+    expect(help).toContain('(env: OUT)');
+    expect(help).toContain('git2video demo -o file');
+  });
+});
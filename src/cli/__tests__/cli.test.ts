@@ -0,0 +1,634 @@
+/**
+ * Tests for git2video command dispatch, output modes and exit codes
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli } from '../index';
+import { RenderOptions, StillOptions } from '../remotion';
+import { CliDependencies, CliRenderError, ExitCode } from '../types';
+import { NarrationProviderConfig } from '../../video/narration';
+import { GitHubApiClient } from '../../github/client';
+import { GitHubApiRateLimitError, HistoryWindow, PRVideoData, ReleaseData } from '../../github/types';
+import {
+  createDataSource,
+  DataSourceConfig,
+  DataSourceError,
+  GitHubReleaseSourceConfig,
+  GitLabDataSource,
+  HistoryDataSource,
+  HistorySourceConfig,
+  PRDataSource,
+  ReleaseDataSource,
+  readSnapshot,
+} from '../../sources';
+import recording from '../../sources/__tests__/fixtures/gitlab-merge-request.json';
+
+type Recording = Record<string, { body: unknown; headers?: Record<string, string> }>;
+
+/**
+ * Load PRVideoData once from the recorded GitLab merge request
+ */
+const loadFixture = (): Promise<PRVideoData> => {
+  const responses = recording as Recording;
+  const fetchImpl = (async (input: RequestInfo | URL) => {
+    const url = new URL(String(input));
+    const page = url.searchParams.get('page');
+    const entry = responses[page && page !== '1' ? `${url.pathname}?page=${page}` : url.pathname];
+    return {
+      ok: true,
+      status: 200,
+      headers: new Headers(entry.headers || {}),
+      json: async () => entry.body,
+      text: async () => JSON.stringify(entry.body),
+    } as Response;
+  }) as typeof fetch;
+
+  return new GitLabDataSource({
+    type: 'gitlab',
+    token: 'test',
+    project: 'acme/widgets',
+    mergeRequestIid: 42,
+    fetchImpl,
+  }).fetchPRData();
+};
+
+describe('runCli', () => {
+  let prData: PRVideoData;
+  let stdout: string;
+  let stderr: string;
+  let configs: DataSourceConfig[];
+  let releaseConfigs: GitHubReleaseSourceConfig[];
+  let historyConfigs: HistorySourceConfig[];
+  let historyWindows: HistoryWindow[];
+  let fetchImpl: () => Promise<PRVideoData>;
+  let renderer: jest.Mocked<ReturnType<CliDependencies['createRenderer']>>;
+
+  const streams = {
+    stdout: { write: (chunk: string) => { stdout += chunk; } },
+    stderr: { write: (chunk: string) => { stderr += chunk; } },
+  };
+
+  const deps = (): Partial<CliDependencies> => ({
+    env: { GITHUB_TOKEN: 'ghp_test' },
+    createDataSource: (config: DataSourceConfig): PRDataSource => {
+      configs.push(config);
+      return { kind: config.type, describe: () => 'fixture', fetchPRData: () => fetchImpl() };
+    },
+    createReleaseSource: (config: GitHubReleaseSourceConfig): ReleaseDataSource => {
+      releaseConfigs.push(config);
+      const release: ReleaseData = {
+        repository: prData.repository,
+        range: config.range,
+        name: config.range.type === 'tags' ? config.range.head : config.range.milestone,
+        pullRequests: [prData],
+      };
+      return { kind: 'github', describe: () => 'fixture', fetchReleaseData: async () => release };
+    },
+    createHistorySource: (config: HistorySourceConfig): HistoryDataSource => {
+      historyConfigs.push(config);
+      return {
+        kind: config.type,
+        describe: () => 'fixture',
+        fetchHistory: async window => {
+          historyWindows.push(window);
+          return {
+            repository: { fullName: 'acme/widgets', description: '', stars: 0, forks: 0, watchers: 0 },
+            window,
+            commits: [],
+            pullRequests: [],
+            issues: [],
+            milestones: [],
+            releases: [],
+          };
+        },
+      };
+    },
+    createRenderer: () => renderer,
+  });
+
+  const run = (...argv: string[]) => runCli(argv, { streams, deps: deps() });
+
+  beforeAll(async () => {
+    prData = await loadFixture();
+  });
+
+  beforeEach(() => {
+    stdout = '';
+    stderr = '';
+    configs = [];
+    releaseConfigs = [];
+    historyConfigs = [];
+    historyWindows = [];
+    fetchImpl = async () => prData;
+    renderer = {
+      listCompositions: jest.fn(async () => [
+        { id: 'PRSummaryVideo', width: 1920, height: 1080, fps: 30, durationInFrames: 420 },
+      ]),
+      renderVideo: jest.fn(async (options: RenderOptions) => ({
+        id: options.compositionId, width: 1920, height: 1080, fps: 30, durationInFrames: 1260, output: options.output,
+      })),
+      renderStill: jest.fn(async (options: StillOptions) => ({
+        id: options.compositionId, width: 1920, height: 1080, fps: 30, durationInFrames: 420,
+        output: options.output, frame: options.frame,
+      })),
+    } as unknown as typeof renderer;
+  });
+
+  describe('help and usage', () => {
+    it('should print program help with every command', async () => {
+      expect(await run('--help')).toBe(ExitCode.Success);
+      ['fetch', 'script', 'render', 'release', 'dashboard', 'preview-still', 'list-compositions'].forEach(name =>
+        expect(stdout).toContain(name)
+      );
+    });
+
+    it('should print command help without running the command', async () => {
+      expect(await run('render', '--help')).toBe(ExitCode.Success);
+      expect(stdout).toContain('Usage: git2video render [flags]');
+      expect(configs).toHaveLength(0);
+    });
+
+    it('should exit with the config code when no command or an unknown command is given', async () => {
+      expect(await run()).toBe(ExitCode.Config);
+      expect(stderr).toContain('Usage: git2video <command>');
+
+      expect(await run('publish')).toBe(ExitCode.Config);
+      expect(stderr).toContain('Unknown command "publish"');
+    });
+  });
+
+  describe('fetch', () => {
+    it('should emit a single JSON document in --json mode', async () => {
+      expect(await run('fetch', '--repo', 'acme/widgets', '--pr', '42', '--json')).toBe(ExitCode.Success);
+
+      const output = JSON.parse(stdout);
+      expect(output.ok).toBe(true);
+      expect(output.command).toBe('fetch');
+      expect(output.data.pullRequest.title).toBe('Add widget cache');
+      expect(configs[0]).toEqual({
+        type: 'github',
+        token: 'ghp_test',
+        owner: 'acme',
+        repo: 'widgets',
+        prNumber: 42,
+        cache: { directory: expect.stringContaining(path.join('git2video', 'github')) },
+      });
+    });
+
+    it('should bypass the response cache with --no-cache and honour --cache-dir', async () => {
+      await run('fetch', '--repo', 'acme/widgets', '--pr', '42', '--no-cache');
+      await run('fetch', '--repo', 'acme/widgets', '--pr', '42', '--cache-dir', '/tmp/gh-cache');
+
+      expect(configs[0]).not.toHaveProperty('cache');
+      expect(configs[1]).toMatchObject({ cache: { directory: '/tmp/gh-cache' } });
+    });
+
+    it('should authenticate as a GitHub App installation when app flags are given', async () => {
+      const keyFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'git2video-app-')), 'app.pem');
+      fs.writeFileSync(keyFile, 'PEM');
+
+      const args = ['fetch', '--repo', 'acme/widgets', '--pr', '42', '--app-id', '123', '--app-installation-id', '456'];
+      expect(await run(...args, '--app-private-key', keyFile)).toBe(ExitCode.Success);
+      expect(configs[0]).toMatchObject({ type: 'github', app: { appId: '123', installationId: 456, privateKey: 'PEM' } });
+      expect(configs[0]).not.toHaveProperty('token');
+
+      expect(await run(...args)).toBe(ExitCode.Auth);
+      expect(stderr).toContain('--app-private-key');
+      fs.rmSync(path.dirname(keyFile), { recursive: true, force: true });
+    });
+
+    it('should keep library console output off stdout', async () => {
+      fetchImpl = async () => {
+        console.log('Fetching...');
+        return prData;
+      };
+
+      await run('fetch', '--repo', 'acme/widgets', '--pr', '42', '--json');
+      expect(() => JSON.parse(stdout)).not.toThrow();
+      expect(stderr).toContain('Fetching...');
+    });
+
+    it('should build local-git and gitlab source configs from flags', async () => {
+      await run('fetch', '--source', 'local-git', '--repo-path', '/repo', '--base', 'main', '--json');
+      await run('fetch', '--source', 'gitlab', '--repo', 'group/sub/project', '--pr', '3', '--token', 'glpat');
+
+      expect(configs).toEqual([
+        { type: 'local-git', repoPath: '/repo', base: 'main', head: 'HEAD' },
+        { type: 'gitlab', token: 'glpat', project: 'group/sub/project', mergeRequestIid: 3 },
+      ]);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should replay a snapshot without credentials', async () => {
+      const code = await runCli(['script', '--snapshot', 'pr-42.snapshot.json', '--json'], {
+        streams,
+        deps: { ...deps(), env: {} },
+      });
+
+      expect(code).toBe(ExitCode.Success);
+      expect(configs).toEqual([{ type: 'snapshot', path: 'pr-42.snapshot.json' }]);
+    });
+
+    it('should save the fetched data with --save-snapshot', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git2video-cli-'));
+      const file = path.join(dir, 'pr.snapshot.json');
+
+      try {
+        await run('fetch', '--repo', 'acme/widgets', '--pr', '42', '--save-snapshot', file, '--json');
+        const { data } = readSnapshot(file);
+        expect(data.pullRequest.title).toBe(prData.pullRequest.title);
+        expect(data.timelineStats.createdAt).toBeInstanceOf(Date);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('script', () => {
+    it('should print a readable outline by default and the VideoScript with --json', async () => {
+      expect(await run('script', '--repo', 'acme/widgets', '--pr', '42')).toBe(ExitCode.Success);
+      expect(stdout).toMatch(/\[0s-\d+(\.\d+)?s\]/);
+
+      stdout = '';
+      expect(await run('script', '--repo', 'acme/widgets', '--pr', '42', '--type', 'detailed', '--json')).toBe(
+        ExitCode.Success
+      );
+      const script = JSON.parse(stdout).data;
+      expect(Array.isArray(script.sections)).toBe(true);
+      expect(script.sections.length).toBeGreaterThan(0);
+    });
+
+    it('should print the same script on every run with --seed', async () => {
+      const generate = async () => {
+        stdout = '';
+        await run('script', '--repo', 'acme/widgets', '--pr', '42', '--seed', 'abc', '--json');
+        return stdout;
+      };
+
+      const first = await generate();
+      expect(await generate()).toBe(first);
+      expect(JSON.parse(first).data.metadata.generatedAt).toBe(new Date(prData.pullRequest.updated_at).toISOString());
+    });
+
+    it('should generate from a template file selected with --template', async () => {
+      const templateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git2video-templates-'));
+      fs.copyFileSync(
+        path.join(__dirname, '../../video/scripts/__tests__/fixtures/templates/release-digest.yaml'),
+        path.join(templateDir, 'release-digest.yaml')
+      );
+
+      try {
+        expect(await run('script', '--repo', 'acme/widgets', '--pr', '42', '--template-dir', templateDir,
+          '--template', 'release-digest', '--json')).toBe(ExitCode.Success);
+        expect(JSON.parse(stdout).data.metadata.templateType).toBe('custom');
+        expect(stderr).toContain('Using template "Release Digest" (release-digest)');
+
+        stdout = '';
+        expect(await run('script', '--repo', 'acme/widgets', '--pr', '42', '--template-dir', templateDir,
+          '--template', 'weekly', '--json')).toBe(ExitCode.Config);
+        expect(JSON.parse(stdout).error.message).toContain('No template "weekly"');
+
+        fs.writeFileSync(path.join(templateDir, 'broken.json'), '{"id": "broken"}');
+        stdout = '';
+        stderr = '';
+        expect(await run('script', '--repo', 'acme/widgets', '--pr', '42', '--template-dir', templateDir, '--json'))
+          .toBe(ExitCode.Success);
+        expect(stderr).toContain('Warning: skipping');
+        expect(stderr).toContain('broken.json is not a valid script template');
+
+        stdout = '';
+        expect(await run('script', '--repo', 'acme/widgets', '--pr', '42', '--template-dir', templateDir,
+          '--template', 'broken', '--json')).toBe(ExitCode.Config);
+        expect(JSON.parse(stdout).error.message).toMatch(/No template "broken"[\s\S]*broken\.json is not a valid script template/);
+      } finally {
+        fs.rmSync(templateDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should narrate with an OpenAI-compatible provider and keep rule-based text where it fails', async () => {
+      const narrationConfigs: NarrationProviderConfig[] = [];
+      let calls = 0;
+      const code = await runCli(
+        ['script', '--repo', 'acme/widgets', '--pr', '42', '--narration', 'openai', '--narration-budget', '5000', '--json'],
+        {
+          streams,
+          deps: {
+            ...deps(),
+            env: { GITHUB_TOKEN: 'ghp_test', OPENAI_API_KEY: 'sk-test', NARRATION_BASE_URL: 'http://127.0.0.1:1/v1' },
+            createNarrationProvider: config => {
+              narrationConfigs.push(config);
+              return {
+                name: 'fake',
+                narrate: async request => {
+                  if (++calls === 2) {
+                    throw new Error('backend offline');
+                  }
+                  return `Narrated ${request.section.title}.`;
+                },
+              };
+            },
+          },
+        }
+      );
+
+      expect(code).toBe(ExitCode.Success);
+      expect(narrationConfigs).toEqual([{
+        type: 'openai',
+        model: 'gpt-4o-mini',
+        baseUrl: 'http://127.0.0.1:1/v1',
+        apiKey: 'sk-test',
+        tokenBudget: 5000,
+      }]);
+      const [first, second] = JSON.parse(stdout).data.sections;
+      expect(first.voiceover).toBe(`Narrated ${first.title}.`);
+      expect(second.voiceover).not.toMatch(/^Narrated/);
+      expect(stderr).toContain('backend offline');
+    });
+  });
+
+  describe('render and preview-still', () => {
+    let outputDir: string;
+
+    beforeEach(() => {
+      outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git2video-render-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    it('should render the composition for the video type with the generated script', async () => {
+      const output = path.join(outputDir, 'a.mp4');
+      const code = await run('render', '--repo', 'acme/widgets', '--pr', '42', '--type', 'detailed', '-o', output);
+
+      expect(code).toBe(ExitCode.Success);
+      const options = renderer.renderVideo.mock.calls[0][0];
+      expect(options.compositionId).toBe('PRDetailedVideo');
+      expect(options.output).toBe(output);
+      expect(options.inputProps.prData).toBe(prData);
+      expect((options.inputProps.script as { sections: unknown[] }).sections).toBeDefined();
+      expect(stdout).toContain('Rendered PRDetailedVideo');
+    });
+
+    it('should render an executive brief of 30-60 seconds with --type executive', async () => {
+      const code = await run('render', '--repo', 'acme/widgets', '--pr', '42', '--type', 'executive', '-o', path.join(outputDir, 'brief.mp4'));
+
+      expect(code).toBe(ExitCode.Success);
+      const options = renderer.renderVideo.mock.calls[0][0];
+      expect(options.compositionId).toBe('PRExecutiveVideo');
+      const sections = (options.inputProps.script as { sections: { type: string; duration: number }[] }).sections;
+      expect(sections.map(section => section.type)).toEqual(['hook', 'impact_assessment', 'key_insights', 'summary']);
+      const total = sections.reduce((sum, section) => sum + section.duration, 0);
+      expect(total).toBeGreaterThanOrEqual(30);
+      expect(total).toBeLessThanOrEqual(60);
+    });
+
+    it('should pass the frame and composition override to the still renderer', async () => {
+      await run('preview-still', '--repo', 'acme/widgets', '--pr', '42', '--frame', '90', '--composition', 'Custom', '--json');
+
+      expect(renderer.renderStill.mock.calls[0][0]).toMatchObject({ compositionId: 'Custom', frame: 90 });
+      expect(JSON.parse(stdout).data.frame).toBe(90);
+    });
+
+    it('should pass fps and resolution overrides to calculateMetadata through the input props', async () => {
+      await run('render', '--repo', 'acme/widgets', '--pr', '42', '--fps', '24', '--resolution', '1280x720', '--no-captions');
+
+      expect(renderer.renderVideo.mock.calls[0][0].inputProps).toMatchObject({ fps: 24, width: 1280, height: 720 });
+      expect(await run('render', '--repo', 'acme/widgets', '--pr', '42', '--resolution', '1279x720')).toBe(ExitCode.Config);
+    });
+
+    it('should write .srt and .vtt captions next to the video', async () => {
+      const output = path.join(outputDir, 'pr-42.mp4');
+      await run('render', '--repo', 'acme/widgets', '--pr', '42', '-o', output, '--json');
+
+      const { captions } = JSON.parse(stdout).data;
+      expect(captions).toEqual({ srt: path.join(outputDir, 'pr-42.srt'), vtt: path.join(outputDir, 'pr-42.vtt') });
+      expect(fs.readFileSync(captions.srt, 'utf8')).toMatch(/^1\n00:00:00,000 --> 00:00:\d\d,\d{3}\n/);
+      expect(fs.readFileSync(captions.vtt, 'utf8')).toMatch(/^WEBVTT\n\n00:00:00\.000 --> /);
+      expect(renderer.renderVideo.mock.calls[0][0].inputProps.burnCaptions).toBeUndefined();
+    });
+
+    it('should color the video with the theme chosen by --theme, by id or VS Code theme file', async () => {
+      const themeOf = () => (renderer.renderVideo.mock.calls.pop()![0].inputProps.metadata as { theme: { id: string } }).theme;
+
+      expect(await run('render', '--repo', 'acme/widgets', '--pr', '42', '-o', path.join(outputDir, 'a.mp4'), '--theme', 'high-contrast'))
+        .toBe(ExitCode.Success);
+      expect(themeOf()).toMatchObject({ id: 'high-contrast', backgroundColor: '#000000' });
+
+      const themeFile = path.join(outputDir, 'night-owl-color-theme.json');
+      fs.writeFileSync(themeFile, JSON.stringify({ name: 'Night Owl', type: 'dark', colors: { 'editor.background': '#011627' } }));
+      await run('render', '--repo', 'acme/widgets', '--pr', '42', '-o', path.join(outputDir, 'b.mp4'), '--theme', themeFile);
+      expect(themeOf()).toMatchObject({ id: 'night-owl', backgroundColor: '#011627' });
+      expect(stderr).toContain('Using theme "Night Owl" (night-owl)');
+
+      expect(await run('render', '--repo', 'acme/widgets', '--pr', '42', '--theme', 'solarized')).toBe(ExitCode.Config);
+      expect(stderr).toContain('--theme must be one of light, dark, high-contrast');
+      fs.writeFileSync(themeFile, '{"tokenColors": 3}');
+      expect(await run('render', '--repo', 'acme/widgets', '--pr', '42', '--theme', themeFile)).toBe(ExitCode.Config);
+    });
+
+    it('should read the default theme and brand kit files from the --repo-path repository rather than the working directory', async () => {
+      fs.mkdirSync(path.join(outputDir, '.git2video'));
+      fs.writeFileSync(
+        path.join(outputDir, '.git2video', 'theme.json'),
+        JSON.stringify({ name: 'Night Owl', type: 'dark', colors: { 'editor.background': '#011627' } })
+      );
+      fs.writeFileSync(path.join(outputDir, '.git2video', 'brand.yaml'), 'name: Acme\n');
+
+      expect(await run('render', '--source', 'local-git', '--repo-path', outputDir, '--base', 'main', '-o', path.join(outputDir, 'a.mp4')))
+        .toBe(ExitCode.Success);
+      const { inputProps } = renderer.renderVideo.mock.calls[0][0];
+      expect(inputProps.metadata).toMatchObject({ theme: { id: 'night-owl-acme' } });
+      expect(inputProps.brand).toMatchObject({ name: 'Acme' });
+    });
+
+    it('should brand the video with the kit from --brand-kit and shift the captions past its intro', async () => {
+      const kitFile = path.join(outputDir, 'brand.yaml');
+      fs.writeFileSync(kitFile, [
+        'name: Acme',
+        'logo: { src: "https://cdn.example.com/acme.svg" }',
+        'palette: { primary: "#FF5500" }',
+        'intro: { duration: 2 }',
+        'watermark: { position: top-left }',
+      ].join('\n'));
+      const output = path.join(outputDir, 'a.mp4');
+
+      expect(await run('render', '--repo', 'acme/widgets', '--pr', '42', '-o', output, '--brand-kit', kitFile)).toBe(ExitCode.Success);
+      const { inputProps } = renderer.renderVideo.mock.calls[0][0];
+      expect(inputProps.brand).toMatchObject({ name: 'Acme', logo: { src: 'https://cdn.example.com/acme.svg' }, intro: { duration: 2 } });
+      expect(inputProps.metadata).toMatchObject({ theme: { id: 'light-acme', primaryColor: '#FF5500' } });
+      expect(stderr).toContain(`Using brand kit "Acme" from ${kitFile}`);
+      expect(fs.readFileSync(path.join(outputDir, 'a.srt'), 'utf8')).toMatch(/^1\n00:00:02,000 --> /);
+
+      fs.writeFileSync(kitFile, 'name: Acme\nlogo: { src: missing.png }\n');
+      expect(await run('render', '--repo', 'acme/widgets', '--pr', '42', '--brand-kit', kitFile)).toBe(ExitCode.Config);
+      expect(stderr).toContain(`${kitFile} refers to missing.png, which doesn't exist`);
+      expect(await run('render', '--repo', 'acme/widgets', '--pr', '42', '--brand-kit', 'brand.toml')).toBe(ExitCode.Config);
+    });
+
+    it('should ask the composition to burn captions in with --burn-captions', async () => {
+      await run('render', '--repo', 'acme/widgets', '--pr', '42', '-o', path.join(outputDir, 'a.mp4'), '--burn-captions');
+
+      expect(renderer.renderVideo.mock.calls[0][0].inputProps.burnCaptions).toBe(true);
+    });
+
+    it('should reject voiceover settings the renderer cannot use', async () => {
+      expect(await run('render', '--repo', 'acme/widgets', '--pr', '42', '--voiceover', 'piper')).toBe(ExitCode.Config);
+      expect(stderr).toContain('--voice <model.onnx> is required');
+
+      expect(await run('render', '--repo', 'acme/widgets', '--pr', '42', '--voiceover', 'stub', '--voiceover-dir', '/tmp/clips'))
+        .toBe(ExitCode.Config);
+      expect(stderr).toContain('--voiceover-dir must be inside');
+      expect(renderer.renderVideo).not.toHaveBeenCalled();
+    });
+
+    it('should list compositions', async () => {
+      expect(await run('list-compositions', '--json')).toBe(ExitCode.Success);
+      expect(JSON.parse(stdout).data[0].id).toBe('PRSummaryVideo');
+    });
+  });
+
+  describe('release', () => {
+    it('should print the chaptered script for a tag range with --script-only', async () => {
+      const code = await run('release', '--repo', 'acme/widgets', '--from', 'v1.2.0', '--to', 'v1.3.0', '--script-only', '--json');
+
+      expect(code).toBe(ExitCode.Success);
+      expect(releaseConfigs[0]).toMatchObject({
+        owner: 'acme',
+        repo: 'widgets',
+        range: { type: 'tags', base: 'v1.2.0', head: 'v1.3.0' },
+      });
+      const { data } = JSON.parse(stdout);
+      expect(data.release.name).toBe('v1.3.0');
+      expect(data.chapters[0]).toEqual({ start: 0, title: 'Release v1.3.0' });
+      expect(data.chapters[data.chapters.length - 1].title).toBe('v1.3.0');
+      expect(renderer.renderVideo).not.toHaveBeenCalled();
+    });
+
+    it('should render the release composition for a milestone and list the chapters', async () => {
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git2video-release-'));
+      try {
+        const output = path.join(outputDir, 'sprint.mp4');
+        const code = await run('release', '--repo', 'acme/widgets', '--milestone', 'Sprint 12', '-o', output);
+
+        expect(code).toBe(ExitCode.Success);
+        const options = renderer.renderVideo.mock.calls[0][0];
+        expect(options.compositionId).toBe('ReleaseNotesVideo');
+        expect((options.inputProps.release as { name: string }).name).toBe('Sprint 12');
+        expect(stdout).toMatch(/Chapters\n0:00 Release Sprint 12\n/);
+        expect(fs.existsSync(path.join(outputDir, 'sprint.srt'))).toBe(true);
+      } finally {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should require exactly one of a tag range or a milestone', async () => {
+      expect(await run('release', '--repo', 'acme/widgets', '--to', 'v1.3.0')).toBe(ExitCode.Config);
+      expect(await run('release', '--repo', 'acme/widgets', '--from', 'v1', '--to', 'v2', '--milestone', 'Sprint 12'))
+        .toBe(ExitCode.Config);
+      expect(releaseConfigs).toHaveLength(0);
+    });
+  });
+
+  describe('dashboard', () => {
+    it('should print the computed data for a window with --data-only', async () => {
+      const code = await run(
+        'dashboard', '--dashboard', 'risk-quality', '--repo', 'acme/widgets',
+        '--since', '2024-03-01', '--until', '2024-03-31', '--data-only', '--json'
+      );
+
+      expect(code).toBe(ExitCode.Success);
+      expect(historyConfigs[0]).toMatchObject({ type: 'github', owner: 'acme', repo: 'widgets', token: 'ghp_test' });
+      expect(historyWindows[0]).toEqual({ since: '2024-03-01T00:00:00.000Z', until: '2024-03-31T00:00:00.000Z' });
+      expect(JSON.parse(stdout).data.projectName).toBe('acme/widgets');
+      expect(renderer.renderVideo).not.toHaveBeenCalled();
+    });
+
+    it('should render the dashboard composition from a local clone', async () => {
+      const code = await run(
+        'dashboard', '--source', 'local-git', '--repo-path', '/tmp/widgets', '--days', '14',
+        '--team-name', 'Widgets', '--theme', 'dark', '-o', 'out/velocity.mp4'
+      );
+
+      expect(code).toBe(ExitCode.Success);
+      expect(historyConfigs[0]).toEqual({ type: 'local-git', repoPath: '/tmp/widgets' });
+      expect(Date.parse(historyWindows[0].until) - Date.parse(historyWindows[0].since)).toBe(14 * 24 * 60 * 60 * 1000);
+      const options = renderer.renderVideo.mock.calls[0][0];
+      expect(options.compositionId).toBe('TeamVelocityDashboard');
+      expect(options.inputProps).toMatchObject({ theme: 'dark', data: { teamName: 'Widgets' } });
+    });
+
+    it('should reject an empty or inverted window', async () => {
+      expect(await run('dashboard', '--repo', 'acme/widgets', '--since', '2024-03-31', '--until', '2024-03-01')).toBe(ExitCode.Config);
+      expect(stderr).toContain('--since must be before --until');
+      expect(await run('dashboard', '--repo', 'acme/widgets', '--until', 'yesterday')).toBe(ExitCode.Config);
+      expect(historyWindows).toHaveLength(0);
+    });
+  });
+
+  describe('exit codes', () => {
+    const fetchArgs = ['fetch', '--repo', 'acme/widgets', '--pr', '42', '--json'];
+
+    it('should use the config code for invalid flags', async () => {
+      expect(await run('fetch', '--repo', 'acme', '--pr', '42')).toBe(ExitCode.Config);
+      expect(stderr).toContain('Invalid repository "acme"');
+      expect(await run('fetch', '--repo', 'acme/widgets', '--pr', 'x')).toBe(ExitCode.Config);
+    });
+
+    it('should use the auth code for missing or rejected credentials', async () => {
+      expect(await runCli(['fetch', '--repo', 'acme/widgets', '--pr', '42'], {
+        streams,
+        deps: { ...deps(), env: {} },
+      })).toBe(ExitCode.Auth);
+
+      fetchImpl = async () => { throw new DataSourceError('Authentication failed', 'gitlab', undefined, 401); };
+      expect(await run(...fetchArgs)).toBe(ExitCode.Auth);
+    });
+
+    it('should use the network code for API failures', async () => {
+      fetchImpl = async () => { throw new GitHubApiRateLimitError('Rate limited', new Date(), 0); };
+      expect(await run(...fetchArgs)).toBe(ExitCode.Network);
+      expect(JSON.parse(stdout.trim().split('\n').pop()!).error).toMatchObject({
+        name: 'GitHubApiRateLimitError',
+        exitCode: ExitCode.Network,
+      });
+    });
+
+    it('should keep the auth and network codes for errors raised by the GitHub source', async () => {
+      const originalFetch = global.fetch;
+      const sleep = jest
+        .spyOn(GitHubApiClient.prototype as unknown as { sleep: () => Promise<void> }, 'sleep')
+        .mockResolvedValue();
+      const github = () => runCli([...fetchArgs, '--no-cache'], { streams, deps: { ...deps(), createDataSource } });
+      const lastError = () => JSON.parse(stdout.trim().split('\n').pop()!).error;
+
+      try {
+        global.fetch = (async () => ({
+          ok: false,
+          status: 401,
+          statusText: 'Unauthorized',
+          headers: new Headers(),
+          json: async () => ({ message: 'Bad credentials' }),
+        })) as unknown as typeof fetch;
+        expect(await github()).toBe(ExitCode.Auth);
+        expect(lastError()).toMatchObject({ name: 'GitHubApiAuthenticationError', message: 'Authentication failed: Bad credentials' });
+
+        global.fetch = (async () => { throw new TypeError('fetch failed'); }) as typeof fetch;
+        expect(await github()).toBe(ExitCode.Network);
+        expect(lastError()).toMatchObject({ name: 'GitHubApiFetchError', exitCode: ExitCode.Network });
+      } finally {
+        global.fetch = originalFetch;
+        sleep.mockRestore();
+      }
+    });
+
+    it('should use the render code for renderer failures', async () => {
+      renderer.renderVideo.mockRejectedValueOnce(new CliRenderError('Chrome crashed'));
+      expect(await run('render', '--repo', 'acme/widgets', '--pr', '42')).toBe(ExitCode.Render);
+      expect(stderr).toContain('Chrome crashed');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Typed flag parsing and help rendering for CLI commands
+ */
+
+import {
+  CliConfigError,
+  CommandDefinition,
+  FlagDefinition,
+  FlagSpec,
+  FlagValues,
+} from './types';
+
+export interface ParsedArguments<S extends FlagSpec> {
+  flags: FlagValues<S>;
+  args: string[];
+}
+
+/**
+ * Declare a command; keeps flag literal types so `run` receives typed values
+ */
+export function defineCommand<S extends FlagSpec>(command: CommandDefinition<S>): CommandDefinition<S> {
+  return command;
+}
+
+export function toKebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
+
+/**
+ * Parse argv against a flag spec, applying env fallbacks and defaults
+ */
+export function parseFlags<S extends FlagSpec>(
+  argv: string[],
+  spec: S,
+  env: Record<string, string | undefined> = {}
+): ParsedArguments<S> {
+  const byName = new Map<string, [string, FlagDefinition]>();
+  Object.entries(spec).forEach(([key, definition]) => {
+    byName.set(toKebabCase(key), [key, definition]);
+    if (definition.alias) {
+      byName.set(definition.alias, [key, definition]);
+    }
+  });
+
+  const raw: Record<string, string | boolean> = {};
+  const args: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+
+    if (token === '--') {
+      args.push(...argv.slice(i + 1));
+      break;
+    }
+
+    const match = token.match(/^--?([^=]+)(?:=(.*))?$/);
+    if (!match || token === '-') {
+      args.push(token);
+      continue;
+    }
+
+    const [, name, inlineValue] = match;
+    const negated = name.startsWith('no-') && !byName.has(name);
+    const entry = byName.get(negated ? name.slice(3) : name);
+
+    if (!entry) {
+      throw new CliConfigError(`Unknown flag: ${token}`);
+    }
+
+    const [key, definition] = entry;
+    if (definition.type === 'boolean') {
+      raw[key] = negated ? false : inlineValue === undefined ? true : inlineValue !== 'false';
+      continue;
+    }
+
+    if (negated) {
+      throw new CliConfigError(`Flag --${toKebabCase(key)} cannot be negated`);
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined) {
+      throw new CliConfigError(`Flag --${toKebabCase(key)} requires a value`);
+    }
+    raw[key] = value;
+  }
+
+  const flags: Record<string, string | number | boolean | undefined> = {};
+  Object.entries(spec).forEach(([key, definition]) => {
+    const fromEnv = definition.env?.map(name => env[name]).find(value => value !== undefined && value !== '');
+    const value = raw[key] ?? fromEnv;
+    flags[key] = value === undefined ? definition.default : coerce(key, definition, value);
+
+    if (definition.required && flags[key] === undefined) {
+      const hint = definition.env?.length ? ` (or set ${definition.env.join(' / ')})` : '';
+      throw new CliConfigError(`Missing required flag --${toKebabCase(key)}${hint}`);
+    }
+  });
+
+  return { flags: flags as FlagValues<S>, args };
+}
+
+function coerce(key: string, definition: FlagDefinition, value: string | boolean): string | number | boolean {
+  const flag = `--${toKebabCase(key)}`;
+
+  switch (definition.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? value : !['false', '0', ''].includes(value);
+    case 'number': {
+      const parsed = Number(value);
+      if (typeof value !== 'string' || value.trim() === '' || Number.isNaN(parsed)) {
+        throw new CliConfigError(`Flag ${flag} expects a number, got "${value}"`);
+      }
+      return parsed;
+    }
+    case 'string': {
+      const text = String(value);
+      if (definition.choices && !definition.choices.includes(text)) {
+        throw new CliConfigError(
+          `Flag ${flag} must be one of ${definition.choices.join(', ')}, got "${text}"`
+        );
+      }
+      return text;
+    }
+  }
+}
+
+/**
+ * Render `--help` output for a command
+ */
+export function formatCommandHelp(program: string, command: CommandDefinition<FlagSpec>): string {
+  const lines = [`Usage: ${program} ${command.name} [flags]`, '', command.description || command.summary, ''];
+  const rows = Object.entries(command.flags).map(([key, definition]) => {
+    const placeholder = definition.type === 'boolean' ? '' : ` <${definition.placeholder || definition.type}>`;
+    const alias = definition.alias ? `-${definition.alias}, ` : '    ';
+    const details = [
+      definition.choices ? `one of: ${definition.choices.join(', ')}` : '',
+      definition.default !== undefined ? `default: ${definition.default}` : '',
+      definition.env?.length ? `env: ${definition.env.join(', ')}` : '',
+      definition.required ? 'required' : '',
+    ].filter(Boolean);
+
+    return [
+      `  ${alias}--${toKebabCase(key)}${placeholder}`,
+      `${definition.description}${details.length ? ` (${details.join('; ')})` : ''}`,
+    ];
+  });
+
+  rows.push(['      --json', 'Print machine-readable JSON to stdout']);
+  rows.push(['  -h, --help', 'Show this help']);
+  lines.push('Flags:', ...formatRows(rows));
+
+  if (command.examples?.length) {
+    lines.push('', 'Examples:', ...command.examples.map(example => `  ${program} ${example}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Render the top-level `--help` output listing every command
+ */
+export function formatProgramHelp(program: string, commands: CommandDefinition<FlagSpec>[]): string {
+  const lines = [
+    `Usage: ${program} <command> [flags]`,
+    '',
+    'Commands:',
+    ...formatRows(commands.map(command => [`  ${command.name}`, command.summary])),
+    '',
+    'Global flags:',
+    ...formatRows([
+      ['  --json', 'Print machine-readable JSON to stdout'],
+      ['  -h, --help', 'Show help for a command'],
+      ['  -v, --version', 'Show the version'],
+    ]),
+    '',
+    `Run "${program} <command> --help" for command flags.`,
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+function formatRows(rows: string[][]): string[] {
+  const width = Math.max(...rows.map(([left]) => left.length)) + 2;
+  return rows.map(([left, right]) => `${left.padEnd(width)}${right}`);
+}
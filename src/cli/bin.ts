@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/**
+ * Executable entry point: `npx tsx src/cli/bin.ts <command> [flags]`
+ */
+
+import { runCli } from './index';
+
+runCli(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,120 @@
+/**
+ * `git2video dashboard` - render a team dashboard computed from a repository's history over a date window
+ */
+
+import { DashboardKind, DASHBOARDS } from '../../analytics';
+import { defineCommand } from '../args';
+import {
+  brandInputProps,
+  configRoot,
+  defaultDashboardOutputPath,
+  historyFlags,
+  loadHistory,
+  renderFlags,
+  resolveBrandKit,
+  videoFlags,
+  writeJsonFile,
+} from '../pipeline';
+import { CliConfigError } from '../types';
+
+export const dashboardCommand = defineCommand({
+  name: 'dashboard',
+  summary: 'Render a team dashboard (velocity, impact, risk, milestones or ROI) from repository history',
+  description:
+    'Reads the commits, pull requests, issues, milestones and releases in the window from GitHub or a local ' +
+    'clone, computes the dashboard\'s metrics and renders its composition.',
+  flags: {
+    dashboard: {
+      type: 'string',
+      description: 'Dashboard to render',
+      choices: Object.keys(DASHBOARDS),
+      default: 'team-velocity',
+    },
+    ...historyFlags,
+    teamName: {
+      type: 'string',
+      description: 'Team or project name in the header (default: the repository name)',
+    },
+    sprintDays: {
+      type: 'number',
+      description: 'Days per sprint in velocity charts and milestone phases',
+      default: 14,
+      placeholder: 'days',
+    },
+    hourlyRate: {
+      type: 'number',
+      description: 'Cost of one engineering hour, for the ROI and milestone budgets',
+      placeholder: 'amount',
+    },
+    theme: {
+      type: 'string',
+      description: 'Dashboard colour scheme',
+      choices: ['light', 'dark', 'github'],
+      default: 'github',
+    },
+    brandKit: videoFlags.brandKit,
+    entryPoint: renderFlags.entryPoint,
+    output: {
+      type: 'string',
+      alias: 'o',
+      description: 'Output path (default: out/<dashboard>-<repo>-<timestamp>.mp4, or stdout with --data-only)',
+      placeholder: 'file',
+    },
+    dataOnly: {
+      type: 'boolean',
+      description: 'Write the computed dashboard data as JSON instead of rendering',
+      default: false,
+    },
+  },
+  examples: [
+    'dashboard --repo acme/widgets --days 14 -o out/sprint-12.mp4',
+    'dashboard --dashboard risk-quality --repo acme/widgets --since 2024-01-01 --until 2024-03-31',
+    'dashboard --dashboard roi --source local-git --repo-path ../widgets --hourly-rate 95 --data-only',
+  ],
+  async run({ flags, log, json, deps }) {
+    if (!Number.isInteger(flags.sprintDays) || flags.sprintDays <= 0) {
+      throw new CliConfigError(`--sprint-days must be a positive whole number, got ${flags.sprintDays}`);
+    }
+    if (flags.hourlyRate !== undefined && !(flags.hourlyRate >= 0)) {
+      throw new CliConfigError(`--hourly-rate must be zero or more, got ${flags.hourlyRate}`);
+    }
+
+    const dashboard = DASHBOARDS[flags.dashboard as DashboardKind];
+    const history = await loadHistory(flags, log, deps);
+    const data = dashboard.build(history, {
+      ...(flags.teamName ? { teamName: flags.teamName } : {}),
+      sprintDays: flags.sprintDays,
+      ...(flags.hourlyRate !== undefined ? { hourlyRate: flags.hourlyRate } : {}),
+    });
+
+    if (flags.dataOnly) {
+      if (!flags.output) {
+        return { data, text: JSON.stringify(data, null, 2) };
+      }
+      const output = writeJsonFile(flags.output, data);
+      return { data: { output, dashboard: flags.dashboard }, text: `Wrote ${dashboard.title} data to ${output}` };
+    }
+
+    const output = flags.output || defaultDashboardOutputPath(flags.dashboard, history.repository.fullName, 'mp4');
+    const brand = resolveBrandKit(flags.brandKit, log, configRoot(flags));
+
+    let reported = -1;
+    const result = await deps.createRenderer(flags.entryPoint, log).renderVideo({
+      compositionId: dashboard.compositionId,
+      inputProps: { data, theme: flags.theme, ...brandInputProps(brand) },
+      output,
+      onProgress: progress => {
+        const percentage = Math.floor(progress * 10) * 10;
+        if (!json && percentage > reported) {
+          reported = percentage;
+          log(`Progress: ${percentage}%`);
+        }
+      },
+    });
+
+    return {
+      data: { ...result, dashboard: flags.dashboard, window: history.window },
+      text: `Rendered ${result.id} (${result.width}x${result.height}, ${result.durationInFrames / result.fps}s) to ${result.output}`,
+    };
+  },
+});
@@ -0,0 +1,38 @@
+/**
+ * `git2video fetch` - dump PRVideoData as JSON
+ */
+
+import { defineCommand } from '../args';
+import { loadPRData, sourceFlags, writeJsonFile } from '../pipeline';
+
+export const fetchCommand = defineCommand({
+  name: 'fetch',
+  summary: 'Fetch a pull request and print its PRVideoData as JSON',
+  flags: {
+    ...sourceFlags,
+    output: {
+      type: 'string',
+      alias: 'o',
+      description: 'Write the JSON to a file instead of stdout',
+      placeholder: 'file',
+    },
+  },
+  examples: [
+    'fetch --repo acme/widgets --pr 42 -o pr-42.json',
+    'fetch --source local-git --base main --head feature/login',
+    'fetch --repo acme/widgets --pr 42 --save-snapshot fixtures/pr-42.snapshot.json -o /dev/null',
+  ],
+  async run({ flags, log, deps }) {
+    const prData = await loadPRData(flags, log, deps);
+
+    if (!flags.output) {
+      return { data: prData, text: JSON.stringify(prData, null, 2) };
+    }
+
+    const output = writeJsonFile(flags.output, prData);
+    return {
+      data: { output, pullRequest: prData.pullRequest.number, title: prData.pullRequest.title },
+      text: `Wrote PR data to ${output}`,
+    };
+  },
+});
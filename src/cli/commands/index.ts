@@ -0,0 +1,32 @@
+/**
+ * Registry of git2video subcommands
+ */
+
+import { CommandDefinition, FlagSpec } from '../types';
+import { dashboardCommand } from './dashboard';
+import { fetchCommand } from './fetch';
+import { listCompositionsCommand } from './listCompositions';
+import { previewStillCommand } from './previewStill';
+import { releaseCommand } from './release';
+import { renderCommand } from './render';
+import { scriptCommand } from './script';
+
+export const commands = [
+  fetchCommand,
+  scriptCommand,
+  renderCommand,
+  releaseCommand,
+  dashboardCommand,
+  previewStillCommand,
+  listCompositionsCommand,
+] as unknown as CommandDefinition<FlagSpec>[];
+
+export {
+  fetchCommand,
+  scriptCommand,
+  renderCommand,
+  releaseCommand,
+  dashboardCommand,
+  previewStillCommand,
+  listCompositionsCommand,
+};
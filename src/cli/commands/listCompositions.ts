@@ -0,0 +1,29 @@
+/**
+ * `git2video list-compositions` - show the compositions registered in the Remotion entry point
+ */
+
+import { defineCommand } from '../args';
+import { renderFlags } from '../pipeline';
+
+export const listCompositionsCommand = defineCommand({
+  name: 'list-compositions',
+  summary: 'List the compositions available for rendering',
+  flags: {
+    entryPoint: renderFlags.entryPoint,
+  },
+  async run({ flags, log, deps }) {
+    const compositions = await deps.createRenderer(flags.entryPoint, log).listCompositions();
+    const width = Math.max(0, ...compositions.map(composition => composition.id.length)) + 2;
+
+    return {
+      data: compositions,
+      text: compositions
+        .map(composition =>
+          `${composition.id.padEnd(width)}${composition.width}x${composition.height}  ` +
+          `${composition.fps}fps  ${composition.durationInFrames} frames ` +
+          `(${(composition.durationInFrames / composition.fps).toFixed(1)}s)`
+        )
+        .join('\n'),
+    };
+  },
+});
@@ -0,0 +1,61 @@
+/**
+ * `git2video preview-still` - render one frame for a quick visual check
+ */
+
+import { defineCommand } from '../args';
+import {
+  addVoiceover,
+  buildInputProps,
+  defaultOutputPath,
+  generateVideoContent,
+  loadPRData,
+  PR_COMPOSITIONS,
+  renderFlags,
+  sourceFlags,
+  VideoType,
+  videoFlags,
+  voiceoverFlags,
+} from '../pipeline';
+
+export const previewStillCommand = defineCommand({
+  name: 'preview-still',
+  summary: 'Render a single frame of a pull request video to PNG',
+  flags: {
+    ...sourceFlags,
+    ...videoFlags,
+    ...voiceoverFlags,
+    ...renderFlags,
+    frame: {
+      type: 'number',
+      alias: 'f',
+      description: 'Frame to render',
+      default: 0,
+    },
+    output: {
+      type: 'string',
+      alias: 'o',
+      description: 'Output image path (default: out/pr-<number>-<type>-frame-<n>-<timestamp>.png)',
+      placeholder: 'file',
+    },
+  },
+  examples: ['preview-still --repo acme/widgets --pr 42 --frame 120 -o still.png'],
+  async run({ flags, log, deps }) {
+    const prData = await loadPRData(flags, log, deps);
+    const content = await addVoiceover(await generateVideoContent(prData, flags, log, deps), flags, log, deps);
+    const compositionId = flags.composition || PR_COMPOSITIONS[flags.type as VideoType];
+    const output = flags.output
+      || defaultOutputPath(prData.pullRequest.number, flags.type, 'png', `-frame-${flags.frame}`);
+
+    const result = await deps.createRenderer(flags.entryPoint, log).renderStill({
+      compositionId,
+      inputProps: buildInputProps(content, flags),
+      output,
+      frame: flags.frame,
+    });
+
+    return {
+      data: result,
+      text: `Rendered frame ${result.frame} of ${result.id} to ${result.output}`,
+    };
+  },
+});
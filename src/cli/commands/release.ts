@@ -0,0 +1,120 @@
+/**
+ * `git2video release` - render one release-notes video for every pull request merged between two tags or in a milestone
+ */
+
+import { bumperSeconds } from '../../brand';
+import { defineCommand } from '../args';
+import {
+  addReleaseVoiceover,
+  buildReleaseInputProps,
+  defaultReleaseOutputPath,
+  generateReleaseContent,
+  loadReleaseData,
+  releaseFlags,
+  renderFlags,
+  voiceoverFlags,
+  writeCaptionFiles,
+} from '../pipeline';
+import { VideoScript } from '../../video/scripts/types';
+
+export const RELEASE_COMPOSITION = 'ReleaseNotesVideo';
+
+export const releaseCommand = defineCommand({
+  name: 'release',
+  summary: 'Render a release-notes video covering every pull request in a tag range or milestone',
+  description:
+    'Finds the merged pull requests with the GitHub compare and search APIs, sorts them into feature, fix and ' +
+    'maintenance chapters by label, and renders one chaptered video ending with a contributor roll call.',
+  flags: {
+    ...releaseFlags,
+    ...voiceoverFlags,
+    ...renderFlags,
+    output: {
+      type: 'string',
+      alias: 'o',
+      description: 'Output video path (default: out/release-<name>-<timestamp>.mp4)',
+      placeholder: 'file',
+    },
+    captions: {
+      type: 'boolean',
+      description: 'Write .srt and .vtt captions next to the video (--no-captions to skip)',
+      default: true,
+    },
+    scriptOnly: {
+      type: 'boolean',
+      description: 'Print the chaptered script instead of rendering',
+      default: false,
+    },
+  },
+  examples: [
+    'release --repo acme/widgets --from v1.2.0 --to v1.3.0 -o out/v1.3.0.mp4',
+    'release --repo acme/widgets --milestone "Sprint 12" --duration 120',
+    'release --repo acme/widgets --from v1.2.0 --to v1.3.0 --script-only',
+  ],
+  async run({ flags, log, json, deps }) {
+    const data = await loadReleaseData(flags, log, deps);
+    const generated = generateReleaseContent(data, flags, log);
+    const chapters = chapterMarkers(generated.script);
+
+    if (flags.scriptOnly) {
+      return {
+        data: { release: generated.release, script: generated.script, chapters },
+        text: formatChapters(generated.script.title, chapters),
+      };
+    }
+
+    const content = await addReleaseVoiceover(generated, flags, log, deps);
+    const output = flags.output || defaultReleaseOutputPath(data.name, 'mp4');
+
+    let reported = -1;
+    const result = await deps.createRenderer(flags.entryPoint, log).renderVideo({
+      compositionId: flags.composition || RELEASE_COMPOSITION,
+      inputProps: buildReleaseInputProps(content, flags),
+      output,
+      onProgress: progress => {
+        const percentage = Math.floor(progress * 10) * 10;
+        if (!json && percentage > reported) {
+          reported = percentage;
+          log(`Progress: ${percentage}%`);
+        }
+      },
+    });
+
+    const captions = flags.captions ? writeCaptionFiles(content.script, result.output, bumperSeconds(content.brand).intro) : undefined;
+    if (captions) {
+      log(`Wrote captions to ${captions.srt} and ${captions.vtt}`);
+    }
+
+    const retimed = chapterMarkers(content.script, bumperSeconds(content.brand).intro);
+    return {
+      data: {
+        ...result,
+        release: data.name,
+        pullRequests: data.pullRequests.map(prData => prData.pullRequest.html_url),
+        chapters: retimed,
+        ...(captions ? { captions } : {}),
+      },
+      text: [
+        `Rendered ${result.id} (${result.width}x${result.height}, ${result.durationInFrames / result.fps}s) to ${result.output}`,
+        '',
+        formatChapters('Chapters', retimed),
+      ].join('\n'),
+    };
+  },
+});
+
+/**
+ * Start time and title of each section, for video chapter lists; `offset` is the seconds played before the script
+ */
+function chapterMarkers(script: VideoScript, offset = 0): Array<{ start: number; title: string }> {
+  return script.sections.map(section => ({ start: section.timing.start + offset, title: section.title }));
+}
+
+/**
+ * `0:00 Release v1.3.0` lines, the format video hosts read chapters from
+ */
+function formatChapters(heading: string, chapters: Array<{ start: number; title: string }>): string {
+  const timestamp = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+  return [heading, ...chapters.map(chapter => `${timestamp(chapter.start)} ${chapter.title}`)].join('\n');
+}
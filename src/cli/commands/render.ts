@@ -0,0 +1,79 @@
+/**
+ * `git2video render` - fetch, script and render a pull request video
+ */
+
+import { bumperSeconds } from '../../brand';
+import { defineCommand } from '../args';
+import {
+  addVoiceover,
+  buildInputProps,
+  defaultOutputPath,
+  generateVideoContent,
+  loadPRData,
+  PR_COMPOSITIONS,
+  renderFlags,
+  sourceFlags,
+  VideoType,
+  videoFlags,
+  voiceoverFlags,
+  writeCaptionFiles,
+} from '../pipeline';
+
+export const renderCommand = defineCommand({
+  name: 'render',
+  summary: 'Render a pull request video to MP4',
+  flags: {
+    ...sourceFlags,
+    ...videoFlags,
+    ...voiceoverFlags,
+    ...renderFlags,
+    output: {
+      type: 'string',
+      alias: 'o',
+      description: 'Output video path (default: out/pr-<number>-<type>-<timestamp>.mp4)',
+      placeholder: 'file',
+    },
+    captions: {
+      type: 'boolean',
+      description: 'Write .srt and .vtt captions next to the video (--no-captions to skip)',
+      default: true,
+    },
+  },
+  examples: [
+    'render --repo acme/widgets --pr 42 --type detailed -o out/pr-42.mp4',
+    'render --source local-git --base main --json',
+    'render --snapshot fixtures/pr-42.snapshot.json --type technical',
+    'render --repo acme/widgets --pr 42 --voiceover espeak --voice en-us',
+    'render --repo acme/widgets --pr 42 --burn-captions',
+  ],
+  async run({ flags, log, json, deps }) {
+    const prData = await loadPRData(flags, log, deps);
+    const content = await addVoiceover(await generateVideoContent(prData, flags, log, deps), flags, log, deps);
+    const compositionId = flags.composition || PR_COMPOSITIONS[flags.type as VideoType];
+    const output = flags.output || defaultOutputPath(prData.pullRequest.number, flags.type, 'mp4');
+
+    let reported = -1;
+    const result = await deps.createRenderer(flags.entryPoint, log).renderVideo({
+      compositionId,
+      inputProps: buildInputProps(content, flags),
+      output,
+      onProgress: progress => {
+        const percentage = Math.floor(progress * 10) * 10;
+        if (!json && percentage > reported) {
+          reported = percentage;
+          log(`Progress: ${percentage}%`);
+        }
+      },
+    });
+
+    const captions = flags.captions ? writeCaptionFiles(content.script, result.output, bumperSeconds(content.brand).intro) : undefined;
+    if (captions) {
+      log(`Wrote captions to ${captions.srt} and ${captions.vtt}`);
+    }
+
+    return {
+      data: { ...result, pullRequest: prData.pullRequest.html_url, ...(captions ? { captions } : {}) },
+      text: `Rendered ${result.id} (${result.width}x${result.height}, ${result.durationInFrames / result.fps}s) to ${result.output}`,
+    };
+  },
+});
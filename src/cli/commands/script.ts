@@ -0,0 +1,51 @@
+/**
+ * `git2video script` - generate the VideoScript for a pull request
+ */
+
+import { defineCommand } from '../args';
+import { generateVideoContent, loadPRData, sourceFlags, videoFlags, writeJsonFile } from '../pipeline';
+import { VideoScript } from '../../video/scripts/types';
+
+export const scriptCommand = defineCommand({
+  name: 'script',
+  summary: 'Generate the narration script for a pull request video',
+  flags: {
+    ...sourceFlags,
+    ...videoFlags,
+    output: {
+      type: 'string',
+      alias: 'o',
+      description: 'Write the script JSON to a file',
+      placeholder: 'file',
+    },
+  },
+  examples: ['script --repo acme/widgets --pr 42 --type detailed --audience engineering'],
+  async run({ flags, log, deps }) {
+    const prData = await loadPRData(flags, log, deps);
+    const { script, warnings } = await generateVideoContent(prData, flags, log, deps);
+    warnings.forEach(warning => log(`Warning: ${warning}`));
+
+    const output = flags.output ? writeJsonFile(flags.output, script) : undefined;
+    return {
+      data: output ? { output, script } : script,
+      text: output ? `Wrote script to ${output}` : formatScript(script),
+    };
+  },
+});
+
+/**
+ * Readable outline of a script: one block per section with its timing and narration
+ */
+function formatScript(script: VideoScript): string {
+  const lines = [`${script.title} (${script.targetDuration}s, ${script.sections.length} sections)`, ''];
+
+  script.sections.forEach(section => {
+    lines.push(`[${section.timing.start}s-${section.timing.end}s] ${section.title} (${section.type})`);
+    if (section.voiceover) {
+      lines.push(`  ${section.voiceover}`);
+    }
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,69 @@
+/**
+ * Map errors raised anywhere in the pipeline onto CLI exit codes
+ */
+
+import {
+  GitHubApiAuthenticationError,
+  GitHubApiFetchError,
+  GitHubApiNotFoundError,
+  GitHubApiRateLimitError,
+} from '../github/types';
+import { DefinitionError } from '../definitions';
+import { DataSourceError } from '../sources/types';
+import { VoiceoverError } from '../video/voiceover/types';
+import { CliError, ExitCode } from './types';
+
+/**
+ * Classify an error into the exit code category pipelines branch on
+ */
+export function exitCodeFor(error: unknown): ExitCode {
+  if (error instanceof CliError) {
+    return error.exitCode;
+  }
+
+  if (error instanceof GitHubApiAuthenticationError) {
+    return ExitCode.Auth;
+  }
+
+  if (
+    error instanceof GitHubApiRateLimitError ||
+    error instanceof GitHubApiNotFoundError ||
+    error instanceof GitHubApiFetchError
+  ) {
+    return error instanceof GitHubApiFetchError && [401, 403].includes(error.statusCode)
+      ? ExitCode.Auth
+      : ExitCode.Network;
+  }
+
+  if (error instanceof DataSourceError) {
+    if (error.statusCode === 401 || error.statusCode === 403) {
+      return ExitCode.Auth;
+    }
+    // Local git and snapshot failures come from bad paths, revisions or files; HTTP sources fail on the wire
+    return error.source === 'local-git' || error.source === 'snapshot' ? ExitCode.Config : ExitCode.Network;
+  }
+
+  if (error instanceof DefinitionError) {
+    return ExitCode.Config;
+  }
+
+  if (error instanceof VoiceoverError) {
+    return ExitCode.Render;
+  }
+
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+    return ExitCode.Network;
+  }
+
+  return ExitCode.Failure;
+}
+
+/**
+ * Serializable description of a failure for --json output
+ */
+export function describeError(error: unknown): { name: string; message: string; exitCode: ExitCode } {
+  const exitCode = exitCodeFor(error);
+  return error instanceof Error
+    ? { name: error.name, message: error.message, exitCode }
+    : { name: 'Error', message: String(error), exitCode };
+}
@@ -0,0 +1,146 @@
+/**
+ * git2video command-line interface
+ * Dispatches subcommands, renders help, and maps failures onto exit codes
+ */
+
+import { format } from 'util';
+import packageJson from '../../package.json';
+import { createDataSource, createHistorySource, createReleaseSource } from '../sources';
+import { createNarrationProvider } from '../video/narration';
+import { createTTSEngine } from '../video/voiceover';
+import { formatCommandHelp, formatProgramHelp, parseFlags } from './args';
+import { commands } from './commands';
+import { describeError, exitCodeFor } from './errors';
+import { RemotionRunner } from './remotion';
+import { CliConfigError, CliDependencies, CliStreams, ExitCode } from './types';
+
+export * from './types';
+export * from './args';
+export * from './errors';
+export * from './pipeline';
+export { commands } from './commands';
+export { RemotionRunner } from './remotion';
+
+export const PROGRAM_NAME = 'git2video';
+
+export interface RunCliOptions {
+  streams?: CliStreams;
+  deps?: Partial<CliDependencies>;
+}
+
+const defaultDependencies: CliDependencies = {
+  env: process.env,
+  createDataSource,
+  createReleaseSource,
+  createHistorySource,
+  createRenderer: (entryPoint, log) => new RemotionRunner(entryPoint, log),
+  createTTSEngine,
+  createNarrationProvider,
+};
+
+/**
+ * Run the CLI with the given arguments (excluding `node` and the script path) and return the exit code
+ */
+export async function runCli(argv: string[], options: RunCliOptions = {}): Promise<ExitCode> {
+  const streams = options.streams || { stdout: process.stdout, stderr: process.stderr };
+  const deps = { ...defaultDependencies, ...options.deps };
+  const { globals, rest } = extractGlobalFlags(argv);
+  const commandIndex = rest.findIndex(token => !token.startsWith('-'));
+  const commandName = commandIndex === -1 ? undefined : rest[commandIndex];
+  const command = commands.find(candidate => candidate.name === commandName);
+  const log = (message: string) => streams.stderr.write(`${message}\n`);
+
+  if (globals.version && !commandName) {
+    streams.stdout.write(`${packageJson.version}\n`);
+    return ExitCode.Success;
+  }
+
+  if (!commandName || (!command && globals.help)) {
+    (globals.help ? streams.stdout : streams.stderr).write(formatProgramHelp(PROGRAM_NAME, commands));
+    return globals.help ? ExitCode.Success : ExitCode.Config;
+  }
+
+  if (command && globals.help) {
+    streams.stdout.write(formatCommandHelp(PROGRAM_NAME, command));
+    return ExitCode.Success;
+  }
+
+  // Library code reports progress through console.log; keep stdout for results only
+  const restoreConsole = redirectConsole(streams);
+
+  try {
+    if (!command) {
+      throw new CliConfigError(`Unknown command "${commandName}". Run "${PROGRAM_NAME} --help" for usage.`);
+    }
+
+    const commandArgs = [...rest.slice(0, commandIndex), ...rest.slice(commandIndex + 1)];
+    const { flags, args } = parseFlags(commandArgs, command.flags, deps.env);
+    const result = await command.run({ flags, args, json: globals.json, log, deps });
+
+    streams.stdout.write(
+      globals.json
+        ? `${JSON.stringify({ ok: true, command: command.name, data: result.data })}\n`
+        : `${result.text ?? JSON.stringify(result.data, null, 2)}\n`
+    );
+    return ExitCode.Success;
+  } catch (error) {
+    if (globals.json) {
+      streams.stdout.write(`${JSON.stringify({ ok: false, command: commandName, error: describeError(error) })}\n`);
+    } else {
+      streams.stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+    return exitCodeFor(error);
+  } finally {
+    restoreConsole();
+  }
+}
+
+/**
+ * Pull out flags that apply to every command, wherever they appear
+ */
+function extractGlobalFlags(argv: string[]): {
+  globals: { json: boolean; help: boolean; version: boolean };
+  rest: string[];
+} {
+  const globals = { json: false, help: false, version: false };
+  const separator = argv.indexOf('--');
+  const head = separator === -1 ? argv : argv.slice(0, separator);
+  const tail = separator === -1 ? [] : argv.slice(separator);
+
+  const rest = head.filter(token => {
+    switch (token) {
+      case '--json':
+        globals.json = true;
+        return false;
+      case '--help':
+      case '-h':
+        globals.help = true;
+        return false;
+      case '--version':
+      case '-v':
+        globals.version = true;
+        return false;
+      default:
+        return true;
+    }
+  });
+
+  return { globals, rest: [...rest, ...tail] };
+}
+
+function redirectConsole(streams: CliStreams): () => void {
+  const original = { log: console.log, info: console.info, warn: console.warn };
+  const toStderr = (...values: unknown[]) => {
+    streams.stderr.write(`${format(...values)}\n`);
+  };
+
+  console.log = toStderr;
+  console.info = toStderr;
+  console.warn = toStderr;
+
+  return () => {
+    console.log = original.log;
+    console.info = original.info;
+    console.warn = original.warn;
+  };
+}
@@ -0,0 +1,1086 @@
+/**
+ * Shared CLI steps: resolve a data source from flags, fetch PRVideoData (or a release's pull requests, or a
+ * repository's history) and generate the script
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BRAND_KIT_FILE_EXTENSIONS, BrandKit, brandTheme, loadBrandKit, stageBrandKit } from '../brand';
+import { defaultCacheDirectory } from '../github/cache';
+import { describeReleaseRange } from '../github/release';
+import { ReleaseTransformer, ReleaseVideoMetadata } from '../github/releaseTransformer';
+import { describeTruncation, PRVideoTransformer, VideoMetadata } from '../github/transformer';
+import { GitHubAppAuthOptions, HistoryWindow, PRVideoData, ReleaseData, ReleaseRange, RepositoryHistory } from '../github/types';
+import { DataSourceConfig, GitHubReleaseSourceConfig, HistorySourceConfig, writeSnapshot } from '../sources';
+import { defaultThemeRegistry, loadVSCodeTheme, Theme } from '../theme';
+import { buildCaptions, formatSRT, formatWebVTT } from '../video/captions';
+import { NarrationProviderConfig } from '../video/narration/types';
+import { discoverTemplates, fixedClock, ReleaseScriptGenerator, ScriptGenerator, ScriptUtils } from '../video/scripts';
+import { AudienceType, VideoScript } from '../video/scripts/types';
+import { TTSEngineConfig, VoiceoverGenerator } from '../video/voiceover';
+import { CliConfigError, CliDependencies, CliError, ExitCode, FlagSpec, FlagValues } from './types';
+
+export type VideoType = 'summary' | 'detailed' | 'technical' | 'executive';
+
+/**
+ * Theme a repository's videos use when --theme isn't given, relative to its config root
+ */
+export const DEFAULT_THEME_FILE = '.git2video/theme.json';
+
+const THEME_FILE_EXTENSIONS = ['.json', '.jsonc'];
+
+/**
+ * Brand kit files a repository's videos use when --brand-kit isn't given, relative to its config root, in order of
+ * preference
+ */
+export const DEFAULT_BRAND_KIT_FILES = ['.git2video/brand.yaml', '.git2video/brand.yml', '.git2video/brand.json'];
+
+/**
+ * Composition rendered for each video type
+ */
+export const PR_COMPOSITIONS: Record<VideoType, string> = {
+  summary: 'PRSummaryVideo',
+  detailed: 'PRDetailedVideo',
+  technical: 'PRTechnicalVideo',
+  executive: 'PRExecutiveVideo',
+};
+
+export const sourceFlags = {
+  source: {
+    type: 'string',
+    description: 'Where to read the pull request from',
+    choices: ['github', 'local-git', 'gitlab', 'bitbucket'],
+    default: 'github',
+  },
+  repo: {
+    type: 'string',
+    description: 'Repository as owner/repo (GitLab: project path, Bitbucket: workspace/slug)',
+    env: ['GITHUB_REPOSITORY'],
+    placeholder: 'owner/repo',
+  },
+  pr: {
+    type: 'number',
+    description: 'Pull request number (GitLab: merge request IID)',
+    env: ['PR_NUMBER', 'GITHUB_PR_NUMBER'],
+  },
+  token: {
+    type: 'string',
+    description: 'API token (defaults to GITHUB_TOKEN/GH_TOKEN, GITLAB_TOKEN or BITBUCKET_TOKEN)',
+  },
+  baseUrl: {
+    type: 'string',
+    description: 'API base URL for self-hosted instances',
+    placeholder: 'url',
+  },
+  repoPath: {
+    type: 'string',
+    description: 'Repository working tree for --source local-git',
+    default: '.',
+    placeholder: 'path',
+  },
+  base: {
+    type: 'string',
+    description: 'Base revision for --source local-git',
+    placeholder: 'rev',
+  },
+  head: {
+    type: 'string',
+    description: 'Head revision for --source local-git',
+    default: 'HEAD',
+    placeholder: 'rev',
+  },
+  title: {
+    type: 'string',
+    description: 'Pull request title for --source local-git',
+  },
+  appId: {
+    type: 'string',
+    description: 'GitHub App ID; authenticates as an app installation instead of with a token',
+    env: ['GITHUB_APP_ID'],
+  },
+  appInstallationId: {
+    type: 'number',
+    description: 'GitHub App installation ID',
+    env: ['GITHUB_APP_INSTALLATION_ID'],
+  },
+  appPrivateKey: {
+    type: 'string',
+    description: 'GitHub App private key PEM file (or set GITHUB_APP_PRIVATE_KEY to the key itself)',
+    env: ['GITHUB_APP_PRIVATE_KEY_PATH'],
+    placeholder: 'file',
+  },
+  username: {
+    type: 'string',
+    description: 'Bitbucket username for app-password authentication',
+    env: ['BITBUCKET_USERNAME'],
+  },
+  appPassword: {
+    type: 'string',
+    description: 'Bitbucket app password',
+    env: ['BITBUCKET_APP_PASSWORD'],
+  },
+  snapshot: {
+    type: 'string',
+    description: 'Replay PR data from a snapshot file instead of fetching (no credentials needed)',
+    env: ['PR_SNAPSHOT'],
+    placeholder: 'file',
+  },
+  saveSnapshot: {
+    type: 'string',
+    description: 'Save the fetched PR data as a versioned snapshot',
+    placeholder: 'file',
+  },
+  maxItems: {
+    type: 'number',
+    description: 'Stop after this many items per list (commits, files, reviews, comments); GitHub only',
+    placeholder: 'count',
+  },
+  api: {
+    type: 'string',
+    description: 'GitHub API to fetch through; graphql needs far fewer requests but returns no diff patches',
+    choices: ['rest', 'graphql'],
+    default: 'rest',
+  },
+  cache: {
+    type: 'boolean',
+    description: 'Cache GitHub API responses on disk and revalidate them with ETags (--no-cache to bypass)',
+    default: true,
+  },
+  cacheDir: {
+    type: 'string',
+    description: 'GitHub response cache directory (defaults to $XDG_CACHE_HOME/git2video/github)',
+    env: ['GIT2VIDEO_CACHE_DIR'],
+    placeholder: 'path',
+  },
+} satisfies FlagSpec;
+
+export const videoFlags = {
+  type: {
+    type: 'string',
+    description: 'Video type',
+    choices: ['summary', 'detailed', 'technical', 'executive'],
+    default: 'summary',
+    env: ['VIDEO_TYPE'],
+  },
+  audience: {
+    type: 'string',
+    description: 'Primary audience for the script',
+    choices: ['engineering', 'product', 'executive', 'qa', 'design', 'marketing', 'general', 'external'],
+    default: 'general',
+  },
+  duration: {
+    type: 'number',
+    description: 'Target duration in seconds (defaults to the transformer estimate)',
+    placeholder: 'seconds',
+  },
+  template: {
+    type: 'string',
+    description: 'Script template id from --template-dir (defaults to the built-in template for --type)',
+    placeholder: 'id',
+  },
+  templateDir: {
+    type: 'string',
+    description: 'Directory of YAML/JSON script templates',
+    default: '.git2video/templates',
+    env: ['GIT2VIDEO_TEMPLATE_DIR'],
+    placeholder: 'path',
+  },
+  theme: {
+    type: 'string',
+    description: `Color theme: ${defaultThemeRegistry.list().map(theme => theme.id).join(', ')} or a VS Code theme .json file (defaults to ${DEFAULT_THEME_FILE} if present, else picked from the repository language)`,
+    env: ['GIT2VIDEO_THEME'],
+    placeholder: 'id|file',
+  },
+  brandKit: {
+    type: 'string',
+    description: `Brand kit YAML/JSON file: logo, fonts, palette, intro/outro bumpers and watermark (defaults to ${DEFAULT_BRAND_KIT_FILES.join(' or ')} if present)`,
+    env: ['GIT2VIDEO_BRAND_KIT'],
+    placeholder: 'file',
+  },
+  seed: {
+    type: 'string',
+    description: 'Make the script reproducible: seeds its random choices and dates it at the PR\'s last update',
+    env: ['SCRIPT_SEED'],
+  },
+  narration: {
+    type: 'string',
+    description: 'Who writes the voiceover text; openai uses any OpenAI-compatible endpoint and falls back to rules per section',
+    choices: ['rules', 'openai'],
+    default: 'rules',
+    env: ['NARRATION_PROVIDER'],
+  },
+  narrationUrl: {
+    type: 'string',
+    description: 'Chat completions base URL for --narration openai (defaults to https://api.openai.com/v1)',
+    env: ['NARRATION_BASE_URL', 'OPENAI_BASE_URL'],
+    placeholder: 'url',
+  },
+  narrationModel: {
+    type: 'string',
+    description: 'Model for --narration openai',
+    default: 'gpt-4o-mini',
+    env: ['NARRATION_MODEL'],
+    placeholder: 'model',
+  },
+  narrationBudget: {
+    type: 'number',
+    description: 'Most tokens to spend narrating one script; later sections use rule-based text',
+    placeholder: 'tokens',
+  },
+} satisfies FlagSpec;
+
+export const voiceoverFlags = {
+  voiceover: {
+    type: 'string',
+    description: 'Narrate each section with an offline text-to-speech engine and fit the timings to the speech',
+    choices: ['none', 'espeak', 'piper', 'stub'],
+    default: 'none',
+    env: ['VOICEOVER_ENGINE'],
+  },
+  voice: {
+    type: 'string',
+    description: 'espeak voice name, or the .onnx model file for piper',
+    env: ['VOICEOVER_VOICE'],
+    placeholder: 'voice',
+  },
+  voiceoverDir: {
+    type: 'string',
+    description: 'Where clips are written; must be inside the Remotion public directory',
+    default: 'public/voiceover',
+    placeholder: 'path',
+  },
+} satisfies FlagSpec;
+
+export const renderFlags = {
+  composition: {
+    type: 'string',
+    description: 'Composition id (defaults to the one matching --type)',
+    placeholder: 'id',
+  },
+  videoTitle: {
+    type: 'string',
+    description: 'Title shown in the video',
+    env: ['VIDEO_TITLE'],
+  },
+  fps: {
+    type: 'number',
+    description: 'Frame rate (defaults to the composition\'s 30 fps)',
+  },
+  resolution: {
+    type: 'string',
+    description: 'Output size as WIDTHxHEIGHT, e.g. 1280x720 (defaults to 1920x1080)',
+    placeholder: 'size',
+  },
+  burnCaptions: {
+    type: 'boolean',
+    description: 'Draw the narration as captions in the video itself',
+    default: false,
+  },
+  entryPoint: {
+    type: 'string',
+    description: 'Remotion entry point',
+    default: 'src/index.tsx',
+    placeholder: 'file',
+  },
+} satisfies FlagSpec;
+
+export const releaseFlags = {
+  repo: sourceFlags.repo,
+  token: sourceFlags.token,
+  baseUrl: sourceFlags.baseUrl,
+  appId: sourceFlags.appId,
+  appInstallationId: sourceFlags.appInstallationId,
+  appPrivateKey: sourceFlags.appPrivateKey,
+  from: {
+    type: 'string',
+    description: 'Tag (or any ref) of the previous release; pull requests merged after it are included',
+    placeholder: 'tag',
+  },
+  to: {
+    type: 'string',
+    description: 'Tag (or any ref) of this release',
+    placeholder: 'tag',
+  },
+  milestone: {
+    type: 'string',
+    description: 'Take the pull requests merged in this milestone instead of a tag range',
+    placeholder: 'title',
+  },
+  maxPrs: {
+    type: 'number',
+    description: 'Fetch at most this many pull requests',
+    default: 100,
+    placeholder: 'count',
+  },
+  highlights: {
+    type: 'number',
+    description: 'Pull requests narrated per chapter; the rest are counted (fewer when --duration is short)',
+    default: 3,
+    placeholder: 'count',
+  },
+  duration: {
+    type: 'number',
+    description: 'Longest the video should run in seconds',
+    default: 180,
+    placeholder: 'seconds',
+  },
+  theme: videoFlags.theme,
+  brandKit: videoFlags.brandKit,
+  maxItems: sourceFlags.maxItems,
+  api: sourceFlags.api,
+  cache: sourceFlags.cache,
+  cacheDir: sourceFlags.cacheDir,
+} satisfies FlagSpec;
+
+export const historyFlags = {
+  source: {
+    type: 'string',
+    description: 'Where to read the history from',
+    choices: ['github', 'local-git'],
+    default: 'github',
+  },
+  repo: sourceFlags.repo,
+  token: sourceFlags.token,
+  baseUrl: sourceFlags.baseUrl,
+  repoPath: {
+    ...sourceFlags.repoPath,
+    description: 'Repository working tree for --source local-git',
+  },
+  appId: sourceFlags.appId,
+  appInstallationId: sourceFlags.appInstallationId,
+  appPrivateKey: sourceFlags.appPrivateKey,
+  since: {
+    type: 'string',
+    description: 'Start of the window as a date or ISO timestamp (default: --days before --until)',
+    placeholder: 'date',
+  },
+  until: {
+    type: 'string',
+    description: 'End of the window as a date or ISO timestamp (default: now)',
+    placeholder: 'date',
+  },
+  days: {
+    type: 'number',
+    description: 'Length of the window when --since is not given',
+    default: 30,
+    placeholder: 'count',
+  },
+  maxPrs: {
+    type: 'number',
+    description: 'Read at most this many pull requests; GitHub only',
+    default: 200,
+    placeholder: 'count',
+  },
+  maxIssues: {
+    type: 'number',
+    description: 'Read at most this many issues; GitHub only',
+    default: 200,
+    placeholder: 'count',
+  },
+  cache: sourceFlags.cache,
+  cacheDir: sourceFlags.cacheDir,
+} satisfies FlagSpec;
+
+export type SourceFlags = FlagValues<typeof sourceFlags>;
+export type VideoFlags = FlagValues<typeof videoFlags>;
+export type VoiceoverFlags = FlagValues<typeof voiceoverFlags>;
+export type RenderFlags = FlagValues<typeof renderFlags>;
+export type ReleaseFlags = FlagValues<typeof releaseFlags>;
+export type HistoryFlags = FlagValues<typeof historyFlags>;
+
+export interface VideoContent {
+  prData: PRVideoData;
+  metadata: VideoMetadata;
+  script: VideoScript;
+  warnings: string[];
+  /** Asset paths are absolute until `buildInputProps` stages them */
+  brand?: BrandKit;
+}
+
+export interface ReleaseContent {
+  release: ReleaseVideoMetadata;
+  script: VideoScript;
+  brand?: BrandKit;
+}
+
+/**
+ * Build a data source configuration from CLI flags
+ */
+export function resolveSourceConfig(
+  flags: SourceFlags,
+  env: Record<string, string | undefined>
+): DataSourceConfig {
+  if (flags.snapshot) {
+    return { type: 'snapshot', path: flags.snapshot };
+  }
+
+  if (flags.source === 'local-git') {
+    if (!flags.base) {
+      throw new CliConfigError('--base is required for --source local-git');
+    }
+    return {
+      type: 'local-git',
+      repoPath: flags.repoPath,
+      base: flags.base,
+      head: flags.head,
+      ...(flags.title ? { title: flags.title } : {}),
+      ...(flags.pr !== undefined ? { number: flags.pr } : {}),
+    };
+  }
+
+  if (!flags.repo) {
+    throw new CliConfigError('--repo is required (or set GITHUB_REPOSITORY)');
+  }
+  if (flags.pr === undefined || !Number.isInteger(flags.pr) || flags.pr <= 0) {
+    throw new CliConfigError('--pr must be a positive pull request number (or set PR_NUMBER)');
+  }
+
+  const baseUrl = flags.baseUrl ? { baseUrl: flags.baseUrl } : {};
+
+  switch (flags.source) {
+    case 'gitlab':
+      return {
+        type: 'gitlab',
+        token: requireToken(flags.token || env.GITLAB_TOKEN, 'GITLAB_TOKEN'),
+        project: flags.repo,
+        mergeRequestIid: flags.pr,
+        ...baseUrl,
+      };
+    case 'bitbucket': {
+      const [workspace, repoSlug] = splitRepo(flags.repo, 'workspace/slug');
+      const token = flags.token || env.BITBUCKET_TOKEN;
+      if (!token && !(flags.username && flags.appPassword)) {
+        throw new CliError(
+          'Bitbucket needs --token (or BITBUCKET_TOKEN) or --username with --app-password',
+          ExitCode.Auth
+        );
+      }
+      return {
+        type: 'bitbucket',
+        workspace,
+        repoSlug,
+        prId: flags.pr,
+        ...(token ? { token } : { username: flags.username, appPassword: flags.appPassword }),
+        ...baseUrl,
+      };
+    }
+    default: {
+      const [owner, repo] = splitRepo(flags.repo, 'owner/repo');
+      const app = resolveGitHubApp(flags, env);
+      return {
+        type: 'github',
+        ...(app ? { app } : { token: requireToken(flags.token || env.GITHUB_TOKEN || env.GH_TOKEN, 'GITHUB_TOKEN') }),
+        owner,
+        repo,
+        prNumber: flags.pr,
+        ...baseUrl,
+        ...(flags.cache ? { cache: { directory: flags.cacheDir || defaultCacheDirectory(env) } } : {}),
+      };
+    }
+  }
+}
+
+/**
+ * Fetch PRVideoData from the source described by the flags
+ */
+export async function loadPRData(
+  flags: SourceFlags,
+  log: (message: string) => void,
+  deps: CliDependencies
+): Promise<PRVideoData> {
+  const source = deps.createDataSource(resolveSourceConfig(flags, deps.env));
+  log(`Fetching ${source.describe()} from ${source.kind}...`);
+
+  const prData = await source.fetchPRData({
+    includeCommits: true,
+    includeFiles: true,
+    includeReviews: true,
+    includeComments: true,
+    includeTimeline: true,
+    ...(flags.maxItems !== undefined ? { maxItems: flags.maxItems } : {}),
+    api: flags.api as 'rest' | 'graphql',
+  });
+
+  log(`Fetched "${prData.pullRequest.title}" (${prData.commits.length} commits, ${prData.files.length} files)`);
+  Object.entries(prData.truncation || {}).forEach(([collection, truncation]) => {
+    log(describeTruncation(truncation, collection));
+  });
+
+  if (flags.saveSnapshot) {
+    const output = writeSnapshot(flags.saveSnapshot, prData, { kind: source.kind, description: source.describe() });
+    log(`Saved snapshot to ${output}`);
+  }
+
+  return prData;
+}
+
+/**
+ * Transform PR data and generate the video script
+ */
+export async function generateVideoContent(
+  prData: PRVideoData,
+  flags: VideoFlags & Partial<Pick<SourceFlags, 'source' | 'repoPath'>>,
+  log: (message: string) => void,
+  deps: CliDependencies
+): Promise<VideoContent> {
+  const videoType = flags.type as VideoType;
+  const root = configRoot(flags);
+  const brand = resolveBrandKit(flags.brandKit, log, root);
+  const theme = resolveBrandedTheme(flags.theme, brand, root);
+  if (theme) {
+    log(`Using theme "${theme.name}" (${theme.id})`);
+  }
+  const metadata = new PRVideoTransformer({ theme }).transform(prData, videoType);
+  // Executive briefs stay a 30-60 second clip however long the full walkthrough would run
+  const estimate = videoType === 'executive' ? Math.min(Math.max(metadata.duration, 30), 60) : metadata.duration;
+  const targetDuration = flags.duration ?? estimate;
+
+  log(`Generating ${videoType} script (${targetDuration}s, ${flags.audience} audience)...`);
+  // A seeded run also pins the clock, so the same PR data always yields the same script
+  const narrationConfig = resolveNarrationConfig(flags, deps.env);
+  const narration = narrationConfig ? deps.createNarrationProvider(narrationConfig) : undefined;
+  if (narration) {
+    log(`Writing narration with ${narration.name}...`);
+  }
+  const { templates, errors } = discoverTemplates(flags.templateDir);
+  const template = flags.template ? templates.find(candidate => candidate.id === flags.template) : undefined;
+  if (flags.template && !template) {
+    const available = templates.map(candidate => candidate.id).join(', ') || 'none';
+    const invalid = errors.map(error => `\n${error.message}`).join('');
+    throw new CliConfigError(`No template "${flags.template}" in ${flags.templateDir} (found: ${available})${invalid}`);
+  }
+  // Only the selected template is used, so a broken file elsewhere in the directory does not stop the run
+  errors.forEach(error => log(`Warning: skipping ${error.message}`));
+  if (template) {
+    log(`Using template "${template.name}" (${template.id})`);
+  }
+
+  const generator = new ScriptGenerator({
+    ...(flags.seed ? { clock: fixedClock(prData.pullRequest.updated_at) } : {}),
+    ...(narration ? { narration } : {}),
+    templates,
+  });
+  const result = await generator.generateScript(metadata, {
+    ...ScriptUtils.createBasicConfig(template ? template.type : videoType, targetDuration, flags.audience as AudienceType),
+    ...(template ? { templateId: template.id } : {}),
+    ...(flags.seed ? { seed: flags.seed } : {}),
+  });
+
+  if (!result.success) {
+    throw new CliError(`Script generation failed: ${result.errors.join('; ')}`, ExitCode.Failure);
+  }
+
+  return { prData, metadata, script: result.script, warnings: result.warnings, ...(brand ? { brand } : {}) };
+}
+
+/**
+ * Build the GitHub release source configuration from CLI flags
+ */
+export function resolveReleaseSourceConfig(
+  flags: ReleaseFlags,
+  env: Record<string, string | undefined>
+): GitHubReleaseSourceConfig {
+  if (!flags.repo) {
+    throw new CliConfigError('--repo is required (or set GITHUB_REPOSITORY)');
+  }
+  if (flags.milestone && (flags.from || flags.to)) {
+    throw new CliConfigError('Pass either --from and --to or --milestone, not both');
+  }
+  if (!flags.milestone && !(flags.from && flags.to)) {
+    throw new CliConfigError('A release needs --from and --to tags, or --milestone');
+  }
+  if (!Number.isInteger(flags.maxPrs) || flags.maxPrs <= 0) {
+    throw new CliConfigError(`--max-prs must be a positive whole number, got ${flags.maxPrs}`);
+  }
+
+  const [owner, repo] = splitRepo(flags.repo, 'owner/repo');
+  const range: ReleaseRange = flags.milestone
+    ? { type: 'milestone', milestone: flags.milestone }
+    : { type: 'tags', base: flags.from!, head: flags.to! };
+  const app = resolveGitHubApp(flags, env);
+
+  return {
+    type: 'github',
+    ...(app ? { app } : { token: requireToken(flags.token || env.GITHUB_TOKEN || env.GH_TOKEN, 'GITHUB_TOKEN') }),
+    owner,
+    repo,
+    range,
+    ...(flags.baseUrl ? { baseUrl: flags.baseUrl } : {}),
+    ...(flags.cache ? { cache: { directory: flags.cacheDir || defaultCacheDirectory(env) } } : {}),
+  };
+}
+
+/**
+ * Fetch every pull request merged in the release described by the flags
+ */
+export async function loadReleaseData(
+  flags: ReleaseFlags,
+  log: (message: string) => void,
+  deps: CliDependencies
+): Promise<ReleaseData> {
+  const source = deps.createReleaseSource(resolveReleaseSourceConfig(flags, deps.env));
+  log(`Fetching pull requests merged in ${source.describe()}...`);
+
+  const release = await source.fetchReleaseData({
+    maxPullRequests: flags.maxPrs,
+    ...(flags.maxItems !== undefined ? { maxItems: flags.maxItems } : {}),
+    api: flags.api as 'rest' | 'graphql',
+  });
+
+  log(`Fetched ${release.pullRequests.length} pull requests merged in ${describeReleaseRange(release.range)}`);
+  if (release.truncation) {
+    log(describeTruncation(release.truncation, 'pull requests'));
+  }
+
+  return release;
+}
+
+/**
+ * Build the history source configuration from CLI flags
+ */
+export function resolveHistorySourceConfig(
+  flags: HistoryFlags,
+  env: Record<string, string | undefined>
+): HistorySourceConfig {
+  if (flags.source === 'local-git') {
+    return { type: 'local-git', repoPath: flags.repoPath };
+  }
+  if (!flags.repo) {
+    throw new CliConfigError('--repo is required (or set GITHUB_REPOSITORY)');
+  }
+
+  const [owner, repo] = splitRepo(flags.repo, 'owner/repo');
+  const app = resolveGitHubApp(flags, env);
+
+  return {
+    type: 'github',
+    ...(app ? { app } : { token: requireToken(flags.token || env.GITHUB_TOKEN || env.GH_TOKEN, 'GITHUB_TOKEN') }),
+    owner,
+    repo,
+    ...(flags.baseUrl ? { baseUrl: flags.baseUrl } : {}),
+    ...(flags.cache ? { cache: { directory: flags.cacheDir || defaultCacheDirectory(env) } } : {}),
+  };
+}
+
+/**
+ * The window from --since and --until, or the --days before --until; `now` is the default end
+ */
+export function resolveHistoryWindow(flags: Pick<HistoryFlags, 'since' | 'until' | 'days'>, now = Date.now()): HistoryWindow {
+  const parse = (value: string, flag: string) => {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new CliConfigError(`--${flag} must be a date such as 2024-03-01 or an ISO timestamp, got "${value}"`);
+    }
+    return time;
+  };
+  if (!(flags.days > 0)) {
+    throw new CliConfigError(`--days must be a positive number, got ${flags.days}`);
+  }
+
+  const until = flags.until ? parse(flags.until, 'until') : now;
+  const since = flags.since ? parse(flags.since, 'since') : until - flags.days * 24 * 60 * 60 * 1000;
+  if (since >= until) {
+    throw new CliConfigError('--since must be before --until');
+  }
+  return { since: new Date(since).toISOString(), until: new Date(until).toISOString() };
+}
+
+/**
+ * Read the repository's history over the window described by the flags
+ */
+export async function loadHistory(
+  flags: HistoryFlags,
+  log: (message: string) => void,
+  deps: CliDependencies
+): Promise<RepositoryHistory> {
+  for (const flag of ['maxPrs', 'maxIssues'] as const) {
+    if (!Number.isInteger(flags[flag]) || flags[flag] <= 0) {
+      throw new CliConfigError(`--${flag === 'maxPrs' ? 'max-prs' : 'max-issues'} must be a positive whole number, got ${flags[flag]}`);
+    }
+  }
+  const window = resolveHistoryWindow(flags);
+  const source = deps.createHistorySource(resolveHistorySourceConfig(flags, deps.env));
+  log(`Reading ${source.describe()} history from ${source.kind}...`);
+
+  const history = await source.fetchHistory(window, { maxPullRequests: flags.maxPrs, maxIssues: flags.maxIssues });
+
+  log(
+    `Read ${history.commits.length} commits, ${history.pullRequests.length} pull requests and ` +
+      `${history.issues.length} issues from ${window.since.slice(0, 10)} to ${window.until.slice(0, 10)}`
+  );
+  Object.entries(history.truncation || {}).forEach(([collection, truncation]) => {
+    log(describeTruncation(truncation, collection === 'pullRequests' ? 'pull requests' : collection));
+  });
+
+  return history;
+}
+
+/**
+ * Summarise the release's pull requests into chapters and write the chaptered script
+ */
+export function generateReleaseContent(
+  release: ReleaseData,
+  flags: Pick<ReleaseFlags, 'duration' | 'highlights' | 'theme' | 'brandKit'>,
+  log: (message: string) => void
+): ReleaseContent {
+  if (!(flags.duration > 0)) {
+    throw new CliConfigError(`--duration must be a positive number of seconds, got ${flags.duration}`);
+  }
+  if (!Number.isInteger(flags.highlights) || flags.highlights <= 0) {
+    throw new CliConfigError(`--highlights must be a positive whole number, got ${flags.highlights}`);
+  }
+
+  const brand = resolveBrandKit(flags.brandKit, log);
+  const theme = resolveBrandedTheme(flags.theme, brand);
+  if (theme) {
+    log(`Using theme "${theme.name}" (${theme.id})`);
+  }
+  const metadata = new ReleaseTransformer({ theme }).transform(release);
+  log(`Generating release script (${metadata.chapters.map(chapter => `${chapter.pullRequests.length} ${chapter.category}`).join(', ') || 'no pull requests'})...`);
+  const script = new ReleaseScriptGenerator().generate(metadata, {
+    targetDuration: flags.duration,
+    highlightsPerChapter: flags.highlights,
+  });
+
+  return { release: metadata, script, ...(brand ? { brand } : {}) };
+}
+
+/**
+ * The theme named by --theme, a registered id or a VS Code theme file, else the theme file under the repository's
+ * config root if it has one
+ */
+export function resolveTheme(value: string | undefined, root = findConfigRoot()): Theme | undefined {
+  if (!value) {
+    const defaultFile = path.join(root, DEFAULT_THEME_FILE);
+    return fs.existsSync(defaultFile) ? loadVSCodeTheme(defaultFile) : undefined;
+  }
+  const registered = defaultThemeRegistry.get(value);
+  if (registered) {
+    return registered;
+  }
+  if (!THEME_FILE_EXTENSIONS.includes(path.extname(value).toLowerCase())) {
+    const available = defaultThemeRegistry.list().map(theme => theme.id).join(', ');
+    throw new CliConfigError(`--theme must be one of ${available} or a VS Code theme .json file, got "${value}"`);
+  }
+  return loadVSCodeTheme(value);
+}
+
+/**
+ * The brand kit named by --brand-kit, else the brand kit file under the repository's config root if it has one
+ */
+export function resolveBrandKit(
+  value: string | undefined,
+  log: (message: string) => void,
+  root = findConfigRoot()
+): BrandKit | undefined {
+  if (value && !BRAND_KIT_FILE_EXTENSIONS.includes(path.extname(value).toLowerCase())) {
+    throw new CliConfigError(`--brand-kit must be a ${BRAND_KIT_FILE_EXTENSIONS.join(', ')} file, got "${value}"`);
+  }
+  const file =
+    value || DEFAULT_BRAND_KIT_FILES.map(candidate => path.join(root, candidate)).find(candidate => fs.existsSync(candidate));
+  if (!file) {
+    return undefined;
+  }
+  const brand = loadBrandKit(file);
+  log(`Using brand kit "${brand.name}" from ${file}`);
+  return brand;
+}
+
+/**
+ * Directory a repository's `.git2video` files are read from: the nearest directory at or above `start` that holds
+ * `.git2video` or `.git`, else `start` itself
+ */
+export function findConfigRoot(start = process.cwd()): string {
+  const resolved = path.resolve(start);
+  for (let directory = resolved; ; directory = path.dirname(directory)) {
+    if (fs.existsSync(path.join(directory, '.git2video')) || fs.existsSync(path.join(directory, '.git'))) {
+      return directory;
+    }
+    if (path.dirname(directory) === directory) {
+      return resolved;
+    }
+  }
+}
+
+/**
+ * Config root of the repository being read: the --repo-path working tree for local git, else the current one
+ */
+export function configRoot(flags: Partial<Pick<SourceFlags, 'source' | 'repoPath'>>): string {
+  return findConfigRoot(flags.source === 'local-git' && flags.repoPath ? flags.repoPath : process.cwd());
+}
+
+/**
+ * The --theme theme with the brand kit's palette over it; a kit that names no theme or colors keeps the default
+ */
+function resolveBrandedTheme(value: string | undefined, brand: BrandKit | undefined, root?: string): Theme | undefined {
+  const theme = resolveTheme(value, root);
+  if (!brand || (!theme && !brand.theme && Object.keys(brand.palette).length === 0)) {
+    return theme;
+  }
+  return brandTheme(brand, theme);
+}
+
+function resolveNarrationConfig(
+  flags: VideoFlags,
+  env: Record<string, string | undefined>
+): NarrationProviderConfig | undefined {
+  if (flags.narration !== 'openai') {
+    return undefined;
+  }
+  if (flags.narrationBudget !== undefined && !(flags.narrationBudget > 0)) {
+    throw new CliConfigError('--narration-budget must be a positive number of tokens');
+  }
+
+  const apiKey = env.NARRATION_API_KEY || env.OPENAI_API_KEY;
+  return {
+    type: 'openai',
+    model: flags.narrationModel,
+    ...(flags.narrationUrl ? { baseUrl: flags.narrationUrl } : {}),
+    ...(apiKey ? { apiKey } : {}),
+    ...(flags.narrationBudget !== undefined ? { tokenBudget: flags.narrationBudget } : {}),
+  };
+}
+
+/**
+ * Synthesize the script's narration and retime it to the speech; a no-op with `--voiceover none`
+ */
+export async function addVoiceover(
+  content: VideoContent,
+  flags: VoiceoverFlags,
+  log: (message: string) => void,
+  deps: CliDependencies
+): Promise<VideoContent> {
+  if (flags.voiceover === 'none') {
+    return content;
+  }
+
+  const clipDir = `pr-${content.prData.pullRequest.number}-${content.script.metadata.templateType}`;
+  return { ...content, script: await synthesizeVoiceover(content.script, clipDir, flags, log, deps) };
+}
+
+/**
+ * Synthesize narration for a release script; a no-op with `--voiceover none`
+ */
+export async function addReleaseVoiceover(
+  content: ReleaseContent,
+  flags: VoiceoverFlags,
+  log: (message: string) => void,
+  deps: CliDependencies
+): Promise<ReleaseContent> {
+  if (flags.voiceover === 'none') {
+    return content;
+  }
+
+  const clipDir = `release-${fileSlug(content.release.name)}`;
+  return { ...content, script: await synthesizeVoiceover(content.script, clipDir, flags, log, deps) };
+}
+
+/**
+ * Write one clip per section under `--voiceover-dir/<clipDir>` and return the retimed script
+ */
+async function synthesizeVoiceover(
+  script: VideoScript,
+  clipDir: string,
+  flags: VoiceoverFlags,
+  log: (message: string) => void,
+  deps: CliDependencies
+): Promise<VideoScript> {
+  const publicDir = path.resolve('public');
+  const outputDir = path.resolve(flags.voiceoverDir, clipDir);
+  const publicPath = path.relative(publicDir, outputDir).split(path.sep).join('/');
+  if (!publicPath || publicPath.startsWith('..') || path.isAbsolute(publicPath)) {
+    throw new CliConfigError(`--voiceover-dir must be inside ${publicDir} so the renderer can serve the clips`);
+  }
+
+  const engine = deps.createTTSEngine(resolveTTSConfig(flags));
+  log(`Synthesizing voiceover with ${engine.kind}...`);
+  const result = await new VoiceoverGenerator(engine, { outputDir, publicPath }).generate(script);
+  log(`Wrote ${result.clips.length} voiceover clips (${result.speechDuration.toFixed(1)}s of speech) to ${outputDir}`);
+
+  return result.script;
+}
+
+function resolveTTSConfig(flags: VoiceoverFlags): TTSEngineConfig {
+  switch (flags.voiceover) {
+    case 'piper':
+      if (!flags.voice) {
+        throw new CliConfigError('--voice <model.onnx> is required for --voiceover piper');
+      }
+      return { type: 'piper', model: flags.voice };
+    case 'espeak':
+      return { type: 'espeak', ...(flags.voice ? { voice: flags.voice } : {}) };
+    default:
+      return { type: 'stub' };
+  }
+}
+
+/**
+ * GitHub App credentials from flags/env, or undefined when no app flag is set
+ */
+function resolveGitHubApp(
+  flags: Pick<SourceFlags, 'appId' | 'appInstallationId' | 'appPrivateKey'>,
+  env: Record<string, string | undefined>
+): GitHubAppAuthOptions | undefined {
+  if (!flags.appId && flags.appInstallationId === undefined) {
+    return undefined;
+  }
+  if (!flags.appId || flags.appInstallationId === undefined || !(flags.appPrivateKey || env.GITHUB_APP_PRIVATE_KEY)) {
+    throw new CliError(
+      'GitHub App authentication needs --app-id, --app-installation-id and --app-private-key (or GITHUB_APP_PRIVATE_KEY)',
+      ExitCode.Auth
+    );
+  }
+
+  let privateKey = env.GITHUB_APP_PRIVATE_KEY;
+  if (flags.appPrivateKey) {
+    try {
+      privateKey = fs.readFileSync(flags.appPrivateKey, 'utf8');
+    } catch (error) {
+      throw new CliError(`Could not read GitHub App private key ${flags.appPrivateKey}: ${(error as Error).message}`, ExitCode.Auth);
+    }
+  }
+
+  return {
+    appId: flags.appId,
+    installationId: flags.appInstallationId,
+    privateKey: privateKey!,
+  };
+}
+
+function requireToken(token: string | undefined, envName: string): string {
+  if (!token) {
+    throw new CliError(`An API token is required: pass --token or set ${envName}`, ExitCode.Auth);
+  }
+  return token;
+}
+
+function splitRepo(value: string, format: string): [string, string] {
+  const index = value.indexOf('/');
+  if (index <= 0 || index === value.length - 1) {
+    throw new CliConfigError(`Invalid repository "${value}", expected ${format}`);
+  }
+  return [value.slice(0, index), value.slice(index + 1)];
+}
+
+/**
+ * Write pretty-printed JSON, creating parent directories; returns the absolute path
+ */
+export function writeJsonFile(file: string, data: unknown): string {
+  const output = path.resolve(file);
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, `${JSON.stringify(data, null, 2)}\n`);
+  return output;
+}
+
+/**
+ * Write .srt and .vtt captions for the script next to the rendered video, shifted by `offset` seconds (a brand
+ * intro's length); returns their absolute paths
+ */
+export function writeCaptionFiles(script: VideoScript, videoOutput: string, offset = 0): { srt: string; vtt: string } {
+  const cues = buildCaptions(script, { offset });
+  const { dir, name } = path.parse(path.resolve(videoOutput));
+  const files = { srt: path.join(dir, `${name}.srt`), vtt: path.join(dir, `${name}.vtt`) };
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(files.srt, formatSRT(cues));
+  fs.writeFileSync(files.vtt, formatWebVTT(cues));
+  return files;
+}
+
+/**
+ * Props passed to the PR compositions
+ */
+export function buildInputProps(
+  content: VideoContent,
+  flags: Pick<RenderFlags, 'videoTitle' | 'fps' | 'resolution' | 'burnCaptions'>
+): Record<string, unknown> {
+  return {
+    prData: content.prData,
+    metadata: content.metadata,
+    script: content.script,
+    title: flags.videoTitle || content.metadata.title,
+    ...brandInputProps(content.brand),
+    ...renderOverrides(flags),
+  };
+}
+
+/**
+ * Props passed to the release-notes composition
+ */
+export function buildReleaseInputProps(
+  content: ReleaseContent,
+  flags: Pick<RenderFlags, 'videoTitle' | 'fps' | 'resolution' | 'burnCaptions'>
+): Record<string, unknown> {
+  return {
+    release: content.release,
+    script: content.script,
+    title: flags.videoTitle || content.release.title,
+    ...brandInputProps(content.brand),
+    ...renderOverrides(flags),
+  };
+}
+
+/**
+ * The brand kit prop, with the kit's assets staged into the Remotion public directory so the renderer can serve them
+ */
+export function brandInputProps(brand: BrandKit | undefined): Record<string, unknown> {
+  return brand ? { brand: stageBrandKit(brand, path.resolve('public')) } : {};
+}
+
+/**
+ * Caption, fps and resolution props shared by every composition
+ */
+function renderOverrides(flags: Pick<RenderFlags, 'fps' | 'resolution' | 'burnCaptions'>): Record<string, unknown> {
+  if (flags.fps !== undefined && (!Number.isInteger(flags.fps) || flags.fps <= 0)) {
+    throw new CliConfigError(`--fps must be a positive whole number, got ${flags.fps}`);
+  }
+
+  return {
+    ...(flags.burnCaptions ? { burnCaptions: true } : {}),
+    ...(flags.fps !== undefined ? { fps: flags.fps } : {}),
+    ...(flags.resolution ? parseResolution(flags.resolution) : {}),
+  };
+}
+
+/**
+ * Parse WIDTHxHEIGHT; H.264 needs both sides even
+ */
+function parseResolution(resolution: string): { width: number; height: number } {
+  const match = /^(\d+)x(\d+)$/i.exec(resolution.trim());
+  const [width, height] = match ? [Number(match[1]), Number(match[2])] : [0, 0];
+  if (!width || !height || width % 2 || height % 2) {
+    throw new CliConfigError(`--resolution must be WIDTHxHEIGHT with even sides, e.g. 1280x720, got "${resolution}"`);
+  }
+  return { width, height };
+}
+
+/**
+ * Default output path under ./out, e.g. out/pr-42-summary-2024-03-01T10-00-00-000Z.mp4
+ */
+export function defaultOutputPath(prNumber: number, videoType: string, extension: string, suffix = ''): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.join('out', `pr-${prNumber}-${videoType}${suffix}-${timestamp}.${extension}`);
+}
+
+/**
+ * Default release output path under ./out, e.g. out/release-v1.3.0-2024-03-01T10-00-00-000Z.mp4
+ */
+export function defaultReleaseOutputPath(name: string, extension: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.join('out', `release-${fileSlug(name)}-${timestamp}.${extension}`);
+}
+
+/**
+ * Default dashboard output path under ./out, e.g. out/team-velocity-acme-widgets-2024-03-01T10-00-00-000Z.mp4
+ */
+export function defaultDashboardOutputPath(dashboard: string, name: string, extension: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.join('out', `${dashboard}-${fileSlug(name)}-${timestamp}.${extension}`);
+}
+
+/**
+ * A tag or milestone title as a file name: `Sprint 12 / Q3` becomes `sprint-12-q3`
+ */
+function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-+|-+$/g, '') || 'release';
+}
@@ -0,0 +1,152 @@
+/**
+ * Thin wrapper over the Remotion bundler and renderer for CLI commands
+ * Loaded lazily so data-only commands never pull in the renderer
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { CliRenderError } from './types';
+
+export interface CompositionInfo {
+  id: string;
+  width: number;
+  height: number;
+  fps: number;
+  durationInFrames: number;
+}
+
+export interface RenderOptions {
+  compositionId: string;
+  inputProps: Record<string, unknown>;
+  output: string;
+  onProgress?: (progress: number) => void;
+}
+
+export interface StillOptions {
+  compositionId: string;
+  inputProps: Record<string, unknown>;
+  output: string;
+  frame: number;
+}
+
+const chromiumOptions = { enableMultiProcessOnLinux: true };
+
+export class RemotionRunner {
+  private serveUrl: Promise<string> | null = null;
+
+  constructor(private entryPoint: string, private log: (message: string) => void) {}
+
+  /**
+   * List the compositions registered in the entry point
+   */
+  async listCompositions(inputProps: Record<string, unknown> = {}): Promise<CompositionInfo[]> {
+    const serveUrl = await this.bundle();
+    const { getCompositions } = await import('@remotion/renderer');
+
+    return this.wrap('Failed to list compositions', async () => {
+      const compositions = await getCompositions(serveUrl, { inputProps, chromiumOptions });
+      return compositions.map(composition => this.describe(composition));
+    });
+  }
+
+  /**
+   * Render a composition to a video file
+   */
+  async renderVideo(options: RenderOptions): Promise<CompositionInfo & { output: string }> {
+    const serveUrl = await this.bundle();
+    const { renderMedia, selectComposition } = await import('@remotion/renderer');
+
+    return this.wrap(`Failed to render ${options.compositionId}`, async () => {
+      const composition = await selectComposition({
+        serveUrl,
+        id: options.compositionId,
+        inputProps: options.inputProps,
+        chromiumOptions,
+      });
+
+      this.ensureDirectory(options.output);
+      this.log(`Rendering ${composition.id} (${composition.durationInFrames} frames at ${composition.fps}fps)...`);
+
+      await renderMedia({
+        codec: 'h264',
+        composition,
+        serveUrl,
+        outputLocation: options.output,
+        inputProps: options.inputProps,
+        chromiumOptions,
+        onProgress: ({ progress }) => options.onProgress?.(progress),
+      });
+
+      return { ...this.describe(composition), output: path.resolve(options.output) };
+    });
+  }
+
+  /**
+   * Render a single frame to an image
+   */
+  async renderStill(options: StillOptions): Promise<CompositionInfo & { output: string; frame: number }> {
+    const serveUrl = await this.bundle();
+    const { renderStill, selectComposition } = await import('@remotion/renderer');
+
+    return this.wrap(`Failed to render still for ${options.compositionId}`, async () => {
+      const composition = await selectComposition({
+        serveUrl,
+        id: options.compositionId,
+        inputProps: options.inputProps,
+        chromiumOptions,
+      });
+
+      if (options.frame < 0 || options.frame >= composition.durationInFrames) {
+        throw new CliRenderError(
+          `Frame ${options.frame} is outside ${composition.id} (0-${composition.durationInFrames - 1})`
+        );
+      }
+
+      this.ensureDirectory(options.output);
+      await renderStill({
+        composition,
+        serveUrl,
+        output: options.output,
+        frame: options.frame,
+        inputProps: options.inputProps,
+        chromiumOptions,
+      });
+
+      return { ...this.describe(composition), output: path.resolve(options.output), frame: options.frame };
+    });
+  }
+
+  private bundle(): Promise<string> {
+    if (!this.serveUrl) {
+      this.serveUrl = this.wrap('Failed to bundle the Remotion project', async () => {
+        if (!fs.existsSync(this.entryPoint)) {
+          throw new CliRenderError(`Entry point not found: ${this.entryPoint}`);
+        }
+        this.log(`Bundling ${this.entryPoint}...`);
+        const { bundle } = await import('@remotion/bundler');
+        return bundle({ entryPoint: path.resolve(this.entryPoint), webpackOverride: config => config });
+      });
+    }
+    return this.serveUrl;
+  }
+
+  private describe(composition: CompositionInfo): CompositionInfo {
+    const { id, width, height, fps, durationInFrames } = composition;
+    return { id, width, height, fps, durationInFrames };
+  }
+
+  private ensureDirectory(output: string): void {
+    fs.mkdirSync(path.dirname(path.resolve(output)), { recursive: true });
+  }
+
+  private async wrap<T>(message: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof CliRenderError) {
+        throw error;
+      }
+      throw new CliRenderError(`${message}: ${(error as Error).message}`, error);
+    }
+  }
+}
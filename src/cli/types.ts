@@ -0,0 +1,138 @@
+/**
+ * Type definitions for the git2video command-line interface
+ */
+
+import type {
+  DataSourceConfig,
+  GitHubReleaseSourceConfig,
+  HistoryDataSource,
+  HistorySourceConfig,
+  PRDataSource,
+  ReleaseDataSource,
+} from '../sources/types';
+import type { NarrationProvider, NarrationProviderConfig } from '../video/narration/types';
+import type { TTSEngine, TTSEngineConfig } from '../video/voiceover/types';
+import type { RemotionRunner } from './remotion';
+
+/**
+ * Process exit codes; pipelines can branch on the failure category
+ */
+export const ExitCode = {
+  Success: 0,
+  Failure: 1,
+  Config: 2,
+  Auth: 3,
+  Network: 4,
+  Render: 5,
+} as const;
+
+export type ExitCode = typeof ExitCode[keyof typeof ExitCode];
+
+export type FlagType = 'string' | 'number' | 'boolean';
+
+type FlagValueType<T extends FlagType> =
+  T extends 'number' ? number : T extends 'boolean' ? boolean : string;
+
+/**
+ * Definition of a single `--flag`; keys are camelCase and parsed from kebab-case
+ */
+export interface FlagDefinition<T extends FlagType = FlagType> {
+  type: T;
+  description: string;
+  /** Single-letter alias, e.g. `o` for `-o` */
+  alias?: string;
+  default?: FlagValueType<T>;
+  required?: boolean;
+  /** Allowed values for string flags */
+  choices?: readonly string[];
+  /** Environment variables consulted, in order, when the flag is not given */
+  env?: readonly string[];
+  /** Value name shown in help output */
+  placeholder?: string;
+}
+
+export type FlagSpec = Record<string, FlagDefinition>;
+
+/**
+ * Parsed flag values; flags with a default or marked required are never undefined
+ */
+export type FlagValues<S extends FlagSpec> = {
+  [K in keyof S]: S[K] extends { default: unknown } | { required: true }
+    ? FlagValueType<S[K]['type']>
+    : FlagValueType<S[K]['type']> | undefined;
+};
+
+/**
+ * Destination for CLI output; stdout carries results, stderr carries progress and errors
+ */
+export interface CliStreams {
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+}
+
+/**
+ * External collaborators, injectable for tests
+ */
+export interface CliDependencies {
+  env: Record<string, string | undefined>;
+  createDataSource(config: DataSourceConfig): PRDataSource;
+  createReleaseSource(config: GitHubReleaseSourceConfig): ReleaseDataSource;
+  createHistorySource(config: HistorySourceConfig): HistoryDataSource;
+  createRenderer(
+    entryPoint: string,
+    log: (message: string) => void
+  ): Pick<RemotionRunner, 'listCompositions' | 'renderVideo' | 'renderStill'>;
+  createTTSEngine(config: TTSEngineConfig): TTSEngine;
+  createNarrationProvider(config: NarrationProviderConfig): NarrationProvider;
+}
+
+export interface CommandContext<S extends FlagSpec> {
+  flags: FlagValues<S>;
+  /** Positional arguments following the command name */
+  args: string[];
+  json: boolean;
+  /** Report progress on stderr */
+  log: (message: string) => void;
+  deps: CliDependencies;
+}
+
+/**
+ * Result of a command: the machine-readable payload and its human rendering
+ */
+export interface CommandResult {
+  data: unknown;
+  text?: string;
+}
+
+export interface CommandDefinition<S extends FlagSpec = FlagSpec> {
+  name: string;
+  summary: string;
+  description?: string;
+  flags: S;
+  examples?: string[];
+  run(context: CommandContext<S>): Promise<CommandResult>;
+}
+
+/**
+ * Error carrying the exit code it should produce
+ */
+export class CliError extends Error {
+  constructor(message: string, public exitCode: ExitCode, public cause?: unknown) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export class CliConfigError extends CliError {
+  constructor(message: string) {
+    super(message, ExitCode.Config);
+    this.name = 'CliConfigError';
+  }
+}
+
+export class CliRenderError extends CliError {
+  constructor(message: string, cause?: unknown) {
+    super(message, ExitCode.Render, cause);
+    this.name = 'CliRenderError';
+  }
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
 import { colors } from '../../../theme/colors';
+import { fontStacks } from '../../../theme/cssVariables';
 import { AnimatedTextProps } from './types';
 
 export const AnimatedText: React.FC<AnimatedTextProps> = ({
@@ -39,7 +40,7 @@ export const AnimatedText: React.FC<AnimatedTextProps> = ({
         fontSize,
         color,
         fontWeight: 'bold',
-        fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+        fontFamily: fontStacks.body,
         transform: `scale(${scale})`,
         opacity,
         textAlign: 'center',
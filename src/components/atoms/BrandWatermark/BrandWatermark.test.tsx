@@ -0,0 +1,50 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { BrandWatermark } from './index';
+import { BrandKit } from '../../../brand/types';
+
+jest.mock('remotion', () => ({
+  staticFile: (src: string) => `/static/${src}`,
+  AbsoluteFill: ({ children, style }: { children?: React.ReactNode; style?: React.CSSProperties }) => (
+    <div data-testid="fill" style={style}>{children}</div>
+  ),
+  Img: (props: React.ImgHTMLAttributes<HTMLImageElement>) => <img {...props} />,
+}));
+
+const brand: BrandKit = {
+  name: 'Acme',
+  logo: { src: 'brand/acme/logo.svg' },
+  fonts: [],
+  typography: {},
+  palette: {},
+  watermark: { position: 'top-left', opacity: 0.4, size: 64 },
+};
+
+describe('BrandWatermark', () => {
+  it('places the logo in the configured corner', () => {
+    const { getByTestId } = render(<BrandWatermark brand={brand} margin={24} />);
+    const logo = getByTestId('brand-watermark');
+
+    expect(logo).toHaveAttribute('src', '/static/brand/acme/logo.svg');
+    expect(logo).toHaveAttribute('alt', 'Acme');
+    expect(logo.style.top).toBe('24px');
+    expect(logo.style.left).toBe('24px');
+    expect(logo.style.height).toBe('64px');
+    expect(logo.style.opacity).toBe('0.4');
+  });
+
+  it('loads remote logos from their URL', () => {
+    const { getByTestId } = render(
+      <BrandWatermark brand={{ ...brand, logo: { src: 'https://example.com/logo.png', alt: 'Acme logo' } }} />
+    );
+
+    expect(getByTestId('brand-watermark')).toHaveAttribute('src', 'https://example.com/logo.png');
+    expect(getByTestId('brand-watermark')).toHaveAttribute('alt', 'Acme logo');
+  });
+
+  it('renders nothing without a watermark', () => {
+    const { container } = render(<BrandWatermark brand={{ ...brand, watermark: undefined }} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
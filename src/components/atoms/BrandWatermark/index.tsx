@@ -0,0 +1,31 @@
+import React from 'react';
+import { AbsoluteFill, Img } from 'remotion';
+import { brandAssetSource } from '../../../brand/style';
+import { BrandWatermarkProps } from './types';
+
+export const BrandWatermark: React.FC<BrandWatermarkProps> = ({ brand, margin = 40 }) => {
+  const { logo, watermark } = brand;
+  if (!logo || !watermark) {
+    return null;
+  }
+
+  const [vertical, horizontal] = watermark.position.split('-');
+
+  return (
+    <AbsoluteFill style={{ pointerEvents: 'none' }}>
+      <Img
+        data-testid="brand-watermark"
+        src={brandAssetSource(logo.src)}
+        alt={logo.alt ?? brand.name}
+        style={{
+          position: 'absolute',
+          [vertical]: `${margin}px`,
+          [horizontal]: `${margin}px`,
+          height: `${watermark.size}px`,
+          width: 'auto',
+          opacity: watermark.opacity,
+        }}
+      />
+    </AbsoluteFill>
+  );
+};
@@ -0,0 +1,8 @@
+import { BrandKit } from '../../../brand/types';
+
+export interface BrandWatermarkProps {
+  /** Renders nothing unless the kit has both a logo and a watermark */
+  brand: BrandKit;
+  /** Distance from the frame's edges in pixels */
+  margin?: number;
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { interpolate, useCurrentFrame, useVideoConfig } from 'remotion';
 import { colors } from '../../../theme/colors';
+import { fontStacks } from '../../../theme/cssVariables';
 import { ScrollingPageProps } from './types';
 
 export const ScrollingPage: React.FC<ScrollingPageProps> = ({
@@ -74,7 +75,7 @@ export const ScrollingPage: React.FC<ScrollingPageProps> = ({
               fontSize: 28,
               color: textColor,
               marginBottom: 24,
-              fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+              fontFamily: fontStacks.body,
               lineHeight: 1.4,
               fontWeight: 500,
             }}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
 import { colors, withOpacity } from '../../../../theme/colors';
+import { fontStacks } from '../../../../theme/cssVariables';
 import { CommitHashProps } from './types';
 
 export const CommitHash: React.FC<CommitHashProps> = ({
@@ -148,7 +149,7 @@ export const CommitHash: React.FC<CommitHashProps> = ({
             fontWeight: '500',
             whiteSpace: 'nowrap',
             boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
-            fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+            fontFamily: fontStacks.body,
             opacity: copyFeedbackOpacity,
             pointerEvents: 'none',
           }}
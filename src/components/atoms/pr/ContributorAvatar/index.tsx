@@ -1,6 +1,7 @@
 import React from 'react';
 import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
 import { colors, withOpacity } from '../../../../theme/colors';
+import { fontStacks } from '../../../../theme/cssVariables';
 import { ContributorAvatarProps } from './types';
 
 export const ContributorAvatar: React.FC<ContributorAvatarProps> = ({
@@ -116,7 +117,7 @@ export const ContributorAvatar: React.FC<ContributorAvatarProps> = ({
               color: colors.primary[700],
               fontSize: currentSize.fontSize,
               fontWeight: '600',
-              fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+              fontFamily: fontStacks.body,
             }}
           >
             {fallbackInitial.toUpperCase()}
@@ -157,7 +158,7 @@ export const ContributorAvatar: React.FC<ContributorAvatarProps> = ({
             borderRadius: '8px',
             fontWeight: '500',
             textTransform: 'capitalize',
-            fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+            fontFamily: fontStacks.body,
           }}
         >
           {role}
@@ -180,7 +181,7 @@ export const ContributorAvatar: React.FC<ContributorAvatarProps> = ({
             fontWeight: '500',
             whiteSpace: 'nowrap',
             boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
-            fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+            fontFamily: fontStacks.body,
             opacity: interpolate(
               frame - animationStart,
               [60, 80],
@@ -1,6 +1,7 @@
 import React from 'react';
 import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
 import { colors, withOpacity } from '../../../../theme/colors';
+import { fontStacks } from '../../../../theme/cssVariables';
 import { FileIconProps, FileTypeConfig, StatusConfig } from './types';
 
 export const FileIcon: React.FC<FileIconProps> = ({
@@ -211,7 +212,7 @@ export const FileIcon: React.FC<FileIconProps> = ({
             style={{
               fontSize: '12px',
               color: colors.text.secondary,
-              fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+              fontFamily: fontStacks.body,
             }}
           >
             {statusConfig.label}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
 import { colors, withOpacity } from '../../../../theme/colors';
+import { fontStacks } from '../../../../theme/cssVariables';
 import { MetricBadgeProps, MetricTypeConfig } from './types';
 
 export const MetricBadge: React.FC<MetricBadgeProps> = ({
@@ -136,7 +137,7 @@ export const MetricBadge: React.FC<MetricBadgeProps> = ({
         color: currentType.textColor,
         borderRadius: currentSize.borderRadius,
         border: currentType.borderColor ? `1px solid ${currentType.borderColor}` : 'none',
-        fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+        fontFamily: fontStacks.body,
         fontWeight: '600',
         fontSize: currentSize.fontSize,
         transform: `scale(${scale})`,
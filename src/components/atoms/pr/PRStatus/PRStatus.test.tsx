@@ -36,6 +36,12 @@ describe('PRStatus', () => {
     expect(getByText('Draft')).toBeInTheDocument();
   });
 
+  it('renders CI outcomes with a custom label', () => {
+    const { getByText } = render(<PRStatus status="failing" label="unit-tests" />);
+    expect(getByText('unit-tests')).toBeInTheDocument();
+    expect(getByText('✕')).toBeInTheDocument();
+  });
+
   it('applies correct size styles', () => {
     const { container } = render(<PRStatus status="open" size="large" />);
     const statusElement = container.firstChild as HTMLElement;
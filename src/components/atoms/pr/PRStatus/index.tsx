@@ -1,10 +1,12 @@
 import React from 'react';
 import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
 import { colors } from '../../../../theme/colors';
+import { fontStacks } from '../../../../theme/cssVariables';
 import { PRStatusProps, StatusConfig } from './types';
 
 export const PRStatus: React.FC<PRStatusProps> = ({
   status,
+  label,
   merged = false,
   size = 'medium',
   animationDelay = 0,
@@ -59,6 +61,30 @@ export const PRStatus: React.FC<PRStatusProps> = ({
       icon: '●',
       label: 'Draft',
     },
+    passing: {
+      color: colors.text.inverse,
+      backgroundColor: colors.success,
+      icon: '✓',
+      label: 'Passing',
+    },
+    failing: {
+      color: colors.text.inverse,
+      backgroundColor: colors.error,
+      icon: '✕',
+      label: 'Failing',
+    },
+    pending: {
+      color: colors.text.primary,
+      backgroundColor: colors.warning,
+      icon: '◷',
+      label: 'Pending',
+    },
+    skipped: {
+      color: colors.text.primary,
+      backgroundColor: colors.neutral[300],
+      icon: '–',
+      label: 'Skipped',
+    },
   };
 
   const finalStatus = status === 'closed' && merged ? 'merged' : status;
@@ -84,7 +110,7 @@ export const PRStatus: React.FC<PRStatusProps> = ({
         padding: currentSize.padding,
         borderRadius: currentSize.borderRadius,
         fontWeight: '600',
-        fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+        fontFamily: fontStacks.body,
         transform: `scale(${scale})`,
         opacity,
         boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
@@ -94,7 +120,7 @@ export const PRStatus: React.FC<PRStatusProps> = ({
       <span style={{ fontSize: currentSize.fontSize * 0.8 }}>
         {config.icon}
       </span>
-      <span>{config.label}</span>
+      <span>{label || config.label}</span>
     </div>
   );
 };
\ No newline at end of file
@@ -1,5 +1,8 @@
 export interface PRStatusProps {
-  status: 'open' | 'closed' | 'merged' | 'draft';
+  /** PR states, or CI outcomes for check and job badges */
+  status: 'open' | 'closed' | 'merged' | 'draft' | 'passing' | 'failing' | 'pending' | 'skipped';
+  /** Replaces the default label, e.g. with a job name */
+  label?: string;
   merged?: boolean;
   size?: 'small' | 'medium' | 'large';
   animationDelay?: number;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { BrandBumper } from './index';
+import { BrandKit } from '../../../brand/types';
+
+jest.mock('remotion', () => ({
+  useCurrentFrame: jest.fn(() => 45),
+  useVideoConfig: jest.fn(() => ({ fps: 30, width: 1920, height: 1080, durationInFrames: 90 })),
+  interpolate: jest.fn(() => 1),
+  spring: jest.fn(() => 1),
+  staticFile: (src: string) => `/static/${src}`,
+  AbsoluteFill: ({ children, style, ...props }: { children?: React.ReactNode; style?: React.CSSProperties }) => (
+    <div {...props} data-style={JSON.stringify(style)}>{children}</div>
+  ),
+  Img: (props: React.ImgHTMLAttributes<HTMLImageElement>) => <img {...props} />,
+  OffthreadVideo: (props: { src: string }) => <video {...props} />,
+}));
+
+const brand: BrandKit = {
+  name: 'Acme',
+  fonts: [],
+  typography: {},
+  palette: { primary: '#ff5500', background: '#101010' },
+  intro: { duration: 3, tagline: 'Shipping every day' },
+};
+
+describe('BrandBumper', () => {
+  it('shows the kit name and tagline on the brand background', () => {
+    const { getByTestId, getByText } = render(<BrandBumper brand={brand} kind="intro" />);
+
+    expect(getByText('Acme')).toBeInTheDocument();
+    expect(getByText('Shipping every day')).toBeInTheDocument();
+    expect(JSON.parse(getByTestId('brand-bumper-intro').dataset.style!)).toMatchObject({ backgroundColor: '#101010' });
+  });
+
+  it('shows the logo instead of the name when the kit has one', () => {
+    const { getByAltText, queryByText } = render(
+      <BrandBumper brand={{ ...brand, logo: { src: 'brand/acme/logo.png' } }} kind="intro" />
+    );
+
+    expect(getByAltText('Acme')).toHaveAttribute('src', '/static/brand/acme/logo.png');
+    expect(queryByText('Acme')).toBeNull();
+  });
+
+  it('plays the bumper video when one is set', () => {
+    const { getByTestId } = render(
+      <BrandBumper brand={{ ...brand, outro: { duration: 2, video: 'brand/acme/outro.mp4' } }} kind="outro" />
+    );
+
+    expect(getByTestId('brand-bumper-video')).toHaveAttribute('src', '/static/brand/acme/outro.mp4');
+  });
+
+  it('renders nothing for a bumper the kit lacks', () => {
+    const { container } = render(<BrandBumper brand={brand} kind="outro" />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
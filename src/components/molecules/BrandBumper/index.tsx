@@ -0,0 +1,79 @@
+import React from 'react';
+import { AbsoluteFill, Img, OffthreadVideo, interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
+import { brandAssetSource, brandTheme } from '../../../brand/style';
+import { fontStacks } from '../../../theme/cssVariables';
+import { BrandBumperProps } from './types';
+
+export const BrandBumper: React.FC<BrandBumperProps> = ({ brand, kind }) => {
+  const frame = useCurrentFrame();
+  const { fps, durationInFrames } = useVideoConfig();
+  const bumper = brand[kind];
+  if (!bumper) {
+    return null;
+  }
+
+  if (bumper.video) {
+    return (
+      <AbsoluteFill>
+        <OffthreadVideo data-testid="brand-bumper-video" src={brandAssetSource(bumper.video)} />
+      </AbsoluteFill>
+    );
+  }
+
+  const { palette } = brandTheme(brand);
+  const entrance = spring({ frame, fps, config: { damping: 200 } });
+  const fadeFrames = Math.max(1, Math.round(fps / 2));
+  const opacity = Math.min(
+    interpolate(frame, [0, fadeFrames], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' }),
+    interpolate(frame, [durationInFrames - fadeFrames, durationInFrames], [1, 0], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' })
+  );
+
+  return (
+    <AbsoluteFill
+      data-testid={`brand-bumper-${kind}`}
+      style={{
+        backgroundColor: palette.background,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '32px',
+        opacity,
+      }}
+    >
+      {brand.logo ? (
+        <Img
+          src={brandAssetSource(brand.logo.src)}
+          alt={brand.logo.alt ?? brand.name}
+          style={{ height: '240px', width: 'auto', transform: `scale(${0.8 + entrance * 0.2})` }}
+        />
+      ) : (
+        <h1
+          style={{
+            margin: 0,
+            color: palette.primary,
+            fontFamily: fontStacks.heading,
+            fontSize: '120px',
+            fontWeight: '800',
+            transform: `scale(${0.8 + entrance * 0.2})`,
+          }}
+        >
+          {brand.name}
+        </h1>
+      )}
+      {bumper.tagline && (
+        <div
+          style={{
+            color: palette.textMuted,
+            fontFamily: fontStacks.body,
+            fontSize: '44px',
+            fontWeight: '500',
+            transform: `translateY(${(1 - entrance) * 30}px)`,
+          }}
+        >
+          {bumper.tagline}
+        </div>
+      )}
+    </AbsoluteFill>
+  );
+};
@@ -0,0 +1,7 @@
+import { BrandKit } from '../../../brand/types';
+
+export interface BrandBumperProps {
+  brand: BrandKit;
+  /** Which of the kit's bumpers to play; renders nothing when the kit has none */
+  kind: 'intro' | 'outro';
+}
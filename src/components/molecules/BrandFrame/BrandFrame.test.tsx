@@ -0,0 +1,75 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { continueRender, delayRender } from 'remotion';
+import { BrandFrame } from './index';
+import { BrandKit } from '../../../brand/types';
+
+jest.mock('remotion', () => ({
+  delayRender: jest.fn(() => 7),
+  continueRender: jest.fn(),
+  cancelRender: jest.fn(),
+  staticFile: (src: string) => `/static/${src}`,
+  AbsoluteFill: ({ children, style, ...props }: { children?: React.ReactNode; style?: React.CSSProperties }) => (
+    <div {...props} data-style={JSON.stringify(style)}>{children}</div>
+  ),
+  Img: (props: React.ImgHTMLAttributes<HTMLImageElement>) => <img {...props} />,
+}));
+
+const brand: BrandKit = {
+  name: 'Acme',
+  logo: { src: 'brand/acme/logo.svg' },
+  fonts: [],
+  typography: { heading: 'Acme Display', body: 'Acme Sans' },
+  palette: { primary: '#ff5500' },
+  watermark: { position: 'bottom-right', opacity: 0.6, size: 48 },
+};
+
+describe('BrandFrame', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('passes children through without a kit', () => {
+    const { container, queryByTestId } = render(<BrandFrame><p>Content</p></BrandFrame>);
+
+    expect(container.innerHTML).toBe('<p>Content</p>');
+    expect(queryByTestId('brand-frame')).toBeNull();
+  });
+
+  it('sets the kit fonts and colors as CSS variables', () => {
+    const { getByTestId } = render(<BrandFrame brand={brand}><p>Content</p></BrandFrame>);
+
+    expect(JSON.parse(getByTestId('brand-frame').dataset.style!)).toEqual({
+      '--git2video-font-heading': '"Acme Display", sans-serif',
+      '--git2video-font-body': '"Acme Sans", sans-serif',
+      '--git2video-color-primary': '#ff5500',
+    });
+  });
+
+  it('stamps the watermark unless asked not to', () => {
+    const { getByTestId, rerender, queryByTestId } = render(<BrandFrame brand={brand}><p>Content</p></BrandFrame>);
+    expect(getByTestId('brand-watermark')).toBeInTheDocument();
+
+    rerender(<BrandFrame brand={brand} watermark={false}><p>Content</p></BrandFrame>);
+    expect(queryByTestId('brand-watermark')).toBeNull();
+  });
+
+  it('holds rendering until the kit fonts have loaded', async () => {
+    const load = jest.fn(() => Promise.resolve({}));
+    const add = jest.fn();
+    (global as unknown as { FontFace: unknown }).FontFace = jest.fn(() => ({ load }));
+    Object.defineProperty(document, 'fonts', { value: { add }, configurable: true });
+
+    render(
+      <BrandFrame brand={{ ...brand, fonts: [{ family: 'Acme Sans', src: 'brand/acme/sans.woff2' }] }}>
+        <p>Content</p>
+      </BrandFrame>
+    );
+    expect(delayRender).toHaveBeenCalledWith('Loading brand fonts Acme Sans');
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(global.FontFace).toHaveBeenCalledWith('Acme Sans', "url('/static/brand/acme/sans.woff2') format('woff2')", {});
+    expect(add).toHaveBeenCalled();
+    expect(continueRender).toHaveBeenCalledWith(7);
+
+    delete (global as unknown as { FontFace?: unknown }).FontFace;
+  });
+});
@@ -0,0 +1,20 @@
+import React from 'react';
+import { AbsoluteFill } from 'remotion';
+import { useBrandFonts } from '../../../brand/fonts';
+import { brandVariables } from '../../../brand/style';
+import { BrandWatermark } from '../../atoms/BrandWatermark';
+import { BrandFrameProps } from './types';
+
+export const BrandFrame: React.FC<BrandFrameProps> = ({ brand, watermark = true, children }) => {
+  useBrandFonts(brand?.fonts);
+  if (!brand) {
+    return <>{children}</>;
+  }
+
+  return (
+    <AbsoluteFill data-testid="brand-frame" style={brandVariables(brand)}>
+      {children}
+      {watermark && <BrandWatermark brand={brand} />}
+    </AbsoluteFill>
+  );
+};
@@ -0,0 +1,10 @@
+import React from 'react';
+import { BrandKit } from '../../../brand/types';
+
+export interface BrandFrameProps {
+  /** Children render unchanged without a kit */
+  brand?: BrandKit;
+  /** Stamp the kit's watermark over the children */
+  watermark?: boolean;
+  children: React.ReactNode;
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { useCurrentFrame } from 'remotion';
+import { CaptionOverlay } from './index';
+import { CaptionCue } from '../../../video/captions/types';
+
+// Mock Remotion hooks
+jest.mock('remotion', () => ({
+  useCurrentFrame: jest.fn(() => 0),
+  useVideoConfig: jest.fn(() => ({ fps: 30, width: 1920, height: 1080 })),
+  AbsoluteFill: ({ children, style }: { children?: React.ReactNode; style?: React.CSSProperties }) => (
+    <div data-testid="fill" style={style}>{children}</div>
+  ),
+}));
+
+const mockFrame = (frame: number) => (useCurrentFrame as unknown as { mockReturnValue(value: number): void }).mockReturnValue(frame);
+
+const cues: CaptionCue[] = [
+  { sectionId: 'intro', start: 0, end: 2, lines: ['Looking at the code changes...'] },
+  { sectionId: 'intro', start: 2, end: 4.5, lines: ['Twelve files changed', 'across three packages.'] },
+];
+
+describe('CaptionOverlay', () => {
+  it('renders the cue active at the current frame', () => {
+    mockFrame(75);
+    const { getByTestId } = render(<CaptionOverlay cues={cues} />);
+
+    expect(getByTestId('caption').children).toHaveLength(2);
+    expect(getByTestId('caption')).toHaveTextContent('Twelve files changedacross three packages.');
+  });
+
+  it('switches cues on the boundary frame without overlap', () => {
+    mockFrame(60);
+    const { getByTestId } = render(<CaptionOverlay cues={cues} />);
+
+    expect(getByTestId('caption')).toHaveTextContent('Twelve files changed');
+  });
+
+  it('renders nothing between or after cues', () => {
+    mockFrame(135);
+    const { container } = render(<CaptionOverlay cues={cues} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('anchors captions to the top when asked', () => {
+    mockFrame(0);
+    const { getByTestId } = render(<CaptionOverlay cues={cues} position="top" fontSize={32} />);
+
+    expect(getByTestId('fill').style.justifyContent).toBe('flex-start');
+    expect(getByTestId('caption').style.fontSize).toBe('32px');
+  });
+});
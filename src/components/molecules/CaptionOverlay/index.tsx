@@ -0,0 +1,54 @@
+import React from 'react';
+import { AbsoluteFill, useCurrentFrame, useVideoConfig } from 'remotion';
+import { colors, withOpacity } from '../../../theme/colors';
+import { fontStacks } from '../../../theme/cssVariables';
+import { CaptionOverlayProps } from './types';
+
+export const CaptionOverlay: React.FC<CaptionOverlayProps> = ({
+  cues,
+  position = 'bottom',
+  fontSize = 40,
+  margin = 80,
+}) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+
+  // Compare in frames so a cue ending at t and the next starting at t never overlap
+  const cue = cues.find(candidate => frame >= Math.round(candidate.start * fps) && frame < Math.round(candidate.end * fps));
+  if (!cue) {
+    return null;
+  }
+
+  return (
+    <AbsoluteFill
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: position === 'bottom' ? 'flex-end' : 'flex-start',
+        padding: `${margin}px 120px`,
+        pointerEvents: 'none',
+      }}
+    >
+      <div
+        data-testid="caption"
+        style={{
+          maxWidth: '80%',
+          padding: '12px 24px',
+          borderRadius: '8px',
+          backgroundColor: withOpacity(colors.background.inverse, 0.75),
+          color: colors.text.inverse,
+          fontFamily: fontStacks.body,
+          fontSize: `${fontSize}px`,
+          fontWeight: '600',
+          lineHeight: 1.3,
+          textAlign: 'center',
+        }}
+      >
+        {cue.lines.map((line, index) => (
+          <div key={index}>{line}</div>
+        ))}
+      </div>
+    </AbsoluteFill>
+  );
+};
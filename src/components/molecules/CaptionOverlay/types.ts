@@ -0,0 +1,10 @@
+import { CaptionCue } from '../../../video/captions/types';
+
+export interface CaptionOverlayProps {
+  /** Cues timed in seconds from the start of the composition */
+  cues: CaptionCue[];
+  position?: 'bottom' | 'top';
+  fontSize?: number;
+  /** Distance from the bottom (or top) edge in pixels */
+  margin?: number;
+}
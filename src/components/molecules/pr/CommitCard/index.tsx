@@ -4,6 +4,7 @@ import { colors } from '../../../../theme/colors';
 import { CommitHash } from '../../../atoms/pr/CommitHash';
 import { ContributorAvatar } from '../../../atoms/pr/ContributorAvatar';
 import { MetricBadge } from '../../../atoms/pr/MetricBadge';
+import { fontStacks } from '../../../../theme/cssVariables';
 import { CommitCardProps } from './types';
 
 export const CommitCard: React.FC<CommitCardProps> = ({
@@ -136,7 +137,7 @@ export const CommitCard: React.FC<CommitCardProps> = ({
             style={{
               fontSize: compact ? '12px' : '14px',
               color: colors.text.secondary,
-              fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+              fontFamily: fontStacks.body,
             }}
           >
             {formatDate(commit.commit.author.date)}
@@ -167,7 +168,7 @@ export const CommitCard: React.FC<CommitCardProps> = ({
             color: colors.text.primary,
             margin: 0,
             lineHeight: 1.3,
-            fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+            fontFamily: fontStacks.body,
           }}
         >
           {message.title}
@@ -179,7 +180,7 @@ export const CommitCard: React.FC<CommitCardProps> = ({
               fontSize: compact ? '12px' : '14px',
               color: colors.text.secondary,
               fontStyle: 'italic',
-              fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+              fontFamily: fontStacks.body,
             }}
           >
             View full message...
@@ -195,7 +196,7 @@ export const CommitCard: React.FC<CommitCardProps> = ({
           gap: '8px',
           fontSize: compact ? '12px' : '14px',
           color: colors.text.secondary,
-          fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+          fontFamily: fontStacks.body,
         }}
       >
         <span>by</span>
@@ -280,7 +281,7 @@ export const CommitCard: React.FC<CommitCardProps> = ({
               fontWeight: '500',
               textTransform: 'uppercase',
               letterSpacing: '0.5px',
-              fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+              fontFamily: fontStacks.body,
             }}
           >
             Modified Files
@@ -324,7 +325,7 @@ export const CommitCard: React.FC<CommitCardProps> = ({
                   fontSize: compact ? '10px' : '11px',
                   color: colors.text.secondary,
                   fontStyle: 'italic',
-                  fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+                  fontFamily: fontStacks.body,
                 }}
               >
                 +{commit.files.length - 3} more
@@ -3,6 +3,7 @@ import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
 import { colors } from '../../../../theme/colors';
 import { PRStatus } from '../../../atoms/pr/PRStatus';
 import { ContributorAvatar } from '../../../atoms/pr/ContributorAvatar';
+import { fontStacks } from '../../../../theme/cssVariables';
 import { PRHeaderProps } from './types';
 
 export const PRHeader: React.FC<PRHeaderProps> = ({
@@ -95,7 +96,7 @@ export const PRHeader: React.FC<PRHeaderProps> = ({
           style={{
             fontSize: compact ? '14px' : '16px',
             color: colors.text.secondary,
-            fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+            fontFamily: fontStacks.body,
             fontWeight: '500',
           }}
         >
@@ -106,7 +107,7 @@ export const PRHeader: React.FC<PRHeaderProps> = ({
           style={{
             fontSize: compact ? '12px' : '14px',
             color: colors.text.secondary,
-            fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+            fontFamily: fontStacks.body,
           }}
         >
           {repository.full_name}
@@ -121,7 +122,7 @@ export const PRHeader: React.FC<PRHeaderProps> = ({
           color: colors.text.primary,
           margin: 0,
           lineHeight: 1.2,
-          fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+          fontFamily: fontStacks.heading,
         }}
       >
         {pullRequest.title}
@@ -160,7 +161,7 @@ export const PRHeader: React.FC<PRHeaderProps> = ({
                 fontSize: compact ? '14px' : '16px',
                 fontWeight: '600',
                 color: colors.text.primary,
-                fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+                fontFamily: fontStacks.body,
               }}
             >
               {pullRequest.user.name || pullRequest.user.login}
@@ -169,7 +170,7 @@ export const PRHeader: React.FC<PRHeaderProps> = ({
               style={{
                 fontSize: compact ? '12px' : '14px',
                 color: colors.text.secondary,
-                fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+                fontFamily: fontStacks.body,
               }}
             >
               opened {getTimeSince(pullRequest.created_at)}
@@ -241,7 +242,7 @@ export const PRHeader: React.FC<PRHeaderProps> = ({
                     padding: '2px 8px',
                     borderRadius: '12px',
                     fontWeight: '500',
-                    fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+                    fontFamily: fontStacks.body,
                     opacity: interpolate(
                       frame - animationStart,
                       [30 + index * 5, 45 + index * 5],
@@ -262,7 +263,7 @@ export const PRHeader: React.FC<PRHeaderProps> = ({
                     fontSize: compact ? '10px' : '12px',
                     color: colors.text.secondary,
                     fontStyle: 'italic',
-                    fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+                    fontFamily: fontStacks.body,
                   }}
                 >
                   +{pullRequest.labels.length - 5} more
@@ -284,7 +285,7 @@ export const PRHeader: React.FC<PRHeaderProps> = ({
                 borderRadius: '8px',
                 fontSize: compact ? '12px' : '14px',
                 fontWeight: '500',
-                fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+                fontFamily: fontStacks.body,
               }}
             >
               <span>🎯</span>
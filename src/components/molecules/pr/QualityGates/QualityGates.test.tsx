@@ -0,0 +1,71 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { QualityGates } from './index';
+import { QualityGatesScene } from '../../../../github/transformer';
+
+// Mock Remotion hooks
+jest.mock('remotion', () => ({
+  useCurrentFrame: jest.fn(() => 60),
+  useVideoConfig: jest.fn(() => ({ fps: 30, width: 1920, height: 1080 })),
+  interpolate: jest.fn((frame, range, output) => {
+    if (frame <= range[0]) return output[0];
+    if (frame >= range[1]) return output[1];
+    const progress = (frame - range[0]) / (range[1] - range[0]);
+    return output[0] + (output[1] - output[0]) * progress;
+  }),
+  spring: jest.fn(() => 1),
+}));
+
+// Mock atomic components
+jest.mock('../../../atoms/pr/PRStatus', () => ({
+  PRStatus: ({ status, label }: { status: string; label?: string }) => (
+    <div data-testid="pr-status">{status}:{label || status}</div>
+  ),
+}));
+
+jest.mock('../../../atoms/pr/MetricBadge', () => ({
+  MetricBadge: ({ value, label }: { value: number; label: string }) => <div data-testid="metric-badge">{value} {label}</div>
+}));
+
+const gates: QualityGatesScene = {
+  overall: 'failing',
+  jobs: [
+    { name: 'build', source: 'check', outcome: 'passing', duration: 95, attempts: 1, flaky: false },
+    { name: 'e2e', source: 'check', outcome: 'passing', duration: 300, attempts: 2, flaky: true },
+    { name: 'lint', source: 'status', outcome: 'failing', duration: null, attempts: 1, flaky: false },
+  ],
+  passed: 2,
+  failed: 1,
+  pending: 0,
+  skipped: 0,
+  flakyJobs: ['e2e'],
+  totalDuration: 420,
+  deployments: [{ environment: 'preview', state: 'success', createdAt: new Date('2024-03-01T12:00:00Z') }],
+};
+
+describe('QualityGates', () => {
+  it('renders the overall outcome and summary badges', () => {
+    const { getAllByTestId, getByText } = render(<QualityGates gates={gates} />);
+
+    expect(getAllByTestId('pr-status')[0]).toHaveTextContent('failing:failing');
+    expect(getByText('2 Passed')).toBeInTheDocument();
+    expect(getByText('1 Failed')).toBeInTheDocument();
+    expect(getByText('1 Flaky')).toBeInTheDocument();
+    expect(getByText('420 CI time')).toBeInTheDocument();
+  });
+
+  it('lists failing and flaky jobs first with durations', () => {
+    const { getAllByTestId, getByText } = render(<QualityGates gates={gates} />);
+
+    const jobs = getAllByTestId('quality-gate-job').map(job => job.textContent);
+    expect(jobs).toEqual(['failing:lint', 'passing:e2e5mpassed on attempt 2', 'passing:build1m 35s']);
+    expect(getByText('🚀 preview: success')).toBeInTheDocument();
+  });
+
+  it('truncates long job lists', () => {
+    const { getAllByTestId, getByText } = render(<QualityGates gates={gates} maxJobs={1} />);
+
+    expect(getAllByTestId('quality-gate-job')).toHaveLength(1);
+    expect(getByText('+2 more')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,143 @@
+import React from 'react';
+import { interpolate, useCurrentFrame, useVideoConfig } from 'remotion';
+import { colors } from '../../../../theme/colors';
+import { PRStatus } from '../../../atoms/pr/PRStatus';
+import { MetricBadge } from '../../../atoms/pr/MetricBadge';
+import { fontStacks } from '../../../../theme/cssVariables';
+import { QualityGatesProps } from './types';
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest ? `${minutes}m ${rest}s` : `${minutes}m`;
+};
+
+export const QualityGates: React.FC<QualityGatesProps> = ({
+  gates,
+  animationDelay = 0,
+  maxJobs = 8,
+  compact = false,
+}) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+
+  const animationStart = animationDelay * fps;
+
+  const opacity = interpolate(
+    frame - animationStart,
+    [0, 30],
+    [0, 1],
+    {
+      extrapolateLeft: 'clamp',
+      extrapolateRight: 'clamp',
+    }
+  );
+
+  // Failing and flaky jobs first: they are what reviewers look for
+  const rank = (job: QualityGatesProps['gates']['jobs'][number]) =>
+    job.outcome === 'failing' ? 0 : job.flaky ? 1 : job.outcome === 'pending' ? 2 : 3;
+  const jobs = [...gates.jobs].sort((a, b) => rank(a) - rank(b)).slice(0, maxJobs);
+  const hiddenJobs = gates.jobs.length - jobs.length;
+
+  const fontFamily = fontStacks.body;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: compact ? '12px' : '20px',
+        padding: compact ? '16px' : '24px',
+        width: '100%',
+        maxWidth: '1200px',
+        backgroundColor: colors.background.primary,
+        border: `1px solid ${colors.neutral[300]}`,
+        borderRadius: '12px',
+        boxShadow: '0 4px 8px rgba(0,0,0,0.1)',
+        opacity,
+        fontFamily,
+      }}
+    >
+      {/* Header: overall CI outcome */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+        <h2
+          style={{
+            margin: 0,
+            fontSize: compact ? '20px' : '28px',
+            fontWeight: '700',
+            color: colors.text.primary,
+          }}
+        >
+          Quality Gates
+        </h2>
+        <PRStatus status={gates.overall} size={compact ? 'small' : 'medium'} animationDelay={animationDelay + 0.2} />
+      </div>
+
+      {/* Summary badges */}
+      <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+        <MetricBadge value={gates.passed} label="Passed" icon="✓" type="success" size="small" animationDelay={animationDelay + 0.4} />
+        <MetricBadge value={gates.failed} label="Failed" icon="✕" type={gates.failed > 0 ? 'error' : 'default'} size="small" animationDelay={animationDelay + 0.5} />
+        {gates.flakyJobs.length > 0 && (
+          <MetricBadge value={gates.flakyJobs.length} label="Flaky" icon="↻" type="warning" size="small" animationDelay={animationDelay + 0.6} />
+        )}
+        {gates.totalDuration > 0 && (
+          <MetricBadge
+            value={gates.totalDuration}
+            label="CI time"
+            icon="⏱"
+            type="info"
+            size="small"
+            animationDelay={animationDelay + 0.7}
+            formatValue={value => formatDuration(Math.round(value))}
+          />
+        )}
+      </div>
+
+      {/* Job list */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: compact ? '6px' : '10px' }}>
+        {jobs.map((job, index) => (
+          <div
+            key={`${job.source}:${job.name}`}
+            data-testid="quality-gate-job"
+            style={{ display: 'flex', alignItems: 'center', gap: '12px' }}
+          >
+            <PRStatus
+              status={job.outcome}
+              label={job.name}
+              size="small"
+              animationDelay={animationDelay + 0.8 + index * 0.1}
+            />
+            {job.duration !== null && (
+              <span style={{ fontSize: compact ? '12px' : '14px', color: colors.text.secondary }}>
+                {formatDuration(job.duration)}
+              </span>
+            )}
+            {job.flaky && (
+              <span style={{ fontSize: compact ? '12px' : '14px', color: colors.warning, fontWeight: '600' }}>
+                passed on attempt {job.attempts}
+              </span>
+            )}
+          </div>
+        ))}
+        {hiddenJobs > 0 && (
+          <span style={{ fontSize: '14px', color: colors.text.secondary }}>+{hiddenJobs} more</span>
+        )}
+      </div>
+
+      {/* Deployments */}
+      {gates.deployments.length > 0 && (
+        <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap' }}>
+          {gates.deployments.map((deployment, index) => (
+            <span
+              key={`${deployment.environment}-${index}`}
+              style={{ fontSize: compact ? '12px' : '14px', color: colors.text.secondary }}
+            >
+              🚀 {deployment.environment}: {deployment.state}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,8 @@
+import { QualityGatesScene } from '../../../../github/transformer';
+
+export interface QualityGatesProps {
+  gates: QualityGatesScene;
+  animationDelay?: number;
+  maxJobs?: number;
+  compact?: boolean;
+}
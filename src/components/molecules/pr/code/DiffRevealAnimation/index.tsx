@@ -6,8 +6,9 @@
 import React from 'react';
 import { useCurrentFrame, useVideoConfig, interpolate, spring, AbsoluteFill } from 'remotion';
 import { DiffLine, ProcessedDiff } from '../utils/diffProcessor';
-import { tokenizeCode, SyntaxToken } from '../utils/syntaxHighlighter';
-import { colors } from '../../../../../theme/colors';
+import { tokenizeDiffLines, SyntaxToken } from '../utils/syntaxHighlighter';
+import { themeColors } from '../../../../../theme/registry';
+import { ThemeColors } from '../../../../../theme/types';
 
 export interface DiffRevealAnimationProps {
   diff: ProcessedDiff;
@@ -17,6 +18,8 @@ export interface DiffRevealAnimationProps {
   showLineNumbers?: boolean;
   highlightChanges?: boolean;
   animationSpeed?: 'slow' | 'normal' | 'fast';
+  /** Colors for the panel, code and diff markers (defaults to the light theme) */
+  theme?: ThemeColors;
 }
 
 export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
@@ -27,6 +30,7 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
   showLineNumbers = true,
   highlightChanges = true,
   animationSpeed = 'normal',
+  theme = themeColors(),
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
@@ -41,6 +45,12 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
     fast: 1.4,
   }[animationSpeed];
   
+  // Tokenize the whole diff once so multi-line strings and comments keep their colors
+  const lineTokens = React.useMemo(
+    () => tokenizeDiffLines(diff.lines, diff.language, theme.syntax),
+    [diff.lines, diff.language, theme.syntax]
+  );
+  
   // Calculate which lines should be visible
   const totalLines = diff.lines.length;
   const visibleLineCount = Math.floor(interpolate(
@@ -95,20 +105,20 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
     const getLineBackground = (lineType: DiffLine['type']) => {
       switch (lineType) {
         case 'added':
-          return `rgba(34, 197, 94, 0.2)`; // Green for additions
+          return theme.diff.addedBackground;
         case 'removed':
-          return `rgba(239, 68, 68, 0.2)`; // Red for deletions
+          return theme.diff.removedBackground;
         case 'context':
           return 'transparent';
         case 'hunk':
-          return `rgba(59, 130, 246, 0.1)`; // Blue for hunk headers
+          return theme.diff.hunkBackground;
         default:
           return 'transparent';
       }
     };
     
-    // Tokenize content for syntax highlighting
-    const tokens = tokenizeCode(line.content, diff.language);
+    // Syntax highlighting tokens for this line
+    const tokens = lineTokens[index] || [];
     
     return (
       <div
@@ -120,7 +130,7 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
           opacity: lineOpacity,
           backgroundColor: getLineBackground(line.type),
           borderLeft: isChanged && highlightChanges ? 
-            `3px solid ${line.type === 'added' ? colors.success : colors.error}` : 'none',
+            `3px solid ${line.type === 'added' ? theme.diff.added : theme.diff.removed}` : 'none',
           paddingLeft: isChanged ? '8px' : '11px',
           position: 'relative',
           transform: `translateX(${interpolate(lineOpacity, [0, 1], [-20, 0])}px)`,
@@ -135,7 +145,7 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
               left: 0,
               right: 0,
               bottom: 0,
-              backgroundColor: colors.primary[100],
+              backgroundColor: theme.palette.highlight,
               opacity: focusOpacity,
               pointerEvents: 'none',
             }}
@@ -150,7 +160,7 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
               textAlign: 'right',
               paddingRight: '12px',
               fontSize: '12px',
-              color: colors.neutral[500],
+              color: theme.palette.textMuted,
               fontFamily: 'monospace',
               userSelect: 'none',
               flexShrink: 0,
@@ -167,9 +177,9 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
             textAlign: 'center',
             fontSize: '14px',
             fontFamily: 'monospace',
-            color: line.type === 'added' ? colors.success : 
-                   line.type === 'removed' ? colors.error : 
-                   colors.neutral[400],
+            color: line.type === 'added' ? theme.diff.added : 
+                   line.type === 'removed' ? theme.diff.removed : 
+                   theme.palette.textMuted,
             flexShrink: 0,
           }}
         >
@@ -186,7 +196,7 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
             fontFamily: 'monospace',
             lineHeight: '1.5',
             whiteSpace: 'pre',
-            color: colors.text.primary,
+            color: theme.palette.text,
           }}
         >
           {renderSyntaxHighlightedContent(tokens, line.type)}
@@ -200,7 +210,7 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
       <span
         key={`token-${index}`}
         style={{
-          color: lineType === 'comment' ? colors.neutral[500] : token.color,
+          color: lineType === 'comment' ? theme.syntax.comment : token.color,
           fontWeight: token.style?.fontWeight || 'normal',
           fontStyle: token.style?.fontStyle || 'normal',
           opacity: lineType === 'removed' ? 0.7 : 1,
@@ -214,7 +224,7 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: colors.background.primary,
+        backgroundColor: theme.palette.background,
         padding: '20px',
         fontFamily: 'system-ui, sans-serif',
       }}
@@ -230,7 +240,7 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
           style={{
             fontSize: '18px',
             fontWeight: 'bold',
-            color: colors.text.primary,
+            color: theme.palette.text,
             marginBottom: '4px',
           }}
         >
@@ -239,14 +249,14 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
         <div
           style={{
             fontSize: '14px',
-            color: colors.text.secondary,
+            color: theme.palette.textMuted,
             display: 'flex',
             gap: '16px',
           }}
         >
           <span>Language: {diff.language}</span>
-          <span style={{ color: colors.success }}>+{diff.stats.additions}</span>
-          <span style={{ color: colors.error }}>-{diff.stats.deletions}</span>
+          <span style={{ color: theme.diff.added }}>+{diff.stats.additions}</span>
+          <span style={{ color: theme.diff.removed }}>-{diff.stats.deletions}</span>
         </div>
       </div>
       
@@ -254,7 +264,7 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
       <div
         style={{
           height: '2px',
-          backgroundColor: colors.neutral[200],
+          backgroundColor: theme.palette.border,
           marginBottom: '16px',
           borderRadius: '1px',
           overflow: 'hidden',
@@ -263,7 +273,7 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
         <div
           style={{
             height: '100%',
-            backgroundColor: colors.primary[500],
+            backgroundColor: theme.palette.primary,
             width: `${progress * 100}%`,
             transition: 'width 0.1s ease-out',
           }}
@@ -275,9 +285,9 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
         style={{
           flex: 1,
           overflow: 'hidden',
-          border: `1px solid ${colors.neutral[300]}`,
+          border: `1px solid ${theme.palette.border}`,
           borderRadius: '6px',
-          backgroundColor: colors.background.secondary,
+          backgroundColor: theme.palette.surface,
         }}
       >
         <div
@@ -297,10 +307,10 @@ export const DiffRevealAnimation: React.FC<DiffRevealAnimationProps> = ({
           style={{
             marginTop: '16px',
             padding: '12px',
-            backgroundColor: colors.primary[50],
+            backgroundColor: theme.palette.highlight,
             borderRadius: '6px',
             fontSize: '14px',
-            color: colors.text.secondary,
+            color: theme.palette.textMuted,
             opacity: interpolate(progress, [0.9, 1], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' }),
           }}
         >
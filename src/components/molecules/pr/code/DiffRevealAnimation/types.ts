@@ -2,6 +2,7 @@
  * Type definitions for DiffRevealAnimation component
  */
 
+import { ThemeColors } from '../../../../../theme/types';
 import { ProcessedDiff } from '../utils/diffProcessor';
 
 export interface DiffRevealAnimationProps {
@@ -12,6 +13,8 @@ export interface DiffRevealAnimationProps {
   showLineNumbers?: boolean;
   highlightChanges?: boolean;
   animationSpeed?: 'slow' | 'normal' | 'fast';
+  /** Colors for the panel, code and diff markers (defaults to the light theme) */
+  theme?: ThemeColors;
 }
 
 export interface DiffAnimationConfig {
@@ -6,8 +6,10 @@
 import React from 'react';
 import { useCurrentFrame, useVideoConfig, interpolate, spring, AbsoluteFill, Sequence } from 'remotion';
 import { DiffLine, ProcessedDiff, ChangeContext, extractChangeContext } from '../utils/diffProcessor';
-import { tokenizeCode, SyntaxToken } from '../utils/syntaxHighlighter';
+import { tokenizeDiffLines, SyntaxToken } from '../utils/syntaxHighlighter';
 import { colors } from '../../../../../theme/colors';
+import { themeColors } from '../../../../../theme/registry';
+import { ThemeColors } from '../../../../../theme/types';
 
 export interface LineByLineWalkthroughProps {
   diff: ProcessedDiff;
@@ -19,6 +21,8 @@ export interface LineByLineWalkthroughProps {
   explanationStyle?: 'popup' | 'sidebar' | 'overlay';
   autoAdvance?: boolean;
   showMinimap?: boolean;
+  /** Colors for the panels, code and diff markers (defaults to the light theme) */
+  theme?: ThemeColors;
 }
 
 export interface LineAnnotation {
@@ -48,6 +52,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
   explanationStyle = 'sidebar',
   autoAdvance = true,
   showMinimap = true,
+  theme = themeColors(),
 }) => {
   const frame = useCurrentFrame();
   const { fps, width, height } = useVideoConfig();
@@ -60,6 +65,12 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
     return extractChangeContext(diff, 3);
   }, [diff]);
   
+  // Tokenize the whole diff once so multi-line strings and comments keep their colors
+  const lineTokens = React.useMemo(
+    () => tokenizeDiffLines(diff.lines, diff.language, theme.syntax),
+    [diff.lines, diff.language, theme.syntax]
+  );
+  
   // Generate walkthrough steps if not provided
   const effectiveWalkthrough = React.useMemo(() => {
     if (walkthrough.length > 0) return walkthrough;
@@ -128,8 +139,8 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
     const annotation = annotations.find(ann => ann.lineIndex === index);
     const hasAnnotation = annotation !== undefined;
     
-    // Tokenize for syntax highlighting
-    const tokens = tokenizeCode(line.content, diff.language);
+    // Syntax highlighting tokens for this line
+    const tokens = lineTokens[index] || [];
     
     return (
       <div
@@ -139,8 +150,8 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
           alignItems: 'flex-start',
           minHeight: '28px',
           opacity: lineOpacity * focusIntensity,
-          backgroundColor: getLineBackground(line.type, isInFocus, isFocusCenter),
-          borderLeft: getBorderLeft(line.type, isInFocus, hasAnnotation),
+          backgroundColor: getLineBackground(line.type, isInFocus, isFocusCenter, theme),
+          borderLeft: getBorderLeft(line.type, isInFocus, hasAnnotation, theme),
           paddingLeft: '12px',
           paddingRight: '12px',
           paddingTop: '4px',
@@ -161,7 +172,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
               transform: 'translateY(-50%)',
               width: '4px',
               height: '80%',
-              backgroundColor: colors.primary[500],
+              backgroundColor: theme.palette.primary,
               borderRadius: '2px',
               opacity: focusSpring,
             }}
@@ -175,7 +186,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
             textAlign: 'right',
             paddingRight: '16px',
             fontSize: '13px',
-            color: colors.neutral[500],
+            color: theme.palette.textMuted,
             fontFamily: 'monospace',
             flexShrink: 0,
             fontWeight: isFocusCenter ? 'bold' : 'normal',
@@ -191,7 +202,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
             textAlign: 'center',
             fontSize: '14px',
             fontFamily: 'monospace',
-            color: getDiffMarkerColor(line.type),
+            color: getDiffMarkerColor(line.type, theme),
             flexShrink: 0,
             fontWeight: 'bold',
           }}
@@ -253,7 +264,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
           fontStyle: token.style?.fontStyle || 'normal',
           opacity: lineType === 'removed' ? 0.8 : 1,
           backgroundColor: isInFocus && token.type === 'keyword' ? 
-            `${colors.primary[100]}` : 'transparent',
+            `${theme.palette.highlight}` : 'transparent',
           padding: isInFocus && token.type === 'keyword' ? '1px 2px' : '0',
           borderRadius: '2px',
         }}
@@ -282,8 +293,8 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
           top: '80px',
           width: `${sidebarWidth}px`,
           height: height - 160,
-          backgroundColor: colors.background.secondary,
-          border: `1px solid ${colors.neutral[300]}`,
+          backgroundColor: theme.palette.surface,
+          border: `1px solid ${theme.palette.border}`,
           borderRadius: '8px',
           padding: '20px',
           opacity: sidebarOpacity,
@@ -297,7 +308,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
               style={{
                 fontSize: '18px',
                 fontWeight: 'bold',
-                color: colors.text.primary,
+                color: theme.palette.text,
                 marginBottom: '8px',
               }}
             >
@@ -306,7 +317,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
             <div
               style={{
                 fontSize: '14px',
-                color: colors.text.secondary,
+                color: theme.palette.textMuted,
                 lineHeight: '1.5',
                 marginBottom: '12px',
               }}
@@ -316,7 +327,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
             <div
               style={{
                 fontSize: '12px',
-                color: colors.text.secondary,
+                color: theme.palette.textMuted,
                 display: 'flex',
                 justifyContent: 'space-between',
               }}
@@ -335,7 +346,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
               key={`annotation-${index}`}
               style={{
                 padding: '12px',
-                backgroundColor: colors.background.primary,
+                backgroundColor: theme.palette.background,
                 border: `1px solid ${getAnnotationColor(annotation.type)}`,
                 borderRadius: '6px',
                 marginBottom: '12px',
@@ -369,7 +380,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
                   style={{
                     fontSize: '12px',
                     fontWeight: 'bold',
-                    color: colors.text.primary,
+                    color: theme.palette.text,
                     textTransform: 'capitalize',
                   }}
                 >
@@ -378,7 +389,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
                 <div
                   style={{
                     fontSize: '11px',
-                    color: colors.text.secondary,
+                    color: theme.palette.textMuted,
                   }}
                 >
                   Line {annotation.lineIndex + 1}
@@ -387,7 +398,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
               <div
                 style={{
                   fontSize: '13px',
-                  color: colors.text.primary,
+                  color: theme.palette.text,
                   lineHeight: '1.4',
                 }}
               >
@@ -415,8 +426,8 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
           transform: 'translateY(-50%)',
           width: `${minimapWidth}px`,
           height: `${minimapHeight}px`,
-          backgroundColor: colors.background.secondary,
-          border: `1px solid ${colors.neutral[300]}`,
+          backgroundColor: theme.palette.surface,
+          border: `1px solid ${theme.palette.border}`,
           borderRadius: '4px',
           overflow: 'hidden',
         }}
@@ -431,7 +442,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
               key={`minimap-${index}`}
               style={{
                 height: `${lineHeight}px`,
-                backgroundColor: getMiniMapLineColor(line.type, isInFocus),
+                backgroundColor: getMiniMapLineColor(line.type, isInFocus, theme),
                 opacity: isInFocus ? 1 : 0.3,
               }}
             />
@@ -446,7 +457,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
             left: 0,
             right: 0,
             height: `${((focusArea.endLine - focusArea.startLine + 1) / totalLines) * minimapHeight}px`,
-            border: `2px solid ${colors.primary[500]}`,
+            border: `2px solid ${theme.palette.primary}`,
             borderRadius: '2px',
             pointerEvents: 'none',
           }}
@@ -464,7 +475,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
           left: '20px',
           right: explanationStyle === 'sidebar' ? '360px' : '20px',
           height: '4px',
-          backgroundColor: colors.neutral[200],
+          backgroundColor: theme.palette.border,
           borderRadius: '2px',
           overflow: 'hidden',
         }}
@@ -472,7 +483,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
         <div
           style={{
             height: '100%',
-            backgroundColor: colors.primary[500],
+            backgroundColor: theme.palette.primary,
             width: `${progress * 100}%`,
             borderRadius: '2px',
             transition: 'width 0.1s ease-out',
@@ -488,7 +499,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
   return (
     <AbsoluteFill
       style={{
-        backgroundColor: colors.background.primary,
+        backgroundColor: theme.palette.background,
         overflow: 'hidden',
       }}
     >
@@ -496,8 +507,8 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
       <div
         style={{
           padding: '20px',
-          borderBottom: `1px solid ${colors.neutral[300]}`,
-          backgroundColor: colors.background.secondary,
+          borderBottom: `1px solid ${theme.palette.border}`,
+          backgroundColor: theme.palette.surface,
           display: 'flex',
           alignItems: 'center',
           justifyContent: 'space-between',
@@ -508,7 +519,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
             style={{
               fontSize: '20px',
               fontWeight: 'bold',
-              color: colors.text.primary,
+              color: theme.palette.text,
               marginBottom: '4px',
             }}
           >
@@ -517,7 +528,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
           <div
             style={{
               fontSize: '14px',
-              color: colors.text.secondary,
+              color: theme.palette.textMuted,
             }}
           >
             {diff.language} • {diff.stats.changes} changes • Step {currentStepIndex + 1} of {effectiveWalkthrough.length}
@@ -534,7 +545,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
               style={{
                 fontSize: '16px',
                 fontWeight: 'bold',
-                color: colors.primary[600],
+                color: theme.palette.primary,
               }}
             >
               {currentStep.title}
@@ -542,7 +553,7 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
             <div
               style={{
                 fontSize: '12px',
-                color: colors.text.secondary,
+                color: theme.palette.textMuted,
               }}
             >
               Focus: Lines {currentStep.startLine + 1}-{currentStep.endLine + 1}
@@ -560,8 +571,8 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
           width: `${codeAreaWidth}px`,
           height: height - 160,
           overflow: 'auto',
-          backgroundColor: colors.background.primary,
-          border: `1px solid ${colors.neutral[300]}`,
+          backgroundColor: theme.palette.background,
+          border: `1px solid ${theme.palette.border}`,
           borderRadius: '6px',
         }}
       >
@@ -586,24 +597,25 @@ export const LineByLineWalkthrough: React.FC<LineByLineWalkthroughProps> = ({
 function getLineBackground(
   lineType: DiffLine['type'], 
   isInFocus: boolean, 
-  isFocusCenter: boolean
+  isFocusCenter: boolean,
+  theme: ThemeColors
 ): string {
   let baseColor = 'transparent';
   
   switch (lineType) {
     case 'added':
-      baseColor = 'rgba(34, 197, 94, 0.1)';
+      baseColor = theme.diff.addedBackground;
       break;
     case 'removed':
-      baseColor = 'rgba(239, 68, 68, 0.1)';
+      baseColor = theme.diff.removedBackground;
       break;
     case 'hunk':
-      baseColor = 'rgba(59, 130, 246, 0.05)';
+      baseColor = theme.diff.hunkBackground;
       break;
   }
   
   if (isFocusCenter) {
-    return `linear-gradient(90deg, ${colors.primary[50]} 0%, ${baseColor} 20%, ${baseColor} 80%, ${colors.primary[50]} 100%)`;
+    return `linear-gradient(90deg, ${theme.palette.highlight} 0%, ${baseColor} 20%, ${baseColor} 80%, ${theme.palette.highlight} 100%)`;
   }
   
   return baseColor;
@@ -612,7 +624,8 @@ function getLineBackground(
 function getBorderLeft(
   lineType: DiffLine['type'], 
   isInFocus: boolean, 
-  hasAnnotation: boolean
+  hasAnnotation: boolean,
+  theme: ThemeColors
 ): string {
   if (hasAnnotation) {
     return `4px solid ${colors.warning}`;
@@ -620,11 +633,11 @@ function getBorderLeft(
   
   switch (lineType) {
     case 'added':
-      return `3px solid ${colors.success}`;
+      return `3px solid ${theme.diff.added}`;
     case 'removed':
-      return `3px solid ${colors.error}`;
+      return `3px solid ${theme.diff.removed}`;
     default:
-      return isInFocus ? `3px solid ${colors.primary[200]}` : '3px solid transparent';
+      return isInFocus ? `3px solid ${theme.palette.highlight}` : '3px solid transparent';
   }
 }
 
@@ -637,12 +650,12 @@ function getDiffMarker(lineType: DiffLine['type']): string {
   }
 }
 
-function getDiffMarkerColor(lineType: DiffLine['type']): string {
+function getDiffMarkerColor(lineType: DiffLine['type'], theme: ThemeColors): string {
   switch (lineType) {
-    case 'added': return colors.success;
-    case 'removed': return colors.error;
-    case 'hunk': return colors.primary[500];
-    default: return colors.neutral[400];
+    case 'added': return theme.diff.added;
+    case 'removed': return theme.diff.removed;
+    case 'hunk': return theme.palette.primary;
+    default: return theme.palette.textMuted;
   }
 }
 
@@ -668,22 +681,22 @@ function getAnnotationIcon(type: LineAnnotation['type']): string {
   }
 }
 
-function getMiniMapLineColor(lineType: DiffLine['type'], isInFocus: boolean): string {
-  let baseColor = colors.neutral[300];
+function getMiniMapLineColor(lineType: DiffLine['type'], isInFocus: boolean, theme: ThemeColors): string {
+  let baseColor = theme.palette.border;
   
   switch (lineType) {
     case 'added':
-      baseColor = colors.success;
+      baseColor = theme.diff.added;
       break;
     case 'removed':
-      baseColor = colors.error;
+      baseColor = theme.diff.removed;
       break;
     case 'context':
-      baseColor = colors.neutral[400];
+      baseColor = theme.palette.textMuted;
       break;
   }
   
-  return isInFocus ? baseColor : colors.neutral[200];
+  return isInFocus ? baseColor : theme.palette.border;
 }
 
 function generateAutoWalkthrough(
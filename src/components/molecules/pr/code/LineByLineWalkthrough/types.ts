@@ -2,6 +2,7 @@
  * Type definitions for LineByLineWalkthrough component
  */
 
+import { ThemeColors } from '../../../../../theme/types';
 import { ProcessedDiff } from '../utils/diffProcessor';
 
 export interface LineByLineWalkthroughProps {
@@ -14,6 +15,8 @@ export interface LineByLineWalkthroughProps {
   explanationStyle?: 'popup' | 'sidebar' | 'overlay';
   autoAdvance?: boolean;
   showMinimap?: boolean;
+  /** Colors for the panels, code and diff markers (defaults to the light theme) */
+  theme?: ThemeColors;
 }
 
 export interface LineAnnotation {
@@ -0,0 +1,109 @@
+/**
+ * Tests for grammar-based syntax highlighting of diffs
+ */
+
+import { DiffLine, parseDiffPatch } from '../diffProcessor';
+import { detectLanguageFromFileName, SyntaxToken, tokenizeCode, tokenizeDiffLines, tokenizeLines } from '../syntaxHighlighter';
+
+const typeOf = (tokens: SyntaxToken[], content: string) => tokens.find(token => token.content === content)?.type;
+
+describe('tokenizeCode', () => {
+  it('should keep template literal text a string and color its interpolations as code', () => {
+    const tokens = tokenizeCode('const url = `${base}/users/${id + 1}`;', 'typescript');
+
+    expect(typeOf(tokens, 'const')).toBe('keyword');
+    expect(typeOf(tokens, '/users/')).toBe('string');
+    expect(typeOf(tokens, 'base')).toBe('identifier');
+    expect(typeOf(tokens, '1')).toBe('number');
+  });
+
+  it('should color JSX tags, attributes and embedded expressions', () => {
+    const tokens = tokenizeCode('<Button variant="primary" onClick={() => save(2)}>Save</Button>', 'tsx');
+
+    expect(typeOf(tokens, 'Button')).toBe('type');
+    expect(typeOf(tokens, 'variant')).toBe('attribute');
+    expect(typeOf(tokens, 'save')).toBe('function');
+    expect(typeOf(tokens, '2')).toBe('number');
+  });
+
+  it('should never span a line break and keep positions into the content', () => {
+    const content = '/* one\n   two */\nx = 1';
+    const tokens = tokenizeCode(content, 'javascript');
+
+    expect(tokens.map(token => [token.type, token.content])).toEqual([
+      ['comment', '/* one'],
+      ['comment', '   two */'],
+      ['identifier', 'x'],
+      ['whitespace', ' '],
+      ['operator', '='],
+      ['whitespace', ' '],
+      ['number', '1'],
+    ]);
+    tokens.forEach(token => expect(content.slice(token.start, token.end)).toBe(token.content));
+  });
+
+  it('should highlight SQL, YAML, Kotlin, Ruby, C++ and Terraform', () => {
+    expect(typeOf(tokenizeCode('SELECT id FROM users WHERE age > 30', 'sql'), 'SELECT')).toBe('keyword');
+    expect(typeOf(tokenizeCode('name: build # step', 'yaml'), 'name')).toBe('property');
+    expect(typeOf(tokenizeCode('fun greet(name: String) = "Hi $name"', 'kotlin'), 'fun')).toBe('keyword');
+    expect(typeOf(tokenizeCode('def greet; puts "hi"; end', 'ruby'), 'def')).toBe('keyword');
+    expect(typeOf(tokenizeCode('std::vector<int> values; // cache', 'cpp'), '// cache')).toBe('comment');
+    expect(typeOf(tokenizeCode('resource "aws_s3_bucket" "logs" {\n  count = 2\n}', 'terraform'), 'count')).toBe('property');
+  });
+
+  it('should fall back to plain text for unknown languages', () => {
+    expect(tokenizeCode('a <b> c', 'brainfuck').every(token => token.type === 'text' || token.type === 'whitespace')).toBe(true);
+  });
+});
+
+describe('tokenizeLines', () => {
+  it('should carry strings and comments across lines', () => {
+    const [first, second, third] = tokenizeLines(['def f():', '    """Docs', '    more"""'], 'python');
+
+    expect(typeOf(first, 'def')).toBe('keyword');
+    expect(second.map(token => token.type)).toEqual(['whitespace', 'string']);
+    expect(third).toEqual([expect.objectContaining({ type: 'string', content: '    more"""', start: 0, end: 11 })]);
+  });
+});
+
+describe('tokenizeDiffLines', () => {
+  it('should tokenize the old and new sides of each hunk separately', () => {
+    const diff = parseDiffPatch(
+      [
+        '@@ -1,3 +1,3 @@',
+        ' const a = 1;',
+        '-/* removed',
+        '+const b = `added',
+        ' still inside`; */',
+        '@@ -20,1 +20,1 @@',
+        '-x();',
+        '+y();',
+      ].join('\n'),
+      'src/a.ts'
+    );
+    const tokens = tokenizeDiffLines(diff.lines, diff.language);
+    const tokensOf = (content: string) => tokens[diff.lines.findIndex((line: DiffLine) => line.content === content)];
+
+    expect(tokensOf('/* removed')[0].type).toBe('comment');
+    expect(typeOf(tokensOf('const b = `added'), 'const')).toBe('keyword');
+    // Context lines follow the new side, where the template literal is still open, not the old one's comment
+    expect(tokensOf('still inside`; */')[0]).toMatchObject({ type: 'string', content: 'still inside' });
+    // State doesn't leak into the next hunk
+    expect(typeOf(tokensOf('y();'), 'y')).toBe('function');
+    expect(tokens[0]).toEqual([expect.objectContaining({ type: 'text', content: '@@ -1,3 +1,3 @@' })]);
+  });
+});
+
+describe('detectLanguageFromFileName', () => {
+  it('should detect languages from extensions and well-known file names', () => {
+    expect(detectLanguageFromFileName('db/migrate/001_init.sql')).toBe('sql');
+    expect(detectLanguageFromFileName('.github/workflows/ci.yml')).toBe('yaml');
+    expect(detectLanguageFromFileName('app/src/Main.kt')).toBe('kotlin');
+    expect(detectLanguageFromFileName('infra/main.tf')).toBe('terraform');
+    expect(detectLanguageFromFileName('include/vector.hpp')).toBe('cpp');
+    expect(detectLanguageFromFileName('Gemfile')).toBe('ruby');
+    expect(detectLanguageFromFileName('docker/Dockerfile.dev')).toBe('dockerfile');
+    expect(detectLanguageFromFileName('CMakeLists.txt')).toBe('cmake');
+    expect(detectLanguageFromFileName('notes.txt')).toBe('text');
+  });
+});
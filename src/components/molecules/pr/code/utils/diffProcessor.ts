@@ -4,6 +4,9 @@
  */
 
 import { GitHubFile } from '../../../../../github/types';
+import { detectLanguageFromFileName } from './syntaxHighlighter';
+
+export { detectLanguageFromFileName };
 
 export interface DiffLine {
   type: 'added' | 'removed' | 'context' | 'header' | 'hunk';
@@ -163,58 +166,6 @@ function getLineType(line: string): DiffLine['type'] {
   return 'header';
 }
 
-/**
- * Detect programming language from file name
- */
-export function detectLanguageFromFileName(fileName: string): string {
-  const extension = fileName.split('.').pop()?.toLowerCase();
-  
-  const languageMap: Record<string, string> = {
-    'ts': 'typescript',
-    'tsx': 'tsx',
-    'js': 'javascript',
-    'jsx': 'jsx',
-    'py': 'python',
-    'java': 'java',
-    'kt': 'kotlin',
-    'swift': 'swift',
-    'go': 'go',
-    'rs': 'rust',
-    'cpp': 'cpp',
-    'cc': 'cpp',
-    'cxx': 'cpp',
-    'c': 'c',
-    'h': 'c',
-    'hpp': 'cpp',
-    'cs': 'csharp',
-    'php': 'php',
-    'rb': 'ruby',
-    'sh': 'bash',
-    'bash': 'bash',
-    'zsh': 'bash',
-    'ps1': 'powershell',
-    'sql': 'sql',
-    'html': 'html',
-    'htm': 'html',
-    'css': 'css',
-    'scss': 'scss',
-    'sass': 'sass',
-    'less': 'less',
-    'json': 'json',
-    'xml': 'xml',
-    'yaml': 'yaml',
-    'yml': 'yaml',
-    'toml': 'toml',
-    'md': 'markdown',
-    'markdown': 'markdown',
-    'dockerfile': 'dockerfile',
-    'tf': 'terraform',
-    'hcl': 'hcl',
-  };
-  
-  return languageMap[extension || ''] || 'text';
-}
-
 /**
  * Determine file status based on additions/deletions
  */
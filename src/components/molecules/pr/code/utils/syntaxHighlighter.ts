@@ -1,9 +1,67 @@
 /**
  * Syntax Highlighting Utilities for Code Diff Animations
- * Provides language detection and syntax highlighting for video rendering
+ * Provides language detection and grammar-based syntax highlighting for video rendering. Tokenizing is done by
+ * Prism's grammars, which run offline in Node and in the browser, and flattened into `SyntaxToken`s per line
  */
 
-import { colors } from '../../../../../theme/colors';
+import * as Prism from 'prismjs';
+// Grammars register themselves on the Prism instance, so dependencies come first (e.g. c before cpp, java before scala)
+import 'prismjs/components/prism-markup-templating';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-jsx';
+import 'prismjs/components/prism-tsx';
+import 'prismjs/components/prism-python';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-kotlin';
+import 'prismjs/components/prism-scala';
+import 'prismjs/components/prism-groovy';
+import 'prismjs/components/prism-swift';
+import 'prismjs/components/prism-go';
+import 'prismjs/components/prism-rust';
+import 'prismjs/components/prism-c';
+import 'prismjs/components/prism-cpp';
+import 'prismjs/components/prism-objectivec';
+import 'prismjs/components/prism-csharp';
+import 'prismjs/components/prism-fsharp';
+import 'prismjs/components/prism-php';
+import 'prismjs/components/prism-ruby';
+import 'prismjs/components/prism-bash';
+import 'prismjs/components/prism-powershell';
+import 'prismjs/components/prism-sql';
+import 'prismjs/components/prism-scss';
+import 'prismjs/components/prism-sass';
+import 'prismjs/components/prism-less';
+import 'prismjs/components/prism-json';
+import 'prismjs/components/prism-yaml';
+import 'prismjs/components/prism-toml';
+import 'prismjs/components/prism-ini';
+import 'prismjs/components/prism-markdown';
+import 'prismjs/components/prism-docker';
+import 'prismjs/components/prism-hcl';
+import 'prismjs/components/prism-makefile';
+import 'prismjs/components/prism-cmake';
+import 'prismjs/components/prism-lua';
+import 'prismjs/components/prism-dart';
+import 'prismjs/components/prism-r';
+import 'prismjs/components/prism-perl';
+import 'prismjs/components/prism-elixir';
+import 'prismjs/components/prism-erlang';
+import 'prismjs/components/prism-haskell';
+import 'prismjs/components/prism-ocaml';
+import 'prismjs/components/prism-clojure';
+import 'prismjs/components/prism-julia';
+import 'prismjs/components/prism-zig';
+import 'prismjs/components/prism-solidity';
+import 'prismjs/components/prism-graphql';
+import 'prismjs/components/prism-protobuf';
+import 'prismjs/components/prism-nginx';
+import 'prismjs/components/prism-vim';
+import 'prismjs/components/prism-diff';
+import { lightTheme } from '../../../../../theme/themes';
+import type { TokenColorScheme } from '../../../../../theme/types';
+import type { DiffChunk, DiffLine } from './diffProcessor';
+
+export type { TokenColorScheme };
 
 export interface SyntaxToken {
   type: TokenType;
@@ -14,7 +72,7 @@ export interface SyntaxToken {
   style?: React.CSSProperties;
 }
 
-export type TokenType = 
+export type TokenType =
   | 'keyword'
   | 'string'
   | 'comment'
@@ -32,568 +90,308 @@ export type TokenType =
 
 export interface LanguageConfig {
   name: string;
-  keywords: string[];
-  operators: string[];
-  stringDelimiters: string[];
-  commentPatterns: RegExp[];
-  numberPattern: RegExp;
-  identifierPattern: RegExp;
-  colorScheme: TokenColorScheme;
+  /** Prism grammar that tokenizes the language */
+  grammar: string;
+  /** File extensions, without the dot */
+  extensions: string[];
+  /** Whole file names (lowercase) for files without a telling extension, e.g. `makefile` */
+  fileNames?: string[];
 }
 
-export interface TokenColorScheme {
-  keyword: string;
-  string: string;
-  comment: string;
-  number: string;
-  operator: string;
-  identifier: string;
-  type: string;
-  function: string;
-  property: string;
-  tag: string;
-  attribute: string;
-  text: string;
-  punctuation: string;
-}
-
-/**
- * Default color scheme based on the theme
- */
-const defaultColorScheme: TokenColorScheme = {
-  keyword: colors.primary[600],
-  string: colors.success,
-  comment: colors.neutral[500],
-  number: colors.secondary[600], 
-  operator: colors.neutral[700],
-  identifier: colors.text.primary,
-  type: colors.primary[500],
-  function: colors.secondary[700],
-  property: colors.primary[400],
-  tag: colors.primary[600],
-  attribute: colors.secondary[500],
-  text: colors.text.primary,
-  punctuation: colors.neutral[600],
-};
-
 /**
- * Language configurations for syntax highlighting
+ * Supported languages, keyed by the name `detectLanguageFromFileName` returns
  */
 const languageConfigs: Record<string, LanguageConfig> = {
-  typescript: {
-    name: 'TypeScript',
-    keywords: [
-      'abstract', 'any', 'as', 'boolean', 'break', 'case', 'catch', 'class',
-      'const', 'constructor', 'continue', 'debugger', 'declare', 'default',
-      'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally',
-      'for', 'from', 'function', 'get', 'if', 'implements', 'import', 'in',
-      'instanceof', 'interface', 'let', 'module', 'namespace', 'never', 'new',
-      'null', 'number', 'object', 'package', 'private', 'protected', 'public',
-      'readonly', 'return', 'set', 'static', 'string', 'super', 'switch',
-      'symbol', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined',
-      'unique', 'unknown', 'var', 'void', 'while', 'with', 'yield'
-    ],
-    operators: ['+', '-', '*', '/', '%', '=', '==', '===', '!=', '!==', '<', '>', '<=', '>=', '&&', '||', '!', '?', ':', '=>'],
-    stringDelimiters: ['"', "'", '`'],
-    commentPatterns: [/\/\/.*$/gm, /\/\*[\s\S]*?\*\//gm],
-    numberPattern: /\b\d+(\.\d+)?\b/g,
-    identifierPattern: /\b[a-zA-Z_$][a-zA-Z0-9_$]*\b/g,
-    colorScheme: defaultColorScheme,
-  },
-  javascript: {
-    name: 'JavaScript',
-    keywords: [
-      'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
-      'debugger', 'default', 'delete', 'do', 'else', 'export', 'extends',
-      'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in',
-      'instanceof', 'let', 'new', 'null', 'return', 'super', 'switch', 'this',
-      'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while',
-      'with', 'yield'
-    ],
-    operators: ['+', '-', '*', '/', '%', '=', '==', '===', '!=', '!==', '<', '>', '<=', '>=', '&&', '||', '!', '?', ':', '=>'],
-    stringDelimiters: ['"', "'", '`'],
-    commentPatterns: [/\/\/.*$/gm, /\/\*[\s\S]*?\*\//gm],
-    numberPattern: /\b\d+(\.\d+)?\b/g,
-    identifierPattern: /\b[a-zA-Z_$][a-zA-Z0-9_$]*\b/g,
-    colorScheme: defaultColorScheme,
-  },
-  python: {
-    name: 'Python',
-    keywords: [
-      'and', 'as', 'assert', 'break', 'class', 'continue', 'def', 'del',
-      'elif', 'else', 'except', 'False', 'finally', 'for', 'from', 'global',
-      'if', 'import', 'in', 'is', 'lambda', 'None', 'nonlocal', 'not', 'or',
-      'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield'
-    ],
-    operators: ['+', '-', '*', '/', '//', '%', '**', '=', '==', '!=', '<', '>', '<=', '>=', 'and', 'or', 'not', 'in', 'is'],
-    stringDelimiters: ['"', "'", '"""', "'''"],
-    commentPatterns: [/#.*$/gm],
-    numberPattern: /\b\d+(\.\d+)?\b/g,
-    identifierPattern: /\b[a-zA-Z_][a-zA-Z0-9_]*\b/g,
-    colorScheme: defaultColorScheme,
-  },
-  java: {
-    name: 'Java',
-    keywords: [
-      'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch',
-      'char', 'class', 'const', 'continue', 'default', 'do', 'double',
-      'else', 'enum', 'extends', 'false', 'final', 'finally', 'float',
-      'for', 'goto', 'if', 'implements', 'import', 'instanceof', 'int',
-      'interface', 'long', 'native', 'new', 'null', 'package', 'private',
-      'protected', 'public', 'return', 'short', 'static', 'strictfp',
-      'super', 'switch', 'synchronized', 'this', 'throw', 'throws',
-      'transient', 'true', 'try', 'void', 'volatile', 'while'
-    ],
-    operators: ['+', '-', '*', '/', '%', '=', '==', '!=', '<', '>', '<=', '>=', '&&', '||', '!', '?', ':'],
-    stringDelimiters: ['"', "'"],
-    commentPatterns: [/\/\/.*$/gm, /\/\*[\s\S]*?\*\//gm],
-    numberPattern: /\b\d+(\.\d+)?[fFdDlL]?\b/g,
-    identifierPattern: /\b[a-zA-Z_$][a-zA-Z0-9_$]*\b/g,
-    colorScheme: defaultColorScheme,
-  },
-  go: {
-    name: 'Go',
-    keywords: [
-      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer',
-      'else', 'fallthrough', 'for', 'func', 'go', 'goto', 'if', 'import',
-      'interface', 'map', 'package', 'range', 'return', 'select', 'struct',
-      'switch', 'type', 'var'
-    ],
-    operators: ['+', '-', '*', '/', '%', '=', '==', '!=', '<', '>', '<=', '>=', '&&', '||', '!', '&', '|', '^', '<<', '>>', ':='],
-    stringDelimiters: ['"', "'", '`'],
-    commentPatterns: [/\/\/.*$/gm, /\/\*[\s\S]*?\*\//gm],
-    numberPattern: /\b\d+(\.\d+)?([eE][+-]?\d+)?\b/g,
-    identifierPattern: /\b[a-zA-Z_][a-zA-Z0-9_]*\b/g,
-    colorScheme: defaultColorScheme,
-  },
-  rust: {
-    name: 'Rust',
-    keywords: [
-      'as', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'extern',
-      'false', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match',
-      'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self',
-      'static', 'struct', 'super', 'trait', 'true', 'type', 'unsafe',
-      'use', 'where', 'while'
-    ],
-    operators: ['+', '-', '*', '/', '%', '=', '==', '!=', '<', '>', '<=', '>=', '&&', '||', '!', '&', '|', '^', '<<', '>>', '=>'],
-    stringDelimiters: ['"', "'"],
-    commentPatterns: [/\/\/.*$/gm, /\/\*[\s\S]*?\*\//gm],
-    numberPattern: /\b\d+(\.\d+)?([eE][+-]?\d+)?[fFuUiI]?\b/g,
-    identifierPattern: /\b[a-zA-Z_][a-zA-Z0-9_]*\b/g,
-    colorScheme: defaultColorScheme,
-  },
-  html: {
-    name: 'HTML',
-    keywords: [],
-    operators: [],
-    stringDelimiters: ['"', "'"],
-    commentPatterns: [/<!--[\s\S]*?-->/gm],
-    numberPattern: /\b\d+(\.\d+)?\b/g,
-    identifierPattern: /\b[a-zA-Z_-][a-zA-Z0-9_-]*\b/g,
-    colorScheme: {
-      ...defaultColorScheme,
-      tag: colors.primary[600],
-      attribute: colors.secondary[500],
-    },
-  },
-  css: {
-    name: 'CSS',
-    keywords: [
-      'important', 'inherit', 'initial', 'unset', 'auto', 'none', 'normal',
-      'bold', 'italic', 'left', 'right', 'center', 'block', 'inline',
-      'flex', 'grid', 'absolute', 'relative', 'fixed', 'static', 'sticky'
-    ],
-    operators: [':', ';', '{', '}', '(', ')', '[', ']'],
-    stringDelimiters: ['"', "'"],
-    commentPatterns: [/\/\*[\s\S]*?\*\//gm],
-    numberPattern: /\b\d+(\.\d+)?(px|em|rem|%|vh|vw|pt|pc|in|cm|mm|ex|ch|vmin|vmax|fr)?\b/g,
-    identifierPattern: /\b[a-zA-Z_-][a-zA-Z0-9_-]*\b/g,
-    colorScheme: {
-      ...defaultColorScheme,
-      property: colors.primary[500],
-      function: colors.secondary[600],
-    },
-  },
-  json: {
-    name: 'JSON',
-    keywords: ['true', 'false', 'null'],
-    operators: [':', ',', '{', '}', '[', ']'],
-    stringDelimiters: ['"'],
-    commentPatterns: [],
-    numberPattern: /\b-?\d+(\.\d+)?([eE][+-]?\d+)?\b/g,
-    identifierPattern: /\b[a-zA-Z_][a-zA-Z0-9_]*\b/g,
-    colorScheme: {
-      ...defaultColorScheme,
-      property: colors.primary[500],
-      string: colors.success,
-    },
-  },
+  typescript: { name: 'TypeScript', grammar: 'typescript', extensions: ['ts', 'mts', 'cts'] },
+  tsx: { name: 'TSX', grammar: 'tsx', extensions: ['tsx'] },
+  javascript: { name: 'JavaScript', grammar: 'javascript', extensions: ['js', 'mjs', 'cjs'] },
+  jsx: { name: 'JSX', grammar: 'jsx', extensions: ['jsx'] },
+  python: { name: 'Python', grammar: 'python', extensions: ['py', 'pyi', 'pyw'] },
+  java: { name: 'Java', grammar: 'java', extensions: ['java'] },
+  kotlin: { name: 'Kotlin', grammar: 'kotlin', extensions: ['kt', 'kts'] },
+  scala: { name: 'Scala', grammar: 'scala', extensions: ['scala', 'sc'] },
+  groovy: { name: 'Groovy', grammar: 'groovy', extensions: ['groovy', 'gradle'], fileNames: ['jenkinsfile'] },
+  swift: { name: 'Swift', grammar: 'swift', extensions: ['swift'] },
+  go: { name: 'Go', grammar: 'go', extensions: ['go'] },
+  rust: { name: 'Rust', grammar: 'rust', extensions: ['rs'] },
+  c: { name: 'C', grammar: 'c', extensions: ['c', 'h'] },
+  cpp: { name: 'C++', grammar: 'cpp', extensions: ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx', 'ino'] },
+  objectivec: { name: 'Objective-C', grammar: 'objectivec', extensions: ['m', 'mm'] },
+  csharp: { name: 'C#', grammar: 'csharp', extensions: ['cs', 'csx'] },
+  fsharp: { name: 'F#', grammar: 'fsharp', extensions: ['fs', 'fsi', 'fsx'] },
+  php: { name: 'PHP', grammar: 'php', extensions: ['php'] },
+  ruby: { name: 'Ruby', grammar: 'ruby', extensions: ['rb', 'rake', 'gemspec'], fileNames: ['gemfile', 'rakefile'] },
+  bash: { name: 'Shell', grammar: 'bash', extensions: ['sh', 'bash', 'zsh'] },
+  powershell: { name: 'PowerShell', grammar: 'powershell', extensions: ['ps1', 'psm1'] },
+  sql: { name: 'SQL', grammar: 'sql', extensions: ['sql'] },
+  html: { name: 'HTML', grammar: 'markup', extensions: ['html', 'htm'] },
+  xml: { name: 'XML', grammar: 'markup', extensions: ['xml', 'svg', 'xsd', 'plist'] },
+  css: { name: 'CSS', grammar: 'css', extensions: ['css'] },
+  scss: { name: 'SCSS', grammar: 'scss', extensions: ['scss'] },
+  sass: { name: 'Sass', grammar: 'sass', extensions: ['sass'] },
+  less: { name: 'Less', grammar: 'less', extensions: ['less'] },
+  json: { name: 'JSON', grammar: 'json', extensions: ['json', 'jsonc', 'webmanifest'] },
+  yaml: { name: 'YAML', grammar: 'yaml', extensions: ['yaml', 'yml'] },
+  toml: { name: 'TOML', grammar: 'toml', extensions: ['toml'] },
+  ini: { name: 'INI', grammar: 'ini', extensions: ['ini', 'cfg', 'editorconfig'] },
+  markdown: { name: 'Markdown', grammar: 'markdown', extensions: ['md', 'markdown'] },
+  dockerfile: { name: 'Dockerfile', grammar: 'docker', extensions: ['dockerfile'], fileNames: ['dockerfile', 'containerfile'] },
+  terraform: { name: 'Terraform', grammar: 'hcl', extensions: ['tf', 'tfvars'] },
+  hcl: { name: 'HCL', grammar: 'hcl', extensions: ['hcl'] },
+  makefile: { name: 'Makefile', grammar: 'makefile', extensions: ['mk', 'mak'], fileNames: ['makefile', 'gnumakefile'] },
+  cmake: { name: 'CMake', grammar: 'cmake', extensions: ['cmake'], fileNames: ['cmakelists.txt'] },
+  lua: { name: 'Lua', grammar: 'lua', extensions: ['lua'] },
+  dart: { name: 'Dart', grammar: 'dart', extensions: ['dart'] },
+  r: { name: 'R', grammar: 'r', extensions: ['r'] },
+  perl: { name: 'Perl', grammar: 'perl', extensions: ['pl', 'pm'] },
+  elixir: { name: 'Elixir', grammar: 'elixir', extensions: ['ex', 'exs'] },
+  erlang: { name: 'Erlang', grammar: 'erlang', extensions: ['erl', 'hrl'] },
+  haskell: { name: 'Haskell', grammar: 'haskell', extensions: ['hs'] },
+  ocaml: { name: 'OCaml', grammar: 'ocaml', extensions: ['ml', 'mli'] },
+  clojure: { name: 'Clojure', grammar: 'clojure', extensions: ['clj', 'cljs', 'cljc', 'edn'] },
+  julia: { name: 'Julia', grammar: 'julia', extensions: ['jl'] },
+  zig: { name: 'Zig', grammar: 'zig', extensions: ['zig'] },
+  solidity: { name: 'Solidity', grammar: 'solidity', extensions: ['sol'] },
+  graphql: { name: 'GraphQL', grammar: 'graphql', extensions: ['graphql', 'gql'] },
+  protobuf: { name: 'Protocol Buffers', grammar: 'protobuf', extensions: ['proto'] },
+  nginx: { name: 'Nginx', grammar: 'nginx', extensions: [], fileNames: ['nginx.conf'] },
+  vim: { name: 'Vim script', grammar: 'vim', extensions: ['vim'], fileNames: ['.vimrc'] },
+  diff: { name: 'Diff', grammar: 'diff', extensions: ['diff', 'patch'] },
 };
 
 /**
- * Tokenize code content for syntax highlighting
+ * Prism token types (and aliases) by the token type they render as. Types not listed take the type of the token
+ * they are nested in, so e.g. the text of a template literal stays a string while its interpolations don't
  */
-export function tokenizeCode(content: string, language: string): SyntaxToken[] {
-  const config = languageConfigs[language] || languageConfigs.text;
-  if (!config) {
-    return [{
-      type: 'text',
-      content,
-      start: 0,
-      end: content.length,
-      color: defaultColorScheme.text,
-    }];
-  }
-
-  const tokens: SyntaxToken[] = [];
-  let position = 0;
-
-  // Handle special cases for HTML and CSS
-  if (language === 'html') {
-    return tokenizeHTML(content);
-  } else if (language === 'css') {
-    return tokenizeCSS(content);
-  } else if (language === 'json') {
-    return tokenizeJSON(content);
-  }
-
-  // General tokenization for programming languages
-  const lines = content.split('\n');
-  
-  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-    const line = lines[lineIndex];
-    let linePosition = 0;
-
-    // Skip empty lines
-    if (line.trim() === '') {
-      tokens.push({
-        type: 'whitespace',
-        content: line,
-        start: position,
-        end: position + line.length,
-        color: defaultColorScheme.text,
-      });
-      position += line.length + 1; // +1 for newline
-      continue;
-    }
+const prismTokenTypes: Record<string, TokenType> = {
+  keyword: 'keyword',
+  boolean: 'keyword',
+  important: 'keyword',
+  atrule: 'keyword',
+  rule: 'keyword',
+  directive: 'keyword',
+  builtin: 'type',
+  'class-name': 'type',
+  namespace: 'type',
+  constant: 'type',
+  string: 'string',
+  char: 'string',
+  'template-string': 'string',
+  'attr-value': 'string',
+  regex: 'string',
+  url: 'string',
+  symbol: 'string',
+  comment: 'comment',
+  prolog: 'comment',
+  doctype: 'comment',
+  cdata: 'comment',
+  number: 'number',
+  operator: 'operator',
+  punctuation: 'punctuation',
+  function: 'function',
+  'function-definition': 'function',
+  property: 'property',
+  key: 'property',
+  tag: 'tag',
+  selector: 'tag',
+  'attr-name': 'attribute',
+  annotation: 'attribute',
+  decorator: 'attribute',
+  variable: 'identifier',
+  parameter: 'identifier',
+  // Code embedded in strings and markup, such as `${...}` and JSX `{...}`
+  interpolation: 'identifier',
+  script: 'identifier',
+  'plain-text': 'text',
+};
 
-    // Check for comments first
-    let commentMatch: RegExpMatchArray | null = null;
-    for (const commentPattern of config.commentPatterns) {
-      const match = commentPattern.exec(line);
-      if (match && match.index === 0) {
-        commentMatch = match;
-        break;
-      }
-    }
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
 
-    if (commentMatch) {
-      tokens.push({
-        type: 'comment',
-        content: commentMatch[0],
-        start: position,
-        end: position + commentMatch[0].length,
-        color: config.colorScheme.comment,
-        style: { fontStyle: 'italic' },
-      });
-      position += line.length + 1;
-      continue;
-    }
+interface Segment {
+  content: string;
+  type?: TokenType;
+}
 
-    // Tokenize the rest of the line
-    const remainingLine = line;
-    const lineTokens = tokenizeLine(remainingLine, config, position);
-    tokens.push(...lineTokens);
-    
-    position += line.length + 1; // +1 for newline
+/**
+ * Tokenize code content for syntax highlighting. Tokens never span a line break; their positions are offsets into
+ * `content`. Colors come from `colorScheme`, a theme's `syntax` (the light theme's by default)
+ */
+export function tokenizeCode(content: string, language: string, colorScheme: TokenColorScheme = lightTheme.syntax): SyntaxToken[] {
+  const grammar = findGrammar(language);
+  if (!grammar) {
+    return toSyntaxTokens([{ content, type: 'text' }], colorScheme);
   }
-
-  return tokens;
+  return toSyntaxTokens(flatten(Prism.tokenize(content, grammar)), colorScheme);
 }
 
 /**
- * Tokenize a single line of code
+ * Tokenize consecutive lines of one file, carrying tokenizer state from line to line so multi-line comments,
+ * strings and template literals are colored throughout. Token positions are offsets into their own line
  */
-function tokenizeLine(line: string, config: LanguageConfig, startPosition: number): SyntaxToken[] {
-  const tokens: SyntaxToken[] = [];
-  let position = 0;
-
-  while (position < line.length) {
-    const char = line[position];
-    
-    // Skip whitespace
-    if (/\s/.test(char)) {
-      let whitespaceEnd = position;
-      while (whitespaceEnd < line.length && /\s/.test(line[whitespaceEnd])) {
-        whitespaceEnd++;
-      }
-      
-      tokens.push({
-        type: 'whitespace',
-        content: line.substring(position, whitespaceEnd),
-        start: startPosition + position,
-        end: startPosition + whitespaceEnd,
-        color: config.colorScheme.text,
-      });
-      
-      position = whitespaceEnd;
-      continue;
-    }
-
-    // Check for strings
-    const stringToken = tryParseString(line, position, config);
-    if (stringToken) {
-      tokens.push({
-        ...stringToken,
-        start: startPosition + stringToken.start,
-        end: startPosition + stringToken.end,
-      });
-      position = stringToken.end - startPosition + stringToken.start;
-      continue;
+export function tokenizeLines(lines: string[], language: string, colorScheme: TokenColorScheme = lightTheme.syntax): SyntaxToken[][] {
+  const result: SyntaxToken[][] = lines.map(() => []);
+  let line = 0;
+  let lineStart = 0;
+  tokenizeCode(lines.join('\n'), language, colorScheme).forEach(token => {
+    while (token.start > lineStart + lines[line].length) {
+      lineStart += lines[line].length + 1;
+      line++;
     }
-
-    // Check for numbers
-    const numberToken = tryParseNumber(line, position, config);
-    if (numberToken) {
-      tokens.push({
-        ...numberToken,
-        start: startPosition + numberToken.start,
-        end: startPosition + numberToken.end,
-      });
-      position = numberToken.end - startPosition + numberToken.start;
-      continue;
-    }
-
-    // Check for operators
-    const operatorToken = tryParseOperator(line, position, config);
-    if (operatorToken) {
-      tokens.push({
-        ...operatorToken,
-        start: startPosition + operatorToken.start,
-        end: startPosition + operatorToken.end,
-      });
-      position = operatorToken.end - startPosition + operatorToken.start;
-      continue;
-    }
-
-    // Check for identifiers and keywords
-    const identifierToken = tryParseIdentifier(line, position, config);
-    if (identifierToken) {
-      tokens.push({
-        ...identifierToken,
-        start: startPosition + identifierToken.start,
-        end: startPosition + identifierToken.end,
-      });
-      position = identifierToken.end - startPosition + identifierToken.start;
-      continue;
-    }
-
-    // Default: single character as punctuation
-    tokens.push({
-      type: 'punctuation',
-      content: char,
-      start: startPosition + position,
-      end: startPosition + position + 1,
-      color: config.colorScheme.punctuation,
-    });
-    position++;
-  }
-
-  return tokens;
+    result[line].push({ ...token, start: token.start - lineStart, end: token.end - lineStart });
+  });
+  return result;
 }
 
 /**
- * Try to parse a string token
+ * Tokenize diff lines, one token list per line. The old side (context and removed lines) and the new side (context
+ * and added lines) of each hunk are tokenized as separate runs of code, so state carries across the lines of a
+ * hunk without mixing the two versions. State starts afresh at each hunk, since the lines between hunks are unknown.
+ * Hunk and file header lines are plain text
  */
-function tryParseString(line: string, position: number, config: LanguageConfig): SyntaxToken | null {
-  const char = line[position];
-  
-  if (!config.stringDelimiters.includes(char)) {
-    return null;
-  }
-
-  let end = position + 1;
-  let escaped = false;
+export function tokenizeDiffLines(
+  lines: DiffLine[],
+  language: string,
+  colorScheme: TokenColorScheme = lightTheme.syntax
+): SyntaxToken[][] {
+  const result: SyntaxToken[][] = lines.map(() => []);
+  let hunk: number[] = [];
+
+  const flushHunk = () => {
+    (['removed', 'added'] as const).forEach(side => {
+      const sideLines = hunk.filter(index => lines[index].type === side || lines[index].type === 'context');
+      const tokens = tokenizeLines(sideLines.map(index => lines[index].content), language, colorScheme);
+      sideLines.forEach((index, position) => {
+        // Context lines read the same on both sides; they take the new side's tokens
+        if (lines[index].type === side || side === 'added') {
+          result[index] = tokens[position];
+        }
+      });
+    });
+    hunk = [];
+  };
 
-  while (end < line.length) {
-    const currentChar = line[end];
-    
-    if (escaped) {
-      escaped = false;
-    } else if (currentChar === '\\') {
-      escaped = true;
-    } else if (currentChar === char) {
-      end++;
-      break;
+  lines.forEach((line, index) => {
+    if (line.type === 'hunk' || line.type === 'header') {
+      flushHunk();
+      result[index] = toSyntaxTokens([{ content: line.content, type: 'text' }], colorScheme);
+    } else {
+      hunk.push(index);
     }
-    
-    end++;
-  }
-
-  return {
-    type: 'string',
-    content: line.substring(position, end),
-    start: position,
-    end,
-    color: config.colorScheme.string,
-  };
+  });
+  flushHunk();
+  return result;
 }
 
 /**
- * Try to parse a number token
+ * Tokenize the lines of a single diff chunk
  */
-function tryParseNumber(line: string, position: number, config: LanguageConfig): SyntaxToken | null {
-  const remainingLine = line.substring(position);
-  const match = remainingLine.match(config.numberPattern);
-  
-  if (!match || match.index !== 0) {
-    return null;
-  }
-
-  return {
-    type: 'number',
-    content: match[0],
-    start: position,
-    end: position + match[0].length,
-    color: config.colorScheme.number,
-  };
+export function tokenizeDiffChunk(chunk: DiffChunk, language: string, colorScheme: TokenColorScheme = lightTheme.syntax): SyntaxToken[][] {
+  return tokenizeDiffLines(chunk.lines, language, colorScheme);
 }
 
 /**
- * Try to parse an operator token
+ * Detect programming language from file name
  */
-function tryParseOperator(line: string, position: number, config: LanguageConfig): SyntaxToken | null {
-  // Check for multi-character operators first
-  const twoCharOp = line.substring(position, position + 2);
-  if (config.operators.includes(twoCharOp)) {
-    return {
-      type: 'operator',
-      content: twoCharOp,
-      start: position,
-      end: position + 2,
-      color: config.colorScheme.operator,
-    };
-  }
+export function detectLanguageFromFileName(fileName: string): string {
+  const baseName = fileName.split('/').pop()?.toLowerCase() || '';
+  const extension = baseName.includes('.') ? baseName.split('.').pop() : undefined;
 
-  const oneCharOp = line[position];
-  if (config.operators.includes(oneCharOp)) {
-    return {
-      type: 'operator',
-      content: oneCharOp,
-      start: position,
-      end: position + 1,
-      color: config.colorScheme.operator,
-    };
-  }
+  const entries = Object.entries(languageConfigs);
+  const byName = entries.find(([, config]) => config.fileNames?.some(name => baseName === name));
+  const byExtension = extension !== undefined && entries.find(([, config]) => config.extensions.includes(extension));
+  // Variants like Dockerfile.dev are still Dockerfiles
+  const byPrefix = entries.find(([, config]) => config.fileNames?.some(name => baseName.startsWith(`${name}.`)));
 
-  return null;
+  return (byName || byExtension || byPrefix || ['text'])[0];
 }
 
 /**
- * Try to parse an identifier or keyword token
+ * Get supported languages
  */
-function tryParseIdentifier(line: string, position: number, config: LanguageConfig): SyntaxToken | null {
-  const remainingLine = line.substring(position);
-  const match = remainingLine.match(/^[a-zA-Z_$][a-zA-Z0-9_$]*/);
-  
-  if (!match) {
-    return null;
-  }
-
-  const content = match[0];
-  const isKeyword = config.keywords.includes(content);
-  
-  return {
-    type: isKeyword ? 'keyword' : 'identifier',
-    content,
-    start: position,
-    end: position + content.length,
-    color: isKeyword ? config.colorScheme.keyword : config.colorScheme.identifier,
-    style: isKeyword ? { fontWeight: 'bold' } : undefined,
-  };
+export function getSupportedLanguages(): string[] {
+  return Object.keys(languageConfigs);
 }
 
 /**
- * Specialized tokenizer for HTML
+ * Check if a language is supported
  */
-function tokenizeHTML(content: string): SyntaxToken[] {
-  const tokens: SyntaxToken[] = [];
-  let position = 0;
-
-  const tagPattern = /<\/?[^>]+>/g;
-  let match: RegExpExecArray | null;
-
-  while ((match = tagPattern.exec(content)) !== null) {
-    // Add text before the tag
-    if (match.index > position) {
-      tokens.push({
-        type: 'text',
-        content: content.substring(position, match.index),
-        start: position,
-        end: match.index,
-        color: defaultColorScheme.text,
-      });
-    }
-
-    // Add the tag
-    tokens.push({
-      type: 'tag',
-      content: match[0],
-      start: match.index,
-      end: match.index + match[0].length,
-      color: defaultColorScheme.tag,
-    });
-
-    position = match.index + match[0].length;
-  }
-
-  // Add remaining text
-  if (position < content.length) {
-    tokens.push({
-      type: 'text',
-      content: content.substring(position),
-      start: position,
-      end: content.length,
-      color: defaultColorScheme.text,
-    });
-  }
-
-  return tokens;
+export function isLanguageSupported(language: string): boolean {
+  return language in languageConfigs;
 }
 
 /**
- * Specialized tokenizer for CSS
+ * Get language configuration
  */
-function tokenizeCSS(content: string): SyntaxToken[] {
-  // Simplified CSS tokenization
-  return tokenizeCode(content, 'text'); // Fallback to basic tokenization
+export function getLanguageConfig(language: string): LanguageConfig | null {
+  return languageConfigs[language] || null;
 }
 
 /**
- * Specialized tokenizer for JSON
+ * The Prism grammar for a language name, also accepting Prism's own names and aliases (e.g. `markup`, `rb`)
  */
-function tokenizeJSON(content: string): SyntaxToken[] {
-  // Simplified JSON tokenization
-  return tokenizeCode(content, 'text'); // Fallback to basic tokenization
+function findGrammar(language: string): Prism.Grammar | undefined {
+  const name = language.toLowerCase();
+  const grammar: Prism.Grammar | undefined = Prism.languages[languageConfigs[name]?.grammar ?? name];
+  // Prism.languages also holds helpers such as extend() and insertBefore()
+  return typeof grammar === 'object' ? grammar : undefined;
 }
 
 /**
- * Get supported languages
+ * Flatten Prism's nested token stream into text segments typed by their innermost known token type
  */
-export function getSupportedLanguages(): string[] {
-  return Object.keys(languageConfigs);
+function flatten(stream: Prism.TokenStream, inherited?: TokenType, segments: Segment[] = []): Segment[] {
+  if (typeof stream === 'string') {
+    segments.push({ content: stream, type: inherited });
+  } else if (Array.isArray(stream)) {
+    stream.forEach(item => flatten(item, inherited, segments));
+  } else {
+    const aliases = typeof stream.alias === 'string' ? [stream.alias] : stream.alias || [];
+    const known = [stream.type, ...aliases].find(type => type in prismTokenTypes);
+    flatten(stream.content, known ? prismTokenTypes[known] : inherited, segments);
+  }
+  return segments;
 }
 
 /**
- * Check if a language is supported
+ * Turn segments into tokens, splitting them at line breaks (which are dropped) and splitting untyped text into
+ * whitespace, identifiers and other text
  */
-export function isLanguageSupported(language: string): boolean {
-  return language in languageConfigs;
+function toSyntaxTokens(segments: Segment[], colorScheme: TokenColorScheme): SyntaxToken[] {
+  const tokens: SyntaxToken[] = [];
+  let position = 0;
+  segments.forEach(segment => {
+    segment.content.split('\n').forEach((line, index) => {
+      position += index > 0 ? 1 : 0;
+      (segment.type ? [line] : line.split(/(\s+)/)).forEach(part => {
+        if (part) {
+          tokens.push(createToken(part, position, tokenType(part, segment.type), colorScheme));
+        }
+        position += part.length;
+      });
+    });
+  });
+  return tokens;
 }
 
-/**
- * Get language configuration
- */
-export function getLanguageConfig(language: string): LanguageConfig | null {
-  return languageConfigs[language] || null;
-}
\ No newline at end of file
+function tokenType(content: string, type: TokenType | undefined): TokenType {
+  if (content.trim() === '') {
+    return 'whitespace';
+  }
+  if (type) {
+    return type;
+  }
+  return IDENTIFIER.test(content) ? 'identifier' : 'text';
+}
+
+function createToken(content: string, start: number, type: TokenType, colorScheme: TokenColorScheme): SyntaxToken {
+  const style: React.CSSProperties | undefined =
+    type === 'comment' ? { fontStyle: 'italic' } : type === 'keyword' ? { fontWeight: 'bold' } : undefined;
+  return {
+    type,
+    content,
+    start,
+    end: start + content.length,
+    color: type === 'whitespace' ? colorScheme.text : colorScheme[type],
+    ...(style ? { style } : {}),
+  };
+}
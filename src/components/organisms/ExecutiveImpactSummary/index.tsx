@@ -1,5 +1,6 @@
 import React from 'react';
 import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
+import { brandColor, fontStacks } from '../../../theme/cssVariables';
 import { ExecutiveImpactSummaryProps } from './types';
 
 // GitHub-inspired color palette for leadership presentation
@@ -116,7 +117,7 @@ export const ExecutiveImpactSummary: React.FC<ExecutiveImpactSummaryProps> = ({
       height,
       backgroundColor: theme === 'dark' ? COLORS.github.dark : COLORS.github.light,
       color: theme === 'dark' ? COLORS.github.light : COLORS.github.dark,
-      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif',
+      fontFamily: fontStacks.dashboard,
       padding: containerPadding,
       display: 'flex',
       flexDirection: 'column',
@@ -132,7 +133,8 @@ export const ExecutiveImpactSummary: React.FC<ExecutiveImpactSummaryProps> = ({
           fontWeight: 700,
           margin: 0,
           marginBottom: 12,
-          color: COLORS.github.blue,
+          color: brandColor('primary', COLORS.github.blue),
+          fontFamily: fontStacks.dashboardHeading,
         }}>
           {data.repositoryName}
         </h1>
@@ -1,5 +1,6 @@
 import React from 'react';
 import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
+import { brandColor, fontStacks } from '../../../theme/cssVariables';
 import { ROIVisualizationProps } from './types';
 
 // GitHub-inspired color palette
@@ -93,6 +94,10 @@ export const ROIVisualization: React.FC<ROIVisualizationProps> = ({
     return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
   };
 
+  // Share of the allocated hours, 0-100; zero when nothing was allocated
+  const timeShare = (hours: number): number =>
+    data.resourceAllocation.totalHoursAllocated > 0 ? (hours / data.resourceAllocation.totalHoursAllocated) * 100 : 0;
+
   const formatPercentage = (value: number): string => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
 
   const getROIColor = (roi: number): string => {
@@ -150,6 +155,8 @@ export const ROIVisualization: React.FC<ROIVisualizationProps> = ({
     const maxValue = Math.max(...data.map(d => d.value));
     const minValue = Math.min(...data.map(d => d.value));
     const range = maxValue - minValue || 1;
+    // A single point sits at the left edge
+    const x = (index: number) => (data.length > 1 ? (index / (data.length - 1)) * 100 : 0);
     
     return (
       <div style={{ height, position: 'relative' }}>
@@ -161,9 +168,8 @@ export const ROIVisualization: React.FC<ROIVisualizationProps> = ({
             strokeLinecap="round"
             strokeLinejoin="round"
             points={data.map((point, index) => {
-              const x = (index / (data.length - 1)) * 100;
               const y = ((maxValue - point.value) / range) * (height - 20) + 10;
-              return `${x}%,${y}`;
+              return `${x(index)}%,${y}`;
             }).join(' ')}
             style={{
               strokeDasharray: `${chartsAnimation * 1000}px`,
@@ -173,7 +179,7 @@ export const ROIVisualization: React.FC<ROIVisualizationProps> = ({
           {data.map((point, index) => (
             <circle
               key={index}
-              cx={`${(index / (data.length - 1)) * 100}%`}
+              cx={`${x(index)}%`}
               cy={((maxValue - point.value) / range) * (height - 20) + 10}
               r="4"
               fill={color}
@@ -205,7 +211,7 @@ export const ROIVisualization: React.FC<ROIVisualizationProps> = ({
       height,
       backgroundColor: theme === 'dark' ? COLORS.github.dark : COLORS.github.light,
       color: theme === 'dark' ? COLORS.github.light : COLORS.github.dark,
-      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif',
+      fontFamily: fontStacks.dashboard,
       padding: containerPadding,
       display: 'flex',
       flexDirection: 'column',
@@ -225,7 +231,8 @@ export const ROIVisualization: React.FC<ROIVisualizationProps> = ({
             fontWeight: 700,
             margin: 0,
             marginBottom: 8,
-            color: COLORS.github.green,
+            color: brandColor('primary', COLORS.github.green),
+            fontFamily: fontStacks.dashboardHeading,
           }}>
             ROI Business Impact
           </h1>
@@ -494,13 +501,13 @@ export const ROIVisualization: React.FC<ROIVisualizationProps> = ({
                       overflow: 'hidden',
                     }}>
                       <div style={{
-                        width: `${(data.resourceAllocation.hoursSpentDevelopment / data.resourceAllocation.totalHoursAllocated) * 100 * chartsAnimation}%`,
+                        width: `${timeShare(data.resourceAllocation.hoursSpentDevelopment) * chartsAnimation}%`,
                         height: '100%',
                         backgroundColor: COLORS.github.green,
                       }} />
                     </div>
                     <span style={{ fontSize: MOBILE_OPTIMIZED.minFontSize - 4, minWidth: 40, textAlign: 'right' }}>
-                      {Math.round((data.resourceAllocation.hoursSpentDevelopment / data.resourceAllocation.totalHoursAllocated) * 100)}%
+                      {Math.round(timeShare(data.resourceAllocation.hoursSpentDevelopment))}%
                     </span>
                   </div>
                 </div>
@@ -515,13 +522,13 @@ export const ROIVisualization: React.FC<ROIVisualizationProps> = ({
                       overflow: 'hidden',
                     }}>
                       <div style={{
-                        width: `${(data.resourceAllocation.hoursSpentMaintenance / data.resourceAllocation.totalHoursAllocated) * 100 * chartsAnimation}%`,
+                        width: `${timeShare(data.resourceAllocation.hoursSpentMaintenance) * chartsAnimation}%`,
                         height: '100%',
                         backgroundColor: COLORS.github.orange,
                       }} />
                     </div>
                     <span style={{ fontSize: MOBILE_OPTIMIZED.minFontSize - 4, minWidth: 40, textAlign: 'right' }}>
-                      {Math.round((data.resourceAllocation.hoursSpentMaintenance / data.resourceAllocation.totalHoursAllocated) * 100)}%
+                      {Math.round(timeShare(data.resourceAllocation.hoursSpentMaintenance))}%
                     </span>
                   </div>
                 </div>
@@ -536,13 +543,13 @@ export const ROIVisualization: React.FC<ROIVisualizationProps> = ({
                       overflow: 'hidden',
                     }}>
                       <div style={{
-                        width: `${(data.resourceAllocation.hoursSpentBugFixes / data.resourceAllocation.totalHoursAllocated) * 100 * chartsAnimation}%`,
+                        width: `${timeShare(data.resourceAllocation.hoursSpentBugFixes) * chartsAnimation}%`,
                         height: '100%',
                         backgroundColor: COLORS.github.red,
                       }} />
                     </div>
                     <span style={{ fontSize: MOBILE_OPTIMIZED.minFontSize - 4, minWidth: 40, textAlign: 'right' }}>
-                      {Math.round((data.resourceAllocation.hoursSpentBugFixes / data.resourceAllocation.totalHoursAllocated) * 100)}%
+                      {Math.round(timeShare(data.resourceAllocation.hoursSpentBugFixes))}%
                     </span>
                   </div>
                 </div>
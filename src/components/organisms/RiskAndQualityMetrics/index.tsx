@@ -1,5 +1,6 @@
 import React from 'react';
 import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
+import { brandColor, fontStacks } from '../../../theme/cssVariables';
 import { RiskAndQualityMetricsProps } from './types';
 
 // GitHub-inspired color palette
@@ -158,9 +159,10 @@ export const RiskAndQualityMetrics: React.FC<RiskAndQualityMetricsProps> = ({
             strokeWidth="20"
           />
           {data.map((item, index) => {
-            const strokeDasharray = `${(item.value / total) * 2 * Math.PI * (size / 2 - 10)} ${2 * Math.PI * (size / 2 - 10)}`;
+            const share = total > 0 ? item.value / total : 0;
+            const strokeDasharray = `${share * 2 * Math.PI * (size / 2 - 10)} ${2 * Math.PI * (size / 2 - 10)}`;
             const strokeDashoffset = -cumulativePercentage * 2 * Math.PI * (size / 2 - 10);
-            cumulativePercentage += item.value / total;
+            cumulativePercentage += share;
             
             return (
               <circle
@@ -204,7 +206,7 @@ export const RiskAndQualityMetrics: React.FC<RiskAndQualityMetricsProps> = ({
       height,
       backgroundColor: theme === 'dark' ? COLORS.github.dark : COLORS.github.light,
       color: theme === 'dark' ? COLORS.github.light : COLORS.github.dark,
-      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif',
+      fontFamily: fontStacks.dashboard,
       padding: containerPadding,
       display: 'flex',
       flexDirection: 'column',
@@ -224,7 +226,8 @@ export const RiskAndQualityMetrics: React.FC<RiskAndQualityMetricsProps> = ({
             fontWeight: 700,
             margin: 0,
             marginBottom: 8,
-            color: COLORS.github.red,
+            color: brandColor('primary', COLORS.github.red),
+            fontFamily: fontStacks.dashboardHeading,
           }}>
             Risk & Quality Assessment
           </h1>
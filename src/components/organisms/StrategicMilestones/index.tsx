@@ -1,5 +1,6 @@
 import React from 'react';
 import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
+import { brandColor, fontStacks } from '../../../theme/cssVariables';
 import { StrategicMilestonesProps, Milestone } from './types';
 
 // GitHub-inspired color palette
@@ -151,7 +152,7 @@ export const StrategicMilestones: React.FC<StrategicMilestonesProps> = ({
       height,
       backgroundColor: theme === 'dark' ? COLORS.github.dark : COLORS.github.light,
       color: theme === 'dark' ? COLORS.github.light : COLORS.github.dark,
-      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif',
+      fontFamily: fontStacks.dashboard,
       padding: containerPadding,
       display: 'flex',
       flexDirection: 'column',
@@ -167,7 +168,8 @@ export const StrategicMilestones: React.FC<StrategicMilestonesProps> = ({
           fontWeight: 700,
           margin: 0,
           marginBottom: 8,
-          color: COLORS.github.purple,
+          color: brandColor('primary', COLORS.github.purple),
+          fontFamily: fontStacks.dashboardHeading,
         }}>
           Strategic Milestones
         </h1>
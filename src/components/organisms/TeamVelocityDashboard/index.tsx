@@ -1,5 +1,6 @@
 import React from 'react';
 import { interpolate, spring, useCurrentFrame, useVideoConfig } from 'remotion';
+import { brandColor, fontStacks } from '../../../theme/cssVariables';
 import { TeamVelocityDashboardProps } from './types';
 
 // GitHub-inspired color palette
@@ -110,7 +111,7 @@ export const TeamVelocityDashboard: React.FC<TeamVelocityDashboardProps> = ({
           <div style={{
             width: '100%',
             maxWidth: 20,
-            height: Math.max(4, (item.value / maxValue) * 50),
+            height: Math.max(4, maxValue > 0 ? (item.value / maxValue) * 50 : 0),
             backgroundColor: color,
             borderRadius: 2,
             transform: `scaleY(${chartsAnimation})`,
@@ -130,7 +131,7 @@ export const TeamVelocityDashboard: React.FC<TeamVelocityDashboardProps> = ({
       height,
       backgroundColor: theme === 'dark' ? COLORS.github.dark : COLORS.github.light,
       color: theme === 'dark' ? COLORS.github.light : COLORS.github.dark,
-      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif',
+      fontFamily: fontStacks.dashboard,
       padding: containerPadding,
       display: 'flex',
       flexDirection: 'column',
@@ -150,7 +151,8 @@ export const TeamVelocityDashboard: React.FC<TeamVelocityDashboardProps> = ({
             fontWeight: 700,
             margin: 0,
             marginBottom: 8,
-            color: COLORS.github.blue,
+            color: brandColor('primary', COLORS.github.blue),
+            fontFamily: fontStacks.dashboardHeading,
           }}>
             Team Velocity Dashboard
           </h1>
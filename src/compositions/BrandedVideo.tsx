@@ -0,0 +1,60 @@
+/**
+ * Brand kit wrapper for the PR and release compositions: plays the kit's intro bumper, then the video with the
+ * kit's fonts, colors and watermark, then its outro bumper
+ * calculateMetadata adds the bumpers' seconds, so the wrapped video keeps its scheduled length
+ * `BrandBumperVideo` plays one bumper on its own, to preview a kit
+ */
+
+import React from 'react';
+import { AbsoluteFill, Sequence, useVideoConfig } from 'remotion';
+import { BrandBumper } from '../components/molecules/BrandBumper';
+import { BrandFrame } from '../components/molecules/BrandFrame';
+import { BrandWatermark } from '../components/atoms/BrandWatermark';
+import { bumperSeconds } from '../brand/style';
+import { BrandKit } from '../brand/types';
+import { BrandBumperVideoProps } from './prVideoMetadata';
+
+export interface BrandedVideoProps {
+  /** Children render unchanged without a kit */
+  brand?: BrandKit;
+  children: React.ReactNode;
+}
+
+export const BrandedVideo: React.FC<BrandedVideoProps> = ({ brand, children }) => {
+  const { fps, durationInFrames } = useVideoConfig();
+  if (!brand) {
+    return <>{children}</>;
+  }
+
+  const seconds = bumperSeconds(brand);
+  const intro = Math.round(seconds.intro * fps);
+  const outro = Math.round(seconds.outro * fps);
+  const content = Math.max(1, durationInFrames - intro - outro);
+
+  return (
+    <BrandFrame brand={brand} watermark={false}>
+      <AbsoluteFill>
+        {intro > 0 && (
+          <Sequence durationInFrames={intro} name="Brand intro">
+            <BrandBumper brand={brand} kind="intro" />
+          </Sequence>
+        )}
+        <Sequence from={intro} durationInFrames={content} name="Content">
+          {children}
+          <BrandWatermark brand={brand} />
+        </Sequence>
+        {outro > 0 && (
+          <Sequence from={intro + content} durationInFrames={outro} name="Brand outro">
+            <BrandBumper brand={brand} kind="outro" />
+          </Sequence>
+        )}
+      </AbsoluteFill>
+    </BrandFrame>
+  );
+};
+
+export const BrandBumperVideo: React.FC<BrandBumperVideoProps> = ({ brand, kind }) => (
+  <BrandFrame brand={brand} watermark={false}>
+    <BrandBumper brand={brand} kind={kind} />
+  </BrandFrame>
+);
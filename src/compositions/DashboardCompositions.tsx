@@ -0,0 +1,64 @@
+/**
+ * Registered dashboard compositions: each leadership organism inside a `BrandFrame` when a brand kit is given
+ * Dashboards play no bumpers; the frame loads the kit's fonts, sets its font and accent color CSS variables and
+ * stamps its watermark
+ */
+
+import React from 'react';
+import { brandKitSchema } from '../brand/schema';
+import { BrandKit } from '../brand/types';
+import { BrandFrame } from '../components/molecules/BrandFrame';
+import { ExecutiveImpactSummary } from '../components/organisms/ExecutiveImpactSummary';
+import {
+  ExecutiveImpactSummaryProps,
+  ExecutiveImpactSummarySchema,
+} from '../components/organisms/ExecutiveImpactSummary/types';
+import { RiskAndQualityMetrics } from '../components/organisms/RiskAndQualityMetrics';
+import { RiskAndQualityMetricsProps, RiskAndQualityMetricsSchema } from '../components/organisms/RiskAndQualityMetrics/types';
+import { ROIVisualization } from '../components/organisms/ROIVisualization';
+import { ROIVisualizationProps, ROIVisualizationSchema } from '../components/organisms/ROIVisualization/types';
+import { StrategicMilestones } from '../components/organisms/StrategicMilestones';
+import { StrategicMilestonesProps, StrategicMilestonesSchema } from '../components/organisms/StrategicMilestones/types';
+import { TeamVelocityDashboard } from '../components/organisms/TeamVelocityDashboard';
+import { TeamVelocityDashboardProps, TeamVelocityDashboardSchema } from '../components/organisms/TeamVelocityDashboard/types';
+
+/** Brand kit with public-relative asset paths, as staged by the dashboard command */
+type Branded<Props> = Props & { brand?: BrandKit };
+
+const brandProp = { brand: brandKitSchema.optional() };
+
+export const ExecutiveImpactSummaryVideoSchema = ExecutiveImpactSummarySchema.extend(brandProp);
+export const TeamVelocityDashboardVideoSchema = TeamVelocityDashboardSchema.extend(brandProp);
+export const StrategicMilestonesVideoSchema = StrategicMilestonesSchema.extend(brandProp);
+export const RiskAndQualityMetricsVideoSchema = RiskAndQualityMetricsSchema.extend(brandProp);
+export const ROIVisualizationVideoSchema = ROIVisualizationSchema.extend(brandProp);
+
+export const ExecutiveImpactSummaryVideo: React.FC<Branded<ExecutiveImpactSummaryProps>> = ({ brand, ...props }) => (
+  <BrandFrame brand={brand}>
+    <ExecutiveImpactSummary {...props} />
+  </BrandFrame>
+);
+
+export const TeamVelocityDashboardVideo: React.FC<Branded<TeamVelocityDashboardProps>> = ({ brand, ...props }) => (
+  <BrandFrame brand={brand}>
+    <TeamVelocityDashboard {...props} />
+  </BrandFrame>
+);
+
+export const StrategicMilestonesVideo: React.FC<Branded<StrategicMilestonesProps>> = ({ brand, ...props }) => (
+  <BrandFrame brand={brand}>
+    <StrategicMilestones {...props} />
+  </BrandFrame>
+);
+
+export const RiskAndQualityMetricsVideo: React.FC<Branded<RiskAndQualityMetricsProps>> = ({ brand, ...props }) => (
+  <BrandFrame brand={brand}>
+    <RiskAndQualityMetrics {...props} />
+  </BrandFrame>
+);
+
+export const ROIVisualizationVideo: React.FC<Branded<ROIVisualizationProps>> = ({ brand, ...props }) => (
+  <BrandFrame brand={brand}>
+    <ROIVisualization {...props} />
+  </BrandFrame>
+);
@@ -2,31 +2,70 @@ import React from 'react';
 import { useVideoConfig, AbsoluteFill, Sequence } from 'remotion';
 import { PRHeader } from '../components/molecules/pr/PRHeader';
 import { CommitCard } from '../components/molecules/pr/CommitCard';
+import { QualityGates } from '../components/molecules/pr/QualityGates';
 import { DiffRevealAnimation } from '../components/molecules/pr/code/DiffRevealAnimation';
 import { processGitHubFile } from '../components/molecules/pr/code/utils/diffProcessor';
+import { BrandKit } from '../brand/types';
+import { QualityGatesScene, VideoMetadata, VideoSceneData } from '../github/transformer';
 import { PRVideoData } from '../github/types';
-import { VideoMetadata, VideoScript } from '../video/scripts/types';
+import { fontStacks } from '../theme/cssVariables';
+import { themeColors } from '../theme/registry';
+import { buildCaptions } from '../video/captions';
+import { ScriptSection, VideoScript } from '../video/scripts/types';
+import { BrandedVideo } from './BrandedVideo';
+import { executiveSceneRegistry } from './scenes';
+import { ScriptDrivenVideo } from './ScriptDrivenVideo';
 
 interface PRVideoCompositionProps {
   prData: PRVideoData;
   metadata: VideoMetadata;
   script: VideoScript;
   title?: string;
+  /** Burn the narration in as captions */
+  burnCaptions?: boolean;
+  /** Brand kit with public-relative asset paths, as staged by the CLI */
+  brand?: BrandKit;
 }
 
+const TECHNICAL_FONT = '"JetBrains Mono", "SF Mono", Monaco, "Cascadia Code", monospace';
+
+/**
+ * Whether the script has sections to lay out; previews without a generated script fall back to the fixed layouts
+ */
+const hasScript = (script?: VideoScript) => Boolean(script?.sections?.length);
+
+/**
+ * Captions for the overlay, built the same way as the exported .srt/.vtt files
+ */
+const scriptCaptions = (script: VideoScript, burnCaptions?: boolean) =>
+  burnCaptions ? buildCaptions(script) : undefined;
+
+/**
+ * Quality gates scene from the transformer, if CI reported anything for the head commit
+ */
+const findQualityGates = (metadata: VideoMetadata) =>
+  metadata.scenes.find((scene: VideoSceneData) => scene.type === 'qualityGates') as
+    | { duration: number; data: QualityGatesScene }
+    | undefined;
+
 // Summary Video Composition (2-3 minutes)
-export const PRSummaryVideo: React.FC<PRVideoCompositionProps> = ({
+const SummaryVideo: React.FC<PRVideoCompositionProps> = ({
   prData,
   metadata,
   script,
+  burnCaptions,
 }) => {
   const { fps } = useVideoConfig();
 
+  if (hasScript(script)) {
+    return <ScriptDrivenVideo prData={prData} metadata={metadata} script={script} captions={scriptCaptions(script, burnCaptions)} />;
+  }
+
   return (
     <AbsoluteFill
       style={{
         backgroundColor: metadata.theme.backgroundColor,
-        fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+        fontFamily: fontStacks.body,
       }}
     >
       {/* PR Header - First 4 seconds */}
@@ -210,18 +249,25 @@ export const PRSummaryVideo: React.FC<PRVideoCompositionProps> = ({
 };
 
 // Detailed Video Composition (5-7 minutes)
-export const PRDetailedVideo: React.FC<PRVideoCompositionProps> = ({
+const DetailedVideo: React.FC<PRVideoCompositionProps> = ({
   prData,
   metadata,
   script,
+  burnCaptions,
 }) => {
   const { fps } = useVideoConfig();
 
+  if (hasScript(script)) {
+    return <ScriptDrivenVideo prData={prData} metadata={metadata} script={script} captions={scriptCaptions(script, burnCaptions)} />;
+  }
+  const qualityGates = findQualityGates(metadata);
+  const contentStart = 3 + (qualityGates?.duration || 0);
+
   return (
     <AbsoluteFill
       style={{
         backgroundColor: metadata.theme.backgroundColor,
-        fontFamily: '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif',
+        fontFamily: fontStacks.body,
       }}
     >
       {/* Header */}
@@ -245,11 +291,27 @@ export const PRDetailedVideo: React.FC<PRVideoCompositionProps> = ({
         </AbsoluteFill>
       </Sequence>
 
+      {/* CI Quality Gates */}
+      {qualityGates && (
+        <Sequence from={3 * fps} durationInFrames={qualityGates.duration * fps}>
+          <AbsoluteFill
+            style={{
+              display: 'flex',
+              justifyContent: 'center',
+              alignItems: 'center',
+              padding: '60px',
+            }}
+          >
+            <QualityGates gates={qualityGates.data} animationDelay={0} />
+          </AbsoluteFill>
+        </Sequence>
+      )}
+
       {/* All Commits */}
       {prData.commits.map((commit, index) => (
         <Sequence
           key={commit.sha}
-          from={(3 + index * 2) * fps}
+          from={(contentStart + index * 2) * fps}
           durationInFrames={2 * fps}
         >
           <AbsoluteFill
@@ -278,11 +340,12 @@ export const PRDetailedVideo: React.FC<PRVideoCompositionProps> = ({
         return (
           <Sequence
             key={file.filename}
-            from={(3 + prData.commits.length * 2 + index * 3) * fps}
+            from={(contentStart + prData.commits.length * 2 + index * 3) * fps}
             durationInFrames={3 * fps}
           >
             <DiffRevealAnimation
               diff={diff}
+              theme={themeColors(metadata.theme)}
               startFrame={0}
               durationFrames={3 * fps}
               showLineNumbers={true}
@@ -297,18 +360,33 @@ export const PRDetailedVideo: React.FC<PRVideoCompositionProps> = ({
 };
 
 // Technical Video Composition (8-12 minutes)
-export const PRTechnicalVideo: React.FC<PRVideoCompositionProps> = ({
+const TechnicalVideo: React.FC<PRVideoCompositionProps> = ({
   prData,
   metadata,
   script,
+  burnCaptions,
 }) => {
   const { fps } = useVideoConfig();
 
+  if (hasScript(script)) {
+    return (
+      <ScriptDrivenVideo
+        prData={prData}
+        metadata={metadata}
+        script={script}
+        fontFamily={TECHNICAL_FONT}
+        captions={scriptCaptions(script, burnCaptions)}
+      />
+    );
+  }
+  const qualityGates = findQualityGates(metadata);
+  const contentStart = 2 + (qualityGates?.duration || 0);
+
   return (
     <AbsoluteFill
       style={{
         backgroundColor: metadata.theme.backgroundColor,
-        fontFamily: '"JetBrains Mono", "SF Mono", Monaco, "Cascadia Code", monospace',
+        fontFamily: TECHNICAL_FONT,
       }}
     >
       {/* Technical Header */}
@@ -343,6 +421,22 @@ export const PRTechnicalVideo: React.FC<PRVideoCompositionProps> = ({
         </AbsoluteFill>
       </Sequence>
 
+      {/* CI Quality Gates */}
+      {qualityGates && (
+        <Sequence from={2 * fps} durationInFrames={qualityGates.duration * fps}>
+          <AbsoluteFill
+            style={{
+              display: 'flex',
+              justifyContent: 'center',
+              alignItems: 'center',
+              padding: '40px',
+            }}
+          >
+            <QualityGates gates={qualityGates.data} animationDelay={0} compact={true} />
+          </AbsoluteFill>
+        </Sequence>
+      )}
+
       {/* Detailed Code Changes */}
       {prData.files.map((file, index) => {
         const diff = processGitHubFile(file);
@@ -351,11 +445,12 @@ export const PRTechnicalVideo: React.FC<PRVideoCompositionProps> = ({
         return (
           <Sequence
             key={file.filename}
-            from={(2 + index * 4) * fps}
+            from={(contentStart + index * 4) * fps}
             durationInFrames={4 * fps}
           >
             <DiffRevealAnimation
               diff={diff}
+              theme={themeColors(metadata.theme)}
               startFrame={0}
               durationFrames={4 * fps}
               showLineNumbers={true}
@@ -368,7 +463,7 @@ export const PRTechnicalVideo: React.FC<PRVideoCompositionProps> = ({
 
       {/* Technical Summary */}
       <Sequence
-        from={(2 + prData.files.length * 4) * fps}
+        from={(contentStart + prData.files.length * 4) * fps}
         durationInFrames={3 * fps}
       >
         <AbsoluteFill
@@ -444,4 +539,91 @@ export const PRTechnicalVideo: React.FC<PRVideoCompositionProps> = ({
       </Sequence>
     </AbsoluteFill>
   );
-};
\ No newline at end of file
+};
+
+/**
+ * Preview layout of the executive brief when no script was generated: the template's sections at their preferred lengths
+ */
+const EXECUTIVE_PREVIEW: Array<Pick<ScriptSection, 'type' | 'title' | 'duration'>> = [
+  { type: 'hook', title: 'Business Outcome', duration: 5 },
+  { type: 'impact_assessment', title: 'Business Impact', duration: 12 },
+  { type: 'key_insights', title: 'Risk & Quality', duration: 12 },
+  { type: 'summary', title: 'Outcome & Time to Merge', duration: 6 },
+];
+
+// Executive Video Composition (30-60 seconds)
+const ExecutiveVideo: React.FC<PRVideoCompositionProps> = ({
+  prData,
+  metadata,
+  script,
+  burnCaptions,
+}) => {
+  const { fps } = useVideoConfig();
+
+  if (hasScript(script)) {
+    return (
+      <ScriptDrivenVideo
+        prData={prData}
+        metadata={metadata}
+        script={script}
+        registry={executiveSceneRegistry}
+        captions={scriptCaptions(script, burnCaptions)}
+      />
+    );
+  }
+
+  let start = 0;
+  return (
+    <AbsoluteFill
+      style={{
+        backgroundColor: metadata.theme.backgroundColor,
+        fontFamily: fontStacks.body,
+      }}
+    >
+      {EXECUTIVE_PREVIEW.map(preview => {
+        const section: ScriptSection = {
+          ...preview,
+          id: `preview_${preview.type}`,
+          content: '',
+          voiceover: '',
+          visualCues: [],
+          timing: { start, end: start + preview.duration },
+          priority: 'high',
+        };
+        const Scene = executiveSceneRegistry.resolveScene(preview.type);
+        start += preview.duration;
+
+        return (
+          <Sequence key={preview.type} from={section.timing.start * fps} durationInFrames={preview.duration * fps}>
+            <Scene section={section} prData={prData} metadata={metadata} durationInFrames={preview.duration * fps} />
+          </Sequence>
+        );
+      })}
+    </AbsoluteFill>
+  );
+};
+
+// Registered compositions: each layout between the brand kit's bumpers, when one is given
+export const PRSummaryVideo: React.FC<PRVideoCompositionProps> = props => (
+  <BrandedVideo brand={props.brand}>
+    <SummaryVideo {...props} />
+  </BrandedVideo>
+);
+
+export const PRDetailedVideo: React.FC<PRVideoCompositionProps> = props => (
+  <BrandedVideo brand={props.brand}>
+    <DetailedVideo {...props} />
+  </BrandedVideo>
+);
+
+export const PRTechnicalVideo: React.FC<PRVideoCompositionProps> = props => (
+  <BrandedVideo brand={props.brand}>
+    <TechnicalVideo {...props} />
+  </BrandedVideo>
+);
+
+export const PRExecutiveVideo: React.FC<PRVideoCompositionProps> = props => (
+  <BrandedVideo brand={props.brand}>
+    <ExecutiveVideo {...props} />
+  </BrandedVideo>
+);
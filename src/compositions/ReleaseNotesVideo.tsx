@@ -0,0 +1,61 @@
+/**
+ * Release-notes composition: one video for every pull request merged in a release, laid out from its
+ * chaptered script with the same scheduling, narration and captions as the PR compositions
+ */
+
+import React from 'react';
+import { AbsoluteFill, Audio, Sequence, useVideoConfig } from 'remotion';
+import { BrandKit } from '../brand/types';
+import { CaptionOverlay } from '../components/molecules/CaptionOverlay';
+import { ReleaseVideoMetadata } from '../github/releaseTransformer';
+import { buildCaptions } from '../video/captions';
+import { ReleaseScriptGenerator } from '../video/scripts/ReleaseScriptGenerator';
+import { VideoScript } from '../video/scripts/types';
+import { fontStacks } from '../theme/cssVariables';
+import { BrandedVideo } from './BrandedVideo';
+import { resolveReleaseScene } from './releaseScenes';
+import { narrationSource, scheduleScript } from './ScriptDrivenVideo';
+
+export interface ReleaseNotesVideoProps {
+  release: ReleaseVideoMetadata;
+  /** Generated from the release when absent, e.g. in Studio previews */
+  script?: VideoScript;
+  title?: string;
+  /** Burn the narration in as captions */
+  burnCaptions?: boolean;
+  /** Brand kit with public-relative asset paths, as staged by the CLI */
+  brand?: BrandKit;
+}
+
+export const ReleaseNotesVideo: React.FC<ReleaseNotesVideoProps> = props => (
+  <BrandedVideo brand={props.brand}>
+    <ReleaseVideo {...props} />
+  </BrandedVideo>
+);
+
+const ReleaseVideo: React.FC<ReleaseNotesVideoProps> = ({ release, script, burnCaptions }) => {
+  const { fps } = useVideoConfig();
+  const releaseScript = script?.sections?.length ? script : new ReleaseScriptGenerator().generate(release);
+  const captions = burnCaptions ? buildCaptions(releaseScript) : undefined;
+
+  return (
+    <AbsoluteFill
+      style={{
+        backgroundColor: release.theme.backgroundColor,
+        fontFamily: fontStacks.body,
+      }}
+    >
+      {scheduleScript(releaseScript, fps).map(({ section, from, durationInFrames }, sectionIndex) => {
+        const Scene = resolveReleaseScene(section.type);
+
+        return (
+          <Sequence key={`${section.id}-${sectionIndex}`} from={from} durationInFrames={durationInFrames} name={section.title}>
+            <Scene section={section} release={release} durationInFrames={durationInFrames} />
+            {section.narration ? <Audio src={narrationSource(section.narration.src)} /> : null}
+          </Sequence>
+        );
+      })}
+      {captions?.length ? <CaptionOverlay cues={captions} /> : null}
+    </AbsoluteFill>
+  );
+};
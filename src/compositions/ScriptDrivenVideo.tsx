@@ -0,0 +1,113 @@
+/**
+ * Scene-graph composition that lays out a VideoScript: one sequence per section at its scripted timing,
+ * with the section's visual cues and narration clip scheduled inside it
+ */
+
+import React from 'react';
+import { AbsoluteFill, Audio, Sequence, staticFile, useVideoConfig } from 'remotion';
+import { CaptionOverlay } from '../components/molecules/CaptionOverlay';
+import { PRVideoData } from '../github/types';
+import { VideoMetadata } from '../github/transformer';
+import { CaptionCue } from '../video/captions/types';
+import { ScriptSection, VideoScript, VisualCue } from '../video/scripts/types';
+import { fontStacks } from '../theme/cssVariables';
+import { SceneRegistry } from './sceneRegistry';
+import { defaultSceneRegistry } from './scenes';
+
+export interface ScheduledCue {
+  cue: VisualCue;
+  /** Frame offset from the start of the section */
+  from: number;
+  durationInFrames: number;
+}
+
+export interface ScheduledSection {
+  section: ScriptSection;
+  from: number;
+  durationInFrames: number;
+  cues: ScheduledCue[];
+}
+
+export interface ScriptDrivenVideoProps {
+  prData: PRVideoData;
+  metadata: VideoMetadata;
+  script: VideoScript;
+  registry?: SceneRegistry;
+  fontFamily?: string;
+  /** Captions burned in over every scene */
+  captions?: CaptionCue[];
+}
+
+/**
+ * Convert script timing (seconds) into frame ranges; empty sections and cues past their section's end are dropped
+ */
+export function scheduleScript(script: VideoScript, fps: number): ScheduledSection[] {
+  return script.sections.flatMap(section => {
+    const from = Math.round(section.timing.start * fps);
+    const durationInFrames = Math.round(section.timing.end * fps) - from;
+    if (durationInFrames <= 0) {
+      return [];
+    }
+
+    const cues = section.visualCues.flatMap(cue => {
+      const cueFrom = Math.max(0, Math.round(cue.timestamp * fps));
+      const cueFrames = Math.min(Math.round(cue.duration * fps), durationInFrames - cueFrom);
+      return cueFrames > 0 ? [{ cue, from: cueFrom, durationInFrames: cueFrames }] : [];
+    });
+
+    return [{ section, from, durationInFrames, cues }];
+  });
+}
+
+/**
+ * Narration clips live under the public directory unless the script points at a URL
+ */
+export function narrationSource(src: string): string {
+  return /^(https?:|data:|blob:)/.test(src) ? src : staticFile(src);
+}
+
+export const ScriptDrivenVideo: React.FC<ScriptDrivenVideoProps> = ({
+  prData,
+  metadata,
+  script,
+  registry = defaultSceneRegistry,
+  fontFamily = fontStacks.body,
+  captions,
+}) => {
+  const { fps } = useVideoConfig();
+
+  return (
+    <AbsoluteFill style={{ backgroundColor: metadata.theme.backgroundColor, fontFamily }}>
+      {scheduleScript(script, fps).map(({ section, from, durationInFrames, cues }, sectionIndex) => {
+        const Scene = registry.resolveScene(section.type);
+
+        return (
+          <Sequence key={`${section.id}-${sectionIndex}`} from={from} durationInFrames={durationInFrames} name={section.title}>
+            <Scene section={section} prData={prData} metadata={metadata} durationInFrames={durationInFrames} />
+            {section.narration ? <Audio src={narrationSource(section.narration.src)} /> : null}
+            {cues.map((scheduled, index) => {
+              const Cue = registry.resolveCue(scheduled.cue.type);
+              return Cue ? (
+                <Sequence
+                  key={index}
+                  from={scheduled.from}
+                  durationInFrames={scheduled.durationInFrames}
+                  name={scheduled.cue.description}
+                >
+                  <Cue
+                    cue={scheduled.cue}
+                    section={section}
+                    prData={prData}
+                    metadata={metadata}
+                    durationInFrames={scheduled.durationInFrames}
+                  />
+                </Sequence>
+              ) : null;
+            })}
+          </Sequence>
+        );
+      })}
+      {captions?.length ? <CaptionOverlay cues={captions} /> : null}
+    </AbsoluteFill>
+  );
+};
@@ -0,0 +1,150 @@
+/**
+ * Tests for laying out a VideoScript as a scene graph
+ */
+
+import React from 'react';
+import { render } from '@testing-library/react';
+import { ScriptDrivenVideo, scheduleScript } from '../ScriptDrivenVideo';
+import { CueProps, SceneProps, SceneRegistry } from '../sceneRegistry';
+import { VideoMetadata } from '../../github/transformer';
+import { PRVideoData } from '../../github/types';
+import { ScriptSection, VideoScript } from '../../video/scripts/types';
+
+jest.mock('remotion', () => ({
+  useCurrentFrame: () => 0,
+  useVideoConfig: () => ({ fps: 30, width: 1920, height: 1080 }),
+  interpolate: (value: number, input: number[], output: number[]) => output[0],
+  AbsoluteFill: ({ children }: { children?: React.ReactNode }) => <div>{children}</div>,
+  Sequence: ({ from, durationInFrames, name, children }: { from: number; durationInFrames: number; name?: string; children?: React.ReactNode }) => (
+    <div data-testid="sequence" data-from={from} data-duration={durationInFrames} data-name={name}>
+      {children}
+    </div>
+  ),
+  Audio: ({ src }: { src: string }) => <audio data-testid="narration" src={src} />,
+  staticFile: (file: string) => `/public/${file}`,
+}));
+
+jest.mock('../scenes', () => ({ defaultSceneRegistry: null }));
+
+const section = (type: ScriptSection['type'], start: number, end: number, visualCues: ScriptSection['visualCues'] = []): ScriptSection => ({
+  id: `section_${type}`,
+  type,
+  title: type.replace('_', ' '),
+  content: '',
+  voiceover: '',
+  visualCues,
+  duration: end - start,
+  timing: { start, end },
+  priority: 'high',
+});
+
+const script = (sections: ScriptSection[]) => ({ sections } as VideoScript);
+
+const metadata = { theme: { backgroundColor: '#000' } } as VideoMetadata;
+const prData = {} as PRVideoData;
+
+const SectionScene: React.FC<SceneProps> = ({ section, durationInFrames }) => (
+  <span data-testid="scene">{section.type}:{durationInFrames}</span>
+);
+const FallbackScene: React.FC<SceneProps> = ({ section }) => <span data-testid="scene">fallback:{section.type}</span>;
+const MetricCue: React.FC<CueProps> = ({ cue }) => <span data-testid="cue">{cue.description}</span>;
+
+const registry = new SceneRegistry(FallbackScene)
+  .registerScene('overview', SectionScene)
+  .registerScene('code_changes', SectionScene)
+  .registerCue('metric', MetricCue);
+
+describe('scheduleScript', () => {
+  it('should convert section timing and cue timestamps to frames, clipping cues to their section', () => {
+    const scheduled = scheduleScript(
+      script([
+        section('overview', 0, 4.5, [
+          { timestamp: 1, type: 'metric', description: 'stats', duration: 2 },
+          { timestamp: 4, type: 'avatar', description: 'avatars', duration: 3 },
+          { timestamp: 5, type: 'chart', description: 'too late', duration: 1 },
+        ]),
+        section('timeline', 4.5, 4.5),
+        section('code_changes', 4.5, 10),
+      ]),
+      30
+    );
+
+    expect(scheduled.map(({ section: { type }, from, durationInFrames }) => [type, from, durationInFrames])).toEqual([
+      ['overview', 0, 135],
+      ['code_changes', 135, 165],
+    ]);
+    expect(scheduled[0].cues.map(({ cue, from, durationInFrames }) => [cue.description, from, durationInFrames])).toEqual([
+      ['stats', 30, 60],
+      ['avatars', 120, 15],
+    ]);
+  });
+});
+
+describe('ScriptDrivenVideo', () => {
+  it('should mount the registered scene for each section at its scripted time', () => {
+    const { getAllByTestId } = render(
+      <ScriptDrivenVideo
+        prData={prData}
+        metadata={metadata}
+        registry={registry}
+        script={script([
+          section('overview', 0, 2, [{ timestamp: 0.5, type: 'metric', description: 'stats', duration: 1 }]),
+          section('problem_statement', 2, 5),
+          section('code_changes', 5, 9),
+        ])}
+      />
+    );
+
+    expect(getAllByTestId('scene').map(scene => scene.textContent)).toEqual([
+      'overview:60',
+      'fallback:problem_statement',
+      'code_changes:120',
+    ]);
+    expect(getAllByTestId('sequence').map(sequence => [sequence.dataset.name, sequence.dataset.from])).toEqual([
+      ['overview', '0'],
+      ['stats', '15'],
+      ['problem statement', '60'],
+      ['code changes', '150'],
+    ]);
+    expect(getAllByTestId('cue').map(cue => cue.textContent)).toEqual(['stats']);
+  });
+
+  it('should follow the script when sections are reordered or retimed', () => {
+    const { getAllByTestId } = render(
+      <ScriptDrivenVideo
+        prData={prData}
+        metadata={metadata}
+        registry={registry}
+        script={script([section('code_changes', 0, 3), section('overview', 3, 4)])}
+      />
+    );
+
+    expect(getAllByTestId('scene').map(scene => scene.textContent)).toEqual(['code_changes:90', 'overview:30']);
+  });
+
+  it('should play each section\'s narration clip from the start of its section', () => {
+    const narrated = (type: ScriptSection['type'], start: number, end: number, src: string): ScriptSection => ({
+      ...section(type, start, end),
+      narration: { src, durationInSeconds: end - start - 0.5 },
+    });
+
+    const { getAllByTestId } = render(
+      <ScriptDrivenVideo
+        prData={prData}
+        metadata={metadata}
+        registry={registry}
+        script={script([
+          narrated('overview', 0, 3, 'voiceover/overview.wav'),
+          section('problem_statement', 3, 5),
+          narrated('code_changes', 5, 9, 'https://cdn.example.com/code.wav'),
+        ])}
+      />
+    );
+
+    const clips = getAllByTestId('narration');
+    expect(clips.map(clip => [clip.closest('[data-testid="sequence"]')?.getAttribute('data-from'), clip.getAttribute('src')])).toEqual([
+      ['0', '/public/voiceover/overview.wav'],
+      ['150', 'https://cdn.example.com/code.wav'],
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for the dashboard compositions' brand frame
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { ExecutiveImpactSummaryVideo, ExecutiveImpactSummaryVideoSchema } from '../DashboardCompositions';
+import { ExecutiveImpactSummaryProps } from '../../components/organisms/ExecutiveImpactSummary/types';
+import { BrandKit } from '../../brand/types';
+
+jest.mock('remotion', () => ({
+  delayRender: jest.fn(() => 1),
+  continueRender: jest.fn(),
+  cancelRender: jest.fn(),
+  staticFile: (file: string) => `/public/${file}`,
+  AbsoluteFill: ({ children, style, ...props }: { children?: React.ReactNode; style?: React.CSSProperties }) => (
+    <div {...props} data-style={JSON.stringify(style)}>{children}</div>
+  ),
+  Img: (props: React.ImgHTMLAttributes<HTMLImageElement>) => <img {...props} />,
+}));
+
+jest.mock('../../components/organisms/ExecutiveImpactSummary', () => ({
+  ExecutiveImpactSummary: (props: Record<string, unknown>) => <span data-testid="organism">{Object.keys(props).join(',')}</span>,
+}));
+
+const brand: BrandKit = {
+  name: 'Acme',
+  logo: { src: 'https://cdn.example.com/acme.svg' },
+  fonts: [],
+  typography: {},
+  palette: { primary: '#ff5500' },
+  watermark: { position: 'bottom-right', opacity: 0.6, size: 48 },
+};
+
+const props = { data: {}, theme: 'dark' } as unknown as ExecutiveImpactSummaryProps;
+
+describe('dashboard compositions', () => {
+  it('should draw the organism inside the brand frame without passing the kit on', () => {
+    render(<ExecutiveImpactSummaryVideo {...props} brand={brand} />);
+
+    expect(screen.getByTestId('organism').textContent).toBe('data,theme');
+    expect(JSON.parse(screen.getByTestId('brand-frame').dataset.style!)).toEqual({ '--git2video-color-primary': '#ff5500' });
+    expect(screen.getByTestId('brand-watermark')).toBeTruthy();
+  });
+
+  it('should draw the organism alone without a kit', () => {
+    const { container } = render(<ExecutiveImpactSummaryVideo {...props} />);
+
+    expect(container.innerHTML).toBe('<span data-testid="organism">data,theme</span>');
+  });
+
+  it('should accept a brand kit in the input props', () => {
+    expect(ExecutiveImpactSummaryVideoSchema.shape.brand.safeParse(brand).success).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for mapping one pull request onto the executive organisms' data
+ */
+
+import { PRVideoTransformer, QualityGatesScene, VideoMetadata } from '../../github/transformer';
+import { GitHubReview, GitHubReviewComment, GitHubUser, PRVideoData } from '../../github/types';
+import { createSamplePRData } from '../../video/scripts/example';
+import { executiveImpactData, formatHours, prOutcome, prRiskScore, riskAndQualityData } from '../executiveData';
+
+const user = (login: string): GitHubUser => ({ id: login.length, login, avatar_url: `https://avatars/${login}`, html_url: '', type: 'User' });
+
+const review = (id: number, login: string, state: GitHubReview['state'], body = ''): GitHubReview => ({
+  id,
+  user: user(login),
+  body,
+  state,
+  html_url: '',
+  pull_request_url: '',
+  author_association: 'MEMBER',
+  submitted_at: '2024-01-16T14:00:00Z',
+  commit_id: 'abc',
+});
+
+const comment = (id: number, reviewId: number): GitHubReviewComment => ({
+  id,
+  pull_request_review_id: reviewId,
+  diff_hunk: '',
+  path: 'src/cache.ts',
+  commit_id: 'abc',
+  original_commit_id: 'abc',
+  user: user('tech-lead'),
+  body: 'Consider a TTL here',
+  created_at: '2024-01-16T14:00:00Z',
+  updated_at: '2024-01-16T14:00:00Z',
+  html_url: '',
+  pull_request_url: '',
+  author_association: 'MEMBER',
+});
+
+const gates = (overall: QualityGatesScene['overall'], flakyJobs: string[] = []): QualityGatesScene => ({
+  overall,
+  jobs: [],
+  passed: overall === 'passing' ? 3 : 2,
+  failed: overall === 'failing' ? 1 : 0,
+  pending: 0,
+  skipped: 0,
+  flakyJobs,
+  totalDuration: 300,
+  deployments: [],
+});
+
+const withGates = (metadata: VideoMetadata, scene: QualityGatesScene): VideoMetadata => ({
+  ...metadata,
+  scenes: [...metadata.scenes, { type: 'qualityGates', title: 'Quality Gates', duration: 5, data: scene, priority: 'high' }],
+});
+
+describe('executive data', () => {
+  let prData: PRVideoData;
+  let metadata: VideoMetadata;
+
+  beforeEach(() => {
+    prData = {
+      ...createSamplePRData(),
+      participants: [user('jane-engineer'), user('tech-lead'), user('qa-lead')],
+      reviews: [review(1, 'tech-lead', 'CHANGES_REQUESTED'), review(2, 'tech-lead', 'APPROVED'), review(3, 'qa-lead', 'APPROVED')],
+      reviewComments: [comment(10, 1), comment(11, 1), comment(12, 1)],
+    };
+    metadata = new PRVideoTransformer().transform(prData, 'executive');
+  });
+
+  it('should report the outcome, time to merge and wait for the first review', () => {
+    expect(prOutcome(prData)).toEqual({ status: 'merged', hoursToMerge: 125.5, hoursToFirstReview: 28 });
+    expect(formatHours(125.5)).toBe('5.2d');
+    expect(formatHours(28)).toBe('28h');
+    expect(formatHours(0.5)).toBe('30m');
+
+    // Dates arrive as strings in render props
+    const serialised = JSON.parse(JSON.stringify(prData)) as PRVideoData;
+    expect(prOutcome(serialised).hoursToMerge).toBe(125.5);
+
+    const open = { ...prData, pullRequest: { ...prData.pullRequest, merged: false, state: 'open' as const } };
+    expect(prOutcome(open)).toMatchObject({ status: 'open', hoursToMerge: null });
+  });
+
+  it('should raise the risk score for failing CI and missing approvals', () => {
+    const base = prRiskScore(prData, metadata);
+    expect(base).toBe(38); // 570 changed lines, 8 files, one request for changes
+
+    expect(prRiskScore(prData, withGates(metadata, gates('failing')))).toBe(base + 25);
+    const unapproved = { ...prData, reviewStats: { ...prData.reviewStats, approvals: 0 } };
+    expect(prRiskScore(unapproved, metadata)).toBe(base + 15);
+  });
+
+  it('should fill the impact summary header and team panel from the PR', () => {
+    const data = executiveImpactData(prData, metadata);
+
+    expect(data.repositoryName).toBe('company/awesome-app');
+    expect(data.repositoryDescription).toBe(prData.pullRequest.title);
+    expect(data.timeframe).toEqual({
+      startDate: '2024-01-15T10:00:00.000Z',
+      endDate: '2024-01-20T15:30:00.000Z',
+      period: 'PR #42',
+    });
+    expect(data.teamMetrics.totalMembers).toBe(3);
+    expect(data.teamMetrics.activeMembers).toBe(2);
+    expect(data.teamMetrics.topContributors.map(contributor => [contributor.name, contributor.role, contributor.contributions])).toEqual([
+      ['tech-lead', 'Reviewer', 2],
+      ['qa-lead', 'Reviewer', 1],
+      ['jane-engineer', 'Author', 0],
+    ]);
+  });
+
+  it('should fill the code review panel and recommend actions for what blocks the merge', () => {
+    const data = riskAndQualityData(prData, metadata);
+
+    expect(data.projectName).toBe('company/awesome-app #42');
+    expect(data.overallRiskScore).toBe(38);
+    expect(data.codeReviewMetrics).toMatchObject({
+      totalReviews: 3,
+      approvalRate: 67,
+      averageReviewTime: 28,
+      reviewCoverageRate: 100,
+      reviewParticipation: 67,
+      reviewDepth: { thoroughReviews: 1, quickApprovals: 2, averageCommentsPerReview: 1 },
+    });
+    expect(data.codeReviewMetrics.reviewerWorkload).toEqual([
+      { reviewerName: 'tech-lead', reviewCount: 2, averageTimePerReview: 0, approvalRate: 50 },
+      { reviewerName: 'qa-lead', reviewCount: 1, averageTimePerReview: 0, approvalRate: 100 },
+    ]);
+    expect(data.recommendations).toEqual([]);
+
+    const blocked = riskAndQualityData(
+      { ...prData, pullRequest: { ...prData.pullRequest, merged: false, state: 'open' }, reviewStats: { ...prData.reviewStats, approvals: 0 } },
+      withGates(metadata, gates('failing', ['e2e']))
+    );
+    expect(blocked.recommendations.map(recommendation => [recommendation.priority, recommendation.title])).toEqual([
+      ['immediate', 'Fix failing checks'],
+      ['high', 'Get an approving review'],
+      ['high', 'Stabilise flaky jobs'],
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for sizing the PR compositions from their input props
+ */
+
+import { calculatePRVideoMetadata, PRVideoProps, PRVideoSchema } from '../prVideoMetadata';
+
+const section = (start: number, end: number) => ({ duration: end - start, timing: { start, end } });
+
+const calculate = (props: PRVideoProps) =>
+  calculatePRVideoMetadata({
+    props,
+    defaultProps: props,
+    abortSignal: new AbortController().signal,
+    compositionId: 'PRSummaryVideo',
+    isRendering: true,
+  });
+
+describe('calculatePRVideoMetadata', () => {
+  it('should size the composition to the end of the last script section', async () => {
+    const metadata = await calculate({
+      prData: {},
+      metadata: { duration: 90 },
+      script: { sections: [section(0, 5), section(5, 42.5)] },
+    });
+
+    expect(metadata).toEqual({ durationInFrames: 1275 });
+  });
+
+  it("should fall back to the transformer's duration, and leave the registered length when neither is known", async () => {
+    expect(await calculate({ prData: {}, metadata: { duration: 12 }, script: { sections: [] } })).toEqual({
+      durationInFrames: 360,
+    });
+    expect(await calculate({ prData: {}, metadata: {}, script: undefined })).toEqual({});
+  });
+
+  it('should apply fps and resolution overrides', async () => {
+    const metadata = await calculate({
+      prData: {},
+      metadata: { duration: 10 },
+      script: { sections: [section(0, 10)] },
+      fps: 24,
+      width: 1280,
+      height: 720,
+    });
+
+    expect(metadata).toEqual({ durationInFrames: 240, fps: 24, width: 1280, height: 720 });
+  });
+
+  it("should add a brand kit's bumpers to the script's length", async () => {
+    const metadata = await calculate({
+      prData: {},
+      metadata: {},
+      script: { sections: [section(0, 10)] },
+      brand: { name: 'Acme', fonts: [], typography: {}, palette: {}, intro: { duration: 3 }, outro: { duration: 1.5 } },
+    });
+
+    expect(metadata).toEqual({ durationInFrames: 435 });
+  });
+
+  it('should reject odd resolutions in the schema', () => {
+    expect(PRVideoSchema.safeParse({ width: 1279, height: 720 }).success).toBe(false);
+    expect(PRVideoSchema.safeParse({ width: 1280, height: 720 }).success).toBe(true);
+  });
+});
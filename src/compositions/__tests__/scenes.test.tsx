@@ -0,0 +1,59 @@
+/**
+ * Tests for the scenes that show fetched lists
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { CommitsScene, FilesScene } from '../scenes';
+import { SceneProps } from '../sceneRegistry';
+import { VideoMetadata, VideoSceneData } from '../../github/transformer';
+import { PRVideoData } from '../../github/types';
+import { ScriptSection } from '../../video/scripts/types';
+
+jest.mock('remotion', () => ({
+  useCurrentFrame: () => 0,
+  useVideoConfig: () => ({ fps: 30, width: 1920, height: 1080 }),
+  interpolate: (value: number, input: number[], output: number[]) => output[0],
+  spring: () => 1,
+  AbsoluteFill: ({ children }: { children?: React.ReactNode }) => <div>{children}</div>,
+  Sequence: ({ children }: { children?: React.ReactNode }) => <div data-testid="sequence">{children}</div>,
+  staticFile: (file: string) => `/public/${file}`,
+}));
+
+jest.mock('../../components/molecules/pr/CommitCard', () => ({
+  CommitCard: ({ commit }: { commit: { sha: string } }) => <span data-testid="commit">{commit.sha}</span>,
+}));
+
+const section = { id: 'section_code_changes', type: 'code_changes', title: 'Code changes' } as ScriptSection;
+const prData = { commits: [{ sha: 'abc1234' }], files: [] } as unknown as PRVideoData;
+
+const metadata = (scenes: VideoSceneData[]) =>
+  ({ theme: { textColor: '#fff', backgroundColor: '#000' }, scenes } as unknown as VideoMetadata);
+
+const props = (scenes: VideoSceneData[]): SceneProps => ({
+  section,
+  prData,
+  metadata: metadata(scenes),
+  durationInFrames: 90,
+});
+
+describe('list scenes', () => {
+  it('should show the commits truncation note under the slides', () => {
+    render(<CommitsScene {...props([{ type: 'commits', data: { truncationNote: 'Showing 250 of 412 commits' } } as VideoSceneData])} />);
+
+    expect(screen.getByTestId('commit').textContent).toBe('abc1234');
+    expect(screen.getByText('Showing 250 of 412 commits')).toBeTruthy();
+  });
+
+  it('should show the files truncation note', () => {
+    render(<FilesScene {...props([{ type: 'files', data: { truncationNote: 'Showing 100 of 412 files' } } as VideoSceneData])} />);
+
+    expect(screen.getByText('Showing 100 of 412 files')).toBeTruthy();
+  });
+
+  it('should render no note when the list was complete', () => {
+    const { container } = render(<CommitsScene {...props([{ type: 'commits', data: {} } as VideoSceneData])} />);
+
+    expect(container.textContent).toBe('abc1234');
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Per-PR data for the executive organisms: maps one pull request onto the shapes ExecutiveImpactSummary and
+ * RiskAndQualityMetrics were built around for whole repositories
+ */
+
+import { ExecutiveImpactSummaryData } from '../components/organisms/ExecutiveImpactSummary/types';
+import { RiskAndQualityData } from '../components/organisms/RiskAndQualityMetrics/types';
+import { QualityGatesScene, VideoMetadata, VideoSceneData } from '../github/transformer';
+import { PRVideoData } from '../github/types';
+
+/**
+ * Where a pull request ended up, and how long it took to get there
+ */
+export interface PROutcome {
+  status: 'merged' | 'closed' | 'draft' | 'open';
+  /** Hours from opening to merge; null until merged */
+  hoursToMerge: number | null;
+  /** Hours from opening to the first review; null before anyone reviewed */
+  hoursToFirstReview: number | null;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Props arrive as JSON in a render, so timeline dates may be strings
+const hoursBetween = (from?: Date | string, to?: Date | string): number | null =>
+  from && to ? Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / HOUR) : null;
+
+const percentage = (part: number, whole: number): number => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+const clampScore = (score: number): number => Math.min(100, Math.max(0, Math.round(score)));
+
+const qualityGates = (metadata: VideoMetadata): QualityGatesScene | undefined =>
+  metadata.scenes.find((scene: VideoSceneData) => scene.type === 'qualityGates')?.data as QualityGatesScene | undefined;
+
+/**
+ * Outcome, time to merge and wait for the first review
+ */
+export function prOutcome(prData: PRVideoData): PROutcome {
+  const { pullRequest, timelineStats } = prData;
+  const status = pullRequest.merged ? 'merged' : pullRequest.state === 'closed' ? 'closed' : pullRequest.draft ? 'draft' : 'open';
+
+  return {
+    status,
+    hoursToMerge: pullRequest.merged ? hoursBetween(timelineStats.createdAt, timelineStats.mergedAt) : null,
+    hoursToFirstReview: hoursBetween(timelineStats.createdAt, timelineStats.firstReviewAt),
+  };
+}
+
+/**
+ * `45m`, `6h`, `2.5d`
+ */
+export function formatHours(hours: number): string {
+  if (hours < 1) {
+    return `${Math.round(hours * 60)}m`;
+  }
+  if (hours < 48) {
+    return `${Math.round(hours)}h`;
+  }
+  return `${Math.round((hours / 24) * 10) / 10}d`;
+}
+
+/**
+ * 0-100, higher is riskier: size of the change, failing or flaky CI, requested changes and the lack of approval
+ */
+export function prRiskScore(prData: PRVideoData, metadata: VideoMetadata): number {
+  const gates = qualityGates(metadata);
+  const lineChanges = prData.codeStats.totalAdditions + prData.codeStats.totalDeletions;
+
+  let risk = lineChanges > 1000 ? 35 : lineChanges > 500 ? 25 : lineChanges > 100 ? 15 : 5;
+  risk += Math.min(prData.codeStats.totalFiles, 30);
+  if (gates?.overall === 'failing') risk += 25;
+  if (gates?.overall === 'pending') risk += 10;
+  risk += Math.min((gates?.flakyJobs.length || 0) * 5, 10);
+  risk += Math.min(prData.reviewStats.changesRequested * 5, 15);
+  if (prData.reviewStats.approvals === 0) risk += 15;
+
+  return clampScore(risk);
+}
+
+/**
+ * Team panel and header of ExecutiveImpactSummary for one pull request; repository-wide panels are zeroed,
+ * so render it with only `showTeamMetrics`
+ */
+export function executiveImpactData(prData: PRVideoData, metadata: VideoMetadata): ExecutiveImpactSummaryData {
+  const { pullRequest, repository } = prData;
+  const commitAuthors = new Set(prData.commits.map(commit => commit.author?.login || commit.commit.author.name));
+  const reviewers = new Set(prData.reviews.map(review => review.user.login));
+  const closes = (prData.linkedIssues || []).filter(issue => issue.closing);
+  const related = (prData.linkedIssues || []).length - closes.length;
+  const risk = prRiskScore(prData, metadata);
+
+  const contributions = (login: string) =>
+    prData.commits.filter(commit => commit.author?.login === login).length +
+    prData.reviews.filter(review => review.user.login === login).length;
+  const role = (login: string) =>
+    login === pullRequest.user.login ? 'Author' : reviewers.has(login) ? 'Reviewer' : 'Contributor';
+  const trend = { thisWeek: 0, lastWeek: 0, trend: 'stable' as const, percentChange: 0 };
+
+  return {
+    repositoryName: repository.full_name,
+    repositoryDescription: pullRequest.title,
+    healthMetrics: {
+      stars: 0,
+      forks: 0,
+      watchers: 0,
+      contributors: prData.participants.length,
+      totalCommits: prData.commits.length,
+      totalPullRequests: 1,
+      totalIssues: closes.length + related,
+      openIssues: related,
+      closedIssues: closes.length,
+      healthScore: 100 - risk,
+    },
+    activityTrends: { commitTrend: trend, prTrend: trend, issueTrend: trend },
+    teamMetrics: {
+      totalMembers: prData.participants.length,
+      activeMembers: new Set([...Array.from(commitAuthors), ...Array.from(reviewers)]).size,
+      newMembersThisMonth: 0,
+      topContributors: prData.participants
+        .map(user => ({ name: user.name || user.login, avatar: user.avatar_url, contributions: contributions(user.login), role: role(user.login) }))
+        .sort((a, b) => b.contributions - a.contributions),
+      teamGrowthRate: 0,
+    },
+    kpis: {
+      codeQualityScore: 100 - risk,
+      deliveryVelocity: prData.commits.length,
+      customerSatisfaction: 0,
+      technicalDebtRatio: 0,
+      uptime: 0,
+      securityScore: 0,
+    },
+    timeframe: {
+      startDate: new Date(prData.timelineStats.createdAt).toISOString(),
+      endDate: new Date(prData.timelineStats.mergedAt || prData.timelineStats.lastUpdateAt).toISOString(),
+      period: `PR #${pullRequest.number}`,
+    },
+  };
+}
+
+/**
+ * Header, code review panel and recommendations of RiskAndQualityMetrics for one pull request; repository-wide
+ * panels are zeroed, so render it with only `showCodeReview`
+ */
+export function riskAndQualityData(prData: PRVideoData, metadata: VideoMetadata): RiskAndQualityData {
+  const gates = qualityGates(metadata);
+  const { approvals, changesRequested } = prData.reviewStats;
+  const { hoursToFirstReview } = prOutcome(prData);
+  const risk = prRiskScore(prData, metadata);
+
+  const commentsPerReview = new Map<number, number>();
+  prData.reviewComments.forEach(comment => {
+    if (comment.pull_request_review_id !== undefined) {
+      commentsPerReview.set(comment.pull_request_review_id, (commentsPerReview.get(comment.pull_request_review_id) || 0) + 1);
+    }
+  });
+  const reviewers = Array.from(new Set(prData.reviews.map(review => review.user.login)));
+
+  const recommendations: RiskAndQualityData['recommendations'] = [];
+  if (gates?.overall === 'failing') {
+    recommendations.push({
+      category: 'tooling',
+      priority: 'immediate',
+      title: 'Fix failing checks',
+      description: `${gates.failed} of ${gates.jobs.length} CI jobs fail on the head commit`,
+      expectedImpact: 'Unblocks the merge',
+      estimatedEffort: 'Hours',
+    });
+  }
+  if (approvals === 0 && !prData.pullRequest.merged) {
+    recommendations.push({
+      category: 'process',
+      priority: 'high',
+      title: 'Get an approving review',
+      description: changesRequested > 0 ? 'Requested changes are still open' : 'Nobody has approved this change yet',
+      expectedImpact: 'Shorter time to merge',
+      estimatedEffort: 'Under a day',
+    });
+  }
+  if (gates && gates.flakyJobs.length > 0) {
+    recommendations.push({
+      category: 'tooling',
+      priority: 'high',
+      title: 'Stabilise flaky jobs',
+      description: gates.flakyJobs.join(', '),
+      expectedImpact: 'Fewer reruns before merging',
+      estimatedEffort: 'Days',
+    });
+  }
+
+  const bucket = { count: 0, percentage: 0 };
+
+  return {
+    projectName: `${prData.repository.full_name} #${prData.pullRequest.number}`,
+    evaluationDate: new Date(prData.timelineStats.lastUpdateAt).toISOString(),
+    overallRiskScore: risk,
+    overallQualityScore: clampScore(100 - risk + Math.min(approvals * 5, 15) + (gates?.overall === 'passing' ? 10 : 0)),
+    codeReviewMetrics: {
+      totalReviews: prData.reviews.length,
+      approvalRate: percentage(approvals, approvals + changesRequested),
+      averageReviewTime: Math.round((hoursToFirstReview ?? 0) * 10) / 10,
+      reviewCoverageRate: prData.reviews.length > 0 ? 100 : 0,
+      reviewParticipation: percentage(reviewers.length, prData.participants.length),
+      reviewDepth: {
+        thoroughReviews: prData.reviews.filter(review => (commentsPerReview.get(review.id) || 0) >= 3).length,
+        quickApprovals: prData.reviews.filter(review => review.state === 'APPROVED' && !review.body && !commentsPerReview.get(review.id)).length,
+        averageCommentsPerReview: prData.reviews.length > 0 ? prData.reviewComments.length / prData.reviews.length : 0,
+      },
+      reviewerWorkload: reviewers.map(login => {
+        const reviews = prData.reviews.filter(review => review.user.login === login);
+        return {
+          reviewerName: login,
+          reviewCount: reviews.length,
+          averageTimePerReview: 0,
+          approvalRate: percentage(reviews.filter(review => review.state === 'APPROVED').length, reviews.length),
+        };
+      }),
+    },
+    issueCategorizationMetrics: {
+      totalIssues: 0,
+      categories: {
+        bugs: { ...bucket, severity: { critical: 0, high: 0, medium: 0, low: 0 }, averageResolutionTime: 0 },
+        features: { ...bucket, complexity: { complex: 0, medium: 0, simple: 0 }, averageImplementationTime: 0 },
+        technicalDebt: { ...bucket, impact: { high: 0, medium: 0, low: 0 }, estimatedEffortHours: 0 },
+        documentation: { ...bucket, averageCompletionTime: 0 },
+        maintenance: { ...bucket, averageCompletionTime: 0 },
+      },
+      trendAnalysis: { bugTrend: 'stable', technicalDebtTrend: 'stable', featureVelocityTrend: 'stable' },
+    },
+    securityMetrics: {
+      vulnerabilities: { total: 0, critical: 0, high: 0, medium: 0, low: 0 },
+      securityScans: { frequency: 'per commit', lastScanDate: '', passRate: 0, averageFixTime: 0 },
+      dependencyHealth: { totalDependencies: 0, outdatedDependencies: 0, vulnerableDependencies: 0, licenseIssues: 0 },
+      complianceScore: 0,
+      securityPractices: {
+        twoFactorAuthEnabled: false,
+        codeSigningEnabled: false,
+        secretsManagementEnabled: false,
+        automaticSecurityUpdates: false,
+      },
+    },
+    technicalDebtIndicators: {
+      overallDebtScore: 0,
+      codeComplexity: { averageCyclomaticComplexity: 0, highComplexityFiles: 0, maintainabilityIndex: 0 },
+      codeSmells: { duplicatedCode: 0, longMethods: 0, largeClasses: 0, deadCode: 0 },
+      testCoverage: { overallCoverage: 0, unitTestCoverage: 0, integrationTestCoverage: 0, missingTestFiles: 0 },
+      documentation: { codeDocumentationCoverage: 0, outdatedDocumentation: 0, missingReadmes: 0 },
+      refactoringNeeds: [],
+    },
+    qualityTrends: {
+      timeframe: `PR #${prData.pullRequest.number}`,
+      codeQualityTrend: 'stable',
+      bugIntroductionRate: [],
+      defectDensity: [],
+      reviewEffectiveness: [],
+    },
+    recommendations,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Input props schema and calculateMetadata for the PR and release video compositions, and for previewing a brand
+ * kit's bumpers on their own
+ * Sizes each render to its script (or the transformer's estimate) instead of a fixed frame count
+ */
+
+import { CalculateMetadataFunction } from 'remotion';
+import { z } from 'zod';
+import { brandKitSchema } from '../brand/schema';
+import { bumperSeconds } from '../brand/style';
+import { VideoMetadata } from '../github/transformer';
+import { VideoScript } from '../video/scripts/types';
+
+/** Frame rate the PR compositions are registered with */
+export const PR_VIDEO_FPS = 30;
+
+const evenDimension = z.number().int().positive().multipleOf(2, 'H.264 needs even dimensions');
+
+export const PRVideoSchema = z.object({
+  prData: z.any(),
+  metadata: z.any(),
+  script: z.any(),
+  title: z.string().optional(),
+  /** Burn the narration in as captions */
+  burnCaptions: z.boolean().optional(),
+  /** Overrides the registered 30 fps */
+  fps: z.number().int().positive().optional(),
+  /** Override the registered 1920x1080 */
+  width: evenDimension.optional(),
+  height: evenDimension.optional(),
+  /** Brand kit with public-relative asset paths; its bumpers lengthen the video */
+  brand: brandKitSchema.optional(),
+});
+
+export type PRVideoProps = z.infer<typeof PRVideoSchema>;
+
+/**
+ * Props of the release-notes composition: the release metadata takes the place of one PR's data
+ */
+export const ReleaseVideoSchema = PRVideoSchema.omit({ prData: true, metadata: true }).extend({
+  release: z.any(),
+});
+
+export type ReleaseVideoProps = z.infer<typeof ReleaseVideoSchema>;
+
+/**
+ * Seconds covered by the script: the end of its last section, or the sum of section durations when untimed
+ */
+export function scriptDurationInSeconds(script?: Pick<VideoScript, 'sections'> | null): number {
+  const sections = script?.sections || [];
+  const end = Math.max(0, ...sections.map(section => section.timing?.end || 0));
+  return end > 0 ? end : sections.reduce((total, section) => total + (section.duration || 0), 0);
+}
+
+/**
+ * Seconds the composition should run: the script's length, else the transformer's estimate
+ */
+export function prVideoDurationInSeconds(props: Pick<PRVideoProps, 'script' | 'metadata'>): number | null {
+  const fromScript = scriptDurationInSeconds(props.script as VideoScript | undefined);
+  if (fromScript > 0) {
+    return fromScript;
+  }
+  const estimate = (props.metadata as VideoMetadata | undefined)?.duration;
+  return estimate && estimate > 0 ? estimate : null;
+}
+
+/**
+ * Duration, fps and resolution from the input props; anything left out keeps the registered value. A brand kit's
+ * bumpers play on top of the script's length
+ */
+export const calculatePRVideoMetadata: CalculateMetadataFunction<PRVideoProps> = ({ props }) =>
+  videoMetadata(props, prVideoDurationInSeconds(props));
+
+/**
+ * Duration from the release script, fps and resolution from the input props; without a script the
+ * composition previews at its registered length
+ */
+export const calculateReleaseVideoMetadata: CalculateMetadataFunction<ReleaseVideoProps> = ({ props }) => {
+  const seconds = scriptDurationInSeconds(props.script as VideoScript | undefined);
+  return videoMetadata(props, seconds > 0 ? seconds : null);
+};
+
+/**
+ * Props of the brand bumper composition: one of a kit's bumpers on its own
+ */
+export const BrandBumperSchema = z.object({
+  brand: brandKitSchema,
+  kind: z.enum(['intro', 'outro']),
+  fps: z.number().int().positive().optional(),
+  width: evenDimension.optional(),
+  height: evenDimension.optional(),
+});
+
+export type BrandBumperVideoProps = z.infer<typeof BrandBumperSchema>;
+
+/**
+ * Duration from the bumper's length; a kit without that bumper previews at the registered length
+ */
+export const calculateBrandBumperMetadata: CalculateMetadataFunction<BrandBumperVideoProps> = ({ props }) => {
+  const seconds = bumperSeconds(props.brand)[props.kind];
+  return videoMetadata(props, seconds > 0 ? seconds : null);
+};
+
+function videoMetadata(props: Pick<PRVideoProps, 'fps' | 'width' | 'height' | 'brand'>, seconds: number | null) {
+  const fps = props.fps || PR_VIDEO_FPS;
+  const bumpers = bumperSeconds(props.brand);
+  const bumperFrames = Math.round(bumpers.intro * fps) + Math.round(bumpers.outro * fps);
+
+  return {
+    ...(seconds !== null ? { durationInFrames: Math.max(1, Math.ceil(seconds * fps) + bumperFrames) } : {}),
+    ...(props.fps ? { fps: props.fps } : {}),
+    ...(props.width ? { width: props.width } : {}),
+    ...(props.height ? { height: props.height } : {}),
+  };
+}
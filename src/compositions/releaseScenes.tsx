@@ -0,0 +1,199 @@
+/**
+ * Scenes for the release-notes composition: intro, one chapter per category of change, contributor roll call
+ * and outro. They read the release metadata and their section's data rather than a single pull request.
+ */
+
+import React from 'react';
+import { AbsoluteFill, interpolate, useCurrentFrame } from 'remotion';
+import { ContributorAvatar } from '../components/atoms/pr/ContributorAvatar';
+import { MetricBadge } from '../components/atoms/pr/MetricBadge';
+import { ReleaseCategory, ReleaseHighlight, ReleaseVideoMetadata } from '../github/releaseTransformer';
+import { ReleaseChapterData, ReleaseRollCallData } from '../video/scripts/ReleaseScriptGenerator';
+import { ScriptSection, ScriptSectionType } from '../video/scripts/types';
+
+export interface ReleaseSceneProps {
+  section: ScriptSection;
+  release: ReleaseVideoMetadata;
+  /** Length of the section's sequence; frames inside a scene count from 0 */
+  durationInFrames: number;
+}
+
+export type ReleaseSceneComponent = React.ComponentType<ReleaseSceneProps>;
+
+const CATEGORY_COLORS: Record<ReleaseCategory, string> = {
+  features: '#2DA44E',
+  fixes: '#CF222E',
+  chores: '#8250DF',
+};
+
+const centered: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  justifyContent: 'center',
+  alignItems: 'center',
+  padding: '60px',
+  gap: '40px',
+};
+
+// Props arrive as JSON in a render, so format dates from their ISO strings without a locale
+const formatDay = (iso: string) => iso.slice(0, 10);
+
+/**
+ * Opacity rising from 0 to 1 over half a second starting at `from`
+ */
+const useFadeIn = (from: number) => {
+  const frame = useCurrentFrame();
+  return interpolate(frame, [from, from + 15], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
+};
+
+export const ReleaseTitleScene: React.FC<ReleaseSceneProps> = ({ section, release }) => (
+  <AbsoluteFill style={centered}>
+    <div style={{ fontSize: '56px', fontWeight: 'bold', color: release.theme.textColor, textAlign: 'center' }}>
+      {section.title}
+    </div>
+  </AbsoluteFill>
+);
+
+export const ReleaseIntroScene: React.FC<ReleaseSceneProps> = ({ release }) => (
+  <AbsoluteFill style={centered}>
+    <div style={{ fontSize: '32px', color: release.theme.textColor, opacity: 0.7 }}>{release.repository}</div>
+    <div data-testid="release-name" style={{ fontSize: '96px', fontWeight: 'bold', color: release.theme.primaryColor }}>
+      {release.name}
+    </div>
+    {release.period && (
+      <div style={{ fontSize: '28px', color: release.theme.textColor, opacity: 0.7 }}>
+        {formatDay(release.period.from)} – {formatDay(release.period.to)}
+      </div>
+    )}
+    <div style={{ display: 'flex', gap: '24px' }}>
+      <MetricBadge value={release.keyMetrics.pullRequests} label="Pull Requests" type="info" size="large" />
+      <MetricBadge value={release.keyMetrics.contributors} label="Contributors" type="info" size="large" />
+      <MetricBadge value={release.keyMetrics.additions} label="Additions" type="success" size="large" />
+      <MetricBadge value={release.keyMetrics.deletions} label="Deletions" type="error" size="large" />
+      {release.keyMetrics.closedIssues > 0 && (
+        <MetricBadge value={release.keyMetrics.closedIssues} label="Issues Closed" type="success" size="large" />
+      )}
+    </div>
+  </AbsoluteFill>
+);
+
+const HighlightCard: React.FC<{ highlight: ReleaseHighlight; release: ReleaseVideoMetadata; color: string; from: number }> = ({
+  highlight,
+  release,
+  color,
+  from,
+}) => (
+  <div
+    data-testid="release-highlight"
+    style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '24px',
+      padding: '20px 28px',
+      borderLeft: `6px solid ${color}`,
+      color: release.theme.textColor,
+      opacity: useFadeIn(from),
+    }}
+  >
+    <ContributorAvatar user={highlight.author} size="medium" />
+    <div style={{ flex: 1 }}>
+      <div style={{ fontSize: '34px', fontWeight: 'bold' }}>
+        <span style={{ color }}>#{highlight.number}</span> {highlight.title}
+      </div>
+      <div style={{ fontSize: '22px', opacity: 0.7, marginTop: '6px' }}>
+        {highlight.author.login} • +{highlight.additions} −{highlight.deletions}
+        {highlight.closes.length > 0 ? ` • closes ${highlight.closes.join(', ')}` : ''}
+      </div>
+    </div>
+  </div>
+);
+
+/**
+ * Chapter title, then its highlighted pull requests one after another; the rest are counted in a footer
+ */
+export const ReleaseChapterScene: React.FC<ReleaseSceneProps> = ({ section, release, durationInFrames }) => {
+  const { chapter, highlights, remaining } = section.data as ReleaseChapterData;
+  const color = CATEGORY_COLORS[chapter];
+  // The title holds the first slot, each highlight enters at the start of its own
+  const slotFrames = durationInFrames / (highlights.length + 1);
+
+  return (
+    <AbsoluteFill style={{ ...centered, alignItems: 'stretch', gap: '24px', padding: '80px 160px' }}>
+      <div data-testid="release-chapter" style={{ fontSize: '64px', fontWeight: 'bold', color }}>
+        {section.title}
+      </div>
+      {highlights.map((highlight, index) => (
+        <HighlightCard
+          key={highlight.number}
+          highlight={highlight}
+          release={release}
+          color={color}
+          from={Math.round(slotFrames * (index + 1)) - 15}
+        />
+      ))}
+      {remaining > 0 && (
+        <div style={{ fontSize: '28px', color: release.theme.textColor, opacity: 0.7 }}>
+          + {remaining} more
+        </div>
+      )}
+    </AbsoluteFill>
+  );
+};
+
+/**
+ * Every contributor's avatar and login, appearing in turn across the first half of the scene
+ */
+export const ReleaseRollCallScene: React.FC<ReleaseSceneProps> = ({ section, release, durationInFrames }) => {
+  const { contributors } = section.data as ReleaseRollCallData;
+  const frame = useCurrentFrame();
+  const stagger = durationInFrames / 2 / Math.max(contributors.length, 1);
+
+  return (
+    <AbsoluteFill style={centered}>
+      <div style={{ fontSize: '56px', fontWeight: 'bold', color: release.theme.textColor }}>{section.title}</div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '32px', maxWidth: '1600px' }}>
+        {contributors.map((contributor, index) => (
+          <div
+            key={contributor.user.login}
+            data-testid="release-contributor"
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              gap: '8px',
+              width: '160px',
+              opacity: interpolate(frame, [index * stagger, index * stagger + 10], [0, 1], {
+                extrapolateLeft: 'clamp',
+                extrapolateRight: 'clamp',
+              }),
+            }}
+          >
+            <ContributorAvatar user={contributor.user} size="large" />
+            <div style={{ fontSize: '22px', color: release.theme.textColor }}>{contributor.user.login}</div>
+          </div>
+        ))}
+      </div>
+    </AbsoluteFill>
+  );
+};
+
+export const ReleaseOutroScene: React.FC<ReleaseSceneProps> = ({ release }) => (
+  <AbsoluteFill style={{ ...centered, gap: '20px' }}>
+    <div style={{ fontSize: '64px', fontWeight: 'bold', color: release.theme.textColor }}>🚀 {release.name}</div>
+    <div style={{ fontSize: '32px', color: release.theme.textColor, opacity: 0.8 }}>{release.repository}</div>
+  </AbsoluteFill>
+);
+
+const RELEASE_SCENES: Partial<Record<ScriptSectionType, ReleaseSceneComponent>> = {
+  intro: ReleaseIntroScene,
+  overview: ReleaseChapterScene,
+  collaboration: ReleaseRollCallScene,
+  outro: ReleaseOutroScene,
+};
+
+/**
+ * Component for a release script section; other section types get a title card
+ */
+export function resolveReleaseScene(type: ScriptSectionType): ReleaseSceneComponent {
+  return RELEASE_SCENES[type] || ReleaseTitleScene;
+}
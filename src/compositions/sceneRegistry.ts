@@ -0,0 +1,72 @@
+/**
+ * Registry mapping script section types and visual cue types to the components that render them
+ */
+
+import React from 'react';
+import { PRVideoData } from '../github/types';
+import { VideoMetadata } from '../github/transformer';
+import { ScriptSection, ScriptSectionType, VisualCue } from '../video/scripts/types';
+
+export interface SceneProps {
+  section: ScriptSection;
+  prData: PRVideoData;
+  metadata: VideoMetadata;
+  /** Length of the section's sequence; frames inside a scene count from 0 */
+  durationInFrames: number;
+}
+
+export interface CueProps extends Omit<SceneProps, 'durationInFrames'> {
+  cue: VisualCue;
+  /** Length of the cue's sequence, already clipped to the end of its section */
+  durationInFrames: number;
+}
+
+export type SceneComponent = React.ComponentType<SceneProps>;
+export type CueComponent = React.ComponentType<CueProps>;
+
+export class SceneRegistry {
+  private scenes = new Map<ScriptSectionType, SceneComponent>();
+  private cues = new Map<VisualCue['type'], CueComponent>();
+
+  constructor(private fallback: SceneComponent) {}
+
+  /**
+   * Render sections of this type with the given component, replacing any earlier registration
+   */
+  registerScene(type: ScriptSectionType, component: SceneComponent): this {
+    this.scenes.set(type, component);
+    return this;
+  }
+
+  /**
+   * Render visual cues of this type with the given component, replacing any earlier registration
+   */
+  registerCue(type: VisualCue['type'], component: CueComponent): this {
+    this.cues.set(type, component);
+    return this;
+  }
+
+  /**
+   * Component for a section type; unregistered types get the fallback title card
+   */
+  resolveScene(type: ScriptSectionType): SceneComponent {
+    return this.scenes.get(type) || this.fallback;
+  }
+
+  /**
+   * Component for a cue type, or null when cues of that type are not drawn
+   */
+  resolveCue(type: VisualCue['type']): CueComponent | null {
+    return this.cues.get(type) || null;
+  }
+
+  /**
+   * Copy of this registry that can be customised without affecting the original
+   */
+  clone(): SceneRegistry {
+    const copy = new SceneRegistry(this.fallback);
+    this.scenes.forEach((component, type) => copy.registerScene(type, component));
+    this.cues.forEach((component, type) => copy.registerCue(type, component));
+    return copy;
+  }
+}
@@ -0,0 +1,449 @@
+/**
+ * Built-in scene and visual cue components for script-driven compositions
+ */
+
+import React from 'react';
+import { AbsoluteFill, Sequence, interpolate, useCurrentFrame, useVideoConfig } from 'remotion';
+import { PRHeader } from '../components/molecules/pr/PRHeader';
+import { CommitCard } from '../components/molecules/pr/CommitCard';
+import { QualityGates } from '../components/molecules/pr/QualityGates';
+import { DiffRevealAnimation } from '../components/molecules/pr/code/DiffRevealAnimation';
+import { ProcessedDiff, processGitHubFile } from '../components/molecules/pr/code/utils/diffProcessor';
+import { ContributorAvatar } from '../components/atoms/pr/ContributorAvatar';
+import { MetricBadge } from '../components/atoms/pr/MetricBadge';
+import { FileIcon } from '../components/atoms/pr/FileIcon';
+import { ExecutiveImpactSummary } from '../components/organisms/ExecutiveImpactSummary';
+import { RiskAndQualityMetrics } from '../components/organisms/RiskAndQualityMetrics';
+import {
+  CommitScene,
+  FeedbackAddressedScene,
+  FileChangesScene,
+  ProblemStatementScene,
+  QualityGatesScene,
+  VideoMetadata,
+  VideoSceneData,
+} from '../github/transformer';
+import { themeColors } from '../theme/registry';
+import { executiveImpactData, formatHours, prOutcome, riskAndQualityData } from './executiveData';
+import { CueProps, SceneProps, SceneRegistry } from './sceneRegistry';
+
+const centered: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  justifyContent: 'center',
+  alignItems: 'center',
+  padding: '60px',
+  gap: '40px',
+};
+
+/**
+ * Transformer scene data of the given type, if the transformer produced one
+ */
+export const findScene = <T,>(metadata: VideoMetadata, type: VideoSceneData['type']): T | undefined =>
+  metadata.scenes.find((scene: VideoSceneData) => scene.type === type)?.data as T | undefined;
+
+/**
+ * Split a scene into equal back-to-back slots, one per item
+ */
+const Slots = <T,>({ items, durationInFrames, render }: {
+  items: T[];
+  durationInFrames: number;
+  render: (item: T, slotFrames: number) => React.ReactNode;
+}) => {
+  const slotFrames = Math.max(1, Math.floor(durationInFrames / Math.max(items.length, 1)));
+  return (
+    <>
+      {items.map((item, index) => (
+        <Sequence key={index} from={index * slotFrames} durationInFrames={slotFrames}>
+          {render(item, slotFrames)}
+        </Sequence>
+      ))}
+    </>
+  );
+};
+
+const Heading: React.FC<{ metadata: VideoMetadata; children: React.ReactNode }> = ({ metadata, children }) => (
+  <div style={{ fontSize: '48px', fontWeight: 'bold', color: metadata.theme.textColor, textAlign: 'center' }}>
+    {children}
+  </div>
+);
+
+/**
+ * "Showing 100 of 412 files" along the bottom edge when the fetched list was cut short
+ */
+const TruncationNote: React.FC<{ metadata: VideoMetadata; note?: string }> = ({ metadata, note }) =>
+  note ? (
+    <AbsoluteFill style={{ justifyContent: 'flex-end', alignItems: 'center', padding: '24px', pointerEvents: 'none' }}>
+      <div style={{ fontSize: '22px', color: metadata.theme.textColor, opacity: 0.6 }}>{note}</div>
+    </AbsoluteFill>
+  ) : null;
+
+export const TitleCardScene: React.FC<SceneProps> = ({ section, metadata }) => (
+  <AbsoluteFill style={centered}>
+    <Heading metadata={metadata}>{section.title}</Heading>
+  </AbsoluteFill>
+);
+
+export const IntroScene: React.FC<SceneProps> = ({ prData }) => (
+  <AbsoluteFill style={centered}>
+    <PRHeader
+      pullRequest={prData.pullRequest}
+      repository={prData.repository}
+      animationDelay={0}
+      showLabels={true}
+      compact={false}
+    />
+  </AbsoluteFill>
+);
+
+export const KeyStatsScene: React.FC<SceneProps> = ({ section, metadata }) => {
+  const stats = [
+    { value: metadata.keyMetrics.totalFiles, label: 'Files Changed', color: metadata.theme.primaryColor },
+    { value: metadata.keyMetrics.totalCommits, label: 'Commits', color: metadata.theme.secondaryColor },
+    {
+      value: metadata.keyMetrics.totalAdditions + metadata.keyMetrics.totalDeletions,
+      label: 'Line Changes',
+      color: metadata.theme.primaryColor,
+    },
+  ];
+
+  return (
+    <AbsoluteFill style={centered}>
+      <Heading metadata={metadata}>{section.title}</Heading>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '60px', width: '100%', maxWidth: '1200px' }}>
+        {stats.map(stat => (
+          <div key={stat.label} style={{ textAlign: 'center' }}>
+            <div style={{ fontSize: '72px', fontWeight: 'bold', color: stat.color }}>{stat.value}</div>
+            <div style={{ fontSize: '24px', color: metadata.theme.textColor, opacity: 0.8 }}>{stat.label}</div>
+          </div>
+        ))}
+      </div>
+    </AbsoluteFill>
+  );
+};
+
+export const LinkedIssuesScene: React.FC<SceneProps> = ({ section, metadata }) => {
+  const problem = findScene<ProblemStatementScene>(metadata, 'problemStatement');
+  const issues = problem ? [...problem.closes, ...problem.related] : [];
+
+  return (
+    <AbsoluteFill style={centered}>
+      <Heading metadata={metadata}>{section.title}</Heading>
+      {issues.length === 0 ? (
+        <div style={{ fontSize: '32px', color: metadata.theme.textColor, opacity: 0.8, maxWidth: '1200px', textAlign: 'center' }}>
+          {section.content}
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '24px', width: '100%', maxWidth: '1200px' }}>
+          {issues.slice(0, 4).map(issue => (
+            <div key={issue.reference} data-testid="linked-issue" style={{ color: metadata.theme.textColor }}>
+              <div style={{ fontSize: '32px', fontWeight: 'bold' }}>
+                <span style={{ color: metadata.theme.primaryColor }}>{issue.reference}</span> {issue.title}
+              </div>
+              {issue.excerpt && <div style={{ fontSize: '22px', opacity: 0.7, marginTop: '8px' }}>{issue.excerpt}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </AbsoluteFill>
+  );
+};
+
+export const CommitsScene: React.FC<SceneProps> = ({ prData, metadata, durationInFrames }) => (
+  <>
+    <Slots
+      items={prData.commits.slice(0, 8)}
+      durationInFrames={durationInFrames}
+      render={commit => (
+        <AbsoluteFill style={centered}>
+          <CommitCard commit={commit} animationDelay={0} showFiles={true} compact={false} />
+        </AbsoluteFill>
+      )}
+    />
+    <TruncationNote metadata={metadata} note={findScene<CommitScene>(metadata, 'commits')?.truncationNote} />
+  </>
+);
+
+export const FilesScene: React.FC<SceneProps> = ({ prData, metadata, durationInFrames }) => {
+  const diffs = prData.files.slice(0, 5).map(processGitHubFile).filter((diff): diff is ProcessedDiff => diff !== null);
+
+  return (
+    <>
+      <Slots
+        items={diffs}
+        durationInFrames={durationInFrames}
+        render={(diff, slotFrames) => (
+          <DiffRevealAnimation
+            diff={diff}
+            theme={themeColors(metadata.theme)}
+            startFrame={0}
+            durationFrames={slotFrames}
+            showLineNumbers={true}
+            highlightChanges={true}
+            animationSpeed="normal"
+          />
+        )}
+      />
+      <TruncationNote metadata={metadata} note={findScene<FileChangesScene>(metadata, 'files')?.truncationNote} />
+    </>
+  );
+};
+
+export const ReviewScene: React.FC<SceneProps> = ({ section, prData, metadata }) => (
+  <AbsoluteFill style={centered}>
+    <Heading metadata={metadata}>{section.title}</Heading>
+    <div style={{ display: 'flex', gap: '24px' }}>
+      {metadata.participants.slice(0, 6).map(participant => (
+        <ContributorAvatar key={participant.user.login} user={participant.user} role={participant.role} showRole={true} size="large" />
+      ))}
+    </div>
+    <div style={{ display: 'flex', gap: '24px' }}>
+      <MetricBadge value={prData.reviewStats.approvals} label="Approvals" type="success" size="large" />
+      <MetricBadge value={prData.reviewStats.changesRequested} label="Changes Requested" type="warning" size="large" />
+      <MetricBadge value={prData.reviewStats.comments} label="Comments" type="info" size="large" />
+    </div>
+  </AbsoluteFill>
+);
+
+/**
+ * Review comment, then the commit that addressed it and the hunk it changed, one fix per slot
+ */
+export const CommentToFixScene: React.FC<SceneProps> = props => {
+  const { metadata, durationInFrames } = props;
+  const feedback = findScene<FeedbackAddressedScene>(metadata, 'feedbackAddressed');
+  if (!feedback || feedback.fixes.length === 0) {
+    return <TitleCardScene {...props} />;
+  }
+
+  return (
+    <Slots
+      items={feedback.fixes.slice(0, 4)}
+      durationInFrames={durationInFrames}
+      render={(fix, slotFrames) => {
+        const commitFrames = Math.max(1, Math.round(slotFrames * 0.4));
+        const diff = processGitHubFile(fix.change);
+        const comment = (
+          <div data-testid="addressed-comment" style={{ display: 'flex', alignItems: 'center', gap: '16px', color: metadata.theme.textColor }}>
+            <ContributorAvatar user={fix.reviewer} size="medium" />
+            <div>
+              <div style={{ fontSize: '22px', opacity: 0.7 }}>{fix.location}</div>
+              <div style={{ fontSize: '30px', fontWeight: 'bold' }}>{fix.comment}</div>
+            </div>
+          </div>
+        );
+
+        return (
+          <>
+            <Sequence from={0} durationInFrames={commitFrames}>
+              <AbsoluteFill style={centered}>
+                {comment}
+                <CommitCard commit={fix.commit} animationDelay={0} showFiles={false} compact={true} />
+              </AbsoluteFill>
+            </Sequence>
+            {diff && (
+              <Sequence from={commitFrames} durationInFrames={Math.max(1, slotFrames - commitFrames)}>
+                <DiffRevealAnimation
+                  diff={diff}
+                  theme={themeColors(metadata.theme)}
+                  startFrame={0}
+                  durationFrames={Math.max(1, slotFrames - commitFrames)}
+                  style="side-by-side"
+                  showLineNumbers={true}
+                  highlightChanges={true}
+                  animationSpeed="normal"
+                />
+              </Sequence>
+            )}
+          </>
+        );
+      }}
+    />
+  );
+};
+
+export const ImpactScene: React.FC<SceneProps> = ({ section, metadata }) => {
+  const gates = findScene<QualityGatesScene>(metadata, 'qualityGates');
+  const lineChanges = metadata.keyMetrics.totalAdditions + metadata.keyMetrics.totalDeletions;
+
+  return (
+    <AbsoluteFill style={centered}>
+      {gates ? (
+        <QualityGates gates={gates} animationDelay={0} compact={true} />
+      ) : (
+        <Heading metadata={metadata}>{section.title}</Heading>
+      )}
+      <div style={{ display: 'flex', gap: '24px' }}>
+        <MetricBadge value={metadata.keyMetrics.totalAdditions} label="Additions" type="success" />
+        <MetricBadge value={metadata.keyMetrics.totalDeletions} label="Deletions" type="error" />
+        <MetricBadge
+          value={lineChanges}
+          label={`${lineChanges > 500 ? 'High' : lineChanges > 100 ? 'Medium' : 'Low'} complexity`}
+          type="info"
+        />
+      </div>
+    </AbsoluteFill>
+  );
+};
+
+export const OutroScene: React.FC<SceneProps> = ({ prData, metadata }) => (
+  <AbsoluteFill style={{ ...centered, gap: '20px' }}>
+    <div style={{ fontSize: '64px', fontWeight: 'bold', color: metadata.theme.textColor, textAlign: 'center' }}>
+      {prData.pullRequest.merged ? '✅ Merged Successfully' : '🔄 Ready for Review'}
+    </div>
+    <div style={{ fontSize: '32px', color: metadata.theme.textColor, opacity: 0.8, textAlign: 'center' }}>
+      {prData.repository.full_name} • PR #{prData.pullRequest.number}
+    </div>
+  </AbsoluteFill>
+);
+
+/**
+ * Business impact for leadership: the ExecutiveImpactSummary header and team panel, filled from this PR
+ */
+export const ExecutiveImpactScene: React.FC<SceneProps> = ({ prData, metadata }) => (
+  <AbsoluteFill>
+    <ExecutiveImpactSummary
+      data={executiveImpactData(prData, metadata)}
+      showHealthScore={false}
+      showTrends={false}
+      showTeamMetrics={true}
+      showKPIs={false}
+      highlightMetric="team"
+      theme="github"
+    />
+  </AbsoluteFill>
+);
+
+/**
+ * Delivery risk for leadership: the RiskAndQualityMetrics scores, code review panel and recommended actions for this PR
+ */
+export const RiskAndQualityScene: React.FC<SceneProps> = ({ prData, metadata }) => (
+  <AbsoluteFill>
+    <RiskAndQualityMetrics
+      data={riskAndQualityData(prData, metadata)}
+      showCodeReview={true}
+      showIssueCategories={false}
+      showSecurity={false}
+      showTechnicalDebt={false}
+      showTrends={false}
+      highlightSection="review"
+      theme="github"
+      viewMode="executive"
+    />
+  </AbsoluteFill>
+);
+
+export const TimeToMergeScene: React.FC<SceneProps> = ({ section, prData, metadata }) => {
+  const outcome = prOutcome(prData);
+  const headline = {
+    merged: outcome.hoursToMerge === null ? '✅ Merged' : `✅ Merged in ${formatHours(outcome.hoursToMerge)}`,
+    closed: '⛔ Closed without merging',
+    draft: '📝 Still a draft',
+    open: '🔄 Awaiting merge',
+  }[outcome.status];
+
+  return (
+    <AbsoluteFill style={centered}>
+      <Heading metadata={metadata}>{section.title}</Heading>
+      <div data-testid="merge-outcome" style={{ fontSize: '64px', fontWeight: 'bold', color: metadata.theme.textColor, textAlign: 'center' }}>
+        {headline}
+      </div>
+      <div style={{ display: 'flex', gap: '24px' }}>
+        {outcome.hoursToFirstReview !== null && (
+          <MetricBadge value={outcome.hoursToFirstReview} formatValue={formatHours} label="First Review" type="info" size="large" />
+        )}
+        <MetricBadge value={prData.reviewStats.approvals} label="Approvals" type="success" size="large" />
+        <MetricBadge value={prData.participants.length} label="People Involved" type="info" size="large" />
+      </div>
+    </AbsoluteFill>
+  );
+};
+
+/**
+ * Background-coloured veil that fades out at the start of the cue (fade_in) or in at its end (fade_out)
+ */
+export const FadeCue: React.FC<CueProps> = ({ cue, metadata, durationInFrames }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const fadeFrames = Math.max(1, Math.min(Math.round(fps / 2), durationInFrames));
+  const fadeOut = cue.type === 'transition' || cue.properties?.style === 'fade_out';
+  const opacity = fadeOut
+    ? interpolate(frame, [durationInFrames - fadeFrames, durationInFrames], [0, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' })
+    : interpolate(frame, [0, fadeFrames], [1, 0], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
+
+  return <AbsoluteFill data-testid="fade-cue" style={{ backgroundColor: metadata.theme.backgroundColor, opacity, pointerEvents: 'none' }} />;
+};
+
+export const AvatarCue: React.FC<CueProps> = ({ metadata }) => (
+  <AbsoluteFill style={{ justifyContent: 'flex-end', alignItems: 'flex-end', padding: '40px', pointerEvents: 'none' }}>
+    <div data-testid="avatar-cue" style={{ display: 'flex', gap: '12px' }}>
+      {metadata.participants.slice(0, 5).map(participant => (
+        <ContributorAvatar key={participant.user.login} user={participant.user} size="small" />
+      ))}
+    </div>
+  </AbsoluteFill>
+);
+
+export const MetricCue: React.FC<CueProps> = ({ metadata }) => (
+  <AbsoluteFill style={{ justifyContent: 'flex-end', alignItems: 'flex-start', padding: '40px', pointerEvents: 'none' }}>
+    <div data-testid="metric-cue" style={{ display: 'flex', gap: '12px' }}>
+      <MetricBadge value={metadata.keyMetrics.totalFiles} label="Files" size="small" layout="compact" />
+      <MetricBadge value={metadata.keyMetrics.totalAdditions} label="Additions" type="success" size="small" layout="compact" />
+      <MetricBadge value={metadata.keyMetrics.totalDeletions} label="Deletions" type="error" size="small" layout="compact" />
+    </div>
+  </AbsoluteFill>
+);
+
+/**
+ * Accent frame naming the file with the most changes, or the file given in the cue's properties
+ */
+export const CodeHighlightCue: React.FC<CueProps> = ({ cue, prData, metadata }) => {
+  const largest = [...prData.files].sort((a, b) => b.changes - a.changes)[0];
+  const filename: string | undefined = cue.properties?.file || largest?.filename;
+
+  return (
+    <AbsoluteFill
+      style={{ border: `4px solid ${metadata.theme.primaryColor}`, justifyContent: 'flex-start', alignItems: 'flex-end', padding: '24px', pointerEvents: 'none' }}
+    >
+      {filename && (
+        <div data-testid="code-highlight-cue" style={{ display: 'flex', alignItems: 'center', gap: '8px', color: metadata.theme.textColor }}>
+          <FileIcon filename={filename} size="small" />
+          {filename}
+        </div>
+      )}
+    </AbsoluteFill>
+  );
+};
+
+/**
+ * Registry used by the PR compositions; clone it to swap scenes for one render
+ */
+export const defaultSceneRegistry = new SceneRegistry(TitleCardScene)
+  .registerScene('intro', IntroScene)
+  .registerScene('hook', IntroScene)
+  .registerScene('overview', KeyStatsScene)
+  .registerScene('summary', KeyStatsScene)
+  .registerScene('problem_statement', LinkedIssuesScene)
+  .registerScene('solution_overview', CommitsScene)
+  .registerScene('code_changes', CommitsScene)
+  .registerScene('technical_details', FilesScene)
+  .registerScene('file_analysis', FilesScene)
+  .registerScene('review_process', ReviewScene)
+  .registerScene('feedback_addressed', CommentToFixScene)
+  .registerScene('collaboration', ReviewScene)
+  .registerScene('impact_assessment', ImpactScene)
+  .registerScene('key_insights', ImpactScene)
+  .registerScene('outro', OutroScene)
+  .registerCue('animation', FadeCue)
+  .registerCue('transition', FadeCue)
+  .registerCue('avatar', AvatarCue)
+  .registerCue('metric', MetricCue)
+  .registerCue('chart', MetricCue)
+  .registerCue('code_highlight', CodeHighlightCue);
+
+/**
+ * Registry for executive briefs: impact and risk sections render the leadership organisms, the summary reports time to merge
+ */
+export const executiveSceneRegistry = defaultSceneRegistry.clone()
+  .registerScene('impact_assessment', ExecutiveImpactScene)
+  .registerScene('key_insights', RiskAndQualityScene)
+  .registerScene('summary', TimeToMergeScene);
@@ -0,0 +1,6 @@
+/**
+ * Shared error and issue formatting for user-written definition files
+ */
+
+export * from './types';
+export { formatZodIssue } from './issues';
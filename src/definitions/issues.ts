@@ -0,0 +1,25 @@
+/**
+ * Readable locations for schema validation issues in definition files
+ */
+
+import { ZodIssue } from 'zod';
+
+/**
+ * `structure.required[1].duration.preferred: message`; a value matching no member of a union is reported against
+ * the member it came closest to
+ */
+export function formatZodIssue(issue: ZodIssue): string {
+  if (issue.code === 'invalid_union') {
+    const closest = issue.unionErrors
+      .flatMap(error => error.issues)
+      .sort((a, b) => b.path.length - a.path.length)[0];
+    if (closest && closest.path.length > issue.path.length) {
+      return formatZodIssue(closest);
+    }
+  }
+  const location = issue.path.reduce<string>(
+    (text, key) => (typeof key === 'number' ? `${text}[${key}]` : text ? `${text}.${key}` : key),
+    ''
+  );
+  return location ? `${location}: ${issue.message}` : issue.message;
+}
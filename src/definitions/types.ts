@@ -0,0 +1,13 @@
+/**
+ * Errors shared by the loaders for user-written definition files: script templates, themes and brand kits
+ */
+
+/**
+ * A definition that can't be read, parsed or validated; each issue is listed on its own line of the message
+ */
+export class DefinitionError extends Error {
+  constructor(message: string, public issues: string[] = [], public cause?: unknown) {
+    super(issues.length > 0 ? `${message}\n${issues.map(issue => `  - ${issue}`).join('\n')}` : message);
+    this.name = 'DefinitionError';
+  }
+}
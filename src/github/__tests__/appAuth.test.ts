@@ -0,0 +1,188 @@
+/**
+ * Tests for GitHub App installation authentication against a local token-exchange stub
+ */
+
+import { createVerify, generateKeyPairSync } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createAppJwt, GitHubAppAuth } from '../appAuth';
+import { GitHubApiClient } from '../client';
+import { GitHubApiAuthenticationError } from '../types';
+
+const RATE_LIMIT = {
+  resources: { core: { limit: 5000, remaining: 4999, reset: 1893456000, used: 1, resource: 'core' } },
+};
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+/**
+ * Check an RS256 JWT against the app's public key and return its claims
+ */
+function verifyJwt(jwt: string): Record<string, any> | null {
+  const [header, payload, signature] = jwt.split('.');
+  const valid = createVerify('RSA-SHA256').update(`${header}.${payload}`).verify(publicKey, Buffer.from(signature, 'base64url'));
+  return valid ? JSON.parse(Buffer.from(payload, 'base64url').toString()) : null;
+}
+
+describe('GitHub App authentication', () => {
+  const originalFetch = global.fetch;
+  let server: http.Server;
+  let baseUrl: string;
+  let now: number;
+  let exchanges: Array<{ installation: string; claims: Record<string, any> | null }>;
+  let apiTokens: string[];
+  let exchangeStatus: number;
+  let revoked: Set<string>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      res.setHeader('content-type', 'application/json');
+      const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+      const exchange = /^\/app\/installations\/(\w+)\/access_tokens$/.exec(req.url || '');
+
+      if (exchange && req.method === 'POST') {
+        const claims = verifyJwt(token);
+        exchanges.push({ installation: exchange[1], claims });
+        if (!claims || exchangeStatus === 401) {
+          res.statusCode = 401;
+          res.end(JSON.stringify({ message: 'A JSON web token could not be decoded' }));
+          return;
+        }
+        if (exchangeStatus !== 201) {
+          res.statusCode = exchangeStatus;
+          res.end(JSON.stringify({ message: 'Not Found' }));
+          return;
+        }
+        res.statusCode = 201;
+        res.end(JSON.stringify({
+          token: `ghs_${exchanges.length}`,
+          expires_at: new Date(now + 60 * 60 * 1000).toISOString(),
+        }));
+        return;
+      }
+
+      if (req.url !== '/rate_limit') {
+        apiTokens.push(token);
+      }
+      if (!token.startsWith('ghs_') || revoked.has(token)) {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ message: 'Bad credentials' }));
+        return;
+      }
+      res.end(JSON.stringify(req.url === '/rate_limit' ? RATE_LIMIT : { full_name: 'acme/widgets' }));
+    });
+    await new Promise<void>(done => server.listen(0, '127.0.0.1', done));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(done => server.close(done));
+  });
+
+  beforeEach(() => {
+    now = Date.parse('2024-03-01T12:00:00Z');
+    exchanges = [];
+    apiTokens = [];
+    exchangeStatus = 201;
+    revoked = new Set();
+
+    // jsdom has no network stack, so route fetch through node's http client
+    global.fetch = ((input: RequestInfo | URL, init: RequestInit = {}) =>
+      new Promise<Response>((done, fail) => {
+        const url = String(input);
+        const req = http.request(url, { method: init.method || 'GET', headers: init.headers as Record<string, string> }, res => {
+          let text = '';
+          res.on('data', chunk => (text += chunk));
+          res.on('end', () => {
+            const status = res.statusCode || 0;
+            done({
+              ok: status >= 200 && status < 300,
+              status,
+              url,
+              headers: new Headers(res.headers as Record<string, string>),
+              json: async () => JSON.parse(text),
+            } as Response);
+          });
+        });
+        req.on('error', fail);
+        req.end(init.body as string | undefined);
+      })) as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const client = (installationId = 42) =>
+    new GitHubApiClient({
+      baseUrl,
+      retryAttempts: 1,
+      app: { appId: 1234, installationId, privateKey, now: () => now },
+    });
+
+  it('should sign a short-lived RS256 JWT issued by the app', () => {
+    const claims = verifyJwt(createAppJwt(1234, privateKey, now));
+
+    expect(claims).toEqual({ iss: '1234', iat: now / 1000 - 60, exp: now / 1000 - 60 + 540 });
+  });
+
+  it('should exchange the JWT for an installation token and reuse it until it nears expiry', async () => {
+    const github = client();
+    await github.request('/repos/acme/widgets');
+    await github.request('/repos/acme/widgets');
+
+    expect(exchanges).toEqual([{ installation: '42', claims: expect.objectContaining({ iss: '1234' }) }]);
+    expect(apiTokens).toEqual(['ghs_1', 'ghs_1']);
+
+    // Inside the five minute refresh margin of the one hour token
+    now += 56 * 60 * 1000;
+    await github.request('/repos/acme/widgets');
+
+    expect(exchanges).toHaveLength(2);
+    expect(apiTokens[2]).toBe('ghs_2');
+  });
+
+  it('should exchange a fresh token once when the API rejects a revoked one', async () => {
+    const github = client();
+    await github.request('/repos/acme/widgets');
+    revoked.add('ghs_1');
+
+    await expect(github.request('/repos/acme/widgets')).resolves.toMatchObject({ data: { full_name: 'acme/widgets' } });
+    expect(apiTokens.slice(1)).toEqual(['ghs_1', 'ghs_2']);
+  });
+
+  it('should share one exchange between concurrent requests', async () => {
+    const auth = new GitHubAppAuth({ appId: 1234, installationId: 42, privateKey }, baseUrl);
+
+    expect(await Promise.all([auth.getToken(), auth.getToken(), auth.getToken()])).toEqual(['ghs_1', 'ghs_1', 'ghs_1']);
+    expect(exchanges).toHaveLength(1);
+  });
+
+  it('should explain why authentication failed', async () => {
+    expect(() => new GitHubApiClient({ baseUrl })).toThrow(/token or GitHub App credentials are required/);
+    expect(() => new GitHubAppAuth({ appId: 1234, installationId: 42, privateKey: 'not a key' })).toThrow(
+      /private key could not be read/
+    );
+
+    exchangeStatus = 404;
+    await expect(client(99).request('/repos/acme/widgets')).rejects.toThrow(
+      new GitHubApiAuthenticationError('Installation 99 was not found for GitHub App 1234: Not Found. Check the installation ID')
+    );
+
+    exchangeStatus = 401;
+    await expect(client().request('/repos/acme/widgets')).rejects.toThrow(/rejected the JWT for app 1234/);
+
+    const { privateKey: otherKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+    exchangeStatus = 201;
+    const wrongKey = new GitHubApiClient({ baseUrl, retryAttempts: 1, app: { appId: 1234, installationId: 42, privateKey: otherKey } });
+    await expect(wrongKey.request('/repos/acme/widgets')).rejects.toBeInstanceOf(GitHubApiAuthenticationError);
+  });
+});
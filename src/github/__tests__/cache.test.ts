@@ -0,0 +1,162 @@
+/**
+ * Tests for the on-disk GitHub response cache and conditional requests
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GitHubResponseCache } from '../cache';
+import { GitHubApiClient } from '../client';
+import { GitHubLogger } from '../logger';
+
+const RATE_LIMIT = {
+  resources: { core: { limit: 5000, remaining: 4999, reset: 1893456000, used: 1, resource: 'core' } },
+};
+
+describe('GitHub response cache', () => {
+  const originalFetch = global.fetch;
+  let directory: string;
+  let now: number;
+  let requests: Array<{ url: string; headers: Record<string, string> }>;
+  let respond: () => { body: string; status: number; headers?: Record<string, string> };
+
+  const createClient = (logger?: GitHubLogger) =>
+    new GitHubApiClient(
+      { token: 'test-token', retryAttempts: 1, cache: { directory, ttlMs: 60_000, now: () => now } },
+      logger
+    );
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'git2video-cache-'));
+    now = 1_700_000_000_000;
+    requests = [];
+    respond = () => ({
+      body: JSON.stringify({ title: 'Add widget cache' }),
+      status: 200,
+      headers: { etag: '"v1"', 'x-ratelimit-remaining': '4998', 'x-ratelimit-limit': '5000', 'x-ratelimit-reset': '1893456000' },
+    });
+
+    global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      const { body, status, headers = {} } = url.endsWith('/rate_limit')
+        ? { body: JSON.stringify(RATE_LIMIT), status: 200 }
+        : respond();
+
+      if (!url.endsWith('/rate_limit')) {
+        const sent = Object.entries((init?.headers || {}) as Record<string, string>);
+        requests.push({ url, headers: Object.fromEntries(sent.map(([name, value]) => [name.toLowerCase(), value])) });
+      }
+
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        url,
+        headers: new Headers(headers),
+        json: async () => JSON.parse(body),
+      } as Response;
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should revalidate with If-None-Match and serve the cached body on 304', async () => {
+    const logger = new GitHubLogger({ logLevel: 'error' });
+
+    const first = await createClient(logger).request<{ title: string }>('/repos/acme/widgets/pulls/42');
+    expect(first.fromCache).toBeUndefined();
+    expect(requests[0].headers['if-none-match']).toBeUndefined();
+
+    respond = () => ({ body: '', status: 304, headers: { etag: '"v1"' } });
+    const second = await createClient(logger).request<{ title: string }>('/repos/acme/widgets/pulls/42');
+
+    expect(requests[1].headers['if-none-match']).toBe('"v1"');
+    expect(second.fromCache).toBe(true);
+    expect(second.status).toBe(200);
+    expect(second.data).toEqual({ title: 'Add widget cache' });
+    expect(second.headers.etag).toBe('"v1"');
+    expect(logger.getPerformanceAnalytics().cache).toEqual({ hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it('should store a changed body when the server returns 200', async () => {
+    await createClient().request('/repos/acme/widgets');
+
+    respond = () => ({ body: JSON.stringify({ title: 'Renamed' }), status: 200, headers: { etag: '"v2"' } });
+    expect((await createClient().request('/repos/acme/widgets')).data).toEqual({ title: 'Renamed' });
+
+    const entry = await new GitHubResponseCache({ directory, now: () => now }).get('https://api.github.com/repos/acme/widgets');
+    expect(entry?.etag).toBe('"v2"');
+  });
+
+  it('should serve the fetched response without retrying when the cache cannot be written', async () => {
+    const client = new GitHubApiClient({ token: 'test-token', retryAttempts: 3, retryDelay: 0, cache: { directory, now: () => now } });
+    await client.request('/repos/acme/widgets');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const readOnly = Object.assign(new Error('EROFS: read-only file system'), { code: 'EROFS' });
+    const set = jest.spyOn(GitHubResponseCache.prototype, 'set').mockRejectedValue(readOnly);
+    const touch = jest.spyOn(GitHubResponseCache.prototype, 'touch').mockRejectedValue(readOnly);
+
+    try {
+      respond = () => ({ body: '', status: 304, headers: { etag: '"v1"' } });
+      expect(await client.request('/repos/acme/widgets')).toMatchObject({ fromCache: true, data: { title: 'Add widget cache' } });
+
+      respond = () => ({ body: JSON.stringify({ title: 'Renamed' }), status: 200, headers: { etag: '"v2"' } });
+      expect((await client.request('/repos/acme/widgets/pulls/42')).data).toEqual({ title: 'Renamed' });
+
+      expect(requests).toHaveLength(3);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Failed to write the GitHub response cache'), readOnly.message);
+    } finally {
+      [warn, set, touch].forEach(spy => spy.mockRestore());
+    }
+  });
+
+  it('should drop entries older than the TTL instead of revalidating them', async () => {
+    await createClient().request('/repos/acme/widgets');
+
+    now += 60_001;
+    await createClient().request('/repos/acme/widgets');
+
+    expect(requests[1].headers['if-none-match']).toBeUndefined();
+  });
+
+  it('should skip responses without validators and non-GET requests', async () => {
+    respond = () => ({ body: '{}', status: 200 });
+    await createClient().request('/repos/acme/widgets');
+
+    respond = () => ({ body: '{}', status: 201, headers: { etag: '"p"' } });
+    await createClient().request('/repos/acme/widgets/issues', { method: 'POST', body: '{}' });
+
+    expect(await new GitHubResponseCache({ directory }).stats()).toEqual({ entries: 0, sizeBytes: 0 });
+  });
+
+  it('should not touch the disk when caching is disabled', async () => {
+    const client = new GitHubApiClient({ token: 'test-token', retryAttempts: 1 });
+    fs.rmSync(directory, { recursive: true, force: true });
+
+    await client.request('/repos/acme/widgets');
+    await client.request('/repos/acme/widgets');
+
+    expect(requests[1].headers['if-none-match']).toBeUndefined();
+    expect(fs.existsSync(directory)).toBe(false);
+  });
+
+  it('should evict the least recently written entries beyond the size cap', async () => {
+    const cache = new GitHubResponseCache({ directory, maxSizeBytes: 700 });
+    const response = { status: 200, headers: { etag: '"x"' }, data: 'x'.repeat(150) };
+
+    await cache.set('https://api.github.com/a', response);
+    await cache.set('https://api.github.com/b', response);
+    // Age the first entry so eviction order does not depend on timestamp resolution
+    const stale = new Date(Date.now() - 60_000);
+    fs.readdirSync(directory).forEach(name => fs.utimesSync(path.join(directory, name), stale, stale));
+    await cache.set('https://api.github.com/b', response);
+    await cache.set('https://api.github.com/c', response);
+
+    expect(await cache.get('https://api.github.com/a')).toBeNull();
+    expect(await cache.get('https://api.github.com/b')).not.toBeNull();
+    expect(await cache.get('https://api.github.com/c')).not.toBeNull();
+    expect((await cache.stats()).sizeBytes).toBeLessThanOrEqual(700);
+  });
+});
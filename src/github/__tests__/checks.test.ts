@@ -0,0 +1,89 @@
+/**
+ * Tests for fetching check runs, commit statuses and deployments for the head commit
+ */
+
+import { GitHubApiClient } from '../client';
+import { GitHubPRFetcher } from '../fetcher';
+
+const RATE_LIMIT = {
+  resources: { core: { limit: 5000, remaining: 4999, reset: 1893456000, used: 1, resource: 'core' } },
+};
+
+describe('GitHubPRFetcher checks', () => {
+  const originalFetch = global.fetch;
+  let responses: Record<string, { status: number; body: unknown }>;
+  let requested: string[];
+
+  beforeEach(() => {
+    requested = [];
+    responses = {
+      '/repos/acme/widgets/commits/head123/check-runs?filter=all&per_page=100': {
+        status: 200,
+        body: {
+          total_count: 2,
+          check_runs: [
+            { id: 1, name: 'test', head_sha: 'head123', status: 'completed', conclusion: 'failure' },
+            { id: 2, name: 'test', head_sha: 'head123', status: 'completed', conclusion: 'success' },
+          ],
+        },
+      },
+      '/repos/acme/widgets/commits/head123/statuses?per_page=100': {
+        status: 403,
+        body: { message: 'Resource not accessible by integration' },
+      },
+      '/repos/acme/widgets/deployments?sha=head123&per_page=100': {
+        status: 200,
+        body: [{ id: 7, sha: 'head123', ref: 'feature', environment: 'preview', created_at: '2024-03-01T10:00:00Z' }],
+      },
+      '/repos/acme/widgets/deployments/7/statuses?per_page=100': {
+        status: 200,
+        body: [{ id: 70, state: 'success', environment_url: 'https://preview.example.com', created_at: '2024-03-01T10:05:00Z' }],
+      },
+    };
+
+    global.fetch = (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      const key = `${url.pathname}${url.search}`;
+      const { status, body } = url.pathname === '/rate_limit'
+        ? { status: 200, body: RATE_LIMIT }
+        : responses[key] || { status: 404, body: { message: 'Not Found' } };
+      if (url.pathname !== '/rate_limit') {
+        requested.push(key);
+      }
+
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        url: url.toString(),
+        headers: new Headers(),
+        json: async () => body,
+      } as Response;
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const fetcher = () => new GitHubPRFetcher(new GitHubApiClient({ token: 'test-token', retryAttempts: 1 }));
+
+  it('should unwrap check run pages and attach deployment statuses', async () => {
+    const checks = await fetcher().fetchChecks('acme', 'widgets', 'head123');
+
+    expect(checks.headSha).toBe('head123');
+    expect(checks.checkRuns.map(run => run.id)).toEqual([1, 2]);
+    expect(checks.deployments).toEqual([
+      expect.objectContaining({
+        environment: 'preview',
+        statuses: [expect.objectContaining({ state: 'success', environment_url: 'https://preview.example.com' })],
+      }),
+    ]);
+  });
+
+  it('should treat lists the token cannot read as empty', async () => {
+    const checks = await fetcher().fetchChecks('acme', 'widgets', 'head123');
+
+    expect(checks.statuses).toEqual([]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Skipping commit statuses'));
+  });
+});
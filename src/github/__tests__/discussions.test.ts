@@ -0,0 +1,225 @@
+/**
+ * Tests for threading review comments into discussions and the review flow
+ */
+
+import {
+  analyzeReviewThreads,
+  buildReviewFlow,
+  keyPoint,
+  reviewKeyPoints,
+  threadReviewComments,
+  toDiscussions,
+} from '../discussions';
+import { GitHubCommit, GitHubReview, GitHubReviewComment, GitHubUser } from '../types';
+
+const user = (login: string): GitHubUser => ({ id: login.length, login, avatar_url: '', html_url: '', type: 'User' });
+
+const alice = user('alice');
+const bob = user('bob');
+const carol = user('carol');
+
+const comment = (id: number, author: GitHubUser, body: string, overrides: Partial<GitHubReviewComment> = {}): GitHubReviewComment => ({
+  id,
+  pull_request_review_id: 100,
+  diff_hunk: '',
+  path: 'src/auth.ts',
+  position: 4,
+  original_position: 4,
+  line: 42,
+  commit_id: 'head',
+  original_commit_id: 'head',
+  user: author,
+  body,
+  created_at: `2024-03-01T10:0${id}:00Z`,
+  updated_at: `2024-03-01T10:0${id}:00Z`,
+  html_url: '',
+  pull_request_url: '',
+  author_association: 'MEMBER',
+  ...overrides,
+});
+
+const commit = (sha: string, date: string, files?: string[]): GitHubCommit => ({
+  sha,
+  commit: {
+    author: { name: 'Alice', email: 'alice@example.com', date },
+    committer: { name: 'Alice', email: 'alice@example.com', date },
+    message: `Commit ${sha}`,
+    tree: { sha: '', url: '' },
+    url: '',
+    comment_count: 0,
+  },
+  url: '',
+  html_url: '',
+  comments_url: '',
+  author: alice,
+  parents: [],
+  ...(files ? { files: files.map(filename => ({ filename, status: 'modified' as const, additions: 1, deletions: 0, changes: 1 })) } : {}),
+});
+
+const review = (id: number, reviewer: GitHubUser, state: GitHubReview['state'], submittedAt: string, body = ''): GitHubReview => ({
+  id,
+  user: reviewer,
+  body,
+  state,
+  html_url: '',
+  pull_request_url: '',
+  author_association: 'MEMBER',
+  submitted_at: submittedAt,
+  commit_id: 'head',
+});
+
+describe('threadReviewComments', () => {
+  it('should follow reply chains and join separate comments on the same line', () => {
+    const threads = threadReviewComments([
+      comment(3, alice, 'Fixed', { in_reply_to_id: 2 }),
+      comment(1, bob, 'Should this retry?'),
+      comment(2, carol, 'Agreed, with backoff', { in_reply_to_id: 1 }),
+      comment(4, carol, 'Also log the failure'),
+      comment(5, bob, 'Unused import', { path: 'src/index.ts', line: 1 }),
+      comment(6, bob, 'Rename this', { line: undefined, position: undefined }),
+    ]);
+
+    expect(threads.map(thread => thread.map(entry => entry.id))).toEqual([[1, 2, 3, 4], [5], [6]]);
+  });
+});
+
+describe('analyzeReviewThreads', () => {
+  it('should resolve threads from replies, outdated diffs and follow-up commits', () => {
+    const threads = analyzeReviewThreads(
+      [
+        comment(1, bob, 'Should this retry?'),
+        comment(2, alice, 'Done in the next commit', { in_reply_to_id: 1 }),
+        comment(3, bob, 'Cache this?', { line: 50 }),
+        comment(4, alice, "Let's do that in a follow-up PR", { in_reply_to_id: 3, line: 50 }),
+        comment(5, carol, 'Typo', { line: undefined, position: undefined }),
+        comment(6, carol, 'Missing test', { path: 'src/session.ts', line: 7 }),
+        comment(7, bob, 'Is this still needed?', { path: 'src/legacy.ts', line: 3 }),
+      ],
+      [commit('a', '2024-03-01T09:00:00Z', ['src/session.ts']), commit('b', '2024-03-01T11:00:00Z', ['src/session.ts'])]
+    );
+
+    const byId = Object.fromEntries(threads.map(thread => [thread.id, thread]));
+    expect(byId[1].resolution).toBe('resolved');
+    expect(byId[3].resolution).toBe('deferred');
+    expect(byId[5]).toMatchObject({ outdated: true, resolution: 'resolved' });
+    expect(byId[6].followUpCommits.map(entry => entry.sha)).toEqual(['b']);
+    expect(byId[6].resolution).toBe('resolved');
+    expect(byId[7].resolution).toBe('ongoing');
+  });
+
+  it('should only count commits whose patch changed the thread lines, following them as they move', () => {
+    const patched = (sha: string, date: string, patch: string): GitHubCommit => ({
+      ...commit(sha, date),
+      files: [{ filename: 'src/auth.ts', status: 'modified', additions: 1, deletions: 1, changes: 2, patch }],
+    });
+    const [thread] = analyzeReviewThreads(
+      [comment(1, bob, 'Should this retry?')],
+      [
+        patched('change', '2024-03-01T13:00:00Z', '@@ -44 +44 @@\n-return token;\n+return retry(token);'),
+        patched('insert', '2024-03-01T12:00:00Z', '@@ -0,0 +1,2 @@\n+import { retry } from "./retry";\n+'),
+        patched('elsewhere', '2024-03-01T14:00:00Z', '@@ -90 +90 @@\n-a\n+b'),
+      ]
+    );
+
+    expect(thread.followUpCommits.map(entry => entry.sha)).toEqual(['change']);
+    expect(thread.resolution).toBe('resolved');
+  });
+
+  it("should prefer GitHub's resolved flag over replies and follow-up commits", () => {
+    const threads = analyzeReviewThreads(
+      [
+        comment(1, bob, 'Should this retry?', { thread_resolved: true }),
+        comment(3, bob, 'Cache this?', { line: 50, thread_resolved: false }),
+        comment(4, alice, 'Done', { in_reply_to_id: 3, line: 50, thread_resolved: false }),
+      ],
+      []
+    );
+
+    const byId = Object.fromEntries(threads.map(thread => [thread.id, thread]));
+    expect(byId[1].resolution).toBe('resolved');
+    expect(byId[3].resolution).toBe('ongoing');
+  });
+
+  it('should rank by participants, length and follow-up commits', () => {
+    const threads = analyzeReviewThreads(
+      [
+        comment(1, bob, 'Nit'),
+        comment(2, bob, 'Why a map?', { line: 10 }),
+        comment(3, alice, 'Lookups by id', { in_reply_to_id: 2, line: 10 }),
+        comment(4, carol, 'Missing test', { path: 'src/session.ts', line: 7 }),
+        comment(5, bob, 'Long thread', { line: 20 }),
+        comment(6, bob, 'Still long', { in_reply_to_id: 5, line: 20 }),
+      ],
+      [commit('a', '2024-03-01T11:00:00Z', ['src/session.ts'])]
+    );
+
+    expect(threads.map(thread => thread.id)).toEqual([2, 4, 5, 1]);
+  });
+});
+
+describe('toDiscussions', () => {
+  it('should attribute key points and mention follow-up commits', () => {
+    const discussions = toDiscussions(
+      analyzeReviewThreads(
+        [comment(1, bob, 'Should this retry? It fails on flaky networks.'), comment(2, alice, 'Added backoff.', { in_reply_to_id: 1 })],
+        [commit('a', '2024-03-01T11:00:00Z', ['src/auth.ts'])]
+      )
+    );
+
+    expect(discussions).toEqual([
+      {
+        topic: 'src/auth.ts:42',
+        participants: [bob, alice],
+        commentCount: 2,
+        resolution: 'resolved',
+        key_points: ['@bob: Should this retry?', '@alice: Added backoff.', '1 follow-up commit to src/auth.ts'],
+      },
+    ]);
+  });
+});
+
+describe('buildReviewFlow', () => {
+  it('should order review requests and submitted reviews with their context', () => {
+    const flow = buildReviewFlow({
+      timeline: [
+        { event: 'review_requested', created_at: '2024-03-01T09:00:00Z', actor: alice, requested_reviewer: bob },
+        { event: 'review_requested', created_at: '2024-03-01T09:30:00Z', actor: alice, assignee: alice },
+        { event: 'labeled', created_at: '2024-03-01T09:45:00Z', actor: alice },
+      ],
+      reviews: [
+        review(101, bob, 'APPROVED', '2024-03-01T12:00:00Z', 'LGTM. Ship it'),
+        review(100, bob, 'CHANGES_REQUESTED', '2024-03-01T10:30:00Z'),
+        review(102, carol, 'PENDING', '2024-03-01T13:00:00Z'),
+      ],
+      reviewComments: [comment(1, bob, 'Retry?'), comment(2, bob, 'Log it', { path: 'src/index.ts' })],
+    });
+
+    expect(flow.map(entry => [entry.event, entry.user.login, entry.context])).toEqual([
+      ['review_requested', 'bob', 'Requested by @alice'],
+      ['review_requested', 'alice', undefined],
+      ['changes_requested', 'bob', '2 comments on 2 files'],
+      ['approved', 'bob', 'LGTM.'],
+    ]);
+  });
+});
+
+describe('keyPoint', () => {
+  it('should take the first sentence without quotes, code or markup', () => {
+    expect(keyPoint('> Should we?\n\n**Yes**, but see [the docs](https://example.com). Then more.')).toBe('Yes, but see the docs.');
+    expect(keyPoint('```suggestion\nreturn retry(fn);\n```')).toBe('Suggested a change');
+    expect(keyPoint('x'.repeat(200))).toHaveLength(120);
+    expect(keyPoint('')).toBeUndefined();
+  });
+});
+
+describe('reviewKeyPoints', () => {
+  it('should lead with the review body and add each inline thread it started', () => {
+    const points = reviewKeyPoints(review(100, bob, 'COMMENTED', '2024-03-01T10:30:00Z', 'A few questions.'), [
+      comment(1, bob, 'Should this retry?'),
+      comment(2, bob, 'Reply', { in_reply_to_id: 1 }),
+      comment(3, bob, 'Unused import', { path: 'src/index.ts', pull_request_review_id: 200 }),
+    ]);
+
+    expect(points).toEqual(['A few questions.', 'auth.ts: Should this retry?']);
+  });
+});
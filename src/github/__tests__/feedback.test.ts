@@ -0,0 +1,139 @@
+/**
+ * Tests for linking review comments to the commits that addressed them
+ */
+
+import { linkFeedbackToCommits, mapLinesThroughPatch, parsePatch } from '../feedback';
+import { GitHubCommit, GitHubFile, GitHubReviewComment, GitHubUser } from '../types';
+
+const user = (login: string): GitHubUser => ({ id: login.length, login, avatar_url: '', html_url: '', type: 'User' });
+
+const comment = (id: number, overrides: Partial<GitHubReviewComment> = {}): GitHubReviewComment => ({
+  id,
+  pull_request_review_id: 100,
+  diff_hunk: '',
+  path: 'src/auth.ts',
+  position: 4,
+  original_position: 4,
+  line: 10,
+  original_line: 10,
+  side: 'RIGHT',
+  commit_id: 'c1',
+  original_commit_id: 'c1',
+  user: user('bob'),
+  body: 'Should this retry?',
+  created_at: '2024-03-01T10:00:00Z',
+  updated_at: '2024-03-01T10:00:00Z',
+  html_url: '',
+  pull_request_url: '',
+  author_association: 'MEMBER',
+  ...overrides,
+});
+
+const file = (filename: string, patch?: string, overrides: Partial<GitHubFile> = {}): GitHubFile => ({
+  filename,
+  status: 'modified',
+  additions: 0,
+  deletions: 0,
+  changes: 1,
+  ...(patch !== undefined ? { patch } : {}),
+  ...overrides,
+});
+
+const commit = (sha: string, date: string, files?: GitHubFile[]): GitHubCommit => ({
+  sha,
+  commit: {
+    author: { name: 'Alice', email: 'alice@example.com', date },
+    committer: { name: 'Alice', email: 'alice@example.com', date },
+    message: `Commit ${sha}`,
+    tree: { sha: '', url: '' },
+    url: '',
+    comment_count: 0,
+  },
+  url: '',
+  html_url: '',
+  comments_url: '',
+  author: user('alice'),
+  parents: [],
+  ...(files ? { files } : {}),
+});
+
+// Adds two lines after line 2, so old line 10 becomes line 12
+const INSERT_AT_TOP = '@@ -1,3 +1,5 @@\n import a;\n import b;\n+import c;\n+import d;\n import e;';
+
+// Rewrites old line 12
+const REWRITE_LINE_12 = '@@ -11,3 +11,3 @@ function login() {\n   const token = read();\n-  return send(token);\n+  return retry(() => send(token));\n }';
+
+describe('parsePatch', () => {
+  it('should read hunk ranges, defaulting omitted counts to one', () => {
+    const hunks = parsePatch(`${INSERT_AT_TOP}\n@@ -20 +22 @@\n-old\n+new\n\\ No newline at end of file`);
+
+    expect(hunks.map(hunk => [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines])).toEqual([[1, 3, 1, 5], [20, 1, 22, 1]]);
+    expect(hunks[1].lines).toEqual(['-old', '+new', '\\ No newline at end of file']);
+  });
+});
+
+describe('mapLinesThroughPatch', () => {
+  it('should shift lines below a hunk and find the hunk that rewrote one', () => {
+    expect(mapLinesThroughPatch({ start: 10, end: 10 }, parsePatch(INSERT_AT_TOP))).toEqual({ moved: { start: 12, end: 12 } });
+    expect(mapLinesThroughPatch({ start: 3, end: 3 }, parsePatch(INSERT_AT_TOP))).toEqual({ moved: { start: 5, end: 5 } });
+    expect(mapLinesThroughPatch({ start: 11, end: 12 }, parsePatch(REWRITE_LINE_12))).toEqual({
+      changed: expect.objectContaining({ oldStart: 11 }),
+    });
+  });
+
+  it('should keep the line a pure insertion is added after and shift the ones below it', () => {
+    const hunks = parsePatch('@@ -5,0 +6,2 @@\n+new a\n+new b');
+
+    expect(mapLinesThroughPatch({ start: 5, end: 5 }, hunks)).toEqual({ moved: { start: 5, end: 5 } });
+    expect(mapLinesThroughPatch({ start: 4, end: 6 }, hunks)).toEqual({ moved: { start: 4, end: 8 } });
+  });
+});
+
+describe('linkFeedbackToCommits', () => {
+  it('should follow the lines through earlier commits to the one that changed them', () => {
+    const linked = linkFeedbackToCommits(
+      [comment(1), comment(2, { in_reply_to_id: 1, user: user('alice'), body: 'Done' })],
+      [
+        commit('c1', '2024-03-01T09:00:00Z', [file('src/auth.ts', REWRITE_LINE_12)]),
+        commit('c2', '2024-03-01T11:00:00Z', [file('src/auth.ts', INSERT_AT_TOP)]),
+        commit('c3', '2024-03-01T12:00:00Z'),
+        commit('c4', '2024-03-01T13:00:00Z', [file('src/other.ts', REWRITE_LINE_12)]),
+        commit('c5', '2024-03-01T14:00:00Z', [file('src/auth.ts', '@@ -30,2 +30,3 @@\n a();\n+b();\n c();')]),
+        commit('c6', '2024-03-01T15:00:00Z', [file('src/auth.ts', REWRITE_LINE_12)]),
+      ]
+    );
+
+    expect(linked).toHaveLength(1);
+    expect(linked[0].thread.map(entry => entry.id)).toEqual([1, 2]);
+    expect(linked[0].commit.sha).toBe('c6');
+    expect(linked[0].lines).toEqual({ start: 12, end: 12 });
+    expect(linked[0].change.patch).toBe(REWRITE_LINE_12);
+    expect(linked[0].change).toMatchObject({ additions: 1, deletions: 1, changes: 2 });
+  });
+
+  it('should follow renames and count deleting the file as addressing it', () => {
+    const linked = linkFeedbackToCommits(
+      [comment(1)],
+      [
+        commit('c1', '2024-03-01T09:00:00Z'),
+        commit('c2', '2024-03-01T11:00:00Z', [file('src/login.ts', undefined, { status: 'renamed', previous_filename: 'src/auth.ts', changes: 0 })]),
+        commit('c3', '2024-03-01T12:00:00Z', [file('src/login.ts', undefined, { status: 'removed' })]),
+      ]
+    );
+
+    expect(linked.map(entry => [entry.commit.sha, entry.change.filename])).toEqual([['c3', 'src/login.ts']]);
+  });
+
+  it('should use later commits by date when the commented commit is gone, and skip the base side', () => {
+    const commits = [commit('c9', '2024-03-01T09:00:00Z', [file('src/auth.ts', REWRITE_LINE_12)]), commit('c10', '2024-03-01T11:00:00Z', [file('src/auth.ts', REWRITE_LINE_12)])];
+
+    expect(linkFeedbackToCommits([comment(1, { original_line: 12 })], commits).map(entry => entry.commit.sha)).toEqual(['c10']);
+    expect(linkFeedbackToCommits([comment(1, { original_line: 12, side: 'LEFT' })], commits)).toEqual([]);
+  });
+
+  it('should leave threads whose lines no commit changed', () => {
+    expect(
+      linkFeedbackToCommits([comment(1)], [commit('c1', '2024-03-01T09:00:00Z'), commit('c2', '2024-03-01T11:00:00Z', [file('src/auth.ts', INSERT_AT_TOP)])])
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Tests for the GraphQL fetch path against a local mock GraphQL server
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GitHubApiClient } from '../client';
+import { GitHubPRFetcher } from '../fetcher';
+import { GitHubGraphQLFetcher } from '../graphql';
+import { GitHubApiNotFoundError } from '../types';
+import fixture from './fixtures/graphql-pull-request.json';
+
+const RATE_LIMIT = {
+  resources: { core: { limit: 5000, remaining: 4999, reset: 1893456000, used: 1, resource: 'core' } },
+};
+
+const INCLUDE_VARIABLES: Record<string, string> = {
+  commits: 'includeCommits',
+  files: 'includeFiles',
+  reviews: 'includeReviews',
+  reviewThreads: 'includeComments',
+  comments: 'includeComments',
+  timelineItems: 'includeTimeline',
+};
+
+type Connection = { nodes: unknown[] };
+
+/** Comments per review thread in the first query, standing in for GitHub's first 100 */
+let threadCommentsFirst = Infinity;
+
+/**
+ * Cut one page out of a fixture connection; cursors are plain item offsets
+ */
+function page(connection: Connection, first: number, after?: string | null) {
+  const start = after ? Number(after) : 0;
+  const end = Math.min(start + first, connection.nodes.length);
+  return {
+    ...connection,
+    totalCount: connection.nodes.length,
+    pageInfo: { hasNextPage: end < connection.nodes.length, endCursor: String(end) },
+    nodes: connection.nodes.slice(start, end),
+  };
+}
+
+/**
+ * Answer the two kinds of queries the fetcher sends from the fixture
+ */
+function resolve(query: string, variables: Record<string, any>): unknown {
+  const threads = fixture.repository.pullRequest.reviewThreads.nodes;
+  if (/query ReviewThreadComments/.test(query)) {
+    const thread = threads.find(node => node.id === variables.id)!;
+    return { data: { node: { comments: page(thread.comments, variables.first, variables.after) } } };
+  }
+  if (variables.number === 405) {
+    const { pullRequest, ...repository } = fixture.repository;
+    return { data: { repository: { ...repository, pullRequest: null } } };
+  }
+  if (variables.number !== 7) {
+    return {
+      data: { repository: { pullRequest: null } },
+      errors: [{ type: 'NOT_FOUND', path: ['repository', 'pullRequest'], message: `Could not resolve to a PullRequest with the number of ${variables.number}.` }],
+    };
+  }
+
+  const { pullRequest, ...repository } = JSON.parse(JSON.stringify(fixture.repository));
+  const connections = pullRequest as Record<string, Connection>;
+  const followUp = /query PullRequest_(\w+)/.exec(query);
+
+  if (followUp) {
+    const name = followUp[1];
+    return { data: { repository: { pullRequest: { [name]: page(connections[name], variables.first, variables.after) } } } };
+  }
+
+  for (const name of [...Object.keys(INCLUDE_VARIABLES), 'labels']) {
+    if (INCLUDE_VARIABLES[name] && !variables[INCLUDE_VARIABLES[name]]) {
+      delete connections[name];
+    } else {
+      connections[name] = page(connections[name], variables.first);
+    }
+  }
+  for (const thread of (connections.reviewThreads?.nodes || []) as Array<{ comments: Connection }>) {
+    thread.comments = page(thread.comments, threadCommentsFirst);
+  }
+  return { data: { repository: { ...repository, pullRequest } } };
+}
+
+describe('GitHubGraphQLFetcher', () => {
+  const originalFetch = global.fetch;
+  let server: http.Server;
+  let baseUrl: string;
+  let queries: Array<{ query: string; variables: Record<string, any> }>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        res.setHeader('content-type', 'application/json');
+        if (req.url === '/rate_limit') {
+          res.end(JSON.stringify(RATE_LIMIT));
+          return;
+        }
+        if (req.method !== 'POST' || req.url !== '/graphql') {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ message: 'Not Found' }));
+          return;
+        }
+        const { query, variables } = JSON.parse(body);
+        queries.push({ query, variables });
+        res.end(JSON.stringify(resolve(query, variables)));
+      });
+    });
+    await new Promise<void>(done => server.listen(0, '127.0.0.1', done));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(done => server.close(done));
+  });
+
+  beforeEach(() => {
+    queries = [];
+    threadCommentsFirst = Infinity;
+
+    // jsdom has no network stack, so route fetch through node's http client
+    global.fetch = ((input: RequestInfo | URL, init: RequestInit = {}) =>
+      new Promise<Response>((done, fail) => {
+        const url = String(input);
+        const req = http.request(url, { method: init.method || 'GET', headers: init.headers as Record<string, string> }, res => {
+          let text = '';
+          res.on('data', chunk => (text += chunk));
+          res.on('end', () => {
+            const status = res.statusCode || 0;
+            done({
+              ok: status >= 200 && status < 300,
+              status,
+              url,
+              headers: new Headers(res.headers as Record<string, string>),
+              json: async () => JSON.parse(text),
+            } as Response);
+          });
+        });
+        req.on('error', fail);
+        req.end(init.body as string | undefined);
+      })) as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const client = () => new GitHubApiClient({ token: 'test-token', baseUrl, retryAttempts: 1 });
+
+  it('should fetch the whole pull request in a single query when every list fits in one page', async () => {
+    const prData = await new GitHubPRFetcher(client()).fetchPRData('acme', 'widgets', 7, { api: 'graphql' });
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0].variables).toMatchObject({ owner: 'acme', repo: 'widgets', number: 7, first: 100 });
+
+    expect(prData.pullRequest).toMatchObject({
+      id: 9007,
+      state: 'closed',
+      merged: true,
+      commits: 3,
+      comments: 1,
+      review_comments: 2,
+      merge_commit_sha: 'merge444',
+      user: { id: 1, login: 'octocat', type: 'User' },
+      labels: [{ name: 'performance', color: 'f9d0c4' }],
+      head: { ref: 'feature/cache', sha: 'head333' },
+    });
+    expect(prData.pullRequest.mergeable).toBeUndefined();
+    expect(prData.repository).toMatchObject({ id: 1001, full_name: 'acme/widgets', language: 'TypeScript', default_branch: 'main' });
+
+    expect(prData.commits.map(commit => commit.sha)).toEqual(['c1', 'c2', 'head333']);
+    expect(prData.commits[0].stats).toEqual({ additions: 20, deletions: 2, total: 22 });
+    expect(prData.commits[1].author).toBeUndefined();
+
+    expect(prData.files.map(file => [file.filename, file.status, file.changes])).toEqual([
+      ['src/cache.ts', 'added', 20],
+      ['src/renderer.ts', 'modified', 13],
+      ['src/legacy.ts', 'renamed', 3],
+    ]);
+
+    expect(prData.reviews.map(review => [review.id, review.state, review.commit_id])).toEqual([
+      [301, 'CHANGES_REQUESTED', 'c2'],
+      [302, 'APPROVED', 'head333'],
+    ]);
+    expect(prData.reviewComments[1]).toMatchObject({ id: 402, in_reply_to_id: 401, side: 'RIGHT', line: 12, thread_resolved: true });
+    expect(prData.issueComments[0].user).toMatchObject({ login: 'perf-bot', type: 'Bot' });
+
+    expect(prData.timeline.map(event => event.event)).toEqual(['labeled', 'reviewed', 'renamed', 'merged']);
+    expect(prData.timeline[2].rename).toEqual({ from: 'Widget cache', to: 'Add widget cache' });
+    expect(prData.timeline[3]).toMatchObject({ commit_id: 'merge444', actor: { login: 'hubot' } });
+
+    expect(prData.codeStats).toMatchObject({ totalAdditions: 30, totalDeletions: 6, totalFiles: 3 });
+    expect(prData.reviewStats).toMatchObject({ approvals: 1, changesRequested: 1 });
+    expect(prData.truncation).toBeUndefined();
+  });
+
+  it('should follow cursors with per-connection queries when lists span several pages', async () => {
+    const prData = await new GitHubGraphQLFetcher(client(), 2).fetchPRData('acme', 'widgets', 7);
+
+    expect(prData.commits).toHaveLength(3);
+    expect(prData.files).toHaveLength(3);
+    expect(queries.map(({ query }) => /query (\w+)/.exec(query)![1])).toEqual([
+      'PullRequest',
+      'PullRequest_commits',
+      'PullRequest_files',
+      'PullRequest_timelineItems',
+    ]);
+    expect(queries[1].variables).toMatchObject({ first: 2, after: '2' });
+  });
+
+  it('should skip excluded lists and stop at maxItems', async () => {
+    const prData = await new GitHubGraphQLFetcher(client()).fetchPRData('acme', 'widgets', 7, {
+      includeTimeline: false,
+      includeComments: false,
+      maxItems: 2,
+    });
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0].variables).toMatchObject({ first: 2, includeTimeline: false, includeComments: false });
+    expect(prData.timeline).toEqual([]);
+    expect(prData.reviewComments).toEqual([]);
+    expect(prData.truncation).toEqual({
+      commits: { shown: 2, total: 3 },
+      files: { shown: 2, total: 3 },
+    });
+  });
+
+  it('should page through long review threads by thread id', async () => {
+    threadCommentsFirst = 1;
+    const prData = await new GitHubGraphQLFetcher(client()).fetchPRData('acme', 'widgets', 7);
+
+    expect(prData.reviewComments.map(comment => comment.id)).toEqual([401, 402]);
+    expect(queries[1].variables).toMatchObject({ id: 'PRRT_1', after: '1' });
+    expect(prData.truncation).toBeUndefined();
+  });
+
+  it('should raise a not-found error for a missing pull request', async () => {
+    await expect(new GitHubGraphQLFetcher(client()).fetchPRData('acme', 'widgets', 404)).rejects.toBeInstanceOf(
+      GitHubApiNotFoundError
+    );
+  });
+
+  it('should raise a not-found error when the repository has no such pull request', async () => {
+    await expect(new GitHubGraphQLFetcher(client()).fetchPRData('acme', 'widgets', 405)).rejects.toMatchObject({
+      name: 'GitHubApiNotFoundError',
+      resource: '/repos/acme/widgets/pulls/405',
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for reading a repository's history over a date window
+ */
+
+import { GitHubApiClient } from '../client';
+import { GitHubHistoryFetcher } from '../history';
+import { GitHubUser } from '../types';
+
+const user = (login: string): GitHubUser => ({ id: login.length, login, avatar_url: '', html_url: '', type: 'User' });
+
+const window = { since: '2024-03-01T00:00:00Z', until: '2024-03-31T23:59:59Z' };
+
+const pullRequestDetails = (number: number, mergedAt: string | null) => ({
+  number,
+  title: `Change ${number}`,
+  user: user('alice'),
+  labels: [{ id: 1, name: 'bug', color: '' }],
+  state: 'closed',
+  merged: mergedAt !== null,
+  created_at: `2024-03-0${number + 3}T10:00:00Z`,
+  closed_at: '2024-03-05T10:00:00Z',
+  merged_at: mergedAt,
+  additions: 12,
+  deletions: 3,
+  changed_files: 2,
+});
+
+describe('GitHubHistoryFetcher', () => {
+  let client: { request: jest.Mock; getAllPages: jest.Mock; paginateItems: jest.Mock };
+
+  const pages: Record<string, unknown[]> = {
+    '/repos/acme/widgets/commits': [
+      {
+        sha: 'b',
+        author: null,
+        commit: { author: { name: 'Grace', email: 'grace@example.com', date: '2024-03-06T09:00:00Z' }, message: 'Fix it' },
+        parents: [{ sha: 'a' }],
+      },
+      {
+        sha: 'a',
+        author: user('alice'),
+        commit: { author: { name: 'Alice', email: 'alice@example.com', date: '2024-03-02T09:00:00Z' }, message: 'Start' },
+        parents: [{ sha: '0' }],
+      },
+    ],
+    '/repos/acme/widgets/pulls/1/reviews': [
+      { id: 50, user: user('bob'), state: 'APPROVED', submitted_at: '2024-03-04T12:00:00Z' },
+      { id: 51, user: user('carol'), state: 'PENDING' },
+    ],
+    '/repos/acme/widgets/pulls/1/comments': [{ pull_request_review_id: 50 }, { pull_request_review_id: 50 }, {}],
+    '/repos/acme/widgets/issues': [
+      { number: 9, title: 'A PR', user: user('alice'), labels: [], comments: 0, created_at: '2024-03-04T10:00:00Z', updated_at: '2024-03-05T10:00:00Z', closed_at: null, pull_request: {} },
+      { number: 8, title: 'Crash', user: user('dana'), labels: [{ id: 2, name: 'bug', color: '' }], comments: 2, created_at: '2024-03-03T10:00:00Z', updated_at: '2024-03-04T10:00:00Z', closed_at: null },
+      { number: 7, title: 'Old', user: user('dana'), labels: [], comments: 0, created_at: '2024-01-03T10:00:00Z', updated_at: '2024-03-04T10:00:00Z', closed_at: null },
+    ],
+    '/repos/acme/widgets/milestones': [
+      { number: 1, title: 'v1', description: null, state: 'closed', open_issues: 0, closed_issues: 4, created_at: '2024-01-01T00:00:00Z', due_on: null, closed_at: '2024-02-01T00:00:00Z' },
+      { number: 2, title: 'v2', description: 'Next', state: 'open', open_issues: 2, closed_issues: 1, created_at: '2024-02-01T00:00:00Z', due_on: '2024-04-01T00:00:00Z', closed_at: null },
+    ],
+  };
+
+  const listed: Record<string, unknown[]> = {
+    '/repos/acme/widgets/pulls': [
+      { number: 2, created_at: '2024-03-10T00:00:00Z', updated_at: '2024-03-20T00:00:00Z', closed_at: null, merged_at: null },
+      { number: 1, created_at: '2024-03-04T10:00:00Z', updated_at: '2024-03-05T10:00:00Z', closed_at: '2024-03-05T10:00:00Z', merged_at: '2024-03-05T10:00:00Z' },
+      { number: 3, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-02-01T00:00:00Z', closed_at: null, merged_at: null },
+    ],
+    '/repos/acme/widgets/releases': [
+      { tag_name: 'v2.0.0-rc', name: null, draft: true, created_at: '2024-03-25T00:00:00Z', published_at: null },
+      { tag_name: 'v1.1.0', name: 'v1.1.0', draft: false, created_at: '2024-03-15T00:00:00Z', published_at: '2024-03-15T00:00:00Z' },
+      { tag_name: 'v1.0.0', name: 'v1.0.0', draft: false, created_at: '2024-02-15T00:00:00Z', published_at: '2024-02-15T00:00:00Z' },
+    ],
+  };
+
+  beforeEach(() => {
+    client = {
+      request: jest.fn(async (endpoint: string) => {
+        if (endpoint === '/repos/acme/widgets') {
+          return { data: { full_name: 'acme/widgets', description: null, stargazers_count: 10, forks_count: 2, watchers_count: 10, subscribers_count: 3 } };
+        }
+        if (endpoint.startsWith('/repos/acme/widgets/issues/8/comments')) {
+          return { data: [{ user: user('dana'), created_at: '2024-03-03T11:00:00Z' }, { user: user('bob'), created_at: '2024-03-03T14:00:00Z' }] };
+        }
+        const number = Number(endpoint.split('/').pop());
+        return { data: pullRequestDetails(number, number === 1 ? '2024-03-05T10:00:00Z' : null) };
+      }),
+      getAllPages: jest.fn(async (endpoint: string) => pages[endpoint.split('?')[0]] || []),
+      paginateItems: jest.fn(async function* (endpoint: string) {
+        yield* listed[endpoint.split('?')[0]] || [];
+      }),
+    };
+  });
+
+  const fetchHistory = (options = {}) =>
+    new GitHubHistoryFetcher(client as unknown as GitHubApiClient).fetchHistory('acme', 'widgets', window, options);
+
+  it('reads the repository, commits, milestones and releases in the window', async () => {
+    const history = await fetchHistory();
+
+    expect(history.repository).toEqual({ fullName: 'acme/widgets', description: '', stars: 10, forks: 2, watchers: 3 });
+    expect(history.commits.map(commit => [commit.sha, commit.author.login])).toEqual([['a', 'alice'], ['b', 'Grace']]);
+    expect(history.milestones.map(milestone => milestone.title)).toEqual(['v2']);
+    expect(history.releases).toEqual([{ tag: 'v1.1.0', name: 'v1.1.0', publishedAt: '2024-03-15T00:00:00Z' }]);
+    expect(client.getAllPages).toHaveBeenCalledWith(expect.stringContaining('/commits?since=2024-03-01T00%3A00%3A00Z'), {}, 100);
+  });
+
+  it('reads pull requests active in the window with reviews and their comment counts', async () => {
+    const history = await fetchHistory();
+
+    expect(history.pullRequests.map(pullRequest => [pullRequest.number, pullRequest.state])).toEqual([[1, 'merged'], [2, 'closed']]);
+    expect(history.pullRequests[0]).toMatchObject({ labels: ['bug'], additions: 12, deletions: 3, changedFiles: 2 });
+    expect(history.pullRequests[0].reviews).toEqual([
+      { reviewer: user('bob'), state: 'APPROVED', submittedAt: '2024-03-04T12:00:00Z', comments: 2 },
+    ]);
+    expect(client.request).not.toHaveBeenCalledWith('/repos/acme/widgets/pulls/3');
+  });
+
+  it('skips pull requests in the issue list and finds the first reply from someone else', async () => {
+    const history = await fetchHistory();
+
+    expect(history.issues).toEqual([
+      { number: 8, title: 'Crash', author: user('dana'), labels: ['bug'], createdAt: '2024-03-03T10:00:00Z', firstResponseAt: '2024-03-03T14:00:00Z' },
+    ]);
+  });
+
+  it('records truncation when there are more pull requests than the ceiling', async () => {
+    const history = await fetchHistory({ maxPullRequests: 1 });
+
+    expect(history.pullRequests).toHaveLength(1);
+    expect(history.truncation).toEqual({ pullRequests: { shown: 1, total: 2 } });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for resolving the issues a pull request closes or references
+ */
+
+import { GitHubApiClient } from '../client';
+import { GitHubPRFetcher } from '../fetcher';
+import { parseClosingReferences, timelineReferences } from '../linkedIssues';
+import { GitHubTimelineEvent } from '../types';
+
+const RATE_LIMIT = {
+  resources: { core: { limit: 5000, remaining: 4999, reset: 1893456000, used: 1, resource: 'core' } },
+};
+
+const crossReference = (event: string, number: number, extra: Record<string, unknown> = {}): GitHubTimelineEvent => ({
+  event,
+  created_at: '2024-03-01T10:00:00Z',
+  source: {
+    type: 'issue',
+    issue: {
+      id: number,
+      number,
+      title: `Issue ${number}`,
+      state: 'open',
+      html_url: `https://github.com/acme/widgets/issues/${number}`,
+      labels: [],
+      repository: { full_name: 'acme/widgets' },
+      ...extra,
+    },
+  },
+});
+
+describe('parseClosingReferences', () => {
+  it('should find every closing keyword form and target', () => {
+    const body = [
+      'Fixes #12, closes acme/api#3 and Resolved: https://github.com/acme/docs/issues/9.',
+      'fix #12 again',
+      'Related to #40, see `fixes #41`',
+      '<!-- closes #42 -->',
+      '```\nresolves #43\n```',
+      'prefixes #44 and Closes #45abc',
+    ].join('\n');
+
+    expect(parseClosingReferences(body, 'acme', 'widgets').map(ref => `${ref.owner}/${ref.repo}#${ref.number}`)).toEqual([
+      'acme/widgets#12',
+      'acme/api#3',
+      'acme/docs#9',
+    ]);
+    expect(parseClosingReferences(null, 'acme', 'widgets')).toEqual([]);
+  });
+});
+
+describe('timelineReferences', () => {
+  it('should treat connected issues as closing and skip pull request cross-references', () => {
+    const references = timelineReferences(
+      [
+        crossReference('cross-referenced', 5),
+        crossReference('connected', 5),
+        crossReference('cross-referenced', 6, { pull_request: { url: 'https://api.github.com/repos/acme/widgets/pulls/6' } }),
+        crossReference('labeled', 7),
+      ],
+      'acme',
+      'widgets'
+    );
+
+    expect(references).toEqual([expect.objectContaining({ number: 5, closing: true, source: 'timeline' })]);
+  });
+});
+
+describe('GitHubPRFetcher linked issues', () => {
+  const originalFetch = global.fetch;
+  let requested: string[];
+
+  const issues: Record<string, { status: number; body: unknown }> = {
+    '/repos/acme/widgets/issues/12': {
+      status: 200,
+      body: { id: 12, number: 12, title: 'Cold start is slow', state: 'open', html_url: 'https://github.com/acme/widgets/issues/12', labels: [{ id: 1, name: 'bug', color: 'd73a4a' }] },
+    },
+    '/graphql': {
+      status: 200,
+      body: {
+        data: {
+          repository: {
+            pullRequest: {
+              closingIssuesReferences: {
+                nodes: [
+                  { databaseId: 30, number: 30, title: 'Linked by hand', state: 'OPEN', url: 'https://github.com/acme/api/issues/30', body: null, repository: { nameWithOwner: 'acme/api' }, labels: { nodes: [] } },
+                ],
+              },
+            },
+          },
+        },
+      },
+    },
+    '/repos/acme/widgets/issues/13': {
+      status: 200,
+      body: { id: 13, number: 13, title: 'Refactor', state: 'closed', html_url: 'https://github.com/acme/widgets/pull/13', labels: [], pull_request: { url: 'https://api.github.com/repos/acme/widgets/pulls/13' } },
+    },
+  };
+
+  beforeEach(() => {
+    requested = [];
+    global.fetch = (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      const { status, body } = url.pathname === '/rate_limit'
+        ? { status: 200, body: RATE_LIMIT }
+        : issues[url.pathname] || { status: 404, body: { message: 'Not Found' } };
+      if (url.pathname !== '/rate_limit') {
+        requested.push(url.pathname);
+      }
+
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        url: url.toString(),
+        headers: new Headers(),
+        json: async () => body,
+      } as Response;
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const fetcher = () => new GitHubPRFetcher(new GitHubApiClient({ token: 'test-token', retryAttempts: 1 }));
+
+  it('should look up keyword references, reuse timeline payloads and skip pull requests and unreadable issues', async () => {
+    const linked = await fetcher().fetchLinkedIssues(
+      'acme',
+      'widgets',
+      { number: 7, body: 'Fixes #12, fixes #13 and closes acme/private#1' },
+      [crossReference('cross-referenced', 20, { body: 'Seen in prod' })]
+    );
+
+    expect(requested.sort()).toEqual(['/repos/acme/private/issues/1', '/repos/acme/widgets/issues/12', '/repos/acme/widgets/issues/13']);
+    expect(linked).toEqual([
+      {
+        number: 12,
+        repository: 'acme/widgets',
+        title: 'Cold start is slow',
+        state: 'open',
+        labels: [{ id: 1, name: 'bug', color: 'd73a4a' }],
+        html_url: 'https://github.com/acme/widgets/issues/12',
+        closing: true,
+        source: 'body',
+      },
+      expect.objectContaining({ number: 20, body: 'Seen in prod', closing: false, source: 'timeline' }),
+    ]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Skipping linked issue acme/private#1'));
+  });
+
+  it('should ask GraphQL for the issues behind connected events that do not name them', async () => {
+    const connected: GitHubTimelineEvent = { event: 'connected', created_at: '2024-03-01T10:00:00Z' };
+    const linked = await fetcher().fetchLinkedIssues('acme', 'widgets', { number: 7, body: '' }, [connected]);
+
+    expect(requested).toEqual(['/graphql']);
+    expect(linked).toEqual([
+      expect.objectContaining({ number: 30, repository: 'acme/api', title: 'Linked by hand', state: 'open', closing: true, source: 'timeline' }),
+    ]);
+  });
+
+  it('should not query GraphQL when every connected event names its issue', async () => {
+    await fetcher().fetchLinkedIssues('acme', 'widgets', { number: 7, body: '' }, [crossReference('connected', 5)]);
+
+    expect(requested).toEqual([]);
+  });
+});
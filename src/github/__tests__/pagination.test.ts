@@ -0,0 +1,161 @@
+/**
+ * Tests for Link header pagination, item ceilings and truncation reporting
+ */
+
+import { GitHubApiClient, parseLinkHeader } from '../client';
+import { GitHubPRFetcher } from '../fetcher';
+import { describeTruncation, PRVideoTransformer } from '../transformer';
+
+const RATE_LIMIT = {
+  resources: { core: { limit: 5000, remaining: 4999, reset: 1893456000, used: 1, resource: 'core' } },
+};
+
+const user = { id: 1, login: 'octocat', avatar_url: '', html_url: '', type: 'User' };
+
+const commit = (index: number) => ({
+  sha: `sha${index}`,
+  author: user,
+  commit: { message: `Commit ${index}`, author: { name: 'Octo Cat', email: 'octo@example.com', date: '2024-03-01T10:00:00Z' } },
+});
+
+const file = (index: number) => ({
+  filename: `src/file${index}.ts`,
+  status: 'modified',
+  additions: 2,
+  deletions: 1,
+  changes: 3,
+});
+
+const review = (index: number) => ({
+  id: index,
+  user,
+  state: 'COMMENTED',
+  body: '',
+  submitted_at: '2024-03-01T12:00:00Z',
+});
+
+describe('pagination', () => {
+  const originalFetch = global.fetch;
+  let requested: string[];
+  let lists: Record<string, unknown[]>;
+
+  const pullRequest = {
+    number: 7,
+    title: 'Large change',
+    state: 'open',
+    merged: false,
+    user,
+    labels: [],
+    created_at: '2024-03-01T09:00:00Z',
+    updated_at: '2024-03-02T09:00:00Z',
+    commits: 3,
+    changed_files: 5,
+    review_comments: 0,
+    comments: 0,
+  };
+
+  beforeEach(() => {
+    requested = [];
+    lists = {
+      '/repos/acme/widgets/pulls/7/commits': [1, 2, 3].map(commit),
+      '/repos/acme/widgets/pulls/7/files': [1, 2, 3, 4, 5].map(file),
+      '/repos/acme/widgets/pulls/7/reviews': [1, 2].map(review),
+      '/repos/acme/widgets/pulls/7/comments': [],
+      '/repos/acme/widgets/issues/7/comments': [],
+      '/repos/acme/widgets/issues/7/timeline': [],
+    };
+
+    global.fetch = (async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      const respond = (body: unknown, headers: Record<string, string> = {}) =>
+        ({ ok: true, status: 200, url: url.toString(), headers: new Headers(headers), json: async () => body } as Response);
+
+      if (url.pathname === '/rate_limit') {
+        return respond(RATE_LIMIT);
+      }
+      requested.push(`${url.pathname}${url.search}`);
+
+      const list = lists[url.pathname];
+      if (list) {
+        const page = Number(url.searchParams.get('page') || 1);
+        const perPage = Number(url.searchParams.get('per_page') || 30);
+        const last = Math.max(1, Math.ceil(list.length / perPage));
+        const link = (target: number) => `<https://api.github.com${url.pathname}?per_page=${perPage}&page=${target}>`;
+        return respond(
+          list.slice((page - 1) * perPage, page * perPage),
+          page < last ? { link: `${link(page + 1)}; rel="next", ${link(last)}; rel="last"` } : {}
+        );
+      }
+      if (url.pathname.startsWith('/repos/acme/widgets/commits/')) {
+        return respond({ stats: { additions: 2, deletions: 1, total: 3 }, files: [] });
+      }
+      if (url.pathname === '/repos/acme/widgets/pulls/7') {
+        return respond(pullRequest);
+      }
+      return respond({ full_name: 'acme/widgets', name: 'widgets', owner: user });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const client = () => new GitHubApiClient({ token: 'test-token', retryAttempts: 1 });
+
+  it('should parse every rel in a Link header', () => {
+    expect(parseLinkHeader('<https://x/a?page=2>; rel="next", <https://x/a?page=9>; rel="last"')).toEqual({
+      next: 'https://x/a?page=2',
+      last: 'https://x/a?page=9',
+    });
+    expect(parseLinkHeader(undefined)).toEqual({});
+  });
+
+  it('should follow rel="next" URLs until the last page', async () => {
+    const pages: unknown[][] = [];
+    for await (const page of client().paginate('/repos/acme/widgets/pulls/7/files', {}, 2)) {
+      pages.push(page);
+    }
+
+    expect(pages.map(page => page.length)).toEqual([2, 2, 1]);
+    expect(requested).toEqual([
+      '/repos/acme/widgets/pulls/7/files?per_page=2',
+      '/repos/acme/widgets/pulls/7/files?per_page=2&page=2',
+      '/repos/acme/widgets/pulls/7/files?per_page=2&page=3',
+    ]);
+  });
+
+  it('should stop requesting pages once the item ceiling is reached', async () => {
+    const items: unknown[] = [];
+    for await (const item of client().paginateItems('/repos/acme/widgets/pulls/7/files', {}, { perPage: 2, maxItems: 3 })) {
+      items.push(item);
+    }
+
+    expect(items).toHaveLength(3);
+    expect(requested).toHaveLength(2);
+  });
+
+  it('should record truncated lists in PRVideoData and surface them in the scenes', async () => {
+    const prData = await new GitHubPRFetcher(client()).fetchPRData('acme', 'widgets', 7, {
+      parallel: false,
+      maxItems: 2,
+    });
+
+    expect(prData.files).toHaveLength(2);
+    expect(prData.truncation).toEqual({
+      commits: { shown: 2, total: 3 },
+      files: { shown: 2, total: 5 },
+    });
+    expect(prData.reviews).toHaveLength(2);
+    expect(describeTruncation({ shown: 2 }, 'reviews')).toBe('Showing the first 2 reviews');
+
+    const scenes = new PRVideoTransformer().transform(prData, 'summary').scenes;
+    expect(scenes.find(scene => scene.type === 'files')?.data.truncationNote).toBe('Showing 2 of 5 files');
+  });
+
+  it('should leave truncation unset when every item was fetched', async () => {
+    const prData = await new GitHubPRFetcher(client()).fetchPRData('acme', 'widgets', 7, { parallel: false });
+
+    expect(prData.files).toHaveLength(5);
+    expect(prData.truncation).toBeUndefined();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for enumerating a release's pull requests and turning them into chapters and a contributor roll call
+ */
+
+import { GitHubApiClient } from '../client';
+import { GitHubPRFetcher } from '../fetcher';
+import { GitHubReleaseFetcher } from '../release';
+import { ReleaseTransformer } from '../releaseTransformer';
+import { GitHubCommit, GitHubReview, GitHubUser, PRVideoData, ReleaseData } from '../types';
+import { createSamplePRData } from '../../video/scripts/example';
+
+const user = (login: string, type: GitHubUser['type'] = 'User'): GitHubUser => ({ id: login.length, login, avatar_url: '', html_url: '', type });
+
+const review = (login: string): GitHubReview => ({
+  id: login.length,
+  user: user(login),
+  body: '',
+  state: 'APPROVED',
+  html_url: '',
+  pull_request_url: '',
+  author_association: 'MEMBER',
+  submitted_at: '2024-01-16T14:00:00Z',
+  commit_id: 'abc',
+});
+
+const pr = (number: number, title: string, labels: string[] = [], overrides: Partial<PRVideoData> = {}): PRVideoData => {
+  const sample = createSamplePRData();
+  return {
+    ...sample,
+    pullRequest: {
+      ...sample.pullRequest,
+      number,
+      title,
+      labels: labels.map((name, id) => ({ id, name, color: '' })),
+      merge_commit_sha: `sha${number}`,
+      merged_at: `2024-01-${String(10 + number).padStart(2, '0')}T12:00:00Z`,
+      html_url: `https://github.com/company/awesome-app/pull/${number}`,
+    },
+    ...overrides,
+  };
+};
+
+describe('GitHubReleaseFetcher', () => {
+  let client: { request: jest.Mock; getAllPages: jest.Mock };
+  let fetcher: { fetchRepository: jest.Mock; fetchPullRequest: jest.Mock; fetchPRData: jest.Mock };
+  let pullRequests: Record<number, PRVideoData>;
+
+  const releaseFetcher = () =>
+    new GitHubReleaseFetcher(client as unknown as GitHubApiClient, fetcher as unknown as GitHubPRFetcher);
+
+  beforeEach(() => {
+    pullRequests = { 3: pr(3, 'Add export'), 1: pr(1, 'Fix crash'), 2: pr(2, 'Backport fix') };
+    pullRequests[2].pullRequest.merge_commit_sha = 'release-branch-sha';
+
+    client = {
+      request: jest.fn(async (endpoint: string) => {
+        if (endpoint.includes('/commits/')) {
+          const date = endpoint.endsWith('v1.1.0') ? '2024-01-01T00:00:00Z' : '2024-01-20T00:00:00Z';
+          return { data: { commit: { committer: { date } } } };
+        }
+        const page = Number(new URL(endpoint, 'https://api.github.com').searchParams.get('page'));
+        const commits = page === 1 ? ['sha1', 'a1'].map(sha => ({ sha })) : [{ sha: 'sha3' }];
+        return { data: { total_commits: 3, commits } };
+      }),
+      getAllPages: jest.fn(async () =>
+        [3, 1, 2].map(number => ({ number, pull_request: { merged_at: pullRequests[number].pullRequest.merged_at } }))
+      ),
+    };
+    fetcher = {
+      fetchRepository: jest.fn(async () => createSamplePRData().repository),
+      fetchPullRequest: jest.fn(async (owner: string, repo: string, number: number) => pullRequests[number].pullRequest),
+      fetchPRData: jest.fn(async (owner: string, repo: string, number: number) => pullRequests[number]),
+    };
+  });
+
+  it('should keep pull requests whose merge commit lies between the tags, earliest merge first', async () => {
+    const release = await releaseFetcher().fetchReleaseData('company', 'awesome-app', { type: 'tags', base: 'v1.1.0', head: 'v1.2.0' });
+
+    expect(release.name).toBe('v1.2.0');
+    expect(release.pullRequests.map(prData => prData.pullRequest.number)).toEqual([1, 3]);
+    expect(release.truncation).toBeUndefined();
+
+    const [query] = client.getAllPages.mock.calls[0];
+    expect(decodeURIComponent(query)).toContain(
+      'q=repo:company/awesome-app is:pr is:merged merged:2024-01-01T00:00:00Z..2024-01-20T00:00:00Z'
+    );
+    expect(client.request).toHaveBeenCalledWith('/repos/company/awesome-app/compare/v1.1.0...v1.2.0?per_page=100&page=2');
+    expect(fetcher.fetchPRData).toHaveBeenCalledWith('company', 'awesome-app', 3, expect.objectContaining({ includeTimeline: false }));
+    expect(fetcher.fetchPRData).not.toHaveBeenCalledWith('company', 'awesome-app', 2, expect.anything());
+  });
+
+  it('should keep the earliest merges of a tag range when it holds more than the ceiling', async () => {
+    const release = await releaseFetcher().fetchReleaseData(
+      'company',
+      'awesome-app',
+      { type: 'tags', base: 'v1.1.0', head: 'v1.2.0' },
+      { maxPullRequests: 1 }
+    );
+
+    expect(release.pullRequests.map(prData => prData.pullRequest.number)).toEqual([1]);
+    expect(release.truncation).toEqual({ shown: 1, total: 2 });
+    expect(fetcher.fetchPRData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should search a milestone and report how many pull requests were left out', async () => {
+    const release = await releaseFetcher().fetchReleaseData(
+      'company',
+      'awesome-app',
+      { type: 'milestone', milestone: 'Sprint 12' },
+      { maxPullRequests: 2 }
+    );
+
+    expect(release.name).toBe('Sprint 12');
+    expect(release.pullRequests.map(prData => prData.pullRequest.number)).toEqual([1, 2]);
+    expect(release.truncation).toEqual({ shown: 2, total: 3 });
+    expect(decodeURIComponent(client.getAllPages.mock.calls[0][0])).toContain('milestone:"Sprint 12"');
+    expect(client.request).not.toHaveBeenCalled();
+    expect(fetcher.fetchPullRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('ReleaseTransformer', () => {
+  const release = (pullRequests: PRVideoData[]): ReleaseData => ({
+    repository: createSamplePRData().repository,
+    range: { type: 'tags', base: 'v1.1.0', head: 'v1.2.0' },
+    name: 'v1.2.0',
+    pullRequests,
+  });
+
+  it('should sort pull requests into chapters by label, then by conventional-commit prefix', () => {
+    const transformer = new ReleaseTransformer();
+
+    expect(transformer.categorize(pr(1, 'Dark mode', ['type: feature']))).toBe('features');
+    expect(transformer.categorize(pr(2, 'Crash on start', ['bug', 'dependencies']))).toBe('fixes');
+    expect(transformer.categorize(pr(3, 'fix(cli): exit code'))).toBe('fixes');
+    expect(transformer.categorize(pr(4, 'feat: export'))).toBe('features');
+    expect(transformer.categorize(pr(5, 'Bump lodash'))).toBe('chores');
+    expect(new ReleaseTransformer({ categoryLabels: { features: ['kind/new'] } }).categorize(pr(6, 'Widget', ['kind/new']))).toBe('features');
+  });
+
+  it('should order chapters and rank each chapter by the notability the PR transformer reports', () => {
+    const metadata = new ReleaseTransformer().transform(
+      release([
+        pr(1, 'chore: bump deps'),
+        pr(2, 'feat: small tweak'),
+        pr(3, 'feat!: new storage engine', [], { reviews: [review('tech-lead'), review('qa-lead')] }),
+        pr(4, 'Fix crash', ['bug']),
+      ])
+    );
+
+    expect(metadata.chapters.map(chapter => [chapter.title, chapter.pullRequests.map(highlight => highlight.number)])).toEqual([
+      ['New Features', [3, 2]],
+      ['Bug Fixes', [4]],
+      ['Maintenance', [1]],
+    ]);
+    expect(metadata.chapters[0].pullRequests[0].title).toBe('new storage engine');
+    expect(metadata.period).toEqual({ from: '2024-01-11T12:00:00.000Z', to: '2024-01-14T12:00:00.000Z' });
+    expect(metadata.keyMetrics.pullRequests).toBe(4);
+  });
+
+  it('should credit authors, commit authors and reviewers once per pull request, leaving out bots', () => {
+    const signature = { name: 'Jane', email: 'jane@example.com', date: '2024-01-15T10:00:00Z' };
+    const commit = (sha: string, login: string): GitHubCommit => ({
+      sha,
+      commit: { author: signature, committer: signature, message: 'Add export', tree: { sha, url: '' }, url: '', comment_count: 0 },
+      url: '',
+      html_url: '',
+      comments_url: '',
+      author: user(login),
+      parents: [],
+    });
+    const metadata = new ReleaseTransformer().transform(
+      release([
+        pr(1, 'Add export', [], {
+          commits: [commit('c1', 'jane-engineer'), commit('c2', 'jane-engineer')],
+          reviews: [review('tech-lead'), review('tech-lead')],
+        }),
+        pr(2, 'Bump deps', [], { pullRequest: { ...pr(2, 'Bump deps').pullRequest, user: user('dependabot[bot]', 'Bot') } }),
+      ])
+    );
+
+    expect(metadata.contributors.map(({ user: contributor, pullRequests, commits, reviews }) => [contributor.login, pullRequests, commits, reviews])).toEqual([
+      ['jane-engineer', 1, 2, 0],
+      ['tech-lead', 0, 0, 1],
+    ]);
+    expect(metadata.keyMetrics.contributors).toBe(2);
+  });
+
+  it('should use the chosen theme, else the one picked for most pull requests, else the minimal theme', () => {
+    expect(new ReleaseTransformer({ theme: 'dark' }).transform(release([pr(1, 'feat: export')])).theme.id).toBe('dark');
+    expect(new ReleaseTransformer().transform(release([pr(1, 'feat: export')])).theme.id).toBe('modern');
+    expect(new ReleaseTransformer().transform(release([])).theme).toMatchObject({ id: 'minimal', primaryColor: '#6366F1' });
+  });
+});
@@ -2,6 +2,7 @@
  * Tests for PR video transformer
  */
 
+import { highContrastTheme, lightTheme } from '../../theme/themes';
 import { PRVideoTransformer } from '../transformer';
 import { PRVideoData, GitHubPullRequest, GitHubRepository, GitHubUser } from '../types';
 
@@ -332,6 +333,167 @@ describe('PRVideoTransformer', () => {
     });
   });
 
+  describe('quality gates', () => {
+    const run = (id: number, name: string, conclusion: string | null, startedAt: string, minutes: number) => ({
+      id,
+      name,
+      head_sha: 'def456',
+      status: conclusion ? 'completed' as const : 'in_progress' as const,
+      conclusion: conclusion as any,
+      started_at: startedAt,
+      completed_at: conclusion ? new Date(Date.parse(startedAt) + minutes * 60000).toISOString() : null,
+    });
+
+    const checks = {
+      headSha: 'def456',
+      checkRuns: [
+        run(1, 'build', 'success', '2023-01-01T10:00:00Z', 2),
+        run(2, 'e2e', 'failure', '2023-01-01T10:00:00Z', 5),
+        run(3, 'e2e', 'success', '2023-01-01T10:10:00Z', 4),
+        run(4, 'docs', 'skipped', '2023-01-01T10:00:00Z', 0),
+      ],
+      statuses: [
+        { id: 12, state: 'failure' as const, context: 'ci/lint', created_at: '2023-01-01T10:03:00Z', updated_at: '2023-01-01T10:03:00Z' },
+        { id: 11, state: 'pending' as const, context: 'ci/lint', created_at: '2023-01-01T10:00:00Z', updated_at: '2023-01-01T10:00:00Z' },
+      ],
+      deployments: [],
+    };
+
+    it('should summarize jobs, durations and flaky reruns', () => {
+      const scene = transformer.transform({ ...mockPRData, checks }, 'summary').scenes.find(s => s.type === 'qualityGates');
+
+      expect(scene?.priority).toBe('high');
+      expect(scene?.data).toMatchObject({
+        overall: 'failing',
+        passed: 2,
+        failed: 1,
+        skipped: 1,
+        flakyJobs: ['e2e'],
+        totalDuration: 14 * 60,
+      });
+      expect(scene?.data.jobs).toEqual([
+        { name: 'build', source: 'check', outcome: 'passing', duration: 120, attempts: 1, flaky: false },
+        { name: 'e2e', source: 'check', outcome: 'passing', duration: 240, attempts: 2, flaky: true },
+        { name: 'docs', source: 'check', outcome: 'skipped', duration: 0, attempts: 1, flaky: false },
+        { name: 'ci/lint', source: 'status', outcome: 'failing', duration: 180, attempts: 1, flaky: false },
+      ]);
+    });
+
+    it('should measure the total duration from the latest attempts when runs arrive newest first', () => {
+      const newestFirst = { ...checks, checkRuns: [...checks.checkRuns].reverse(), statuses: [] };
+      const scene = transformer.transform({ ...mockPRData, checks: newestFirst }).scenes.find(s => s.type === 'qualityGates');
+
+      expect(scene?.data.totalDuration).toBe(14 * 60);
+    });
+
+    it('should report pending jobs and omit the scene without CI data', () => {
+      const pending = { ...checks, checkRuns: [run(5, 'build', null, '2023-01-01T10:00:00Z', 0)], statuses: [] };
+      const scene = transformer.transform({ ...mockPRData, checks: pending }).scenes.find(s => s.type === 'qualityGates');
+
+      expect(scene?.data.overall).toBe('pending');
+      expect(scene?.data.jobs[0].duration).toBeNull();
+      expect(transformer.transform(mockPRData).scenes.some(s => s.type === 'qualityGates')).toBe(false);
+    });
+  });
+
+  describe('problem statement', () => {
+    const issue = (number: number, title: string, closing: boolean, repository = 'owner/test-repo') => ({
+      number,
+      repository,
+      title,
+      state: 'open' as const,
+      labels: [{ id: number, name: 'bug', color: 'd73a4a' }],
+      html_url: `https://github.com/${repository}/issues/${number}`,
+      body: '<!-- template -->\n\n## Steps\nCache misses on **cold start**.\n\nMore detail.',
+      closing,
+      source: 'body' as const,
+    });
+
+    const linkedIssues = [
+      issue(12, 'Cold start is slow', true),
+      issue(3, 'Shared cache API', true, 'owner/api'),
+      issue(40, 'Perf tracking', false),
+    ];
+
+    it('should describe closed and related issues and mention fixes in the description', () => {
+      const metadata = transformer.transform({ ...mockPRData, linkedIssues }, 'detailed');
+      const scene = metadata.scenes.find(s => s.type === 'problemStatement');
+
+      expect(metadata.scenes.map(s => s.type).slice(0, 3)).toEqual(['intro', 'overview', 'problemStatement']);
+      expect(scene?.priority).toBe('high');
+      expect(scene?.data.statement).toBe(
+        'This pull request resolves #12 (Cold start is slow) and owner/api#3 (Shared cache API). It relates to #40 (Perf tracking).'
+      );
+      expect(scene?.data.closes[0]).toMatchObject({ reference: '#12', labels: ['bug'], excerpt: 'Cache misses on cold start.' });
+      expect(scene?.data.labels).toEqual(['bug']);
+      expect(metadata.description).toMatch(/Fixes #12 and owner\/api#3\.$/);
+    });
+
+    it('should omit the scene when no issues are linked', () => {
+      const metadata = transformer.transform(mockPRData);
+
+      expect(metadata.scenes.some(s => s.type === 'problemStatement')).toBe(false);
+      expect(metadata.description).not.toContain('Fixes');
+    });
+  });
+
+  describe('feedback addressed', () => {
+    const reviewer = { ...mockUser, id: 2, login: 'reviewer1' };
+    const withFeedback: PRVideoData = {
+      ...mockPRData,
+      commits: [
+        mockPRData.commits[0],
+        {
+          ...mockPRData.commits[1],
+          files: [{
+            filename: 'src/utils.py',
+            status: 'modified',
+            additions: 1,
+            deletions: 1,
+            changes: 2,
+            patch: '@@ -2,3 +2,3 @@\n def load():\n-    return read()\n+    return read(retries=3)\n',
+          }],
+        },
+      ],
+      reviewComments: [{
+        id: 7,
+        pull_request_review_id: 1,
+        diff_hunk: '',
+        path: 'src/utils.py',
+        original_position: 3,
+        original_line: 3,
+        line: 3,
+        side: 'RIGHT',
+        commit_id: 'commit2',
+        original_commit_id: 'commit1',
+        user: reviewer,
+        body: 'This should retry. Reads are flaky.',
+        created_at: '2023-01-01T06:00:00Z',
+        updated_at: '2023-01-01T06:00:00Z',
+        html_url: '',
+        pull_request_url: '',
+        author_association: 'MEMBER',
+      }],
+    };
+
+    it('should pair the comment with the commit that changed its line', () => {
+      const metadata = transformer.transform(withFeedback, 'detailed');
+      const types = metadata.scenes.map(s => s.type);
+      const scene = metadata.scenes.find(s => s.type === 'feedbackAddressed');
+
+      expect(types.indexOf('feedbackAddressed')).toBe(types.indexOf('reviews') + 1);
+      expect(scene?.data.fixes).toEqual([
+        expect.objectContaining({ reviewer, location: 'src/utils.py:3', comment: 'This should retry.', commit: withFeedback.commits[1] }),
+      ]);
+      expect(scene?.data.statement).toBe("Review feedback led to 1 fix: @reviewer1's comment on src/utils.py:3 (fixed in commit2).");
+    });
+
+    it('should omit the scene from summaries and when no commit changed the commented lines', () => {
+      expect(transformer.transform(withFeedback, 'summary').scenes.some(s => s.type === 'feedbackAddressed')).toBe(false);
+      expect(transformer.transform(mockPRData, 'detailed').scenes.some(s => s.type === 'feedbackAddressed')).toBe(false);
+    });
+  });
+
   describe('theme selection', () => {
     it('should select appropriate theme for JavaScript projects', () => {
       const result = transformer.transform(mockPRData);
@@ -341,6 +503,16 @@ describe('PRVideoTransformer', () => {
       expect(result.theme.backgroundColor).toBeDefined();
     });
 
+    it('should use the theme chosen explicitly instead of the language pick', () => {
+      const byId = new PRVideoTransformer({ theme: 'high-contrast' }).transform(mockPRData);
+      expect(byId.theme).toMatchObject({ id: 'high-contrast', style: 'modern', backgroundColor: '#000000' });
+      expect(byId.theme.colors?.diff).toBe(highContrastTheme.diff);
+
+      const custom = { ...lightTheme, id: 'paper', name: 'Paper' };
+      expect(new PRVideoTransformer({ theme: custom }).transform(mockPRData).theme).toMatchObject({ id: 'paper', style: 'minimal' });
+      expect(() => new PRVideoTransformer({ theme: 'solarized' }).transform(mockPRData)).toThrow('Unknown theme "solarized"');
+    });
+
     it('should have consistent theme colors', () => {
       const result = transformer.transform(mockPRData);
 
@@ -0,0 +1,294 @@
+/**
+ * Aggregation of raw pull request activity into the video-ready PRVideoData shape
+ * Shared by every data source so statistics are derived the same way regardless of origin
+ */
+
+import {
+  GitHubPullRequest,
+  GitHubCommit,
+  GitHubFile,
+  GitHubReview,
+  GitHubReviewComment,
+  GitHubIssueComment,
+  GitHubTimelineEvent,
+  GitHubRepository,
+  GitHubUser,
+  PRVideoData,
+  PRCollection,
+  PRTruncation,
+  FetchOptions,
+} from './types';
+
+export class PRDataAggregator {
+  /**
+   * Process and aggregate all fetched data into video-ready format
+   */
+  aggregate(
+    pullRequest: GitHubPullRequest,
+    repository: GitHubRepository,
+    commits: GitHubCommit[],
+    files: GitHubFile[],
+    reviews: GitHubReview[],
+    reviewComments: GitHubReviewComment[],
+    issueComments: GitHubIssueComment[],
+    timeline: GitHubTimelineEvent[]
+  ): PRVideoData {
+    console.log('Processing video data...');
+
+    // Calculate participants
+    const participants = this.extractParticipants(
+      pullRequest,
+      commits,
+      reviews,
+      reviewComments,
+      issueComments
+    );
+
+    // Calculate code statistics
+    const codeStats = this.calculateCodeStats(files, commits);
+
+    // Calculate review statistics
+    const reviewStats = this.calculateReviewStats(reviews, reviewComments, timeline);
+
+    // Calculate timeline statistics
+    const timelineStats = this.calculateTimelineStats(pullRequest, reviews, timeline);
+
+    const result: PRVideoData = {
+      pullRequest,
+      commits,
+      files,
+      reviews,
+      reviewComments,
+      issueComments,
+      timeline,
+      repository,
+      participants,
+      codeStats,
+      reviewStats,
+      timelineStats,
+    };
+
+    console.log(`Data processing complete:
+      - ${commits.length} commits
+      - ${files.length} files changed
+      - ${reviews.length} reviews
+      - ${reviewComments.length} review comments
+      - ${issueComments.length} issue comments
+      - ${participants.length} participants
+    `);
+
+    return result;
+  }
+
+  /**
+   * Extract unique participants from all PR activity
+   */
+  private extractParticipants(
+    pullRequest: GitHubPullRequest,
+    commits: GitHubCommit[],
+    reviews: GitHubReview[],
+    reviewComments: GitHubReviewComment[],
+    issueComments: GitHubIssueComment[]
+  ): GitHubUser[] {
+    const userMap = new Map<number, GitHubUser>();
+
+    // Add PR author
+    if (pullRequest?.user) {
+      userMap.set(pullRequest.user.id, pullRequest.user);
+    }
+
+    // Add assignees and reviewers (with null checks)
+    (pullRequest?.assignees || []).forEach(user => userMap.set(user.id, user));
+    (pullRequest?.reviewers || []).forEach(user => userMap.set(user.id, user));
+
+    // Add commit authors and committers
+    (commits || []).forEach(commit => {
+      if (commit.author) userMap.set(commit.author.id, commit.author);
+      if (commit.committer) userMap.set(commit.committer.id, commit.committer);
+    });
+
+    // Add reviewers
+    (reviews || []).forEach(review => {
+      if (review?.user) userMap.set(review.user.id, review.user);
+    });
+
+    // Add comment authors
+    (reviewComments || []).forEach(comment => {
+      if (comment?.user) userMap.set(comment.user.id, comment.user);
+    });
+    (issueComments || []).forEach(comment => {
+      if (comment?.user) userMap.set(comment.user.id, comment.user);
+    });
+
+    return Array.from(userMap.values());
+  }
+
+  /**
+   * Calculate code statistics from files and commits
+   */
+  private calculateCodeStats(files: GitHubFile[], commits: GitHubCommit[]) {
+    const safeFiles = files || [];
+    const totalAdditions = safeFiles.reduce((sum, file) => sum + (file.additions || 0), 0);
+    const totalDeletions = safeFiles.reduce((sum, file) => sum + (file.deletions || 0), 0);
+    const totalFiles = safeFiles.length;
+
+    // Language breakdown based on file extensions
+    const languageBreakdown: Record<string, number> = {};
+    const fileTypes: Record<string, number> = {};
+
+    safeFiles.forEach(file => {
+      const extension = file.filename?.split('.').pop()?.toLowerCase() || 'unknown';
+      fileTypes[extension] = (fileTypes[extension] || 0) + 1;
+
+      // Map extensions to languages (basic mapping)
+      const language = this.mapExtensionToLanguage(extension);
+      languageBreakdown[language] = (languageBreakdown[language] || 0) + (file.changes || 0);
+    });
+
+    return {
+      totalAdditions,
+      totalDeletions,
+      totalFiles,
+      languageBreakdown,
+      fileTypes,
+    };
+  }
+
+  /**
+   * Calculate review statistics
+   */
+  private calculateReviewStats(
+    reviews: GitHubReview[],
+    reviewComments: GitHubReviewComment[],
+    timeline: GitHubTimelineEvent[]
+  ) {
+    const safeReviews = reviews || [];
+    const safeReviewComments = reviewComments || [];
+    
+    const approvals = safeReviews.filter(r => r?.state === 'APPROVED').length;
+    const changesRequested = safeReviews.filter(r => r?.state === 'CHANGES_REQUESTED').length;
+    const comments = safeReviewComments.length;
+
+    // Calculate average review time (from PR creation to first review)
+    const firstReview = safeReviews
+      .filter(r => r?.submitted_at)
+      .sort((a, b) => new Date(a.submitted_at!).getTime() - new Date(b.submitted_at!).getTime())[0];
+
+    let averageReviewTime = 0;
+    if (firstReview && firstReview.submitted_at) {
+      // This would need PR creation time, which we'll calculate in timeline stats
+      averageReviewTime = 0; // Placeholder
+    }
+
+    return {
+      approvals,
+      changesRequested,
+      comments,
+      averageReviewTime,
+    };
+  }
+
+  /**
+   * Calculate timeline statistics
+   */
+  private calculateTimelineStats(
+    pullRequest: GitHubPullRequest,
+    reviews: GitHubReview[],
+    timeline: GitHubTimelineEvent[]
+  ) {
+    const createdAt = pullRequest?.created_at ? new Date(pullRequest.created_at) : new Date();
+    const lastUpdateAt = pullRequest?.updated_at ? new Date(pullRequest.updated_at) : new Date();
+    const mergedAt = pullRequest?.merged_at ? new Date(pullRequest.merged_at) : undefined;
+    const closedAt = pullRequest?.closed_at ? new Date(pullRequest.closed_at) : undefined;
+
+    const safeReviews = reviews || [];
+    const firstReview = safeReviews
+      .filter(r => r?.submitted_at)
+      .sort((a, b) => new Date(a.submitted_at!).getTime() - new Date(b.submitted_at!).getTime())[0];
+    
+    const firstReviewAt = firstReview?.submitted_at ? new Date(firstReview.submitted_at) : undefined;
+
+    const totalDuration = lastUpdateAt.getTime() - createdAt.getTime();
+    const reviewDuration = firstReviewAt 
+      ? firstReviewAt.getTime() - createdAt.getTime() 
+      : undefined;
+
+    return {
+      createdAt,
+      firstReviewAt,
+      lastUpdateAt,
+      mergedAt,
+      closedAt,
+      totalDuration,
+      reviewDuration,
+    };
+  }
+
+  /**
+   * Compare fetched list sizes with the PR's own counters and the item ceiling
+   */
+  detectTruncation(prData: PRVideoData, options: FetchOptions): PRTruncation | undefined {
+    const { pullRequest } = prData;
+    // Reviews and timeline events have no counter on the pull request, so they are never reported
+    const collections: Array<[PRCollection, boolean, number]> = [
+      ['commits', options.includeCommits !== false, pullRequest.commits],
+      ['files', options.includeFiles !== false, pullRequest.changed_files],
+      ['reviewComments', options.includeComments !== false, pullRequest.review_comments],
+      ['issueComments', options.includeComments !== false, pullRequest.comments],
+    ];
+
+    const truncation: PRTruncation = {};
+    collections.forEach(([collection, included, total]) => {
+      const shown = prData[collection].length;
+      // GitHub stops paging at 250 commits and 3000 files, so a known total is the only reliable signal
+      if (included && shown < total) {
+        truncation[collection] = { shown, total };
+        console.warn(`Showing ${shown} of ${total} ${collection}`);
+      }
+    });
+
+    return Object.keys(truncation).length > 0 ? truncation : undefined;
+  }
+
+  /**
+   * Map file extension to programming language
+   */
+  private mapExtensionToLanguage(extension: string): string {
+    const languageMap: Record<string, string> = {
+      'js': 'JavaScript',
+      'jsx': 'JavaScript',
+      'ts': 'TypeScript',
+      'tsx': 'TypeScript',
+      'py': 'Python',
+      'java': 'Java',
+      'cpp': 'C++',
+      'c': 'C',
+      'cs': 'C#',
+      'php': 'PHP',
+      'rb': 'Ruby',
+      'go': 'Go',
+      'rs': 'Rust',
+      'swift': 'Swift',
+      'kt': 'Kotlin',
+      'scala': 'Scala',
+      'html': 'HTML',
+      'css': 'CSS',
+      'scss': 'SCSS',
+      'sass': 'Sass',
+      'less': 'Less',
+      'md': 'Markdown',
+      'json': 'JSON',
+      'xml': 'XML',
+      'yaml': 'YAML',
+      'yml': 'YAML',
+      'toml': 'TOML',
+      'sql': 'SQL',
+      'sh': 'Shell',
+      'bash': 'Shell',
+      'dockerfile': 'Docker',
+      'makefile': 'Makefile',
+    };
+
+    return languageMap[extension] || 'Other';
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * GitHub App installation authentication
+ * Signs a short-lived app JWT and exchanges it for an installation token that is refreshed before it expires
+ */
+
+import { createPrivateKey, createSign, KeyObject } from 'crypto';
+import { GitHubApiAuthenticationError, GitHubAppAuthOptions } from './types';
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+/**
+ * Sign an RS256 app JWT; iat is backdated a minute to tolerate clock drift, exp stays under GitHub's 10 minute cap
+ */
+export function createAppJwt(appId: string | number, privateKey: string | KeyObject, now: number = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000) - 60;
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ iat: issuedAt, exp: issuedAt + 9 * 60, iss: String(appId) }));
+  const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey);
+
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+export class GitHubAppAuth {
+  private key: KeyObject;
+  private options: Required<Omit<GitHubAppAuthOptions, 'baseUrl'>> & { baseUrl: string };
+  private current: InstallationToken | null = null;
+  private pending: Promise<InstallationToken> | null = null;
+
+  constructor(options: GitHubAppAuthOptions, baseUrl: string = 'https://api.github.com') {
+    if (!options.appId) {
+      throw new GitHubApiAuthenticationError('GitHub App authentication requires an app ID');
+    }
+    if (!options.installationId) {
+      throw new GitHubApiAuthenticationError('GitHub App authentication requires an installation ID');
+    }
+
+    this.options = {
+      refreshMarginMs: 5 * 60 * 1000,
+      now: Date.now,
+      ...options,
+      baseUrl: options.baseUrl || baseUrl,
+    };
+
+    try {
+      this.key = createPrivateKey(options.privateKey);
+    } catch (error) {
+      throw new GitHubApiAuthenticationError(
+        `GitHub App private key could not be read (expected a PEM-encoded RSA key): ${(error as Error).message}`
+      );
+    }
+    if (this.key.asymmetricKeyType !== 'rsa') {
+      throw new GitHubApiAuthenticationError(
+        `GitHub App private key must be an RSA key, got ${this.key.asymmetricKeyType}`
+      );
+    }
+  }
+
+  /**
+   * Current installation token, exchanging a new one when none is cached or it is about to expire
+   */
+  async getToken(): Promise<string> {
+    if (this.current && this.options.now() < this.current.expiresAt - this.options.refreshMarginMs) {
+      return this.current.token;
+    }
+
+    // Parallel requests share a single exchange
+    if (!this.pending) {
+      this.pending = this.exchange().finally(() => {
+        this.pending = null;
+      });
+    }
+
+    this.current = await this.pending;
+    return this.current.token;
+  }
+
+  /**
+   * Drop the cached token so the next request exchanges a fresh one
+   */
+  invalidate(): void {
+    this.current = null;
+  }
+
+  /**
+   * When the cached installation token expires, if one has been issued
+   */
+  get expiresAt(): Date | null {
+    return this.current ? new Date(this.current.expiresAt) : null;
+  }
+
+  private async exchange(): Promise<InstallationToken> {
+    const { appId, installationId } = this.options;
+    const url = `${this.options.baseUrl}/app/installations/${installationId}/access_tokens`;
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/vnd.github.v3+json',
+          'Authorization': `Bearer ${createAppJwt(appId, this.key, this.options.now())}`,
+          'User-Agent': 'git2video-pr-analyzer/1.0.0',
+          'X-GitHub-Api-Version': '2022-11-28',
+        },
+      });
+    } catch (error) {
+      throw new GitHubApiAuthenticationError(
+        `Could not reach the GitHub App token endpoint ${url}: ${(error as Error).message}`
+      );
+    }
+
+    let body: { token?: string; expires_at?: string; message?: string } = {};
+    try {
+      body = await response.json();
+    } catch {
+      // Error bodies are optional; the status code carries the reason
+    }
+    const detail = body.message ? `: ${body.message}` : '';
+
+    switch (response.status) {
+      case 200:
+      case 201:
+        break;
+      case 401:
+        throw new GitHubApiAuthenticationError(
+          `GitHub rejected the JWT for app ${appId}${detail}. Check the app ID, the private key and the system clock`
+        );
+      case 403:
+        throw new GitHubApiAuthenticationError(
+          `GitHub App ${appId} may not create tokens for installation ${installationId}${detail}. The installation may be suspended`
+        );
+      case 404:
+        throw new GitHubApiAuthenticationError(
+          `Installation ${installationId} was not found for GitHub App ${appId}${detail}. Check the installation ID`
+        );
+      default:
+        throw new GitHubApiAuthenticationError(
+          `Installation token exchange failed with HTTP ${response.status}${detail}`
+        );
+    }
+
+    const expiresAt = body.expires_at ? Date.parse(body.expires_at) : NaN;
+    if (!body.token || Number.isNaN(expiresAt)) {
+      throw new GitHubApiAuthenticationError('Installation token response is missing token or expires_at');
+    }
+
+    return { token: body.token, expiresAt };
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * On-disk HTTP response cache for conditional GitHub API requests
+ * Entries keep the ETag/Last-Modified validators so repeat runs can be answered with 304 Not Modified
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { GitHubCacheOptions } from './types';
+
+export interface CachedResponse {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+/**
+ * Default cache location, following XDG_CACHE_HOME when set
+ */
+export function defaultCacheDirectory(env: Record<string, string | undefined> = process.env): string {
+  return path.join(env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'git2video', 'github');
+}
+
+export class GitHubResponseCache {
+  private options: Required<GitHubCacheOptions>;
+
+  constructor(options: GitHubCacheOptions = {}) {
+    this.options = {
+      directory: defaultCacheDirectory(),
+      ttlMs: 24 * 60 * 60 * 1000,
+      maxSizeBytes: 50 * 1024 * 1024,
+      now: Date.now,
+      ...options,
+    };
+  }
+
+  get directory(): string {
+    return this.options.directory;
+  }
+
+  /**
+   * Look up a fresh entry for a URL; expired or unreadable entries are removed
+   */
+  async get(url: string): Promise<CachedResponse | null> {
+    const file = this.fileFor(url);
+    let entry: CachedResponse;
+
+    try {
+      entry = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch {
+      return null;
+    }
+
+    if (entry.url !== url || this.options.now() - entry.storedAt > this.options.ttlMs) {
+      await fs.rm(file, { force: true });
+      return null;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Store a response if it carries a validator, then enforce the size cap
+   */
+  async set(url: string, response: Omit<CachedResponse, 'url' | 'storedAt' | 'etag' | 'lastModified'>): Promise<void> {
+    const etag = response.headers.etag;
+    const lastModified = response.headers['last-modified'];
+    if (!etag && !lastModified) {
+      return;
+    }
+
+    const entry: CachedResponse = { url, etag, lastModified, storedAt: this.options.now(), ...response };
+    await fs.mkdir(this.options.directory, { recursive: true });
+    await fs.writeFile(this.fileFor(url), JSON.stringify(entry));
+    await this.enforceSizeLimit(this.fileFor(url));
+  }
+
+  /**
+   * Mark an entry as revalidated so it survives TTL and eviction
+   */
+  async touch(url: string, entry: CachedResponse, headers: Record<string, string>): Promise<CachedResponse> {
+    const refreshed: CachedResponse = {
+      ...entry,
+      etag: headers.etag || entry.etag,
+      lastModified: headers['last-modified'] || entry.lastModified,
+      storedAt: this.options.now(),
+    };
+    await fs.writeFile(this.fileFor(url), JSON.stringify(refreshed));
+    return refreshed;
+  }
+
+  /**
+   * Remove every cached entry
+   */
+  async clear(): Promise<void> {
+    await fs.rm(this.options.directory, { recursive: true, force: true });
+  }
+
+  /**
+   * Total size and count of cached entries
+   */
+  async stats(): Promise<{ entries: number; sizeBytes: number }> {
+    const files = await this.listEntries();
+    return { entries: files.length, sizeBytes: files.reduce((sum, file) => sum + file.size, 0) };
+  }
+
+  private fileFor(url: string): string {
+    return path.join(this.options.directory, `${createHash('sha256').update(url).digest('hex')}.json`);
+  }
+
+  private async listEntries(): Promise<Array<{ file: string; size: number; mtimeMs: number }>> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.options.directory);
+    } catch {
+      return [];
+    }
+
+    const entries = await Promise.all(
+      names
+        .filter(name => name.endsWith('.json'))
+        .map(async name => {
+          const file = path.join(this.options.directory, name);
+          try {
+            const stat = await fs.stat(file);
+            return { file, size: stat.size, mtimeMs: stat.mtimeMs };
+          } catch {
+            return null;
+          }
+        })
+    );
+
+    return entries.filter((entry): entry is { file: string; size: number; mtimeMs: number } => entry !== null);
+  }
+
+  private async enforceSizeLimit(keep: string): Promise<void> {
+    const entries = await this.listEntries();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+    // Oldest writes first; touch() rewrites the file so revalidated entries count as recent
+    for (const entry of entries.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+      if (total <= this.options.maxSizeBytes) {
+        break;
+      }
+      if (entry.file === keep) {
+        continue;
+      }
+      await fs.rm(entry.file, { force: true });
+      total -= entry.size;
+    }
+  }
+}
@@ -2,6 +2,9 @@
  * Rate-limited GitHub API client with comprehensive authentication and error handling
  */
 
+import { GitHubAppAuth } from './appAuth';
+import { GitHubResponseCache } from './cache';
+import { GitHubLogger } from './logger';
 import {
   GitHubConfig,
   GitHubApiResponse,
@@ -15,24 +18,33 @@ import {
 } from './types';
 
 export class GitHubApiClient {
-  private config: Required<GitHubConfig>;
+  private config: Required<Omit<GitHubConfig, 'cache' | 'app' | 'token'>> & Pick<GitHubConfig, 'token'>;
+  private cache?: GitHubResponseCache;
+  private appAuth?: GitHubAppAuth;
   private rateLimitInfo: GitHubRateLimit | null = null;
   private lastRequestTime: number = 0;
   private requestQueue: Array<() => Promise<void>> = [];
   private isProcessingQueue = false;
 
-  constructor(config: GitHubConfig) {
+  constructor(config: GitHubConfig, private logger?: GitHubLogger) {
+    const { cache, app, ...rest } = config;
     this.config = {
       baseUrl: 'https://api.github.com',
       timeout: 30000,
       retryAttempts: 3,
       retryDelay: 1000,
       rateLimitBuffer: 10,
-      ...config,
+      ...rest,
     };
 
-    if (!this.config.token) {
-      throw new GitHubApiAuthenticationError('GitHub token is required');
+    if (app) {
+      this.appAuth = new GitHubAppAuth(app, this.config.baseUrl);
+    } else if (!this.config.token) {
+      throw new GitHubApiAuthenticationError('GitHub token or GitHub App credentials are required');
+    }
+
+    if (cache) {
+      this.cache = new GitHubResponseCache(cache);
     }
   }
 
@@ -49,24 +61,34 @@ export class GitHubApiClient {
       ? endpoint
       : `${this.config.baseUrl}${endpoint}`;
 
-    const headers = {
-      'Accept': 'application/vnd.github.v3+json',
-      'Authorization': `Bearer ${this.config.token}`,
-      'User-Agent': 'git2video-pr-analyzer/1.0.0',
-      'X-GitHub-Api-Version': '2022-11-28',
-      ...options.headers,
-    };
-
-    const requestOptions: RequestInit = {
-      ...options,
-      headers,
-      // Note: AbortSignal.timeout not available in older Node.js versions
-      // Manual timeout handling would need to be implemented if required
-    };
+    // Only GETs are cached; a stored validator turns the request into a conditional one
+    const cacheable = Boolean(this.cache) && (options.method || 'GET').toUpperCase() === 'GET';
+    const cached = cacheable ? await this.cache!.get(url) : null;
 
     let lastError: Error = new Error('No attempts made');
+    let reauthenticated = false;
+    let fetched: { status: number; headers: Record<string, string>; data: T } | undefined;
+    let revalidated = false;
 
     for (let attempt = 1; attempt <= this.config.retryAttempts; attempt++) {
+      // Resolved per attempt so an installation token refreshed mid-retry is picked up
+      const headers = {
+        'Accept': 'application/vnd.github.v3+json',
+        'Authorization': `Bearer ${await this.getAccessToken()}`,
+        'User-Agent': 'git2video-pr-analyzer/1.0.0',
+        'X-GitHub-Api-Version': '2022-11-28',
+        ...(cached?.etag ? { 'If-None-Match': cached.etag } : {}),
+        ...(cached?.lastModified ? { 'If-Modified-Since': cached.lastModified } : {}),
+        ...options.headers,
+      };
+
+      const requestOptions: RequestInit = {
+        ...options,
+        headers,
+        // Note: AbortSignal.timeout not available in older Node.js versions
+        // Manual timeout handling would need to be implemented if required
+      };
+
       try {
         this.lastRequestTime = Date.now();
         
@@ -77,20 +99,31 @@ export class GitHubApiClient {
           this.updateRateLimitInfo(response.headers);
         }
 
+        const responseHeaders = response.headers ? Object.fromEntries(response.headers.entries()) : {};
+
+        // 304 Not Modified does not count against the rate limit
+        if (response.status === 304 && cached) {
+          fetched = { status: cached.status, headers: responseHeaders, data: cached.data as T };
+          revalidated = true;
+          break;
+        }
+
         if (!response.ok) {
           await this.handleErrorResponse(response);
         }
 
-        const data = await response.json() as T;
-
-        return {
-          data,
-          status: response.status,
-          headers: response.headers ? Object.fromEntries(response.headers.entries()) : {},
-          rateLimit: this.rateLimitInfo || undefined,
-        };
+        fetched = { status: response.status, headers: responseHeaders, data: await response.json() as T };
+        break;
       } catch (error) {
         lastError = error as Error;
+
+        // An installation token can be revoked before it expires; exchange a new one and retry once
+        if (error instanceof GitHubApiAuthenticationError && this.appAuth && !reauthenticated) {
+          this.appAuth.invalidate();
+          reauthenticated = true;
+          attempt--;
+          continue;
+        }
         
         // Don't retry on authentication errors or client errors
         if (
@@ -114,11 +147,72 @@ export class GitHubApiClient {
       }
     }
 
-    throw new GitHubApiFetchError(
-      `Request failed after ${this.config.retryAttempts} attempts: ${lastError.message}`,
-      0,
-      lastError
-    );
+    if (!fetched) {
+      throw new GitHubApiFetchError(
+        `Request failed after ${this.config.retryAttempts} attempts: ${lastError.message}`,
+        0,
+        lastError
+      );
+    }
+
+    // Written once the response is in hand, so a cache that can't be written doesn't fail or retry the request
+    if (revalidated) {
+      await this.writeCache(url, () => this.cache!.touch(url, cached!, fetched!.headers));
+      this.recordCacheAccess('hit', url);
+      return {
+        data: cached!.data as T,
+        status: cached!.status,
+        headers: cached!.headers,
+        rateLimit: this.rateLimitInfo || undefined,
+        fromCache: true,
+      };
+    }
+
+    if (cacheable) {
+      await this.writeCache(url, () => this.cache!.set(url, fetched!));
+      this.recordCacheAccess('miss', url);
+    }
+
+    return {
+      data: fetched.data,
+      status: fetched.status,
+      headers: fetched.headers,
+      rateLimit: this.rateLimitInfo || undefined,
+    };
+  }
+
+  /**
+   * Run a GraphQL query; GraphQL-level errors are raised like their REST counterparts
+   */
+  async graphql<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    // GitHub Enterprise serves REST under /api/v3 and GraphQL under /api/graphql
+    const url = /\/api\/v3\/?$/.test(this.config.baseUrl)
+      ? this.config.baseUrl.replace(/\/api\/v3\/?$/, '/api/graphql')
+      : `${this.config.baseUrl}/graphql`;
+
+    const response = await this.request<{
+      data?: T;
+      errors?: Array<{ message: string; type?: string; path?: Array<string | number> }>;
+    }>(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables }),
+    });
+
+    const errors = response.data.errors || [];
+    if (errors.length > 0) {
+      const message = errors.map(error => error.message).join('; ');
+      if (errors.some(error => error.type === 'NOT_FOUND')) {
+        throw new GitHubApiNotFoundError(`Resource not found: ${message}`, url);
+      }
+      throw new GitHubApiFetchError(`GraphQL query failed: ${message}`, response.status, errors);
+    }
+
+    if (!response.data.data) {
+      throw new GitHubApiFetchError('GraphQL response contained no data', response.status, response.data);
+    }
+
+    return response.data.data;
   }
 
   /**
@@ -129,7 +223,7 @@ export class GitHubApiClient {
     const url = `${this.config.baseUrl}/rate_limit`;
     const headers = {
       'Accept': 'application/vnd.github.v3+json',
-      'Authorization': `Bearer ${this.config.token}`,
+      'Authorization': `Bearer ${await this.getAccessToken()}`,
       'User-Agent': 'git2video-pr-analyzer/1.0.0',
       'X-GitHub-Api-Version': '2022-11-28',
     };
@@ -182,6 +276,28 @@ export class GitHubApiClient {
     }
   }
 
+  /**
+   * Store a response in the cache; a read-only or full cache directory is logged and the response still served
+   */
+  private async writeCache(url: string, write: () => Promise<unknown>): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      console.warn(`Failed to write the GitHub response cache for ${url}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Report a cache lookup to the logger's performance analytics
+   */
+  private recordCacheAccess(outcome: 'hit' | 'miss', url: string): void {
+    this.logger?.recordCacheAccess({
+      timestamp: new Date(),
+      outcome,
+      endpoint: url.replace(this.config.baseUrl, ''),
+    });
+  }
+
   /**
    * Wait for rate limit reset
    */
@@ -214,6 +330,13 @@ export class GitHubApiClient {
     }
   }
 
+  /**
+   * Bearer token for the next request: the static token or a current installation token
+   */
+  private async getAccessToken(): Promise<string> {
+    return this.appAuth ? this.appAuth.getToken() : this.config.token!;
+  }
+
   /**
    * Handle error responses from the API
    */
@@ -280,48 +403,68 @@ export class GitHubApiClient {
   }
 
   /**
-   * Get paginated results from the GitHub API
+   * Get paginated results from the GitHub API, following Link rel="next" URLs
    */
   async *paginate<T>(
     endpoint: string,
     options: RequestInit = {},
     perPage: number = 100
   ): AsyncGenerator<T[], void, unknown> {
-    let page = 1;
-    let hasMore = true;
+    const first = new URL(endpoint, this.config.baseUrl);
+    first.searchParams.set('per_page', perPage.toString());
+    let next: string | undefined = first.toString();
 
-    while (hasMore) {
-      const url = new URL(endpoint, this.config.baseUrl);
-      url.searchParams.set('page', page.toString());
-      url.searchParams.set('per_page', perPage.toString());
+    while (next) {
+      const response: GitHubApiResponse<T[]> = await this.request<T[]>(next, options);
+      const items = listItems<T>(response.data);
 
-      const response = await this.request<T[]>(url.toString(), options);
-      
-      if (response.data.length === 0) {
+      if (items.length === 0) {
         break;
       }
 
-      yield response.data;
+      yield items;
+
+      next = parseLinkHeader(response.headers.link).next;
+    }
+  }
+
+  /**
+   * Iterate over individual items across pages, stopping after maxItems
+   */
+  async *paginateItems<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    { perPage = 100, maxItems = Infinity }: { perPage?: number; maxItems?: number } = {}
+  ): AsyncGenerator<T, void, unknown> {
+    if (maxItems <= 0) {
+      return;
+    }
 
-      // Check if there are more pages using Link header
-      const linkHeader = response.headers.link;
-      hasMore = linkHeader ? linkHeader.includes('rel="next"') : false;
-      page++;
+    let count = 0;
+    // Smaller first page when the ceiling is below a full page
+    for await (const page of this.paginate<T>(endpoint, options, Math.min(perPage, maxItems))) {
+      for (const item of page) {
+        yield item;
+        if (++count >= maxItems) {
+          return;
+        }
+      }
     }
   }
 
   /**
-   * Get all paginated results as a flat array
+   * Get all paginated results as a flat array, up to maxItems
    */
   async getAllPages<T>(
     endpoint: string,
     options: RequestInit = {},
-    perPage: number = 100
+    perPage: number = 100,
+    maxItems?: number
   ): Promise<T[]> {
     const results: T[] = [];
     
-    for await (const page of this.paginate<T>(endpoint, options, perPage)) {
-      results.push(...page);
+    for await (const item of this.paginateItems<T>(endpoint, options, { perPage, maxItems })) {
+      results.push(item);
     }
     
     return results;
@@ -419,4 +562,38 @@ export class GitHubApiClient {
       throw error;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Parse an RFC 8288 Link header into a map of rel → URL
+ */
+export function parseLinkHeader(header: string | null | undefined): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) {
+    return links;
+  }
+
+  header.split(',').forEach(part => {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/);
+    if (match) {
+      match[2].split(/\s+/).forEach(rel => {
+        links[rel] = match[1];
+      });
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Items of a list response; endpoints such as check runs wrap the page as { total_count, check_runs: [...] }
+ */
+function listItems<T>(data: unknown): T[] {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  if (data && typeof data === 'object' && 'total_count' in data) {
+    return (Object.values(data).find(Array.isArray) as T[] | undefined) || [];
+  }
+  return [];
+}
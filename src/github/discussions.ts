@@ -0,0 +1,298 @@
+/**
+ * Review conversation analysis for pull requests
+ * Threads inline review comments, decides whether each thread was resolved and orders the review into a
+ * chronological flow for the review scene
+ */
+
+import { LineRange, mapLinesThroughPatch, parsePatch } from './feedback';
+import type { Discussion, ReviewFlow } from './transformer';
+import { GitHubCommit, GitHubReview, GitHubReviewComment, GitHubTimelineEvent, GitHubUser, PRVideoData } from './types';
+
+export interface ReviewThread {
+  /** Id of the comment that started the thread */
+  id: number;
+  path: string;
+  line?: number;
+  /** Comments in the order they were written */
+  comments: GitHubReviewComment[];
+  participants: GitHubUser[];
+  /** The diff moved under the thread after it started */
+  outdated: boolean;
+  /** Commits after the thread started that changed its lines */
+  followUpCommits: GitHubCommit[];
+  resolution: Discussion['resolution'];
+}
+
+const MAX_KEY_POINT_LENGTH = 120;
+
+// A last reply like "Done", "Fixed in abc123" or "Addressed, thanks"
+const RESOLVED_REPLY = /^\W*(?:done|fixed|addressed|resolved|updated|changed|good catch)\b|\b(?:fixed|addressed|done|resolved) (?:in|by|with)\b/i;
+
+// Replies that push the change out of this pull request
+const DEFERRED_REPLY = /\bfollow[- ]?up\b|\bseparate (?:pr|pull request|issue|change)\b|\bout of scope\b|\bin a later\b|\bfuture (?:pr|pull request|change)\b|\b(?:opened|filed|created) (?:an? )?issue\b/i;
+
+/**
+ * Group review comments into threads: replies join the comment they answer, and separate comments on the same
+ * line of the same file join each other
+ */
+export function threadReviewComments(comments: GitHubReviewComment[]): GitHubReviewComment[][] {
+  const byId = new Map(comments.map(comment => [comment.id, comment]));
+  const rootOf = (comment: GitHubReviewComment): GitHubReviewComment => {
+    const seen = new Set<number>();
+    let current = comment;
+    while (current.in_reply_to_id != null && byId.has(current.in_reply_to_id) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.in_reply_to_id)!;
+    }
+    return current;
+  };
+
+  const threads = new Map<string, GitHubReviewComment[]>();
+  chronological(comments, comment => comment.created_at).forEach(comment => {
+    const root = rootOf(comment);
+    // Outdated comments have no current line, so only their reply chain can place them
+    const key = root.line != null ? `${root.path}:${root.line}` : `#${root.id}`;
+    const thread = threads.get(key);
+    if (thread) {
+      thread.push(comment);
+    } else {
+      threads.set(key, [comment]);
+    }
+  });
+  return [...threads.values()];
+}
+
+/**
+ * Commits made after the thread started that changed its lines, oldest first by committer date. The lines are
+ * followed through each commit's patch from the commit the thread was written against; a thread without lines on
+ * the new side follows its file instead. Commits without a file list count only when the thread went outdated,
+ * since something then changed the lines under it
+ */
+export function followUpCommits(comments: GitHubReviewComment[], commits: GitHubCommit[]): GitHubCommit[] {
+  const root = comments[0];
+  const outdated = comments.some(isOutdated);
+  const ordered = chronological(commits, commit => commit.commit.committer.date);
+  const base = ordered.findIndex(commit => commit.sha === (root.original_commit_id || root.commit_id));
+  const later = base === -1
+    ? ordered.filter(commit => Date.parse(commit.commit.committer.date) > Date.parse(root.created_at))
+    : ordered.slice(base + 1);
+
+  const end = root.original_line ?? root.line;
+  const start = root.original_start_line ?? root.start_line ?? end;
+  let lines: LineRange | undefined = end != null && root.side !== 'LEFT'
+    ? { start: Math.min(start!, end), end: Math.max(start!, end) }
+    : undefined;
+  let path = root.path;
+
+  return later.filter(commit => {
+    if (!commit.files) {
+      return outdated;
+    }
+    const file = commit.files.find(entry => entry.filename === path || entry.previous_filename === path);
+    if (!file) {
+      return false;
+    }
+    path = file.filename;
+    if (!lines || !file.patch) {
+      // No new-side lines, or a binary or oversized patch: any change to the file counts, a pure rename does not
+      return file.status !== 'renamed' || file.changes > 0;
+    }
+
+    const result = mapLinesThroughPatch(lines, parsePatch(file.patch));
+    if ('moved' in result) {
+      lines = result.moved;
+      return false;
+    }
+    // Keep following what the hunk turned the lines into
+    const { newStart, newLines } = result.changed;
+    lines = { start: newStart, end: newStart + Math.max(newLines, 1) - 1 };
+    return true;
+  });
+}
+
+/**
+ * GitHub's resolved flag when the fetcher knows it, deferred when a reply moves the change elsewhere. Without
+ * the flag, resolved when the last reply says it was done or the code changed under the thread, otherwise ongoing
+ */
+export function threadResolution(comments: GitHubReviewComment[], followUps: GitHubCommit[]): Discussion['resolution'] {
+  const replies = comments.slice(1);
+  const flagged = comments.find(comment => comment.thread_resolved !== undefined)?.thread_resolved;
+  if (flagged) {
+    return 'resolved';
+  }
+  const last = replies[replies.length - 1];
+  if (flagged === undefined && last && RESOLVED_REPLY.test(last.body)) {
+    return 'resolved';
+  }
+  if (replies.some(reply => DEFERRED_REPLY.test(reply.body))) {
+    return 'deferred';
+  }
+  if (flagged === false) {
+    return 'ongoing';
+  }
+  return followUps.length > 0 || comments.some(isOutdated) ? 'resolved' : 'ongoing';
+}
+
+/**
+ * Review threads, most significant first. Each participant counts three, each comment one and leading to a
+ * follow-up commit two
+ */
+export function analyzeReviewThreads(comments: GitHubReviewComment[], commits: GitHubCommit[]): ReviewThread[] {
+  const threads = threadReviewComments(comments).map(thread => {
+    const followUps = followUpCommits(thread, commits);
+    return {
+      id: thread[0].id,
+      path: thread[0].path,
+      ...(thread[0].line != null ? { line: thread[0].line } : {}),
+      comments: thread,
+      participants: uniqueUsers(thread.map(comment => comment.user)),
+      outdated: thread.some(isOutdated),
+      followUpCommits: followUps,
+      resolution: threadResolution(thread, followUps),
+    };
+  });
+
+  const score = (thread: ReviewThread) =>
+    thread.participants.length * 3 + thread.comments.length + (thread.followUpCommits.length > 0 ? 2 : 0);
+  return threads
+    .map((thread, index) => ({ thread, index }))
+    .sort((a, b) => score(b.thread) - score(a.thread) || a.index - b.index)
+    .map(({ thread }) => thread);
+}
+
+/**
+ * The top threads as discussions, each key point attributed to the person who made it
+ */
+export function toDiscussions(threads: ReviewThread[], limit = 5): Discussion[] {
+  return threads.slice(0, limit).map(thread => {
+    const points = thread.comments
+      .map(comment => ({ login: comment.user.login, point: keyPoint(comment.body) }))
+      .filter((entry): entry is { login: string; point: string } => entry.point !== undefined)
+      .map(({ login, point }) => `@${login}: ${point}`);
+    if (thread.followUpCommits.length > 0) {
+      const count = thread.followUpCommits.length;
+      points.push(`${count} follow-up commit${count === 1 ? '' : 's'} to ${thread.path}`);
+    }
+
+    return {
+      topic: thread.line !== undefined ? `${thread.path}:${thread.line}` : thread.path,
+      participants: thread.participants,
+      commentCount: thread.comments.length,
+      resolution: thread.resolution,
+      key_points: points.slice(0, 4),
+    };
+  });
+}
+
+/**
+ * Review requests and submitted reviews in the order they happened
+ */
+export function buildReviewFlow(prData: Pick<PRVideoData, 'reviews' | 'reviewComments' | 'timeline'>): ReviewFlow[] {
+  const requests = prData.timeline
+    .filter(event => event.event === 'review_requested')
+    .flatMap((event): ReviewFlow[] => {
+      const reviewer = event.requested_reviewer || event.assignee;
+      const user = reviewer || event.actor;
+      if (!user) {
+        return [];
+      }
+      return [{
+        date: new Date(event.created_at),
+        event: 'review_requested',
+        user,
+        ...requestContext(event, reviewer),
+      }];
+    });
+
+  const submitted = prData.reviews
+    .filter(review => review.state !== 'PENDING' && review.submitted_at)
+    .map((review): ReviewFlow => {
+      const context = keyPoint(review.body) || commentSummary(prData.reviewComments.filter(comment => comment.pull_request_review_id === review.id));
+      return {
+        date: new Date(review.submitted_at!),
+        event: review.state === 'APPROVED' ? 'approved' : review.state === 'CHANGES_REQUESTED' ? 'changes_requested' : 'review_submitted',
+        user: review.user,
+        ...(context ? { context } : {}),
+      };
+    });
+
+  return chronological([...requests, ...submitted], flow => flow.date.toISOString());
+}
+
+/**
+ * The point of the review body, then the first point of each inline thread the review started
+ */
+export function reviewKeyPoints(review: GitHubReview, comments: GitHubReviewComment[], limit = 3): string[] {
+  const points = [
+    keyPoint(review.body),
+    ...comments
+      .filter(comment => comment.pull_request_review_id === review.id && comment.in_reply_to_id == null)
+      .map(comment => {
+        const point = keyPoint(comment.body);
+        return point && `${comment.path.split('/').pop()}: ${point}`;
+      }),
+  ];
+  return [...new Set(points.filter((point): point is string => Boolean(point)))].slice(0, limit);
+}
+
+/**
+ * The first sentence of a comment, without quoted replies, code blocks or markup. A comment that is only a
+ * suggested change reads as "Suggested a change"
+ */
+export function keyPoint(body: string | null | undefined): string | undefined {
+  if (!body) {
+    return undefined;
+  }
+  const suggestion = /```suggestion\b/.test(body);
+  const text = body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/^\s*>.*$/gm, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`#]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) {
+    return suggestion ? 'Suggested a change' : undefined;
+  }
+
+  const sentence = text.match(/^.+?[.!?](?=\s|$)/)?.[0] || text;
+  return sentence.length > MAX_KEY_POINT_LENGTH ? `${sentence.slice(0, MAX_KEY_POINT_LENGTH - 3)}...` : sentence;
+}
+
+function requestContext(event: GitHubTimelineEvent, reviewer: GitHubUser | undefined): { context?: string } {
+  if (!reviewer) {
+    return {};
+  }
+  if (event.actor && event.actor.login !== reviewer.login) {
+    return { context: `Requested by @${event.actor.login}` };
+  }
+  return {};
+}
+
+function commentSummary(comments: GitHubReviewComment[]): string | undefined {
+  if (comments.length === 0) {
+    return undefined;
+  }
+  const files = new Set(comments.map(comment => comment.path)).size;
+  return `${comments.length} comment${comments.length === 1 ? '' : 's'} on ${files} file${files === 1 ? '' : 's'}`;
+}
+
+function isOutdated(comment: GitHubReviewComment): boolean {
+  return comment.position == null && comment.original_position != null;
+}
+
+function uniqueUsers(users: GitHubUser[]): GitHubUser[] {
+  const seen = new Set<string>();
+  return users.filter(user => !seen.has(user.login) && Boolean(seen.add(user.login)));
+}
+
+/**
+ * Sort by timestamp, keeping the original order for equal ones
+ */
+function chronological<T>(items: T[], date: (item: T) => string): T[] {
+  return items
+    .map((item, index) => ({ item, index, time: Date.parse(date(item)) }))
+    .sort((a, b) => a.time - b.time || a.index - b.index)
+    .map(({ item }) => item);
+}
@@ -0,0 +1,179 @@
+/**
+ * Links review feedback to the commits that addressed it
+ * Follows each thread's commented lines through the patches of the commits made after it, and stops at the first
+ * commit that changed one of them
+ */
+
+import { threadReviewComments } from './discussions';
+import { GitHubCommit, GitHubFile, GitHubReviewComment } from './types';
+
+export interface PatchHunk {
+  /** The `@@ -a,b +c,d @@` line */
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Body lines, each starting with ' ', '+', '-' or '\' */
+  lines: string[];
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface AddressedFeedback {
+  /** The comment that started the thread, then its replies */
+  thread: GitHubReviewComment[];
+  /** First commit whose patch changed the commented lines */
+  commit: GitHubCommit;
+  /** The commit's change to the file, with the patch narrowed to the hunk that touched the lines */
+  change: GitHubFile;
+  /** Commented lines as numbered just before the commit */
+  lines: LineRange;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Split a unified diff patch, as GitHub returns it per file, into hunks
+ */
+export function parsePatch(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  patch.split('\n').forEach(line => {
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      hunks.push({
+        header: line,
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+      });
+    } else if (hunks.length > 0) {
+      hunks[hunks.length - 1].lines.push(line);
+    }
+  });
+  return hunks;
+}
+
+/**
+ * Where lines of the file before a patch end up after it, or the hunk that removed or rewrote one of them
+ */
+export function mapLinesThroughPatch(range: LineRange, hunks: PatchHunk[]): { moved: LineRange } | { changed: PatchHunk } {
+  const moved: number[] = [];
+  for (let line = range.start; line <= range.end; line++) {
+    const mapped = mapLine(line, hunks);
+    if (typeof mapped !== 'number') {
+      return { changed: mapped };
+    }
+    moved.push(mapped);
+  }
+  return { moved: { start: moved[0], end: moved[moved.length - 1] } };
+}
+
+/**
+ * Review threads on the new side of the diff whose lines a later commit changed, in the order the threads started.
+ * Commits are expected oldest first, as the pull request lists them. Threads are followed from the commit they
+ * were written against, or from the first commit after them when that commit is gone (e.g. after a force push)
+ */
+export function linkFeedbackToCommits(comments: GitHubReviewComment[], commits: GitHubCommit[]): AddressedFeedback[] {
+  return threadReviewComments(comments).flatMap(thread => {
+    const addressed = findAddressingCommit(thread[0], commits);
+    return addressed ? [{ thread, ...addressed }] : [];
+  });
+}
+
+function findAddressingCommit(
+  comment: GitHubReviewComment,
+  commits: GitHubCommit[]
+): Omit<AddressedFeedback, 'thread'> | undefined {
+  const end = comment.original_line ?? comment.line;
+  if (comment.side === 'LEFT' || end == null) {
+    return undefined;
+  }
+  const start = comment.original_start_line ?? comment.start_line ?? end;
+
+  const base = commits.findIndex(commit => commit.sha === (comment.original_commit_id || comment.commit_id));
+  const later = base === -1
+    ? commits.filter(commit => Date.parse(commit.commit.author.date) > Date.parse(comment.created_at))
+    : commits.slice(base + 1);
+
+  let path = comment.path;
+  let lines: LineRange = { start: Math.min(start, end), end: Math.max(start, end) };
+  for (const commit of later) {
+    // Without a file list there is no telling what the commit touched
+    const file = commit.files?.find(candidate => candidate.filename === path || candidate.previous_filename === path);
+    if (!file) {
+      continue;
+    }
+    if (file.status === 'removed') {
+      return { commit, change: file, lines };
+    }
+    if (!file.patch) {
+      if (file.status === 'renamed' && file.changes === 0) {
+        path = file.filename;
+        continue;
+      }
+      // Binary or too large for GitHub to show: the lines can't be followed any further
+      return undefined;
+    }
+
+    const result = mapLinesThroughPatch(lines, parsePatch(file.patch));
+    if ('changed' in result) {
+      return { commit, change: narrowToHunk(file, result.changed), lines };
+    }
+    path = file.filename;
+    lines = result.moved;
+  }
+  return undefined;
+}
+
+function mapLine(line: number, hunks: PatchHunk[]): number | PatchHunk {
+  let offset = 0;
+  for (const hunk of hunks) {
+    // A pure insertion (`@@ -5,0 +6,2 @@`) adds its lines after old line 5, so that line stays put
+    if (line < hunk.oldStart || (hunk.oldLines === 0 && line === hunk.oldStart)) {
+      break;
+    }
+    if (line >= hunk.oldStart + hunk.oldLines) {
+      offset += hunk.newLines - hunk.oldLines;
+      continue;
+    }
+
+    let oldLine = hunk.oldStart;
+    let newLine = hunk.newStart;
+    for (const body of hunk.lines) {
+      if (body.startsWith('+')) {
+        newLine++;
+      } else if (body.startsWith('-')) {
+        if (oldLine === line) {
+          return hunk;
+        }
+        oldLine++;
+      } else if (!body.startsWith('\\')) {
+        if (oldLine === line) {
+          return newLine;
+        }
+        oldLine++;
+        newLine++;
+      }
+    }
+    return hunk;
+  }
+  return line + offset;
+}
+
+function narrowToHunk(file: GitHubFile, hunk: PatchHunk): GitHubFile {
+  const additions = hunk.lines.filter(line => line.startsWith('+')).length;
+  const deletions = hunk.lines.filter(line => line.startsWith('-')).length;
+  return {
+    ...file,
+    patch: [hunk.header, ...hunk.lines].join('\n'),
+    additions,
+    deletions,
+    changes: additions + deletions,
+  };
+}
@@ -3,6 +3,17 @@
  */
 
 import { GitHubApiClient } from './client';
+import { PRDataAggregator } from './aggregator';
+import { GitHubGraphQLFetcher } from './graphql';
+import {
+  closingIssueReferences,
+  dedupeReferences,
+  hasUnnamedConnections,
+  IssueReference,
+  parseClosingReferences,
+  timelineReferences,
+  toLinkedIssue,
+} from './linkedIssues';
 import {
   GitHubPullRequest,
   GitHubCommit,
@@ -15,14 +26,27 @@ import {
   GitHubUser,
   PRVideoData,
   FetchOptions,
+  GitHubApiAuthenticationError,
+  GitHubApiFetchError,
+  GitHubApiNotFoundError,
+  GitHubApiRateLimitError,
   GitHubApiResponse,
+  GitHubCheckRun,
+  GitHubCommitStatus,
+  GitHubDeployment,
+  GitHubDeploymentStatus,
+  GitHubIssue,
+  GitHubLinkedIssue,
+  PRChecks,
 } from './types';
 
 export class GitHubPRFetcher {
   private client: GitHubApiClient;
+  private aggregator: PRDataAggregator;
 
   constructor(client: GitHubApiClient) {
     this.client = client;
+    this.aggregator = new PRDataAggregator();
   }
 
   /**
@@ -34,6 +58,11 @@ export class GitHubPRFetcher {
     prNumber: number,
     options: FetchOptions = {}
   ): Promise<PRVideoData> {
+    if (options.api === 'graphql') {
+      const prData = await new GitHubGraphQLFetcher(this.client).fetchPRData(owner, repo, prNumber, options);
+      return this.withLinkedIssues(await this.withChecks(prData, owner, repo, options), owner, repo, options);
+    }
+
     const {
       includeCommits = true,
       includeFiles = true,
@@ -42,6 +71,7 @@ export class GitHubPRFetcher {
       includeTimeline = true,
       parallel = true,
       maxConcurrency = 5,
+      maxItems,
     } = options;
 
     console.log(`Fetching PR data for ${owner}/${repo}#${prNumber}...`);
@@ -52,8 +82,8 @@ export class GitHubPRFetcher {
       this.fetchRepository(owner, repo),
     ]);
 
-    if (parallel) {
-      return this.fetchDataParallel(
+    const prData = parallel
+      ? await this.fetchDataParallel(
         owner,
         repo,
         prNumber,
@@ -66,10 +96,10 @@ export class GitHubPRFetcher {
           includeComments,
           includeTimeline,
           maxConcurrency,
+          maxItems,
         }
-      );
-    } else {
-      return this.fetchDataSequential(
+      )
+      : await this.fetchDataSequential(
         owner,
         repo,
         prNumber,
@@ -81,9 +111,45 @@ export class GitHubPRFetcher {
           includeReviews,
           includeComments,
           includeTimeline,
+          maxItems,
         }
       );
+
+    const truncation = this.aggregator.detectTruncation(prData, options);
+    const withChecks = await this.withChecks(truncation ? { ...prData, truncation } : prData, owner, repo, options);
+    return this.withLinkedIssues(withChecks, owner, repo, options);
+  }
+
+  /**
+   * Attach CI results for the PR's head commit unless checks were excluded
+   */
+  private async withChecks(
+    prData: PRVideoData,
+    owner: string,
+    repo: string,
+    { includeChecks = true, maxItems }: FetchOptions
+  ): Promise<PRVideoData> {
+    const sha = prData.pullRequest.head?.sha;
+    if (!includeChecks || !sha) {
+      return prData;
     }
+    return { ...prData, checks: await this.fetchChecks(owner, repo, sha, maxItems) };
+  }
+
+  /**
+   * Attach the issues the PR closes or references unless linked issues were excluded
+   */
+  private async withLinkedIssues(
+    prData: PRVideoData,
+    owner: string,
+    repo: string,
+    { includeLinkedIssues = true, maxItems }: FetchOptions
+  ): Promise<PRVideoData> {
+    if (!includeLinkedIssues) {
+      return prData;
+    }
+    const linkedIssues = await this.fetchLinkedIssues(owner, repo, prData.pullRequest, prData.timeline, maxItems);
+    return linkedIssues.length > 0 ? { ...prData, linkedIssues } : prData;
   }
 
   /**
@@ -95,32 +161,32 @@ export class GitHubPRFetcher {
     prNumber: number,
     pullRequest: GitHubPullRequest,
     repository: GitHubRepository,
-    options: Required<Omit<FetchOptions, 'parallel'>>
+    options: Required<Omit<FetchOptions, 'parallel' | 'maxItems' | 'api' | 'includeChecks' | 'includeLinkedIssues'>> & Pick<FetchOptions, 'maxItems'>
   ): Promise<PRVideoData> {
     const tasks: Array<() => Promise<any>> = [];
     
     // Independent requests that can run immediately
     if (options.includeCommits) {
-      tasks.push(() => this.fetchCommits(owner, repo, prNumber));
+      tasks.push(() => this.fetchCommits(owner, repo, prNumber, options.maxItems));
     }
     
     if (options.includeFiles) {
-      tasks.push(() => this.fetchFiles(owner, repo, prNumber));
+      tasks.push(() => this.fetchFiles(owner, repo, prNumber, options.maxItems));
     }
     
     if (options.includeReviews) {
-      tasks.push(() => this.fetchReviews(owner, repo, prNumber));
+      tasks.push(() => this.fetchReviews(owner, repo, prNumber, options.maxItems));
     }
     
     if (options.includeComments) {
       tasks.push(() => Promise.all([
-        this.fetchReviewComments(owner, repo, prNumber),
-        this.fetchIssueComments(owner, repo, prNumber),
+        this.fetchReviewComments(owner, repo, prNumber, options.maxItems),
+        this.fetchIssueComments(owner, repo, prNumber, options.maxItems),
       ]));
     }
     
     if (options.includeTimeline) {
-      tasks.push(() => this.fetchTimeline(owner, repo, prNumber));
+      tasks.push(() => this.fetchTimeline(owner, repo, prNumber, options.maxItems));
     }
 
     console.log(`Executing ${tasks.length} parallel requests...`);
@@ -162,7 +228,7 @@ export class GitHubPRFetcher {
 
     console.log('Parallel fetch completed, processing data...');
 
-    return this.processVideoData(
+    return this.aggregator.aggregate(
       pullRequest,
       repository,
       commits,
@@ -188,30 +254,30 @@ export class GitHubPRFetcher {
     console.log('Fetching data sequentially...');
 
     const commits = options.includeCommits 
-      ? await this.fetchCommits(owner, repo, prNumber) 
+      ? await this.fetchCommits(owner, repo, prNumber, options.maxItems) 
       : [];
     
     const files = options.includeFiles 
-      ? await this.fetchFiles(owner, repo, prNumber) 
+      ? await this.fetchFiles(owner, repo, prNumber, options.maxItems) 
       : [];
     
     const reviews = options.includeReviews 
-      ? await this.fetchReviews(owner, repo, prNumber) 
+      ? await this.fetchReviews(owner, repo, prNumber, options.maxItems) 
       : [];
     
     const reviewComments = options.includeComments 
-      ? await this.fetchReviewComments(owner, repo, prNumber) 
+      ? await this.fetchReviewComments(owner, repo, prNumber, options.maxItems) 
       : [];
     
     const issueComments = options.includeComments 
-      ? await this.fetchIssueComments(owner, repo, prNumber) 
+      ? await this.fetchIssueComments(owner, repo, prNumber, options.maxItems) 
       : [];
     
     const timeline = options.includeTimeline 
-      ? await this.fetchTimeline(owner, repo, prNumber) 
+      ? await this.fetchTimeline(owner, repo, prNumber, options.maxItems) 
       : [];
 
-    return this.processVideoData(
+    return this.aggregator.aggregate(
       pullRequest,
       repository,
       commits,
@@ -237,6 +303,10 @@ export class GitHubPRFetcher {
       }
       return response.data;
     } catch (error) {
+      // API errors keep their type, which the CLI maps onto its auth and network exit codes
+      if (isGitHubApiError(error)) {
+        throw error;
+      }
       throw new Error(`Failed to fetch PR ${owner}/${repo}#${prNumber}: ${error.message}`);
     }
   }
@@ -255,6 +325,10 @@ export class GitHubPRFetcher {
       }
       return response.data;
     } catch (error) {
+      // API errors keep their type, which the CLI maps onto its auth and network exit codes
+      if (isGitHubApiError(error)) {
+        throw error;
+      }
       throw new Error(`Failed to fetch repository ${owner}/${repo}: ${error.message}`);
     }
   }
@@ -262,10 +336,13 @@ export class GitHubPRFetcher {
   /**
    * Fetch all commits for a PR
    */
-  async fetchCommits(owner: string, repo: string, prNumber: number): Promise<GitHubCommit[]> {
+  async fetchCommits(owner: string, repo: string, prNumber: number, maxItems?: number): Promise<GitHubCommit[]> {
     console.log(`Fetching commits for PR ${prNumber}...`);
     const commits = await this.client.getAllPages<GitHubCommit>(
-      `/repos/${owner}/${repo}/pulls/${prNumber}/commits`
+      `/repos/${owner}/${repo}/pulls/${prNumber}/commits`,
+      {},
+      100,
+      maxItems
     );
     
     // Fetch detailed stats for each commit if needed
@@ -289,302 +366,192 @@ export class GitHubPRFetcher {
   /**
    * Fetch all file changes for a PR
    */
-  async fetchFiles(owner: string, repo: string, prNumber: number): Promise<GitHubFile[]> {
+  async fetchFiles(owner: string, repo: string, prNumber: number, maxItems?: number): Promise<GitHubFile[]> {
     console.log(`Fetching files for PR ${prNumber}...`);
     return this.client.getAllPages<GitHubFile>(
-      `/repos/${owner}/${repo}/pulls/${prNumber}/files`
+      `/repos/${owner}/${repo}/pulls/${prNumber}/files`,
+      {},
+      100,
+      maxItems
     );
   }
 
   /**
    * Fetch all reviews for a PR
    */
-  async fetchReviews(owner: string, repo: string, prNumber: number): Promise<GitHubReview[]> {
+  async fetchReviews(owner: string, repo: string, prNumber: number, maxItems?: number): Promise<GitHubReview[]> {
     console.log(`Fetching reviews for PR ${prNumber}...`);
     return this.client.getAllPages<GitHubReview>(
-      `/repos/${owner}/${repo}/pulls/${prNumber}/reviews`
+      `/repos/${owner}/${repo}/pulls/${prNumber}/reviews`,
+      {},
+      100,
+      maxItems
     );
   }
 
   /**
    * Fetch all review comments for a PR
    */
-  async fetchReviewComments(owner: string, repo: string, prNumber: number): Promise<GitHubReviewComment[]> {
+  async fetchReviewComments(owner: string, repo: string, prNumber: number, maxItems?: number): Promise<GitHubReviewComment[]> {
     console.log(`Fetching review comments for PR ${prNumber}...`);
     return this.client.getAllPages<GitHubReviewComment>(
-      `/repos/${owner}/${repo}/pulls/${prNumber}/comments`
+      `/repos/${owner}/${repo}/pulls/${prNumber}/comments`,
+      {},
+      100,
+      maxItems
     );
   }
 
   /**
    * Fetch all issue comments for a PR
    */
-  async fetchIssueComments(owner: string, repo: string, prNumber: number): Promise<GitHubIssueComment[]> {
+  async fetchIssueComments(owner: string, repo: string, prNumber: number, maxItems?: number): Promise<GitHubIssueComment[]> {
     console.log(`Fetching issue comments for PR ${prNumber}...`);
     return this.client.getAllPages<GitHubIssueComment>(
-      `/repos/${owner}/${repo}/issues/${prNumber}/comments`
+      `/repos/${owner}/${repo}/issues/${prNumber}/comments`,
+      {},
+      100,
+      maxItems
     );
   }
 
   /**
    * Fetch timeline events for a PR
    */
-  async fetchTimeline(owner: string, repo: string, prNumber: number): Promise<GitHubTimelineEvent[]> {
+  async fetchTimeline(owner: string, repo: string, prNumber: number, maxItems?: number): Promise<GitHubTimelineEvent[]> {
     console.log(`Fetching timeline for PR ${prNumber}...`);
-    const response = await this.client.request<GitHubTimelineEvent[]>(
+    return this.client.getAllPages<GitHubTimelineEvent>(
       `/repos/${owner}/${repo}/issues/${prNumber}/timeline`,
       {
         headers: {
           'Accept': 'application/vnd.github.mockingbird-preview+json',
         },
-      }
+      },
+      100,
+      maxItems
     );
-    return response.data;
   }
 
   /**
-   * Process and aggregate all fetched data into video-ready format
+   * Fetch check runs (every attempt), commit statuses and deployments for a commit
+   * Each list is optional: tokens without checks or deployments access just produce an empty list
    */
-  private processVideoData(
-    pullRequest: GitHubPullRequest,
-    repository: GitHubRepository,
-    commits: GitHubCommit[],
-    files: GitHubFile[],
-    reviews: GitHubReview[],
-    reviewComments: GitHubReviewComment[],
-    issueComments: GitHubIssueComment[],
-    timeline: GitHubTimelineEvent[]
-  ): PRVideoData {
-    console.log('Processing video data...');
-
-    // Calculate participants
-    const participants = this.extractParticipants(
-      pullRequest,
-      commits,
-      reviews,
-      reviewComments,
-      issueComments
-    );
-
-    // Calculate code statistics
-    const codeStats = this.calculateCodeStats(files, commits);
-
-    // Calculate review statistics
-    const reviewStats = this.calculateReviewStats(reviews, reviewComments, timeline);
-
-    // Calculate timeline statistics
-    const timelineStats = this.calculateTimelineStats(pullRequest, reviews, timeline);
+  async fetchChecks(owner: string, repo: string, sha: string, maxItems?: number): Promise<PRChecks> {
+    console.log(`Fetching checks for ${sha.substring(0, 7)}...`);
+    const [checkRuns, statuses, deployments] = await Promise.all([
+      this.fetchOptional('check runs', () => this.client.getAllPages<GitHubCheckRun>(
+        `/repos/${owner}/${repo}/commits/${sha}/check-runs?filter=all`,
+        {},
+        100,
+        maxItems
+      )),
+      this.fetchOptional('commit statuses', () => this.client.getAllPages<GitHubCommitStatus>(
+        `/repos/${owner}/${repo}/commits/${sha}/statuses`,
+        {},
+        100,
+        maxItems
+      )),
+      this.fetchOptional('deployments', () => this.fetchDeployments(owner, repo, sha, maxItems)),
+    ]);
 
-    const result: PRVideoData = {
-      pullRequest,
-      commits,
-      files,
-      reviews,
-      reviewComments,
-      issueComments,
-      timeline,
-      repository,
-      participants,
-      codeStats,
-      reviewStats,
-      timelineStats,
-    };
-
-    console.log(`Data processing complete:
-      - ${commits.length} commits
-      - ${files.length} files changed
-      - ${reviews.length} reviews
-      - ${reviewComments.length} review comments
-      - ${issueComments.length} issue comments
-      - ${participants.length} participants
-    `);
-
-    return result;
+    return { headSha: sha, checkRuns, statuses, deployments };
   }
 
   /**
-   * Extract unique participants from all PR activity
+   * Fetch deployments of a commit with their status history
    */
-  private extractParticipants(
-    pullRequest: GitHubPullRequest,
-    commits: GitHubCommit[],
-    reviews: GitHubReview[],
-    reviewComments: GitHubReviewComment[],
-    issueComments: GitHubIssueComment[]
-  ): GitHubUser[] {
-    const userMap = new Map<number, GitHubUser>();
-
-    // Add PR author
-    if (pullRequest?.user) {
-      userMap.set(pullRequest.user.id, pullRequest.user);
-    }
-
-    // Add assignees and reviewers (with null checks)
-    (pullRequest?.assignees || []).forEach(user => userMap.set(user.id, user));
-    (pullRequest?.reviewers || []).forEach(user => userMap.set(user.id, user));
-
-    // Add commit authors and committers
-    (commits || []).forEach(commit => {
-      if (commit.author) userMap.set(commit.author.id, commit.author);
-      if (commit.committer) userMap.set(commit.committer.id, commit.committer);
-    });
-
-    // Add reviewers
-    (reviews || []).forEach(review => {
-      if (review?.user) userMap.set(review.user.id, review.user);
-    });
-
-    // Add comment authors
-    (reviewComments || []).forEach(comment => {
-      if (comment?.user) userMap.set(comment.user.id, comment.user);
-    });
-    (issueComments || []).forEach(comment => {
-      if (comment?.user) userMap.set(comment.user.id, comment.user);
-    });
-
-    return Array.from(userMap.values());
-  }
+  async fetchDeployments(owner: string, repo: string, sha: string, maxItems?: number): Promise<GitHubDeployment[]> {
+    const deployments = await this.client.getAllPages<Omit<GitHubDeployment, 'statuses'>>(
+      `/repos/${owner}/${repo}/deployments?sha=${sha}`,
+      {},
+      100,
+      maxItems
+    );
 
-  /**
-   * Calculate code statistics from files and commits
-   */
-  private calculateCodeStats(files: GitHubFile[], commits: GitHubCommit[]) {
-    const safeFiles = files || [];
-    const totalAdditions = safeFiles.reduce((sum, file) => sum + (file.additions || 0), 0);
-    const totalDeletions = safeFiles.reduce((sum, file) => sum + (file.deletions || 0), 0);
-    const totalFiles = safeFiles.length;
-
-    // Language breakdown based on file extensions
-    const languageBreakdown: Record<string, number> = {};
-    const fileTypes: Record<string, number> = {};
-
-    safeFiles.forEach(file => {
-      const extension = file.filename?.split('.').pop()?.toLowerCase() || 'unknown';
-      fileTypes[extension] = (fileTypes[extension] || 0) + 1;
-
-      // Map extensions to languages (basic mapping)
-      const language = this.mapExtensionToLanguage(extension);
-      languageBreakdown[language] = (languageBreakdown[language] || 0) + (file.changes || 0);
-    });
-
-    return {
-      totalAdditions,
-      totalDeletions,
-      totalFiles,
-      languageBreakdown,
-      fileTypes,
-    };
+    return Promise.all(
+      deployments.map(async deployment => ({
+        ...deployment,
+        statuses: await this.client.getAllPages<GitHubDeploymentStatus>(
+          `/repos/${owner}/${repo}/deployments/${deployment.id}/statuses`,
+          {},
+          100,
+          maxItems
+        ),
+      }))
+    );
   }
 
   /**
-   * Calculate review statistics
+   * Resolve issues named by closing keywords in the body and by timeline references
+   * Timeline events usually embed the issue; keyword references are looked up one by one and skipped when unreadable
    */
-  private calculateReviewStats(
-    reviews: GitHubReview[],
-    reviewComments: GitHubReviewComment[],
-    timeline: GitHubTimelineEvent[]
-  ) {
-    const safeReviews = reviews || [];
-    const safeReviewComments = reviewComments || [];
-    
-    const approvals = safeReviews.filter(r => r?.state === 'APPROVED').length;
-    const changesRequested = safeReviews.filter(r => r?.state === 'CHANGES_REQUESTED').length;
-    const comments = safeReviewComments.length;
-
-    // Calculate average review time (from PR creation to first review)
-    const firstReview = safeReviews
-      .filter(r => r?.submitted_at)
-      .sort((a, b) => new Date(a.submitted_at!).getTime() - new Date(b.submitted_at!).getTime())[0];
-
-    let averageReviewTime = 0;
-    if (firstReview && firstReview.submitted_at) {
-      // This would need PR creation time, which we'll calculate in timeline stats
-      averageReviewTime = 0; // Placeholder
+  async fetchLinkedIssues(
+    owner: string,
+    repo: string,
+    pullRequest: Pick<GitHubPullRequest, 'number' | 'body'>,
+    timeline: GitHubTimelineEvent[],
+    maxItems?: number
+  ): Promise<GitHubLinkedIssue[]> {
+    const references = dedupeReferences([
+      ...parseClosingReferences(pullRequest.body, owner, repo),
+      ...timelineReferences(timeline, owner, repo),
+      ...(hasUnnamedConnections(timeline) ? await this.fetchConnectedReferences(owner, repo, pullRequest.number) : []),
+    ]).slice(0, maxItems);
+
+    if (references.length > 0) {
+      console.log(`Resolving ${references.length} linked issues...`);
     }
 
-    return {
-      approvals,
-      changesRequested,
-      comments,
-      averageReviewTime,
-    };
+    const issues = await Promise.all(
+      references.map(async reference => {
+        if (reference.issue?.title) {
+          return toLinkedIssue(reference, reference.issue);
+        }
+        const name = `${reference.owner}/${reference.repo}#${reference.number}`;
+        try {
+          const { data } = await this.client.request<GitHubIssue>(
+            `/repos/${reference.owner}/${reference.repo}/issues/${reference.number}`
+          );
+          // "Fixes #12" may point at another pull request, which merging does not close
+          return data.pull_request ? null : toLinkedIssue(reference, data);
+        } catch (error) {
+          console.warn(`Skipping linked issue ${name}: ${(error as Error).message}`);
+          return null;
+        }
+      })
+    );
+
+    return issues.filter((issue): issue is GitHubLinkedIssue => issue !== null);
   }
 
   /**
-   * Calculate timeline statistics
+   * Issues linked from the sidebar, which REST `connected` events do not name; only GraphQL lists them
    */
-  private calculateTimelineStats(
-    pullRequest: GitHubPullRequest,
-    reviews: GitHubReview[],
-    timeline: GitHubTimelineEvent[]
-  ) {
-    const createdAt = pullRequest?.created_at ? new Date(pullRequest.created_at) : new Date();
-    const lastUpdateAt = pullRequest?.updated_at ? new Date(pullRequest.updated_at) : new Date();
-    const mergedAt = pullRequest?.merged_at ? new Date(pullRequest.merged_at) : undefined;
-    const closedAt = pullRequest?.closed_at ? new Date(pullRequest.closed_at) : undefined;
-
-    const safeReviews = reviews || [];
-    const firstReview = safeReviews
-      .filter(r => r?.submitted_at)
-      .sort((a, b) => new Date(a.submitted_at!).getTime() - new Date(b.submitted_at!).getTime())[0];
-    
-    const firstReviewAt = firstReview?.submitted_at ? new Date(firstReview.submitted_at) : undefined;
-
-    const totalDuration = lastUpdateAt.getTime() - createdAt.getTime();
-    const reviewDuration = firstReviewAt 
-      ? firstReviewAt.getTime() - createdAt.getTime() 
-      : undefined;
-
-    return {
-      createdAt,
-      firstReviewAt,
-      lastUpdateAt,
-      mergedAt,
-      closedAt,
-      totalDuration,
-      reviewDuration,
-    };
+  private async fetchConnectedReferences(owner: string, repo: string, prNumber: number): Promise<IssueReference[]> {
+    try {
+      const issues = await new GitHubGraphQLFetcher(this.client).fetchClosingIssues(owner, repo, prNumber);
+      return closingIssueReferences(issues, owner, repo);
+    } catch (error) {
+      console.warn(`Skipping connected issues: ${(error as Error).message}`);
+      return [];
+    }
   }
 
-  /**
-   * Map file extension to programming language
-   */
-  private mapExtensionToLanguage(extension: string): string {
-    const languageMap: Record<string, string> = {
-      'js': 'JavaScript',
-      'jsx': 'JavaScript',
-      'ts': 'TypeScript',
-      'tsx': 'TypeScript',
-      'py': 'Python',
-      'java': 'Java',
-      'cpp': 'C++',
-      'c': 'C',
-      'cs': 'C#',
-      'php': 'PHP',
-      'rb': 'Ruby',
-      'go': 'Go',
-      'rs': 'Rust',
-      'swift': 'Swift',
-      'kt': 'Kotlin',
-      'scala': 'Scala',
-      'html': 'HTML',
-      'css': 'CSS',
-      'scss': 'SCSS',
-      'sass': 'Sass',
-      'less': 'Less',
-      'md': 'Markdown',
-      'json': 'JSON',
-      'xml': 'XML',
-      'yaml': 'YAML',
-      'yml': 'YAML',
-      'toml': 'TOML',
-      'sql': 'SQL',
-      'sh': 'Shell',
-      'bash': 'Shell',
-      'dockerfile': 'Docker',
-      'makefile': 'Makefile',
-    };
-
-    return languageMap[extension] || 'Other';
+  private async fetchOptional<T>(label: string, fetchList: () => Promise<T[]>): Promise<T[]> {
+    try {
+      return await fetchList();
+    } catch (error) {
+      console.warn(`Skipping ${label}: ${(error as Error).message}`);
+      return [];
+    }
   }
-}
\ No newline at end of file
+}
+
+function isGitHubApiError(error: unknown): boolean {
+  return (
+    error instanceof GitHubApiAuthenticationError ||
+    error instanceof GitHubApiRateLimitError ||
+    error instanceof GitHubApiNotFoundError ||
+    error instanceof GitHubApiFetchError
+  );
+}
@@ -0,0 +1,826 @@
+/**
+ * GraphQL-based PR fetcher: one query for the pull request and the first page of every list,
+ * plus follow-up queries only for lists that have more pages
+ */
+
+import { GitHubApiClient } from './client';
+import { PRDataAggregator } from './aggregator';
+import {
+  FetchOptions,
+  GitHubApiNotFoundError,
+  GitHubCommit,
+  GitHubFile,
+  GitHubIssue,
+  GitHubIssueComment,
+  GitHubLabel,
+  GitHubMilestone,
+  GitHubPullRequest,
+  GitHubRepository,
+  GitHubReview,
+  GitHubReviewComment,
+  GitHubTimelineEvent,
+  GitHubUser,
+  PRVideoData,
+} from './types';
+
+// Selections shared by several connections
+const USER_FIELDS = 'login avatarUrl url databaseId name email';
+const ACTOR = `__typename login avatarUrl url ... on User { databaseId name email } ... on Bot { databaseId }`;
+const OWNER = `__typename login avatarUrl url ... on User { databaseId name } ... on Organization { databaseId name }`;
+const GIT_ACTOR = `name email date user { ${USER_FIELDS} }`;
+const REPOSITORY = `databaseId name nameWithOwner url description isPrivate isFork primaryLanguage { name } defaultBranchRef { name } owner { ${OWNER} }`;
+const LINKED_ISSUE = `... on Issue { databaseId number title state url body repository { nameWithOwner } labels(first: 10) { nodes { id name color description } } }`;
+const REVIEW_COMMENT = `databaseId body createdAt updatedAt url path position originalPosition diffHunk line startLine originalLine originalStartLine authorAssociation author { ${ACTOR} } commit { oid } originalCommit { oid } pullRequestReview { databaseId } replyTo { databaseId }`;
+
+const TIMELINE_ITEM_TYPES = [
+  'PULL_REQUEST_COMMIT',
+  'PULL_REQUEST_REVIEW',
+  'ISSUE_COMMENT',
+  'LABELED_EVENT',
+  'UNLABELED_EVENT',
+  'ASSIGNED_EVENT',
+  'UNASSIGNED_EVENT',
+  'REVIEW_REQUESTED_EVENT',
+  'REVIEW_DISMISSED_EVENT',
+  'MERGED_EVENT',
+  'CLOSED_EVENT',
+  'REOPENED_EVENT',
+  'READY_FOR_REVIEW_EVENT',
+  'CONVERT_TO_DRAFT_EVENT',
+  'RENAMED_TITLE_EVENT',
+  'HEAD_REF_FORCE_PUSHED_EVENT',
+  'MILESTONED_EVENT',
+  'CONNECTED_EVENT',
+  'CROSS_REFERENCED_EVENT',
+];
+
+const TIMELINE_ITEM = `
+  __typename
+  ... on Node { id }
+  ... on PullRequestCommit { commit { oid url committedDate } }
+  ... on PullRequestReview { databaseId state submittedAt url author { ${ACTOR} } }
+  ... on IssueComment { databaseId createdAt url author { ${ACTOR} } }
+  ... on LabeledEvent { createdAt actor { ${ACTOR} } label { id name color description } }
+  ... on UnlabeledEvent { createdAt actor { ${ACTOR} } label { id name color description } }
+  ... on AssignedEvent { createdAt actor { ${ACTOR} } assignee { ... on User { ${USER_FIELDS} } } }
+  ... on UnassignedEvent { createdAt actor { ${ACTOR} } assignee { ... on User { ${USER_FIELDS} } } }
+  ... on ReviewRequestedEvent { createdAt actor { ${ACTOR} } requestedReviewer { ... on User { ${USER_FIELDS} } } }
+  ... on ReviewDismissedEvent { createdAt actor { ${ACTOR} } dismissalMessage review { databaseId state } }
+  ... on MergedEvent { createdAt actor { ${ACTOR} } commit { oid url } }
+  ... on ClosedEvent { createdAt actor { ${ACTOR} } }
+  ... on ReopenedEvent { createdAt actor { ${ACTOR} } }
+  ... on ReadyForReviewEvent { createdAt actor { ${ACTOR} } }
+  ... on ConvertToDraftEvent { createdAt actor { ${ACTOR} } }
+  ... on RenamedTitleEvent { createdAt actor { ${ACTOR} } previousTitle currentTitle }
+  ... on HeadRefForcePushedEvent { createdAt actor { ${ACTOR} } afterCommit { oid url } }
+  ... on MilestonedEvent { createdAt actor { ${ACTOR} } milestoneTitle }
+  ... on ConnectedEvent { createdAt actor { ${ACTOR} } subject { ${LINKED_ISSUE} } }
+  ... on CrossReferencedEvent { createdAt actor { ${ACTOR} } source { ${LINKED_ISSUE} } }
+`;
+
+/**
+ * Paginated pull request connections, keyed by their GraphQL field name
+ */
+const CONNECTIONS = {
+  commits: {
+    include: 'includeCommits',
+    args: '',
+    nodes: `commit { oid message url additions deletions authoredDate committedDate tree { oid } author { ${GIT_ACTOR} } committer { ${GIT_ACTOR} } parents(first: 5) { nodes { oid url } } }`,
+  },
+  files: {
+    include: 'includeFiles',
+    args: '',
+    nodes: 'path additions deletions changeType',
+  },
+  reviews: {
+    include: 'includeReviews',
+    args: '',
+    nodes: `databaseId body state submittedAt url authorAssociation author { ${ACTOR} } commit { oid }`,
+  },
+  reviewThreads: {
+    include: 'includeComments',
+    args: '',
+    nodes: `id isResolved diffSide startDiffSide comments(first: 100) { totalCount pageInfo { hasNextPage endCursor } nodes { ${REVIEW_COMMENT} } }`,
+  },
+  comments: {
+    include: 'includeComments',
+    args: '',
+    nodes: `databaseId body createdAt updatedAt url authorAssociation author { ${ACTOR} }`,
+  },
+  timelineItems: {
+    include: 'includeTimeline',
+    args: `, itemTypes: [${TIMELINE_ITEM_TYPES.join(', ')}]`,
+    nodes: TIMELINE_ITEM,
+  },
+  labels: {
+    include: undefined,
+    args: '',
+    nodes: 'id name color description',
+  },
+} as const;
+
+export type GraphQLConnectionName = keyof typeof CONNECTIONS;
+
+type IncludeVariable = 'includeCommits' | 'includeFiles' | 'includeReviews' | 'includeComments' | 'includeTimeline';
+
+interface GraphQLConnection<T> {
+  totalCount: number;
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: T[];
+}
+
+interface GraphQLActor {
+  __typename?: string;
+  login: string;
+  avatarUrl?: string;
+  url?: string;
+  databaseId?: number | null;
+  name?: string | null;
+  email?: string | null;
+}
+
+interface GraphQLGitActor {
+  name: string;
+  email: string;
+  date: string;
+  user?: GraphQLActor | null;
+}
+
+interface GraphQLRepository {
+  databaseId: number;
+  name: string;
+  nameWithOwner: string;
+  url: string;
+  description?: string | null;
+  isPrivate: boolean;
+  isFork: boolean;
+  primaryLanguage?: { name: string } | null;
+  defaultBranchRef?: { name: string } | null;
+  owner: GraphQLActor;
+}
+
+interface GraphQLReviewComment {
+  databaseId: number;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  url: string;
+  path: string;
+  position?: number | null;
+  originalPosition?: number | null;
+  diffHunk: string;
+  line?: number | null;
+  startLine?: number | null;
+  originalLine?: number | null;
+  originalStartLine?: number | null;
+  authorAssociation: string;
+  author?: GraphQLActor | null;
+  commit?: { oid: string } | null;
+  originalCommit?: { oid: string } | null;
+  pullRequestReview?: { databaseId: number } | null;
+  replyTo?: { databaseId: number } | null;
+}
+
+interface GraphQLNodes {
+  commits: {
+    commit: {
+      oid: string;
+      message: string;
+      url: string;
+      additions: number;
+      deletions: number;
+      authoredDate: string;
+      committedDate: string;
+      tree: { oid: string };
+      author: GraphQLGitActor;
+      committer: GraphQLGitActor;
+      parents: { nodes: Array<{ oid: string; url: string }> };
+    };
+  };
+  files: { path: string; additions: number; deletions: number; changeType: string };
+  reviews: {
+    databaseId: number;
+    body: string;
+    state: GitHubReview['state'];
+    submittedAt?: string | null;
+    url: string;
+    authorAssociation: string;
+    author?: GraphQLActor | null;
+    commit?: { oid: string } | null;
+  };
+  reviewThreads: {
+    id: string;
+    isResolved: boolean;
+    diffSide?: 'LEFT' | 'RIGHT' | null;
+    startDiffSide?: 'LEFT' | 'RIGHT' | null;
+    comments: GraphQLConnection<GraphQLReviewComment>;
+  };
+  comments: {
+    databaseId: number;
+    body: string;
+    createdAt: string;
+    updatedAt: string;
+    url: string;
+    authorAssociation: string;
+    author?: GraphQLActor | null;
+  };
+  timelineItems: GraphQLTimelineItem;
+  labels: { id: string; name: string; color: string; description?: string | null };
+}
+
+interface GraphQLTimelineItem {
+  __typename: string;
+  id?: string;
+  databaseId?: number;
+  createdAt?: string;
+  submittedAt?: string | null;
+  url?: string;
+  state?: string;
+  actor?: GraphQLActor | null;
+  author?: GraphQLActor | null;
+  commit?: { oid: string; url: string; committedDate?: string } | null;
+  afterCommit?: { oid: string; url: string } | null;
+  label?: GraphQLNodes['labels'];
+  assignee?: GraphQLActor | null;
+  requestedReviewer?: GraphQLActor | null;
+  dismissalMessage?: string | null;
+  review?: { databaseId: number; state: string } | null;
+  previousTitle?: string;
+  currentTitle?: string;
+  milestoneTitle?: string;
+  /** Issue end of ConnectedEvent / CrossReferencedEvent; empty when it is a pull request */
+  subject?: Partial<GraphQLLinkedIssue> | null;
+  source?: Partial<GraphQLLinkedIssue> | null;
+}
+
+interface GraphQLLinkedIssue {
+  databaseId: number;
+  number: number;
+  title: string;
+  state: 'OPEN' | 'CLOSED';
+  url: string;
+  body?: string | null;
+  repository: { nameWithOwner: string };
+  labels?: { nodes: Array<GraphQLNodes['labels']> } | null;
+}
+
+type PullRequestConnections = { [K in GraphQLConnectionName]?: GraphQLConnection<GraphQLNodes[K]> };
+
+interface GraphQLPullRequest extends PullRequestConnections {
+  databaseId: number;
+  number: number;
+  title: string;
+  body: string;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  merged: boolean;
+  isDraft: boolean;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  closedAt?: string | null;
+  mergedAt?: string | null;
+  mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  baseRefName: string;
+  baseRefOid: string;
+  headRefName: string;
+  headRefOid: string;
+  author?: GraphQLActor | null;
+  mergedBy?: GraphQLActor | null;
+  mergeCommit?: { oid: string } | null;
+  headRepository?: GraphQLRepository | null;
+  milestone?: {
+    id: string;
+    number: number;
+    title: string;
+    description?: string | null;
+    state: 'OPEN' | 'CLOSED';
+    createdAt: string;
+    updatedAt: string;
+    dueOn?: string | null;
+    closedAt?: string | null;
+  } | null;
+  assignees: { nodes: GraphQLActor[] };
+  reviewRequests: { nodes: Array<{ requestedReviewer?: GraphQLActor | null }> };
+  commitCount: { totalCount: number };
+  commentCount: { totalCount: number };
+}
+
+interface PullRequestQueryResult {
+  repository: (GraphQLRepository & { pullRequest: GraphQLPullRequest | null }) | null;
+}
+
+interface ClosingIssuesQueryResult {
+  repository: { pullRequest: { closingIssuesReferences: { nodes: GraphQLLinkedIssue[] } } | null } | null;
+}
+
+interface ReviewThreadCommentsQueryResult {
+  node: { comments: Omit<GraphQLConnection<GraphQLReviewComment>, 'totalCount'> } | null;
+}
+
+const GHOST: GitHubUser = { id: 0, login: 'ghost', avatar_url: '', html_url: '', type: 'User' };
+
+/**
+ * Selection for one connection page; `after` is only declared by follow-up queries
+ */
+function connectionSelection(name: GraphQLConnectionName, paged: boolean): string {
+  const connection = CONNECTIONS[name];
+  const include = connection.include && !paged ? ` @include(if: $${connection.include})` : '';
+  return `${name}(first: $first${paged ? ', after: $after' : ''}${connection.args})${include} {
+      totalCount
+      pageInfo { hasNextPage endCursor }
+      nodes { ${connection.nodes} }
+    }`;
+}
+
+export const PULL_REQUEST_QUERY = `
+query PullRequest(
+  $owner: String!, $repo: String!, $number: Int!, $first: Int!,
+  $includeCommits: Boolean!, $includeFiles: Boolean!, $includeReviews: Boolean!,
+  $includeComments: Boolean!, $includeTimeline: Boolean!
+) {
+  repository(owner: $owner, name: $repo) {
+    ${REPOSITORY}
+    pullRequest(number: $number) {
+      databaseId number title body state merged isDraft url createdAt updatedAt closedAt mergedAt mergeable
+      additions deletions changedFiles baseRefName baseRefOid headRefName headRefOid
+      author { ${ACTOR} }
+      mergedBy { ${ACTOR} }
+      mergeCommit { oid }
+      headRepository { ${REPOSITORY} }
+      milestone { id number title description state createdAt updatedAt dueOn closedAt }
+      assignees(first: 20) { nodes { ${USER_FIELDS} } }
+      reviewRequests(first: 20) { nodes { requestedReviewer { ... on User { ${USER_FIELDS} } } } }
+      commitCount: commits { totalCount }
+      commentCount: comments { totalCount }
+      ${(Object.keys(CONNECTIONS) as GraphQLConnectionName[]).map(name => connectionSelection(name, false)).join('\n      ')}
+    }
+  }
+}`;
+
+/**
+ * Follow-up query for the remaining pages of a single connection
+ */
+export function connectionPageQuery(name: GraphQLConnectionName): string {
+  return `
+query PullRequest_${name}($owner: String!, $repo: String!, $number: Int!, $first: Int!, $after: String) {
+  repository(owner: $owner, name: $repo) {
+    pullRequest(number: $number) {
+      ${connectionSelection(name, true)}
+    }
+  }
+}`;
+}
+
+/**
+ * Follow-up query for the remaining comments of one review thread
+ */
+export const REVIEW_THREAD_COMMENTS_QUERY = `
+query ReviewThreadComments($id: ID!, $first: Int!, $after: String) {
+  node(id: $id) {
+    ... on PullRequestReviewThread {
+      comments(first: $first, after: $after) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ${REVIEW_COMMENT} }
+      }
+    }
+  }
+}`;
+
+/**
+ * Issues the pull request closes on merge, whether named by a closing keyword or linked from the sidebar
+ */
+export const CLOSING_ISSUES_QUERY = `
+query ClosingIssues($owner: String!, $repo: String!, $number: Int!, $first: Int!) {
+  repository(owner: $owner, name: $repo) {
+    pullRequest(number: $number) {
+      closingIssuesReferences(first: $first) { nodes { ${LINKED_ISSUE} } }
+    }
+  }
+}`;
+
+export class GitHubGraphQLFetcher {
+  private aggregator = new PRDataAggregator();
+
+  constructor(private client: GitHubApiClient, private pageSize: number = 100) {}
+
+  /**
+   * Fetch PR data through the GraphQL API and map it onto the REST-shaped PRVideoData
+   */
+  async fetchPRData(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    options: FetchOptions = {}
+  ): Promise<PRVideoData> {
+    const {
+      includeCommits = true,
+      includeFiles = true,
+      includeReviews = true,
+      includeComments = true,
+      includeTimeline = true,
+      maxItems,
+    } = options;
+    const include: Record<IncludeVariable, boolean> = {
+      includeCommits,
+      includeFiles,
+      includeReviews,
+      includeComments,
+      includeTimeline,
+    };
+    const first = Math.max(1, Math.min(this.pageSize, maxItems ?? this.pageSize));
+
+    console.log(`Fetching PR data for ${owner}/${repo}#${prNumber} via GraphQL...`);
+
+    const result = await this.client.graphql<PullRequestQueryResult>(PULL_REQUEST_QUERY, {
+      owner,
+      repo,
+      number: prNumber,
+      first,
+      ...include,
+    });
+
+    const pr = result.repository?.pullRequest;
+    if (!result.repository || !pr) {
+      throw new GitHubApiNotFoundError(
+        `Pull request not found: ${owner}/${repo}#${prNumber}`,
+        `/repos/${owner}/${repo}/pulls/${prNumber}`
+      );
+    }
+
+    // Fetch the remaining pages of any connection that did not fit in the first query
+    for (const name of Object.keys(CONNECTIONS) as GraphQLConnectionName[]) {
+      const connection = CONNECTIONS[name];
+      if (!connection.include || include[connection.include]) {
+        await this.fetchRemainingPages(owner, repo, prNumber, name, pr, maxItems);
+      }
+    }
+    for (const thread of pr.reviewThreads?.nodes || []) {
+      await this.fetchRemainingThreadComments(thread);
+    }
+
+    const repository = mapRepository(result.repository);
+    const pullRequest = mapPullRequest(pr, repository);
+    const threads = pr.reviewThreads?.nodes || [];
+
+    const prData = this.aggregator.aggregate(
+      pullRequest,
+      repository,
+      (pr.commits?.nodes || []).map(mapCommit),
+      (pr.files?.nodes || []).map(mapFile),
+      (pr.reviews?.nodes || []).map(review => mapReview(review, pullRequest)),
+      threads.flatMap(thread => thread.comments.nodes.map(comment => mapReviewComment(comment, thread, pullRequest))),
+      (pr.comments?.nodes || []).map(comment => mapIssueComment(comment, pullRequest)),
+      (pr.timelineItems?.nodes || []).map(mapTimelineItem)
+    );
+
+    const truncation = this.aggregator.detectTruncation(prData, options);
+    return truncation ? { ...prData, truncation } : prData;
+  }
+
+  /**
+   * Issues merging the pull request will close, including the ones REST `connected` events do not name
+   */
+  async fetchClosingIssues(owner: string, repo: string, prNumber: number): Promise<GitHubIssue[]> {
+    const result = await this.client.graphql<ClosingIssuesQueryResult>(CLOSING_ISSUES_QUERY, {
+      owner,
+      repo,
+      number: prNumber,
+      first: this.pageSize,
+    });
+    return (result.repository?.pullRequest?.closingIssuesReferences.nodes || []).map(mapLinkedIssue);
+  }
+
+  /**
+   * Append pages to a connection in place until it is complete or reaches maxItems
+   */
+  private async fetchRemainingPages(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    name: GraphQLConnectionName,
+    pr: GraphQLPullRequest,
+    maxItems?: number
+  ): Promise<void> {
+    const connection = pr[name] as GraphQLConnection<unknown> | undefined;
+    if (!connection) {
+      return;
+    }
+
+    const limit = maxItems ?? Infinity;
+    let pageInfo = connection.pageInfo;
+
+    while (pageInfo.hasNextPage && connection.nodes.length < limit) {
+      const page = await this.client.graphql<PullRequestQueryResult>(connectionPageQuery(name), {
+        owner,
+        repo,
+        number: prNumber,
+        first: Math.min(this.pageSize, limit - connection.nodes.length),
+        after: pageInfo.endCursor,
+      });
+
+      const next = page.repository?.pullRequest?.[name] as GraphQLConnection<unknown> | undefined;
+      if (!next) {
+        break;
+      }
+      connection.nodes.push(...next.nodes);
+      pageInfo = next.pageInfo;
+    }
+
+    connection.nodes.splice(limit);
+  }
+
+  /**
+   * Append the remaining comments of a review thread in place
+   */
+  private async fetchRemainingThreadComments(thread: GraphQLNodes['reviewThreads']): Promise<void> {
+    let pageInfo = thread.comments.pageInfo;
+
+    while (pageInfo.hasNextPage) {
+      const page = await this.client.graphql<ReviewThreadCommentsQueryResult>(REVIEW_THREAD_COMMENTS_QUERY, {
+        id: thread.id,
+        first: this.pageSize,
+        after: pageInfo.endCursor,
+      });
+
+      const next = page.node?.comments;
+      if (!next) {
+        break;
+      }
+      thread.comments.nodes.push(...next.nodes);
+      pageInfo = next.pageInfo;
+    }
+  }
+}
+
+/**
+ * Derive a stable positive number from a GraphQL node id for records without a databaseId
+ */
+function numericId(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+function mapUser(actor?: GraphQLActor | null): GitHubUser | undefined {
+  if (!actor) {
+    return undefined;
+  }
+  return {
+    id: actor.databaseId ?? numericId(actor.login),
+    login: actor.login,
+    avatar_url: actor.avatarUrl || '',
+    html_url: actor.url || '',
+    type: actor.__typename === 'Bot' ? 'Bot' : 'User',
+    ...(actor.name ? { name: actor.name } : {}),
+    ...(actor.email ? { email: actor.email } : {}),
+  };
+}
+
+function mapLabel(label: GraphQLNodes['labels']): GitHubLabel {
+  return {
+    id: numericId(label.id),
+    name: label.name,
+    color: label.color,
+    ...(label.description ? { description: label.description } : {}),
+  };
+}
+
+function mapRepository(repository: GraphQLRepository): GitHubRepository {
+  return {
+    id: repository.databaseId,
+    name: repository.name,
+    full_name: repository.nameWithOwner,
+    owner: mapUser(repository.owner) || GHOST,
+    html_url: repository.url,
+    private: repository.isPrivate,
+    fork: repository.isFork,
+    default_branch: repository.defaultBranchRef?.name || 'main',
+    ...(repository.description ? { description: repository.description } : {}),
+    ...(repository.primaryLanguage ? { language: repository.primaryLanguage.name } : {}),
+  };
+}
+
+function mapMilestone(milestone: NonNullable<GraphQLPullRequest['milestone']>): GitHubMilestone {
+  return {
+    id: numericId(milestone.id),
+    number: milestone.number,
+    title: milestone.title,
+    state: milestone.state === 'OPEN' ? 'open' : 'closed',
+    created_at: milestone.createdAt,
+    updated_at: milestone.updatedAt,
+    ...(milestone.description ? { description: milestone.description } : {}),
+    ...(milestone.dueOn ? { due_on: milestone.dueOn } : {}),
+    ...(milestone.closedAt ? { closed_at: milestone.closedAt } : {}),
+  };
+}
+
+function mapPullRequest(pr: GraphQLPullRequest, repository: GitHubRepository): GitHubPullRequest {
+  const headRepository = pr.headRepository ? mapRepository(pr.headRepository) : repository;
+  const threads = pr.reviewThreads?.nodes || [];
+
+  return {
+    id: pr.databaseId,
+    number: pr.number,
+    title: pr.title,
+    body: pr.body,
+    state: pr.state === 'OPEN' ? 'open' : 'closed',
+    merged: pr.merged,
+    draft: pr.isDraft,
+    user: mapUser(pr.author) || GHOST,
+    assignees: pr.assignees.nodes.map(user => mapUser(user)!),
+    reviewers: pr.reviewRequests.nodes
+      .map(request => mapUser(request.requestedReviewer))
+      .filter((user): user is GitHubUser => Boolean(user)),
+    labels: (pr.labels?.nodes || []).map(mapLabel),
+    ...(pr.milestone ? { milestone: mapMilestone(pr.milestone) } : {}),
+    base: {
+      label: `${repository.owner.login}:${pr.baseRefName}`,
+      ref: pr.baseRefName,
+      sha: pr.baseRefOid,
+      user: repository.owner,
+      repo: repository,
+    },
+    head: {
+      label: `${headRepository.owner.login}:${pr.headRefName}`,
+      ref: pr.headRefName,
+      sha: pr.headRefOid,
+      user: headRepository.owner,
+      repo: headRepository,
+    },
+    html_url: pr.url,
+    created_at: pr.createdAt,
+    updated_at: pr.updatedAt,
+    ...(pr.closedAt ? { closed_at: pr.closedAt } : {}),
+    ...(pr.mergedAt ? { merged_at: pr.mergedAt } : {}),
+    ...(pr.mergeCommit ? { merge_commit_sha: pr.mergeCommit.oid } : {}),
+    ...(pr.mergeable !== 'UNKNOWN' ? { mergeable: pr.mergeable === 'MERGEABLE' } : {}),
+    ...(pr.mergedBy ? { merged_by: mapUser(pr.mergedBy) } : {}),
+    comments: pr.commentCount.totalCount,
+    review_comments: threads.reduce((sum, thread) => sum + thread.comments.totalCount, 0),
+    commits: pr.commitCount.totalCount,
+    additions: pr.additions,
+    deletions: pr.deletions,
+    changed_files: pr.changedFiles,
+  };
+}
+
+function mapCommit({ commit }: GraphQLNodes['commits']): GitHubCommit {
+  const author = mapUser(commit.author.user);
+  const committer = mapUser(commit.committer.user);
+
+  return {
+    sha: commit.oid,
+    commit: {
+      author: { name: commit.author.name, email: commit.author.email, date: commit.author.date },
+      committer: { name: commit.committer.name, email: commit.committer.email, date: commit.committer.date },
+      message: commit.message,
+      tree: { sha: commit.tree.oid, url: '' },
+      url: commit.url,
+      comment_count: 0,
+    },
+    url: commit.url,
+    html_url: commit.url,
+    comments_url: '',
+    ...(author ? { author } : {}),
+    ...(committer ? { committer } : {}),
+    parents: commit.parents.nodes.map(parent => ({ sha: parent.oid, url: parent.url, html_url: parent.url })),
+    stats: { additions: commit.additions, deletions: commit.deletions, total: commit.additions + commit.deletions },
+  };
+}
+
+const CHANGE_TYPES: Record<string, GitHubFile['status']> = {
+  ADDED: 'added',
+  DELETED: 'removed',
+  MODIFIED: 'modified',
+  RENAMED: 'renamed',
+  COPIED: 'copied',
+  CHANGED: 'changed',
+};
+
+function mapFile(file: GraphQLNodes['files']): GitHubFile {
+  // GraphQL exposes no patch text; scenes that render diffs need the REST path
+  return {
+    filename: file.path,
+    status: CHANGE_TYPES[file.changeType] || 'modified',
+    additions: file.additions,
+    deletions: file.deletions,
+    changes: file.additions + file.deletions,
+  };
+}
+
+function mapReview(review: GraphQLNodes['reviews'], pullRequest: GitHubPullRequest): GitHubReview {
+  return {
+    id: review.databaseId,
+    user: mapUser(review.author) || GHOST,
+    body: review.body,
+    state: review.state,
+    html_url: review.url,
+    pull_request_url: pullRequest.html_url,
+    author_association: review.authorAssociation,
+    ...(review.submittedAt ? { submitted_at: review.submittedAt } : {}),
+    commit_id: review.commit?.oid || '',
+  };
+}
+
+function mapReviewComment(
+  comment: GraphQLReviewComment,
+  thread: GraphQLNodes['reviewThreads'],
+  pullRequest: GitHubPullRequest
+): GitHubReviewComment {
+  return {
+    id: comment.databaseId,
+    ...(comment.pullRequestReview ? { pull_request_review_id: comment.pullRequestReview.databaseId } : {}),
+    diff_hunk: comment.diffHunk,
+    path: comment.path,
+    ...(comment.position != null ? { position: comment.position } : {}),
+    ...(comment.originalPosition != null ? { original_position: comment.originalPosition } : {}),
+    commit_id: comment.commit?.oid || '',
+    original_commit_id: comment.originalCommit?.oid || '',
+    user: mapUser(comment.author) || GHOST,
+    body: comment.body,
+    created_at: comment.createdAt,
+    updated_at: comment.updatedAt,
+    html_url: comment.url,
+    pull_request_url: pullRequest.html_url,
+    author_association: comment.authorAssociation,
+    ...(comment.replyTo ? { in_reply_to_id: comment.replyTo.databaseId } : {}),
+    ...(comment.startLine != null ? { start_line: comment.startLine } : {}),
+    ...(comment.line != null ? { line: comment.line } : {}),
+    ...(comment.originalStartLine != null ? { original_start_line: comment.originalStartLine } : {}),
+    ...(comment.originalLine != null ? { original_line: comment.originalLine } : {}),
+    ...(thread.startDiffSide ? { start_side: thread.startDiffSide } : {}),
+    ...(thread.diffSide ? { side: thread.diffSide } : {}),
+    thread_resolved: thread.isResolved,
+  };
+}
+
+function mapIssueComment(comment: GraphQLNodes['comments'], pullRequest: GitHubPullRequest): GitHubIssueComment {
+  return {
+    id: comment.databaseId,
+    user: mapUser(comment.author) || GHOST,
+    created_at: comment.createdAt,
+    updated_at: comment.updatedAt,
+    author_association: comment.authorAssociation,
+    body: comment.body,
+    html_url: comment.url,
+    issue_url: pullRequest.html_url,
+  };
+}
+
+// REST event names that do not follow the `FooBarEvent` → `foo_bar` pattern
+const TIMELINE_EVENT_NAMES: Record<string, string> = {
+  PullRequestCommit: 'committed',
+  PullRequestReview: 'reviewed',
+  IssueComment: 'commented',
+  RenamedTitleEvent: 'renamed',
+};
+
+function mapTimelineItem(item: GraphQLTimelineItem): GitHubTimelineEvent {
+  const event = TIMELINE_EVENT_NAMES[item.__typename]
+    || item.__typename.replace(/Event$/, '').replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase();
+  const actor = mapUser(item.actor || item.author);
+  const commit = item.commit || item.afterCommit;
+  const assignee = mapUser(item.assignee || item.requestedReviewer);
+  const linked = item.subject || item.source;
+
+  return {
+    ...(item.databaseId ? { id: item.databaseId } : item.id ? { id: numericId(item.id) } : {}),
+    event,
+    created_at: item.createdAt || item.submittedAt || item.commit?.committedDate || '',
+    ...(actor ? { actor } : {}),
+    ...(commit ? { commit_id: commit.oid, commit_url: commit.url } : {}),
+    ...(item.label ? { label: mapLabel(item.label) } : {}),
+    ...(assignee ? { assignee } : {}),
+    ...(item.previousTitle !== undefined ? { rename: { from: item.previousTitle, to: item.currentTitle || '' } } : {}),
+    ...(item.review
+      ? {
+          dismissed_review: {
+            state: item.review.state.toLowerCase(),
+            review_id: item.review.databaseId,
+            ...(item.dismissalMessage ? { dismissal_message: item.dismissalMessage } : {}),
+          },
+        }
+      : {}),
+    ...(item.state ? { state: item.state.toLowerCase() } : {}),
+    ...(item.url ? { html_url: item.url } : {}),
+    ...(linked?.number ? { source: { type: 'issue', issue: mapLinkedIssue(linked as GraphQLLinkedIssue) } } : {}),
+  };
+}
+
+function mapLinkedIssue(issue: GraphQLLinkedIssue): GitHubIssue {
+  return {
+    id: issue.databaseId,
+    number: issue.number,
+    title: issue.title,
+    state: issue.state === 'OPEN' ? 'open' : 'closed',
+    html_url: issue.url,
+    body: issue.body,
+    labels: (issue.labels?.nodes || []).map(mapLabel),
+    repository: { full_name: issue.repository.nameWithOwner },
+  };
+}
@@ -0,0 +1,303 @@
+/**
+ * Repository history over a date window: commits, pull requests with their reviews, issues, milestones and
+ * releases, read with the list endpoints and trimmed to what happened inside the window
+ */
+
+import { GitHubApiClient } from './client';
+import {
+  GitHubCommit,
+  GitHubLabel,
+  GitHubPullRequest,
+  GitHubReview,
+  GitHubReviewComment,
+  GitHubUser,
+  HistoryFetchOptions,
+  HistoryIssue,
+  HistoryMilestone,
+  HistoryPullRequest,
+  HistoryRelease,
+  HistoryWindow,
+  RepositoryHistory,
+} from './types';
+
+interface RepositoryResponse {
+  full_name: string;
+  description: string | null;
+  stargazers_count: number;
+  forks_count: number;
+  subscribers_count?: number;
+  watchers_count: number;
+}
+
+interface PullRequestListItem {
+  number: number;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+}
+
+interface IssueListItem {
+  number: number;
+  title: string;
+  user: GitHubUser;
+  labels: GitHubLabel[];
+  comments: number;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  /** Present when the "issue" is a pull request */
+  pull_request?: unknown;
+}
+
+interface IssueCommentItem {
+  user: GitHubUser;
+  created_at: string;
+}
+
+interface MilestoneResponse {
+  number: number;
+  title: string;
+  description: string | null;
+  state: 'open' | 'closed';
+  open_issues: number;
+  closed_issues: number;
+  created_at: string;
+  due_on: string | null;
+  closed_at: string | null;
+}
+
+interface ReleaseResponse {
+  tag_name: string;
+  name: string | null;
+  draft: boolean;
+  created_at: string;
+  published_at: string | null;
+}
+
+const DEFAULT_MAX_PULL_REQUESTS = 200;
+const DEFAULT_MAX_ISSUES = 200;
+
+export class GitHubHistoryFetcher {
+  constructor(private client: GitHubApiClient) {}
+
+  /**
+   * Read everything that happened in the repository during the window
+   */
+  async fetchHistory(
+    owner: string,
+    repo: string,
+    window: HistoryWindow,
+    options: HistoryFetchOptions = {}
+  ): Promise<RepositoryHistory> {
+    const { maxPullRequests = DEFAULT_MAX_PULL_REQUESTS, maxIssues = DEFAULT_MAX_ISSUES } = options;
+    const base = `/repos/${owner}/${repo}`;
+    const range = { since: Date.parse(window.since), until: Date.parse(window.until) };
+
+    console.log(`Reading ${owner}/${repo} history from ${window.since} to ${window.until}...`);
+    const { data } = await this.client.request<RepositoryResponse>(base);
+    const commits = await this.fetchCommits(base, window);
+    const pullRequests = await this.fetchPullRequests(base, range, maxPullRequests);
+    const issues = await this.fetchIssues(base, window, range, maxIssues);
+    const milestones = await this.fetchMilestones(base, range);
+    const releases = await this.fetchReleases(base, range);
+
+    const truncation = {
+      ...(pullRequests.total > pullRequests.items.length
+        ? { pullRequests: { shown: pullRequests.items.length, total: pullRequests.total } }
+        : {}),
+      ...(issues.total > issues.items.length ? { issues: { shown: issues.items.length, total: issues.total } } : {}),
+    };
+
+    return {
+      repository: {
+        fullName: data.full_name,
+        description: data.description || '',
+        stars: data.stargazers_count,
+        forks: data.forks_count,
+        // `watchers_count` mirrors the star count; subscribers are the people watching
+        watchers: data.subscribers_count ?? data.watchers_count,
+      },
+      window,
+      commits,
+      pullRequests: pullRequests.items,
+      issues: issues.items,
+      milestones,
+      releases,
+      ...(Object.keys(truncation).length > 0 ? { truncation } : {}),
+    };
+  }
+
+  private async fetchCommits(base: string, window: HistoryWindow): Promise<RepositoryHistory['commits']> {
+    const query = `since=${encodeURIComponent(window.since)}&until=${encodeURIComponent(window.until)}`;
+    const commits = await this.client.getAllPages<GitHubCommit>(`${base}/commits?${query}`, {}, 100);
+
+    return commits
+      .map(commit => ({
+        sha: commit.sha,
+        author: commit.author || commitAuthor(commit),
+        authoredAt: commit.commit.author.date,
+        message: commit.commit.message,
+        merge: commit.parents.length > 1,
+      }))
+      .sort((a, b) => Date.parse(a.authoredAt) - Date.parse(b.authoredAt));
+  }
+
+  /**
+   * Pull requests opened, closed or merged in the window, most recently updated first until the ceiling
+   */
+  private async fetchPullRequests(
+    base: string,
+    range: { since: number; until: number },
+    max: number
+  ): Promise<{ items: HistoryPullRequest[]; total: number }> {
+    const candidates: number[] = [];
+    // Sorted by last update, so everything after the first one older than the window is older still
+    for await (const item of this.client.paginateItems<PullRequestListItem>(`${base}/pulls?state=all&sort=updated&direction=desc`)) {
+      if (Date.parse(item.updated_at) < range.since) {
+        break;
+      }
+      if ([item.created_at, item.closed_at, item.merged_at].some(date => inWindow(date, range))) {
+        candidates.push(item.number);
+      }
+    }
+
+    const items: HistoryPullRequest[] = [];
+    for (const number of candidates.slice(0, max)) {
+      items.push(await this.fetchPullRequest(base, number));
+    }
+
+    return { items: items.sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt)), total: candidates.length };
+  }
+
+  private async fetchPullRequest(base: string, number: number): Promise<HistoryPullRequest> {
+    const { data: pullRequest } = await this.client.request<GitHubPullRequest>(`${base}/pulls/${number}`);
+    const reviews = await this.client.getAllPages<GitHubReview>(`${base}/pulls/${number}/reviews`, {}, 100);
+    const comments = await this.client.getAllPages<GitHubReviewComment>(`${base}/pulls/${number}/comments`, {}, 100);
+
+    const commentsPerReview = new Map<number, number>();
+    comments.forEach(comment => {
+      if (comment.pull_request_review_id !== undefined) {
+        commentsPerReview.set(comment.pull_request_review_id, (commentsPerReview.get(comment.pull_request_review_id) || 0) + 1);
+      }
+    });
+
+    return {
+      number,
+      title: pullRequest.title,
+      author: pullRequest.user,
+      labels: pullRequest.labels.map(label => label.name),
+      state: pullRequest.merged || pullRequest.merged_at ? 'merged' : pullRequest.state,
+      createdAt: pullRequest.created_at,
+      ...(pullRequest.closed_at ? { closedAt: pullRequest.closed_at } : {}),
+      ...(pullRequest.merged_at ? { mergedAt: pullRequest.merged_at } : {}),
+      additions: pullRequest.additions,
+      deletions: pullRequest.deletions,
+      changedFiles: pullRequest.changed_files,
+      reviews: reviews
+        .filter(review => review.submitted_at)
+        .map(review => ({
+          reviewer: review.user,
+          state: review.state,
+          submittedAt: review.submitted_at!,
+          comments: commentsPerReview.get(review.id) || 0,
+        })),
+    };
+  }
+
+  /**
+   * Issues opened or closed in the window, with the first reply from someone other than the author
+   */
+  private async fetchIssues(
+    base: string,
+    window: HistoryWindow,
+    range: { since: number; until: number },
+    max: number
+  ): Promise<{ items: HistoryIssue[]; total: number }> {
+    // `since` filters on the last update, which every issue opened or closed in the window has
+    const listed = await this.client.getAllPages<IssueListItem>(
+      `${base}/issues?state=all&sort=updated&direction=desc&since=${encodeURIComponent(window.since)}`,
+      {},
+      100
+    );
+    const relevant = listed.filter(
+      issue => !issue.pull_request && [issue.created_at, issue.closed_at].some(date => inWindow(date, range))
+    );
+
+    const items: HistoryIssue[] = [];
+    for (const issue of relevant.slice(0, max)) {
+      const firstResponseAt = issue.comments > 0 ? await this.firstResponse(base, issue) : undefined;
+      items.push({
+        number: issue.number,
+        title: issue.title,
+        author: issue.user,
+        labels: issue.labels.map(label => label.name),
+        createdAt: issue.created_at,
+        ...(issue.closed_at ? { closedAt: issue.closed_at } : {}),
+        ...(firstResponseAt ? { firstResponseAt } : {}),
+      });
+    }
+
+    return { items: items.sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt)), total: relevant.length };
+  }
+
+  private async firstResponse(base: string, issue: IssueListItem): Promise<string | undefined> {
+    // Comments come oldest first; a reply is rarely further down than the first page
+    const { data } = await this.client.request<IssueCommentItem[]>(`${base}/issues/${issue.number}/comments?per_page=30`);
+    return data.find(comment => comment.user.login !== issue.user.login)?.created_at;
+  }
+
+  /**
+   * Milestones that were open at some point during the window
+   */
+  private async fetchMilestones(base: string, range: { since: number; until: number }): Promise<HistoryMilestone[]> {
+    const milestones = await this.client.getAllPages<MilestoneResponse>(`${base}/milestones?state=all&sort=due_on&direction=asc`, {}, 100);
+
+    return milestones
+      .filter(milestone => Date.parse(milestone.created_at) <= range.until && (!milestone.closed_at || Date.parse(milestone.closed_at) >= range.since))
+      .map(milestone => ({
+        id: String(milestone.number),
+        title: milestone.title,
+        description: milestone.description || '',
+        state: milestone.state,
+        createdAt: milestone.created_at,
+        ...(milestone.due_on ? { dueOn: milestone.due_on } : {}),
+        ...(milestone.closed_at ? { closedAt: milestone.closed_at } : {}),
+        openIssues: milestone.open_issues,
+        closedIssues: milestone.closed_issues,
+      }));
+  }
+
+  /**
+   * Releases published in the window, oldest first
+   */
+  private async fetchReleases(base: string, range: { since: number; until: number }): Promise<HistoryRelease[]> {
+    const releases: HistoryRelease[] = [];
+    // Listed newest first by creation date
+    for await (const release of this.client.paginateItems<ReleaseResponse>(`${base}/releases`)) {
+      if (Date.parse(release.created_at) < range.since) {
+        break;
+      }
+      if (!release.draft && inWindow(release.published_at, range)) {
+        releases.push({ tag: release.tag_name, name: release.name || release.tag_name, publishedAt: release.published_at! });
+      }
+    }
+    return releases.reverse();
+  }
+}
+
+function inWindow(date: string | null | undefined, range: { since: number; until: number }): boolean {
+  if (!date) {
+    return false;
+  }
+  const time = Date.parse(date);
+  return time >= range.since && time <= range.until;
+}
+
+/**
+ * Commits by authors without a GitHub account only carry the git identity
+ */
+function commitAuthor(commit: GitHubCommit): GitHubUser {
+  const { name, email } = commit.commit.author;
+  return { id: 0, login: name, name, email, avatar_url: '', html_url: '', type: 'User' };
+}
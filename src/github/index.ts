@@ -50,7 +50,7 @@ export class GitHubIntegration {
     }
 
     // Initialize API client
-    this.client = new GitHubApiClient(config);
+    this.client = new GitHubApiClient(config, this.logger);
 
     // Initialize fetcher and transformer
     this.fetcher = new GitHubPRFetcher(this.client);
@@ -66,7 +66,7 @@ export class GitHubIntegration {
     owner: string,
     repo: string,
     prNumber: number,
-    options: FetchOptions & { videoType?: 'summary' | 'detailed' | 'technical' } = {}
+    options: FetchOptions & { videoType?: 'summary' | 'detailed' | 'technical' | 'executive' } = {}
   ): Promise<VideoMetadata> {
     const tracker = this.logger.startPerformanceTracking('generatePRVideo', `${owner}/${repo}#${prNumber}`);
     
@@ -293,8 +293,18 @@ export class GitHubIntegration {
 // Export all types and classes for external use
 export * from './types';
 export * from './client';
+export * from './appAuth';
+export * from './cache';
 export * from './fetcher';
+export * from './graphql';
+export * from './linkedIssues';
+export * from './discussions';
+export * from './feedback';
+export * from './aggregator';
 export * from './transformer';
+export * from './release';
+export * from './releaseTransformer';
+export * from './history';
 export * from './errorHandler';
 export * from './logger';
 
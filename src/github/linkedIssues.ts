@@ -0,0 +1,120 @@
+/**
+ * Linked issue discovery for pull requests
+ * Finds issues named by closing keywords in the PR body and by `connected` / `cross-referenced` timeline events
+ */
+
+import { GitHubIssue, GitHubLinkedIssue, GitHubTimelineEvent } from './types';
+
+export interface IssueReference {
+  owner: string;
+  repo: string;
+  number: number;
+  closing: boolean;
+  source: GitHubLinkedIssue['source'];
+  /** Issue payload embedded in a timeline event, when the API sent one */
+  issue?: GitHubIssue;
+}
+
+// The keywords GitHub recognises: close, closes, closed, fix, fixes, fixed, resolve, resolves, resolved
+const CLOSING_KEYWORD = '(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)';
+
+// #123, acme/widgets#123 or https://github.com/acme/widgets/issues/123
+const ISSUE_TARGET = '(?:https?://[^/\\s]+/([\\w.-]+)/([\\w.-]+)/issues/(\\d+)|(?:([\\w.-]+)/([\\w.-]+))?#(\\d+))';
+
+/**
+ * Issues the body says the pull request closes, e.g. "Fixes #12" or "Resolves acme/api#3, closes #14"
+ */
+export function parseClosingReferences(body: string | null | undefined, owner: string, repo: string): IssueReference[] {
+  if (!body) {
+    return [];
+  }
+
+  // Comments and code are not rendered, so references inside them do not link anything
+  const text = body.replace(/<!--[\s\S]*?-->/g, '').replace(/```[\s\S]*?```/g, '').replace(/`[^`\n]*`/g, '');
+  const pattern = new RegExp(`\\b${CLOSING_KEYWORD}:?\\s+${ISSUE_TARGET}(?![\\w/])`, 'gi');
+  const references: IssueReference[] = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const [, urlOwner, urlRepo, urlNumber, refOwner, refRepo, refNumber] = match;
+    references.push({
+      owner: urlOwner || refOwner || owner,
+      repo: urlRepo || refRepo || repo,
+      number: Number(urlNumber || refNumber),
+      closing: true,
+      source: 'body',
+    });
+  }
+
+  return dedupeReferences(references);
+}
+
+/**
+ * Issues linked through the timeline: `connected` links close the issue on merge, cross-references only mention it
+ * REST `connected` events do not name the issue; those links come from `closingIssueReferences` instead
+ */
+export function timelineReferences(timeline: GitHubTimelineEvent[], owner: string, repo: string): IssueReference[] {
+  const references = timeline
+    .filter(event => event.source?.issue && !event.source.issue.pull_request && ['connected', 'cross-referenced'].includes(event.event))
+    .map(event => issueReference(event.source!.issue!, owner, repo, event.event === 'connected'));
+
+  return dedupeReferences(references);
+}
+
+/**
+ * Whether the timeline has `connected` events that do not say which issue they link
+ */
+export function hasUnnamedConnections(timeline: GitHubTimelineEvent[]): boolean {
+  return timeline.some(event => event.event === 'connected' && !event.source?.issue);
+}
+
+/**
+ * References for the issues GitHub reports the pull request closes
+ */
+export function closingIssueReferences(issues: GitHubIssue[], owner: string, repo: string): IssueReference[] {
+  return dedupeReferences(issues.map(issue => issueReference(issue, owner, repo, true)));
+}
+
+function issueReference(issue: GitHubIssue, owner: string, repo: string, closing: boolean): IssueReference {
+  const [issueOwner, issueRepo] = (issue.repository?.full_name || `${owner}/${repo}`).split('/');
+  return { owner: issueOwner, repo: issueRepo, number: issue.number, closing, source: 'timeline', issue };
+}
+
+/**
+ * Merge references to the same issue; the first one wins but any closing link makes the result closing
+ */
+export function dedupeReferences(references: IssueReference[]): IssueReference[] {
+  const byIssue = new Map<string, IssueReference>();
+
+  references.forEach(reference => {
+    const key = `${reference.owner}/${reference.repo}#${reference.number}`.toLowerCase();
+    const existing = byIssue.get(key);
+    if (!existing) {
+      byIssue.set(key, reference);
+    } else {
+      byIssue.set(key, {
+        ...existing,
+        closing: existing.closing || reference.closing,
+        issue: existing.issue || reference.issue,
+      });
+    }
+  });
+
+  return Array.from(byIssue.values());
+}
+
+/**
+ * Combine a reference with the issue it points at
+ */
+export function toLinkedIssue(reference: IssueReference, issue: GitHubIssue): GitHubLinkedIssue {
+  return {
+    number: issue.number,
+    repository: `${reference.owner}/${reference.repo}`,
+    title: issue.title,
+    state: issue.state,
+    labels: issue.labels || [],
+    html_url: issue.html_url,
+    ...(issue.body !== undefined ? { body: issue.body } : {}),
+    closing: reference.closing,
+    source: reference.source,
+  };
+}
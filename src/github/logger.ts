@@ -32,6 +32,12 @@ export interface RateLimitMetrics {
   resource: string;
 }
 
+export interface CacheMetrics {
+  timestamp: Date;
+  outcome: 'hit' | 'miss';
+  endpoint: string;
+}
+
 export interface ErrorMetrics {
   timestamp: Date;
   errorType: string;
@@ -47,6 +53,7 @@ export class GitHubLogger {
   private performanceMetrics: PerformanceMetrics[] = [];
   private rateLimitMetrics: RateLimitMetrics[] = [];
   private errorMetrics: ErrorMetrics[] = [];
+  private cacheMetrics: CacheMetrics[] = [];
   private maxLogEntries: number = 1000;
   private logLevel: LogLevel = 'info';
 
@@ -145,6 +152,19 @@ export class GitHubLogger {
     });
   }
 
+  /**
+   * Record a response cache lookup
+   */
+  recordCacheAccess(metrics: CacheMetrics): void {
+    this.cacheMetrics.push(metrics);
+    this.trimMetrics();
+
+    this.debug(`Cache ${metrics.outcome}: ${metrics.endpoint}`, {
+      endpoint: metrics.endpoint,
+      outcome: metrics.outcome,
+    });
+  }
+
   /**
    * Record error metrics
    */
@@ -172,18 +192,28 @@ export class GitHubLogger {
       averageTime: number;
       successRate: number;
     }>;
+    cache: { hits: number; misses: number; hitRate: number };
   } {
     const cutoffTime = Date.now() - timeWindowMs;
     const recentMetrics = this.performanceMetrics.filter(
       m => m.timestamp.getTime() > cutoffTime
     );
 
+    const recentCacheMetrics = this.cacheMetrics.filter(m => m.timestamp.getTime() > cutoffTime);
+    const hits = recentCacheMetrics.filter(m => m.outcome === 'hit').length;
+    const cache = {
+      hits,
+      misses: recentCacheMetrics.length - hits,
+      hitRate: recentCacheMetrics.length > 0 ? hits / recentCacheMetrics.length : 0,
+    };
+
     if (recentMetrics.length === 0) {
       return {
         averageResponseTime: 0,
         successRate: 0,
         slowestOperations: [],
         operationStats: {},
+        cache,
       };
     }
 
@@ -227,6 +257,7 @@ export class GitHubLogger {
       successRate,
       slowestOperations,
       operationStats,
+      cache,
     };
   }
 
@@ -376,6 +407,7 @@ export class GitHubLogger {
         performanceMetrics: this.performanceMetrics,
         rateLimitMetrics: this.rateLimitMetrics,
         errorMetrics: this.errorMetrics,
+        cacheMetrics: this.cacheMetrics,
         exportedAt: new Date().toISOString(),
       }, null, 2);
     } else {
@@ -440,6 +472,10 @@ export class GitHubLogger {
     if (this.errorMetrics.length > maxMetricsEntries) {
       this.errorMetrics = this.errorMetrics.slice(-maxMetricsEntries);
     }
+
+    if (this.cacheMetrics.length > maxMetricsEntries) {
+      this.cacheMetrics = this.cacheMetrics.slice(-maxMetricsEntries);
+    }
   }
 
   private generateRequestId(): string {
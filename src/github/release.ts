@@ -0,0 +1,155 @@
+/**
+ * Release enumeration: finds the pull requests merged between two tags (compare and search APIs) or in a
+ * milestone (search API), and fetches the ones in the release in full
+ */
+
+import { GitHubApiClient } from './client';
+import { GitHubPRFetcher } from './fetcher';
+import { GitHubCommit, PRVideoData, ReleaseCandidate, ReleaseData, ReleaseFetchOptions, ReleaseRange } from './types';
+
+interface CompareResponse {
+  total_commits: number;
+  commits: GitHubCommit[];
+}
+
+interface SearchIssue {
+  number: number;
+  closed_at?: string | null;
+  pull_request?: { merged_at?: string | null };
+}
+
+const DEFAULT_MAX_PULL_REQUESTS = 100;
+
+// A release video needs what each PR changed and who took part, not its discussion or CI history
+const RELEASE_FETCH_DEFAULTS: ReleaseFetchOptions = {
+  includeComments: false,
+  includeTimeline: false,
+  includeChecks: false,
+};
+
+export class GitHubReleaseFetcher {
+  private fetcher: GitHubPRFetcher;
+
+  constructor(private client: GitHubApiClient, fetcher?: GitHubPRFetcher) {
+    this.fetcher = fetcher || new GitHubPRFetcher(client);
+  }
+
+  /**
+   * Fetch every pull request merged in the release, earliest merge first
+   */
+  async fetchReleaseData(
+    owner: string,
+    repo: string,
+    range: ReleaseRange,
+    options: ReleaseFetchOptions = {}
+  ): Promise<ReleaseData> {
+    const { maxPullRequests = DEFAULT_MAX_PULL_REQUESTS, ...fetchOptions } = options;
+    const repository = await this.fetcher.fetchRepository(owner, repo);
+    const candidates = await this.searchMergedPullRequests(owner, repo, range);
+    // A milestone takes every merged PR; a tag range only those whose merge commit it contains
+    const merged = range.type === 'tags' ? await this.filterByMergeCommit(owner, repo, range, candidates) : candidates;
+    const inRelease = [...merged].sort((a, b) => Date.parse(a.mergedAt) - Date.parse(b.mergedAt));
+
+    // Only the PRs that make the cut are fetched in full
+    const pullRequests: PRVideoData[] = [];
+    for (const { number } of inRelease.slice(0, maxPullRequests)) {
+      pullRequests.push(await this.fetcher.fetchPRData(owner, repo, number, { ...RELEASE_FETCH_DEFAULTS, ...fetchOptions }));
+    }
+
+    return {
+      repository,
+      range,
+      name: range.type === 'tags' ? range.head : range.milestone,
+      pullRequests,
+      ...(inRelease.length > pullRequests.length
+        ? { truncation: { shown: pullRequests.length, total: inRelease.length } }
+        : {}),
+    };
+  }
+
+  /**
+   * Merged pull requests that may belong to the release, in creation order
+   */
+  async searchMergedPullRequests(owner: string, repo: string, range: ReleaseRange): Promise<ReleaseCandidate[]> {
+    const qualifiers = [`repo:${owner}/${repo}`, 'is:pr', 'is:merged'];
+
+    if (range.type === 'milestone') {
+      qualifiers.push(`milestone:"${range.milestone.replace(/"/g, '')}"`);
+    } else {
+      const [since, until] = await Promise.all([
+        this.commitDate(owner, repo, range.base),
+        this.commitDate(owner, repo, range.head),
+      ]);
+      qualifiers.push(`merged:${since}..${until}`);
+    }
+
+    console.log(`Searching pull requests merged in ${describeReleaseRange(range)}...`);
+    const issues = await this.client.getAllPages<SearchIssue>(
+      `/search/issues?q=${encodeURIComponent(qualifiers.join(' '))}&sort=created&order=asc`,
+      {},
+      100
+    );
+    return issues.map(issue => ({ number: issue.number, mergedAt: issue.pull_request?.merged_at || issue.closed_at || '' }));
+  }
+
+  /**
+   * Candidates whose merge commit lies between the tags, read from the pull request alone
+   */
+  async filterByMergeCommit(
+    owner: string,
+    repo: string,
+    range: Extract<ReleaseRange, { type: 'tags' }>,
+    candidates: ReleaseCandidate[]
+  ): Promise<ReleaseCandidate[]> {
+    const shas = await this.compareCommitShas(owner, repo, range);
+    const merged: ReleaseCandidate[] = [];
+
+    for (const candidate of candidates) {
+      const pullRequest = await this.fetcher.fetchPullRequest(owner, repo, candidate.number);
+      if (pullRequest.merge_commit_sha && shas.has(pullRequest.merge_commit_sha)) {
+        merged.push({ number: candidate.number, mergedAt: pullRequest.merged_at || candidate.mergedAt });
+      }
+    }
+
+    const skipped = candidates.length - merged.length;
+    if (skipped > 0) {
+      // Merged in the same window but onto another branch
+      console.log(`Skipped ${skipped} pull requests merged outside ${describeReleaseRange(range)}`);
+    }
+    return merged;
+  }
+
+  /**
+   * SHAs of the commits reachable from the head tag but not from the base tag
+   */
+  async compareCommitShas(owner: string, repo: string, range: Extract<ReleaseRange, { type: 'tags' }>): Promise<Set<string>> {
+    console.log(`Comparing ${range.base}...${range.head}...`);
+    const endpoint = `/repos/${owner}/${repo}/compare/${encodeURIComponent(range.base)}...${encodeURIComponent(range.head)}`;
+    const shas = new Set<string>();
+
+    // The compare response is an object rather than a list, so it is paged by hand
+    for (let page = 1; ; page++) {
+      const { data } = await this.client.request<CompareResponse>(`${endpoint}?per_page=100&page=${page}`);
+      data.commits.forEach(commit => shas.add(commit.sha));
+      if (data.commits.length === 0 || shas.size >= data.total_commits) {
+        return shas;
+      }
+    }
+  }
+
+  private async commitDate(owner: string, repo: string, ref: string): Promise<string> {
+    try {
+      const { data } = await this.client.request<GitHubCommit>(`/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`);
+      return data.commit.committer.date;
+    } catch (error) {
+      throw new Error(`Failed to resolve ${ref} in ${owner}/${repo}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * `v1.2.0...v1.3.0` or `milestone "Sprint 12"`
+ */
+export function describeReleaseRange(range: ReleaseRange): string {
+  return range.type === 'tags' ? `${range.base}...${range.head}` : `milestone "${range.milestone}"`;
+}
@@ -0,0 +1,281 @@
+/**
+ * Turns a release's pull requests into release-notes video metadata: PRVideoTransformer summarises each PR,
+ * labels sort them into feature, fix and chore chapters, and every author, committer and reviewer is credited
+ */
+
+import { defaultThemeRegistry, toVideoTheme } from '../theme/registry';
+import { Theme } from '../theme/types';
+import { PRVideoTransformer, ProblemStatementScene, VideoMetadata, VideoTheme } from './transformer';
+import { GitHubUser, PRVideoData, ReleaseData, ReleaseRange } from './types';
+
+export type ReleaseCategory = 'features' | 'fixes' | 'chores';
+
+/**
+ * One merged pull request as the release video presents it
+ */
+export interface ReleaseHighlight {
+  number: number;
+  title: string;
+  url: string;
+  author: GitHubUser;
+  labels: string[];
+  mergedAt?: string;
+  additions: number;
+  deletions: number;
+  files: number;
+  /** Issues the pull request closes, e.g. `#12` */
+  closes: string[];
+  /** Relative weight used to pick the highlights of a chapter; larger is more notable */
+  score: number;
+}
+
+export interface ReleaseChapter {
+  category: ReleaseCategory;
+  title: string;
+  /** Every pull request in the category, most notable first */
+  pullRequests: ReleaseHighlight[];
+}
+
+export interface ReleaseContributor {
+  user: GitHubUser;
+  pullRequests: number;
+  commits: number;
+  reviews: number;
+}
+
+export interface ReleaseMetrics {
+  pullRequests: number;
+  commits: number;
+  additions: number;
+  deletions: number;
+  files: number;
+  contributors: number;
+  closedIssues: number;
+}
+
+export interface ReleaseVideoMetadata {
+  title: string;
+  subtitle: string;
+  /** Head tag or milestone title */
+  name: string;
+  repository: string;
+  range: ReleaseRange;
+  /** First and last merge of the release as ISO timestamps; null for an empty release */
+  period: { from: string; to: string } | null;
+  /** Non-empty categories in feature, fix, chore order */
+  chapters: ReleaseChapter[];
+  /** Most active first */
+  contributors: ReleaseContributor[];
+  keyMetrics: ReleaseMetrics;
+  theme: VideoTheme;
+}
+
+export interface ReleaseTransformerOptions {
+  /** Label names, matched case-insensitively as whole words, that put a pull request in a category */
+  categoryLabels?: Partial<Record<ReleaseCategory, string[]>>;
+  /** Theme, or the id of a registered one; otherwise the one picked for most of the pull requests */
+  theme?: Theme | string;
+}
+
+const CATEGORY_ORDER: ReleaseCategory[] = ['features', 'fixes', 'chores'];
+
+const CHAPTER_TITLES: Record<ReleaseCategory, string> = {
+  features: 'New Features',
+  fixes: 'Bug Fixes',
+  chores: 'Maintenance',
+};
+
+const DEFAULT_CATEGORY_LABELS: Record<ReleaseCategory, string[]> = {
+  features: ['feature', 'feat', 'enhancement', 'new feature'],
+  fixes: ['bug', 'fix', 'bugfix', 'hotfix', 'regression'],
+  chores: ['chore', 'dependencies', 'deps', 'ci', 'docs', 'documentation', 'refactor', 'build'],
+};
+
+// Conventional-commit prefix of a title, e.g. `feat(cli)!: `; the type decides the category of unlabelled PRs
+const CONVENTIONAL_PREFIX = /^(feat|fix|chore|docs|refactor|perf|test|build|ci|style|revert)(\([^)]*\))?(!)?:\s*/i;
+
+const PREFIX_CATEGORIES: Record<string, ReleaseCategory> = { feat: 'features', fix: 'fixes' };
+
+const IMPACT_WEIGHT: Record<string, number> = { Major: 3, Medium: 2, Minor: 1 };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class ReleaseTransformer {
+  private categoryLabels: Record<ReleaseCategory, RegExp[]>;
+  private theme?: Theme;
+
+  constructor(options: ReleaseTransformerOptions = {}, private prTransformer = new PRVideoTransformer()) {
+    this.theme = typeof options.theme === 'string' ? defaultThemeRegistry.resolve(options.theme) : options.theme;
+    const labels = { ...DEFAULT_CATEGORY_LABELS, ...options.categoryLabels };
+    const patterns = (names: string[]) => names.map(name => new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i'));
+    this.categoryLabels = {
+      features: patterns(labels.features),
+      fixes: patterns(labels.fixes),
+      chores: patterns(labels.chores),
+    };
+  }
+
+  /**
+   * Chapters, contributors and totals for a release video
+   */
+  transform(release: ReleaseData): ReleaseVideoMetadata {
+    console.log(`Transforming ${release.pullRequests.length} pull requests for release ${release.name}...`);
+
+    const summaries = release.pullRequests.map(prData => ({
+      prData,
+      metadata: this.prTransformer.transform(prData, 'summary'),
+    }));
+
+    const chapters = CATEGORY_ORDER.map(category => ({
+      category,
+      title: CHAPTER_TITLES[category],
+      pullRequests: summaries
+        .filter(({ prData }) => this.categorize(prData) === category)
+        .map(({ prData, metadata }) => this.highlight(prData, metadata))
+        .sort((a, b) => b.score - a.score),
+    })).filter(chapter => chapter.pullRequests.length > 0);
+
+    const contributors = this.collectContributors(release.pullRequests);
+    const mergeTimes = release.pullRequests
+      .map(prData => prData.pullRequest.merged_at)
+      .filter((mergedAt): mergedAt is string => Boolean(mergedAt))
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+    const keyMetrics = this.releaseMetrics(release, chapters, contributors.length);
+
+    return {
+      title: `${release.repository.full_name} ${release.name}`,
+      subtitle: `${keyMetrics.pullRequests} pull requests • ${keyMetrics.contributors} contributors`,
+      name: release.name,
+      repository: release.repository.full_name,
+      range: release.range,
+      period: mergeTimes.length > 0
+        ? { from: new Date(mergeTimes[0]).toISOString(), to: new Date(mergeTimes[mergeTimes.length - 1]).toISOString() }
+        : null,
+      chapters,
+      contributors,
+      keyMetrics,
+      theme: this.selectTheme(summaries.map(({ metadata }) => metadata)),
+    };
+  }
+
+  /**
+   * Category from the first matching label, then the conventional-commit prefix of the title; chores otherwise
+   */
+  categorize(prData: PRVideoData): ReleaseCategory {
+    return this.categorizeChange(prData.pullRequest.title, prData.pullRequest.labels.map(label => label.name));
+  }
+
+  /**
+   * `categorize` for a change known only by its title and label names
+   */
+  categorizeChange(title: string, labels: string[]): ReleaseCategory {
+    const byLabel = CATEGORY_ORDER.find(category =>
+      labels.some(label => this.categoryLabels[category].some(pattern => pattern.test(label)))
+    );
+    if (byLabel) {
+      return byLabel;
+    }
+
+    const prefix = CONVENTIONAL_PREFIX.exec(title.trim());
+    return (prefix && PREFIX_CATEGORIES[prefix[1].toLowerCase()]) || 'chores';
+  }
+
+  /**
+   * Weigh a pull request by the transformer's impact rating, the issues it closes and how many people reviewed it
+   */
+  private highlight(prData: PRVideoData, metadata: VideoMetadata): ReleaseHighlight {
+    const { pullRequest } = prData;
+    const summary = metadata.scenes.find(scene => scene.type === 'summary')?.data as { impact?: string } | undefined;
+    const problem = metadata.scenes.find(scene => scene.type === 'problemStatement')?.data as ProblemStatementScene | undefined;
+    const closes = problem ? problem.closes.map(issue => issue.reference) : [];
+    const prefix = CONVENTIONAL_PREFIX.exec(pullRequest.title.trim());
+    const breaking = pullRequest.labels.some(label => /\bbreaking\b/i.test(label.name)) || Boolean(prefix?.[3]);
+
+    const score =
+      (IMPACT_WEIGHT[summary?.impact || 'Minor'] || 1) +
+      closes.length * 2 +
+      Math.min(metadata.keyMetrics.totalReviews, 5) * 0.5 +
+      Math.min(metadata.keyMetrics.participantCount, 5) * 0.5 +
+      (breaking ? 5 : 0);
+
+    return {
+      number: pullRequest.number,
+      title: pullRequest.title.trim().replace(CONVENTIONAL_PREFIX, ''),
+      url: pullRequest.html_url,
+      author: pullRequest.user,
+      labels: pullRequest.labels.map(label => label.name),
+      ...(pullRequest.merged_at ? { mergedAt: pullRequest.merged_at } : {}),
+      additions: metadata.keyMetrics.totalAdditions,
+      deletions: metadata.keyMetrics.totalDeletions,
+      files: prData.codeStats.totalFiles,
+      closes,
+      score,
+    };
+  }
+
+  /**
+   * Authors, commit authors and reviewers across the release, most active first
+   */
+  private collectContributors(pullRequests: PRVideoData[]): ReleaseContributor[] {
+    const contributors = new Map<string, ReleaseContributor>();
+    const credit = (user: GitHubUser | undefined, field: 'pullRequests' | 'commits' | 'reviews') => {
+      if (!user || user.type === 'Bot' || /\[bot\]$/.test(user.login)) {
+        return;
+      }
+      const contributor = contributors.get(user.login) || { user, pullRequests: 0, commits: 0, reviews: 0 };
+      contributor[field]++;
+      contributors.set(user.login, contributor);
+    };
+
+    pullRequests.forEach(prData => {
+      credit(prData.pullRequest.user, 'pullRequests');
+      prData.commits.forEach(commit => credit(commit.author, 'commits'));
+      // One credit per reviewer per pull request, however many review rounds it took
+      const reviewers = new Map(prData.reviews.map(review => [review.user.login, review.user]));
+      reviewers.delete(prData.pullRequest.user.login);
+      reviewers.forEach(user => credit(user, 'reviews'));
+    });
+
+    const activity = (contributor: ReleaseContributor) =>
+      contributor.pullRequests * 3 + contributor.reviews * 2 + contributor.commits;
+    return Array.from(contributors.values()).sort(
+      (a, b) => activity(b) - activity(a) || a.user.login.localeCompare(b.user.login)
+    );
+  }
+
+  private releaseMetrics(release: ReleaseData, chapters: ReleaseChapter[], contributors: number): ReleaseMetrics {
+    const sum = (value: (prData: PRVideoData) => number) =>
+      release.pullRequests.reduce((total, prData) => total + value(prData), 0);
+    const closedIssues = new Set(chapters.flatMap(chapter => chapter.pullRequests.flatMap(pr => pr.closes)));
+
+    return {
+      pullRequests: release.pullRequests.length,
+      commits: sum(prData => prData.commits.length),
+      additions: sum(prData => prData.codeStats.totalAdditions),
+      deletions: sum(prData => prData.codeStats.totalDeletions),
+      files: new Set(release.pullRequests.flatMap(prData => prData.files.map(file => file.filename))).size,
+      contributors,
+      closedIssues: closedIssues.size,
+    };
+  }
+
+  /**
+   * The chosen theme, else the one the transformer picked for most of the release's pull requests
+   */
+  private selectTheme(summaries: VideoMetadata[]): VideoTheme {
+    if (this.theme) {
+      return toVideoTheme(this.theme);
+    }
+
+    const counts = new Map<string, { theme: VideoTheme; count: number }>();
+    summaries.forEach(({ theme }) => {
+      const key = theme.id ?? theme.style;
+      const entry = counts.get(key) || { theme, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    });
+
+    const [mostUsed] = Array.from(counts.values()).sort((a, b) => b.count - a.count);
+    return mostUsed ? mostUsed.theme : toVideoTheme(defaultThemeRegistry.resolve('minimal'));
+  }
+}
@@ -2,11 +2,29 @@
  * Data transformation layer for converting GitHub PR data into video generation context
  */
 
-import { PRVideoData, GitHubUser, GitHubCommit, GitHubFile, GitHubReview } from './types';
+import {
+  PRVideoData,
+  GitHubUser,
+  GitHubCommit,
+  GitHubFile,
+  GitHubReview,
+  GitHubReviewComment,
+  CollectionTruncation,
+  GitHubCheckRun,
+  GitHubCommitStatus,
+  PRChecks,
+  GitHubLinkedIssue,
+} from './types';
+import { analyzeReviewThreads, buildReviewFlow, keyPoint, reviewKeyPoints, toDiscussions } from './discussions';
+import { linkFeedbackToCommits } from './feedback';
+import { defaultThemeRegistry, toVideoTheme } from '../theme/registry';
+import { Theme, VideoTheme } from '../theme/types';
+
+export type { VideoTheme };
 
 // Video-specific data structures
 export interface VideoSceneData {
-  type: 'intro' | 'overview' | 'commits' | 'files' | 'reviews' | 'timeline' | 'summary' | 'outro';
+  type: 'intro' | 'overview' | 'problemStatement' | 'qualityGates' | 'commits' | 'files' | 'reviews' | 'feedbackAddressed' | 'timeline' | 'summary' | 'outro';
   title: string;
   duration: number; // in seconds
   data: any;
@@ -49,14 +67,6 @@ export interface KeyMetrics {
   primaryLanguage: string;
 }
 
-export interface VideoTheme {
-  primaryColor: string;
-  secondaryColor: string;
-  backgroundColor: string;
-  textColor: string;
-  style: 'modern' | 'classic' | 'minimal' | 'corporate';
-}
-
 export interface CommitScene {
   commits: CommitSummary[];
   totalStats: {
@@ -65,6 +75,8 @@ export interface CommitScene {
     files: number;
   };
   timeline: Date[];
+  /** "Showing 250 of 412 commits" when the list was truncated */
+  truncationNote?: string;
 }
 
 export interface CommitSummary {
@@ -87,6 +99,8 @@ export interface FileChangesScene {
   languageBreakdown: LanguageStats[];
   categoryBreakdown: CategoryStats[];
   significantChanges: FileChangeSummary[];
+  /** "Showing 100 of 412 files" when the list was truncated */
+  truncationNote?: string;
 }
 
 export interface FileChangeSummary {
@@ -146,11 +160,91 @@ export interface Discussion {
   key_points: string[];
 }
 
+export interface FeedbackAddressedScene {
+  /** One sentence naming the feedback that led to fixes, ready for narration */
+  statement: string;
+  fixes: FeedbackFix[];
+}
+
+export interface FeedbackFix {
+  reviewer: GitHubUser;
+  /** "src/auth.ts:42" or "src/auth.ts:40-42" */
+  location: string;
+  /** First sentence of the comment that started the thread */
+  comment: string;
+  commit: GitHubCommit;
+  /** The commit's change to the file, narrowed to the hunk that touched the commented lines */
+  change: GitHubFile;
+}
+
+export interface ProblemStatementScene {
+  /** One or two sentences naming the issues the PR resolves, ready for narration */
+  statement: string;
+  /** Issues merging the PR closes */
+  closes: LinkedIssueSummary[];
+  /** Issues that only reference the PR */
+  related: LinkedIssueSummary[];
+  /** Distinct labels across the linked issues, e.g. "bug" or "performance" */
+  labels: string[];
+}
+
+export interface LinkedIssueSummary {
+  /** "#123" for the PR's repository, "owner/repo#123" otherwise */
+  reference: string;
+  title: string;
+  state: 'open' | 'closed';
+  labels: string[];
+  url: string;
+  /** First paragraph of the issue body, trimmed for display */
+  excerpt?: string;
+}
+
+export type GateOutcome = 'passing' | 'failing' | 'pending' | 'skipped';
+
+export interface QualityGatesScene {
+  overall: Exclude<GateOutcome, 'skipped'>;
+  jobs: QualityGateJob[];
+  passed: number;
+  failed: number;
+  pending: number;
+  skipped: number;
+  /** Jobs that failed and then passed on a rerun of the same commit */
+  flakyJobs: string[];
+  /** Wall-clock seconds from the first job start to the last job finish */
+  totalDuration: number;
+  deployments: DeploymentSummary[];
+}
+
+export interface QualityGateJob {
+  name: string;
+  source: 'check' | 'status';
+  outcome: GateOutcome;
+  /** Seconds taken by the latest attempt; null while running or when unknown */
+  duration: number | null;
+  attempts: number;
+  flaky: boolean;
+  url?: string;
+}
+
+export interface DeploymentSummary {
+  environment: string;
+  state: string;
+  url?: string;
+  createdAt: Date;
+}
+
+export interface PRVideoTransformerOptions {
+  /** Theme, or the id of a registered one; picked from the primary language when absent */
+  theme?: Theme | string;
+}
+
 export class PRVideoTransformer {
+  constructor(private options: PRVideoTransformerOptions = {}) {}
+
   /**
    * Transform PR data into video-ready metadata
    */
-  transform(prData: PRVideoData, videoType: 'summary' | 'detailed' | 'technical' = 'summary'): VideoMetadata {
+  transform(prData: PRVideoData, videoType: 'summary' | 'detailed' | 'technical' | 'executive' = 'summary'): VideoMetadata {
     console.log(`Transforming PR data for ${videoType} video...`);
 
     const scenes = this.generateScenes(prData, videoType);
@@ -211,9 +305,36 @@ export class PRVideoTransformer {
       priority: 'high',
     });
 
+    // Problem statement scene (if the PR fixes or references issues)
+    if (prData.linkedIssues && prData.linkedIssues.length > 0) {
+      const problem = this.generateProblemStatementScene(prData);
+      scenes.push({
+        type: 'problemStatement',
+        title: 'Problem Statement',
+        duration: Math.min(4 + (problem.closes.length + problem.related.length) * 1.5, 10), // Max 10 seconds
+        data: problem,
+        priority: problem.closes.length > 0 ? 'high' : 'medium',
+      });
+    }
+
+    // Quality gates scene (if CI reported anything for the head commit)
+    const qualityGates = prData.checks ? this.generateQualityGatesScene(prData.checks) : null;
+    if (qualityGates && (qualityGates.jobs.length > 0 || qualityGates.deployments.length > 0)) {
+      scenes.push({
+        type: 'qualityGates',
+        title: 'Quality Gates',
+        duration: Math.min(4 + qualityGates.jobs.length * 0.5, 10), // Max 10 seconds
+        data: qualityGates,
+        priority: qualityGates.overall === 'failing' || qualityGates.flakyJobs.length > 0 ? 'high' : 'medium',
+      });
+    }
+
     // Commits scene (if significant commits)
     if (prData.commits.length > 0) {
       const commitScene = this.generateCommitScene(prData.commits);
+      if (prData.truncation?.commits) {
+        commitScene.truncationNote = describeTruncation(prData.truncation.commits, 'commits');
+      }
       scenes.push({
         type: 'commits',
         title: 'Code Changes',
@@ -226,6 +347,9 @@ export class PRVideoTransformer {
     // Files scene (if file changes)
     if (prData.files.length > 0) {
       const fileScene = this.generateFileChangesScene(prData.files);
+      if (prData.truncation?.files) {
+        fileScene.truncationNote = describeTruncation(prData.truncation.files, 'files');
+      }
       scenes.push({
         type: 'files',
         title: 'File Changes',
@@ -247,8 +371,20 @@ export class PRVideoTransformer {
       });
     }
 
-    // Timeline scene (for detailed videos)
-    if (videoType === 'detailed' || videoType === 'technical') {
+    // Feedback addressed scene (if later commits changed the lines reviewers commented on)
+    const feedback = videoType !== 'summary' ? this.generateFeedbackAddressedScene(prData) : null;
+    if (feedback && feedback.fixes.length > 0) {
+      scenes.push({
+        type: 'feedbackAddressed',
+        title: 'Feedback Addressed',
+        duration: Math.min(3 + feedback.fixes.length * 4, 15), // Max 15 seconds
+        data: feedback,
+        priority: feedback.fixes.length > 2 ? 'high' : 'medium',
+      });
+    }
+
+    // Timeline scene (for detailed videos; executive briefs report time to merge from it)
+    if (videoType === 'detailed' || videoType === 'technical' || videoType === 'executive') {
       scenes.push({
         type: 'timeline',
         title: 'PR Timeline',
@@ -390,6 +526,185 @@ export class PRVideoTransformer {
     };
   }
 
+  /**
+   * Review threads paired with the commits that changed their lines, in the order the threads started
+   */
+  private generateFeedbackAddressedScene(prData: PRVideoData): FeedbackAddressedScene {
+    const fixes: FeedbackFix[] = linkFeedbackToCommits(prData.reviewComments, prData.commits).map(({ thread, commit, change, lines }) => ({
+      reviewer: thread[0].user,
+      location: `${thread[0].path}:${lines.start === lines.end ? lines.start : `${lines.start}-${lines.end}`}`,
+      comment: keyPoint(thread[0].body) || 'Left a comment',
+      commit,
+      change,
+    }));
+
+    const described = fixes.slice(0, 3).map(fix => `@${fix.reviewer.login}'s comment on ${fix.location} (fixed in ${fix.commit.sha.slice(0, 7)})`);
+    const more = fixes.length - described.length;
+    const statement = fixes.length === 0
+      ? ''
+      : `Review feedback led to ${fixes.length} fix${fixes.length === 1 ? '' : 'es'}: ${joinList(more > 0 ? [...described, `${more} more`] : described)}.`;
+
+    return { statement, fixes };
+  }
+
+  /**
+   * Generate problem statement scene data from the issues the PR closes or references
+   */
+  private generateProblemStatementScene(prData: PRVideoData): ProblemStatementScene {
+    const issues = (prData.linkedIssues || []).map(issue => ({
+      issue,
+      summary: this.summarizeLinkedIssue(issue, prData.repository.full_name),
+    }));
+    const closes = issues.filter(({ issue }) => issue.closing).map(({ summary }) => summary);
+    const related = issues.filter(({ issue }) => !issue.closing).map(({ summary }) => summary);
+    const labels = Array.from(new Set(issues.flatMap(({ summary }) => summary.labels)));
+
+    const describe = (summary: LinkedIssueSummary) => `${summary.reference} (${summary.title})`;
+    const sentences: string[] = [];
+    if (closes.length > 0) {
+      sentences.push(`This pull request resolves ${joinList(closes.map(describe))}.`);
+    }
+    if (related.length > 0) {
+      sentences.push(`It relates to ${joinList(related.map(describe))}.`);
+    }
+
+    return { statement: sentences.join(' '), closes, related, labels };
+  }
+
+  private summarizeLinkedIssue(issue: GitHubLinkedIssue, repository: string): LinkedIssueSummary {
+    const excerpt = (issue.body || '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.replace(/^\s*#.*$/gm, '').replace(/[>*_`]/g, '').replace(/\s+/g, ' ').trim())
+      .find(paragraph => paragraph.length > 0);
+
+    return {
+      reference: issue.repository.toLowerCase() === repository.toLowerCase()
+        ? `#${issue.number}`
+        : `${issue.repository}#${issue.number}`,
+      title: issue.title,
+      state: issue.state,
+      labels: issue.labels.map(label => label.name),
+      url: issue.html_url,
+      ...(excerpt ? { excerpt: excerpt.length > 160 ? `${excerpt.slice(0, 157)}...` : excerpt } : {}),
+    };
+  }
+
+  /**
+   * Generate quality gates scene data from check runs, commit statuses and deployments
+   */
+  private generateQualityGatesScene(checks: PRChecks): QualityGatesScene {
+    const jobs = [...this.summarizeCheckRuns(checks.checkRuns), ...this.summarizeStatuses(checks.statuses)];
+    const count = (outcome: GateOutcome) => jobs.filter(job => job.outcome === outcome).length;
+
+    const latestRuns = [...this.checkRunAttempts(checks.checkRuns).values()].map(runs => runs[runs.length - 1]);
+    const starts = latestRuns.map(run => run.started_at).filter(Boolean).map(date => Date.parse(date!));
+    const ends = latestRuns.map(run => run.completed_at).filter(Boolean).map(date => Date.parse(date!));
+
+    const deployments: DeploymentSummary[] = checks.deployments.map(deployment => ({
+      environment: deployment.environment,
+      state: deployment.statuses[0]?.state || 'pending',
+      ...(deployment.statuses[0]?.environment_url ? { url: deployment.statuses[0].environment_url } : {}),
+      createdAt: new Date(deployment.created_at),
+    }));
+
+    return {
+      overall: count('failing') > 0 ? 'failing' : count('pending') > 0 ? 'pending' : 'passing',
+      jobs,
+      passed: count('passing'),
+      failed: count('failing'),
+      pending: count('pending'),
+      skipped: count('skipped'),
+      flakyJobs: jobs.filter(job => job.flaky).map(job => job.name),
+      totalDuration: starts.length && ends.length
+        ? Math.max(0, Math.round((Math.max(...ends) - Math.min(...starts)) / 1000))
+        : 0,
+      deployments,
+    };
+  }
+
+  /**
+   * One job per check name; the latest attempt decides the outcome
+   */
+  private summarizeCheckRuns(checkRuns: GitHubCheckRun[]): QualityGateJob[] {
+    return [...this.checkRunAttempts(checkRuns).entries()].map(([name, attempts]) => {
+      const latest = attempts[attempts.length - 1];
+      const outcome = this.checkRunOutcome(latest);
+      const url = latest.html_url || latest.details_url;
+
+      return {
+        name,
+        source: 'check' as const,
+        outcome,
+        duration: latest.started_at && latest.completed_at
+          ? Math.round((Date.parse(latest.completed_at) - Date.parse(latest.started_at)) / 1000)
+          : null,
+        attempts: attempts.length,
+        flaky: outcome === 'passing' && attempts.slice(0, -1).some(run => this.checkRunOutcome(run) === 'failing'),
+        ...(url ? { url } : {}),
+      };
+    });
+  }
+
+  /**
+   * Check runs grouped by name, each group ordered oldest attempt first
+   */
+  private checkRunAttempts(checkRuns: GitHubCheckRun[]): Map<string, GitHubCheckRun[]> {
+    // Queued reruns have no start time yet and sort last
+    return groupBy(
+      [...checkRuns].sort((a, b) => (a.started_at || '~').localeCompare(b.started_at || '~') || a.id - b.id),
+      run => run.name
+    );
+  }
+
+  /**
+   * One job per status context; statuses arrive newest first and include pending updates
+   */
+  private summarizeStatuses(statuses: GitHubCommitStatus[]): QualityGateJob[] {
+    const byContext = groupBy(
+      [...statuses].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id),
+      status => status.context
+    );
+
+    return [...byContext.entries()].map(([context, updates]) => {
+      const latest = updates[updates.length - 1];
+      const results = updates.filter(update => update.state !== 'pending');
+      const outcome: GateOutcome = latest.state === 'success'
+        ? 'passing'
+        : latest.state === 'pending' ? 'pending' : 'failing';
+      // The run that produced the latest result started with the pending update just before it
+      const started = updates.slice(0, -1).reverse().find(update => update.state === 'pending');
+
+      return {
+        name: context,
+        source: 'status' as const,
+        outcome,
+        duration: started && latest.state !== 'pending'
+          ? Math.round((Date.parse(latest.created_at) - Date.parse(started.created_at)) / 1000)
+          : null,
+        attempts: Math.max(results.length, 1),
+        flaky: outcome === 'passing' && results.slice(0, -1).some(update => update.state !== 'success'),
+        ...(latest.target_url ? { url: latest.target_url } : {}),
+      };
+    });
+  }
+
+  private checkRunOutcome(run: GitHubCheckRun): GateOutcome {
+    if (run.status !== 'completed') {
+      return 'pending';
+    }
+    switch (run.conclusion) {
+      case 'success':
+      case 'neutral':
+        return 'passing';
+      case 'skipped':
+      case 'stale':
+        return 'skipped';
+      default:
+        return 'failing';
+    }
+  }
+
   /**
    * Generate participant summaries
    */
@@ -488,42 +803,22 @@ export class PRVideoTransformer {
   }
 
   /**
-   * Select appropriate theme based on PR data and video type
+   * The chosen theme, or one picked from the repository's primary language
    */
   private selectTheme(prData: PRVideoData, videoType: string): VideoTheme {
-    const themes: Record<string, VideoTheme> = {
-      modern: {
-        primaryColor: '#0066CC',
-        secondaryColor: '#33CC33',
-        backgroundColor: '#1A1A1A',
-        textColor: '#FFFFFF',
-        style: 'modern',
-      },
-      corporate: {
-        primaryColor: '#2E86AB',
-        secondaryColor: '#A23B72',
-        backgroundColor: '#F8F9FA',
-        textColor: '#212529',
-        style: 'corporate',
-      },
-      minimal: {
-        primaryColor: '#6366F1',
-        secondaryColor: '#8B5CF6',
-        backgroundColor: '#FFFFFF',
-        textColor: '#111827',
-        style: 'minimal',
-      },
-    };
+    const { theme } = this.options;
+    if (theme) {
+      return toVideoTheme(typeof theme === 'string' ? defaultThemeRegistry.resolve(theme) : theme);
+    }
 
-    // Select theme based on repository language or type
     const primaryLanguage = this.generateKeyMetrics(prData).primaryLanguage.toLowerCase();
     
     if (['javascript', 'typescript', 'react'].includes(primaryLanguage)) {
-      return themes.modern;
+      return toVideoTheme(defaultThemeRegistry.resolve('modern'));
     } else if (['java', 'c#', 'enterprise'].includes(primaryLanguage)) {
-      return themes.corporate;
+      return toVideoTheme(defaultThemeRegistry.resolve('corporate'));
     } else {
-      return themes.minimal;
+      return toVideoTheme(defaultThemeRegistry.resolve('minimal'));
     }
   }
 
@@ -538,7 +833,11 @@ export class PRVideoTransformer {
 
   private generateDescription(prData: PRVideoData): string {
     const status = prData.pullRequest.merged ? 'Merged' : prData.pullRequest.state;
-    return `${status} pull request with ${prData.codeStats.totalAdditions} additions and ${prData.codeStats.totalDeletions} deletions across ${prData.codeStats.totalFiles} files.`;
+    const description = `${status} pull request with ${prData.codeStats.totalAdditions} additions and ${prData.codeStats.totalDeletions} deletions across ${prData.codeStats.totalFiles} files.`;
+    const closes = (prData.linkedIssues || [])
+      .filter(issue => issue.closing)
+      .map(issue => this.summarizeLinkedIssue(issue, prData.repository.full_name).reference);
+    return closes.length > 0 ? `${description} Fixes ${joinList(closes)}.` : description;
   }
 
   private determineCommitSignificance(commit: GitHubCommit): 'major' | 'minor' | 'patch' {
@@ -643,15 +942,12 @@ export class PRVideoTransformer {
     return colors[language] || '#cccccc';
   }
 
-  private extractReviewKeyPoints(review: GitHubReview, comments: any[]): string[] {
-    // This would analyze review body and comments to extract key points
-    // For now, return placeholder
-    return review.body ? [review.body.substring(0, 100)] : [];
+  private extractReviewKeyPoints(review: GitHubReview, comments: GitHubReviewComment[]): string[] {
+    return reviewKeyPoints(review, comments);
   }
 
   private generateReviewFlow(prData: PRVideoData): ReviewFlow[] {
-    // Generate chronological review flow events
-    return [];
+    return buildReviewFlow(prData);
   }
 
   private determineReviewConsensus(reviews: ReviewSummary[]): 'approved' | 'mixed' | 'blocked' | 'pending' {
@@ -665,8 +961,7 @@ export class PRVideoTransformer {
   }
 
   private extractKeyDiscussions(prData: PRVideoData): Discussion[] {
-    // Analyze comments to extract key discussion topics
-    return [];
+    return toDiscussions(analyzeReviewThreads(prData.reviewComments, prData.commits));
   }
 
   private extractKeyTimelineEvents(prData: PRVideoData): any[] {
@@ -709,4 +1004,36 @@ export class PRVideoTransformer {
       return ['Review and reopen if needed'];
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Human-readable note for a truncated list, e.g. "Showing 100 of 412 files"
+ */
+export function describeTruncation(truncation: CollectionTruncation, noun: string): string {
+  return truncation.total !== undefined
+    ? `Showing ${truncation.shown} of ${truncation.total} ${noun}`
+    : `Showing the first ${truncation.shown} ${noun}`;
+}
+
+/**
+ * Join items as prose: "a", "a and b", "a, b and c"
+ */
+export function joinList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join('');
+}
+
+/**
+ * Group items by key, keeping first-seen key order and item order within each group
+ */
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const group = groups.get(key(item));
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key(item), [item]);
+    }
+  });
+  return groups;
+}
@@ -175,8 +175,13 @@ export interface GitHubReviewComment {
   in_reply_to_id?: number;
   start_line?: number;
   line?: number;
+  /** Lines the comment was made on, numbered as in `original_commit_id` */
+  original_start_line?: number;
+  original_line?: number;
   start_side?: 'LEFT' | 'RIGHT';
   side?: 'LEFT' | 'RIGHT';
+  /** Whether the comment's thread is marked resolved; only the GraphQL fetcher can tell */
+  thread_resolved?: boolean;
 }
 
 // Issue comment types (for PR discussions)
@@ -202,6 +207,8 @@ export interface GitHubTimelineEvent {
   label?: GitHubLabel;
   assignee?: GitHubUser;
   assigner?: GitHubUser;
+  /** Reviewer asked for in `review_requested` events (the GraphQL mapping puts them in `assignee`) */
+  requested_reviewer?: GitHubUser;
   milestone?: GitHubMilestone;
   rename?: {
     from: string;
@@ -215,6 +222,107 @@ export interface GitHubTimelineEvent {
   state?: string;
   body?: string;
   html_url?: string;
+  /** Issue on the other end of `connected` and `cross-referenced` events */
+  source?: {
+    type: string;
+    issue?: GitHubIssue;
+  };
+}
+
+export interface GitHubIssue {
+  id: number;
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  html_url: string;
+  body?: string | null;
+  labels: GitHubLabel[];
+  user?: GitHubUser;
+  /** Present when the issue is actually a pull request */
+  pull_request?: {
+    url: string;
+  };
+  repository?: {
+    full_name: string;
+  };
+}
+
+// An issue the pull request fixes or references, with where the link came from
+export interface GitHubLinkedIssue {
+  number: number;
+  /** owner/repo of the issue, which may differ from the pull request's repository */
+  repository: string;
+  title: string;
+  state: 'open' | 'closed';
+  labels: GitHubLabel[];
+  html_url: string;
+  body?: string | null;
+  /** Merging the pull request closes the issue (closing keyword or a `connected` link) */
+  closing: boolean;
+  source: 'body' | 'timeline';
+}
+
+// CI types (check runs, commit statuses and deployments for the head SHA)
+export interface GitHubCheckRun {
+  id: number;
+  name: string;
+  head_sha: string;
+  status: 'queued' | 'in_progress' | 'completed' | 'waiting' | 'requested' | 'pending';
+  conclusion?: 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out' | 'action_required' | 'stale' | null;
+  started_at?: string | null;
+  completed_at?: string | null;
+  html_url?: string;
+  details_url?: string;
+  app?: {
+    slug: string;
+    name: string;
+  };
+  check_suite?: {
+    id: number;
+  };
+}
+
+export interface GitHubCommitStatus {
+  id: number;
+  state: 'error' | 'failure' | 'pending' | 'success';
+  context: string;
+  description?: string | null;
+  target_url?: string | null;
+  created_at: string;
+  updated_at: string;
+  creator?: GitHubUser;
+}
+
+export interface GitHubDeploymentStatus {
+  id: number;
+  state: 'error' | 'failure' | 'inactive' | 'in_progress' | 'queued' | 'pending' | 'success';
+  description?: string;
+  environment?: string;
+  environment_url?: string;
+  log_url?: string;
+  created_at: string;
+}
+
+export interface GitHubDeployment {
+  id: number;
+  sha: string;
+  ref: string;
+  environment: string;
+  description?: string | null;
+  created_at: string;
+  updated_at: string;
+  creator?: GitHubUser;
+  /** Newest first, as returned by the deployment statuses endpoint */
+  statuses: GitHubDeploymentStatus[];
+}
+
+export interface PRChecks {
+  headSha: string;
+  /** Every attempt, including reruns of the same check */
+  checkRuns: GitHubCheckRun[];
+  /** Every status update, newest first; several per context */
+  statuses: GitHubCommitStatus[];
+  deployments: GitHubDeployment[];
 }
 
 // Rate limiting types
@@ -259,6 +367,8 @@ export interface GitHubApiResponse<T> {
   status: number;
   headers: Record<string, string>;
   rateLimit?: GitHubRateLimit;
+  /** Set when the body was served from the response cache after a 304 */
+  fromCache?: boolean;
 }
 
 // Aggregated data types for video generation
@@ -294,16 +404,61 @@ export interface PRVideoData {
     totalDuration: number;
     reviewDuration?: number;
   };
+  /** Lists that were cut short by an item ceiling or an API cap; absent when everything was fetched */
+  truncation?: PRTruncation;
+  /** CI results for the head commit; absent when not fetched or not available from the source */
+  checks?: PRChecks;
+  /** Issues linked from closing keywords in the body or from timeline references */
+  linkedIssues?: GitHubLinkedIssue[];
 }
 
+export type PRCollection = 'commits' | 'files' | 'reviews' | 'reviewComments' | 'issueComments' | 'timeline';
+
+export interface CollectionTruncation {
+  shown: number;
+  /** Known total from the source's own counters, when it has one */
+  total?: number;
+}
+
+export type PRTruncation = Partial<Record<PRCollection, CollectionTruncation>>;
+
 // Configuration types
+export interface GitHubCacheOptions {
+  /** Directory holding one JSON file per cached URL */
+  directory?: string;
+  /** Entries older than this are discarded instead of revalidated (default 24h) */
+  ttlMs?: number;
+  /** Least recently used entries are evicted once the directory exceeds this size (default 50 MB) */
+  maxSizeBytes?: number;
+  /** Clock override, mainly for tests */
+  now?: () => number;
+}
+
+// GitHub App installation credentials, used instead of a personal access token
+export interface GitHubAppAuthOptions {
+  appId: string | number;
+  /** PEM-encoded RSA private key (PKCS#1 or PKCS#8) */
+  privateKey: string;
+  installationId: number;
+  /** Token exchange API root; defaults to the client's baseUrl (point it at a stub in tests) */
+  baseUrl?: string;
+  /** Exchange a new installation token this long before the current one expires (default 5 minutes) */
+  refreshMarginMs?: number;
+  now?: () => number;
+}
+
 export interface GitHubConfig {
-  token: string;
+  /** Personal access token; omit when authenticating as a GitHub App */
+  token?: string;
+  /** GitHub App credentials; takes precedence over `token` */
+  app?: GitHubAppAuthOptions;
   baseUrl?: string;
   timeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
   rateLimitBuffer?: number;
+  /** Enables the on-disk ETag cache; omit to always fetch */
+  cache?: GitHubCacheOptions;
 }
 
 // Fetch options
@@ -313,8 +468,154 @@ export interface FetchOptions {
   includeReviews?: boolean;
   includeComments?: boolean;
   includeTimeline?: boolean;
+  /** Check runs, commit statuses and deployments for the head SHA */
+  includeChecks?: boolean;
+  /** Resolve issues named by closing keywords and timeline references */
+  includeLinkedIssues?: boolean;
   parallel?: boolean;
   maxConcurrency?: number;
+  /** Ceiling on items fetched per list (commits, files, reviews, ...); unlimited by default */
+  maxItems?: number;
+  /** Fetch through the REST endpoints (default) or a couple of paginated GraphQL queries */
+  api?: 'rest' | 'graphql';
+}
+
+// Release types
+/**
+ * Which merged pull requests make up a release: everything between two tags, or everything in a milestone
+ */
+export type ReleaseRange =
+  | { type: 'tags'; base: string; head: string }
+  | { type: 'milestone'; milestone: string };
+
+export interface ReleaseFetchOptions extends FetchOptions {
+  /** Ceiling on pull requests fetched for one release, earliest merges kept (default 100) */
+  maxPullRequests?: number;
+}
+
+/**
+ * A merged pull request that may belong to a release, before it is fetched in full
+ */
+export interface ReleaseCandidate {
+  number: number;
+  /** ISO timestamp of the merge */
+  mergedAt: string;
+}
+
+/**
+ * Every pull request merged in a release, each fetched in full
+ */
+export interface ReleaseData {
+  repository: GitHubRepository;
+  range: ReleaseRange;
+  /** Head tag or milestone title */
+  name: string;
+  /** Merged pull requests, earliest merge first */
+  pullRequests: PRVideoData[];
+  /** Set when the release held more pull requests than were fetched; the latest merges are the ones left out */
+  truncation?: CollectionTruncation;
+}
+
+// Repository history types
+/**
+ * Date window a repository's history is read over; both ends are ISO timestamps
+ */
+export interface HistoryWindow {
+  since: string;
+  until: string;
+}
+
+export interface HistoryRepository {
+  fullName: string;
+  description: string;
+  /** Zero for local repositories, which have no stars, forks or watchers */
+  stars: number;
+  forks: number;
+  watchers: number;
+}
+
+export interface HistoryCommit {
+  sha: string;
+  author: GitHubUser;
+  authoredAt: string;
+  message: string;
+  /** More than one parent */
+  merge: boolean;
+}
+
+export interface HistoryReview {
+  reviewer: GitHubUser;
+  state: GitHubReview['state'];
+  submittedAt: string;
+  /** Inline comments left with the review */
+  comments: number;
+}
+
+export interface HistoryPullRequest {
+  number: number;
+  title: string;
+  author: GitHubUser;
+  labels: string[];
+  state: 'open' | 'closed' | 'merged';
+  createdAt: string;
+  closedAt?: string;
+  mergedAt?: string;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  reviews: HistoryReview[];
+}
+
+export interface HistoryIssue {
+  number: number;
+  title: string;
+  author: GitHubUser;
+  labels: string[];
+  createdAt: string;
+  closedAt?: string;
+  /** First comment by someone other than the author */
+  firstResponseAt?: string;
+}
+
+export interface HistoryMilestone {
+  id: string;
+  title: string;
+  description: string;
+  state: 'open' | 'closed';
+  createdAt: string;
+  dueOn?: string;
+  closedAt?: string;
+  openIssues: number;
+  closedIssues: number;
+}
+
+export interface HistoryRelease {
+  tag: string;
+  name: string;
+  publishedAt: string;
+}
+
+/**
+ * What happened in a repository during a window. Pull requests and issues are included when they were opened,
+ * closed or merged inside it; milestones when they were open during it
+ */
+export interface RepositoryHistory {
+  repository: HistoryRepository;
+  window: HistoryWindow;
+  commits: HistoryCommit[];
+  pullRequests: HistoryPullRequest[];
+  issues: HistoryIssue[];
+  milestones: HistoryMilestone[];
+  releases: HistoryRelease[];
+  /** Set for each list that held more items than were fetched */
+  truncation?: Partial<Record<'pullRequests' | 'issues', CollectionTruncation>>;
+}
+
+export interface HistoryFetchOptions {
+  /** Fetch details and reviews for at most this many pull requests (default 200) */
+  maxPullRequests?: number;
+  /** Look for a first response on at most this many issues (default 200) */
+  maxIssues?: number;
 }
 
 // Error types
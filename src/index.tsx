@@ -9,19 +9,32 @@ import { PRHeader } from './components/molecules/pr/PRHeader';
 import { CommitCard } from './components/molecules/pr/CommitCard';
 import { processGitHubFile } from './components/molecules/pr/code/utils/diffProcessor';
 import { TestDataBuilder } from './video/integration/testUtils';
-import { PRSummaryVideo, PRDetailedVideo, PRTechnicalVideo } from './compositions/PRVideoCompositions';
+import { PRSummaryVideo, PRDetailedVideo, PRTechnicalVideo, PRExecutiveVideo } from './compositions/PRVideoCompositions';
+import {
+  BrandBumperSchema,
+  calculateBrandBumperMetadata,
+  calculatePRVideoMetadata,
+  calculateReleaseVideoMetadata,
+  PRVideoSchema,
+  PR_VIDEO_FPS,
+  ReleaseVideoSchema,
+} from './compositions/prVideoMetadata';
+import { ReleaseNotesVideo } from './compositions/ReleaseNotesVideo';
+import { BrandBumperVideo } from './compositions/BrandedVideo';
 
-// Leadership persona components
-import { ExecutiveImpactSummary } from './components/organisms/ExecutiveImpactSummary';
-import { ExecutiveImpactSummarySchema } from './components/organisms/ExecutiveImpactSummary/types';
-import { TeamVelocityDashboard } from './components/organisms/TeamVelocityDashboard';
-import { TeamVelocityDashboardSchema } from './components/organisms/TeamVelocityDashboard/types';
-import { StrategicMilestones } from './components/organisms/StrategicMilestones';
-import { StrategicMilestonesSchema } from './components/organisms/StrategicMilestones/types';
-import { RiskAndQualityMetrics } from './components/organisms/RiskAndQualityMetrics';
-import { RiskAndQualityMetricsSchema } from './components/organisms/RiskAndQualityMetrics/types';
-import { ROIVisualization } from './components/organisms/ROIVisualization';
-import { ROIVisualizationSchema } from './components/organisms/ROIVisualization/types';
+// Leadership persona components, framed by the brand kit when one is given
+import {
+  ExecutiveImpactSummaryVideo,
+  ExecutiveImpactSummaryVideoSchema,
+  TeamVelocityDashboardVideo,
+  TeamVelocityDashboardVideoSchema,
+  StrategicMilestonesVideo,
+  StrategicMilestonesVideoSchema,
+  RiskAndQualityMetricsVideo,
+  RiskAndQualityMetricsVideoSchema,
+  ROIVisualizationVideo,
+  ROIVisualizationVideoSchema,
+} from './compositions/DashboardCompositions';
 
 // Define schema for visual editing
 export const HelloWorldSchema = z.object({
@@ -412,16 +425,12 @@ export const RemotionRoot: React.FC = () => {
       <Composition
         id="PRSummaryVideo"
         component={PRSummaryVideo}
-        durationInFrames={420} // 14 seconds at 30fps
-        fps={30}
+        durationInFrames={420} // Preview length; calculateMetadata sizes each render to its script
+        fps={PR_VIDEO_FPS}
         width={1920}
         height={1080}
-        schema={z.object({
-          prData: z.any(),
-          metadata: z.any(),
-          script: z.any(),
-          title: z.string().optional(),
-        })}
+        schema={PRVideoSchema}
+        calculateMetadata={calculatePRVideoMetadata}
         defaultProps={{
           prData: {
             pullRequest: {
@@ -520,16 +529,12 @@ export const RemotionRoot: React.FC = () => {
       <Composition
         id="PRDetailedVideo"
         component={PRDetailedVideo}
-        durationInFrames={1260} // 42 seconds at 30fps (will be dynamic)
-        fps={30}
+        durationInFrames={1260} // Preview length; calculateMetadata sizes each render to its script
+        fps={PR_VIDEO_FPS}
         width={1920}
         height={1080}
-        schema={z.object({
-          prData: z.any(),
-          metadata: z.any(),
-          script: z.any(),
-          title: z.string().optional(),
-        })}
+        schema={PRVideoSchema}
+        calculateMetadata={calculatePRVideoMetadata}
         defaultProps={{
           prData: {
             pullRequest: {
@@ -628,16 +633,12 @@ export const RemotionRoot: React.FC = () => {
       <Composition
         id="PRTechnicalVideo"
         component={PRTechnicalVideo}
-        durationInFrames={1800} // 60 seconds at 30fps (will be dynamic)
-        fps={30}
+        durationInFrames={1800} // Preview length; calculateMetadata sizes each render to its script
+        fps={PR_VIDEO_FPS}
         width={1920}
         height={1080}
-        schema={z.object({
-          prData: z.any(),
-          metadata: z.any(),
-          script: z.any(),
-          title: z.string().optional(),
-        })}
+        schema={PRVideoSchema}
+        calculateMetadata={calculatePRVideoMetadata}
         defaultProps={{
           prData: {
             pullRequest: {
@@ -732,16 +733,196 @@ export const RemotionRoot: React.FC = () => {
           }
         }}
       />
+
+      <Composition
+        id="PRExecutiveVideo"
+        component={PRExecutiveVideo}
+        durationInFrames={1050} // Preview length; calculateMetadata sizes each render to its script
+        fps={PR_VIDEO_FPS}
+        width={1920}
+        height={1080}
+        schema={PRVideoSchema}
+        calculateMetadata={calculatePRVideoMetadata}
+        defaultProps={{
+          prData: {
+            pullRequest: {
+              id: 123456,
+              number: 42,
+              title: 'Example PR',
+              body: 'Example PR description',
+              state: 'open',
+              merged: false,
+              draft: false,
+              user: { id: 1, login: 'user', avatar_url: '', html_url: '', type: 'User' },
+              assignees: [],
+              reviewers: [],
+              labels: [],
+              base: { label: 'main', ref: 'main', sha: 'abc123', user: { id: 1, login: 'user', avatar_url: '', html_url: '', type: 'User' }, repo: { id: 1, name: 'repo', full_name: 'user/repo', owner: { id: 1, login: 'user', avatar_url: '', html_url: '', type: 'User' }, html_url: '', private: false, fork: false, default_branch: 'main' } },
+              head: { label: 'feature', ref: 'feature', sha: 'def456', user: { id: 1, login: 'user', avatar_url: '', html_url: '', type: 'User' }, repo: { id: 1, name: 'repo', full_name: 'user/repo', owner: { id: 1, login: 'user', avatar_url: '', html_url: '', type: 'User' }, html_url: '', private: false, fork: false, default_branch: 'main' } },
+              html_url: '',
+              created_at: '2025-01-01T00:00:00Z',
+              updated_at: '2025-01-01T00:00:00Z',
+              comments: 0,
+              review_comments: 0,
+              commits: 1,
+              additions: 10,
+              deletions: 5,
+              changed_files: 2
+            },
+            commits: [],
+            files: [],
+            reviews: [],
+            reviewComments: [],
+            issueComments: [],
+            timeline: [],
+            repository: { id: 1, name: 'repo', full_name: 'user/repo', owner: { id: 1, login: 'user', avatar_url: '', html_url: '', type: 'User' }, html_url: '', private: false, fork: false, default_branch: 'main' },
+            participants: [],
+            codeStats: { totalAdditions: 10, totalDeletions: 5, totalFiles: 2, languageBreakdown: {}, fileTypes: {} },
+            reviewStats: { approvals: 0, changesRequested: 0, comments: 0, averageReviewTime: 0 },
+            timelineStats: { createdAt: '2025-01-01T00:00:00Z', lastUpdateAt: '2025-01-01T00:00:00Z', totalDuration: 0 }
+          },
+          metadata: {
+            title: 'Example PR Video',
+            subtitle: 'Pull Request Overview',
+            description: 'Video showing PR changes',
+            duration: 35,
+            scenes: [],
+            participants: [],
+            keyMetrics: {
+              totalCommits: 1,
+              totalFiles: 2,
+              totalAdditions: 10,
+              totalDeletions: 5,
+              totalReviews: 0,
+              totalComments: 0,
+              timeToFirstReview: null,
+              timeToMerge: null,
+              participantCount: 1,
+              primaryLanguage: 'TypeScript'
+            },
+            theme: {
+              primaryColor: '#0066CC',
+              secondaryColor: '#33CC33',
+              backgroundColor: '#1A1A1A',
+              textColor: '#FFFFFF',
+              style: 'modern'
+            }
+          },
+          script: {
+            id: 'default-script',
+            title: 'Default Script',
+            description: 'Default script for preview',
+            targetDuration: 45,
+            sections: [],
+            metadata: {
+              templateType: 'executive',
+              generatedAt: new Date(),
+              version: '1.0.0',
+              selectionStrategy: {
+                name: 'default',
+                criteria: { importanceThreshold: 0.5, relevanceScoring: { factors: [], algorithm: 'weighted_sum', normalization: 'min_max' }, freshnessWeight: 0.2, audienceAlignmentWeight: 0.5 },
+                prioritization: [],
+                filtering: [],
+                adaptation: []
+              },
+              adaptations: {
+                duration: { shortForm: { name: 'default', priorityAdjustments: {}, durationAdjustments: {}, contentModifications: [] }, mediumForm: { name: 'default', priorityAdjustments: {}, durationAdjustments: {}, contentModifications: [] }, longForm: { name: 'default', priorityAdjustments: {}, durationAdjustments: {}, contentModifications: [] }, cuttingPriorities: [] },
+                audience: { languageSimplification: [], technicalDepth: [], emphasisAdjustments: [] },
+                content: { transformations: [], summarization: [], expansion: [] },
+                technical: { codeExamples: [], jargonExplanation: [], conceptIntroduction: [] }
+              },
+              quality: { coherence: 1, engagement: 1, accuracy: 1, durationCompliance: 1, audienceAlignment: 1, overall: 1, details: { strengths: [], weaknesses: [], suggestions: [], risks: [] } }
+            },
+            audience: { primary: 'executive', technicalLevel: 'beginner', projectFamiliarity: 'basic', communicationStyle: 'formal' },
+            style: { tone: 'professional', pacing: 'fast', approach: 'problem_solution', complexity: 'simple', emphasis: 'impact_focused' }
+          }
+        }}
+      />
+      
+      <Composition
+        id="ReleaseNotesVideo"
+        component={ReleaseNotesVideo}
+        durationInFrames={1290} // The sample release's script; calculateMetadata sizes each render to its script
+        fps={PR_VIDEO_FPS}
+        width={1920}
+        height={1080}
+        schema={ReleaseVideoSchema}
+        calculateMetadata={calculateReleaseVideoMetadata}
+        defaultProps={{
+          release: {
+            title: 'acme/widgets v1.3.0',
+            subtitle: '4 pull requests • 4 contributors',
+            name: 'v1.3.0',
+            repository: 'acme/widgets',
+            range: { type: 'tags', base: 'v1.2.0', head: 'v1.3.0' },
+            period: { from: '2025-01-06T10:00:00.000Z', to: '2025-01-10T16:00:00.000Z' },
+            chapters: [
+              {
+                category: 'features',
+                title: 'New Features',
+                pullRequests: [
+                  { number: 101, title: 'Add dark mode', url: '', author: { id: 1, login: 'alice', avatar_url: '', html_url: '', type: 'User' }, labels: ['feature'], additions: 420, deletions: 35, files: 12, closes: ['#88'], score: 6 },
+                  { number: 104, title: 'Export dashboards as PDF', url: '', author: { id: 2, login: 'bob', avatar_url: '', html_url: '', type: 'User' }, labels: ['enhancement'], additions: 210, deletions: 12, files: 6, closes: [], score: 3 },
+                ],
+              },
+              {
+                category: 'fixes',
+                title: 'Bug Fixes',
+                pullRequests: [
+                  { number: 102, title: 'Fix timezone drift in reports', url: '', author: { id: 3, login: 'carol', avatar_url: '', html_url: '', type: 'User' }, labels: ['bug'], additions: 18, deletions: 9, files: 2, closes: ['#91'], score: 4 },
+                ],
+              },
+              {
+                category: 'chores',
+                title: 'Maintenance',
+                pullRequests: [
+                  { number: 103, title: 'Upgrade to React 18', url: '', author: { id: 4, login: 'dave', avatar_url: '', html_url: '', type: 'User' }, labels: ['dependencies'], additions: 60, deletions: 48, files: 5, closes: [], score: 2 },
+                ],
+              },
+            ],
+            contributors: [
+              { user: { id: 1, login: 'alice', avatar_url: '', html_url: '', type: 'User' }, pullRequests: 1, commits: 6, reviews: 2 },
+              { user: { id: 2, login: 'bob', avatar_url: '', html_url: '', type: 'User' }, pullRequests: 1, commits: 3, reviews: 1 },
+              { user: { id: 3, login: 'carol', avatar_url: '', html_url: '', type: 'User' }, pullRequests: 1, commits: 2, reviews: 1 },
+              { user: { id: 4, login: 'dave', avatar_url: '', html_url: '', type: 'User' }, pullRequests: 1, commits: 1, reviews: 0 },
+            ],
+            keyMetrics: { pullRequests: 4, commits: 12, additions: 708, deletions: 104, files: 25, contributors: 4, closedIssues: 2 },
+            theme: { primaryColor: '#0066CC', secondaryColor: '#33CC33', backgroundColor: '#1A1A1A', textColor: '#FFFFFF', style: 'modern' },
+          },
+        }}
+      />
+      
+      <Composition
+        id="BrandBumper"
+        component={BrandBumperVideo}
+        durationInFrames={90} // Preview length; calculateMetadata sizes it to the bumper
+        fps={PR_VIDEO_FPS}
+        width={1920}
+        height={1080}
+        schema={BrandBumperSchema}
+        calculateMetadata={calculateBrandBumperMetadata}
+        defaultProps={{
+          brand: {
+            name: 'Acme',
+            fonts: [],
+            typography: {},
+            palette: { primary: '#FF5500', background: '#101010', textMuted: '#BBBBBB' },
+            intro: { duration: 3, tagline: 'Shipping every day' },
+            outro: { duration: 2, tagline: 'Thanks for watching' },
+          },
+          kind: 'intro',
+        }}
+      />
       
       {/* Leadership Persona Components */}
       <Composition
         id="ExecutiveImpactSummary"
-        component={ExecutiveImpactSummary}
+        component={ExecutiveImpactSummaryVideo}
         durationInFrames={300} // 10 seconds at 30fps
         fps={30}
         width={1920}
         height={1080}
-        schema={ExecutiveImpactSummarySchema}
+        schema={ExecutiveImpactSummaryVideoSchema}
         defaultProps={{
           data: {
             repositoryName: 'Enterprise Platform',
@@ -815,12 +996,12 @@ export const RemotionRoot: React.FC = () => {
 
       <Composition
         id="TeamVelocityDashboard"
-        component={TeamVelocityDashboard}
+        component={TeamVelocityDashboardVideo}
         durationInFrames={330} // 11 seconds at 30fps
         fps={30}
         width={1920}
         height={1080}
-        schema={TeamVelocityDashboardSchema}
+        schema={TeamVelocityDashboardVideoSchema}
         defaultProps={{
           data: {
             teamName: 'Platform Engineering Team',
@@ -924,12 +1105,12 @@ export const RemotionRoot: React.FC = () => {
 
       <Composition
         id="StrategicMilestones"
-        component={StrategicMilestones}
+        component={StrategicMilestonesVideo}
         durationInFrames={360} // 12 seconds at 30fps
         fps={30}
         width={1920}
         height={1080}
-        schema={StrategicMilestonesSchema}
+        schema={StrategicMilestonesVideoSchema}
         defaultProps={{
           data: {
             projectName: 'Digital Transformation Initiative',
@@ -1118,12 +1299,12 @@ export const RemotionRoot: React.FC = () => {
 
       <Composition
         id="RiskAndQualityMetrics"
-        component={RiskAndQualityMetrics}
+        component={RiskAndQualityMetricsVideo}
         durationInFrames={390} // 13 seconds at 30fps
         fps={30}
         width={1920}
         height={1080}
-        schema={RiskAndQualityMetricsSchema}
+        schema={RiskAndQualityMetricsVideoSchema}
         defaultProps={{
           data: {
             projectName: 'Enterprise Platform',
@@ -1318,12 +1499,12 @@ export const RemotionRoot: React.FC = () => {
 
       <Composition
         id="ROIVisualization"
-        component={ROIVisualization}
+        component={ROIVisualizationVideo}
         durationInFrames={420} // 14 seconds at 30fps
         fps={30}
         width={1920}
         height={1080}
-        schema={ROIVisualizationSchema}
+        schema={ROIVisualizationVideoSchema}
         defaultProps={{
           data: {
             projectName: 'Digital Platform Investment',
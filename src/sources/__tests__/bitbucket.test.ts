@@ -0,0 +1,141 @@
+/**
+ * Tests for the Bitbucket Cloud pull request data source, replayed from recorded API responses
+ */
+
+import { BitbucketDataSource } from '../bitbucket';
+import { createDataSource, DataSourceError } from '../index';
+import recording from './fixtures/bitbucket-pull-request.json';
+
+type Recording = Record<string, { body: unknown; headers?: Record<string, string> }>;
+
+/**
+ * Serve recorded responses keyed by path (plus `?page=N` for later pages)
+ */
+const replay = (responses: Recording, requested: string[] = [], headers: Array<Record<string, string>> = []) =>
+  (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const page = url.searchParams.get('page');
+    const key = page && page !== '1' ? `${url.pathname}?page=${page}` : url.pathname;
+    const entry = responses[key];
+    requested.push(key);
+    headers.push(init?.headers as Record<string, string>);
+
+    return {
+      ok: Boolean(entry),
+      status: entry ? 200 : 404,
+      statusText: entry ? 'OK' : 'Not Found',
+      headers: new Headers(entry?.headers || {}),
+      json: async () => entry?.body,
+      text: async () => (typeof entry?.body === 'string' ? entry.body : JSON.stringify(entry?.body)),
+    } as Response;
+  }) as typeof fetch;
+
+describe('BitbucketDataSource', () => {
+  const config = {
+    type: 'bitbucket' as const,
+    workspace: 'acme',
+    repoSlug: 'widgets',
+    prId: 7,
+    token: 'bb-token',
+    baseUrl: 'https://api.bitbucket.example/2.0',
+  };
+
+  it('should normalize a pull request into PRVideoData', async () => {
+    const source = new BitbucketDataSource({ ...config, fetchImpl: replay(recording as Recording) });
+    const data = await source.fetchPRData();
+
+    expect(source.describe()).toBe('acme/widgets#7');
+    expect(data.pullRequest.number).toBe(7);
+    expect(data.pullRequest.state).toBe('closed');
+    expect(data.pullRequest.merged).toBe(true);
+    expect(data.pullRequest.merged_at).toBe('2024-03-02T16:00:00+00:00');
+    expect(data.pullRequest.merged_by?.login).toBe('grace');
+    expect(data.pullRequest.merge_commit_sha).toBe('cccc3333');
+    expect(data.pullRequest.reviewers.map(user => user.login)).toEqual(['grace']);
+    expect(data.repository).toMatchObject({ full_name: 'acme/widgets', private: true, default_branch: 'main' });
+  });
+
+  it('should follow next links and order commits oldest first', async () => {
+    const requested: string[] = [];
+    const source = new BitbucketDataSource({ ...config, fetchImpl: replay(recording as Recording, requested) });
+    const data = await source.fetchPRData();
+
+    expect(requested).toContain('/2.0/repositories/acme/widgets/pullrequests/7/commits?page=2');
+    expect(data.commits.map(commit => commit.sha)).toEqual(['aaaa1111', 'bbbb2222']);
+    expect(data.commits[0].commit.author).toMatchObject({ name: 'Ada Lovelace', email: 'ada@example.com' });
+    expect(data.commits[1].author?.login).toBe('ada');
+    expect(data.commits[1].stats).toEqual({ total: 1, additions: 1, deletions: 0 });
+  });
+
+  it('should parse the raw diff into files and code stats', async () => {
+    const source = new BitbucketDataSource({ ...config, fetchImpl: replay(recording as Recording) });
+    const data = await source.fetchPRData();
+
+    expect(data.files.map(file => [file.filename, file.status])).toEqual([
+      ['src/cache.ts', 'added'],
+      ['lib/legacy.js', 'removed'],
+    ]);
+    expect(data.codeStats.totalAdditions).toBe(4);
+    expect(data.codeStats.totalDeletions).toBe(1);
+  });
+
+  it('should split comments into review and issue comments, dropping deleted ones', async () => {
+    const source = new BitbucketDataSource({ ...config, fetchImpl: replay(recording as Recording) });
+    const data = await source.fetchPRData();
+
+    expect(data.reviewComments.map(comment => comment.id)).toEqual([301, 302]);
+    expect(data.reviewComments[0]).toMatchObject({ path: 'src/cache.ts', line: 2, side: 'RIGHT' });
+    expect(data.reviewComments[1].in_reply_to_id).toBe(301);
+    expect(data.issueComments.map(comment => comment.id)).toEqual([303]);
+  });
+
+  it('should turn activity into reviews and a chronological timeline', async () => {
+    const source = new BitbucketDataSource({ ...config, fetchImpl: replay(recording as Recording) });
+    const data = await source.fetchPRData();
+
+    expect(data.reviews.map(review => review.state)).toEqual(['CHANGES_REQUESTED', 'APPROVED']);
+    expect(data.reviewStats.approvals).toBe(1);
+    expect(data.reviewStats.changesRequested).toBe(1);
+    expect(data.timeline.map(event => event.event)).toEqual([
+      'opened',
+      'reviewed',
+      'status',
+      'reviewed',
+      'merged',
+    ]);
+    expect(data.timeline[2]).toMatchObject({ state: 'successful', body: 'Pipelines #12' });
+  });
+
+  it('should authenticate with a bearer token or an app password', async () => {
+    const bearer: Array<Record<string, string>> = [];
+    await new BitbucketDataSource({ ...config, fetchImpl: replay(recording as Recording, [], bearer) })
+      .fetchPRData({ includeCommits: false });
+    expect(bearer[0].Authorization).toBe('Bearer bb-token');
+
+    const basic: Array<Record<string, string>> = [];
+    await new BitbucketDataSource({
+      ...config,
+      token: undefined,
+      username: 'ada',
+      appPassword: 'secret',
+      fetchImpl: replay(recording as Recording, [], basic),
+    }).fetchPRData({ includeCommits: false });
+    expect(basic[0].Authorization).toBe(
+      `Basic ${Buffer.from('ada:secret').toString('base64')}`
+    );
+  });
+
+  it('should reject configurations without credentials', () => {
+    expect(() => createDataSource({ ...config, token: undefined })).toThrow(DataSourceError);
+  });
+
+  it('should raise DataSourceError with the status code when the pull request is missing', async () => {
+    const source = createDataSource({ ...config, prId: 404, fetchImpl: replay(recording as Recording) });
+
+    await expect(source.fetchPRData()).rejects.toMatchObject({
+      name: 'DataSourceError',
+      source: 'bitbucket',
+      statusCode: 404,
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for the GitLab merge request data source, replayed from recorded API responses
+ */
+
+import { GitLabDataSource } from '../gitlab';
+import { createDataSource, DataSourceError } from '../index';
+import recording from './fixtures/gitlab-merge-request.json';
+
+type Recording = Record<string, { body: unknown; headers?: Record<string, string> }>;
+
+/**
+ * Serve recorded responses keyed by path (plus `?page=N` for later pages)
+ */
+const replay = (responses: Recording, requested: string[] = [], headers: Array<Record<string, string>> = []) =>
+  (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const page = url.searchParams.get('page');
+    const key = page && page !== '1' ? `${url.pathname}?page=${page}` : url.pathname;
+    const entry = responses[key];
+    requested.push(key);
+    headers.push(init?.headers as Record<string, string>);
+
+    return {
+      ok: Boolean(entry),
+      status: entry ? 200 : 404,
+      statusText: entry ? 'OK' : 'Not Found',
+      headers: new Headers(entry?.headers || {}),
+      json: async () => entry?.body,
+      text: async () => (typeof entry?.body === 'string' ? entry.body : JSON.stringify(entry?.body)),
+    } as Response;
+  }) as typeof fetch;
+
+describe('GitLabDataSource', () => {
+  const config = {
+    type: 'gitlab' as const,
+    token: 'glpat-test',
+    project: 'acme/widgets',
+    mergeRequestIid: 42,
+    baseUrl: 'https://gitlab.example.com/api/v4',
+  };
+
+  it('should normalize a merge request into PRVideoData', async () => {
+    const source = new GitLabDataSource({ ...config, fetchImpl: replay(recording as Recording) });
+    const data = await source.fetchPRData();
+
+    expect(source.describe()).toBe('acme/widgets!42');
+    expect(data.pullRequest.number).toBe(42);
+    expect(data.pullRequest.state).toBe('closed');
+    expect(data.pullRequest.merged).toBe(true);
+    expect(data.pullRequest.merged_by?.login).toBe('grace');
+    expect(data.pullRequest.labels[0]).toMatchObject({ name: 'performance', color: 'ff8800' });
+    expect(data.pullRequest.milestone?.state).toBe('open');
+    expect(data.pullRequest.base.ref).toBe('main');
+    expect(data.pullRequest.head.sha).toBe('bbbb2222');
+    expect(data.repository.full_name).toBe('acme/widgets');
+    expect(data.repository.owner.login).toBe('acme');
+  });
+
+  it('should order commits oldest first with per-commit stats', async () => {
+    const source = new GitLabDataSource({ ...config, fetchImpl: replay(recording as Recording) });
+    const data = await source.fetchPRData();
+
+    expect(data.commits.map(commit => commit.sha)).toEqual(['aaaa1111', 'bbbb2222']);
+    expect(data.commits[1].stats).toEqual({ additions: 2, deletions: 1, total: 3 });
+    expect(data.commits[1].files?.[0]).toMatchObject({
+      filename: 'src/render.ts',
+      status: 'renamed',
+      previous_filename: 'lib/legacy.js',
+    });
+  });
+
+  it('should follow pagination of a commit diff that touches many files', async () => {
+    const diffPath = '/api/v4/projects/acme%2Fwidgets/repository/commits/bbbb2222/diff';
+    const responses = recording as Recording;
+    const source = new GitLabDataSource({
+      ...config,
+      fetchImpl: replay({
+        ...responses,
+        [diffPath]: { ...responses[diffPath], headers: { 'x-next-page': '2' } },
+        [`${diffPath}?page=2`]: {
+          body: [{ old_path: 'README.md', new_path: 'README.md', new_file: false, renamed_file: false, deleted_file: false, diff: '@@ -1 +1 @@\n-a\n+b\n' }],
+        },
+      }),
+    });
+    const data = await source.fetchPRData();
+
+    expect(data.commits[1].files?.map(file => file.filename)).toEqual(['src/render.ts', 'README.md']);
+  });
+
+  it('should map diffs onto files and code stats', async () => {
+    const source = new GitLabDataSource({ ...config, fetchImpl: replay(recording as Recording) });
+    const data = await source.fetchPRData();
+
+    expect(data.files).toHaveLength(2);
+    expect(data.files[0]).toMatchObject({ filename: 'src/cache.ts', status: 'added', additions: 3, deletions: 0 });
+    expect(data.codeStats.totalAdditions).toBe(5);
+    expect(data.codeStats.totalDeletions).toBe(1);
+    expect(data.pullRequest.changed_files).toBe(2);
+  });
+
+  it('should follow pagination and split discussions into comments and reviews', async () => {
+    const requested: string[] = [];
+    const source = new GitLabDataSource({ ...config, fetchImpl: replay(recording as Recording, requested) });
+    const data = await source.fetchPRData();
+
+    expect(requested).toContain('/api/v4/projects/acme%2Fwidgets/merge_requests/42/discussions?page=2');
+
+    expect(data.reviewComments.map(comment => comment.id)).toEqual([502, 503]);
+    expect(data.reviewComments[0]).toMatchObject({ path: 'src/cache.ts', line: 2, side: 'RIGHT' });
+    expect(data.reviewComments[0].in_reply_to_id).toBeUndefined();
+    expect(data.reviewComments[1].in_reply_to_id).toBe(502);
+
+    expect(data.issueComments.map(comment => comment.id)).toEqual([504]);
+
+    expect(data.reviews).toHaveLength(1);
+    expect(data.reviews[0]).toMatchObject({ state: 'APPROVED', submitted_at: '2024-03-02T15:00:00Z' });
+    expect(data.reviews[0].user.login).toBe('grace');
+    expect(data.reviewStats.approvals).toBe(1);
+  });
+
+  it('should build a chronological timeline from system notes, pipelines and the merge', async () => {
+    const source = new GitLabDataSource({ ...config, fetchImpl: replay(recording as Recording) });
+    const data = await source.fetchPRData();
+
+    expect(data.timeline.map(event => event.event)).toEqual([
+      'review_requested',
+      'pipeline',
+      'reviewed',
+      'merged',
+    ]);
+    expect(data.timeline[1]).toMatchObject({ state: 'success', commit_id: 'bbbb2222' });
+  });
+
+  it('should send the token in the PRIVATE-TOKEN header', async () => {
+    const headers: Array<Record<string, string>> = [];
+    const fetchImpl = replay(recording as Recording, [], headers);
+    await new GitLabDataSource({ ...config, fetchImpl }).fetchPRData({ includeCommits: false });
+
+    expect(headers[0]['PRIVATE-TOKEN']).toBe('glpat-test');
+  });
+
+  it('should skip endpoints excluded by fetch options', async () => {
+    const requested: string[] = [];
+    const source = new GitLabDataSource({ ...config, fetchImpl: replay(recording as Recording, requested) });
+    const data = await source.fetchPRData({ includeCommits: false, includeTimeline: false });
+
+    expect(data.commits).toEqual([]);
+    expect(data.timeline).toEqual([]);
+    expect(requested.some(key => key.endsWith('/pipelines'))).toBe(false);
+    expect(requested.some(key => key.includes('/repository/commits/'))).toBe(false);
+  });
+
+  it('should raise DataSourceError with the status code when the merge request is missing', async () => {
+    const source = createDataSource({ ...config, mergeRequestIid: 999, fetchImpl: replay(recording as Recording) });
+
+    await expect(source.fetchPRData()).rejects.toBeInstanceOf(DataSourceError);
+    await expect(source.fetchPRData()).rejects.toMatchObject({ source: 'gitlab', statusCode: 404 });
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Tests for the local git data source
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalGitDataSource, LocalGitHistorySource } from '../localGit';
+import { createDataSource, createHistorySource, DataSourceError } from '../index';
+import { countPatchChanges, parseUnifiedDiff } from '../gitDiff';
+import { mapWithConcurrency } from '../normalize';
+
+describe('LocalGitDataSource', () => {
+  let repoPath: string;
+
+  const git = (args: string[], env: Record<string, string> = {}) =>
+    execFileSync('git', ['-C', repoPath, ...args], {
+      encoding: 'utf8',
+      env: { ...process.env, ...env },
+    });
+
+  const commit = (message: string, author: string, email: string, date: string) => {
+    git(['add', '-A']);
+    git(['-c', 'commit.gpgsign=false', 'commit', '-q', '-m', message], {
+      GIT_AUTHOR_NAME: author,
+      GIT_AUTHOR_EMAIL: email,
+      GIT_AUTHOR_DATE: date,
+      GIT_COMMITTER_NAME: author,
+      GIT_COMMITTER_EMAIL: email,
+      GIT_COMMITTER_DATE: date,
+    });
+  };
+
+  beforeAll(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'git2video-local-'));
+    git(['init', '-q', '-b', 'main']);
+    git(['remote', 'add', 'origin', 'git@github.com:acme/widgets.git']);
+
+    fs.writeFileSync(path.join(repoPath, 'README.md'), '# Widgets\n');
+    fs.writeFileSync(path.join(repoPath, 'old.js'), 'module.exports = 1;\n');
+    commit('Initial commit', 'Ada', 'ada@example.com', '2024-01-01T10:00:00Z');
+
+    git(['checkout', '-q', '-b', 'feature']);
+    fs.mkdirSync(path.join(repoPath, 'src'));
+    fs.writeFileSync(path.join(repoPath, 'src', 'widget.ts'), 'export const a = 1;\nexport const b = 2;\n');
+    commit('Add widget module\n\nLonger description', 'Ada', 'ada@example.com', '2024-01-02T10:00:00Z');
+
+    fs.writeFileSync(path.join(repoPath, 'README.md'), '# Widgets\n\nNow with widgets.\n');
+    fs.unlinkSync(path.join(repoPath, 'old.js'));
+    commit('Update docs', 'Grace', 'grace@example.com', '2024-01-03T12:00:00Z');
+  });
+
+  afterAll(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should build PRVideoData from a base..head range', async () => {
+    const source = new LocalGitDataSource({
+      type: 'local-git',
+      repoPath,
+      base: 'main',
+      head: 'feature',
+    });
+
+    const data = await source.fetchPRData();
+
+    expect(data.commits).toHaveLength(2);
+    expect(data.commits[0].commit.message).toContain('Add widget module');
+    expect(data.commits[0].stats).toEqual({ total: 2, additions: 2, deletions: 0 });
+    expect(data.pullRequest.title).toBe('Add widget module');
+    expect(data.pullRequest.commits).toBe(2);
+    expect(data.repository.full_name).toBe('acme/widgets');
+    expect(data.repository.html_url).toBe('https://github.com/acme/widgets');
+  });
+
+  it('should derive files, code stats and timeline stats', async () => {
+    const source = createDataSource({
+      type: 'local-git',
+      repoPath,
+      base: 'main',
+      head: 'feature',
+      title: 'Widgets',
+      number: 7,
+    });
+
+    const data = await source.fetchPRData();
+    const byName = Object.fromEntries(data.files.map(file => [file.filename, file]));
+
+    expect(data.pullRequest.title).toBe('Widgets');
+    expect(data.pullRequest.number).toBe(7);
+    expect(byName['src/widget.ts'].status).toBe('added');
+    expect(byName['old.js'].status).toBe('removed');
+    expect(byName['README.md'].patch).toMatch(/^@@ /);
+    expect(data.codeStats.totalFiles).toBe(3);
+    expect(data.codeStats.totalAdditions).toBe(4);
+    expect(data.codeStats.totalDeletions).toBe(1);
+    expect(data.codeStats.languageBreakdown).toHaveProperty('TypeScript');
+    expect(data.timelineStats.createdAt).toEqual(new Date('2024-01-02T10:00:00Z'));
+    expect(data.timelineStats.lastUpdateAt).toEqual(new Date('2024-01-03T12:00:00Z'));
+    expect(data.participants.map(p => p.login).sort()).toEqual(['ada', 'grace']);
+  });
+
+  it('should diff merge commits in the range against their first parent', async () => {
+    git(['checkout', '-q', '-b', 'hotfix', 'main']);
+    fs.writeFileSync(path.join(repoPath, 'CHANGELOG.md'), '# Changelog\n\n- Fix\n');
+    commit('Add changelog', 'Grace', 'grace@example.com', '2024-01-04T10:00:00Z');
+    git(['checkout', '-q', '-b', 'integration', 'feature']);
+    git(['-c', 'commit.gpgsign=false', 'merge', '-q', '--no-ff', 'hotfix', '-m', 'Merge hotfix'], {
+      GIT_AUTHOR_NAME: 'Ada',
+      GIT_AUTHOR_EMAIL: 'ada@example.com',
+      GIT_AUTHOR_DATE: '2024-01-05T10:00:00Z',
+      GIT_COMMITTER_NAME: 'Ada',
+      GIT_COMMITTER_EMAIL: 'ada@example.com',
+      GIT_COMMITTER_DATE: '2024-01-05T10:00:00Z',
+    });
+
+    const data = await new LocalGitDataSource({ type: 'local-git', repoPath, base: 'feature', head: 'integration' }).fetchPRData();
+    const merge = data.commits.find(candidate => candidate.commit.message.startsWith('Merge hotfix'))!;
+
+    expect(merge.files!.map(file => file.filename)).toEqual(['CHANGELOG.md']);
+    expect(merge.stats).toEqual({ total: 3, additions: 3, deletions: 0 });
+  });
+
+  it('should reject unknown revisions with a DataSourceError', async () => {
+    const source = new LocalGitDataSource({
+      type: 'local-git',
+      repoPath,
+      base: 'main',
+      head: 'does-not-exist',
+    });
+
+    await expect(source.fetchPRData()).rejects.toBeInstanceOf(DataSourceError);
+  });
+});
+
+describe('LocalGitHistorySource', () => {
+  let repoPath: string;
+
+  const git = (args: string[], date = '2024-03-01T10:00:00Z', name = 'Ada', email = 'ada@example.com') =>
+    execFileSync('git', ['-C', repoPath, '-c', 'commit.gpgsign=false', ...args], {
+      encoding: 'utf8',
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: name,
+        GIT_AUTHOR_EMAIL: email,
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_NAME: name,
+        GIT_COMMITTER_EMAIL: email,
+        GIT_COMMITTER_DATE: date,
+      },
+    });
+
+  beforeAll(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'git2video-history-'));
+    git(['init', '-q', '-b', 'main']);
+    fs.writeFileSync(path.join(repoPath, 'README.md'), '# Widgets\n');
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', 'Initial commit'], '2024-02-20T10:00:00Z');
+
+    git(['checkout', '-q', '-b', 'feature']);
+    fs.writeFileSync(path.join(repoPath, 'widget.ts'), 'export const a = 1;\nexport const b = 2;\n');
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', 'Add widget module'], '2024-03-02T09:00:00Z', 'Grace', 'grace@example.com');
+
+    git(['checkout', '-q', 'main']);
+    git(
+      ['merge', '-q', '--no-ff', 'feature', '-m', 'Merge pull request #7 from acme/feature\n\nAdd the widget module'],
+      '2024-03-03T16:00:00Z'
+    );
+    git(['tag', 'v1.0.0']);
+
+    fs.writeFileSync(path.join(repoPath, 'widget.ts'), 'export const a = 1;\nexport const b = 3;\n');
+    git(['commit', '-q', '-a', '-m', 'Fix widget value (#9)\n\n* Fix widget value'], '2024-04-05T11:00:00Z', 'Ada', 'ada@example.com');
+  });
+
+  afterAll(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should read commits in the window and pull requests from merge commits', async () => {
+    const history = await createHistorySource({ type: 'local-git', repoPath }).fetchHistory({
+      since: '2024-03-01T00:00:00Z',
+      until: '2024-03-31T00:00:00Z',
+    });
+
+    expect(history.commits.map(commit => [commit.message.split('\n')[0], commit.merge])).toEqual([
+      ['Add widget module', false],
+      ['Merge pull request #7 from acme/feature', true],
+    ]);
+    expect(history.pullRequests).toEqual([
+      expect.objectContaining({
+        number: 7,
+        title: 'Add the widget module',
+        state: 'merged',
+        createdAt: '2024-03-02T09:00:00+00:00',
+        additions: 2,
+        deletions: 0,
+        changedFiles: 1,
+      }),
+    ]);
+    expect(history.pullRequests[0].author.login).toBe('grace');
+    expect(history.releases).toEqual([{ tag: 'v1.0.0', name: 'v1.0.0', publishedAt: '2024-03-03T16:00:00+00:00' }]);
+    expect(history.issues).toEqual([]);
+  });
+
+  it('should read squash merges named by a trailing pull request number', async () => {
+    const history = await new LocalGitHistorySource({ type: 'local-git', repoPath }).fetchHistory({
+      since: '2024-04-01T00:00:00Z',
+      until: '2024-04-30T00:00:00Z',
+    });
+
+    expect(history.commits.map(commit => commit.merge)).toEqual([false]);
+    expect(history.pullRequests).toEqual([
+      expect.objectContaining({
+        number: 9,
+        title: 'Fix widget value',
+        createdAt: '2024-04-05T11:00:00+00:00',
+        mergedAt: '2024-04-05T11:00:00+00:00',
+        additions: 1,
+        deletions: 1,
+        changedFiles: 1,
+      }),
+    ]);
+    expect(history.pullRequests[0].author.login).toBe('ada');
+  });
+
+  it('should leave out commits and tags outside the window', async () => {
+    const history = await new LocalGitHistorySource({ type: 'local-git', repoPath }).fetchHistory({
+      since: '2024-02-01T00:00:00Z',
+      until: '2024-02-28T00:00:00Z',
+    });
+
+    expect(history.commits.map(commit => commit.message.trim())).toEqual(['Initial commit']);
+    expect(history.pullRequests).toEqual([]);
+    expect(history.releases).toEqual([]);
+  });
+});
+
+describe('parseUnifiedDiff', () => {
+  it('should parse renames with their previous filename', () => {
+    const files = parseUnifiedDiff([
+      'diff --git a/src/old.ts b/src/new.ts',
+      'similarity index 90%',
+      'rename from src/old.ts',
+      'rename to src/new.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/old.ts',
+      '+++ b/src/new.ts',
+      '@@ -1,2 +1,2 @@',
+      ' const a = 1;',
+      '-const b = 2;',
+      '+const b = 3;',
+      '',
+    ].join('\n'));
+
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatchObject({
+      filename: 'src/new.ts',
+      previous_filename: 'src/old.ts',
+      status: 'renamed',
+      additions: 1,
+      deletions: 1,
+      changes: 2,
+    });
+  });
+
+  it('should count changed lines that start with ++ or -- inside hunks', () => {
+    expect(countPatchChanges([
+      '--- a/src/counter.c',
+      '+++ b/src/counter.c',
+      '@@ -1,2 +1,2 @@',
+      '---count;',
+      '+++count;',
+      ' return count;',
+    ].join('\n'))).toEqual({ additions: 1, deletions: 1 });
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should keep the input order with a bounded number of calls in flight', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for PRVideoData snapshots and the snapshot data source
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GitLabDataSource } from '../gitlab';
+import { createDataSource, DataSourceError } from '../index';
+import {
+  createSnapshot,
+  parseSnapshot,
+  readSnapshot,
+  serializeSnapshot,
+  SNAPSHOT_VERSION,
+  writeSnapshot,
+} from '../snapshot';
+import { PRVideoData } from '../../github/types';
+import recording from './fixtures/gitlab-merge-request.json';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'gitlab-merge-request.snapshot.json');
+
+type Recording = Record<string, { body: unknown; headers?: Record<string, string> }>;
+
+const fetchFromRecording = (async (input: RequestInfo | URL) => {
+  const url = new URL(String(input));
+  const page = url.searchParams.get('page');
+  const entry = (recording as Recording)[page && page !== '1' ? `${url.pathname}?page=${page}` : url.pathname];
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(entry.headers || {}),
+    json: async () => entry.body,
+    text: async () => JSON.stringify(entry.body),
+  } as Response;
+}) as typeof fetch;
+
+describe('PRVideoData snapshots', () => {
+  let source: GitLabDataSource;
+  let prData: PRVideoData;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    source = new GitLabDataSource({
+      type: 'gitlab',
+      token: 'test',
+      project: 'acme/widgets',
+      mergeRequestIid: 42,
+      baseUrl: 'https://gitlab.example.com/api/v4',
+      fetchImpl: fetchFromRecording,
+    });
+    prData = await source.fetchPRData();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git2video-snapshot-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip PRVideoData with revived timeline dates', () => {
+    const file = writeSnapshot(path.join(tempDir, 'nested', 'pr.json'), prData, { kind: 'gitlab', description: 'x' });
+    const { source: origin, data } = readSnapshot(file);
+
+    expect(origin).toEqual({ kind: 'gitlab', description: 'x' });
+    expect(data.timelineStats.createdAt).toBeInstanceOf(Date);
+    expect(data.timelineStats.mergedAt).toBeInstanceOf(Date);
+    expect(data.timelineStats.mergedAt!.getTime()).toBe(prData.timelineStats.mergedAt!.getTime());
+    expect(data).toEqual(prData);
+  });
+
+  it('should serialize deterministically regardless of key order', () => {
+    const reordered = Object.fromEntries(Object.entries(prData).reverse()) as unknown as PRVideoData;
+    const origin = { kind: 'gitlab' as const, description: 'acme/widgets!42' };
+
+    expect(serializeSnapshot(createSnapshot(reordered, origin))).toBe(
+      serializeSnapshot(createSnapshot(prData, origin))
+    );
+  });
+
+  it('should match the checked-in fixture byte for byte', () => {
+    const current = serializeSnapshot(createSnapshot(prData, { kind: source.kind, description: source.describe() }));
+    expect(current).toBe(fs.readFileSync(FIXTURE, 'utf8'));
+  });
+
+  it('should replay the fixture through createDataSource without credentials', async () => {
+    const replayed = await createDataSource({ type: 'snapshot', path: FIXTURE }).fetchPRData();
+
+    expect(replayed.pullRequest.title).toBe('Add widget cache');
+    expect(replayed.timelineStats.createdAt).toEqual(new Date('2024-03-01T09:00:00Z'));
+    expect(replayed.timelineStats).toEqual(prData.timelineStats);
+  });
+
+  it('should honour fetch options when replaying', async () => {
+    const replayed = await createDataSource({ type: 'snapshot', path: FIXTURE }).fetchPRData({
+      includeCommits: false,
+      includeComments: false,
+    });
+
+    expect(replayed.commits).toEqual([]);
+    expect(replayed.reviewComments).toEqual([]);
+    expect(replayed.files).toHaveLength(2);
+  });
+
+  it('should reject unknown formats, newer versions and invalid dates', () => {
+    const valid = JSON.parse(fs.readFileSync(FIXTURE, 'utf8'));
+
+    expect(() => parseSnapshot('{')).toThrow(DataSourceError);
+    expect(() => parseSnapshot(JSON.stringify({ ...valid, format: 'other' }))).toThrow('is not a git2video/pr-snapshot file');
+    expect(() => parseSnapshot(JSON.stringify({ ...valid, version: SNAPSHOT_VERSION + 1 }))).toThrow(
+      `snapshot version ${SNAPSHOT_VERSION + 1}`
+    );
+    expect(() =>
+      parseSnapshot(JSON.stringify({
+        ...valid,
+        data: { ...valid.data, timelineStats: { ...valid.data.timelineStats, createdAt: 'yesterday' } },
+      }))
+    ).toThrow('invalid date in timelineStats.createdAt');
+  });
+
+  it('should raise DataSourceError for missing files', async () => {
+    await expect(
+      createDataSource({ type: 'snapshot', path: path.join(tempDir, 'missing.json') }).fetchPRData()
+    ).rejects.toMatchObject({ name: 'DataSourceError', source: 'snapshot' });
+  });
+});
@@ -0,0 +1,483 @@
+/**
+ * Bitbucket Cloud pull request data source
+ * Normalizes pull requests, activity, comments, raw diffs and build statuses into PRVideoData
+ */
+
+import { PRDataAggregator } from '../github/aggregator';
+import {
+  FetchOptions,
+  GitHubBranch,
+  GitHubCommit,
+  GitHubFile,
+  GitHubIssueComment,
+  GitHubPullRequest,
+  GitHubRepository,
+  GitHubReview,
+  GitHubReviewComment,
+  GitHubTimelineEvent,
+  GitHubUser,
+  PRVideoData,
+} from '../github/types';
+import { parseUnifiedDiff } from './gitDiff';
+import { ProviderApiClient } from './http';
+import { COMMIT_FETCH_CONCURRENCY, mapWithConcurrency, parseGitIdentity, stableId, toUser } from './normalize';
+import { BitbucketSourceConfig, DataSourceError, PRDataSource } from './types';
+
+// Bitbucket Cloud 2.0 API response shapes (only the fields we use)
+export interface BitbucketUser {
+  uuid: string;
+  display_name: string;
+  nickname?: string;
+  account_id?: string;
+  type: 'user' | 'team' | 'app_user';
+  links: { avatar?: { href: string }; html?: { href: string } };
+}
+
+export interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+  page?: number;
+  pagelen?: number;
+}
+
+export interface BitbucketRepository {
+  uuid: string;
+  name: string;
+  full_name: string;
+  owner: BitbucketUser;
+  description?: string;
+  is_private: boolean;
+  language?: string;
+  mainbranch?: { name: string };
+  parent?: unknown;
+  links: { html: { href: string } };
+}
+
+export interface BitbucketPullRequest {
+  id: number;
+  title: string;
+  description?: string;
+  state: 'OPEN' | 'MERGED' | 'DECLINED' | 'SUPERSEDED';
+  draft?: boolean;
+  author: BitbucketUser;
+  source: { branch: { name: string }; commit: { hash: string } };
+  destination: { branch: { name: string }; commit: { hash: string } };
+  merge_commit?: { hash: string } | null;
+  closed_by?: BitbucketUser | null;
+  reviewers?: BitbucketUser[];
+  participants?: Array<{
+    user: BitbucketUser;
+    role: 'PARTICIPANT' | 'REVIEWER';
+    approved: boolean;
+    state?: 'approved' | 'changes_requested' | null;
+    participated_on?: string | null;
+  }>;
+  comment_count: number;
+  created_on: string;
+  updated_on: string;
+  links: { html: { href: string } };
+}
+
+export interface BitbucketCommit {
+  hash: string;
+  message: string;
+  date: string;
+  author: { raw: string; user?: BitbucketUser };
+  parents: Array<{ hash: string }>;
+  links: { html: { href: string } };
+}
+
+export interface BitbucketComment {
+  id: number;
+  content: { raw: string };
+  user: BitbucketUser;
+  created_on: string;
+  updated_on: string;
+  deleted?: boolean;
+  inline?: { path: string; from?: number | null; to?: number | null };
+  parent?: { id: number };
+  links: { html?: { href: string } };
+}
+
+export interface BitbucketActivity {
+  update?: { state: string; date: string; author: BitbucketUser; title?: string };
+  approval?: { date: string; user: BitbucketUser };
+  changes_requested?: { date: string; user: BitbucketUser };
+  comment?: BitbucketComment;
+}
+
+export interface BitbucketStatus {
+  key: string;
+  name?: string;
+  state: 'SUCCESSFUL' | 'FAILED' | 'INPROGRESS' | 'STOPPED';
+  url: string;
+  created_on: string;
+  updated_on: string;
+}
+
+export class BitbucketDataSource implements PRDataSource {
+  readonly kind = 'bitbucket' as const;
+  private client: ProviderApiClient;
+  private aggregator: PRDataAggregator;
+  private repoPath: string;
+
+  constructor(private config: BitbucketSourceConfig) {
+    this.client = new ProviderApiClient({
+      source: this.kind,
+      baseUrl: config.baseUrl || 'https://api.bitbucket.org/2.0',
+      headers: this.buildAuthHeaders(config),
+      fetchImpl: config.fetchImpl,
+    });
+    this.aggregator = new PRDataAggregator();
+    this.repoPath = `/repositories/${encodeURIComponent(config.workspace)}/${encodeURIComponent(config.repoSlug)}`;
+  }
+
+  describe(): string {
+    return `${this.config.workspace}/${this.config.repoSlug}#${this.config.prId}`;
+  }
+
+  /**
+   * Fetch the pull request and normalize it into PRVideoData
+   */
+  async fetchPRData(options: FetchOptions = {}): Promise<PRVideoData> {
+    const {
+      includeCommits = true,
+      includeFiles = true,
+      includeReviews = true,
+      includeComments = true,
+      includeTimeline = true,
+    } = options;
+
+    console.log(`Fetching Bitbucket pull request ${this.describe()}...`);
+
+    const prPath = `${this.repoPath}/pullrequests/${this.config.prId}`;
+    const [pr, repo] = await Promise.all([
+      this.client.getJson<BitbucketPullRequest>(prPath).then(r => r.data),
+      this.client.getJson<BitbucketRepository>(this.repoPath).then(r => r.data),
+    ]);
+
+    const needsActivity = includeReviews || includeTimeline;
+    const [rawCommits, diff, comments, activity, statuses] = await Promise.all([
+      includeCommits ? this.getAllPages<BitbucketCommit>(`${prPath}/commits`) : Promise.resolve([]),
+      includeFiles ? this.client.getText(`${prPath}/diff`) : Promise.resolve(''),
+      includeComments ? this.getAllPages<BitbucketComment>(`${prPath}/comments`) : Promise.resolve([]),
+      needsActivity ? this.getAllPages<BitbucketActivity>(`${prPath}/activity`) : Promise.resolve([]),
+      includeTimeline ? this.getAllPages<BitbucketStatus>(`${prPath}/statuses`) : Promise.resolve([]),
+    ]);
+
+    const repository = this.normalizeRepository(repo);
+    // The commits endpoint lists newest first; PRVideoData keeps them in chronological order
+    const commits = await mapWithConcurrency([...rawCommits].reverse(), COMMIT_FETCH_CONCURRENCY, commit =>
+      this.normalizeCommit(commit)
+    );
+    const files = parseUnifiedDiff(diff);
+    const liveComments = comments.filter(comment => !comment.deleted);
+    const reviewComments = this.normalizeReviewComments(liveComments, pr);
+    const issueComments = this.normalizeIssueComments(liveComments, pr);
+    const reviews = includeReviews ? this.normalizeReviews(activity, pr) : [];
+    const timeline = includeTimeline ? this.normalizeTimeline(activity, statuses, pr) : [];
+    const pullRequest = this.normalizePullRequest(
+      pr,
+      repository,
+      files,
+      rawCommits.length,
+      reviewComments.length,
+      timeline
+    );
+
+    return this.aggregator.aggregate(
+      pullRequest,
+      repository,
+      commits,
+      files,
+      reviews,
+      reviewComments,
+      issueComments,
+      timeline
+    );
+  }
+
+  private buildAuthHeaders(config: BitbucketSourceConfig): Record<string, string> {
+    if (config.token) {
+      return { 'Authorization': `Bearer ${config.token}` };
+    }
+    if (config.username && config.appPassword) {
+      const credentials = Buffer.from(`${config.username}:${config.appPassword}`).toString('base64');
+      return { 'Authorization': `Basic ${credentials}` };
+    }
+    throw new DataSourceError(
+      'Bitbucket requires either an access token or a username and app password',
+      this.kind
+    );
+  }
+
+  /**
+   * Follow Bitbucket's `next` links
+   */
+  private async getAllPages<T>(endpoint: string): Promise<T[]> {
+    const results: T[] = [];
+    let next: string | undefined = this.client.buildUrl(endpoint, { pagelen: 50 });
+
+    while (next) {
+      const response: { data: BitbucketPage<T> } = await this.client.getJson<BitbucketPage<T>>(next);
+      results.push(...response.data.values);
+      next = response.data.next;
+    }
+
+    return results;
+  }
+
+  private normalizeUser(user: BitbucketUser): GitHubUser {
+    return toUser({
+      id: user.uuid,
+      login: user.nickname || user.display_name,
+      name: user.display_name,
+      avatarUrl: user.links.avatar?.href,
+      htmlUrl: user.links.html?.href,
+      bot: user.type === 'app_user',
+    });
+  }
+
+  private normalizeRepository(repo: BitbucketRepository): GitHubRepository {
+    return {
+      id: stableId(repo.uuid),
+      name: repo.name,
+      full_name: repo.full_name,
+      owner: this.normalizeUser(repo.owner),
+      html_url: repo.links.html.href,
+      ...(repo.description ? { description: repo.description } : {}),
+      private: repo.is_private,
+      fork: Boolean(repo.parent),
+      ...(repo.language ? { language: repo.language } : {}),
+      default_branch: repo.mainbranch?.name || 'main',
+    };
+  }
+
+  private normalizePullRequest(
+    pr: BitbucketPullRequest,
+    repository: GitHubRepository,
+    files: GitHubFile[],
+    commitCount: number,
+    reviewCommentCount: number,
+    timeline: GitHubTimelineEvent[]
+  ): GitHubPullRequest {
+    const branch = (ref: string, sha: string): GitHubBranch => ({
+      label: ref,
+      ref,
+      sha,
+      user: repository.owner,
+      repo: repository,
+    });
+    const closedAt = pr.state === 'OPEN'
+      ? undefined
+      : [...timeline].reverse().find(event => event.event === 'merged' || event.event === 'closed')?.created_at
+        || pr.updated_on;
+
+    return {
+      id: pr.id,
+      number: pr.id,
+      title: pr.title,
+      ...(pr.description ? { body: pr.description } : {}),
+      state: pr.state === 'OPEN' ? 'open' : 'closed',
+      merged: pr.state === 'MERGED',
+      draft: Boolean(pr.draft),
+      user: this.normalizeUser(pr.author),
+      assignees: [],
+      reviewers: (pr.reviewers || []).map(user => this.normalizeUser(user)),
+      labels: [],
+      base: branch(pr.destination.branch.name, pr.destination.commit.hash),
+      head: branch(pr.source.branch.name, pr.source.commit.hash),
+      html_url: pr.links.html.href,
+      created_at: pr.created_on,
+      updated_at: pr.updated_on,
+      ...(closedAt ? { closed_at: closedAt } : {}),
+      ...(pr.state === 'MERGED' && closedAt ? { merged_at: closedAt } : {}),
+      ...(pr.merge_commit ? { merge_commit_sha: pr.merge_commit.hash } : {}),
+      ...(pr.state === 'MERGED' && pr.closed_by ? { merged_by: this.normalizeUser(pr.closed_by) } : {}),
+      comments: pr.comment_count,
+      review_comments: reviewCommentCount,
+      commits: commitCount,
+      additions: files.reduce((sum, file) => sum + file.additions, 0),
+      deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+      changed_files: files.length,
+    };
+  }
+
+  /**
+   * Normalize a commit, fetching its raw diff for per-file stats
+   */
+  private async normalizeCommit(commit: BitbucketCommit): Promise<GitHubCommit> {
+    const identity = parseGitIdentity(commit.author.raw);
+    let files: GitHubFile[] | undefined;
+
+    try {
+      files = parseUnifiedDiff(await this.client.getText(`${this.repoPath}/diff/${commit.hash}`));
+    } catch (error) {
+      console.warn(`Failed to fetch stats for commit ${commit.hash}:`, error);
+    }
+
+    const author = commit.author.user
+      ? { ...this.normalizeUser(commit.author.user), email: identity.email || undefined }
+      : toUser({ id: identity.email.toLowerCase() || identity.name, login: identity.name, name: identity.name, email: identity.email });
+    const additions = files?.reduce((sum, file) => sum + file.additions, 0) || 0;
+    const deletions = files?.reduce((sum, file) => sum + file.deletions, 0) || 0;
+
+    return {
+      sha: commit.hash,
+      commit: {
+        author: { name: identity.name, email: identity.email, date: commit.date },
+        committer: { name: identity.name, email: identity.email, date: commit.date },
+        message: commit.message.trim(),
+        tree: { sha: '', url: '' },
+        url: commit.links.html.href,
+        comment_count: 0,
+      },
+      url: commit.links.html.href,
+      html_url: commit.links.html.href,
+      comments_url: '',
+      author,
+      committer: author,
+      parents: commit.parents.map(parent => ({ sha: parent.hash, url: '', html_url: '' })),
+      ...(files ? { stats: { total: additions + deletions, additions, deletions }, files } : {}),
+    };
+  }
+
+  /**
+   * Inline comments become review comments; replies keep their parent id
+   */
+  private normalizeReviewComments(
+    comments: BitbucketComment[],
+    pr: BitbucketPullRequest
+  ): GitHubReviewComment[] {
+    return comments
+      .filter(comment => comment.inline)
+      .map(comment => {
+        const inline = comment.inline!;
+        const onNewSide = inline.to !== null && inline.to !== undefined;
+
+        return {
+          id: comment.id,
+          diff_hunk: '',
+          path: inline.path,
+          commit_id: pr.source.commit.hash,
+          original_commit_id: pr.source.commit.hash,
+          user: this.normalizeUser(comment.user),
+          body: comment.content.raw,
+          created_at: comment.created_on,
+          updated_at: comment.updated_on,
+          html_url: comment.links.html?.href || pr.links.html.href,
+          pull_request_url: pr.links.html.href,
+          author_association: 'NONE',
+          ...(comment.parent ? { in_reply_to_id: comment.parent.id } : {}),
+          ...(onNewSide ? { line: inline.to! } : inline.from ? { line: inline.from } : {}),
+          side: onNewSide ? 'RIGHT' as const : 'LEFT' as const,
+        };
+      });
+  }
+
+  private normalizeIssueComments(
+    comments: BitbucketComment[],
+    pr: BitbucketPullRequest
+  ): GitHubIssueComment[] {
+    return comments
+      .filter(comment => !comment.inline)
+      .map(comment => ({
+        id: comment.id,
+        user: this.normalizeUser(comment.user),
+        created_at: comment.created_on,
+        updated_at: comment.updated_on,
+        author_association: 'NONE',
+        body: comment.content.raw,
+        html_url: comment.links.html?.href || pr.links.html.href,
+        issue_url: pr.links.html.href,
+      }));
+  }
+
+  /**
+   * Approvals and change requests from the activity log become reviews
+   */
+  private normalizeReviews(activity: BitbucketActivity[], pr: BitbucketPullRequest): GitHubReview[] {
+    const reviews: GitHubReview[] = [];
+
+    activity.forEach(entry => {
+      const verdict = entry.approval
+        ? { ...entry.approval, state: 'APPROVED' as const }
+        : entry.changes_requested
+          ? { ...entry.changes_requested, state: 'CHANGES_REQUESTED' as const }
+          : null;
+
+      if (verdict) {
+        reviews.push({
+          id: stableId(`${verdict.user.uuid}:${verdict.date}`),
+          user: this.normalizeUser(verdict.user),
+          state: verdict.state,
+          html_url: pr.links.html.href,
+          pull_request_url: pr.links.html.href,
+          author_association: 'NONE',
+          submitted_at: verdict.date,
+          commit_id: pr.source.commit.hash,
+        });
+      }
+    });
+
+    return reviews.sort(
+      (a, b) => new Date(a.submitted_at!).getTime() - new Date(b.submitted_at!).getTime()
+    );
+  }
+
+  /**
+   * State updates, review verdicts and build statuses become timeline events
+   */
+  private normalizeTimeline(
+    activity: BitbucketActivity[],
+    statuses: BitbucketStatus[],
+    pr: BitbucketPullRequest
+  ): GitHubTimelineEvent[] {
+    const stateEvents: Record<string, string> = {
+      OPEN: 'reopened',
+      MERGED: 'merged',
+      DECLINED: 'closed',
+      SUPERSEDED: 'closed',
+    };
+    const events: GitHubTimelineEvent[] = [];
+
+    activity.forEach(entry => {
+      if (entry.update) {
+        const isCreation = entry.update.date === pr.created_on;
+        events.push({
+          event: isCreation ? 'opened' : stateEvents[entry.update.state] || 'updated',
+          created_at: entry.update.date,
+          actor: this.normalizeUser(entry.update.author),
+          state: entry.update.state.toLowerCase(),
+        });
+      } else if (entry.approval) {
+        events.push({
+          event: 'reviewed',
+          created_at: entry.approval.date,
+          actor: this.normalizeUser(entry.approval.user),
+          state: 'approved',
+        });
+      } else if (entry.changes_requested) {
+        events.push({
+          event: 'reviewed',
+          created_at: entry.changes_requested.date,
+          actor: this.normalizeUser(entry.changes_requested.user),
+          state: 'changes_requested',
+        });
+      }
+    });
+
+    statuses.forEach(status => {
+      events.push({
+        event: 'status',
+        created_at: status.created_on,
+        commit_id: pr.source.commit.hash,
+        state: status.state.toLowerCase(),
+        body: status.name || status.key,
+        html_url: status.url,
+      });
+    });
+
+    return events.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  }
+}
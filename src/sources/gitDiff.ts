@@ -0,0 +1,110 @@
+/**
+ * Unified diff parsing helpers shared by the non-GitHub data sources
+ * Produces GitHubFile entries whose `patch` matches the hunk-only format GitHub returns
+ */
+
+import { GitHubFile } from '../github/types';
+
+/**
+ * Count added and removed lines in a hunk-only patch
+ */
+export function countPatchChanges(patch: string | undefined): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+
+  if (!patch) {
+    return { additions, deletions };
+  }
+
+  let inHunks = false;
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('@@')) {
+      inHunks = true;
+      continue;
+    }
+    // `+++`/`---` file headers only come before the first hunk; inside one they are changed lines starting with `++`/`--`
+    if (!inHunks && (line.startsWith('+++') || line.startsWith('---'))) continue;
+    if (line.startsWith('+')) additions++;
+    else if (line.startsWith('-')) deletions++;
+  }
+
+  return { additions, deletions };
+}
+
+/**
+ * Strip everything before the first hunk header from a per-file diff
+ */
+export function extractHunks(diff: string): string | undefined {
+  const hunkStart = diff.search(/^@@ /m);
+  if (hunkStart === -1) {
+    return undefined;
+  }
+  return diff.slice(hunkStart).replace(/\n$/, '');
+}
+
+/**
+ * Parse the output of `git diff` / `git show` into per-file changes
+ */
+export function parseUnifiedDiff(output: string): GitHubFile[] {
+  const files: GitHubFile[] = [];
+  const sections = output.split(/^diff --git /m).slice(1);
+
+  for (const section of sections) {
+    const lines = section.split('\n');
+    const header = lines[0];
+    let filename = parseHeaderPath(header, 'b/');
+    let previousFilename: string | undefined;
+    let status: GitHubFile['status'] = 'modified';
+
+    for (const line of lines.slice(1)) {
+      if (line.startsWith('@@')) break;
+
+      if (line.startsWith('new file mode')) {
+        status = 'added';
+      } else if (line.startsWith('deleted file mode')) {
+        status = 'removed';
+      } else if (line.startsWith('rename from ')) {
+        status = 'renamed';
+        previousFilename = line.slice('rename from '.length);
+      } else if (line.startsWith('rename to ')) {
+        filename = line.slice('rename to '.length);
+      } else if (line.startsWith('copy from ')) {
+        status = 'copied';
+        previousFilename = line.slice('copy from '.length);
+      } else if (line.startsWith('copy to ')) {
+        filename = line.slice('copy to '.length);
+      } else if (line.startsWith('+++ b/')) {
+        filename = line.slice('+++ b/'.length);
+      } else if (line.startsWith('--- a/') && status === 'removed') {
+        filename = line.slice('--- a/'.length);
+      }
+    }
+
+    const patch = extractHunks(section);
+    const { additions, deletions } = countPatchChanges(patch);
+
+    files.push({
+      filename,
+      status,
+      additions,
+      deletions,
+      changes: additions + deletions,
+      patch,
+      ...(previousFilename ? { previous_filename: previousFilename } : {}),
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Read the path from a `diff --git a/x b/x` header line
+ */
+function parseHeaderPath(header: string, prefix: 'a/' | 'b/'): string {
+  const marker = ` ${prefix}`;
+  const index = header.lastIndexOf(marker);
+  if (index === -1) {
+    return header.trim();
+  }
+  return header.slice(index + marker.length).trim();
+}
@@ -0,0 +1,128 @@
+/**
+ * GitHub REST API data source backed by GitHubPRFetcher
+ */
+
+import { GitHubApiClient } from '../github/client';
+import { GitHubPRFetcher } from '../github/fetcher';
+import { GitHubHistoryFetcher } from '../github/history';
+import { GitHubLogger } from '../github/logger';
+import { describeReleaseRange, GitHubReleaseFetcher } from '../github/release';
+import {
+  FetchOptions,
+  HistoryFetchOptions,
+  HistoryWindow,
+  PRVideoData,
+  ReleaseData,
+  ReleaseFetchOptions,
+  RepositoryHistory,
+} from '../github/types';
+import {
+  GitHubHistorySourceConfig,
+  GitHubReleaseSourceConfig,
+  GitHubSourceConfig,
+  HistoryDataSource,
+  PRDataSource,
+  ReleaseDataSource,
+} from './types';
+
+/**
+ * API client authenticated as the token or app installation in the config
+ */
+function createClient(config: Omit<GitHubSourceConfig, 'prNumber'>, logger: GitHubLogger): GitHubApiClient {
+  return new GitHubApiClient(
+    {
+      ...(config.app ? { app: config.app } : { token: config.token }),
+      ...(config.baseUrl ? { baseUrl: config.baseUrl } : {}),
+      ...(config.cache ? { cache: config.cache } : {}),
+    },
+    logger
+  );
+}
+
+function logCacheStats(logger: GitHubLogger): void {
+  const { hits, misses } = logger.getPerformanceAnalytics().cache;
+  console.log(`GitHub response cache: ${hits} hits, ${misses} misses`);
+}
+
+export class GitHubDataSource implements PRDataSource {
+  readonly kind = 'github' as const;
+  private fetcher: GitHubPRFetcher;
+  private logger = new GitHubLogger({ logLevel: 'warn' });
+
+  constructor(private config: GitHubSourceConfig, fetcher?: GitHubPRFetcher) {
+    this.fetcher = fetcher || new GitHubPRFetcher(createClient(config, this.logger));
+  }
+
+  describe(): string {
+    return `${this.config.owner}/${this.config.repo}#${this.config.prNumber}`;
+  }
+
+  async fetchPRData(options: FetchOptions = {}): Promise<PRVideoData> {
+    const data = await this.fetcher.fetchPRData(
+      this.config.owner,
+      this.config.repo,
+      this.config.prNumber,
+      options
+    );
+
+    if (this.config.cache) {
+      logCacheStats(this.logger);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Pull requests merged between two tags or in a milestone, enumerated with the compare and search APIs
+ */
+export class GitHubReleaseSource implements ReleaseDataSource {
+  readonly kind = 'github' as const;
+  private fetcher: GitHubReleaseFetcher;
+  private logger = new GitHubLogger({ logLevel: 'warn' });
+
+  constructor(private config: GitHubReleaseSourceConfig, fetcher?: GitHubReleaseFetcher) {
+    this.fetcher = fetcher || new GitHubReleaseFetcher(createClient(config, this.logger));
+  }
+
+  describe(): string {
+    return `${this.config.owner}/${this.config.repo} ${describeReleaseRange(this.config.range)}`;
+  }
+
+  async fetchReleaseData(options: ReleaseFetchOptions = {}): Promise<ReleaseData> {
+    const data = await this.fetcher.fetchReleaseData(this.config.owner, this.config.repo, this.config.range, options);
+
+    if (this.config.cache) {
+      logCacheStats(this.logger);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Commits, pull requests, issues, milestones and releases of a repository over a date window
+ */
+export class GitHubHistorySource implements HistoryDataSource {
+  readonly kind = 'github' as const;
+  private fetcher: GitHubHistoryFetcher;
+  private logger = new GitHubLogger({ logLevel: 'warn' });
+
+  constructor(private config: GitHubHistorySourceConfig, fetcher?: GitHubHistoryFetcher) {
+    this.fetcher = fetcher || new GitHubHistoryFetcher(createClient(config, this.logger));
+  }
+
+  describe(): string {
+    return `${this.config.owner}/${this.config.repo}`;
+  }
+
+  async fetchHistory(window: HistoryWindow, options: HistoryFetchOptions = {}): Promise<RepositoryHistory> {
+    const history = await this.fetcher.fetchHistory(this.config.owner, this.config.repo, window, options);
+
+    if (this.config.cache) {
+      logCacheStats(this.logger);
+    }
+
+    return history;
+  }
+}
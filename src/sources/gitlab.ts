@@ -0,0 +1,577 @@
+/**
+ * GitLab merge request data source
+ * Normalizes merge requests, discussions, approvals, diffs and pipelines into PRVideoData
+ */
+
+import { PRDataAggregator } from '../github/aggregator';
+import {
+  FetchOptions,
+  GitHubBranch,
+  GitHubCommit,
+  GitHubFile,
+  GitHubIssueComment,
+  GitHubMilestone,
+  GitHubPullRequest,
+  GitHubRepository,
+  GitHubReview,
+  GitHubReviewComment,
+  GitHubTimelineEvent,
+  GitHubUser,
+  PRVideoData,
+} from '../github/types';
+import { countPatchChanges } from './gitDiff';
+import { ProviderApiClient } from './http';
+import { COMMIT_FETCH_CONCURRENCY, mapWithConcurrency, toLabel, toUser } from './normalize';
+import { GitLabSourceConfig, PRDataSource } from './types';
+
+// GitLab REST API v4 response shapes (only the fields we use)
+export interface GitLabUser {
+  id: number;
+  username: string;
+  name: string;
+  avatar_url?: string;
+  web_url: string;
+  bot?: boolean;
+}
+
+export interface GitLabLabel {
+  id: number;
+  name: string;
+  color: string;
+  description?: string;
+}
+
+export interface GitLabMilestone {
+  id: number;
+  iid: number;
+  title: string;
+  description?: string;
+  state: 'active' | 'closed';
+  created_at: string;
+  updated_at: string;
+  due_date?: string;
+}
+
+export interface GitLabMergeRequest {
+  id: number;
+  iid: number;
+  project_id: number;
+  title: string;
+  description?: string;
+  state: 'opened' | 'closed' | 'merged' | 'locked';
+  draft?: boolean;
+  work_in_progress?: boolean;
+  author: GitLabUser;
+  assignees?: GitLabUser[];
+  reviewers?: GitLabUser[];
+  labels: Array<string | GitLabLabel>;
+  milestone?: GitLabMilestone | null;
+  source_branch: string;
+  target_branch: string;
+  sha: string;
+  merge_commit_sha?: string | null;
+  squash_commit_sha?: string | null;
+  web_url: string;
+  created_at: string;
+  updated_at: string;
+  merged_at?: string | null;
+  closed_at?: string | null;
+  merged_by?: GitLabUser | null;
+  merge_user?: GitLabUser | null;
+  user_notes_count: number;
+  diff_refs?: { base_sha: string; head_sha: string; start_sha: string };
+  detailed_merge_status?: string;
+}
+
+export interface GitLabProject {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  namespace: { id: number; path: string; name: string; avatar_url?: string | null; web_url: string };
+  web_url: string;
+  description?: string | null;
+  visibility: 'private' | 'internal' | 'public';
+  default_branch: string;
+  forked_from_project?: unknown;
+}
+
+export interface GitLabCommit {
+  id: string;
+  short_id: string;
+  title: string;
+  message: string;
+  author_name: string;
+  author_email: string;
+  authored_date: string;
+  committer_name: string;
+  committer_email: string;
+  committed_date: string;
+  parent_ids?: string[];
+  web_url: string;
+  stats?: { additions: number; deletions: number; total: number };
+}
+
+export interface GitLabDiff {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+  diff: string;
+}
+
+export interface GitLabNote {
+  id: number;
+  type: 'DiffNote' | 'DiscussionNote' | null;
+  body: string;
+  author: GitLabUser;
+  created_at: string;
+  updated_at: string;
+  system: boolean;
+  resolvable?: boolean;
+  resolved?: boolean;
+  position?: {
+    base_sha: string;
+    start_sha: string;
+    head_sha: string;
+    old_path: string;
+    new_path: string;
+    old_line: number | null;
+    new_line: number | null;
+  };
+}
+
+export interface GitLabDiscussion {
+  id: string;
+  individual_note: boolean;
+  notes: GitLabNote[];
+}
+
+export interface GitLabApprovals {
+  approved: boolean;
+  approved_by: Array<{ user: GitLabUser; approved_at?: string }>;
+  updated_at?: string;
+}
+
+export interface GitLabPipeline {
+  id: number;
+  sha: string;
+  ref: string;
+  status: string;
+  source?: string;
+  created_at: string;
+  updated_at: string;
+  web_url: string;
+}
+
+/**
+ * System note bodies mapped onto GitHub timeline event names
+ */
+const SYSTEM_NOTE_EVENTS: Array<[RegExp, string]> = [
+  [/^approved this merge request/, 'reviewed'],
+  [/^unapproved this merge request/, 'review_dismissed'],
+  [/^requested review from/, 'review_requested'],
+  [/^added \d+ commits?/, 'committed'],
+  [/^marked this merge request as \*\*ready\*\*/, 'ready_for_review'],
+  [/^marked this merge request as \*\*draft\*\*/, 'convert_to_draft'],
+  [/^added ~/, 'labeled'],
+  [/^removed ~/, 'unlabeled'],
+  [/^changed title from/, 'renamed'],
+  [/^assigned to/, 'assigned'],
+  [/^mentioned in/, 'cross-referenced'],
+  [/^closed/, 'closed'],
+  [/^reopened/, 'reopened'],
+];
+
+const PER_PAGE = 100;
+
+export class GitLabDataSource implements PRDataSource {
+  readonly kind = 'gitlab' as const;
+  private client: ProviderApiClient;
+  private aggregator: PRDataAggregator;
+  private projectPath: string;
+
+  constructor(private config: GitLabSourceConfig) {
+    this.client = new ProviderApiClient({
+      source: this.kind,
+      baseUrl: config.baseUrl || 'https://gitlab.com/api/v4',
+      headers: { 'PRIVATE-TOKEN': config.token },
+      fetchImpl: config.fetchImpl,
+    });
+    this.aggregator = new PRDataAggregator();
+    this.projectPath = `/projects/${encodeURIComponent(config.project)}`;
+  }
+
+  describe(): string {
+    return `${this.config.project}!${this.config.mergeRequestIid}`;
+  }
+
+  /**
+   * Fetch the merge request and normalize it into PRVideoData
+   */
+  async fetchPRData(options: FetchOptions = {}): Promise<PRVideoData> {
+    const {
+      includeCommits = true,
+      includeFiles = true,
+      includeReviews = true,
+      includeComments = true,
+      includeTimeline = true,
+    } = options;
+
+    console.log(`Fetching GitLab merge request ${this.describe()}...`);
+
+    const mrPath = `${this.projectPath}/merge_requests/${this.config.mergeRequestIid}`;
+    const [mergeRequest, project] = await Promise.all([
+      this.client.getJson<GitLabMergeRequest>(mrPath, { with_labels_details: true }).then(r => r.data),
+      this.client.getJson<GitLabProject>(this.projectPath).then(r => r.data),
+    ]);
+
+    const needsDiscussions = includeReviews || includeComments || includeTimeline;
+    const [rawCommits, diffs, discussions, approvals, pipelines] = await Promise.all([
+      includeCommits ? this.getAllPages<GitLabCommit>(`${mrPath}/commits`) : Promise.resolve([]),
+      includeFiles ? this.getAllPages<GitLabDiff>(`${mrPath}/diffs`) : Promise.resolve([]),
+      needsDiscussions ? this.getAllPages<GitLabDiscussion>(`${mrPath}/discussions`) : Promise.resolve([]),
+      includeReviews
+        ? this.client.getJson<GitLabApprovals>(`${mrPath}/approvals`).then(r => r.data)
+        : Promise.resolve(null),
+      includeTimeline ? this.getAllPages<GitLabPipeline>(`${mrPath}/pipelines`) : Promise.resolve([]),
+    ]);
+
+    const repository = this.normalizeProject(project);
+    // The commits endpoint lists newest first; PRVideoData keeps them in chronological order
+    const commits = await mapWithConcurrency([...rawCommits].reverse(), COMMIT_FETCH_CONCURRENCY, commit =>
+      this.normalizeCommit(commit)
+    );
+    const files = diffs.map(diff => this.normalizeDiff(diff));
+    const notes = discussions.flatMap(discussion =>
+      discussion.notes.map((note, index) => ({ note, discussion, index }))
+    );
+
+    const reviewComments = includeComments ? this.normalizeReviewComments(notes, mergeRequest) : [];
+    const issueComments = includeComments ? this.normalizeIssueComments(notes, mergeRequest) : [];
+    const reviews = includeReviews ? this.normalizeApprovals(approvals, notes, mergeRequest) : [];
+    const timeline = includeTimeline ? this.normalizeTimeline(notes, pipelines, mergeRequest) : [];
+    const pullRequest = this.normalizeMergeRequest(
+      mergeRequest,
+      repository,
+      files,
+      rawCommits.length,
+      reviewComments.length
+    );
+
+    return this.aggregator.aggregate(
+      pullRequest,
+      repository,
+      commits,
+      files,
+      reviews,
+      reviewComments,
+      issueComments,
+      timeline
+    );
+  }
+
+  /**
+   * Follow GitLab's page/x-next-page pagination
+   */
+  private async getAllPages<T>(endpoint: string): Promise<T[]> {
+    const results: T[] = [];
+    let page = '1';
+
+    while (page) {
+      const response = await this.client.getJson<T[]>(endpoint, { page, per_page: PER_PAGE });
+      results.push(...response.data);
+      page = response.headers.get('x-next-page') || '';
+    }
+
+    return results;
+  }
+
+  private normalizeUser(user: GitLabUser): GitHubUser {
+    return toUser({
+      id: user.id,
+      login: user.username,
+      name: user.name,
+      avatarUrl: user.avatar_url,
+      htmlUrl: user.web_url,
+      bot: user.bot,
+    });
+  }
+
+  private normalizeProject(project: GitLabProject): GitHubRepository {
+    return {
+      id: project.id,
+      name: project.name,
+      full_name: project.path_with_namespace,
+      owner: toUser({
+        id: project.namespace.id,
+        login: project.namespace.path,
+        name: project.namespace.name,
+        avatarUrl: project.namespace.avatar_url || undefined,
+        htmlUrl: project.namespace.web_url,
+      }),
+      html_url: project.web_url,
+      ...(project.description ? { description: project.description } : {}),
+      private: project.visibility !== 'public',
+      fork: Boolean(project.forked_from_project),
+      default_branch: project.default_branch,
+    };
+  }
+
+  private normalizeMergeRequest(
+    mr: GitLabMergeRequest,
+    repository: GitHubRepository,
+    files: GitHubFile[],
+    commitCount: number,
+    reviewCommentCount: number
+  ): GitHubPullRequest {
+    const author = this.normalizeUser(mr.author);
+    const mergedBy = mr.merged_by || mr.merge_user;
+    const branch = (ref: string, sha: string): GitHubBranch => ({
+      label: ref,
+      ref,
+      sha,
+      user: repository.owner,
+      repo: repository,
+    });
+
+    return {
+      id: mr.id,
+      number: mr.iid,
+      title: mr.title,
+      ...(mr.description ? { body: mr.description } : {}),
+      state: mr.state === 'opened' ? 'open' : 'closed',
+      merged: mr.state === 'merged',
+      draft: Boolean(mr.draft ?? mr.work_in_progress),
+      user: author,
+      assignees: (mr.assignees || []).map(user => this.normalizeUser(user)),
+      reviewers: (mr.reviewers || []).map(user => this.normalizeUser(user)),
+      labels: mr.labels.map(label =>
+        typeof label === 'string' ? toLabel(label) : toLabel(label.name, label.color, label.description)
+      ),
+      ...(mr.milestone ? { milestone: this.normalizeMilestone(mr.milestone) } : {}),
+      base: branch(mr.target_branch, mr.diff_refs?.base_sha || ''),
+      head: branch(mr.source_branch, mr.diff_refs?.head_sha || mr.sha),
+      html_url: mr.web_url,
+      created_at: mr.created_at,
+      updated_at: mr.updated_at,
+      ...(mr.closed_at ? { closed_at: mr.closed_at } : {}),
+      ...(mr.merged_at ? { merged_at: mr.merged_at, closed_at: mr.closed_at || mr.merged_at } : {}),
+      ...(mr.merge_commit_sha || mr.squash_commit_sha
+        ? { merge_commit_sha: (mr.merge_commit_sha || mr.squash_commit_sha) as string }
+        : {}),
+      ...(mr.detailed_merge_status ? { mergeable_state: mr.detailed_merge_status } : {}),
+      ...(mergedBy ? { merged_by: this.normalizeUser(mergedBy) } : {}),
+      comments: mr.user_notes_count,
+      review_comments: reviewCommentCount,
+      commits: commitCount,
+      additions: files.reduce((sum, file) => sum + file.additions, 0),
+      deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+      changed_files: files.length,
+    };
+  }
+
+  private normalizeMilestone(milestone: GitLabMilestone): GitHubMilestone {
+    return {
+      id: milestone.id,
+      number: milestone.iid,
+      title: milestone.title,
+      ...(milestone.description ? { description: milestone.description } : {}),
+      state: milestone.state === 'active' ? 'open' : 'closed',
+      created_at: milestone.created_at,
+      updated_at: milestone.updated_at,
+      ...(milestone.due_date ? { due_on: milestone.due_date } : {}),
+    };
+  }
+
+  /**
+   * Normalize a commit, fetching its stats and per-file diff
+   */
+  private async normalizeCommit(commit: GitLabCommit): Promise<GitHubCommit> {
+    const commitPath = `${this.projectPath}/repository/commits/${commit.id}`;
+    let stats = commit.stats;
+    let files: GitHubFile[] | undefined;
+
+    try {
+      const [detail, diffs] = await Promise.all([
+        this.client.getJson<GitLabCommit>(commitPath, { stats: true }),
+        this.getAllPages<GitLabDiff>(`${commitPath}/diff`),
+      ]);
+      stats = detail.data.stats || stats;
+      files = diffs.map(diff => this.normalizeDiff(diff));
+    } catch (error) {
+      console.warn(`Failed to fetch stats for commit ${commit.id}:`, error);
+    }
+
+    return {
+      sha: commit.id,
+      commit: {
+        author: { name: commit.author_name, email: commit.author_email, date: commit.authored_date },
+        committer: { name: commit.committer_name, email: commit.committer_email, date: commit.committed_date },
+        message: commit.message,
+        tree: { sha: '', url: '' },
+        url: commit.web_url,
+        comment_count: 0,
+      },
+      url: commit.web_url,
+      html_url: commit.web_url,
+      comments_url: '',
+      author: toUser({ id: commit.author_email.toLowerCase(), login: commit.author_name, name: commit.author_name, email: commit.author_email }),
+      committer: toUser({ id: commit.committer_email.toLowerCase(), login: commit.committer_name, name: commit.committer_name, email: commit.committer_email }),
+      parents: (commit.parent_ids || []).map(sha => ({ sha, url: '', html_url: '' })),
+      ...(stats ? { stats } : {}),
+      ...(files ? { files } : {}),
+    };
+  }
+
+  private normalizeDiff(diff: GitLabDiff): GitHubFile {
+    const patch = diff.diff ? diff.diff.replace(/\n$/, '') : undefined;
+    const { additions, deletions } = countPatchChanges(patch);
+    const status: GitHubFile['status'] = diff.new_file
+      ? 'added'
+      : diff.deleted_file
+        ? 'removed'
+        : diff.renamed_file
+          ? 'renamed'
+          : 'modified';
+
+    return {
+      filename: diff.new_path,
+      status,
+      additions,
+      deletions,
+      changes: additions + deletions,
+      ...(patch ? { patch } : {}),
+      ...(diff.renamed_file ? { previous_filename: diff.old_path } : {}),
+    };
+  }
+
+  /**
+   * Diff notes become review comments; replies point at the first note of their discussion
+   */
+  private normalizeReviewComments(
+    notes: Array<{ note: GitLabNote; discussion: GitLabDiscussion; index: number }>,
+    mr: GitLabMergeRequest
+  ): GitHubReviewComment[] {
+    return notes
+      .filter(({ note }) => !note.system && note.type === 'DiffNote' && note.position)
+      .map(({ note, discussion, index }) => {
+        const position = note.position!;
+        const onNewSide = position.new_line !== null;
+
+        return {
+          id: note.id,
+          diff_hunk: '',
+          path: position.new_path || position.old_path,
+          commit_id: position.head_sha,
+          original_commit_id: position.head_sha,
+          user: this.normalizeUser(note.author),
+          body: note.body,
+          created_at: note.created_at,
+          updated_at: note.updated_at,
+          html_url: `${mr.web_url}#note_${note.id}`,
+          pull_request_url: mr.web_url,
+          author_association: 'NONE',
+          ...(index > 0 ? { in_reply_to_id: discussion.notes[0].id } : {}),
+          ...(onNewSide ? { line: position.new_line! } : { line: position.old_line! }),
+          side: onNewSide ? 'RIGHT' as const : 'LEFT' as const,
+        };
+      });
+  }
+
+  private normalizeIssueComments(
+    notes: Array<{ note: GitLabNote; discussion: GitLabDiscussion; index: number }>,
+    mr: GitLabMergeRequest
+  ): GitHubIssueComment[] {
+    return notes
+      .filter(({ note }) => !note.system && note.type !== 'DiffNote')
+      .map(({ note }) => ({
+        id: note.id,
+        user: this.normalizeUser(note.author),
+        created_at: note.created_at,
+        updated_at: note.updated_at,
+        author_association: 'NONE',
+        body: note.body,
+        html_url: `${mr.web_url}#note_${note.id}`,
+        issue_url: mr.web_url,
+      }));
+  }
+
+  /**
+   * Approvals become APPROVED reviews, timed by their system note when available
+   */
+  private normalizeApprovals(
+    approvals: GitLabApprovals | null,
+    notes: Array<{ note: GitLabNote }>,
+    mr: GitLabMergeRequest
+  ): GitHubReview[] {
+    if (!approvals) {
+      return [];
+    }
+
+    return approvals.approved_by.map(({ user, approved_at }) => {
+      const approvalNote = notes.find(({ note }) =>
+        note.system && note.author.id === user.id && note.body.startsWith('approved this merge request')
+      );
+
+      return {
+        id: approvalNote?.note.id || user.id,
+        user: this.normalizeUser(user),
+        state: 'APPROVED' as const,
+        html_url: mr.web_url,
+        pull_request_url: mr.web_url,
+        author_association: 'NONE',
+        submitted_at: approved_at || approvalNote?.note.created_at || approvals.updated_at || mr.updated_at,
+        commit_id: mr.sha,
+      };
+    });
+  }
+
+  /**
+   * System notes and pipelines become timeline events
+   */
+  private normalizeTimeline(
+    notes: Array<{ note: GitLabNote }>,
+    pipelines: GitLabPipeline[],
+    mr: GitLabMergeRequest
+  ): GitHubTimelineEvent[] {
+    const events: GitHubTimelineEvent[] = notes
+      .filter(({ note }) => note.system)
+      .map(({ note }) => {
+        const match = SYSTEM_NOTE_EVENTS.find(([pattern]) => pattern.test(note.body));
+        const event = match ? match[1] : 'commented';
+
+        return {
+          id: note.id,
+          event,
+          created_at: note.created_at,
+          actor: this.normalizeUser(note.author),
+          body: note.body,
+          ...(event === 'reviewed' ? { state: 'approved' } : {}),
+        };
+      });
+
+    pipelines.forEach(pipeline => {
+      events.push({
+        id: pipeline.id,
+        event: 'pipeline',
+        created_at: pipeline.created_at,
+        commit_id: pipeline.sha,
+        state: pipeline.status,
+        html_url: pipeline.web_url,
+      });
+    });
+
+    if (mr.merged_at) {
+      const mergedBy = mr.merged_by || mr.merge_user;
+      events.push({
+        event: 'merged',
+        created_at: mr.merged_at,
+        ...(mergedBy ? { actor: this.normalizeUser(mergedBy) } : {}),
+        ...(mr.merge_commit_sha ? { commit_id: mr.merge_commit_sha } : {}),
+      });
+    }
+
+    return events.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Minimal JSON/text HTTP client for non-GitHub hosting providers
+ */
+
+import { DataSourceError, DataSourceKind } from './types';
+
+export interface ProviderHttpConfig {
+  source: DataSourceKind;
+  baseUrl: string;
+  headers: Record<string, string>;
+  fetchImpl?: typeof fetch;
+}
+
+export interface ProviderResponse<T> {
+  data: T;
+  status: number;
+  headers: Headers;
+}
+
+export class ProviderApiClient {
+  private fetchImpl: typeof fetch;
+
+  constructor(private config: ProviderHttpConfig) {
+    this.fetchImpl = config.fetchImpl || ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Resolve an endpoint against the base URL, appending query parameters
+   */
+  buildUrl(endpoint: string, query: Record<string, string | number | boolean> = {}): string {
+    const url = new URL(
+      endpoint.startsWith('http') ? endpoint : `${this.config.baseUrl.replace(/\/$/, '')}${endpoint}`
+    );
+    Object.entries(query).forEach(([key, value]) => url.searchParams.set(key, String(value)));
+    return url.toString();
+  }
+
+  /**
+   * GET a JSON document
+   */
+  async getJson<T>(
+    endpoint: string,
+    query: Record<string, string | number | boolean> = {}
+  ): Promise<ProviderResponse<T>> {
+    const response = await this.send(this.buildUrl(endpoint, query), 'application/json');
+    return {
+      data: await response.json() as T,
+      status: response.status,
+      headers: response.headers,
+    };
+  }
+
+  /**
+   * GET a plain-text document such as a raw diff
+   */
+  async getText(endpoint: string, query: Record<string, string | number | boolean> = {}): Promise<string> {
+    const response = await this.send(this.buildUrl(endpoint, query), 'text/plain');
+    return response.text();
+  }
+
+  private async send(url: string, accept: string): Promise<Response> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, {
+        headers: { 'Accept': accept, 'User-Agent': 'git2video-pr-analyzer/1.0.0', ...this.config.headers },
+      });
+    } catch (error) {
+      throw new DataSourceError(
+        `Request to ${url} failed: ${(error as Error).message}`,
+        this.config.source,
+        error
+      );
+    }
+
+    if (!response.ok) {
+      const reason = response.status === 401 || response.status === 403
+        ? 'Authentication failed'
+        : response.status === 404
+          ? 'Resource not found'
+          : 'API request failed';
+
+      throw new DataSourceError(
+        `${reason} (HTTP ${response.status}) for ${url}`,
+        this.config.source,
+        undefined,
+        response.status
+      );
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Pluggable pull request data sources
+ * Select where PRVideoData comes from without changing the transformer, script generator or compositions
+ */
+
+import { BitbucketDataSource } from './bitbucket';
+import { GitHubDataSource, GitHubHistorySource, GitHubReleaseSource } from './github';
+import { GitLabDataSource } from './gitlab';
+import { LocalGitDataSource, LocalGitHistorySource } from './localGit';
+import { SnapshotDataSource } from './snapshot';
+import {
+  DataSourceConfig,
+  GitHubReleaseSourceConfig,
+  HistoryDataSource,
+  HistorySourceConfig,
+  PRDataSource,
+  ReleaseDataSource,
+} from './types';
+
+export * from './types';
+export * from './github';
+export * from './localGit';
+export * from './gitlab';
+export * from './bitbucket';
+export * from './snapshot';
+export * from './gitDiff';
+export * from './http';
+export * from './normalize';
+
+/**
+ * Create a data source from its configuration
+ */
+export function createDataSource(config: DataSourceConfig): PRDataSource {
+  switch (config.type) {
+    case 'github':
+      return new GitHubDataSource(config);
+    case 'local-git':
+      return new LocalGitDataSource(config);
+    case 'gitlab':
+      return new GitLabDataSource(config);
+    case 'bitbucket':
+      return new BitbucketDataSource(config);
+    case 'snapshot':
+      return new SnapshotDataSource(config);
+  }
+}
+
+/**
+ * Create the source for a release video; releases are enumerated through the GitHub compare and search APIs
+ */
+export function createReleaseSource(config: GitHubReleaseSourceConfig): ReleaseDataSource {
+  return new GitHubReleaseSource(config);
+}
+
+/**
+ * Create the source of a repository's history over a date window, for the team dashboards
+ */
+export function createHistorySource(config: HistorySourceConfig): HistoryDataSource {
+  return config.type === 'github' ? new GitHubHistorySource(config) : new LocalGitHistorySource(config);
+}
@@ -0,0 +1,495 @@
+/**
+ * Local git repository data sources
+ * Read a base..head range from a checked-out repository and synthesize PR data, or read its history over a date
+ * window, without network access
+ */
+
+import { execFile } from 'child_process';
+import path from 'path';
+import { PRDataAggregator } from '../github/aggregator';
+import {
+  FetchOptions,
+  GitHubBranch,
+  GitHubCommit,
+  GitHubFile,
+  GitHubPullRequest,
+  GitHubRepository,
+  GitHubUser,
+  HistoryPullRequest,
+  HistoryRelease,
+  HistoryWindow,
+  PRVideoData,
+  RepositoryHistory,
+} from '../github/types';
+import { parseUnifiedDiff } from './gitDiff';
+import { COMMIT_FETCH_CONCURRENCY, mapWithConcurrency, toUser } from './normalize';
+import {
+  DataSourceError,
+  HistoryDataSource,
+  LocalGitHistorySourceConfig,
+  LocalGitSourceConfig,
+  PRDataSource,
+} from './types';
+
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+const LOG_FORMAT = ['%H', '%P', '%an', '%ae', '%aI', '%cn', '%ce', '%cI', '%B'].join('%x1f') + '%x1e';
+const MAX_BUFFER = 256 * 1024 * 1024;
+
+interface RawCommit {
+  sha: string;
+  parents: string[];
+  authorName: string;
+  authorEmail: string;
+  authorDate: string;
+  committerName: string;
+  committerEmail: string;
+  committerDate: string;
+  message: string;
+}
+
+export class LocalGitDataSource implements PRDataSource {
+  readonly kind = 'local-git' as const;
+  private aggregator: PRDataAggregator;
+  private gitBinary: string;
+
+  constructor(private config: LocalGitSourceConfig) {
+    this.aggregator = new PRDataAggregator();
+    this.gitBinary = config.gitBinary || 'git';
+  }
+
+  describe(): string {
+    return `${path.basename(path.resolve(this.config.repoPath))} ${this.config.base}..${this.config.head}`;
+  }
+
+  /**
+   * Read the configured range and aggregate it into PRVideoData
+   */
+  async fetchPRData(options: FetchOptions = {}): Promise<PRVideoData> {
+    const { includeCommits = true, includeFiles = true } = options;
+
+    console.log(`Reading local git range ${this.describe()}...`);
+
+    const [baseSha, headSha] = await Promise.all([
+      this.resolveRevision(this.config.base),
+      this.resolveRevision(this.config.head),
+    ]);
+
+    const rawCommits = await this.readCommits(baseSha, headSha);
+    if (rawCommits.length === 0) {
+      throw new DataSourceError(
+        `No commits found between ${this.config.base} and ${this.config.head}`,
+        this.kind
+      );
+    }
+
+    const repository = await readRepository(this.gitBinary, this.config.repoPath);
+    const commits = includeCommits
+      ? await mapWithConcurrency(rawCommits, COMMIT_FETCH_CONCURRENCY, raw => this.buildCommit(raw))
+      : [];
+    const files = includeFiles ? await this.readFiles(baseSha, headSha) : [];
+    const pullRequest = this.buildPullRequest(rawCommits, files, repository, baseSha, headSha);
+
+    return this.aggregator.aggregate(
+      pullRequest,
+      repository,
+      commits,
+      files,
+      [],
+      [],
+      [],
+      []
+    );
+  }
+
+  /**
+   * Resolve a revision name to a full commit SHA
+   */
+  private async resolveRevision(revision: string): Promise<string> {
+    const output = await this.git(['rev-parse', '--verify', `${revision}^{commit}`]);
+    return output.trim();
+  }
+
+  /**
+   * Read commits reachable from head but not from base, oldest first
+   */
+  private async readCommits(baseSha: string, headSha: string): Promise<RawCommit[]> {
+    const output = await this.git([
+      'log',
+      '--reverse',
+      `--format=${LOG_FORMAT}`,
+      `${baseSha}..${headSha}`,
+    ]);
+
+    return parseLog(output);
+  }
+
+  /**
+   * Read the combined file changes of the range relative to the merge base
+   */
+  private async readFiles(baseSha: string, headSha: string): Promise<GitHubFile[]> {
+    const output = await this.git(['diff', '-M', '--no-color', '--no-ext-diff', `${baseSha}...${headSha}`]);
+    return parseUnifiedDiff(output);
+  }
+
+  /**
+   * Build a GitHub-shaped commit including per-file patches and stats; a merge is diffed against its first parent,
+   * as GitHub does, since `parseUnifiedDiff` can't read combined diffs
+   */
+  private async buildCommit(raw: RawCommit): Promise<GitHubCommit> {
+    const output = await this.git([
+      'show',
+      '-M',
+      '--diff-merges=first-parent',
+      '--no-color',
+      '--no-ext-diff',
+      '--format=',
+      raw.sha,
+    ]);
+    const files = parseUnifiedDiff(output);
+    const additions = files.reduce((sum, file) => sum + file.additions, 0);
+    const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+    return {
+      sha: raw.sha,
+      commit: {
+        author: { name: raw.authorName, email: raw.authorEmail, date: raw.authorDate },
+        committer: { name: raw.committerName, email: raw.committerEmail, date: raw.committerDate },
+        message: raw.message,
+        tree: { sha: '', url: '' },
+        url: '',
+        comment_count: 0,
+      },
+      url: '',
+      html_url: '',
+      comments_url: '',
+      author: gitUser(raw.authorName, raw.authorEmail),
+      committer: gitUser(raw.committerName, raw.committerEmail),
+      parents: raw.parents.map(sha => ({ sha, url: '', html_url: '' })),
+      stats: { total: additions + deletions, additions, deletions },
+      files,
+    };
+  }
+
+  /**
+   * Synthesize a pull request describing the range
+   */
+  private buildPullRequest(
+    rawCommits: RawCommit[],
+    files: GitHubFile[],
+    repository: GitHubRepository,
+    baseSha: string,
+    headSha: string
+  ): GitHubPullRequest {
+    const first = rawCommits[0];
+    const last = rawCommits[rawCommits.length - 1];
+    const author = gitUser(first.authorName, first.authorEmail);
+    const title = this.config.title || first.message.split('\n')[0];
+    const body = this.config.body ?? rawCommits.map(c => `- ${c.message.split('\n')[0]}`).join('\n');
+
+    return {
+      id: this.config.number || 0,
+      number: this.config.number || 0,
+      title,
+      body,
+      state: 'open',
+      merged: false,
+      draft: false,
+      user: author,
+      assignees: [],
+      reviewers: [],
+      labels: [],
+      base: this.buildBranch(this.config.base, baseSha, author, repository),
+      head: this.buildBranch(this.config.head, headSha, author, repository),
+      html_url: '',
+      created_at: first.authorDate,
+      updated_at: last.committerDate,
+      comments: 0,
+      review_comments: 0,
+      commits: rawCommits.length,
+      additions: files.reduce((sum, file) => sum + file.additions, 0),
+      deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+      changed_files: files.length,
+    };
+  }
+
+  private buildBranch(
+    ref: string,
+    sha: string,
+    user: GitHubUser,
+    repo: GitHubRepository
+  ): GitHubBranch {
+    return { label: ref, ref, sha, user, repo };
+  }
+
+  /**
+   * Run a git command inside the configured repository
+   */
+  private git(args: string[]): Promise<string> {
+    return runGit(this.gitBinary, this.config.repoPath, args);
+  }
+}
+
+/**
+ * Commits, merged pull requests and tags of a checked-out repository over a date window. Pull requests are
+ * recognised from GitHub and GitLab merge commit messages; issues, reviews and milestones do not exist in git
+ */
+export class LocalGitHistorySource implements HistoryDataSource {
+  readonly kind = 'local-git' as const;
+  private gitBinary: string;
+
+  constructor(private config: LocalGitHistorySourceConfig) {
+    this.gitBinary = config.gitBinary || 'git';
+  }
+
+  describe(): string {
+    return path.basename(path.resolve(this.config.repoPath));
+  }
+
+  /**
+   * Read the commits on HEAD in the window, the pull requests they merged and the tags created in it
+   */
+  async fetchHistory(window: HistoryWindow): Promise<RepositoryHistory> {
+    console.log(`Reading local git history of ${this.describe()} from ${window.since} to ${window.until}...`);
+
+    const repository = await readRepository(this.gitBinary, this.config.repoPath);
+    const rawCommits = parseLog(await this.git([
+      'log',
+      '--reverse',
+      `--since=${window.since}`,
+      `--until=${window.until}`,
+      `--format=${LOG_FORMAT}`,
+      'HEAD',
+    ]));
+
+    const pullRequests: HistoryPullRequest[] = [];
+    for (const raw of rawCommits) {
+      const pullRequest = await this.mergedPullRequest(raw);
+      if (pullRequest) {
+        pullRequests.push(pullRequest);
+      }
+    }
+
+    return {
+      repository: { fullName: repository.full_name, description: '', stars: 0, forks: 0, watchers: 0 },
+      window,
+      commits: rawCommits.map(raw => ({
+        sha: raw.sha,
+        author: gitUser(raw.authorName, raw.authorEmail),
+        authoredAt: raw.authorDate,
+        message: raw.message,
+        merge: raw.parents.length > 1,
+      })),
+      pullRequests,
+      issues: [],
+      milestones: [],
+      releases: await this.readTags(window),
+    };
+  }
+
+  /**
+   * The pull request a merge commit brought in: opened with the branch's first commit, sized by the merge's diff
+   * A squash or rebase merge is a single commit on the base branch, so it is both the first commit and the merge
+   */
+  private async mergedPullRequest(raw: RawCommit): Promise<HistoryPullRequest | null> {
+    const merged = raw.parents.length > 1
+      ? parseMergeMessage(raw.message)
+      : raw.parents.length === 1 ? parseSquashSubject(raw.message) : null;
+    if (!merged) {
+      return null;
+    }
+
+    const [base, head] = raw.parents;
+    const branch = head ? parseLog(await this.git(['log', '--reverse', `--format=${LOG_FORMAT}`, `${base}..${head}`])) : [];
+    const first = branch[0] || raw;
+    const stat = await this.git(['diff', '--shortstat', base, raw.sha]);
+    const count = (pattern: RegExp) => Number(stat.match(pattern)?.[1] || 0);
+
+    return {
+      number: merged.number,
+      title: merged.title,
+      author: gitUser(first.authorName, first.authorEmail),
+      labels: [],
+      state: 'merged',
+      createdAt: first.authorDate,
+      closedAt: raw.committerDate,
+      mergedAt: raw.committerDate,
+      additions: count(/(\d+) insertions?/),
+      deletions: count(/(\d+) deletions?/),
+      changedFiles: count(/(\d+) files? changed/),
+      reviews: [],
+    };
+  }
+
+  /**
+   * Tags created in the window, oldest first
+   */
+  private async readTags(window: HistoryWindow): Promise<HistoryRelease[]> {
+    const output = await this.git([
+      'for-each-ref',
+      '--sort=creatordate',
+      `--format=%(refname:short)${FIELD_SEPARATOR}%(creatordate:iso-strict)`,
+      'refs/tags',
+    ]);
+    const [since, until] = [Date.parse(window.since), Date.parse(window.until)];
+
+    return output
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => line.split(FIELD_SEPARATOR))
+      .filter(([, date]) => Date.parse(date) >= since && Date.parse(date) <= until)
+      .map(([tag, date]) => ({ tag, name: tag, publishedAt: date }));
+  }
+
+  private git(args: string[]): Promise<string> {
+    return runGit(this.gitBinary, this.config.repoPath, args);
+  }
+}
+
+/**
+ * Number and title of the pull request a merge commit message names, in GitHub's
+ * "Merge pull request #12 from ..." or GitLab's "See merge request group/project!12" form
+ */
+function parseMergeMessage(message: string): { number: number; title: string } | null {
+  const [subject, ...rest] = message.split('\n');
+  const number = subject.match(/^Merge pull request #(\d+)/)?.[1] || message.match(/See merge request \S*!(\d+)/)?.[1];
+  if (!number) {
+    return null;
+  }
+  const title = rest.map(line => line.trim()).find(line => line.length > 0 && !line.startsWith('See merge request'));
+  return { number: Number(number), title: title || subject };
+}
+
+/**
+ * Number and title of the pull request a squash or rebase merge names at the end of its subject, as in
+ * GitHub's "Add the widget module (#12)"
+ */
+function parseSquashSubject(message: string): { number: number; title: string } | null {
+  const match = message.split('\n')[0].match(/^(.*\S)\s+\(#(\d+)\)$/);
+  return match ? { number: Number(match[2]), title: match[1] } : null;
+}
+
+/**
+ * Describe a repository using its origin remote when available
+ */
+async function readRepository(gitBinary: string, repoPath: string): Promise<GitHubRepository> {
+  const git = (args: string[]) => runGit(gitBinary, repoPath, args);
+  let remoteUrl = '';
+  try {
+    remoteUrl = (await git(['config', '--get', 'remote.origin.url'])).trim();
+  } catch {
+    // Repositories without an origin remote fall back to the directory name
+  }
+
+  const [ownerName, repoName] = parseRemote(remoteUrl);
+  const name = repoName || path.basename(path.resolve(repoPath));
+  const owner = gitUser(ownerName || 'local', '');
+
+  let defaultBranch = 'main';
+  try {
+    defaultBranch = (await git(['symbolic-ref', '--short', 'HEAD'])).trim() || defaultBranch;
+  } catch {
+    // Detached HEAD
+  }
+
+  return {
+    id: 0,
+    name,
+    full_name: ownerName ? `${ownerName}/${name}` : name,
+    owner,
+    html_url: toWebUrl(remoteUrl),
+    private: true,
+    fork: false,
+    default_branch: defaultBranch,
+  };
+}
+
+/**
+ * Extract owner and repository name from an https or scp-style remote URL
+ */
+function parseRemote(remoteUrl: string): [string | undefined, string | undefined] {
+  const match = remoteUrl.match(/[/:]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/);
+  return match ? [match[1], match[2]] : [undefined, undefined];
+}
+
+function toWebUrl(remoteUrl: string): string {
+  if (remoteUrl.startsWith('http')) {
+    return remoteUrl.replace(/\.git$/, '');
+  }
+  const scp = remoteUrl.match(/^[^@]+@([^:]+):(.+?)(?:\.git)?$/);
+  return scp ? `https://${scp[1]}/${scp[2]}` : '';
+}
+
+/**
+ * Build a GitHub-shaped user from a git identity, using a stable id derived from the email
+ */
+function gitUser(name: string, email: string): GitHubUser {
+  const identity = (email || name).toLowerCase();
+
+  return toUser({
+    id: identity,
+    login: email ? email.split('@')[0] : name,
+    name,
+    email,
+    bot: identity.includes('[bot]'),
+  });
+}
+
+/**
+ * Run a git command inside a repository
+ */
+function runGit(gitBinary: string, repoPath: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      gitBinary,
+      ['-C', repoPath, ...args],
+      { maxBuffer: MAX_BUFFER, encoding: 'utf8' },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new DataSourceError(
+            `git ${args[0]} failed: ${(stderr || error.message).trim()}`,
+            'local-git',
+            error
+          ));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * Parse `git log --format=LOG_FORMAT` output
+ */
+function parseLog(output: string): RawCommit[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(record => record.replace(/^\n/, ''))
+    .filter(record => record.trim().length > 0)
+    .map(record => {
+      const [
+        sha,
+        parents,
+        authorName,
+        authorEmail,
+        authorDate,
+        committerName,
+        committerEmail,
+        committerDate,
+        message,
+      ] = record.split(FIELD_SEPARATOR);
+
+      return {
+        sha,
+        parents: parents ? parents.split(' ') : [],
+        authorName,
+        authorEmail,
+        authorDate,
+        committerName,
+        committerEmail,
+        committerDate,
+        message: (message || '').trim(),
+      };
+    });
+}
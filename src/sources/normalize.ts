@@ -0,0 +1,87 @@
+/**
+ * Helpers for mapping provider-specific records onto the GitHub-shaped types used by PRVideoData
+ */
+
+import { GitHubLabel, GitHubUser } from '../github/types';
+
+/**
+ * Derive a stable positive numeric id from a string identifier (uuid, email, label name)
+ */
+export function stableId(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Build a user from the fields every provider exposes in some form
+ */
+export function toUser(user: {
+  id: number | string;
+  login: string;
+  name?: string;
+  email?: string;
+  avatarUrl?: string;
+  htmlUrl?: string;
+  bot?: boolean;
+}): GitHubUser {
+  return {
+    id: typeof user.id === 'number' ? user.id : stableId(user.id),
+    login: user.login,
+    avatar_url: user.avatarUrl || '',
+    html_url: user.htmlUrl || '',
+    type: user.bot ? 'Bot' : 'User',
+    ...(user.name ? { name: user.name } : {}),
+    ...(user.email ? { email: user.email } : {}),
+  };
+}
+
+/**
+ * Build a label from a bare name and optional color
+ */
+export function toLabel(name: string, color?: string, description?: string): GitHubLabel {
+  return {
+    id: stableId(name),
+    name,
+    color: (color || 'cccccc').replace(/^#/, ''),
+    ...(description ? { description } : {}),
+  };
+}
+
+/**
+ * Parse a git identity of the form `Name <email>`
+ */
+export function parseGitIdentity(raw: string): { name: string; email: string } {
+  const match = raw.match(/^(.*?)\s*<([^>]*)>\s*$/);
+  return match
+    ? { name: match[1].trim(), email: match[2].trim() }
+    : { name: raw.trim(), email: '' };
+}
+
+/**
+ * Per-commit requests (or `git show` processes) a source runs at once
+ */
+export const COMMIT_FETCH_CONCURRENCY = 4;
+
+/**
+ * Map items through an async function with at most `limit` calls in flight, keeping the input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  map: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await map(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,165 @@
+/**
+ * Versioned PRVideoData snapshots for offline rendering and regression fixtures
+ * Snapshots are written with sorted keys so re-capturing an unchanged PR produces an identical file
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { FetchOptions, PRVideoData } from '../github/types';
+import { DataSourceError, DataSourceKind, PRDataSource, SnapshotSourceConfig } from './types';
+
+export const SNAPSHOT_FORMAT = 'git2video/pr-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+type TimelineStats = PRVideoData['timelineStats'];
+
+/**
+ * PRVideoData as stored on disk: timeline dates become ISO strings
+ */
+export type SerializedPRVideoData = Omit<PRVideoData, 'timelineStats'> & {
+  timelineStats: { [K in keyof TimelineStats]: TimelineStats[K] extends Date | undefined ? string : TimelineStats[K] };
+};
+
+export interface PRSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  /** Where the data was captured from */
+  source: { kind: DataSourceKind; description: string };
+  data: SerializedPRVideoData;
+}
+
+const TIMELINE_DATE_FIELDS = ['createdAt', 'firstReviewAt', 'lastUpdateAt', 'mergedAt', 'closedAt'] as const;
+
+/**
+ * Wrap PRVideoData in a versioned snapshot envelope
+ */
+export function createSnapshot(data: PRVideoData, source: PRSnapshot['source']): PRSnapshot {
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    source,
+    // JSON round trip turns Dates into ISO strings and drops undefined fields
+    data: JSON.parse(JSON.stringify(data)),
+  };
+}
+
+/**
+ * Serialize a snapshot with sorted object keys and a trailing newline
+ */
+export function serializeSnapshot(snapshot: PRSnapshot): string {
+  return `${JSON.stringify(sortKeys(snapshot), null, 2)}\n`;
+}
+
+/**
+ * Parse and validate a snapshot, reviving timeline dates
+ */
+export function parseSnapshot(text: string, origin = 'snapshot'): { source: PRSnapshot['source']; data: PRVideoData } {
+  let snapshot: PRSnapshot;
+  try {
+    snapshot = JSON.parse(text);
+  } catch (error) {
+    throw new DataSourceError(`${origin} is not valid JSON: ${(error as Error).message}`, 'snapshot', error);
+  }
+
+  if (!snapshot || snapshot.format !== SNAPSHOT_FORMAT) {
+    throw new DataSourceError(`${origin} is not a ${SNAPSHOT_FORMAT} file`, 'snapshot');
+  }
+  if (!Number.isInteger(snapshot.version) || snapshot.version < 1 || snapshot.version > SNAPSHOT_VERSION) {
+    throw new DataSourceError(
+      `${origin} has snapshot version ${snapshot.version}; this build reads versions 1-${SNAPSHOT_VERSION}`,
+      'snapshot'
+    );
+  }
+  if (!snapshot.data?.pullRequest || !snapshot.data.timelineStats) {
+    throw new DataSourceError(`${origin} is missing pull request data`, 'snapshot');
+  }
+
+  return { source: snapshot.source, data: reviveSnapshotData(snapshot.data, origin) };
+}
+
+/**
+ * Restore Date objects in timelineStats
+ */
+export function reviveSnapshotData(data: SerializedPRVideoData, origin = 'snapshot'): PRVideoData {
+  const timelineStats: Record<string, unknown> = { ...data.timelineStats };
+
+  TIMELINE_DATE_FIELDS.forEach(field => {
+    const value = timelineStats[field];
+    if (value === undefined || value === null) {
+      delete timelineStats[field];
+      return;
+    }
+
+    const date = new Date(value as string);
+    if (Number.isNaN(date.getTime())) {
+      throw new DataSourceError(`${origin} has an invalid date in timelineStats.${field}: ${value}`, 'snapshot');
+    }
+    timelineStats[field] = date;
+  });
+
+  return { ...data, timelineStats: timelineStats as unknown as TimelineStats };
+}
+
+/**
+ * Write a snapshot file, creating parent directories; returns the absolute path
+ */
+export function writeSnapshot(file: string, data: PRVideoData, source: PRSnapshot['source']): string {
+  const output = path.resolve(file);
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, serializeSnapshot(createSnapshot(data, source)));
+  return output;
+}
+
+/**
+ * Read a snapshot file
+ */
+export function readSnapshot(file: string): { source: PRSnapshot['source']; data: PRVideoData } {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new DataSourceError(`Cannot read snapshot ${file}: ${(error as Error).message}`, 'snapshot', error);
+  }
+  return parseSnapshot(text, file);
+}
+
+/**
+ * Data source that replays a saved snapshot instead of calling an API
+ */
+export class SnapshotDataSource implements PRDataSource {
+  readonly kind = 'snapshot' as const;
+
+  constructor(private config: SnapshotSourceConfig) {}
+
+  describe(): string {
+    return this.config.path;
+  }
+
+  async fetchPRData(options: FetchOptions = {}): Promise<PRVideoData> {
+    const { source, data } = readSnapshot(this.config.path);
+    console.log(`Replaying ${source.kind} snapshot of ${source.description}`);
+
+    return {
+      ...data,
+      ...(options.includeCommits === false ? { commits: [] } : {}),
+      ...(options.includeFiles === false ? { files: [] } : {}),
+      ...(options.includeReviews === false ? { reviews: [] } : {}),
+      ...(options.includeComments === false ? { reviewComments: [], issueComments: [] } : {}),
+      ...(options.includeTimeline === false ? { timeline: [] } : {}),
+    };
+  }
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
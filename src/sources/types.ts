@@ -0,0 +1,179 @@
+/**
+ * Shared interfaces for pluggable pull request data sources
+ * Every source produces the same PRVideoData shape consumed by the transformer and compositions
+ */
+
+import {
+  FetchOptions,
+  GitHubAppAuthOptions,
+  GitHubCacheOptions,
+  HistoryFetchOptions,
+  HistoryWindow,
+  PRVideoData,
+  ReleaseData,
+  ReleaseFetchOptions,
+  ReleaseRange,
+  RepositoryHistory,
+} from '../github/types';
+
+/**
+ * A provider of video-ready pull request data
+ */
+export interface PRDataSource {
+  /** Source identifier used in logs and diagnostics */
+  readonly kind: DataSourceKind;
+  /** Human-readable description of what is being fetched */
+  describe(): string;
+  /** Fetch and aggregate the pull request data */
+  fetchPRData(options?: FetchOptions): Promise<PRVideoData>;
+}
+
+/**
+ * A provider of every pull request merged in a release
+ */
+export interface ReleaseDataSource {
+  readonly kind: DataSourceKind;
+  describe(): string;
+  /** Enumerate the release's merged pull requests and fetch each one */
+  fetchReleaseData(options?: ReleaseFetchOptions): Promise<ReleaseData>;
+}
+
+/**
+ * A provider of a repository's commits, pull requests, issues and milestones over a date window
+ */
+export interface HistoryDataSource {
+  readonly kind: DataSourceKind;
+  describe(): string;
+  fetchHistory(window: HistoryWindow, options?: HistoryFetchOptions): Promise<RepositoryHistory>;
+}
+
+export type DataSourceKind = 'github' | 'local-git' | 'gitlab' | 'bitbucket' | 'snapshot';
+
+/**
+ * Configuration for the GitHub REST API source
+ */
+export interface GitHubSourceConfig {
+  type: 'github';
+  /** Personal access token; omit when `app` is set */
+  token?: string;
+  /** GitHub App installation credentials */
+  app?: GitHubAppAuthOptions;
+  owner: string;
+  repo: string;
+  prNumber: number;
+  baseUrl?: string;
+  /** On-disk ETag cache for API responses; omit to always fetch */
+  cache?: GitHubCacheOptions;
+}
+
+/**
+ * Configuration for a GitHub release: the pull requests merged between two tags or in a milestone
+ */
+export interface GitHubReleaseSourceConfig extends Omit<GitHubSourceConfig, 'prNumber'> {
+  range: ReleaseRange;
+}
+
+/**
+ * Configuration for reading a GitHub repository's history
+ */
+export type GitHubHistorySourceConfig = Omit<GitHubSourceConfig, 'prNumber'>;
+
+/**
+ * Configuration for reading the history of a checked-out repository: commits, pull requests merged with merge
+ * commits, and tags
+ */
+export interface LocalGitHistorySourceConfig {
+  type: 'local-git';
+  repoPath: string;
+  gitBinary?: string;
+}
+
+export type HistorySourceConfig = GitHubHistorySourceConfig | LocalGitHistorySourceConfig;
+
+/**
+ * Configuration for reading a base..head range from a checked-out repository
+ */
+export interface LocalGitSourceConfig {
+  type: 'local-git';
+  /** Path to the repository working tree */
+  repoPath: string;
+  /** Base revision (branch, tag or SHA) */
+  base: string;
+  /** Head revision (branch, tag or SHA) */
+  head: string;
+  /** Title to use for the synthesized pull request (defaults to the first commit subject) */
+  title?: string;
+  /** Description to use for the synthesized pull request */
+  body?: string;
+  /** Number to use for the synthesized pull request */
+  number?: number;
+  /** Path to the git executable */
+  gitBinary?: string;
+}
+
+/**
+ * Configuration for a GitLab merge request (gitlab.com or self-hosted)
+ */
+export interface GitLabSourceConfig {
+  type: 'gitlab';
+  token: string;
+  /** Full project path, e.g. `group/subgroup/project`, or the numeric project id */
+  project: string;
+  /** Merge request IID (the number shown in the UI) */
+  mergeRequestIid: number;
+  /** API base URL (default: https://gitlab.com/api/v4) */
+  baseUrl?: string;
+  /** Fetch implementation override, used for recorded fixtures in tests */
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Configuration for a Bitbucket Cloud pull request
+ */
+export interface BitbucketSourceConfig {
+  type: 'bitbucket';
+  workspace: string;
+  repoSlug: string;
+  prId: number;
+  /** Repository/workspace access token sent as a bearer token */
+  token?: string;
+  /** Username for app-password authentication */
+  username?: string;
+  /** App password for basic authentication */
+  appPassword?: string;
+  /** API base URL (default: https://api.bitbucket.org/2.0) */
+  baseUrl?: string;
+  /** Fetch implementation override, used for recorded fixtures in tests */
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Configuration for replaying a saved PRVideoData snapshot
+ */
+export interface SnapshotSourceConfig {
+  type: 'snapshot';
+  /** Path to a snapshot written by `writeSnapshot` or `git2video fetch --save-snapshot` */
+  path: string;
+}
+
+export type DataSourceConfig =
+  | GitHubSourceConfig
+  | LocalGitSourceConfig
+  | GitLabSourceConfig
+  | BitbucketSourceConfig
+  | SnapshotSourceConfig;
+
+/**
+ * Error raised when a data source cannot produce pull request data
+ */
+export class DataSourceError extends Error {
+  constructor(
+    message: string,
+    public source: DataSourceKind,
+    public cause?: unknown,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'DataSourceError';
+  }
+}
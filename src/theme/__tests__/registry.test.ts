@@ -0,0 +1,74 @@
+/**
+ * Tests for the theme registry and the colors video metadata carries
+ */
+
+import {
+  BUILT_IN_THEMES,
+  darkTheme,
+  defaultThemeRegistry,
+  lightTheme,
+  minimalTheme,
+  ThemeDefinitionError,
+  ThemeRegistry,
+  themeColors,
+  toVideoTheme,
+} from '..';
+
+describe('ThemeRegistry', () => {
+  it('should ship light, dark and high-contrast themes alongside the video styles', () => {
+    expect(defaultThemeRegistry.list().map(theme => theme.id)).toEqual([
+      'light',
+      'dark',
+      'high-contrast',
+      'modern',
+      'corporate',
+      'minimal',
+    ]);
+    expect(defaultThemeRegistry.get('high-contrast')?.appearance).toBe('high-contrast');
+  });
+
+  it('should replace a theme registered under the same id', () => {
+    const registry = new ThemeRegistry(BUILT_IN_THEMES).register({ ...darkTheme, name: 'Midnight' });
+
+    expect(registry.resolve('dark').name).toBe('Midnight');
+    expect(defaultThemeRegistry.resolve('dark').name).toBe('Dark');
+  });
+
+  it('should name the registered themes when an id is unknown', () => {
+    const registry = new ThemeRegistry([lightTheme, darkTheme]);
+
+    expect(() => registry.resolve('solarized')).toThrow(ThemeDefinitionError);
+    expect(() => registry.resolve('solarized')).toThrow('Unknown theme "solarized" (available: light, dark)');
+  });
+});
+
+describe('toVideoTheme', () => {
+  it('should carry the palette as metadata colors along with the full theme colors', () => {
+    const theme = toVideoTheme(minimalTheme);
+
+    expect(theme).toMatchObject({
+      id: 'minimal',
+      primaryColor: '#6366F1',
+      secondaryColor: '#8B5CF6',
+      backgroundColor: '#FFFFFF',
+      textColor: '#111827',
+      style: 'minimal',
+    });
+    expect(theme.colors?.syntax).toBe(minimalTheme.syntax);
+  });
+});
+
+describe('themeColors', () => {
+  it('should use the colors a video theme carries', () => {
+    expect(themeColors(toVideoTheme(darkTheme)).palette.background).toBe(darkTheme.palette.background);
+  });
+
+  it('should look older metadata up by id, then style, then default to the light theme', () => {
+    const legacy = { primaryColor: '#000', secondaryColor: '#000', backgroundColor: '#000', textColor: '#fff' };
+
+    expect(themeColors({ ...legacy, id: 'dark', style: 'minimal' }).syntax).toBe(darkTheme.syntax);
+    expect(themeColors({ ...legacy, style: 'corporate' }).palette.primary).toBe('#2E86AB');
+    expect(themeColors({ ...legacy, style: 'classic' }).diff).toBe(lightTheme.diff);
+    expect(themeColors().syntax).toBe(lightTheme.syntax);
+  });
+});
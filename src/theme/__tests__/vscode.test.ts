@@ -0,0 +1,165 @@
+/**
+ * Tests for importing VS Code color themes
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { darkTheme, lightTheme, loadVSCodeTheme, parseVSCodeTheme, ThemeDefinitionError } from '..';
+
+const parseError = (source: string, origin = 'broken-color-theme.json'): ThemeDefinitionError => {
+  try {
+    parseVSCodeTheme(source, origin);
+  } catch (error) {
+    return error as ThemeDefinitionError;
+  }
+  throw new Error('expected the theme to be rejected');
+};
+
+describe('parseVSCodeTheme', () => {
+  it('should map workbench colors and token colors onto a theme', () => {
+    const theme = parseVSCodeTheme(
+      JSON.stringify({
+        name: 'Night Owl',
+        type: 'dark',
+        colors: {
+          'editor.background': '#011627',
+          'editor.foreground': '#D6DEEB',
+          'button.background': '#7E57C2',
+          'diffEditor.insertedTextBackground': '#99B76D23',
+        },
+        tokenColors: [
+          { scope: ['comment', 'punctuation.definition.comment'], settings: { foreground: '#637777', fontStyle: 'italic' } },
+          { scope: 'string', settings: { foreground: '#ECC48D' } },
+          { scope: 'keyword', settings: { foreground: '#C792EA' } },
+          { scope: 'keyword.operator', settings: { foreground: '#7FDBCA' } },
+        ],
+      }),
+      'night-owl-color-theme.json'
+    );
+
+    expect(theme).toMatchObject({ id: 'night-owl', name: 'Night Owl', appearance: 'dark', style: 'modern' });
+    expect(theme.palette).toMatchObject({ background: '#011627', surface: '#011627', text: '#D6DEEB', primary: '#7E57C2' });
+    expect(theme.syntax).toMatchObject({
+      comment: '#637777',
+      string: '#ECC48D',
+      keyword: '#C792EA',
+      operator: '#7FDBCA',
+      identifier: '#D6DEEB',
+      // Nothing in the file colors types, so they come from the built-in dark theme
+      type: darkTheme.syntax.type,
+    });
+    expect(theme.diff.addedBackground).toBe('#99B76D23');
+    expect(theme.diff.removed).toBe(darkTheme.diff.removed);
+  });
+
+  it('should prefer the most specific scope and let later rules win ties', () => {
+    const theme = parseVSCodeTheme(
+      JSON.stringify({
+        type: 'light',
+        tokenColors: [
+          { scope: 'entity.name.function', settings: { foreground: '#111111' } },
+          { scope: 'entity', settings: { foreground: '#222222' } },
+          { scope: 'entity.name.function', settings: { foreground: '#333333' } },
+          { scope: 'source.js entity.name.tag', settings: { foreground: '#444444' } },
+        ],
+      }),
+      'Plain.json'
+    );
+
+    expect(theme.syntax.function).toBe('#333333');
+    expect(theme.syntax.tag).toBe('#222222');
+    expect(theme).toMatchObject({ id: 'plain', appearance: 'light', style: 'minimal' });
+  });
+
+  it('should accept comments and trailing commas', () => {
+    const theme = parseVSCodeTheme(
+      [
+        '{',
+        '  // A theme with a "quoted" name',
+        '  "name": "Slash // Star /* Theme",',
+        '  /* ignored */ "type": "hc-black",',
+        '  "colors": { "editor.background": "#000000", },',
+        '}',
+      ].join('\n'),
+      'slash.jsonc'
+    );
+
+    expect(theme.name).toBe('Slash // Star /* Theme');
+    expect(theme.appearance).toBe('high-contrast');
+  });
+
+  it('should tell light from dark by the background when the type is missing', () => {
+    expect(parseVSCodeTheme('{"colors": {"editor.background": "#FAFAFA"}}', 'a.json').appearance).toBe('light');
+    expect(parseVSCodeTheme('{"colors": {"editor.background": "#1E1E1E"}}', 'b.json').appearance).toBe('dark');
+    expect(parseVSCodeTheme('{}', 'c.json').diff).toEqual(darkTheme.diff);
+  });
+
+  it('should merge included files under the including one', () => {
+    const files: Record<string, string> = {
+      [path.join('themes', 'base.json')]: JSON.stringify({
+        type: 'light',
+        colors: { 'editor.background': '#FFFFFF', 'editor.foreground': '#000000' },
+        tokenColors: [{ scope: 'string', settings: { foreground: '#A31515' } }],
+      }),
+      [path.join('themes', 'rules', 'tokens.json')]: JSON.stringify({
+        tokenColors: [{ scope: 'keyword', settings: { foreground: '#0000FF' } }],
+      }),
+    };
+    const readInclude = jest.fn((file: string) => files[file]);
+
+    const theme = parseVSCodeTheme(
+      JSON.stringify({ name: 'Child', include: './base.json', colors: { 'editor.background': '#FFFFF0' }, tokenColors: 'rules/tokens.json' }),
+      path.join('themes', 'child.json'),
+      { id: 'custom', readInclude }
+    );
+
+    expect(theme).toMatchObject({ id: 'custom', name: 'Child', appearance: 'light' });
+    expect(theme.palette).toMatchObject({ background: '#FFFFF0', text: '#000000' });
+    expect(theme.syntax).toMatchObject({ string: '#A31515', keyword: '#0000FF' });
+  });
+
+  it('should reject includes it cannot read and include cycles', () => {
+    expect(parseError('{"include": "base.json"}').message).toContain("includes base.json, which can't be read here");
+
+    const cycle = () => parseVSCodeTheme('{"include": "self.json"}', 'self.json', { readInclude: () => '{"include": "self.json"}' });
+    expect(cycle).toThrow(/nests includes more than 8 deep/);
+  });
+
+  it('should report malformed and invalid files', () => {
+    expect(parseError('{"name": ').message).toMatch(/^broken-color-theme\.json could not be parsed/);
+
+    const invalid = parseError(JSON.stringify({ tokenColors: [{ scope: 'string' }] }));
+    expect(invalid).toBeInstanceOf(ThemeDefinitionError);
+    expect(invalid.origin).toBe('broken-color-theme.json');
+    expect(invalid.issues).toEqual(['tokenColors[0].settings: Required']);
+
+    expect(parseError('<plist/>', 'Monokai.tmTheme').message).toContain('is a TextMate theme');
+  });
+});
+
+describe('loadVSCodeTheme', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vscode-theme-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read a theme and the files it includes from disk', () => {
+    fs.writeFileSync(path.join(directory, 'base.json'), JSON.stringify({ type: 'vs', colors: { 'editor.foreground': '#222222' } }));
+    fs.writeFileSync(path.join(directory, 'theme.json'), JSON.stringify({ name: 'Paper', include: 'base.json' }));
+
+    const theme = loadVSCodeTheme(path.join(directory, 'theme.json'));
+
+    expect(theme).toMatchObject({ id: 'paper', appearance: 'light' });
+    expect(theme.palette).toMatchObject({ text: '#222222', background: lightTheme.palette.background });
+  });
+
+  it('should report a missing file', () => {
+    expect(() => loadVSCodeTheme(path.join(directory, 'missing.json'))).toThrow(/^Cannot read theme .*missing\.json/);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * CSS custom properties set on a video's root element
+ * A brand kit sets them (see `src/brand`); components read fonts and accent colors through these helpers and fall
+ * back to the defaults when no kit is applied
+ */
+
+export const CSS_VARIABLES = {
+  headingFont: '--git2video-font-heading',
+  bodyFont: '--git2video-font-body',
+  primary: '--git2video-color-primary',
+  secondary: '--git2video-color-secondary',
+} as const;
+
+const SANS_SERIF = '"Inter", "SF Pro Display", -apple-system, BlinkMacSystemFont, sans-serif';
+const SYSTEM_UI = '-apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif';
+
+export const fontStacks = {
+  /** Text in the PR components and compositions */
+  body: `var(${CSS_VARIABLES.bodyFont}, ${SANS_SERIF})`,
+  heading: `var(${CSS_VARIABLES.headingFont}, var(${CSS_VARIABLES.bodyFont}, ${SANS_SERIF}))`,
+  /** Text in the dashboard organisms, which default to the system font */
+  dashboard: `var(${CSS_VARIABLES.bodyFont}, ${SYSTEM_UI})`,
+  dashboardHeading: `var(${CSS_VARIABLES.headingFont}, var(${CSS_VARIABLES.bodyFont}, ${SYSTEM_UI}))`,
+};
+
+/**
+ * The brand's accent color, else `fallback`
+ */
+export function brandColor(name: 'primary' | 'secondary', fallback: string): string {
+  return `var(${CSS_VARIABLES[name]}, ${fallback})`;
+}
@@ -0,0 +1,10 @@
+/**
+ * Color themes for videos, code and diffs
+ */
+
+export * from './colors';
+export * from './types';
+export * from './themes';
+export * from './cssVariables';
+export * from './registry';
+export * from './vscode';
@@ -0,0 +1,79 @@
+/**
+ * Theme registry
+ * Themes are registered by id; video metadata carries the chosen one as a `VideoTheme`, and components look their
+ * colors up from it
+ */
+
+import { BUILT_IN_THEMES, lightTheme } from './themes';
+import { Theme, ThemeColors, ThemeDefinitionError, VideoTheme } from './types';
+
+export class ThemeRegistry {
+  private themes = new Map<string, Theme>();
+
+  constructor(themes: Theme[] = []) {
+    themes.forEach(theme => this.register(theme));
+  }
+
+  /**
+   * Add a theme, replacing any registered under the same id
+   */
+  register(theme: Theme): this {
+    this.themes.set(theme.id, theme);
+    return this;
+  }
+
+  get(id: string): Theme | undefined {
+    return this.themes.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.themes.has(id);
+  }
+
+  /**
+   * Registered themes in the order they were added
+   */
+  list(): Theme[] {
+    return [...this.themes.values()];
+  }
+
+  /**
+   * The theme registered under an id, or an error naming the ones that are
+   */
+  resolve(id: string): Theme {
+    const theme = this.themes.get(id);
+    if (!theme) {
+      throw new ThemeDefinitionError(`Unknown theme "${id}" (available: ${[...this.themes.keys()].join(', ')})`, id);
+    }
+    return theme;
+  }
+}
+
+export const defaultThemeRegistry = new ThemeRegistry(BUILT_IN_THEMES);
+
+/**
+ * The theme as carried in video metadata
+ */
+export function toVideoTheme(theme: Theme): VideoTheme {
+  return {
+    id: theme.id,
+    primaryColor: theme.palette.primary,
+    secondaryColor: theme.palette.secondary,
+    backgroundColor: theme.palette.background,
+    textColor: theme.palette.text,
+    style: theme.style,
+    colors: { palette: theme.palette, syntax: theme.syntax, diff: theme.diff },
+  };
+}
+
+/**
+ * Component colors for a video theme: its own, else those of the registered theme matching its id or style, else
+ * the light theme's
+ */
+export function themeColors(theme?: VideoTheme, registry: ThemeRegistry = defaultThemeRegistry): ThemeColors {
+  if (theme?.colors) {
+    return theme.colors;
+  }
+  const registered = (theme?.id && registry.get(theme.id)) || (theme && registry.get(theme.style)) || lightTheme;
+  return { palette: registered.palette, syntax: registered.syntax, diff: registered.diff };
+}
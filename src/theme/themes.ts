@@ -0,0 +1,150 @@
+/**
+ * Built-in themes
+ * `light`, `dark` and `high-contrast` are the general-purpose themes; `modern`, `corporate` and `minimal` are the
+ * video themes the PR transformer picks from the primary language when no theme is chosen
+ */
+
+import { colors } from './colors';
+import { Theme } from './types';
+
+export const lightTheme: Theme = {
+  id: 'light',
+  name: 'Light',
+  appearance: 'light',
+  style: 'minimal',
+  palette: {
+    primary: colors.primary[500],
+    secondary: colors.secondary[500],
+    background: colors.background.primary,
+    surface: colors.background.secondary,
+    border: colors.neutral[300],
+    text: colors.text.primary,
+    textMuted: colors.text.secondary,
+    highlight: colors.primary[50],
+  },
+  syntax: {
+    keyword: colors.primary[600],
+    string: colors.success,
+    comment: colors.neutral[500],
+    number: colors.secondary[600],
+    operator: colors.neutral[700],
+    identifier: colors.text.primary,
+    type: colors.primary[500],
+    function: colors.secondary[700],
+    property: colors.primary[400],
+    tag: colors.primary[600],
+    attribute: colors.secondary[500],
+    text: colors.text.primary,
+    punctuation: colors.neutral[600],
+  },
+  diff: {
+    added: colors.success,
+    removed: colors.error,
+    addedBackground: 'rgba(34, 197, 94, 0.2)',
+    removedBackground: 'rgba(239, 68, 68, 0.2)',
+    hunkBackground: 'rgba(59, 130, 246, 0.1)',
+  },
+};
+
+export const darkTheme: Theme = {
+  id: 'dark',
+  name: 'Dark',
+  appearance: 'dark',
+  style: 'modern',
+  palette: {
+    primary: '#58A6FF',
+    secondary: '#F0883E',
+    background: '#0D1117',
+    surface: '#161B22',
+    border: '#30363D',
+    text: '#E6EDF3',
+    textMuted: '#8B949E',
+    highlight: '#1F2A3A',
+  },
+  syntax: {
+    keyword: '#FF7B72',
+    string: '#A5D6FF',
+    comment: '#8B949E',
+    number: '#79C0FF',
+    operator: '#FF7B72',
+    identifier: '#E6EDF3',
+    type: '#FFA657',
+    function: '#D2A8FF',
+    property: '#79C0FF',
+    tag: '#7EE787',
+    attribute: '#79C0FF',
+    text: '#E6EDF3',
+    punctuation: '#C9D1D9',
+  },
+  diff: {
+    added: '#3FB950',
+    removed: '#F85149',
+    addedBackground: 'rgba(46, 160, 67, 0.15)',
+    removedBackground: 'rgba(248, 81, 73, 0.15)',
+    hunkBackground: 'rgba(56, 139, 253, 0.15)',
+  },
+};
+
+// Every foreground keeps at least a 7:1 contrast ratio against black
+export const highContrastTheme: Theme = {
+  id: 'high-contrast',
+  name: 'High Contrast',
+  appearance: 'high-contrast',
+  style: 'modern',
+  palette: {
+    primary: '#00E5FF',
+    secondary: '#FFD600',
+    background: '#000000',
+    surface: '#000000',
+    border: '#FFFFFF',
+    text: '#FFFFFF',
+    textMuted: '#D0D0D0',
+    highlight: '#003A4A',
+  },
+  syntax: {
+    keyword: '#6FC3FF',
+    string: '#FFD479',
+    comment: '#9CDB8A',
+    number: '#C8FFA8',
+    operator: '#FFFFFF',
+    identifier: '#FFFFFF',
+    type: '#4EECD6',
+    function: '#FFF59D',
+    property: '#A8E4FF',
+    tag: '#6FC3FF',
+    attribute: '#FFB4F0',
+    text: '#FFFFFF',
+    punctuation: '#FFFFFF',
+  },
+  diff: {
+    added: '#7FFF7F',
+    removed: '#FF8C8C',
+    addedBackground: 'rgba(0, 255, 0, 0.25)',
+    removedBackground: 'rgba(255, 0, 0, 0.3)',
+    hunkBackground: 'rgba(0, 229, 255, 0.2)',
+  },
+};
+
+export const modernTheme: Theme = {
+  ...darkTheme,
+  id: 'modern',
+  name: 'Modern',
+  palette: { ...darkTheme.palette, primary: '#0066CC', secondary: '#33CC33', background: '#1A1A1A', text: '#FFFFFF' },
+};
+
+export const corporateTheme: Theme = {
+  ...lightTheme,
+  id: 'corporate',
+  name: 'Corporate',
+  style: 'corporate',
+  palette: { ...lightTheme.palette, primary: '#2E86AB', secondary: '#A23B72', background: '#F8F9FA', text: '#212529' },
+};
+
+export const minimalTheme: Theme = {
+  ...lightTheme,
+  id: 'minimal',
+  name: 'Minimal',
+  palette: { ...lightTheme.palette, primary: '#6366F1', secondary: '#8B5CF6', background: '#FFFFFF', text: '#111827' },
+};
+
+export const BUILT_IN_THEMES: Theme[] = [lightTheme, darkTheme, highContrastTheme, modernTheme, corporateTheme, minimalTheme];
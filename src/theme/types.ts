@@ -0,0 +1,89 @@
+/**
+ * Type definitions for color themes
+ * A theme colors the video, the code it shows and its diffs together
+ */
+
+import { DefinitionError } from '../definitions/types';
+
+export type ThemeAppearance = 'light' | 'dark' | 'high-contrast';
+
+export type VideoStyle = 'modern' | 'classic' | 'minimal' | 'corporate';
+
+export interface TokenColorScheme {
+  keyword: string;
+  string: string;
+  comment: string;
+  number: string;
+  operator: string;
+  identifier: string;
+  type: string;
+  function: string;
+  property: string;
+  tag: string;
+  attribute: string;
+  text: string;
+  punctuation: string;
+}
+
+export interface ThemePalette {
+  /** Accent for headings, links and progress */
+  primary: string;
+  secondary: string;
+  background: string;
+  /** Panels drawn on the background, such as the code view */
+  surface: string;
+  border: string;
+  text: string;
+  /** Secondary text and line numbers */
+  textMuted: string;
+  /** Subtle accent background for focused lines and callouts */
+  highlight: string;
+}
+
+export interface DiffColors {
+  added: string;
+  removed: string;
+  addedBackground: string;
+  removedBackground: string;
+  hunkBackground: string;
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  appearance: ThemeAppearance;
+  style: VideoStyle;
+  palette: ThemePalette;
+  syntax: TokenColorScheme;
+  diff: DiffColors;
+}
+
+/**
+ * The colors components are styled with
+ */
+export type ThemeColors = Pick<Theme, 'palette' | 'syntax' | 'diff'>;
+
+/**
+ * Theme as carried in video metadata
+ */
+export interface VideoTheme {
+  /** Registry id of the theme the colors come from */
+  id?: string;
+  primaryColor: string;
+  secondaryColor: string;
+  backgroundColor: string;
+  textColor: string;
+  style: VideoStyle;
+  /** Colors for panels, code and diffs; without them components use the registered theme for `id` or `style` */
+  colors?: ThemeColors;
+}
+
+/**
+ * A theme file that can't be read, parsed or validated, or a theme id that isn't registered
+ */
+export class ThemeDefinitionError extends DefinitionError {
+  constructor(message: string, public origin: string, issues: string[] = [], cause?: unknown) {
+    super(message, issues, cause);
+    this.name = 'ThemeDefinitionError';
+  }
+}
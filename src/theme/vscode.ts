@@ -0,0 +1,313 @@
+/**
+ * Import VS Code color themes
+ * Reads a color theme JSON file (comments and trailing commas allowed, as VS Code allows them) and maps its
+ * workbench colors and TextMate token colors onto a `Theme`. Colors the file leaves out come from the built-in
+ * theme of the same appearance
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { formatZodIssue } from '../definitions';
+import { darkTheme, highContrastTheme, lightTheme } from './themes';
+import { Theme, ThemeAppearance, ThemeDefinitionError, TokenColorScheme } from './types';
+
+const tokenColorRuleSchema = z.object({
+  name: z.string().optional(),
+  scope: z.union([z.string(), z.array(z.string())]).optional(),
+  settings: z.object({
+    foreground: z.string().optional(),
+    background: z.string().optional(),
+    fontStyle: z.string().optional(),
+  }).passthrough(),
+}).passthrough();
+
+export const vscodeThemeSchema = z.object({
+  name: z.string().optional(),
+  type: z.string().optional(),
+  /** Another theme file this one builds on, relative to it */
+  include: z.string().optional(),
+  colors: z.record(z.string().nullable()).optional(),
+  /** Rules, or a file holding them */
+  tokenColors: z.union([z.array(tokenColorRuleSchema), z.string()]).optional(),
+}).passthrough();
+
+export type VSCodeTheme = z.infer<typeof vscodeThemeSchema>;
+
+type TokenColorRule = z.infer<typeof tokenColorRuleSchema>;
+
+export interface VSCodeThemeOptions {
+  /** Registry id; defaults to one made from the theme name */
+  id?: string;
+  /** Reads a file the theme includes, given its path joined onto the including file's; without it, includes are rejected */
+  readInclude?: (file: string) => string;
+}
+
+/**
+ * TextMate scopes each token type is colored from, most fitting first
+ */
+const TOKEN_SCOPES: Record<keyof TokenColorScheme, string[]> = {
+  keyword: ['keyword.control', 'keyword', 'storage.type', 'storage.modifier', 'storage'],
+  string: ['string.quoted', 'string'],
+  comment: ['comment.line', 'comment'],
+  number: ['constant.numeric'],
+  operator: ['keyword.operator'],
+  identifier: ['variable.other.readwrite', 'variable'],
+  type: ['entity.name.type', 'support.type', 'entity.name.class', 'support.class'],
+  function: ['entity.name.function', 'support.function'],
+  property: ['variable.other.property', 'support.type.property-name', 'meta.object-literal.key'],
+  tag: ['entity.name.tag'],
+  attribute: ['entity.other.attribute-name'],
+  text: [],
+  punctuation: ['punctuation'],
+};
+
+const BASE_THEMES: Record<ThemeAppearance, Theme> = {
+  light: lightTheme,
+  dark: darkTheme,
+  'high-contrast': highContrastTheme,
+};
+
+const CLOSING_BRACKET = /\s*[}\]]/y;
+
+// Nested includes beyond this are taken to be a cycle
+const MAX_INCLUDE_DEPTH = 8;
+
+/**
+ * Parse and validate VS Code color theme source; `origin` names the file in error messages
+ */
+export function parseVSCodeTheme(source: string, origin: string, options: VSCodeThemeOptions = {}): Theme {
+  const file = readThemeSource(source, origin, options.readInclude, 0);
+  const appearance = themeAppearance(file.type, file.colors['editor.background']);
+  const name = file.name || path.basename(origin).replace(/(-color-theme)?\.jsonc?$/i, '');
+  return toTheme(file, appearance, options.id || slug(name), name);
+}
+
+/**
+ * Read a VS Code color theme file, following its includes
+ */
+export function loadVSCodeTheme(file: string, options: Omit<VSCodeThemeOptions, 'readInclude'> = {}): Theme {
+  return parseVSCodeTheme(readFile(file), file, {
+    ...options,
+    readInclude: readFile,
+  });
+}
+
+interface ThemeSource {
+  name?: string;
+  type?: string;
+  colors: Record<string, string>;
+  tokenColors: TokenColorRule[];
+}
+
+/**
+ * Parse one file and merge it over the ones it includes
+ */
+function readThemeSource(
+  source: string,
+  origin: string,
+  readInclude: VSCodeThemeOptions['readInclude'],
+  depth: number
+): ThemeSource {
+  const theme = parseThemeFile(source, origin);
+  const include = (file: string): ThemeSource => {
+    if (!readInclude) {
+      throw new ThemeDefinitionError(`${origin} includes ${file}, which can't be read here`, origin);
+    }
+    if (depth >= MAX_INCLUDE_DEPTH) {
+      throw new ThemeDefinitionError(`${origin} nests includes more than ${MAX_INCLUDE_DEPTH} deep`, origin);
+    }
+    const included = path.join(path.dirname(origin), file);
+    return readThemeSource(readInclude(included), included, readInclude, depth + 1);
+  };
+
+  const base: ThemeSource = theme.include ? include(theme.include) : { colors: {}, tokenColors: [] };
+  const tokenColors = typeof theme.tokenColors === 'string' ? include(theme.tokenColors).tokenColors : theme.tokenColors || [];
+  const colors = Object.fromEntries(
+    Object.entries(theme.colors || {}).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+
+  return {
+    name: theme.name ?? base.name,
+    type: theme.type ?? base.type,
+    colors: { ...base.colors, ...colors },
+    tokenColors: [...base.tokenColors, ...tokenColors],
+  };
+}
+
+function parseThemeFile(source: string, origin: string): VSCodeTheme {
+  if (/\.tmtheme$/i.test(origin)) {
+    throw new ThemeDefinitionError(`${origin} is a TextMate theme; only JSON color themes can be imported`, origin);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripTrailingCommas(stripComments(source)));
+  } catch (error) {
+    throw new ThemeDefinitionError(`${origin} could not be parsed: ${(error as Error).message}`, origin, [], error);
+  }
+
+  const result = vscodeThemeSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ThemeDefinitionError(`${origin} is not a valid VS Code color theme:`, origin, result.error.issues.map(formatZodIssue));
+  }
+  return result.data;
+}
+
+function toTheme(file: ThemeSource, appearance: ThemeAppearance, id: string, name: string): Theme {
+  const base = BASE_THEMES[appearance];
+  const color = (...keys: string[]): string | undefined => keys.map(key => file.colors[key]).find(Boolean);
+
+  const background = color('editor.background') || base.palette.background;
+  const text = color('editor.foreground', 'foreground') || base.palette.text;
+  const rules = file.tokenColors.flatMap(rule => ruleScopes(rule).map(scope => ({ scope, foreground: rule.settings.foreground })));
+  const tokenColor = (type: keyof TokenColorScheme): string | undefined =>
+    TOKEN_SCOPES[type].map(scope => matchScope(scope, rules)).find(Boolean);
+  const syntax = Object.fromEntries(
+    (Object.keys(TOKEN_SCOPES) as (keyof TokenColorScheme)[]).map(type => [
+      type,
+      tokenColor(type) || (['identifier', 'text', 'punctuation', 'operator'].includes(type) ? text : base.syntax[type]),
+    ])
+  ) as Record<keyof TokenColorScheme, string>;
+
+  return {
+    id,
+    name,
+    appearance,
+    style: appearance === 'light' ? 'minimal' : 'modern',
+    palette: {
+      primary: color('button.background', 'focusBorder', 'textLink.foreground') || base.palette.primary,
+      secondary: color('textLink.activeForeground', 'badge.background', 'editorCursor.foreground') || base.palette.secondary,
+      background,
+      surface: color('editorWidget.background') || background,
+      border: color('panel.border', 'editorGroup.border', 'contrastBorder') || base.palette.border,
+      text,
+      textMuted: color('editorLineNumber.foreground', 'descriptionForeground') || base.palette.textMuted,
+      highlight: color('editor.lineHighlightBackground', 'editor.selectionBackground') || base.palette.highlight,
+    },
+    syntax,
+    diff: {
+      added: color('gitDecoration.addedResourceForeground', 'editorGutter.addedBackground') || base.diff.added,
+      removed: color('gitDecoration.deletedResourceForeground', 'editorGutter.deletedBackground') || base.diff.removed,
+      addedBackground: color('diffEditor.insertedLineBackground', 'diffEditor.insertedTextBackground') || base.diff.addedBackground,
+      removedBackground: color('diffEditor.removedLineBackground', 'diffEditor.removedTextBackground') || base.diff.removedBackground,
+      hunkBackground: base.diff.hunkBackground,
+    },
+  };
+}
+
+/**
+ * Selectors of a rule. Descendant selectors (`source.js keyword`) only apply inside other scopes, so they're left out
+ */
+function ruleScopes(rule: TokenColorRule): string[] {
+  const scopes = typeof rule.scope === 'string' ? rule.scope.split(',') : rule.scope || [];
+  return scopes.map(scope => scope.trim()).filter(scope => scope !== '' && !/\s/.test(scope));
+}
+
+/**
+ * Foreground of the most specific rule whose selector is the scope or a parent of it; later rules win ties
+ */
+function matchScope(scope: string, rules: { scope: string; foreground?: string }[]): string | undefined {
+  let best: { depth: number; foreground: string } | undefined;
+  rules.forEach(rule => {
+    if (!rule.foreground || !(scope === rule.scope || scope.startsWith(`${rule.scope}.`))) {
+      return;
+    }
+    const depth = rule.scope.split('.').length;
+    if (!best || depth >= best.depth) {
+      best = { depth, foreground: rule.foreground };
+    }
+  });
+  return best?.foreground;
+}
+
+/**
+ * From the declared type (`vs`, `vs-dark`, `hc-black`, `hc-light` and their newer spellings), else from how dark
+ * the editor background is. VS Code treats a theme without a type as dark
+ */
+function themeAppearance(type: string | undefined, background: string | undefined): ThemeAppearance {
+  const declared = type?.toLowerCase();
+  if (declared?.startsWith('hc')) {
+    return 'high-contrast';
+  }
+  if (declared === 'light' || declared === 'vs') {
+    return 'light';
+  }
+  if (declared === 'dark' || declared === 'vs-dark') {
+    return 'dark';
+  }
+  const rgb = background?.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})/i);
+  if (!rgb) {
+    return 'dark';
+  }
+  const [r, g, b] = rgb.slice(1).map(channel => parseInt(channel, 16) / 255);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b > 0.5 ? 'light' : 'dark';
+}
+
+/**
+ * Remove `//` and block comments outside strings
+ */
+function stripComments(source: string): string {
+  let result = '';
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (char === '"') {
+      const end = stringEnd(source, index);
+      result += source.slice(index, end);
+      index = end - 1;
+    } else if (char === '/' && source[index + 1] === '/') {
+      const end = source.indexOf('\n', index);
+      index = end === -1 ? source.length : end - 1;
+    } else if (char === '/' && source[index + 1] === '*') {
+      const end = source.indexOf('*/', index + 2);
+      index = end === -1 ? source.length : end + 1;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove commas directly before a closing bracket, outside strings
+ */
+function stripTrailingCommas(source: string): string {
+  let result = '';
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (char === '"') {
+      const end = stringEnd(source, index);
+      result += source.slice(index, end);
+      index = end - 1;
+    } else {
+      CLOSING_BRACKET.lastIndex = index + 1;
+      if (!(char === ',' && CLOSING_BRACKET.test(source))) {
+        result += char;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Index just past the string starting at `start`
+ */
+function stringEnd(source: string, start: number): number {
+  let index = start + 1;
+  while (index < source.length && source[index] !== '"') {
+    index += source[index] === '\\' ? 2 : 1;
+  }
+  return Math.min(index + 1, source.length);
+}
+
+function readFile(file: string): string {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new ThemeDefinitionError(`Cannot read theme ${file}: ${(error as Error).message}`, file, [], error);
+  }
+}
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'vscode';
+}
@@ -0,0 +1,84 @@
+/**
+ * Tests for splitting narration into caption cues and serializing them as SRT and WebVTT
+ */
+
+import { buildCaptions, formatSRT, formatWebVTT } from '..';
+import { ScriptSection } from '../../scripts/types';
+
+const section = (id: string, start: number, end: number, voiceover: string, narration?: number): ScriptSection => ({
+  id,
+  type: 'overview',
+  title: id,
+  content: '',
+  voiceover,
+  visualCues: [],
+  duration: end - start,
+  timing: { start, end },
+  priority: 'high',
+  ...(narration !== undefined ? { narration: { src: `${id}.wav`, durationInSeconds: narration } } : {}),
+});
+
+describe('buildCaptions', () => {
+  it('should give each sentence its own cue and split the section time by length', () => {
+    const cues = buildCaptions({
+      sections: [
+        section('intro', 0, 6, 'Let us begin. This change adds retries.'),
+        section('empty', 6, 9, '   '),
+        section('outro', 9, 12, 'Thanks... [pause] for watching.'),
+      ],
+    });
+
+    expect(cues).toEqual([
+      { sectionId: 'intro', start: 0, end: 2.053, lines: ['Let us begin.'] },
+      { sectionId: 'intro', start: 2.053, end: 6, lines: ['This change adds retries.'] },
+      { sectionId: 'outro', start: 9, end: 10.227, lines: ['Thanks...'] },
+      { sectionId: 'outro', start: 10.227, end: 12, lines: ['for watching.'] },
+    ]);
+  });
+
+  it('should wrap long sentences into cues of at most two lines', () => {
+    const sentence = 'The fetcher now retries rate limited requests with exponential backoff and reports every retry in the progress log so slow runs are easy to diagnose.';
+    const cues = buildCaptions({ sections: [section('details', 0, 12, sentence)] });
+
+    expect(cues.map(cue => cue.lines)).toEqual([
+      ['The fetcher now retries rate limited', 'requests with exponential backoff and'],
+      ['reports every retry in the progress log so', 'slow runs are easy to diagnose.'],
+    ]);
+    cues.flatMap(cue => cue.lines).forEach(line => expect(line.length).toBeLessThanOrEqual(42));
+    expect(cues[1].end).toBe(12);
+  });
+
+  it('should follow the narration clip rather than the whole section', () => {
+    const cues = buildCaptions({ sections: [section('overview', 4, 14, 'Two files changed.', 3.2)] }, { maxCharsPerLine: 10 });
+
+    expect(cues).toEqual([{ sectionId: 'overview', start: 4, end: 7.2, lines: ['Two files', 'changed.'] }]);
+  });
+
+  it('should shift every cue by the offset', () => {
+    const cues = buildCaptions({ sections: [section('overview', 4, 14, 'Two files changed.', 3.2)] }, { offset: 3 });
+
+    expect(cues).toEqual([{ sectionId: 'overview', start: 7, end: 10.2, lines: ['Two files changed.'] }]);
+  });
+});
+
+describe('caption formats', () => {
+  const cues = [
+    { sectionId: 'a', start: 0, end: 2.5, lines: ['Fixes <Button> & Link'] },
+    { sectionId: 'b', start: 3725.25, end: 3730, lines: ['Second', 'cue'] },
+  ];
+
+  it('should write numbered SubRip blocks with comma milliseconds', () => {
+    expect(formatSRT(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:02,500\nFixes <Button> & Link\n\n' +
+      '2\n01:02:05,250 --> 01:02:10,000\nSecond\ncue\n'
+    );
+  });
+
+  it('should write a WebVTT file with escaped cue text', () => {
+    expect(formatWebVTT(cues)).toBe(
+      'WEBVTT\n\n' +
+      '00:00:00.000 --> 00:00:02.500\nFixes &lt;Button&gt; &amp; Link\n\n' +
+      '01:02:05.250 --> 01:02:10.000\nSecond\ncue\n'
+    );
+  });
+});
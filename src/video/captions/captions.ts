@@ -0,0 +1,87 @@
+/**
+ * Split script narration into readable caption cues timed to each section
+ */
+
+import { ScriptSection, VideoScript } from '../scripts/types';
+import { CaptionCue, CaptionOptions } from './types';
+
+/**
+ * Caption cues for every narrated section, in playback order
+ */
+export function buildCaptions(script: Pick<VideoScript, 'sections'>, options: CaptionOptions = {}): CaptionCue[] {
+  return script.sections.flatMap(section => sectionCaptions(section, options));
+}
+
+/**
+ * Split a section's narration sentence by sentence into cues of at most `maxLines` lines,
+ * spreading the spoken window across them by character count
+ */
+function sectionCaptions(section: ScriptSection, options: CaptionOptions): CaptionCue[] {
+  const { maxCharsPerLine = 42, maxLines = 2, offset = 0 } = options;
+  const text = cleanNarration(section.voiceover);
+  if (!text) {
+    return [];
+  }
+
+  const blocks = splitSentences(text).flatMap(sentence =>
+    chunk(wrapWords(sentence.split(' '), maxCharsPerLine), maxLines)
+  );
+
+  // Captions follow the speech when there is a clip; otherwise they fill the section
+  const start = section.timing.start + offset;
+  const end = offset + (section.narration
+    ? Math.min(section.timing.end, section.timing.start + section.narration.durationInSeconds)
+    : section.timing.end);
+  const totalChars = blocks.reduce((sum, lines) => sum + lines.join(' ').length, 0);
+
+  let cursor = start;
+  return blocks.map((lines, index) => {
+    const cueEnd = index === blocks.length - 1
+      ? end
+      : cursor + ((end - start) * lines.join(' ').length) / totalChars;
+    const cue = { sectionId: section.id, start: roundMs(cursor), end: roundMs(cueEnd), lines };
+    cursor = cueEnd;
+    return cue;
+  });
+}
+
+/**
+ * Drop stage directions such as `[pause]` and collapse whitespace
+ */
+function cleanNarration(voiceover: string): string {
+  return voiceover
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?…])\s+(?=\S)/).filter(Boolean);
+}
+
+/**
+ * Greedy word wrap; a single word longer than the limit gets a line of its own
+ */
+function wrapWords(words: string[], maxChars: number): string[] {
+  return words.reduce<string[]>((lines, word) => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxChars) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+    return lines;
+  }, []);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+function roundMs(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
@@ -0,0 +1,51 @@
+/**
+ * SubRip (.srt) and WebVTT (.vtt) serialization for caption cues
+ */
+
+import { CaptionCue, CaptionFormat } from './types';
+
+/**
+ * Serialize cues as SubRip: numbered blocks with `HH:MM:SS,mmm` timestamps
+ */
+export function formatSRT(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${timestamp(cue.start, ',')} --> ${timestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+/**
+ * Serialize cues as WebVTT: a `WEBVTT` header and blocks with `HH:MM:SS.mmm` timestamps
+ */
+export function formatWebVTT(cues: CaptionCue[]): string {
+  const blocks = cues.map(
+    cue => `${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}\n${cue.lines.map(escapeVTT).join('\n')}\n`
+  );
+  return ['WEBVTT\n', ...blocks].join('\n');
+}
+
+/**
+ * Serialize cues in the given format
+ */
+export function formatCaptions(cues: CaptionCue[], format: CaptionFormat): string {
+  return format === 'srt' ? formatSRT(cues) : formatWebVTT(cues);
+}
+
+function timestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  const ms = totalMs % 1000;
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(secs, 2)}${separator}${pad(ms, 3)}`;
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, '0');
+}
+
+/**
+ * `&`, `<` and `>` start entities and tags in WebVTT cue text
+ */
+function escapeVTT(line: string): string {
+  return line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
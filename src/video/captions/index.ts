@@ -0,0 +1,7 @@
+/**
+ * Captions from script narration: SRT/WebVTT export and cues for the burned-in overlay
+ */
+
+export * from './types';
+export { buildCaptions } from './captions';
+export { formatCaptions, formatSRT, formatWebVTT } from './formats';
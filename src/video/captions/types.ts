@@ -0,0 +1,30 @@
+/**
+ * Caption cue types shared by the subtitle exporters and the burned-in overlay
+ */
+
+/**
+ * One on-screen caption, timed against the whole video
+ */
+export interface CaptionCue {
+  /** Section the narration came from */
+  sectionId: string;
+  /** Seconds from the start of the video */
+  start: number;
+  end: number;
+  /** Wrapped lines, each at most `maxCharsPerLine` long unless a single word is longer */
+  lines: string[];
+}
+
+/**
+ * How narration is split into cues
+ */
+export interface CaptionOptions {
+  /** Longest line before wrapping (default: 42, the common broadcast limit) */
+  maxCharsPerLine?: number;
+  /** Lines per cue (default: 2) */
+  maxLines?: number;
+  /** Seconds added to every cue, e.g. for an intro played before the script (default: 0) */
+  offset?: number;
+}
+
+export type CaptionFormat = 'srt' | 'vtt';
@@ -0,0 +1,171 @@
+/**
+ * Tests for narration providers against the local stub chat completions server
+ */
+
+import fetchMock from 'jest-fetch-mock';
+import { PRVideoTransformer, VideoMetadata } from '../../../github/transformer';
+import { fixedClock, ScriptGenerator, ScriptUtils } from '../../scripts';
+import { createSamplePRData } from '../../scripts/example';
+import { ScriptSection } from '../../scripts/types';
+import {
+  createNarrationProvider,
+  defaultPromptRegistry,
+  fillTemplate,
+  NarrationError,
+  NarrationRequest,
+  OpenAINarrationProvider,
+  PromptRegistry,
+  promptVariables,
+  TokenBudget,
+} from '..';
+import { startStubNarrationServer, StubNarrationServer } from '../stubServer';
+
+const section: ScriptSection = {
+  id: 'section_intro_1',
+  type: 'intro',
+  title: 'Introduction',
+  content: 'Adds caching to the API client',
+  voiceover: 'Rule-based introduction.',
+  visualCues: [],
+  duration: 12,
+  timing: { start: 0, end: 12 },
+  priority: 'critical',
+  data: { files: ['src/api/client.ts'], additions: 120 },
+};
+
+const request = (overrides: Partial<NarrationRequest> = {}): NarrationRequest => ({
+  section,
+  audience: { primary: 'engineering', technicalLevel: 'advanced', projectFamiliarity: 'familiar', communicationStyle: 'technical' },
+  style: { tone: 'professional', pacing: 'moderate', emphasis: 'process_focused' },
+  templateType: 'technical',
+  videoTitle: 'Cache API responses',
+  fallback: section.voiceover,
+  ...overrides,
+});
+
+const config = () => ScriptUtils.createBasicConfig('detailed', 240, 'engineering');
+
+describe('PromptRegistry', () => {
+  it('should prefer the audience template, then the section type, then the default', () => {
+    const registry = new PromptRegistry({ system: 'default system', user: 'default user' })
+      .register('intro', { user: 'intro user' })
+      .register('intro', { system: 'intro for execs' }, 'executive');
+
+    expect(registry.resolve('intro', 'engineering')).toEqual({ system: 'default system', user: 'intro user' });
+    expect(registry.resolve('intro', 'executive')).toEqual({ system: 'intro for execs', user: 'default user' });
+    expect(registry.resolve('outro', 'executive')).toEqual({ system: 'default system', user: 'default user' });
+  });
+
+  it('should fill placeholders and leave unknown ones visible', () => {
+    const variables = promptVariables(request(), 1000);
+
+    expect(fillTemplate('{{sectionTitle}} for {{ audience }}, {{unknown}}', variables))
+      .toBe('Introduction for engineering, {{unknown}}');
+    expect(variables.targetWords).toBe('30');
+    expect(variables.emphasis).toBe('process focused');
+  });
+
+  it('should truncate section data to the character limit', () => {
+    const [, user] = defaultPromptRegistry().buildMessages(request(), 20);
+
+    expect(user.content).toContain('(truncated)');
+    expect(user.content).not.toContain('additions');
+  });
+});
+
+describe('TokenBudget', () => {
+  it('should track spending against the cap', () => {
+    const budget = new TokenBudget(100);
+    budget.consume(60);
+
+    expect(budget.remaining).toBe(40);
+    expect(budget.canAfford(40)).toBe(true);
+    expect(budget.canAfford(41)).toBe(false);
+  });
+});
+
+describe('OpenAINarrationProvider', () => {
+  let server: StubNarrationServer | undefined;
+
+  beforeAll(() => {
+    fetchMock.disableMocks();
+  });
+
+  afterAll(() => {
+    fetchMock.enableMocks();
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('should post the filled prompt and return the completion', async () => {
+    server = await startStubNarrationServer();
+    const provider = createNarrationProvider({ type: 'openai', baseUrl: server.url, apiKey: 'sk-test', model: 'local' });
+
+    expect(await provider.narrate(request())).toBe('Stub narration for Introduction (intro).');
+    expect(provider.name).toBe('openai:local');
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].model).toBe('local');
+    expect(server.requests[0].max_tokens).toBe(64);
+    expect(server.requests[0].messages[1].content).toContain('Open the video');
+    expect((provider as OpenAINarrationProvider).tokensUsed).toBeGreaterThan(0);
+  });
+
+  it('should surface server errors as NarrationError with the status code', async () => {
+    server = await startStubNarrationServer({ reply: () => ({ status: 429, message: 'Rate limit reached' }) });
+    const provider = new OpenAINarrationProvider({ baseUrl: server.url, model: 'local' });
+
+    const error = await provider.narrate(request()).catch(caught => caught);
+    expect(error).toBeInstanceOf(NarrationError);
+    expect(error.statusCode).toBe(429);
+    expect(error.message).toContain('Rate limit reached');
+  });
+
+  it('should refuse requests once the token budget is spent', async () => {
+    server = await startStubNarrationServer();
+    const provider = new OpenAINarrationProvider({ baseUrl: server.url, model: 'local', tokenBudget: 50 });
+
+    await expect(provider.narrate(request())).rejects.toThrow('token budget exhausted');
+    expect(server.requests).toHaveLength(0);
+  });
+});
+
+describe('ScriptGenerator with a narration provider', () => {
+  let metadata: VideoMetadata;
+  let server: StubNarrationServer;
+
+  beforeAll(async () => {
+    fetchMock.disableMocks();
+    metadata = new PRVideoTransformer().transform(createSamplePRData(), 'detailed');
+    // Every third request fails, so the script mixes provider and rule-based text
+    server = await startStubNarrationServer({
+      reply: (_chat, index) => (index % 3 === 2
+        ? { status: 500, message: 'model crashed' }
+        : `Stub narration ${index}.`),
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+    fetchMock.enableMocks();
+  });
+
+  it('should narrate each section in order and keep rule-based text where the provider fails', async () => {
+    const clock = fixedClock('2024-01-20T15:30:00Z');
+    const baseline = await new ScriptGenerator({ clock }).generateScript(metadata, { ...config(), seed: 7 });
+    const provider = createNarrationProvider({ type: 'openai', baseUrl: server.url, model: 'local' });
+    const result = await new ScriptGenerator({ clock, narration: provider })
+      .generateScript(metadata, { ...config(), seed: 7 });
+
+    expect(result.success).toBe(true);
+    result.script.sections.forEach((narrated, index) => {
+      const original = baseline.script.sections[index];
+      expect(narrated.voiceover).toBe(index % 3 === 2 ? original.voiceover : `Stub narration ${index}.`);
+      expect(narrated.duration).toBe(original.duration);
+    });
+    expect(result.warnings.filter(warning => warning.includes('model crashed')))
+      .toHaveLength(Math.floor(result.script.sections.length / 3));
+  });
+});
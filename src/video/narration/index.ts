@@ -0,0 +1,22 @@
+/**
+ * Pluggable narration for script voiceovers
+ * Providers write each section's voiceover; ScriptGenerator falls back to its rule-based text when they fail
+ */
+
+import { OpenAINarrationProvider } from './openai';
+import { NarrationProvider, NarrationProviderConfig } from './types';
+
+export * from './types';
+export * from './prompts';
+export * from './tokens';
+export * from './openai';
+
+/**
+ * Create a narration provider from its configuration
+ */
+export function createNarrationProvider(config: NarrationProviderConfig): NarrationProvider {
+  switch (config.type) {
+    case 'openai':
+      return new OpenAINarrationProvider(config);
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Narration from any OpenAI-compatible chat completions endpoint
+ * Works with OpenAI itself and with local servers such as vLLM, Ollama or llama.cpp
+ */
+
+import { defaultPromptRegistry, promptVariables, PromptRegistry } from './prompts';
+import { estimateTokens, TokenBudget } from './tokens';
+import { ChatMessage, NarrationError, NarrationProvider, NarrationRequest, OpenAINarrationConfig } from './types';
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { total_tokens?: number };
+  error?: { message?: string };
+}
+
+export class OpenAINarrationProvider implements NarrationProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private prompts: PromptRegistry;
+  private budget: TokenBudget;
+  private fetchImpl: typeof fetch;
+
+  constructor(private config: Omit<OpenAINarrationConfig, 'type'>) {
+    this.name = `openai:${config.model}`;
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.prompts = config.prompts || defaultPromptRegistry();
+    this.budget = new TokenBudget(config.tokenBudget);
+    this.fetchImpl = config.fetchImpl || ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Tokens spent so far, from the server's usage report when it sends one
+   */
+  get tokensUsed(): number {
+    return this.budget.used;
+  }
+
+  async narrate(request: NarrationRequest): Promise<string> {
+    const messages = this.buildMessages(request);
+    const promptTokens = estimateTokens(messages.map(message => message.content).join('\n'));
+    const maxTokens = this.config.maxTokensPerSection
+      ?? Math.max(64, 2 * Number(promptVariables(request, 0).targetWords));
+
+    if (!this.budget.canAfford(promptTokens + maxTokens)) {
+      throw new NarrationError(
+        `token budget exhausted (${this.budget.remaining} left, section needs up to ${promptTokens + maxTokens})`,
+        this.name
+      );
+    }
+
+    const body = await this.complete(messages, maxTokens);
+    const text = (body.choices?.[0]?.message?.content || '').replace(/\s+/g, ' ').trim();
+    this.budget.consume(body.usage?.total_tokens ?? promptTokens + estimateTokens(text));
+
+    if (!text) {
+      throw new NarrationError('empty completion', this.name);
+    }
+    return text;
+  }
+
+  /**
+   * Fill the template, trimming the section data so the whole prompt fits `maxPromptTokens`
+   */
+  private buildMessages(request: NarrationRequest): ChatMessage[] {
+    const maxPromptTokens = this.config.maxPromptTokens ?? 1500;
+    const skeleton = this.prompts.buildMessages(request, 0);
+    const skeletonTokens = estimateTokens(skeleton.map(message => message.content).join('\n'));
+    return this.prompts.buildMessages(request, Math.max(0, (maxPromptTokens - skeletonTokens) * 4));
+  }
+
+  private async complete(messages: ChatMessage[], maxTokens: number): Promise<ChatCompletionResponse> {
+    const url = `${this.baseUrl}/chat/completions`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs ?? 30000);
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          messages,
+          max_tokens: maxTokens,
+          temperature: this.config.temperature ?? 0.4,
+        }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new NarrationError(
+        controller.signal.aborted ? `request to ${url} timed out` : `request to ${url} failed: ${(error as Error).message}`,
+        this.name,
+        error
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    let body: ChatCompletionResponse;
+    try {
+      body = await response.json() as ChatCompletionResponse;
+    } catch (error) {
+      throw new NarrationError(`${url} returned ${response.status} with a non-JSON body`, this.name, error, response.status);
+    }
+
+    if (!response.ok) {
+      throw new NarrationError(
+        `${url} returned ${response.status}: ${body.error?.message || 'request failed'}`,
+        this.name,
+        undefined,
+        response.status
+      );
+    }
+    return body;
+  }
+}
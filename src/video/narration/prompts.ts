@@ -0,0 +1,155 @@
+/**
+ * Prompt template registry for narration providers
+ * Templates are looked up by section type and audience, and filled from `{{placeholders}}`
+ */
+
+import { ScriptSectionType, AudienceType, NarrativePacing } from '../scripts/types';
+import { ChatMessage, NarrationRequest } from './types';
+
+export interface PromptTemplate {
+  system: string;
+  user: string;
+}
+
+/**
+ * Values available to templates as `{{name}}`
+ */
+export interface PromptVariables {
+  videoTitle: string;
+  sectionType: string;
+  sectionTitle: string;
+  sectionContent: string;
+  /** Compact JSON of the section's adapted PR content */
+  sectionData: string;
+  audience: string;
+  technicalLevel: string;
+  tone: string;
+  pacing: string;
+  complexity: string;
+  emphasis: string;
+  templateType: string;
+  durationSeconds: string;
+  /** Words that fit the section at the chosen pacing */
+  targetWords: string;
+  fallback: string;
+}
+
+const WORDS_PER_MINUTE: Record<NarrativePacing, number> = { slow: 120, moderate: 150, fast: 180, dynamic: 160 };
+
+const DEFAULT_SYSTEM = [
+  'You write voiceover narration for short videos that explain a GitHub pull request.',
+  'Write plain spoken prose: no markdown, lists, headings, emoji or stage directions.',
+  'Only state facts found in the data you are given.',
+].join(' ');
+
+const DEFAULT_USER = [
+  'Video: {{videoTitle}} ({{templateType}} video)',
+  'Section: {{sectionTitle}} ({{sectionType}})',
+  'Audience: {{audience}}, {{technicalLevel}} technical level',
+  'Style: {{tone}} tone, {{pacing}} pacing, {{complexity}} language, {{emphasis}}',
+  '',
+  'Section summary: {{sectionContent}}',
+  'Section data: {{sectionData}}',
+  '',
+  'Write about {{targetWords}} words of narration for this {{durationSeconds}}-second section.',
+].join('\n');
+
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplate>();
+
+  constructor(fallback: PromptTemplate = { system: DEFAULT_SYSTEM, user: DEFAULT_USER }) {
+    this.templates.set('default', fallback);
+  }
+
+  /**
+   * Register a template for a section type, optionally for one audience only
+   */
+  register(sectionType: ScriptSectionType | 'default', template: Partial<PromptTemplate>, audience?: AudienceType): this {
+    const base = this.templates.get('default')!;
+    this.templates.set(audience ? `${sectionType}:${audience}` : sectionType, { ...base, ...template });
+    return this;
+  }
+
+  /**
+   * Most specific template: section type and audience, then section type, then the default
+   */
+  resolve(sectionType: ScriptSectionType, audience: AudienceType): PromptTemplate {
+    return this.templates.get(`${sectionType}:${audience}`)
+      || this.templates.get(sectionType)
+      || this.templates.get('default')!;
+  }
+
+  /**
+   * Chat messages for a request, with the section data trimmed to `maxDataChars`
+   */
+  buildMessages(request: NarrationRequest, maxDataChars: number): ChatMessage[] {
+    const template = this.resolve(request.section.type, request.audience.primary);
+    const variables = promptVariables(request, maxDataChars);
+
+    return [
+      { role: 'system', content: fillTemplate(template.system, variables) },
+      { role: 'user', content: fillTemplate(template.user, variables) },
+    ];
+  }
+
+  clone(): PromptRegistry {
+    const copy = new PromptRegistry();
+    this.templates.forEach((template, key) => copy.templates.set(key, template));
+    return copy;
+  }
+}
+
+/**
+ * Registry with the default template plus openers and closers that set up or wrap the video
+ */
+export function defaultPromptRegistry(): PromptRegistry {
+  return new PromptRegistry()
+    .register('intro', { user: `${DEFAULT_USER}\nOpen the video: say what the pull request is and why it matters.` })
+    .register('hook', { user: `${DEFAULT_USER}\nOpen with the single most interesting fact about the change.` })
+    .register('outro', { user: `${DEFAULT_USER}\nClose the video in one or two sentences; do not introduce new facts.` })
+    .register('code_changes', { user: `${DEFAULT_USER}\nDescribe what the code now does differently, not file-by-file edits.` });
+}
+
+/**
+ * Values for a request; section data beyond `maxDataChars` is cut at a boundary and marked as truncated
+ */
+export function promptVariables(request: NarrationRequest, maxDataChars: number): PromptVariables {
+  const { section, audience, style } = request;
+  const pacing = style.pacing || 'moderate';
+
+  return {
+    videoTitle: request.videoTitle,
+    sectionType: section.type,
+    sectionTitle: section.title,
+    sectionContent: section.content,
+    sectionData: truncate(JSON.stringify(section.data ?? null), maxDataChars),
+    audience: audience.primary,
+    technicalLevel: audience.technicalLevel,
+    tone: style.tone || 'professional',
+    pacing,
+    complexity: style.complexity || 'moderate',
+    emphasis: (style.emphasis || 'balanced').replace(/_/g, ' '),
+    templateType: request.templateType,
+    durationSeconds: String(Math.round(section.duration)),
+    targetWords: String(Math.max(10, Math.round((section.duration / 60) * WORDS_PER_MINUTE[pacing]))),
+    fallback: request.fallback,
+  };
+}
+
+/**
+ * Replace `{{name}}` with the variable; unknown names are left as-is so typos are visible in the output
+ */
+export function fillTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? variables[name as keyof PromptVariables] : match
+  );
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  const cut = text.slice(0, Math.max(0, maxChars));
+  const boundary = Math.max(cut.lastIndexOf(','), cut.lastIndexOf(' '));
+  return `${boundary > maxChars / 2 ? cut.slice(0, boundary) : cut}... (truncated)`;
+}
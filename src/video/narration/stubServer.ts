@@ -0,0 +1,104 @@
+/**
+ * Local OpenAI-compatible chat completions server for tests and offline development
+ * Replies are deterministic, so scripts narrated against it are reproducible
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ChatMessage } from './types';
+
+export interface StubChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  max_tokens?: number;
+  temperature?: number;
+}
+
+/**
+ * A reply: the completion text, or a status and error message to simulate a failing backend
+ */
+export type StubReply = string | { status: number; message: string };
+
+export interface StubNarrationServerOptions {
+  /** Build the reply for a request (default: echoes the section line of the prompt) */
+  reply?: (request: StubChatRequest, index: number) => StubReply;
+  /** Port to listen on (default: any free port) */
+  port?: number;
+}
+
+export interface StubNarrationServer {
+  /** Base URL to pass as the provider's `baseUrl` */
+  url: string;
+  /** Every request received, in order */
+  requests: StubChatRequest[];
+  close(): Promise<void>;
+}
+
+const defaultReply = (request: StubChatRequest): string => {
+  const prompt = request.messages[request.messages.length - 1]?.content || '';
+  const section = /^Section: (.*)$/m.exec(prompt)?.[1] || 'this section';
+  return `Stub narration for ${section}.`;
+};
+
+/**
+ * Start the server on localhost; call `close()` when done
+ */
+export function startStubNarrationServer(options: StubNarrationServerOptions = {}): Promise<StubNarrationServer> {
+  const reply = options.reply || defaultReply;
+  const requests: StubChatRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const send = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+        send(404, { error: { message: `No route for ${req.method} ${req.url}` } });
+        return;
+      }
+
+      let request: StubChatRequest;
+      try {
+        request = JSON.parse(raw) as StubChatRequest;
+      } catch {
+        send(400, { error: { message: 'Body is not JSON' } });
+        return;
+      }
+
+      requests.push(request);
+      const result = reply(request, requests.length - 1);
+      if (typeof result !== 'string') {
+        send(result.status, { error: { message: result.message } });
+        return;
+      }
+
+      const promptTokens = Math.ceil(request.messages.map(message => message.content).join('\n').length / 4);
+      const completionTokens = Math.ceil(result.length / 4);
+      send(200, {
+        id: `stub-${requests.length}`,
+        object: 'chat.completion',
+        model: request.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: result }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+      });
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/v1`,
+        requests,
+        close: () => new Promise<void>((done, fail) => server.close(error => (error ? fail(error) : done()))),
+      });
+    });
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * Token estimation and budgeting for narration requests
+ */
+
+/**
+ * Rough token count for English text and JSON: about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Running total of tokens spent against an optional cap
+ */
+export class TokenBudget {
+  private spent = 0;
+
+  constructor(private limit: number = Infinity) {}
+
+  get used(): number {
+    return this.spent;
+  }
+
+  get remaining(): number {
+    return Math.max(0, this.limit - this.spent);
+  }
+
+  /**
+   * Whether a request of this size still fits
+   */
+  canAfford(tokens: number): boolean {
+    return tokens <= this.remaining;
+  }
+
+  consume(tokens: number): void {
+    this.spent += tokens;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Shared interfaces for narration providers that write section voiceovers
+ */
+
+import { NarrativeStyle, ScriptAudience, ScriptSection, TemplateType } from '../scripts/types';
+import type { PromptRegistry } from './prompts';
+
+/**
+ * Writes the voiceover for one script section
+ */
+export interface NarrationProvider {
+  /** Provider identifier used in logs and warnings */
+  readonly name: string;
+  /** Resolve with the narration text; reject to fall back to the rule-based voiceover */
+  narrate(request: NarrationRequest): Promise<string>;
+}
+
+/**
+ * Everything a provider knows about the section it narrates
+ */
+export interface NarrationRequest {
+  /** Section being narrated, including its `data` (the adapted PR content) and `duration` */
+  section: ScriptSection;
+  audience: ScriptAudience;
+  style: Partial<NarrativeStyle>;
+  templateType: TemplateType;
+  /** Title of the whole video, for context */
+  videoTitle: string;
+  /** The rule-based voiceover the generator would otherwise use */
+  fallback: string;
+}
+
+/**
+ * Configuration for an OpenAI-compatible chat completions backend (OpenAI, Azure, vLLM, Ollama, llama.cpp...)
+ */
+export interface OpenAINarrationConfig {
+  type: 'openai';
+  /** API base URL including the version segment (default: https://api.openai.com/v1) */
+  baseUrl?: string;
+  /** Bearer token; local servers usually need none */
+  apiKey?: string;
+  model: string;
+  temperature?: number;
+  /** Longest completion allowed per section, in tokens (default: sized from the section duration) */
+  maxTokensPerSection?: number;
+  /** Section data is trimmed so the prompt stays under this many tokens (default: 1500) */
+  maxPromptTokens?: number;
+  /** Tokens this provider may spend in total; sections past it fall back to rule-based text */
+  tokenBudget?: number;
+  /** Prompt templates (default: `defaultPromptRegistry()`) */
+  prompts?: PromptRegistry;
+  /** Abort a request after this many milliseconds (default: 30000) */
+  timeoutMs?: number;
+  /** Fetch implementation override, used by tests */
+  fetchImpl?: typeof fetch;
+}
+
+export type NarrationProviderConfig = OpenAINarrationConfig;
+
+/**
+ * A chat message in the OpenAI wire format
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Error raised when a provider cannot narrate a section
+ */
+export class NarrationError extends Error {
+  constructor(message: string, public provider: string, public cause?: unknown, public statusCode?: number) {
+    super(message);
+    this.name = 'NarrationError';
+  }
+}
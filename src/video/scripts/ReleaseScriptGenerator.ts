@@ -0,0 +1,220 @@
+/**
+ * Chaptered script for a release-notes video: an intro, one chapter per category of change with its most
+ * notable pull requests, and a roll call of everyone who contributed
+ */
+
+import { ReleaseChapter, ReleaseContributor, ReleaseHighlight, ReleaseVideoMetadata } from '../../github/releaseTransformer';
+import { joinList } from '../../github/transformer';
+import { emptyScriptMetadata } from './ScriptGenerator';
+import { ScriptClock, systemClock } from './determinism';
+import { ScriptAudience, ScriptSection, ScriptSectionType, VideoScript } from './types';
+
+export interface ReleaseScriptGeneratorOptions {
+  /** Time source for the script id and `generatedAt` (default: the system clock) */
+  clock?: ScriptClock;
+}
+
+export interface ReleaseScriptOptions {
+  /** Longest the video should run; chapters narrate fewer pull requests to fit (default 180) */
+  targetDuration?: number;
+  /** Pull requests narrated per chapter before the rest are only counted (default 3) */
+  highlightsPerChapter?: number;
+}
+
+/**
+ * Section data of a chapter: the pull requests it shows and how many more it only counts
+ */
+export interface ReleaseChapterData {
+  chapter: ReleaseChapter['category'];
+  highlights: ReleaseHighlight[];
+  remaining: number;
+}
+
+/**
+ * Section data of the roll call
+ */
+export interface ReleaseRollCallData {
+  contributors: ReleaseContributor[];
+}
+
+const INTRO_DURATION = 6;
+const CHAPTER_TITLE_DURATION = 3;
+const HIGHLIGHT_DURATION = 5;
+const ROLL_CALL_DURATION = { base: 4, perContributor: 0.25, max: 10 };
+const OUTRO_DURATION = 3;
+/** Contributors shown on the roll call; the narration names fewer */
+const ROLL_CALL_SIZE = 24;
+const NAMED_CONTRIBUTORS = 8;
+
+const RELEASE_AUDIENCE: ScriptAudience = {
+  primary: 'general',
+  secondary: ['engineering', 'product'],
+  technicalLevel: 'intermediate',
+  projectFamiliarity: 'familiar',
+  communicationStyle: 'conversational',
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const CHAPTER_PHRASES: Record<ReleaseChapter['category'], (count: number) => string> = {
+  features: count => plural(count, 'new feature'),
+  fixes: count => `${count} bug fix${count === 1 ? '' : 'es'}`,
+  chores: count => `${count} maintenance change${count === 1 ? '' : 's'}`,
+};
+
+export class ReleaseScriptGenerator {
+  private clock: ScriptClock;
+
+  constructor(options: ReleaseScriptGeneratorOptions = {}) {
+    this.clock = options.clock || systemClock;
+  }
+
+  /**
+   * Build the script, narrating fewer pull requests per chapter until it fits the target duration
+   */
+  generate(release: ReleaseVideoMetadata, options: ReleaseScriptOptions = {}): VideoScript {
+    const { targetDuration = 180, highlightsPerChapter = 3 } = options;
+    console.log(`Generating release script for ${release.name} (${targetDuration}s)`);
+
+    let highlights = Math.max(1, highlightsPerChapter);
+    let sections = this.buildSections(release, highlights);
+    while (highlights > 1 && totalDuration(sections) > targetDuration) {
+      highlights--;
+      sections = this.buildSections(release, highlights);
+    }
+
+    const duration = totalDuration(sections);
+    const narrated = sections
+      .filter(section => section.type === 'overview')
+      .reduce((count, section) => count + (section.data as ReleaseChapterData).highlights.length, 0);
+    const metadata = emptyScriptMetadata('custom', this.clock.now());
+    const durationCompliance = duration <= targetDuration ? 1 : Math.round((targetDuration / duration) * 100) / 100;
+    metadata.quality = {
+      ...metadata.quality,
+      durationCompliance,
+      overall: durationCompliance,
+      details: {
+        ...metadata.quality.details,
+        weaknesses: narrated < release.keyMetrics.pullRequests
+          ? [`${plural(release.keyMetrics.pullRequests - narrated, 'pull request')} counted but not narrated`]
+          : [],
+      },
+    };
+
+    return {
+      id: `release_script_${release.name.replace(/[^\w.-]+/g, '_')}_${this.clock.now().getTime()}`,
+      title: `${release.repository} ${release.name}`,
+      description: `Release notes for ${release.repository} ${release.name}: ${release.subtitle}`,
+      targetDuration,
+      sections,
+      metadata,
+      audience: RELEASE_AUDIENCE,
+      style: {
+        tone: 'celebratory',
+        pacing: 'dynamic',
+        approach: 'showcase',
+        complexity: 'simple',
+        emphasis: 'impact_focused',
+      },
+    };
+  }
+
+  private buildSections(release: ReleaseVideoMetadata, highlightsPerChapter: number): ScriptSection[] {
+    const drafts: Array<Omit<ScriptSection, 'timing'>> = [
+      this.intro(release),
+      ...release.chapters.map(chapter => this.chapter(chapter, highlightsPerChapter)),
+      ...(release.contributors.length > 0 ? [this.rollCall(release.contributors)] : []),
+      this.outro(release),
+    ];
+
+    let start = 0;
+    return drafts.map(draft => {
+      const timing = { start, end: Math.round((start + draft.duration) * 10) / 10 };
+      start = timing.end;
+      return { ...draft, timing };
+    });
+  }
+
+  private intro(release: ReleaseVideoMetadata): Omit<ScriptSection, 'timing'> {
+    const { pullRequests, contributors } = release.keyMetrics;
+    const breakdown = release.chapters.map(chapter => CHAPTER_PHRASES[chapter.category](chapter.pullRequests.length));
+    const voiceover = pullRequests === 0
+      ? `${release.repository} ${release.name} has no merged pull requests.`
+      : `Here's what's new in ${release.repository} ${release.name}: ${plural(pullRequests, 'pull request')} from ` +
+        `${plural(contributors, 'contributor')}, with ${joinList(breakdown)}.`;
+
+    return section('intro', 'intro', `Release ${release.name}`, voiceover, INTRO_DURATION, 'critical', { release: release.name });
+  }
+
+  private chapter(chapter: ReleaseChapter, highlightsPerChapter: number): Omit<ScriptSection, 'timing'> {
+    const highlights = chapter.pullRequests.slice(0, highlightsPerChapter);
+    const remaining = chapter.pullRequests.length - highlights.length;
+    const lines = highlights.map(highlight => {
+      const closes = highlight.closes.length > 0 ? `, closing ${joinList(highlight.closes)}` : '';
+      return `${highlight.title}, from ${highlight.author.login}${closes}.`;
+    });
+    const more = remaining > 0 ? ` Plus ${remaining} more.` : '';
+    const data: ReleaseChapterData = { chapter: chapter.category, highlights, remaining };
+
+    return section(
+      `chapter_${chapter.category}`,
+      'overview',
+      chapter.title,
+      `${chapter.title}. ${lines.join(' ')}${more}`,
+      CHAPTER_TITLE_DURATION + highlights.length * HIGHLIGHT_DURATION,
+      chapter.category === 'chores' ? 'medium' : 'high',
+      data
+    );
+  }
+
+  private rollCall(contributors: ReleaseContributor[]): Omit<ScriptSection, 'timing'> {
+    const shown = contributors.slice(0, ROLL_CALL_SIZE);
+    const named = contributors.slice(0, NAMED_CONTRIBUTORS).map(contributor => contributor.user.login);
+    const others = contributors.length - named.length;
+    const names = others > 0 ? `${named.join(', ')} and ${plural(others, 'other')}` : joinList(named);
+    const duration = Math.min(ROLL_CALL_DURATION.base + shown.length * ROLL_CALL_DURATION.perContributor, ROLL_CALL_DURATION.max);
+    const data: ReleaseRollCallData = { contributors: shown };
+
+    return section(
+      'roll_call',
+      'collaboration',
+      'Contributors',
+      `Thank you to everyone who made this release: ${names}.`,
+      duration,
+      'high',
+      data
+    );
+  }
+
+  private outro(release: ReleaseVideoMetadata): Omit<ScriptSection, 'timing'> {
+    return section('outro', 'outro', release.name, `That's ${release.name}. Thanks for watching.`, OUTRO_DURATION, 'low', {
+      release: release.name,
+    });
+  }
+}
+
+function section(
+  id: string,
+  type: ScriptSectionType,
+  title: string,
+  voiceover: string,
+  duration: number,
+  priority: ScriptSection['priority'],
+  data: unknown
+): Omit<ScriptSection, 'timing'> {
+  return {
+    id: `release_${id}`,
+    type,
+    title,
+    content: voiceover,
+    voiceover,
+    visualCues: [],
+    duration,
+    priority,
+    data,
+  };
+}
+
+function totalDuration(sections: ScriptSection[]): number {
+  return sections.length > 0 ? sections[sections.length - 1].timing.end : 0;
+}
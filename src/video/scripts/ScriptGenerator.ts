@@ -26,6 +26,18 @@ import { DurationAdapter, DurationOptimizationResult } from './adapters/Duration
 import { SummaryTemplate } from './templates/SummaryTemplate';
 import { DetailedTemplate } from './templates/DetailedTemplate';
 import { TechnicalTemplate } from './templates/TechnicalTemplate';
+import { ExecutiveTemplate } from './templates/ExecutiveTemplate';
+import { createSeededRandom, RandomSource, ScriptClock, systemClock } from './determinism';
+import { NarrationProvider } from '../narration/types';
+
+export interface ScriptGeneratorOptions {
+  /** Time source for script ids and `generatedAt` (default: the system clock) */
+  clock?: ScriptClock;
+  /** Writes section voiceovers; any section it fails on keeps the rule-based text */
+  narration?: NarrationProvider;
+  /** Extra templates, e.g. from `discoverTemplates`; only used when selected by `templateId` */
+  templates?: ScriptTemplate[];
+}
 
 /**
  * Main script generation engine
@@ -34,12 +46,19 @@ export class ScriptGenerator {
   private contentAdapter: ContentAdapter;
   private durationAdapter: DurationAdapter;
   private templates: Map<TemplateType, ScriptTemplate>;
+  private templatesById: Map<string, ScriptTemplate>;
+  private clock: ScriptClock;
+  private narration?: NarrationProvider;
 
-  constructor() {
+  constructor(options: ScriptGeneratorOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.narration = options.narration;
     this.contentAdapter = new ContentAdapter();
-    this.durationAdapter = new DurationAdapter();
+    this.durationAdapter = new DurationAdapter(this.clock);
     this.templates = new Map();
+    this.templatesById = new Map();
     this.initializeTemplates();
+    (options.templates || []).forEach(template => this.templatesById.set(template.id, template));
   }
 
   /**
@@ -52,6 +71,9 @@ export class ScriptGenerator {
     const startTime = Date.now();
     console.log(`Generating ${config.templateType} script for ${config.audience.primary} audience`);
 
+    // A fresh generator per call, so a seed reproduces the same choices however many scripts came before
+    const random = config.seed !== undefined ? createSeededRandom(config.seed) : Math.random;
+
     try {
       // Performance tracking
       const performance: GenerationPerformance = {
@@ -64,9 +86,9 @@ export class ScriptGenerator {
 
       // Step 1: Select and prepare template
       const templateStart = Date.now();
-      const template = this.selectTemplate(config.templateType, config.templateOverrides);
+      const template = this.selectTemplate(config.templateType, config.templateOverrides, config.templateId);
       if (!template) {
-        throw new Error(`Template not found: ${config.templateType}`);
+        throw new Error(`Template not found: ${config.templateId ?? config.templateType}`);
       }
       performance.templateTime = Date.now() - templateStart;
 
@@ -93,13 +115,17 @@ export class ScriptGenerator {
       performance.processingTime = Date.now() - processingStart;
 
       // Step 4: Generate script sections
-      const script = this.generateScriptFromOptimization(
+      const generated = this.generateScriptFromOptimization(
         durationOptimization,
         template,
         config,
-        videoMetadata
+        videoMetadata,
+        random
       );
 
+      // Step 4b: Let the narration provider rewrite the voiceovers
+      const { script, warnings: narrationWarnings } = await this.narrateSections(generated, config);
+
       // Step 5: Assess quality
       const qualityStart = Date.now();
       const quality = this.assessScriptQuality(script, config, durationOptimization);
@@ -113,7 +139,7 @@ export class ScriptGenerator {
       const result: ScriptGenerationResult = {
         script,
         success: true,
-        warnings: durationOptimization.warnings,
+        warnings: [...durationOptimization.warnings, ...narrationWarnings],
         errors: [],
         performance,
         alternatives: suggestions
@@ -149,11 +175,16 @@ export class ScriptGenerator {
     optimization: DurationOptimizationResult,
     template: ScriptTemplate,
     config: ScriptGenerationConfig,
-    videoMetadata: VideoMetadata
+    videoMetadata: VideoMetadata,
+    random: RandomSource
   ): VideoScript {
+    const optimizedSections = optimization.sections.map(optimizedSection => optimizedSection.section);
+    const laidOut = template.type === 'executive'
+      ? this.layoutBrief(optimizedSections, template, config.targetDuration)
+      : optimizedSections;
+
     // Apply template structure and generate content
-    const sections = optimization.sections.map((optimizedSection, index) => {
-      const section = optimizedSection.section;
+    const sections = laidOut.map(section => {
       
       // Generate voiceover content
       const voiceover = this.generateVoiceover(
@@ -166,7 +197,8 @@ export class ScriptGenerator {
       const visualCues = this.generateVisualCues(
         section,
         template,
-        config.audience
+        config.audience,
+        random
       );
 
       return {
@@ -179,7 +211,7 @@ export class ScriptGenerator {
     // Generate script metadata
     const metadata: ScriptMetadata = {
       templateType: config.templateType,
-      generatedAt: new Date(),
+      generatedAt: this.clock.now(),
       version: '1.0.0',
       selectionStrategy: config.contentSelection || template.defaults.contentSelection,
       adaptations: config.adaptations || template.defaults.adaptations,
@@ -187,7 +219,7 @@ export class ScriptGenerator {
     };
 
     const script: VideoScript = {
-      id: `script_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: `script_${this.clock.now().getTime()}_${random().toString(36).substr(2, 9)}`,
       title: this.generateScriptTitle(videoMetadata, config),
       description: this.generateScriptDescription(videoMetadata, config),
       targetDuration: config.targetDuration,
@@ -200,6 +232,85 @@ export class ScriptGenerator {
     return script;
   }
 
+  /**
+   * Lay out an executive brief as its template declares: sections in declared order and named after their
+   * definitions, each held to its duration range, and the total scaled into the template's range
+   */
+  private layoutBrief(sections: ScriptSection[], template: ScriptTemplate, targetDuration: number): ScriptSection[] {
+    const definitions = [...template.structure.required, ...template.structure.optional];
+    const rank = (type: ScriptSectionType) => {
+      const index = definitions.findIndex(definition => definition.type === type);
+      return index === -1 ? definitions.length : index;
+    };
+
+    const ordered = [...sections].sort((a, b) => rank(a.type) - rank(b.type));
+    const durations = ordered.map(section => {
+      const definition = definitions.find(candidate => candidate.type === section.type);
+      return definition
+        ? Math.min(Math.max(section.duration, definition.duration.min), definition.duration.max)
+        : section.duration;
+    });
+
+    const { min, max } = template.durationRange;
+    const limit = Math.min(Math.max(targetDuration, min), max);
+    const total = durations.reduce((sum, duration) => sum + duration, 0);
+    const scale = total > limit ? limit / total : total > 0 && total < min ? min / total : 1;
+
+    let currentTime = 0;
+    return ordered.map((section, index) => {
+      const duration = Math.round(durations[index] * scale * 10) / 10;
+      const definition = definitions.find(candidate => candidate.type === section.type);
+      const placed: ScriptSection = {
+        ...section,
+        title: definition?.name ?? section.title,
+        duration,
+        timing: {
+          start: currentTime,
+          end: currentTime + duration
+        }
+      };
+      currentTime += duration;
+      return placed;
+    });
+  }
+
+  /**
+   * Replace rule-based voiceovers with the provider's, one section at a time; failures keep the rule-based text
+   */
+  private async narrateSections(
+    script: VideoScript,
+    config: ScriptGenerationConfig
+  ): Promise<{ script: VideoScript; warnings: string[] }> {
+    const provider = this.narration;
+    if (!provider) {
+      return { script, warnings: [] };
+    }
+
+    const warnings: string[] = [];
+    const sections: ScriptSection[] = [];
+
+    // Sequential so token budgets are spent in playback order and rate limits are respected
+    for (const section of script.sections) {
+      try {
+        const voiceover = await provider.narrate({
+          section,
+          audience: config.audience,
+          style: script.style,
+          templateType: config.templateType,
+          videoTitle: script.title,
+          fallback: section.voiceover
+        });
+        sections.push({ ...section, voiceover });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        warnings.push(`${provider.name} could not narrate "${section.title}" (${message}); used rule-based text`);
+        sections.push(section);
+      }
+    }
+
+    return { script: { ...script, sections }, warnings };
+  }
+
   /**
    * Generate voiceover content for a section
    */
@@ -228,7 +339,8 @@ export class ScriptGenerator {
   private generateVisualCues(
     section: ScriptSection,
     template: ScriptTemplate,
-    audience: ScriptAudience
+    audience: ScriptAudience,
+    random: RandomSource
   ): VisualCue[] {
     const visualCues: VisualCue[] = [];
     
@@ -238,7 +350,7 @@ export class ScriptGenerator {
     if (sectionDef) {
       // Generate cues based on visual requirements
       sectionDef.visualRequirements.forEach((requirement, index) => {
-        if (requirement.required || Math.random() > 0.5) { // Include optional cues randomly
+        if (requirement.required || random() > 0.5) { // Include optional cues randomly
           const cue: VisualCue = {
             timestamp: (section.duration / sectionDef.visualRequirements.length) * index,
             type: this.mapVisualRequirementToType(requirement.type),
@@ -429,6 +541,7 @@ export class ScriptGenerator {
       code_changes: "Looking at the code changes...",
       file_analysis: "Analyzing the affected files...",
       review_process: "The review process revealed...",
+      feedback_addressed: "Here's how the feedback was put into the code...",
       collaboration: "This was truly a team effort...",
       timeline: "The development timeline shows...",
       impact_assessment: "The impact of these changes...",
@@ -566,9 +679,12 @@ export class ScriptGenerator {
    */
   private selectTemplate(
     templateType: TemplateType,
-    overrides?: Partial<ScriptTemplate>
+    overrides?: Partial<ScriptTemplate>,
+    templateId?: string
   ): ScriptTemplate | null {
-    const baseTemplate = this.templates.get(templateType);
+    const baseTemplate = templateId !== undefined
+      ? this.templatesById.get(templateId)
+      : this.templates.get(templateType);
     
     if (!baseTemplate) {
       return null;
@@ -599,7 +715,9 @@ export class ScriptGenerator {
       'metrics_dashboard': 'chart',
       'code_diff_detailed': 'code_highlight',
       'participant_avatars': 'avatar',
-      'timeline_chart': 'chart'
+      'timeline_chart': 'chart',
+      'executive_impact_summary': 'chart',
+      'risk_quality_metrics': 'chart'
     };
 
     return mapping[requirementType] || 'animation';
@@ -724,7 +842,7 @@ export class ScriptGenerator {
   private suggestBetterTemplate(audience: ScriptAudience): TemplateType {
     switch (audience.primary) {
       case 'executive':
-        return 'summary';
+        return 'executive';
       case 'engineering':
         return audience.technicalLevel === 'expert' ? 'technical' : 'detailed';
       case 'product':
@@ -736,52 +854,12 @@ export class ScriptGenerator {
 
   private createEmptyScript(config: ScriptGenerationConfig): VideoScript {
     return {
-      id: `empty_script_${Date.now()}`,
+      id: `empty_script_${this.clock.now().getTime()}`,
       title: 'Script Generation Failed',
       description: 'An error occurred during script generation',
       targetDuration: config.targetDuration,
       sections: [],
-      metadata: {
-        templateType: config.templateType,
-        generatedAt: new Date(),
-        version: '1.0.0',
-        selectionStrategy: {
-          name: 'default',
-          criteria: {
-            importanceThreshold: 0.5,
-            relevanceScoring: {
-              factors: [],
-              algorithm: 'weighted_sum',
-              normalization: 'min_max'
-            },
-            freshnessWeight: 0.2,
-            audienceAlignmentWeight: 0.5
-          },
-          prioritization: [],
-          filtering: [],
-          adaptation: []
-        },
-        adaptations: {
-          duration: {
-            shortForm: { name: 'default', priorityAdjustments: {}, durationAdjustments: {}, contentModifications: [] },
-            mediumForm: { name: 'default', priorityAdjustments: {}, durationAdjustments: {}, contentModifications: [] },
-            longForm: { name: 'default', priorityAdjustments: {}, durationAdjustments: {}, contentModifications: [] },
-            cuttingPriorities: []
-          },
-          audience: { languageSimplification: [], technicalDepth: [], emphasisAdjustments: [] },
-          content: { transformations: [], summarization: [], expansion: [] },
-          technical: { codeExamples: [], jargonExplanation: [], conceptIntroduction: [] }
-        },
-        quality: {
-          coherence: 0,
-          engagement: 0,
-          accuracy: 0,
-          durationCompliance: 0,
-          audienceAlignment: 0,
-          overall: 0,
-          details: { strengths: [], weaknesses: [], suggestions: [], risks: [] }
-        }
-      },
+      metadata: emptyScriptMetadata(config.templateType, this.clock.now()),
       audience: config.audience,
       style: {
         tone: 'professional',
@@ -797,16 +875,18 @@ export class ScriptGenerator {
    * Initialize default templates
    */
   private initializeTemplates(): void {
-    this.templates.set('summary', new SummaryTemplate());
-    this.templates.set('detailed', new DetailedTemplate());
-    this.templates.set('technical', new TechnicalTemplate());
+    this.addTemplate(new SummaryTemplate());
+    this.addTemplate(new DetailedTemplate());
+    this.addTemplate(new TechnicalTemplate());
+    this.addTemplate(new ExecutiveTemplate());
   }
 
   /**
-   * Add a custom template
+   * Add a custom template; it also becomes the default for its type
    */
   addTemplate(template: ScriptTemplate): void {
     this.templates.set(template.type, template);
+    this.templatesById.set(template.id, template);
   }
 
   /**
@@ -822,4 +902,58 @@ export class ScriptGenerator {
   getTemplate(type: TemplateType): ScriptTemplate | undefined {
     return this.templates.get(type);
   }
-}
\ No newline at end of file
+
+  /**
+   * Get template by id
+   */
+  getTemplateById(id: string): ScriptTemplate | undefined {
+    return this.templatesById.get(id);
+  }
+}
+
+/**
+ * Script metadata with default selection and adaptation settings and no quality assessment yet
+ */
+export function emptyScriptMetadata(templateType: TemplateType, generatedAt: Date): ScriptMetadata {
+  return {
+    templateType,
+    generatedAt,
+    version: '1.0.0',
+    selectionStrategy: {
+      name: 'default',
+      criteria: {
+        importanceThreshold: 0.5,
+        relevanceScoring: {
+          factors: [],
+          algorithm: 'weighted_sum',
+          normalization: 'min_max'
+        },
+        freshnessWeight: 0.2,
+        audienceAlignmentWeight: 0.5
+      },
+      prioritization: [],
+      filtering: [],
+      adaptation: []
+    },
+    adaptations: {
+      duration: {
+        shortForm: { name: 'default', priorityAdjustments: {}, durationAdjustments: {}, contentModifications: [] },
+        mediumForm: { name: 'default', priorityAdjustments: {}, durationAdjustments: {}, contentModifications: [] },
+        longForm: { name: 'default', priorityAdjustments: {}, durationAdjustments: {}, contentModifications: [] },
+        cuttingPriorities: []
+      },
+      audience: { languageSimplification: [], technicalDepth: [], emphasisAdjustments: [] },
+      content: { transformations: [], summarization: [], expansion: [] },
+      technical: { codeExamples: [], jargonExplanation: [], conceptIntroduction: [] }
+    },
+    quality: {
+      coherence: 0,
+      engagement: 0,
+      accuracy: 0,
+      durationCompliance: 0,
+      audienceAlignment: 0,
+      overall: 0,
+      details: { strengths: [], weaknesses: [], suggestions: [], risks: [] }
+    }
+  };
+}
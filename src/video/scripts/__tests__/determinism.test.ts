@@ -0,0 +1,70 @@
+/**
+ * Tests for reproducible script generation with a seed and an injected clock
+ */
+
+import { PRVideoTransformer, VideoMetadata } from '../../../github/transformer';
+import { createSeededRandom, fixedClock, ScriptGenerator, ScriptUtils } from '..';
+import { createSamplePRData } from '../example';
+import { ScriptGenerationConfig } from '../types';
+
+const clock = fixedClock('2024-01-20T15:30:00Z');
+
+const config = (seed?: number | string): ScriptGenerationConfig => ({
+  ...ScriptUtils.createBasicConfig('detailed', 240, 'engineering'),
+  ...(seed !== undefined ? { seed } : {}),
+});
+
+const optionalCueCount = (script: { sections: { visualCues: unknown[] }[] }) =>
+  script.sections.reduce((total, section) => total + section.visualCues.length, 0);
+
+describe('createSeededRandom', () => {
+  it('should repeat the same sequence for the same seed, numeric or string', () => {
+    const sequence = (seed: number | string) => {
+      const random = createSeededRandom(seed);
+      return Array.from({ length: 5 }, () => random());
+    };
+
+    expect(sequence(42)).toEqual(sequence(42));
+    expect(sequence('pr-42')).toEqual(sequence('pr-42'));
+    expect(sequence(42)).not.toEqual(sequence(43));
+    sequence('pr-42').forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should reject clock times that do not parse', () => {
+    expect(() => fixedClock('not a date')).toThrow('Invalid clock time: not a date');
+  });
+});
+
+describe('ScriptGenerator determinism', () => {
+  let metadata: VideoMetadata;
+
+  beforeAll(() => {
+    metadata = new PRVideoTransformer().transform(createSamplePRData(), 'detailed');
+  });
+
+  it('should produce byte-identical scripts for the same seed, inputs and clock', async () => {
+    const first = await new ScriptGenerator({ clock }).generateScript(metadata, config('release-1'));
+    // An unrelated run in between must not disturb the seeded sequence
+    await new ScriptGenerator({ clock }).generateScript(metadata, config());
+    const second = await new ScriptGenerator({ clock }).generateScript(metadata, config('release-1'));
+
+    expect(first.success).toBe(true);
+    expect(JSON.stringify(second.script)).toBe(JSON.stringify(first.script));
+    expect(first.script.metadata.generatedAt).toEqual(new Date('2024-01-20T15:30:00Z'));
+    expect(first.script.id).toMatch(/^script_1705764600000_/);
+    expect(first.script.sections[0].id).toMatch(/_1705764600000$/);
+  });
+
+  it('should pick optional visual cues from the seed', async () => {
+    const generator = new ScriptGenerator({ clock });
+    const scripts = await Promise.all(
+      Array.from({ length: 8 }, (_, seed) => generator.generateScript(metadata, config(seed)))
+    );
+
+    expect(new Set(scripts.map(result => result.script.id)).size).toBeGreaterThan(1);
+    expect(new Set(scripts.map(result => optionalCueCount(result.script))).size).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for executive briefs: the executive template, its section layout and config validation
+ */
+
+import { PRVideoTransformer, VideoMetadata } from '../../../github/transformer';
+import { fixedClock, parseTemplate, ScriptGenerator, ScriptUtils } from '..';
+import { createSamplePRData } from '../example';
+
+const clock = fixedClock('2024-01-20T15:30:00Z');
+
+describe('executive briefs', () => {
+  let metadata: VideoMetadata;
+
+  beforeAll(() => {
+    metadata = new PRVideoTransformer().transform(createSamplePRData(), 'executive');
+  });
+
+  it('should register the executive template for its type', () => {
+    const generator = new ScriptGenerator({ clock });
+    const template = generator.getTemplateById('executive_template_v1');
+
+    expect(template?.type).toBe('executive');
+    expect(template?.durationRange).toEqual({ min: 30, max: 60, default: 45 });
+  });
+
+  it('should lay out impact, risk and time to merge in template order within 30-60 seconds', async () => {
+    const result = await new ScriptGenerator({ clock }).generateScript(metadata, { ...ScriptUtils.createExecutiveConfig(), seed: 7 });
+    const { sections } = result.script;
+
+    expect(result.success).toBe(true);
+    expect(sections.map(section => [section.type, section.title])).toEqual([
+      ['hook', 'Business Outcome'],
+      ['impact_assessment', 'Business Impact'],
+      ['key_insights', 'Risk & Quality'],
+      ['summary', 'Outcome & Time to Merge'],
+    ]);
+
+    const total = sections.reduce((sum, section) => sum + section.duration, 0);
+    expect(total).toBeGreaterThanOrEqual(30);
+    expect(total).toBeLessThanOrEqual(60);
+    sections.forEach((section, index) => {
+      expect(section.timing.start).toBeCloseTo(index === 0 ? 0 : sections[index - 1].timing.end);
+    });
+
+    const components = sections.flatMap(section => section.visualCues.map(cue => cue.properties?.component)).filter(Boolean);
+    expect(components).toEqual(['ExecutiveImpactSummary', 'RiskAndQualityMetrics']);
+  });
+
+  it('should scale a long target back to the template maximum', async () => {
+    const result = await new ScriptGenerator({ clock }).generateScript(metadata, ScriptUtils.createExecutiveConfig(300));
+
+    expect(result.script.sections.reduce((sum, section) => sum + section.duration, 0)).toBeLessThanOrEqual(60);
+  });
+
+  it('should accept 30 second executive configs while other templates still need a minute', () => {
+    expect(ScriptUtils.validateConfig(ScriptUtils.createExecutiveConfig(30))).toEqual({ isValid: true, errors: [] });
+    expect(ScriptUtils.validateConfig(ScriptUtils.createBasicConfig('summary', 30, 'executive')).errors).toEqual([
+      'Target duration must be at least 60 seconds',
+    ]);
+  });
+
+  it('should let template files extend the executive template', () => {
+    const template = parseTemplate(
+      [
+        'id: board-brief',
+        'name: Board Brief',
+        'type: executive',
+        'extends: executive',
+        'durationRange: { min: 30, max: 40, default: 35 }',
+        'structure:',
+        '  required:',
+        '    - { type: hook, name: Headline, duration: { min: 5, max: 10, preferred: 8 } }',
+        '    - { type: summary, name: Outcome, duration: { min: 10, max: 20, preferred: 15 } }',
+      ].join('\n'),
+      'board-brief.yaml'
+    );
+
+    expect(template.defaults.style.emphasis).toBe('impact_focused');
+    expect(template.suitability.primary).toEqual(['executive']);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for release-notes scripts: chapter layout, fitting the target duration and the contributor roll call
+ */
+
+import { PRVideoData } from '../../../github/types';
+import { ReleaseTransformer, ReleaseVideoMetadata } from '../../../github/releaseTransformer';
+import { fixedClock, ReleaseChapterData, ReleaseRollCallData, ReleaseScriptGenerator } from '..';
+import { createSamplePRData } from '../example';
+
+const clock = fixedClock('2024-01-20T15:30:00Z');
+
+const pr = (number: number, title: string, login: string): PRVideoData => {
+  const sample = createSamplePRData();
+  return {
+    ...sample,
+    pullRequest: { ...sample.pullRequest, number, title, labels: [], user: { ...sample.pullRequest.user, login } },
+  };
+};
+
+describe('ReleaseScriptGenerator', () => {
+  let release: ReleaseVideoMetadata;
+
+  beforeAll(() => {
+    release = new ReleaseTransformer().transform({
+      repository: createSamplePRData().repository,
+      range: { type: 'tags', base: 'v1.1.0', head: 'v1.2.0' },
+      name: 'v1.2.0',
+      pullRequests: [
+        pr(1, 'feat: export to CSV', 'alice'),
+        pr(2, 'feat: dark mode', 'bob'),
+        pr(3, 'feat: keyboard shortcuts', 'carol'),
+        pr(4, 'fix: crash on start', 'alice'),
+        pr(5, 'chore: bump deps', 'dave'),
+      ],
+    });
+  });
+
+  it('should open with the release, give each category a chapter and close with the contributors', () => {
+    const script = new ReleaseScriptGenerator({ clock }).generate(release);
+
+    expect(script.sections.map(section => [section.type, section.title])).toEqual([
+      ['intro', 'Release v1.2.0'],
+      ['overview', 'New Features'],
+      ['overview', 'Bug Fixes'],
+      ['overview', 'Maintenance'],
+      ['collaboration', 'Contributors'],
+      ['outro', 'v1.2.0'],
+    ]);
+    expect(script.sections[0].voiceover).toContain('5 pull requests from 4 contributors, with 3 new features, 1 bug fix and 1 maintenance change');
+    expect((script.sections[4].data as ReleaseRollCallData).contributors.map(contributor => contributor.user.login))
+      .toEqual(['alice', 'bob', 'carol', 'dave']);
+    expect(script.id).toBe(`release_script_v1.2.0_${clock.now().getTime()}`);
+
+    script.sections.slice(1).forEach((section, index) => expect(section.timing.start).toBe(script.sections[index].timing.end));
+  });
+
+  it('should narrate fewer pull requests per chapter to fit a short target and count the rest', () => {
+    const script = new ReleaseScriptGenerator({ clock }).generate(release, { targetDuration: 30 });
+    const features = script.sections[1].data as ReleaseChapterData;
+
+    expect(features.highlights).toHaveLength(1);
+    expect(features.remaining).toBe(2);
+    expect(script.sections[1].voiceover).toContain('Plus 2 more.');
+    expect(script.metadata.quality.details.weaknesses).toEqual(['2 pull requests counted but not narrated']);
+  });
+});
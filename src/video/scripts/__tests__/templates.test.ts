@@ -0,0 +1,201 @@
+/**
+ * Tests for script templates declared as YAML and JSON files
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PRVideoTransformer } from '../../../github/transformer';
+import {
+  discoverTemplates,
+  loadTemplateFile,
+  parseTemplate,
+  ScriptGenerator,
+  ScriptUtils,
+  SummaryTemplate,
+  TemplateDefinitionError,
+} from '..';
+import { createSamplePRData } from '../example';
+
+const fixtures = path.join(__dirname, 'fixtures', 'templates');
+const digestFile = path.join(fixtures, 'release-digest.yaml');
+
+const minimal = {
+  id: 'minimal',
+  name: 'Minimal',
+  durationRange: { min: 30, max: 90, default: 60 },
+  structure: {
+    required: [{ type: 'overview', name: 'Overview', duration: { min: 10, max: 30, preferred: 20 } }],
+  },
+};
+
+const parseError = (source: unknown, origin = 'broken.json'): TemplateDefinitionError => {
+  try {
+    parseTemplate(typeof source === 'string' ? source : JSON.stringify(source), origin);
+  } catch (error) {
+    return error as TemplateDefinitionError;
+  }
+  throw new Error('expected the template to be rejected');
+};
+
+describe('parseTemplate', () => {
+  it('should build a custom template from YAML and fill the rest from the base template', () => {
+    const template = loadTemplateFile(digestFile);
+    const base = new SummaryTemplate();
+
+    expect(template).toMatchObject({
+      id: 'release-digest',
+      name: 'Release Digest',
+      type: 'custom',
+      durationRange: { min: 45, max: 120, default: 60 },
+    });
+    expect(template.structure.required.map(section => section.type)).toEqual(['overview', 'call_to_action']);
+    expect(template.structure.required[1]).toMatchObject({ contentRequirements: [], visualRequirements: [] });
+    expect(template.structure.ordering[1].priority).toBe(1);
+    expect(template.defaults.style).toEqual({ ...base.defaults.style, tone: 'celebratory', pacing: 'fast' });
+    expect(template.defaults.adaptations).toEqual(base.defaults.adaptations);
+    expect(template.suitability.primary).toEqual(['product', 'marketing']);
+    expect(template.suitability.scoring.threshold).toBe(0.5);
+    expect(template.suitability.scoring.criteria.map(criterion => criterion.name))
+      .toEqual(base.suitability.scoring.criteria.map(criterion => criterion.name));
+  });
+
+  it('should accept JSON and use the base template suitability when none is given', () => {
+    const template = parseTemplate(JSON.stringify({ ...minimal, extends: 'technical' }), 'minimal.json');
+
+    expect(template.description).toBe('');
+    expect(template.suitability.primary).toEqual(['engineering']);
+  });
+
+  it('should list every problem with its location', () => {
+    const error = parseError({
+      ...minimal,
+      type: 'custom',
+      structure: {
+        requried: [],
+        required: [
+          { type: 'overview', name: 'Overview', duration: { min: 10, max: 30, preferred: 40 } },
+          { type: 'demo', name: 'Demo', duration: { min: 5, max: 10, preferred: 5 } },
+        ],
+        ordering: [{ before: 'overview', after: 'outro' }],
+      },
+    });
+
+    expect(error).toBeInstanceOf(TemplateDefinitionError);
+    expect(error.file).toBe('broken.json');
+    expect(error.message).toMatch(/^broken\.json is not a valid script template:/);
+    expect(error.issues).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^structure: Unrecognized key\(s\) in object: 'requried'/),
+      'structure.required[0].duration.preferred: 40 is outside min..max (10..30)',
+      expect.stringMatching(/^structure\.required\[1\]\.type: Invalid enum value\..*received 'demo'/),
+    ]));
+  });
+
+  it('should check section references and duration totals once the sections are valid', () => {
+    const error = parseError({
+      ...minimal,
+      durationRange: { min: 30, max: 40, default: 60 },
+      structure: {
+        required: [
+          { type: 'overview', name: 'Overview', duration: { min: 30, max: 40, preferred: 30 } },
+          { type: 'outro', name: 'Outro', duration: { min: 15, max: 20, preferred: 15 } },
+        ],
+        optional: [{ type: 'overview', name: 'Again', duration: { min: 1, max: 2, preferred: 1 } }],
+        transitions: [{ from: 'overview', to: 'timeline', style: 'fade', duration: 1 }],
+      },
+    });
+
+    expect(error.issues).toEqual([
+      'durationRange: needs min <= default <= max (got 30, 60, 40)',
+      'structure.optional[0].type: section "overview" is declared more than once',
+      'structure.transitions[0].to: "timeline" is not one of the template\'s sections (overview, outro)',
+      'structure.required: required sections need at least 45s but durationRange.max is 40s',
+    ]);
+  });
+
+  it('should report YAML syntax errors with the file name', () => {
+    const error = parseError('id: [unclosed', 'bad.yaml');
+
+    expect(error.message).toMatch(/^bad\.yaml could not be parsed:/);
+  });
+});
+
+describe('discoverTemplates', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'git2video-templates-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load template files in name order and skip everything else', () => {
+    fs.copyFileSync(digestFile, path.join(directory, 'b-digest.yml'));
+    fs.writeFileSync(path.join(directory, 'a-minimal.json'), JSON.stringify(minimal));
+    fs.writeFileSync(path.join(directory, 'notes.md'), '# not a template');
+
+    expect(discoverTemplates(directory).templates.map(template => template.id)).toEqual(['minimal', 'release-digest']);
+  });
+
+  it('should return no templates for a missing directory', () => {
+    expect(discoverTemplates(path.join(directory, 'missing'))).toEqual({ templates: [], errors: [] });
+  });
+
+  it('should report a file that reuses an id and keep the first', () => {
+    fs.writeFileSync(path.join(directory, 'one.json'), JSON.stringify(minimal));
+    fs.writeFileSync(path.join(directory, 'two.json'), JSON.stringify(minimal));
+
+    const { templates, errors } = discoverTemplates(directory);
+    expect(templates).toHaveLength(1);
+    expect(errors.map(error => error.message)).toEqual([expect.stringMatching(/two\.json reuses template id "minimal" from .*one\.json/)]);
+  });
+
+  it('should report invalid files and still load the others', () => {
+    fs.writeFileSync(path.join(directory, 'broken.json'), '{"id": "broken"}');
+    fs.writeFileSync(path.join(directory, 'minimal.json'), JSON.stringify(minimal));
+
+    const { templates, errors } = discoverTemplates(directory);
+    expect(templates.map(template => template.id)).toEqual(['minimal']);
+    expect(errors[0]).toBeInstanceOf(TemplateDefinitionError);
+    expect(errors[0].file).toBe(path.join(directory, 'broken.json'));
+  });
+});
+
+describe('ScriptGenerator with file templates', () => {
+  it('should generate a custom script from a template selected by id', async () => {
+    const metadata = new PRVideoTransformer().transform(createSamplePRData(), 'summary');
+    const generator = new ScriptGenerator({ templates: [loadTemplateFile(digestFile)] });
+
+    const result = await generator.generateScript(metadata, {
+      ...ScriptUtils.createBasicConfig('custom', 90, 'product'),
+      templateId: 'release-digest',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.script.metadata.templateType).toBe('custom');
+    expect(result.script.style.tone).toBe('professional');
+    const overview = result.script.sections.find(section => section.type === 'overview');
+    expect(overview?.visualCues[0]).toMatchObject({ type: 'chart', timestamp: 0 });
+  });
+
+  it('should keep the built-in template for a type unless a file template is selected by id', () => {
+    const summary = { ...loadTemplateFile(digestFile), id: 'team-summary', type: 'summary' as const };
+    const generator = new ScriptGenerator({ templates: [summary] });
+
+    expect(generator.getTemplate('summary')?.id).not.toBe('team-summary');
+    expect(generator.getTemplateById('team-summary')).toBe(summary);
+  });
+
+  it('should fail when the template id is unknown', async () => {
+    const metadata = new PRVideoTransformer().transform(createSamplePRData(), 'summary');
+    const result = await new ScriptGenerator().generateScript(metadata, {
+      ...ScriptUtils.createBasicConfig('custom', 90),
+      templateId: 'missing',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('Template not found: missing');
+  });
+});
@@ -146,6 +146,14 @@ export class ContentAdapter {
           });
           break;
 
+        case 'problemStatement':
+          this.addToCategory(categorized, 'linked_issues', scene.data);
+          break;
+
+        case 'feedbackAddressed':
+          this.addToCategory(categorized, 'addressed_feedback', scene.data);
+          break;
+
         case 'commits':
           this.addToCategory(categorized, 'commit_data', scene.data);
           break;
@@ -355,15 +363,28 @@ export class ContentAdapter {
     const selectedContent: AdaptedContent[] = [];
     let accumulatedDuration = 0;
 
+    // Executive briefs touch every point once, so the best item of each content type is kept whatever its priority
+    if (templateType === 'executive') {
+      const coveredTypes = new Set<ContentType>();
+      sortedContent.forEach(content => {
+        if (!coveredTypes.has(content.type)) {
+          coveredTypes.add(content.type);
+          selectedContent.push(content);
+          accumulatedDuration += content.durationImpact;
+        }
+      });
+    }
+    const candidates = sortedContent.filter(c => !selectedContent.includes(c));
+
     // Always include critical content
-    const criticalContent = sortedContent.filter(c => c.priority === 'critical');
+    const criticalContent = candidates.filter(c => c.priority === 'critical');
     criticalContent.forEach(content => {
       selectedContent.push(content);
       accumulatedDuration += content.durationImpact;
     });
 
     // Add high-priority content if space allows
-    const highPriorityContent = sortedContent.filter(c => c.priority === 'high');
+    const highPriorityContent = candidates.filter(c => c.priority === 'high');
     for (const content of highPriorityContent) {
       if (accumulatedDuration + content.durationImpact <= targetDuration * 0.8) {
         selectedContent.push(content);
@@ -372,7 +393,7 @@ export class ContentAdapter {
     }
 
     // Fill remaining space with medium and low priority content
-    const remainingContent = sortedContent.filter(c => 
+    const remainingContent = candidates.filter(c => 
       !['critical', 'high'].includes(c.priority)
     );
     
@@ -400,6 +421,8 @@ export class ContentAdapter {
         metrics: 0.8,
         timeline_events: 0.7,
         discussion_threads: 0.8,
+        linked_issues: 0.7,
+        addressed_feedback: 0.8,
         code_samples: 0.9,
         impact_analysis: 0.7
       },
@@ -412,6 +435,8 @@ export class ContentAdapter {
         metrics: 0.9,
         timeline_events: 0.8,
         discussion_threads: 0.6,
+        linked_issues: 0.9,
+        addressed_feedback: 0.5,
         code_samples: 0.3,
         impact_analysis: 0.9
       },
@@ -424,6 +449,8 @@ export class ContentAdapter {
         metrics: 0.9,
         timeline_events: 0.6,
         discussion_threads: 0.4,
+        linked_issues: 0.8,
+        addressed_feedback: 0.3,
         code_samples: 0.1,
         impact_analysis: 0.9
       }
@@ -443,6 +470,8 @@ export class ContentAdapter {
         metrics: 0.8,
         timeline_events: 0.2,
         discussion_threads: 0.2,
+        linked_issues: 0.6,
+        addressed_feedback: 0.3,
         code_samples: 0.1,
         impact_analysis: 0.9
       },
@@ -455,6 +484,8 @@ export class ContentAdapter {
         metrics: 0.8,
         timeline_events: 0.7,
         discussion_threads: 0.6,
+        linked_issues: 0.8,
+        addressed_feedback: 0.7,
         code_samples: 0.6,
         impact_analysis: 0.8
       },
@@ -467,6 +498,8 @@ export class ContentAdapter {
         metrics: 0.7,
         timeline_events: 0.6,
         discussion_threads: 0.8,
+        linked_issues: 0.7,
+        addressed_feedback: 0.8,
         code_samples: 0.9,
         impact_analysis: 0.7
       },
@@ -479,6 +512,8 @@ export class ContentAdapter {
         metrics: 0.9,
         timeline_events: 0.6,
         discussion_threads: 0.3,
+        linked_issues: 0.8,
+        addressed_feedback: 0.2,
         code_samples: 0.1,
         impact_analysis: 0.9
       },
@@ -491,6 +526,8 @@ export class ContentAdapter {
         metrics: 0.7,
         timeline_events: 0.7,
         discussion_threads: 0.7,
+        linked_issues: 0.7,
+        addressed_feedback: 0.7,
         code_samples: 0.7,
         impact_analysis: 0.7
       }
@@ -740,6 +777,8 @@ export class ContentAdapter {
       metrics: 6,
       timeline_events: 10,
       discussion_threads: 12,
+      linked_issues: 8,
+      addressed_feedback: 12,
       code_samples: 20,
       impact_analysis: 8
     };
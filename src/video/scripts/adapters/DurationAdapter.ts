@@ -16,6 +16,24 @@ import {
   ScriptAudience
 } from '../types';
 import { AdaptedContent } from './ContentAdapter';
+import { ScriptClock, systemClock } from '../determinism';
+
+/**
+ * Executive briefs fold content into the four sections of ExecutiveTemplate:
+ * outcome hook, business impact, risk and quality, and time to merge
+ */
+const EXECUTIVE_SECTION_MAPPINGS: Record<string, ScriptSectionType> = {
+  pr_overview: 'hook',
+  linked_issues: 'impact_assessment',
+  impact_analysis: 'impact_assessment',
+  metrics: 'key_insights',
+  review_data: 'key_insights',
+  addressed_feedback: 'key_insights',
+  commit_data: 'key_insights',
+  file_changes: 'key_insights',
+  timeline_events: 'summary',
+  participant_data: 'summary'
+};
 
 /**
  * Duration optimization result
@@ -88,7 +106,7 @@ export class DurationAdapter {
   private strategyMap: Map<string, AdaptationStrategy>;
   private sectionDurationMap: Map<ScriptSectionType, DurationAllocation>;
 
-  constructor() {
+  constructor(private clock: ScriptClock = systemClock) {
     this.strategyMap = new Map();
     this.sectionDurationMap = new Map();
     this.initializeStrategies();
@@ -238,6 +256,38 @@ export class DurationAdapter {
     };
   }
 
+  /**
+   * Retime sections around their narration: each narrated section lasts its speech plus padding, and its cues scale with it
+   */
+  fitToNarration(sections: ScriptSection[], padding: number = 0.5): ScriptSection[] {
+    let currentTime = 0;
+
+    return sections.map(section => {
+      const speech = section.narration?.durationInSeconds;
+      const duration = speech === undefined
+        ? section.duration
+        : Math.max(speech + padding, this.getMinimumSectionDuration(section.type));
+      const scale = section.duration > 0 ? duration / section.duration : 1;
+
+      const fitted: ScriptSection = {
+        ...section,
+        duration,
+        timing: {
+          start: currentTime,
+          end: currentTime + duration
+        },
+        visualCues: section.visualCues.map(cue => ({
+          ...cue,
+          timestamp: cue.timestamp * scale,
+          duration: cue.duration * scale
+        }))
+      };
+
+      currentTime += duration;
+      return fitted;
+    });
+  }
+
   /**
    * Calculate initial duration estimate from content
    */
@@ -298,7 +348,7 @@ export class DurationAdapter {
       const duration = sectionContent.reduce((sum, c) => sum + c.durationImpact, 0);
       
       const section: ScriptSection = {
-        id: `section_${sectionType}_${Date.now()}`,
+        id: `section_${sectionType}_${this.clock.now().getTime()}`,
         type: sectionType,
         title: this.generateSectionTitle(sectionType),
         content: this.generateSectionContent(sectionContent),
@@ -399,11 +449,17 @@ export class DurationAdapter {
     content: AdaptedContent,
     templateType: TemplateType
   ): ScriptSectionType {
+    if (templateType === 'executive') {
+      return EXECUTIVE_SECTION_MAPPINGS[content.type] || 'key_insights';
+    }
+
     const mappings: Record<string, ScriptSectionType> = {
       pr_overview: 'overview',
+      linked_issues: 'problem_statement',
       commit_data: 'code_changes',
       file_changes: 'file_analysis',
       review_data: 'review_process',
+      addressed_feedback: 'feedback_addressed',
       participant_data: 'collaboration',
       metrics: 'key_insights',
       timeline_events: 'timeline',
@@ -424,6 +480,7 @@ export class DurationAdapter {
       code_changes: 'Code Changes',
       file_analysis: 'File Analysis',
       review_process: 'Review Process',
+      feedback_addressed: 'Feedback Addressed',
       collaboration: 'Team Collaboration',
       timeline: 'Development Timeline',
       impact_assessment: 'Impact Assessment',
@@ -439,7 +496,9 @@ export class DurationAdapter {
   private generateSectionContent(content: AdaptedContent[]): string {
     // Generate narrative content from adapted content
     return content.map(item => 
-      `Content from ${item.type}: ${JSON.stringify(item.data)}`
+      (item.type === 'linked_issues' || item.type === 'addressed_feedback') && item.data.statement
+        ? item.data.statement
+        : `Content from ${item.type}: ${JSON.stringify(item.data)}`
     ).join(' ');
   }
 
@@ -492,6 +551,7 @@ export class DurationAdapter {
       code_changes: 6,
       file_analysis: 4,
       review_process: 5,
+      feedback_addressed: 4,
       collaboration: 3,
       timeline: 4,
       impact_assessment: 3,
@@ -642,9 +702,11 @@ export class DurationAdapter {
     // Map content types to relevant sections
     const relevanceMap: Record<string, ScriptSectionType[]> = {
       pr_overview: ['overview', 'intro', 'summary'],
+      linked_issues: ['problem_statement', 'overview'],
       commit_data: ['code_changes', 'technical_details'],
       file_changes: ['file_analysis', 'code_changes'],
       review_data: ['review_process', 'collaboration'],
+      addressed_feedback: ['feedback_addressed', 'review_process'],
       metrics: ['key_insights', 'impact_assessment']
     };
 
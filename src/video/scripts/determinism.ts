@@ -0,0 +1,53 @@
+/**
+ * Seeded randomness and an injectable clock, so the same inputs always produce the same script
+ */
+
+/**
+ * Source of uniform numbers in [0, 1), interchangeable with `Math.random`
+ */
+export type RandomSource = () => number;
+
+/**
+ * Source of the current time for ids and `generatedAt`
+ */
+export interface ScriptClock {
+  now(): Date;
+}
+
+export const systemClock: ScriptClock = {
+  now: () => new Date(),
+};
+
+/**
+ * A clock that always reports the same instant
+ */
+export function fixedClock(instant: Date | string | number): ScriptClock {
+  const time = new Date(instant).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid clock time: ${instant}`);
+  }
+  return { now: () => new Date(time) };
+}
+
+/**
+ * Mulberry32 generator; string seeds are hashed with FNV-1a first
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let mixed = state;
+    mixed = Math.imul(mixed ^ (mixed >>> 15), mixed | 1);
+    mixed ^= mixed + Math.imul(mixed ^ (mixed >>> 7), mixed | 61);
+    return ((mixed ^ (mixed >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(index), 0x01000193);
+  }
+  return hash >>> 0;
+}
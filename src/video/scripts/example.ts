@@ -256,10 +256,10 @@ export class ScriptGenerationExample {
     console.log('\n=== Generating Executive Brief Script ===');
 
     // Transform PR data for executive audience
-    const videoMetadata = this.transformer.transform(prData, 'summary');
+    const videoMetadata = this.transformer.transform(prData, 'executive');
     
     // Create executive-focused configuration
-    const config = ScriptUtils.createExecutiveConfig(90); // 1.5 minutes
+    const config = ScriptUtils.createExecutiveConfig(45); // 45 second clip
     
     // Generate script
     const result = await this.scriptGenerator.generateScript(videoMetadata, config);
@@ -375,7 +375,7 @@ export class ScriptGenerationExample {
     const validConfigs = [
       ScriptUtils.createBasicConfig('summary', 180, 'general'),
       ScriptUtils.createEngineeringConfig(600, 'advanced'),
-      ScriptUtils.createExecutiveConfig(90)
+      ScriptUtils.createExecutiveConfig(45)
     ];
 
     const invalidConfigs = [
@@ -4,7 +4,25 @@
  */
 
 // Main script generator
-export { ScriptGenerator } from './ScriptGenerator';
+export { ScriptGenerator, type ScriptGeneratorOptions } from './ScriptGenerator';
+
+// Release-notes scripts spanning many pull requests
+export {
+  ReleaseScriptGenerator,
+  type ReleaseScriptGeneratorOptions,
+  type ReleaseScriptOptions,
+  type ReleaseChapterData,
+  type ReleaseRollCallData
+} from './ReleaseScriptGenerator';
+
+// Reproducible generation
+export {
+  createSeededRandom,
+  fixedClock,
+  systemClock,
+  type RandomSource,
+  type ScriptClock
+} from './determinism';
 
 // Core types and interfaces
 export type {
@@ -12,6 +30,7 @@ export type {
   VideoScript,
   ScriptSection,
   ScriptSectionType,
+  SectionNarration,
   VisualCue,
   SectionPriority,
   
@@ -135,8 +154,16 @@ export {
 export {
   SummaryTemplate,
   DetailedTemplate,
-  TechnicalTemplate
+  TechnicalTemplate,
+  ExecutiveTemplate,
+  discoverTemplates,
+  loadTemplateFile,
+  parseTemplate,
+  templateFileSchema,
+  type TemplateDiscovery,
+  type TemplateFile
 } from './templates';
+export { TemplateDefinitionError } from './types';
 
 // Utility functions for common operations
 export const ScriptUtils = {
@@ -197,10 +224,10 @@ export const ScriptUtils = {
    * Create an executive-focused configuration
    */
   createExecutiveConfig(
-    targetDuration: number = 120
+    targetDuration: number = 45
   ): ScriptGenerationConfig {
     return {
-      templateType: 'summary',
+      templateType: 'executive',
       targetDuration,
       audience: {
         primary: 'executive',
@@ -224,8 +251,10 @@ export const ScriptUtils = {
   validateConfig(config: ScriptGenerationConfig): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
-    if (config.targetDuration < 60) {
-      errors.push('Target duration must be at least 60 seconds');
+    // Executive briefs are short clips; every other template needs a minute
+    const minimumDuration = config.templateType === 'executive' ? 30 : 60;
+    if (config.targetDuration < minimumDuration) {
+      errors.push(`Target duration must be at least ${minimumDuration} seconds`);
     }
 
     if (config.targetDuration > 1200) {
@@ -107,6 +107,11 @@ export class DetailedTemplate implements ScriptTemplate {
           percentage: 8
         },
         contentRequirements: [
+          {
+            type: 'linked_issues',
+            required: false,
+            maximum: 3
+          },
           {
             type: 'pr_overview',
             required: true,
@@ -573,6 +578,42 @@ export class DetailedTemplate implements ScriptTemplate {
    */
   private createOptionalSections(): SectionDefinition[] {
     return [
+      {
+        type: 'feedback_addressed',
+        name: 'Feedback Addressed',
+        duration: {
+          min: 15,
+          max: 40,
+          preferred: 25,
+          percentage: 6
+        },
+        contentRequirements: [
+          {
+            type: 'addressed_feedback',
+            required: true,
+            minimum: 1,
+            maximum: 5
+          }
+        ],
+        visualRequirements: [
+          {
+            type: 'comment_to_fix',
+            required: true,
+            properties: {
+              style: 'before_after',
+              show_commit: true
+            }
+          }
+        ],
+        priority: 'medium',
+        conditions: [
+          {
+            type: 'data_availability',
+            parameters: { section_type: 'feedback_addressed' },
+            operator: 'exists'
+          }
+        ]
+      },
       {
         type: 'technical_details',
         name: 'Deep Technical Analysis',
@@ -777,6 +818,11 @@ export class DetailedTemplate implements ScriptTemplate {
         after: 'review_process',
         priority: 80
       },
+      {
+        before: 'review_process',
+        after: 'feedback_addressed',
+        priority: 78
+      },
       {
         before: 'review_process',
         after: 'collaboration',
@@ -869,6 +915,12 @@ export class DetailedTemplate implements ScriptTemplate {
         style: 'smooth',
         duration: 0.7
       },
+      {
+        from: 'review_process',
+        to: 'feedback_addressed',
+        style: 'slide',
+        duration: 0.6
+      },
       {
         from: 'review_process',
         to: 'collaboration',
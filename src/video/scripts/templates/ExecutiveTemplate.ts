@@ -0,0 +1,657 @@
+/**
+ * Executive video template for 30-60 second per-PR clips
+ * Optimized for leadership: business impact, risk, outcome and time to merge
+ */
+
+import {
+  ScriptTemplate,
+  TemplateType,
+  ScriptSectionType,
+  SectionDefinition,
+  SectionOrderingRule,
+  TransitionRule,
+  TemplateDefaults,
+  AudienceSuitability,
+  ScriptAudience
+} from '../types';
+
+/**
+ * Executive template for leadership-facing PR clips
+ * Target duration: 30-60 seconds
+ * Focus: Business impact, risk and quality, outcome, time to merge
+ */
+export class ExecutiveTemplate implements ScriptTemplate {
+  readonly id = 'executive_template_v1';
+  readonly name = 'PR Executive Brief';
+  readonly description = '30-60 second brief on business impact, delivery risk and time to merge';
+  readonly type: TemplateType = 'executive';
+
+  readonly durationRange = {
+    min: 30,
+    max: 60,
+    default: 45
+  };
+
+  readonly structure = {
+    required: this.createRequiredSections(),
+    optional: this.createOptionalSections(),
+    ordering: this.createOrderingRules(),
+    transitions: this.createTransitionRules()
+  };
+
+  readonly defaults = this.createDefaults();
+  readonly suitability = this.createSuitability();
+
+  /**
+   * Create required sections for executive template
+   */
+  private createRequiredSections(): SectionDefinition[] {
+    return [
+      {
+        type: 'hook',
+        name: 'Business Outcome',
+        duration: {
+          min: 3,
+          max: 8,
+          preferred: 5,
+          percentage: 11
+        },
+        contentRequirements: [
+          {
+            type: 'pr_overview',
+            required: true,
+            minimum: 1
+          },
+          {
+            type: 'linked_issues',
+            required: false,
+            maximum: 2
+          }
+        ],
+        visualRequirements: [
+          {
+            type: 'pr_number_badge',
+            required: true,
+            properties: { style: 'prominent', animation: 'fade_in' }
+          }
+        ],
+        priority: 'critical'
+      },
+      {
+        type: 'impact_assessment',
+        name: 'Business Impact',
+        duration: {
+          min: 8,
+          max: 18,
+          preferred: 12,
+          percentage: 27
+        },
+        contentRequirements: [
+          {
+            type: 'impact_analysis',
+            required: true,
+            minimum: 1,
+            criteria: {
+              importanceThreshold: 0.7,
+              relevanceScoring: {
+                factors: ['change_magnitude', 'timeline_significance'],
+                algorithm: 'weighted_sum',
+                normalization: 'min_max'
+              },
+              freshnessWeight: 0.2,
+              audienceAlignmentWeight: 0.7
+            }
+          },
+          {
+            type: 'linked_issues',
+            required: false,
+            maximum: 3
+          }
+        ],
+        visualRequirements: [
+          {
+            type: 'executive_impact_summary',
+            required: true,
+            properties: {
+              component: 'ExecutiveImpactSummary',
+              panels: ['team'],
+              highlight: 'team'
+            }
+          }
+        ],
+        priority: 'critical'
+      },
+      {
+        type: 'key_insights',
+        name: 'Risk & Quality',
+        duration: {
+          min: 8,
+          max: 18,
+          preferred: 12,
+          percentage: 27
+        },
+        contentRequirements: [
+          {
+            type: 'metrics',
+            required: true,
+            minimum: 1,
+            criteria: {
+              importanceThreshold: 0.6,
+              relevanceScoring: {
+                factors: ['change_magnitude', 'review_feedback'],
+                algorithm: 'weighted_sum',
+                normalization: 'min_max'
+              },
+              freshnessWeight: 0.1,
+              audienceAlignmentWeight: 0.6
+            }
+          },
+          {
+            type: 'review_data',
+            required: false,
+            maximum: 1
+          }
+        ],
+        visualRequirements: [
+          {
+            type: 'risk_quality_metrics',
+            required: true,
+            properties: {
+              component: 'RiskAndQualityMetrics',
+              panels: ['review', 'recommendations'],
+              view_mode: 'executive'
+            }
+          }
+        ],
+        priority: 'critical'
+      },
+      {
+        type: 'summary',
+        name: 'Outcome & Time to Merge',
+        duration: {
+          min: 4,
+          max: 10,
+          preferred: 6,
+          percentage: 13
+        },
+        contentRequirements: [
+          {
+            type: 'timeline_events',
+            required: true,
+            minimum: 1
+          },
+          {
+            type: 'participant_data',
+            required: false,
+            maximum: 3
+          }
+        ],
+        visualRequirements: [
+          {
+            type: 'metrics_dashboard',
+            required: true,
+            properties: {
+              layout: 'horizontal',
+              metrics: ['outcome', 'time_to_merge', 'approvals'],
+              animation: 'count_up'
+            }
+          }
+        ],
+        priority: 'high'
+      }
+    ];
+  }
+
+  /**
+   * Create optional sections for executive template
+   */
+  private createOptionalSections(): SectionDefinition[] {
+    return [
+      {
+        type: 'call_to_action',
+        name: 'Decision Needed',
+        duration: {
+          min: 3,
+          max: 6,
+          preferred: 4,
+          percentage: 9
+        },
+        contentRequirements: [
+          {
+            type: 'impact_analysis',
+            required: true,
+            minimum: 1
+          }
+        ],
+        visualRequirements: [
+          {
+            type: 'action_items',
+            required: false,
+            properties: { style: 'checklist', max_items: 2 }
+          }
+        ],
+        priority: 'low',
+        conditions: [
+          {
+            type: 'data_availability',
+            parameters: { field: 'merged', value: false },
+            operator: 'equals'
+          }
+        ]
+      }
+    ];
+  }
+
+  /**
+   * Create section ordering rules
+   */
+  private createOrderingRules(): SectionOrderingRule[] {
+    return [
+      {
+        before: 'hook',
+        after: 'impact_assessment',
+        priority: 100
+      },
+      {
+        before: 'impact_assessment',
+        after: 'key_insights',
+        priority: 90
+      },
+      {
+        before: 'key_insights',
+        after: 'summary',
+        priority: 85
+      },
+      {
+        before: 'summary',
+        after: 'call_to_action',
+        priority: 60,
+        conditions: [
+          {
+            type: 'data_availability',
+            parameters: { section_type: 'call_to_action' },
+            operator: 'exists'
+          }
+        ]
+      }
+    ];
+  }
+
+  /**
+   * Create transition rules
+   */
+  private createTransitionRules(): TransitionRule[] {
+    return [
+      {
+        from: 'hook',
+        to: 'impact_assessment',
+        style: 'cut',
+        duration: 0.3
+      },
+      {
+        from: 'impact_assessment',
+        to: 'key_insights',
+        style: 'slide',
+        duration: 0.4
+      },
+      {
+        from: 'key_insights',
+        to: 'summary',
+        style: 'fade',
+        duration: 0.4
+      },
+      {
+        from: 'summary',
+        to: 'call_to_action',
+        style: 'cut',
+        duration: 0.3
+      }
+    ];
+  }
+
+  /**
+   * Create default configuration
+   */
+  private createDefaults(): TemplateDefaults {
+    return {
+      audience: {
+        primary: 'executive',
+        secondary: ['product'],
+        technicalLevel: 'beginner',
+        projectFamiliarity: 'basic',
+        communicationStyle: 'formal'
+      },
+      style: {
+        tone: 'professional',
+        pacing: 'fast',
+        approach: 'problem_solution',
+        complexity: 'simple',
+        emphasis: 'impact_focused'
+      },
+      contentSelection: {
+        name: 'executive_brief',
+        criteria: {
+          importanceThreshold: 0.7,
+          relevanceScoring: {
+            factors: ['change_magnitude', 'review_feedback', 'timeline_significance'],
+            algorithm: 'weighted_sum',
+            normalization: 'min_max'
+          },
+          freshnessWeight: 0.2,
+          audienceAlignmentWeight: 0.7
+        },
+        prioritization: [
+          {
+            name: 'business_impact',
+            contentTypes: ['impact_analysis', 'linked_issues'],
+            scoringFunction: (content: any) => content.impact_score || 0.6,
+            weight: 0.5
+          },
+          {
+            name: 'delivery_risk',
+            contentTypes: ['metrics', 'review_data'],
+            scoringFunction: (content: any) => content.risk_score || 0.5,
+            weight: 0.3
+          }
+        ],
+        filtering: [
+          {
+            name: 'exclude_code_samples',
+            criteria: {
+              field: 'type',
+              operator: 'equals',
+              value: 'code_samples'
+            },
+            action: 'exclude'
+          },
+          {
+            name: 'demote_file_details',
+            criteria: {
+              field: 'type',
+              operator: 'equals',
+              value: 'file_changes'
+            },
+            action: 'demote'
+          }
+        ],
+        adaptation: [
+          {
+            name: 'business_language',
+            triggers: [
+              {
+                type: 'audience_type',
+                parameters: { audience: 'executive' },
+                operator: 'equals'
+              }
+            ],
+            actions: [
+              {
+                type: 'simplify_language',
+                parameters: { level: 'basic', add_definitions: false }
+              },
+              {
+                type: 'change_emphasis',
+                parameters: { emphasis: 'business_impact' }
+              }
+            ]
+          }
+        ]
+      },
+      adaptations: {
+        duration: {
+          shortForm: {
+            name: 'executive_compressed',
+            priorityAdjustments: {
+              critical: 1.0,
+              high: 0.7,
+              medium: 0.4,
+              low: 0.2,
+              optional: 0.0
+            },
+            durationAdjustments: {
+              hook: 0.8,
+              impact_assessment: 0.9,
+              key_insights: 0.9,
+              summary: 0.8,
+              call_to_action: 0.6
+            } as Record<ScriptSectionType, number>,
+            contentModifications: []
+          },
+          mediumForm: {
+            name: 'executive_standard',
+            priorityAdjustments: {
+              critical: 1.0,
+              high: 1.0,
+              medium: 0.8,
+              low: 0.5,
+              optional: 0.3
+            },
+            durationAdjustments: {
+              hook: 1.0,
+              impact_assessment: 1.0,
+              key_insights: 1.0,
+              summary: 1.0,
+              call_to_action: 1.0
+            } as Record<ScriptSectionType, number>,
+            contentModifications: []
+          },
+          longForm: {
+            name: 'executive_expanded',
+            priorityAdjustments: {
+              critical: 1.0,
+              high: 1.1,
+              medium: 1.0,
+              low: 0.8,
+              optional: 0.5
+            },
+            durationAdjustments: {
+              hook: 1.0,
+              impact_assessment: 1.2,
+              key_insights: 1.2,
+              summary: 1.1,
+              call_to_action: 1.0
+            } as Record<ScriptSectionType, number>,
+            contentModifications: []
+          },
+          cuttingPriorities: ['optional', 'low', 'medium', 'high', 'critical']
+        },
+        audience: {
+          languageSimplification: [
+            {
+              trigger: 'technical',
+              actions: [
+                {
+                  type: 'replace_jargon',
+                  parameters: {
+                    dictionary: 'technical_terms',
+                    replacement_style: 'business'
+                  }
+                }
+              ]
+            },
+            {
+              trigger: 'complex',
+              actions: [
+                {
+                  type: 'simplify_sentence',
+                  parameters: { max_words: 18 }
+                }
+              ]
+            }
+          ],
+          technicalDepth: [
+            {
+              audienceLevel: 'beginner',
+              adjustments: [
+                {
+                  contentType: 'commit_data',
+                  detailLevel: 'surface',
+                  includeCode: false
+                },
+                {
+                  contentType: 'file_changes',
+                  detailLevel: 'surface',
+                  includeCode: false
+                }
+              ]
+            }
+          ],
+          emphasisAdjustments: [
+            {
+              audience: 'executive',
+              adjustments: [
+                {
+                  aspect: 'business_impact',
+                  weight: 0.9
+                },
+                {
+                  aspect: 'quality',
+                  weight: 0.6
+                },
+                {
+                  aspect: 'efficiency',
+                  weight: 0.6
+                }
+              ]
+            }
+          ]
+        },
+        content: {
+          transformations: [],
+          summarization: [
+            {
+              contentType: 'review_data',
+              targetLength: 20,
+              strategy: 'statistical'
+            },
+            {
+              contentType: 'timeline_events',
+              targetLength: 15,
+              strategy: 'statistical'
+            }
+          ],
+          expansion: [
+            {
+              contentType: 'impact_analysis',
+              triggers: [
+                {
+                  type: 'audience_type',
+                  parameters: { audience: 'executive' },
+                  operator: 'equals'
+                }
+              ],
+              strategy: 'add_implications'
+            }
+          ]
+        },
+        technical: {
+          codeExamples: [
+            {
+              inclusion: [],
+              selection: {
+                maxExamples: 0, // No code in executive briefs
+                prioritization: [],
+                filtering: []
+              },
+              presentation: {
+                syntaxHighlighting: false,
+                lineNumbers: false,
+                contextLines: 0,
+                annotations: 'none'
+              }
+            }
+          ],
+          jargonExplanation: [
+            {
+              detection: {
+                dictionary: ['pull request', 'merge', 'review', 'CI', 'regression'],
+                complexityScoring: true,
+                contextAnalysis: false
+              },
+              explanation: {
+                style: 'inline',
+                depth: 'brief',
+                useAnalogies: false
+              }
+            }
+          ],
+          conceptIntroduction: [
+            {
+              identification: {
+                complexityThreshold: 0.5,
+                familiarityScoring: true,
+                prerequisiteAnalysis: false
+              },
+              introduction: {
+                timing: 'just_in_time',
+                depth: 'surface',
+                useExamples: false
+              }
+            }
+          ]
+        }
+      }
+    };
+  }
+
+  /**
+   * Create audience suitability configuration
+   */
+  private createSuitability(): AudienceSuitability {
+    return {
+      primary: ['executive'],
+      secondary: ['product', 'marketing', 'general'],
+      unsuitable: ['engineering', 'qa'],
+      scoring: {
+        criteria: [
+          {
+            name: 'time_availability',
+            evaluation: (audience: ScriptAudience) => {
+              const timeScores = {
+                executive: 1.0,
+                product: 0.8,
+                marketing: 0.8,
+                general: 0.7,
+                design: 0.6,
+                external: 0.7,
+                engineering: 0.3,
+                qa: 0.3
+              };
+              return timeScores[audience.primary] || 0.5;
+            },
+            weight: 0.4
+          },
+          {
+            name: 'business_focus',
+            evaluation: (audience: ScriptAudience) => {
+              const businessScores = {
+                executive: 1.0,
+                product: 0.8,
+                marketing: 0.7,
+                general: 0.6,
+                design: 0.5,
+                external: 0.6,
+                engineering: 0.3,
+                qa: 0.4
+              };
+              return businessScores[audience.primary] || 0.5;
+            },
+            weight: 0.4
+          },
+          {
+            name: 'technical_alignment',
+            evaluation: (audience: ScriptAudience) =>
+              audience.technicalLevel === 'beginner' || audience.technicalLevel === 'intermediate' ? 0.9 : 0.4,
+            weight: 0.2
+          }
+        ],
+        weights: {
+          time_availability: 0.4,
+          business_focus: 0.4,
+          technical_alignment: 0.2
+        },
+        threshold: 0.7
+      }
+    };
+  }
+}
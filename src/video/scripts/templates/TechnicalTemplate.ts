@@ -614,6 +614,42 @@ export class TechnicalTemplate implements ScriptTemplate {
    */
   private createOptionalSections(): SectionDefinition[] {
     return [
+      {
+        type: 'feedback_addressed',
+        name: 'Feedback Addressed',
+        duration: {
+          min: 15,
+          max: 40,
+          preferred: 25,
+          percentage: 6
+        },
+        contentRequirements: [
+          {
+            type: 'addressed_feedback',
+            required: true,
+            minimum: 1,
+            maximum: 5
+          }
+        ],
+        visualRequirements: [
+          {
+            type: 'comment_to_fix',
+            required: true,
+            properties: {
+              style: 'before_after',
+              show_commit: true
+            }
+          }
+        ],
+        priority: 'medium',
+        conditions: [
+          {
+            type: 'data_availability',
+            parameters: { section_type: 'feedback_addressed' },
+            operator: 'exists'
+          }
+        ]
+      },
       {
         type: 'problem_statement',
         name: 'Technical Problem Context',
@@ -624,6 +660,11 @@ export class TechnicalTemplate implements ScriptTemplate {
           percentage: 7
         },
         contentRequirements: [
+          {
+            type: 'linked_issues',
+            required: false,
+            maximum: 5
+          },
           {
             type: 'pr_overview',
             required: true,
@@ -767,6 +808,11 @@ export class TechnicalTemplate implements ScriptTemplate {
         after: 'review_process',
         priority: 80
       },
+      {
+        before: 'review_process',
+        after: 'feedback_addressed',
+        priority: 78
+      },
       {
         before: 'review_process',
         after: 'collaboration',
@@ -847,6 +893,12 @@ export class TechnicalTemplate implements ScriptTemplate {
         style: 'fade',
         duration: 0.7
       },
+      {
+        from: 'review_process',
+        to: 'feedback_addressed',
+        style: 'slide',
+        duration: 0.6
+      },
       {
         from: 'review_process',
         to: 'collaboration',
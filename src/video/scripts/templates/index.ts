@@ -6,6 +6,17 @@
 export { SummaryTemplate } from './SummaryTemplate';
 export { DetailedTemplate } from './DetailedTemplate';
 export { TechnicalTemplate } from './TechnicalTemplate';
+export { ExecutiveTemplate } from './ExecutiveTemplate';
+
+// Templates declared as YAML or JSON files
+export {
+  discoverTemplates,
+  loadTemplateFile,
+  parseTemplate,
+  TEMPLATE_FILE_EXTENSIONS,
+  type TemplateDiscovery
+} from './loader';
+export { templateFileSchema, type TemplateFile } from './schema';
 
 // Re-export commonly used types
 export type {
@@ -0,0 +1,138 @@
+/**
+ * Load script templates declared as YAML or JSON files
+ * Files are validated against `templateFileSchema` and completed from the built-in template they extend
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { formatZodIssue } from '../../../definitions';
+import { ScriptTemplate, TemplateDefinitionError } from '../types';
+import { DetailedTemplate } from './DetailedTemplate';
+import { ExecutiveTemplate } from './ExecutiveTemplate';
+import { BASE_TEMPLATES, TemplateFile, templateFileSchema } from './schema';
+import { SummaryTemplate } from './SummaryTemplate';
+import { TechnicalTemplate } from './TechnicalTemplate';
+
+export const TEMPLATE_FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+const baseTemplates: Record<typeof BASE_TEMPLATES[number], () => ScriptTemplate> = {
+  summary: () => new SummaryTemplate(),
+  detailed: () => new DetailedTemplate(),
+  technical: () => new TechnicalTemplate(),
+  executive: () => new ExecutiveTemplate(),
+};
+
+/**
+ * Parse and validate template source; `origin` names the file in error messages and picks the format by extension
+ */
+export function parseTemplate(source: string, origin: string): ScriptTemplate {
+  let raw: unknown;
+  try {
+    raw = path.extname(origin).toLowerCase() === '.json'
+      ? JSON.parse(source)
+      : yaml.load(source, { filename: origin, schema: yaml.JSON_SCHEMA });
+  } catch (error) {
+    throw new TemplateDefinitionError(`${origin} could not be parsed: ${(error as Error).message}`, origin, [], error);
+  }
+
+  const result = templateFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new TemplateDefinitionError(
+      `${origin} is not a valid script template:`,
+      origin,
+      result.error.issues.map(formatZodIssue)
+    );
+  }
+
+  return toScriptTemplate(result.data);
+}
+
+/**
+ * Read one template file
+ */
+export function loadTemplateFile(file: string): ScriptTemplate {
+  let source: string;
+  try {
+    source = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new TemplateDefinitionError(`Cannot read template ${file}: ${(error as Error).message}`, file, [], error);
+  }
+  return parseTemplate(source, file);
+}
+
+export interface TemplateDiscovery {
+  templates: ScriptTemplate[];
+  /** Files that could not be loaded, or that reuse an id an earlier file took; the other files still load */
+  errors: TemplateDefinitionError[];
+}
+
+/**
+ * Load every template file directly inside a directory, in file name order; a missing directory has no templates
+ */
+export function discoverTemplates(directory: string): TemplateDiscovery {
+  if (!fs.existsSync(directory)) {
+    return { templates: [], errors: [] };
+  }
+
+  const files = fs.readdirSync(directory)
+    .filter(name => TEMPLATE_FILE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .sort()
+    .map(name => path.join(directory, name));
+
+  const origins = new Map<string, string>();
+  const discovery: TemplateDiscovery = { templates: [], errors: [] };
+  files.forEach(file => {
+    try {
+      const template = loadTemplateFile(file);
+      const previous = origins.get(template.id);
+      if (previous) {
+        throw new TemplateDefinitionError(`${file} reuses template id "${template.id}" from ${previous}`, file);
+      }
+      origins.set(template.id, file);
+      discovery.templates.push(template);
+    } catch (error) {
+      if (!(error instanceof TemplateDefinitionError)) {
+        throw error;
+      }
+      discovery.errors.push(error);
+    }
+  });
+  return discovery;
+}
+
+/**
+ * Complete a validated file from its base template: audience, style and content selection are merged over the
+ * base's defaults, while adaptations and suitability scoring functions come from the base as they are
+ */
+function toScriptTemplate(file: TemplateFile): ScriptTemplate {
+  const base = baseTemplates[file.extends]();
+  const contentSelection = file.defaults.contentSelection || {};
+
+  return {
+    id: file.id,
+    name: file.name,
+    description: file.description,
+    type: file.type,
+    durationRange: file.durationRange,
+    structure: file.structure,
+    defaults: {
+      audience: { ...base.defaults.audience, ...file.defaults.audience },
+      style: { ...base.defaults.style, ...file.defaults.style },
+      contentSelection: { ...base.defaults.contentSelection, ...contentSelection },
+      adaptations: base.defaults.adaptations,
+    },
+    suitability: file.suitability
+      ? {
+        primary: file.suitability.primary,
+        secondary: file.suitability.secondary,
+        unsuitable: file.suitability.unsuitable,
+        scoring: {
+          ...base.suitability.scoring,
+          ...(file.suitability.threshold !== undefined ? { threshold: file.suitability.threshold } : {}),
+          ...(file.suitability.weights ? { weights: file.suitability.weights } : {}),
+        },
+      }
+      : base.suitability,
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * Zod schema for script templates declared as YAML or JSON files
+ * Mirrors the data parts of `ScriptTemplate`; scoring functions are inherited from the built-in template a file extends
+ */
+
+import { z } from 'zod';
+import {
+  AudienceType,
+  ConditionOperator,
+  ConditionType,
+  ContentType,
+  ScriptSectionType,
+  TemplateType,
+} from '../types';
+
+export const SECTION_TYPES = [
+  'intro', 'hook', 'overview', 'problem_statement', 'solution_overview', 'technical_details',
+  'code_changes', 'file_analysis', 'review_process', 'feedback_addressed', 'collaboration', 'timeline',
+  'impact_assessment', 'key_insights', 'summary', 'call_to_action', 'outro',
+] as const satisfies readonly ScriptSectionType[];
+
+const CONTENT_TYPES = [
+  'pr_overview', 'commit_data', 'file_changes', 'review_data', 'participant_data', 'metrics',
+  'timeline_events', 'discussion_threads', 'linked_issues', 'addressed_feedback', 'code_samples',
+  'impact_analysis',
+] as const satisfies readonly ContentType[];
+
+const AUDIENCE_TYPES = [
+  'engineering', 'product', 'executive', 'qa', 'design', 'marketing', 'general', 'external',
+] as const satisfies readonly AudienceType[];
+
+const CONDITION_TYPES = [
+  'data_availability', 'content_volume', 'audience_type', 'duration_constraint', 'priority_threshold',
+] as const satisfies readonly ConditionType[];
+
+const CONDITION_OPERATORS = [
+  'equals', 'greater_than', 'less_than', 'contains', 'exists',
+] as const satisfies readonly ConditionOperator[];
+
+const TEMPLATE_TYPES = [
+  'summary', 'detailed', 'technical', 'executive', 'custom',
+] as const satisfies readonly TemplateType[];
+
+/**
+ * Built-in templates a file can extend
+ */
+export const BASE_TEMPLATES = ['summary', 'detailed', 'technical', 'executive'] as const;
+
+const sectionType = z.enum(SECTION_TYPES);
+const contentType = z.enum(CONTENT_TYPES);
+const audienceType = z.enum(AUDIENCE_TYPES);
+const unitInterval = z.number().min(0).max(1);
+const seconds = z.number().nonnegative();
+
+const inclusionCondition = z.object({
+  type: z.enum(CONDITION_TYPES),
+  parameters: z.record(z.any()).default({}),
+  operator: z.enum(CONDITION_OPERATORS),
+}).strict();
+
+const filteringRule = z.object({
+  name: z.string().min(1),
+  criteria: z.object({
+    field: z.string().min(1),
+    operator: z.enum(CONDITION_OPERATORS),
+    value: z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(z.union([z.string(), z.number()]))]),
+  }).strict(),
+  action: z.enum(['include', 'exclude', 'boost', 'demote']),
+}).strict();
+
+const selectionCriteria = z.object({
+  importanceThreshold: unitInterval,
+  relevanceScoring: z.object({
+    factors: z.array(z.enum([
+      'change_magnitude', 'file_importance', 'review_feedback',
+      'participant_involvement', 'discussion_activity', 'timeline_significance',
+    ])).min(1),
+    algorithm: z.enum(['weighted_sum', 'neural_ranking', 'composite_score']).default('weighted_sum'),
+    normalization: z.enum(['min_max', 'z_score', 'percentile_rank']).default('min_max'),
+  }).strict(),
+  freshnessWeight: unitInterval,
+  audienceAlignmentWeight: unitInterval,
+}).strict();
+
+const durationAllocation = z.object({
+  min: seconds,
+  max: seconds,
+  preferred: seconds,
+  percentage: z.number().min(0).max(100).optional(),
+  dynamic: z.object({
+    base: seconds,
+    perItem: seconds,
+    maxScale: z.number().positive(),
+    countingCriteria: z.object({
+      countType: contentType,
+      filters: z.array(filteringRule).default([]),
+      weights: z.record(z.number()).default({}),
+    }).strict(),
+  }).strict().optional(),
+}).strict().superRefine((duration, ctx) => {
+  if (duration.min > duration.max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `min (${duration.min}) is greater than max (${duration.max})` });
+  } else if (duration.preferred < duration.min || duration.preferred > duration.max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['preferred'],
+      message: `${duration.preferred} is outside min..max (${duration.min}..${duration.max})`,
+    });
+  }
+});
+
+const sectionDefinition = z.object({
+  type: sectionType,
+  name: z.string().min(1),
+  duration: durationAllocation,
+  contentRequirements: z.array(z.object({
+    type: contentType,
+    required: z.boolean().default(true),
+    minimum: z.number().int().nonnegative().optional(),
+    maximum: z.number().int().nonnegative().optional(),
+    criteria: selectionCriteria.optional(),
+  }).strict()).default([]),
+  visualRequirements: z.array(z.object({
+    type: z.string().min(1),
+    required: z.boolean().default(false),
+    properties: z.record(z.any()).optional(),
+  }).strict()).default([]),
+  priority: z.enum(['critical', 'high', 'medium', 'low', 'optional']).default('medium'),
+  conditions: z.array(inclusionCondition).optional(),
+}).strict();
+
+const orderingRule = z.object({
+  before: sectionType,
+  after: sectionType,
+  priority: z.number().default(1),
+  conditions: z.array(inclusionCondition).optional(),
+}).strict().refine(rule => rule.before !== rule.after, { message: 'before and after must be different sections' });
+
+const transitionRule = z.object({
+  from: sectionType,
+  to: sectionType,
+  style: z.enum(['smooth', 'cut', 'fade', 'zoom', 'slide']),
+  duration: seconds,
+}).strict();
+
+const defaults = z.object({
+  audience: z.object({
+    primary: audienceType,
+    secondary: z.array(audienceType).optional(),
+    technicalLevel: z.enum(['beginner', 'intermediate', 'advanced', 'expert']),
+    projectFamiliarity: z.enum(['unfamiliar', 'basic', 'familiar', 'expert']),
+    communicationStyle: z.enum(['formal', 'casual', 'technical', 'conversational', 'presentation']),
+  }).strict().partial(),
+  style: z.object({
+    tone: z.enum(['professional', 'enthusiastic', 'educational', 'collaborative', 'celebratory']),
+    pacing: z.enum(['slow', 'moderate', 'fast', 'dynamic']),
+    approach: z.enum(['chronological', 'problem_solution', 'journey', 'analytical', 'showcase']),
+    complexity: z.enum(['simple', 'moderate', 'complex', 'technical']),
+    emphasis: z.enum(['metrics_focused', 'story_focused', 'impact_focused', 'process_focused']),
+  }).strict().partial(),
+  contentSelection: z.object({
+    name: z.string().min(1),
+    criteria: selectionCriteria,
+    filtering: z.array(filteringRule),
+  }).strict().partial(),
+}).strict().partial();
+
+export const templateFileSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9][\w-]*$/, 'must start with a letter or digit and contain only letters, digits, _ or -'),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  type: z.enum(TEMPLATE_TYPES).default('custom'),
+  /** Built-in template that supplies defaults, adaptations and suitability scoring the file leaves out */
+  extends: z.enum(BASE_TEMPLATES).default('summary'),
+  durationRange: z.object({ min: seconds, max: seconds, default: seconds }).strict(),
+  structure: z.object({
+    required: z.array(sectionDefinition).min(1, 'a template needs at least one required section'),
+    optional: z.array(sectionDefinition).default([]),
+    ordering: z.array(orderingRule).default([]),
+    transitions: z.array(transitionRule).default([]),
+  }).strict(),
+  defaults: defaults.default({}),
+  suitability: z.object({
+    primary: z.array(audienceType).min(1),
+    secondary: z.array(audienceType).default([]),
+    unsuitable: z.array(audienceType).default([]),
+    threshold: unitInterval.optional(),
+    weights: z.record(z.number()).optional(),
+  }).strict().optional(),
+}).strict().superRefine((template, ctx) => {
+  const { min, max, default: preferred } = template.durationRange;
+  if (min > max || preferred < min || preferred > max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['durationRange'],
+      message: `needs min <= default <= max (got ${min}, ${preferred}, ${max})`,
+    });
+  }
+
+  // Each section type may appear once, across required and optional
+  const declared = new Set<string>();
+  (['required', 'optional'] as const).forEach(group => {
+    template.structure[group].forEach((section, index) => {
+      if (declared.has(section.type)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['structure', group, index, 'type'],
+          message: `section "${section.type}" is declared more than once`,
+        });
+      }
+      declared.add(section.type);
+    });
+  });
+
+  const checkDeclared = (type: string, path: (string | number)[]) => {
+    if (!declared.has(type)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['structure', ...path],
+        message: `"${type}" is not one of the template's sections (${Array.from(declared).join(', ')})`,
+      });
+    }
+  };
+  template.structure.ordering.forEach((rule, index) => {
+    checkDeclared(rule.before, ['ordering', index, 'before']);
+    checkDeclared(rule.after, ['ordering', index, 'after']);
+  });
+  template.structure.transitions.forEach((rule, index) => {
+    checkDeclared(rule.from, ['transitions', index, 'from']);
+    checkDeclared(rule.to, ['transitions', index, 'to']);
+  });
+
+  const requiredMinimum = template.structure.required.reduce((total, section) => total + section.duration.min, 0);
+  if (requiredMinimum > max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['structure', 'required'],
+      message: `required sections need at least ${requiredMinimum}s but durationRange.max is ${max}s`,
+    });
+  }
+});
+
+/**
+ * A template file after validation, with defaults applied
+ */
+export type TemplateFile = z.infer<typeof templateFileSchema>;
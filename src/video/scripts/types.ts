@@ -3,6 +3,7 @@
  * Supporting dynamic script creation for GitHub PR videos
  */
 
+import { DefinitionError } from '../../definitions/types';
 import { VideoMetadata, VideoSceneData } from '../../github/transformer';
 
 /**
@@ -52,10 +53,22 @@ export interface ScriptSection {
   };
   /** Priority for content selection */
   priority: SectionPriority;
+  /** Synthesized voiceover clip, once a TTS engine has read the section */
+  narration?: SectionNarration;
   /** Additional context data */
   data?: any;
 }
 
+/**
+ * Audio clip narrating a section
+ */
+export interface SectionNarration {
+  /** Clip location: a path under the Remotion public directory, or an absolute URL */
+  src: string;
+  /** Measured clip length in seconds */
+  durationInSeconds: number;
+}
+
 /**
  * Script section types corresponding to video scenes
  */
@@ -69,6 +82,7 @@ export type ScriptSectionType =
   | 'code_changes'
   | 'file_analysis'
   | 'review_process'
+  | 'feedback_addressed'
   | 'collaboration'
   | 'timeline'
   | 'impact_assessment'
@@ -274,6 +288,8 @@ export type ContentType =
   | 'metrics'
   | 'timeline_events'
   | 'discussion_threads'
+  | 'linked_issues'
+  | 'addressed_feedback'
   | 'code_samples'
   | 'impact_analysis';
 
@@ -795,6 +811,10 @@ export interface ScriptGenerationConfig {
   qualityRequirements?: Partial<QualityMetrics>;
   /** Custom template overrides */
   templateOverrides?: Partial<ScriptTemplate>;
+  /** Template to use by id, for when several templates share a type (e.g. `custom` templates loaded from files) */
+  templateId?: string;
+  /** Seed for every random choice; the same seed, inputs and clock give an identical script */
+  seed?: number | string;
 }
 
 /**
@@ -837,4 +857,14 @@ export interface ScriptGenerationSuggestion {
   changes: Record<string, any>;
   /** Expected improvement */
   expectedImprovement: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Error raised when a template definition file cannot be read or does not describe a valid template
+ */
+export class TemplateDefinitionError extends DefinitionError {
+  constructor(message: string, public file: string, issues: string[] = [], cause?: unknown) {
+    super(message, issues, cause);
+    this.name = 'TemplateDefinitionError';
+  }
+}
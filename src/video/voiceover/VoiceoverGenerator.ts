@@ -0,0 +1,80 @@
+/**
+ * Synthesizes a clip per script section and fits the section timings to the measured speech
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DurationAdapter } from '../scripts/adapters/DurationAdapter';
+import { ScriptSection, VideoScript } from '../scripts/types';
+import { TTSEngine, VoiceoverClip, VoiceoverError, VoiceoverOptions, VoiceoverResult } from './types';
+import { wavDurationInSeconds } from './wav';
+
+export class VoiceoverGenerator {
+  private durationAdapter: DurationAdapter;
+
+  constructor(private engine: TTSEngine, private options: VoiceoverOptions) {
+    this.durationAdapter = new DurationAdapter();
+  }
+
+  /**
+   * Write one WAV per narrated section and return the script retimed around them
+   */
+  async generate(script: VideoScript): Promise<VoiceoverResult> {
+    const outputDir = path.resolve(this.options.outputDir);
+    const publicPath = (this.options.publicPath ?? path.basename(outputDir)).replace(/\/+$/, '');
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    const clips: VoiceoverClip[] = [];
+    const narrated: ScriptSection[] = [];
+
+    // Sequential on purpose: offline synthesizers are CPU-bound and one at a time keeps them responsive
+    for (const section of script.sections) {
+      const text = section.voiceover.trim();
+      if (!text) {
+        narrated.push(section);
+        continue;
+      }
+
+      const clip = await this.synthesizeSection(section, text, outputDir, publicPath);
+      clips.push(clip);
+      narrated.push({ ...section, narration: { src: clip.src, durationInSeconds: clip.durationInSeconds } });
+    }
+
+    return {
+      script: { ...script, sections: this.durationAdapter.fitToNarration(narrated, this.options.padding) },
+      clips,
+      speechDuration: clips.reduce((total, clip) => total + clip.durationInSeconds, 0),
+    };
+  }
+
+  private async synthesizeSection(
+    section: ScriptSection,
+    text: string,
+    outputDir: string,
+    publicPath: string
+  ): Promise<VoiceoverClip> {
+    const audio = await this.engine.synthesize(text);
+
+    let durationInSeconds: number;
+    try {
+      durationInSeconds = wavDurationInSeconds(audio);
+    } catch (error) {
+      throw new VoiceoverError(
+        `Could not measure the ${this.engine.kind} clip for "${section.title}": ${(error as Error).message}`,
+        this.engine.kind,
+        error
+      );
+    }
+
+    const name = `${section.id.replace(/[^\w-]+/g, '_')}.wav`;
+    const file = path.join(outputDir, name);
+    fs.writeFileSync(file, audio);
+
+    return {
+      sectionId: section.id,
+      file,
+      src: publicPath ? `${publicPath}/${name}` : name,
+      durationInSeconds,
+    };
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Tests for TTS engines, WAV measurement and fitting script timings to narration
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createTTSEngine,
+  encodeWav,
+  EspeakTTSEngine,
+  StubTTSEngine,
+  VoiceoverError,
+  VoiceoverGenerator,
+  wavDurationInSeconds,
+} from '..';
+import { ScriptSection, VideoScript } from '../../scripts/types';
+
+const section = (type: ScriptSection['type'], start: number, end: number, voiceover: string): ScriptSection => ({
+  id: `section_${type}_1700000000000`,
+  type,
+  title: type,
+  content: '',
+  voiceover,
+  visualCues: [{ timestamp: (end - start) / 2, type: 'metric', description: 'stats', duration: (end - start) / 4 }],
+  duration: end - start,
+  timing: { start, end },
+  priority: 'high',
+});
+
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+describe('WAV helpers', () => {
+  it('should measure encoded clips, including streamed ones without a data size', () => {
+    const wav = encodeWav(new Float32Array(8000 * 3), 8000);
+    expect(wavDurationInSeconds(wav)).toBe(3);
+
+    const streamed = Buffer.from(wav);
+    streamed.writeUInt32LE(0xffffffff, 40);
+    expect(wavDurationInSeconds(streamed)).toBe(3);
+
+    expect(() => wavDurationInSeconds(Buffer.from('not audio'))).toThrow('Not a RIFF/WAVE file');
+  });
+});
+
+describe('TTS engines', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'voiceover-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should size stub clips by reading speed', async () => {
+    const engine = createTTSEngine({ type: 'stub', wordsPerMinute: 120, beep: true });
+
+    expect(engine).toBeInstanceOf(StubTTSEngine);
+    expect(wavDurationInSeconds(await engine.synthesize(words(10)))).toBe(5);
+    expect(wavDurationInSeconds(await engine.synthesize(''))).toBe(0.5);
+  });
+
+  it('should pipe the text to the synthesizer binary and read back its WAV file', async () => {
+    const fixture = path.join(directory, 'fixture.wav');
+    const binary = path.join(directory, 'espeak-ng');
+    fs.writeFileSync(fixture, encodeWav(new Float32Array(4000), 8000));
+    fs.writeFileSync(
+      binary,
+      [
+        '#!/bin/sh',
+        'while [ $# -gt 0 ]; do [ "$1" = "-w" ] && out="$2"; echo "$1" >> "$0.args"; shift; done',
+        'cat > "$0.stdin"',
+        `cp "${fixture}" "$out"`,
+      ].join('\n'),
+      { mode: 0o755 }
+    );
+
+    const audio = await new EspeakTTSEngine({ binary, voice: 'en-us', wordsPerMinute: 180 }).synthesize('Hello there');
+
+    expect(wavDurationInSeconds(audio)).toBe(0.5);
+    expect(fs.readFileSync(`${binary}.stdin`, 'utf8')).toBe('Hello there');
+    expect(fs.readFileSync(`${binary}.args`, 'utf8')).toContain('--stdin\n-w\n');
+    expect(fs.readFileSync(`${binary}.args`, 'utf8')).toContain('-s\n180\n-v\nen-us\n');
+  });
+
+  it('should report a missing synthesizer as a VoiceoverError', async () => {
+    const engine = new EspeakTTSEngine({ binary: path.join(directory, 'missing-espeak') });
+
+    await expect(engine.synthesize('Hello')).rejects.toThrow(VoiceoverError);
+    await expect(engine.synthesize('Hello')).rejects.toThrow('not found; install it or choose another voiceover engine');
+  });
+});
+
+describe('VoiceoverGenerator', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'voiceover-clips-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should write a clip per narrated section and fit the timings to the speech', async () => {
+    const script = {
+      sections: [
+        section('overview', 0, 20, words(24)),
+        section('timeline', 20, 26, '  '),
+        section('code_changes', 26, 30, words(40)),
+      ],
+    } as VideoScript;
+
+    const result = await new VoiceoverGenerator(new StubTTSEngine({ wordsPerMinute: 120 }), {
+      outputDir,
+      publicPath: 'voiceover/pr-42',
+      padding: 1,
+    }).generate(script);
+
+    expect(result.clips.map(clip => [clip.src, clip.durationInSeconds])).toEqual([
+      ['voiceover/pr-42/section_overview_1700000000000.wav', 12],
+      ['voiceover/pr-42/section_code_changes_1700000000000.wav', 20],
+    ]);
+    expect(result.clips.every(clip => fs.existsSync(clip.file))).toBe(true);
+    expect(result.speechDuration).toBe(32);
+
+    const [overview, timeline, codeChanges] = result.script.sections;
+    expect(overview).toMatchObject({ duration: 13, timing: { start: 0, end: 13 } });
+    expect(overview.narration).toEqual({ src: 'voiceover/pr-42/section_overview_1700000000000.wav', durationInSeconds: 12 });
+    expect(overview.visualCues[0]).toMatchObject({ timestamp: 6.5, duration: 3.25 });
+    expect(timeline).toMatchObject({ duration: 6, timing: { start: 13, end: 19 } });
+    expect(timeline.narration).toBeUndefined();
+    expect(codeChanges).toMatchObject({ duration: 21, timing: { start: 19, end: 40 } });
+  });
+
+  it('should keep a section at its minimum length when the speech is shorter', async () => {
+    const result = await new VoiceoverGenerator(new StubTTSEngine(), { outputDir }).generate({
+      sections: [section('technical_details', 0, 12, 'Short.')],
+    } as VideoScript);
+
+    expect(result.script.sections[0].duration).toBe(8);
+    expect(result.clips[0].src).toBe(`${path.basename(outputDir)}/section_technical_details_1700000000000.wav`);
+  });
+});
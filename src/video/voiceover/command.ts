@@ -0,0 +1,108 @@
+/**
+ * Offline TTS engines that shell out to a local synthesizer binary
+ * The text goes in on stdin and the engine writes a WAV file to a temporary path
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EspeakEngineConfig, PiperEngineConfig, TTSEngine, TTSEngineKind, VoiceoverError } from './types';
+
+abstract class CommandLineTTSEngine implements TTSEngine {
+  abstract readonly kind: TTSEngineKind;
+
+  constructor(protected binary: string) {}
+
+  /**
+   * Arguments that make the binary read stdin and write a WAV file to `output`
+   */
+  protected abstract buildArgs(output: string): string[];
+
+  async synthesize(text: string): Promise<Buffer> {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'git2video-tts-'));
+    const output = path.join(directory, 'speech.wav');
+
+    try {
+      await this.run(this.buildArgs(output), text);
+      return fs.readFileSync(output);
+    } catch (error) {
+      if (error instanceof VoiceoverError) {
+        throw error;
+      }
+      throw new VoiceoverError(`${this.binary} did not write a WAV file: ${(error as Error).message}`, this.kind, error);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  }
+
+  private run(args: string[], input: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.binary, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+      let stderr = '';
+
+      child.stderr.on('data', chunk => {
+        stderr += chunk;
+      });
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        reject(new VoiceoverError(
+          error.code === 'ENOENT'
+            ? `${this.binary} not found; install it or choose another voiceover engine`
+            : `${this.binary} failed to start: ${error.message}`,
+          this.kind,
+          error
+        ));
+      });
+      child.on('close', code => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new VoiceoverError(`${this.binary} exited with code ${code}: ${stderr.trim()}`, this.kind));
+        }
+      });
+
+      // A missing binary closes stdin before the write; the 'error' handler reports it
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(input);
+    });
+  }
+}
+
+/**
+ * eSpeak NG (`espeak-ng`): small, formant-based and widely packaged
+ */
+export class EspeakTTSEngine extends CommandLineTTSEngine {
+  readonly kind = 'espeak' as const;
+
+  constructor(private config: Omit<EspeakEngineConfig, 'type'> = {}) {
+    super(config.binary || 'espeak-ng');
+  }
+
+  protected buildArgs(output: string): string[] {
+    return [
+      '--stdin',
+      '-w', output,
+      '-s', String(this.config.wordsPerMinute ?? 160),
+      ...(this.config.voice ? ['-v', this.config.voice] : []),
+    ];
+  }
+}
+
+/**
+ * Piper (`piper`): neural voices from a local `.onnx` model
+ */
+export class PiperTTSEngine extends CommandLineTTSEngine {
+  readonly kind = 'piper' as const;
+
+  constructor(private config: Omit<PiperEngineConfig, 'type'>) {
+    super(config.binary || 'piper');
+  }
+
+  protected buildArgs(output: string): string[] {
+    return [
+      '--model', this.config.model,
+      '--output_file', output,
+      ...(this.config.speaker !== undefined ? ['--speaker', String(this.config.speaker)] : []),
+    ];
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Pluggable text-to-speech for script voiceovers
+ * Synthesizes each section's narration offline and retimes the script to fit it
+ */
+
+import { EspeakTTSEngine, PiperTTSEngine } from './command';
+import { StubTTSEngine } from './stub';
+import { TTSEngine, TTSEngineConfig } from './types';
+
+export * from './types';
+export * from './command';
+export * from './stub';
+export * from './wav';
+export { VoiceoverGenerator } from './VoiceoverGenerator';
+
+/**
+ * Create a TTS engine from its configuration
+ */
+export function createTTSEngine(config: TTSEngineConfig): TTSEngine {
+  switch (config.type) {
+    case 'espeak':
+      return new EspeakTTSEngine(config);
+    case 'piper':
+      return new PiperTTSEngine(config);
+    case 'stub':
+      return new StubTTSEngine(config);
+  }
+}
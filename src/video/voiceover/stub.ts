@@ -0,0 +1,38 @@
+/**
+ * Dependency-free TTS stand-in for tests and machines without a synthesizer
+ * Clips are silent (or start with a short beep) and last as long as the text would take to read
+ */
+
+import { StubEngineConfig, TTSEngine } from './types';
+import { encodeWav } from './wav';
+
+const SAMPLE_RATE = 8000;
+const BEEP_SECONDS = 0.15;
+const BEEP_HZ = 880;
+
+export class StubTTSEngine implements TTSEngine {
+  readonly kind = 'stub' as const;
+
+  constructor(private config: Omit<StubEngineConfig, 'type'> = {}) {}
+
+  async synthesize(text: string): Promise<Buffer> {
+    const samples = new Float32Array(Math.round(this.readingTime(text) * SAMPLE_RATE));
+
+    if (this.config.beep) {
+      const beepSamples = Math.min(samples.length, Math.round(BEEP_SECONDS * SAMPLE_RATE));
+      for (let index = 0; index < beepSamples; index++) {
+        samples[index] = 0.3 * Math.sin((2 * Math.PI * BEEP_HZ * index) / SAMPLE_RATE);
+      }
+    }
+
+    return encodeWav(samples, SAMPLE_RATE);
+  }
+
+  /**
+   * Seconds needed to read the text aloud, never shorter than half a second
+   */
+  readingTime(text: string): number {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    return Math.max(0.5, (words / (this.config.wordsPerMinute ?? 160)) * 60);
+  }
+}
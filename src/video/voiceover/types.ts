@@ -0,0 +1,98 @@
+/**
+ * Shared interfaces for text-to-speech engines and the voiceover track they produce
+ */
+
+import { VideoScript } from '../scripts/types';
+
+/**
+ * A speech synthesizer that turns narration text into a WAV clip
+ */
+export interface TTSEngine {
+  /** Engine identifier used in logs and errors */
+  readonly kind: TTSEngineKind;
+  /** Synthesize the text; resolves with a RIFF/WAV file */
+  synthesize(text: string): Promise<Buffer>;
+}
+
+export type TTSEngineKind = 'espeak' | 'piper' | 'stub';
+
+/**
+ * Configuration for the eSpeak NG command-line synthesizer
+ */
+export interface EspeakEngineConfig {
+  type: 'espeak';
+  /** Voice name, e.g. `en-us` (default: espeak's default voice) */
+  voice?: string;
+  /** Speaking rate (default: 160) */
+  wordsPerMinute?: number;
+  /** Path to the executable (default: `espeak-ng`) */
+  binary?: string;
+}
+
+/**
+ * Configuration for the Piper neural synthesizer
+ */
+export interface PiperEngineConfig {
+  type: 'piper';
+  /** Path to the `.onnx` voice model */
+  model: string;
+  /** Speaker id for multi-speaker models */
+  speaker?: number;
+  /** Path to the executable (default: `piper`) */
+  binary?: string;
+}
+
+/**
+ * Configuration for the dependency-free stub, which emits silence (or a beep) as long as the text would take to read
+ */
+export interface StubEngineConfig {
+  type: 'stub';
+  /** Reading speed used to size the clip (default: 160) */
+  wordsPerMinute?: number;
+  /** Emit a short beep at the start of each clip instead of pure silence */
+  beep?: boolean;
+}
+
+export type TTSEngineConfig = EspeakEngineConfig | PiperEngineConfig | StubEngineConfig;
+
+/**
+ * Options for writing a script's voiceover clips
+ */
+export interface VoiceoverOptions {
+  /** Directory the clips are written to */
+  outputDir: string;
+  /** Prefix for each clip's `src`, relative to the Remotion public directory (default: the base name of `outputDir`) */
+  publicPath?: string;
+  /** Seconds of silence after each clip before the next section (default: 0.5) */
+  padding?: number;
+}
+
+/**
+ * A synthesized section clip
+ */
+export interface VoiceoverClip {
+  sectionId: string;
+  /** Absolute path of the written WAV file */
+  file: string;
+  /** Path under the public directory passed to the composition */
+  src: string;
+  durationInSeconds: number;
+}
+
+export interface VoiceoverResult {
+  /** Script with narration attached and section timings fitted to the speech */
+  script: VideoScript;
+  clips: VoiceoverClip[];
+  /** Total seconds of speech across all clips */
+  speechDuration: number;
+}
+
+/**
+ * Error raised when a TTS engine cannot synthesize a clip
+ */
+export class VoiceoverError extends Error {
+  constructor(message: string, public engine: TTSEngineKind, public cause?: unknown) {
+    super(message);
+    this.name = 'VoiceoverError';
+  }
+}
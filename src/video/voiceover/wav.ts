@@ -0,0 +1,64 @@
+/**
+ * Minimal RIFF/WAV helpers: measure a clip's length and encode PCM for the stub engine
+ */
+
+/**
+ * Length of a WAV file in seconds, from its `fmt ` byte rate and `data` chunk size
+ */
+export function wavDurationInSeconds(wav: Buffer): number {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const id = wav.toString('ascii', offset, offset + 4);
+    const size = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      byteRate = wav.readUInt32LE(body + 8);
+    } else if (id === 'data') {
+      if (!byteRate) {
+        throw new Error('WAV data chunk precedes its fmt chunk');
+      }
+      // Streaming writers leave the size as 0 or 0xFFFFFFFF; fall back to the bytes actually present
+      const available = wav.length - body;
+      const dataSize = size === 0 || size > available ? available : size;
+      return dataSize / byteRate;
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+/**
+ * Encode mono 16-bit PCM samples (-1..1) as a WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Buffer {
+  const dataSize = samples.length * 2;
+  const wav = Buffer.alloc(44 + dataSize);
+
+  wav.write('RIFF', 0, 'ascii');
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write('WAVE', 8, 'ascii');
+  wav.write('fmt ', 12, 'ascii');
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36, 'ascii');
+  wav.writeUInt32LE(dataSize, 40);
+
+  samples.forEach((sample, index) => {
+    wav.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 0x7fff), 44 + index * 2);
+  });
+
+  return wav;
+}